@@ -2,20 +2,28 @@ import "dotenv/config";
 import express from "express";
 import cors from "cors";
 import { createServer } from "./index";
+import { attachEventSocket } from "./routes/events";
+import { routeConsole } from "./lib/logger";
+
+// Plain console lines are written as structured log records too
+routeConsole();
 
 const app = createServer();
 const port = process.env.SERVER_PORT || 3001; // Different port for development
 
-app.listen(port, () => {
+const server = app.listen(port, () => {
   console.log(`🚀 Development server running on port ${port}`);
   console.log(`🔧 API endpoints available at http://localhost:${port}/api`);
-  console.log(`📊 Debug endpoints:`);
+  console.log(`📊 Debug endpoints (admin token required):`);
   console.log(`   - http://localhost:${port}/api/test`);
   console.log(`   - http://localhost:${port}/api/debug/env`);
   console.log(`   - http://localhost:${port}/api/debug/intelligent`);
   console.log(`   - http://localhost:${port}/api/debug`);
 });
 
+// Job events over WebSocket share the HTTP server
+attachEventSocket(server);
+
 // Graceful shutdown
 process.on("SIGTERM", () => {
   console.log("🛑 Received SIGTERM, shutting down gracefully");
@@ -2,9 +2,10 @@ import "dotenv/config";
 import express from "express";
 import cors from "cors";
 import { handleDemo } from "./routes/demo";
-import { verifyToken, getCurrentUser, upsertUserData, getUserHistory } from "./routes/auth";
+import { verifyToken, getCurrentUser, upsertUserData, getUserHistory, requireDebugAccess } from "./routes/auth";
 import deploymentRoutes from "./routes/deployment";
 import autoDeployRoutes from "./routes/autoDeploy";
+import credentialRoutes from "./routes/credentials";
 import dockerMonitorRoutes from "./routes/dockerMonitor";
 import dockerStatusRoutes from "./routes/dockerStatus";
 import advancedDockerFixRoutes from "./routes/advancedDockerFix";
@@ -12,6 +13,7 @@ import dockerBuildFixRoutes from "./routes/dockerBuildFix";
 import dockerAutoFixRoutes from "./routes/dockerAutoFix";
 import langchainDockerFixRoutes from "./routes/langchainDockerFix";
 import completeDockerFixRoutes from "./routes/completeDockerFix";
+import eventRoutes from "./routes/events";
 import { handleRAGQuery, testRAGConnection } from "./routes/ragBot";
 
 export function createServer() {
@@ -19,8 +21,13 @@ export function createServer() {
 
   // Middleware
   app.use(cors());
-  app.use(express.json());
-  app.use(express.urlencoded({ extended: true }));
+  // Keep the raw body so webhook signatures can be verified byte-for-byte
+  const keepRawBody = (req: express.Request, _res: express.Response, buf: Buffer) => {
+    req.rawBody = buf;
+  };
+  // Chunked upload sessions list every file of a project up front
+  app.use(express.json({ verify: keepRawBody, limit: '2mb' }));
+  app.use(express.urlencoded({ extended: true, verify: keepRawBody }));
 
   // Example API routes
   app.get("/api/ping", (_req, res) => {
@@ -37,28 +44,22 @@ export function createServer() {
     });
   });
 
-  // Debug endpoint to check environment variables
-  app.get("/api/debug/env", (_req, res) => {
-    const openaiKey = process.env.OPENAI_API_KEY;
+  // Debug endpoint to check environment variables (names only, never values)
+  app.get("/api/debug/env", requireDebugAccess, (_req, res) => {
     res.json({
-      hasOpenAIKey: !!openaiKey,
-      keyLength: openaiKey?.length || 0,
-      keyStart: openaiKey ? openaiKey.substring(0, 15) + '...' : 'NOT_FOUND',
+      hasOpenAIKey: !!process.env.OPENAI_API_KEY,
       allEnvKeys: Object.keys(process.env).filter(k => k.includes('OPENAI'))
     });
   });
 
   // Environment check for intelligent file generation
-  app.get("/api/debug/intelligent", (_req, res) => {
-    const openaiKey = process.env.OPENAI_API_KEY;
+  app.get("/api/debug/intelligent", requireDebugAccess, (_req, res) => {
     const nodeEnv = process.env.NODE_ENV;
     
     res.json({
       status: 'checking intelligent file generation setup',
       openai: {
-        hasKey: !!openaiKey,
-        keyLength: openaiKey?.length || 0,
-        keyStart: openaiKey ? openaiKey.substring(0, 15) + '...' : 'NOT_FOUND'
+        hasKey: !!process.env.OPENAI_API_KEY
       },
       environment: {
         nodeEnv: nodeEnv || 'development',
@@ -83,8 +84,14 @@ export function createServer() {
   // Deployment routes
   app.use("/api", deploymentRoutes);
   
+  // Event streams of long-running jobs (SSE; WebSocket via attachEventSocket)
+  app.use("/api", eventRoutes);
+
   // Auto-deployment routes
   app.use("/api/auto-deploy", autoDeployRoutes);
+
+  // Stored credentials (GitHub, registries, cloud targets)
+  app.use("/api/credentials", credentialRoutes);
   
   // Docker monitor routes
   app.use("/api/docker-monitor", dockerMonitorRoutes);
@@ -1,19 +1,24 @@
 import OpenAI from 'openai';
 import axios from 'axios';
+import path from 'path';
 import { IntelligentFileGenerator, FileAnalysisResult, GeneratedFile } from './intelligentFileGenerator_fixed';
-import { build_docker_image, push_docker_image, deriveImageName, prepareBuildContext } from './docker';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { build_docker_image, push_docker_image, deriveImageName } from './docker';
+import { workspaceManager, workspaceId } from './workspaces';
+import { fetchRepository, RepoCheckout, RepoFetchError, RepoFetchErrorCode } from './repoFetcher';
+import { generateTemplateDockerfile } from './dockerfileTemplates';
+import { detectServices, renderComposeFile, serviceImageNames, writeServiceFiles, ServiceLayout } from './serviceDetector';
+import { detectRuntimeRequirements, generateKubernetesArtifacts, KubernetesArtifacts, KubernetesOptions, RuntimeRequirements } from './kubernetesManifests';
+import { formatSecretFinding, scanDockerfileForSecrets, scanFilesForSecrets } from './secretScanner';
+import type { SecretFinding } from '../../shared/types';
 
 // GitHub API interfaces
 export interface GitHubFile {
   name: string;
   path: string;
   type: 'file' | 'dir';
-  content?: string;
+  content?: string; // Text files only
+  buffer?: Buffer; // Exact bytes, when known; written to the build context as is
+  localPath?: string; // Bytes on disk (large uploads); copied into the build context
   download_url?: string;
 }
 
@@ -28,214 +33,30 @@ export interface ProjectAnalysis {
   generatedFiles?: GeneratedFile[];
   projectHealth?: 'excellent' | 'good' | 'needs_improvement' | 'critical';
   entryPoint?: string; // Added for Python entry points
+  projectFiles?: string[]; // Paths up to three levels deep, used for build template detection
+  lockfiles?: string[]; // Lockfiles present at the repository root
+  scripts?: Record<string, string>; // package.json scripts
+  projectName?: string; // Crate, module or .NET project name used for build output
+  runtime?: RuntimeRequirements; // Env vars, health endpoints and model paths read by the code
+  secretFindings?: SecretFinding[]; // Credentials in the project files; values are redacted
 }
 
-// Fetch GitHub repository contents
-export async function fetchGitHubRepo(repoUrl: string, githubToken?: string): Promise<GitHubFile[]> {
-  try {
-    console.log('🔍 Fetching GitHub repo:', repoUrl);
-
-    // Extract owner and repo from GitHub URL
-    const match = repoUrl.match(/github\.com\/([^\/]+)\/([^\/]+)/);
-    if (!match) {
-      throw new Error('Invalid GitHub URL format');
-    }
-
-    const [, owner, repo] = match;
-    const cleanRepo = repo.replace(/\.git$/, '');
-
-    console.log('📁 Repository details:', { owner, repo: cleanRepo });
-
-    // Set up headers
-    const headers: Record<string, string> = {
-      'Accept': 'application/vnd.github.v3+json',
-      'User-Agent': 'AutoDeploy-AI'
-    };
-
-    if (githubToken) {
-      headers['Authorization'] = `token ${githubToken}`;
-    }
-
-    // Fetch repository contents recursively
-    const files: GitHubFile[] = [];
-    await fetchRepoContentsRecursive(owner, cleanRepo, '', files, headers);
-
-    console.log('📄 Files found:', files.length);
-
-    return files;
-  } catch (error) {
-    console.error('❌ Error fetching GitHub repo:', error);
-    throw new Error(`Failed to fetch repository: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-}
-
-// Recursively fetch repository contents with enhanced depth and file content analysis
-async function fetchRepoContentsRecursive(
-  owner: string,
-  repo: string,
-  path: string,
-  files: GitHubFile[],
-  headers: Record<string, string>,
-  maxDepth: number = 6, // Increased depth for thorough analysis
-  currentDepth: number = 0
-): Promise<void> {
-  if (currentDepth >= maxDepth) return;
-
-  const url = `https://api.github.com/repos/${owner}/${repo}/contents/${path}`;
-  
-  try {
-    console.log(`📂 Fetching depth ${currentDepth}: ${url}`);
-
-    const response = await axios.get(url, { headers });
-
-    const contents = Array.isArray(response.data) ? response.data : [response.data];
-    console.log(`📋 Found ${contents.length} items in ${path || 'root'} at depth ${currentDepth}`);
-
-    for (const item of contents) {
-      if (item.type === 'file') {
-        const fileInfo: GitHubFile = {
-          name: item.name,
-          path: item.path,
-          type: 'file',
-          download_url: item.download_url
-        };
-
-        // Immediately fetch content for important files for deeper analysis
-        if (isImportantFile(item.name, item.path)) {
-          try {
-            console.log(`🔍 Fetching important file content: ${item.name}`);
-            const fileResponse = await axios.get(item.download_url, { headers });
-            fileInfo.content = fileResponse.data;
-            console.log(`✅ Downloaded ${item.name} (${fileInfo.content?.length || 0} chars)`);
-          } catch (error) {
-            console.log(`⚠️ Failed to fetch content for ${item.name}:`, error);
-          }
-        }
-
-        files.push(fileInfo);
-        console.log(`📄 Added file: ${item.name} (${fileInfo.content ? 'with content' : 'metadata only'})`);
-      } else if (item.type === 'dir' && !shouldSkipDirectory(item.name)) {
-        console.log(`📁 Entering directory: ${item.name} (depth ${currentDepth + 1})`);
-        await fetchRepoContentsRecursive(owner, repo, item.path, files, headers, maxDepth, currentDepth + 1);
-      }
-    }
-  } catch (error) {
-    console.error(`❌ Error fetching contents for path ${path}:`, error);
-    if (axios.isAxiosError(error)) {
-      console.error('Response status:', error.response?.status);
-      console.error('Response data:', error.response?.data);
-      console.error('Request URL:', url);
-      
-      // Specific GitHub API error handling
-      if (error.response?.status === 403) {
-        console.error('🚫 GitHub API rate limit exceeded or access denied');
-        console.error('💡 Solution: Add a GitHub personal access token to your .env file');
-        console.error('   GITHUB_TOKEN=your_token_here');
-      } else if (error.response?.status === 404) {
-        console.error('🔍 Repository or path not found');
-        console.error('   Check if the repository exists and is public');
-      }
-    }
-  }
-}
-
-// Enhanced file importance detection for comprehensive code analysis
-function isImportantFile(fileName: string, filePath: string): boolean {
-  const importantFiles = [
-    // Package and dependency files
-    'package.json', 'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml',
-    'requirements.txt', 'pyproject.toml', 'Pipfile', 'poetry.lock', 'setup.py', 'setup.cfg',
-    'Cargo.toml', 'Cargo.lock', 'go.mod', 'go.sum',
-    'pom.xml', 'build.gradle', 'build.gradle.kts', 'gradle.properties',
-    'composer.json', 'composer.lock', 'Gemfile', 'Gemfile.lock',
-    'mix.exs', 'mix.lock', 'project.clj', 'deps.edn',
-
-    // Configuration files
-    'Dockerfile', 'docker-compose.yml', '.dockerignore',
-    'tsconfig.json', 'jsconfig.json', 'webpack.config.js', 'webpack.config.ts',
-    'vite.config.ts', 'vite.config.js', 'next.config.js', 'next.config.ts',
-    'tailwind.config.js', 'tailwind.config.ts', 'postcss.config.js',
-    'babel.config.js', 'babel.config.json', '.babelrc',
-    'eslint.config.js', '.eslintrc.js', '.eslintrc.json',
-    'prettier.config.js', '.prettierrc', '.prettierrc.json',
-
-    // Environment and deployment files
-    '.env', '.env.example', '.env.local', '.env.production',
-    'netlify.toml', 'vercel.json', 'now.json',
-    'railway.json', 'render.yaml', 'fly.toml',
-
-    // Entry point files
-    'app.py', 'main.py', 'server.py', 'wsgi.py', 'asgi.py', 'manage.py',
-    'index.js', 'server.js', 'app.js', 'main.js',
-    'index.ts', 'server.ts', 'app.ts', 'main.ts',
-    'index.html', 'app.html', 'main.html',
-    'main.go', 'main.rs', 'lib.rs',
-
-    // Framework-specific files
-    'angular.json', 'vue.config.js', 'nuxt.config.js', 'nuxt.config.ts',
-    'gatsby-config.js', 'gatsby-node.js', 'svelte.config.js',
-    'astro.config.mjs', 'remix.config.js',
-    'django_settings.py', 'settings.py', 'urls.py',
-
-    // ML/AI specific files
-    'model.py', 'train.py', 'predict.py', 'inference.py',
-    'data.py', 'dataset.py', 'preprocessing.py',
-    'config.yaml', 'config.json', 'params.yaml',
-    'dvc.yaml', 'dvc.lock',
-
-    // Database and API files
-    'database.py', 'db.py', 'models.py', 'schema.py',
-    'api.py', 'routes.py', 'views.py', 'handlers.py',
-    'middleware.py', 'auth.py', 'utils.py',
-
-    // Documentation and README
-    'README.md', 'README.rst', 'README.txt',
-    'CHANGELOG.md', 'CONTRIBUTING.md', 'LICENSE'
-  ];
-
-  // Check exact filename matches
-  if (importantFiles.includes(fileName)) return true;
-
-  // Check file extensions for thorough analysis
-  const importantExtensions = [
-    '.py', '.js', '.ts', '.jsx', '.tsx', '.vue', '.svelte',
-    '.html', '.css', '.scss', '.sass', '.less',
-    '.json', '.yaml', '.yml', '.toml', '.ini', '.cfg',
-    '.dockerfile', '.sh', '.bash', '.ps1',
-    '.sql', '.db', '.sqlite',
-    '.md', '.rst', '.txt'
-  ];
-
-  // Check if file has important extension
-  if (importantExtensions.some(ext => fileName.toLowerCase().endsWith(ext))) {
-    return true;
-  }
-
-  // Special path-based checks
-  if (filePath.includes('src/') && (fileName.endsWith('.py') || fileName.endsWith('.js') || fileName.endsWith('.ts'))) {
-    return true;
-  }
-
-  // ML model files
-  const modelExtensions = ['.pkl', '.h5', '.pt', '.pth', '.joblib', '.model', '.weights', '.bin'];
-  if (modelExtensions.some(ext => fileName.toLowerCase().endsWith(ext))) {
-    return true;
-  }
-
-  // Config files without extensions
-  const configFiles = ['Procfile', 'Makefile', 'CMakeLists.txt', 'Vagrantfile'];
-  if (configFiles.includes(fileName)) return true;
-
-  return false;
-}
-
-// Skip certain directories
-function shouldSkipDirectory(dirName: string): boolean {
-  const skipDirs = [
-    'node_modules', '.git', '.github', 'dist', 'build', '__pycache__',
-    '.venv', 'venv', 'env', '.env', 'target', 'vendor', '.next'
-  ];
-  return skipDirs.includes(dirName);
+const LOCKFILES = [
+  'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml',
+  'poetry.lock', 'uv.lock', 'Pipfile.lock',
+  'go.sum', 'Cargo.lock', 'Gemfile.lock', 'composer.lock'
+];
+const MAX_PROJECT_FILES = 1000;
+
+// Fetch repository contents from a full git checkout (any Git remote, not only GitHub).
+// Errors such as missing credentials, rate limits or oversized repos are thrown as
+// RepoFetchError instead of producing a partial file list.
+export async function fetchGitHubRepo(repoUrl: string, githubToken?: string, ref?: string): Promise<GitHubFile[]> {
+  console.log('🔍 Fetching repository:', repoUrl);
+  const { checkout, files } = await fetchRepository(repoUrl, { token: githubToken, ref });
+  checkout.cleanup();
+  console.log('📄 Files found:', files.length);
+  return files;
 }
 
 // Comprehensive deployment issue detection
@@ -333,22 +154,49 @@ function detectDeploymentIssues(analysis: ProjectAnalysis, files: GitHubFile[]):
   if (hasEnvUsage && !files.some(f => f.name === '.env.example')) {
     issues.push('Environment variables used in code but no .env.example file for reference');
   }
+
+  // Check for committed credentials
+  const secrets = analysis.secretFindings || [];
+  const excluded = new Set(secrets.filter(s => s.excluded).map(s => s.file));
+  if (excluded.size > 0) {
+    issues.push(`Secrets found in ${[...excluded].join(', ')} - excluded from the build context; provide them as runtime environment variables`);
+  }
+  const inline = secrets.filter(s => !s.excluded);
+  if (inline.length > 0) {
+    issues.push(`${inline.length} hard-coded secret(s) in source files (${[...new Set(inline.map(s => s.file))].slice(0, 5).join(', ')}) - move them to environment variables`);
+  }
   
   return issues;
 }
 
-// Analyze project structure and dependencies
-export async function analyzeProject(files: GitHubFile[], githubToken?: string): Promise<ProjectAnalysis> {
+// Static analysis of files that are already in memory (no network or AI calls)
+export function analyzeFiles(files: GitHubFile[]): ProjectAnalysis {
   const analysis: ProjectAnalysis = {
     language: 'unknown',
     dependencies: [],
     packageFiles: [],
     hasDockerfile: false
   };
-  
+
+  const paths = files.filter(f => f.type === 'file').map(f => f.path);
+  analysis.projectFiles = paths.filter(p => p.split('/').length <= 3).sort().slice(0, MAX_PROJECT_FILES);
+  analysis.lockfiles = LOCKFILES.filter(name => paths.includes(name));
+
+  for (const file of files) {
+    if (file.content) {
+      analyzeFileContent(file, analysis, files);
+    }
+  }
+  analysis.runtime = detectRuntimeRequirements(files, analysis.dependencies);
+
+  return analysis;
+}
+
+// Analyze project structure and dependencies
+export async function analyzeProject(files: GitHubFile[], githubToken?: string): Promise<ProjectAnalysis> {
   console.log(`\n🔍 Starting comprehensive project analysis of ${files.length} files...`);
   
-  // Download and analyze important files
+  // Download important files that were listed without content
   for (const file of files) {
     if (file.download_url && !file.content) {
       try {
@@ -364,13 +212,10 @@ export async function analyzeProject(files: GitHubFile[], githubToken?: string):
         console.error(`Error downloading file ${file.path}:`, error);
       }
     }
-    
-    // Analyze file content
-    if (file.content) {
-      analyzeFileContent(file, analysis, files);
-    }
   }
 
+  const analysis = analyzeFiles(files);
+
       // Enhanced analysis: Check for missing files and generate them
     if (analysis.language !== 'unknown') {
       try {
@@ -426,6 +271,11 @@ export async function analyzeProject(files: GitHubFile[], githubToken?: string):
       }
     }
   
+  // Secret detection runs over every file we received, before anything is built
+  console.log('\n🔐 Scanning files for secrets...');
+  analysis.secretFindings = scanFilesForSecrets(files).findings;
+  analysis.secretFindings.forEach(finding => console.log(`   - ${formatSecretFinding(finding)}`));
+
   // Add comprehensive error detection after all files are analyzed
   console.log('\n🔍 Running deployment readiness checks...');
   const deploymentIssues = detectDeploymentIssues(analysis, files);
@@ -464,22 +314,28 @@ function analyzeFileContent(file: GitHubFile, analysis: ProjectAnalysis, files:
           analysis.dependencies.push(...Object.keys(pkg.devDependencies));
         }
         
-        // Enhanced framework detection
-        if (pkg.dependencies?.react || pkg.devDependencies?.react) {
+        // Enhanced framework detection (Next.js before React, since Next.js apps also depend on react)
+        if (pkg.dependencies?.next || pkg.devDependencies?.next) {
+          analysis.framework = 'nextjs';
+          console.log('🎯 Detected Next.js framework');
+        } else if (pkg.dependencies?.['@nestjs/core']) {
+          analysis.framework = 'nestjs';
+          console.log('🎯 Detected NestJS framework');
+        } else if (pkg.dependencies?.react || pkg.devDependencies?.react) {
           analysis.framework = 'react';
           console.log('🎯 Detected React framework');
         } else if (pkg.dependencies?.vue || pkg.devDependencies?.vue) {
           analysis.framework = 'vue';
           console.log('🎯 Detected Vue framework');
-        } else if (pkg.dependencies?.next || pkg.devDependencies?.next) {
-          analysis.framework = 'nextjs';
-          console.log('🎯 Detected Next.js framework');
         } else if (pkg.dependencies?.express || pkg.devDependencies?.express) {
           analysis.framework = 'express';
           console.log('🎯 Detected Express framework');
         }
         
         // Detect build scripts for deployment insights
+        if (path === 'package.json' && pkg.scripts) {
+          analysis.scripts = pkg.scripts;
+        }
         if (pkg.scripts?.build) {
           console.log(`🔧 Found build script: ${pkg.scripts.build}`);
         }
@@ -567,12 +423,57 @@ function analyzeFileContent(file: GitHubFile, analysis: ProjectAnalysis, files:
       analysis.language = 'rust';
       analysis.packageFiles.push(`Rust Cargo.toml:\n${content}`);
       console.log('🦀 Detected Rust project with Cargo.toml');
+      const crateName = content.match(/\[package\][^\[]*?^name\s*=\s*"([^"]+)"/m);
+      if (crateName && path === 'Cargo.toml') {
+        analysis.projectName = crateName[1];
+      }
       break;
 
     case 'go.mod':
       analysis.language = 'go';
       analysis.packageFiles.push(`Go Module:\n${content}`);
       console.log('🐹 Detected Go project with go.mod');
+      const moduleName = content.match(/^module\s+(\S+)/m);
+      if (moduleName && path === 'go.mod') {
+        analysis.projectName = moduleName[1].split('/').pop();
+      }
+      break;
+
+    case 'pom.xml':
+    case 'build.gradle':
+    case 'build.gradle.kts':
+      analysis.language = 'java';
+      analysis.packageFiles.push(`Java Build File (${name}):\n${content}`);
+      if (content.includes('spring-boot')) {
+        analysis.framework = 'spring-boot';
+      }
+      console.log(`☕ Detected Java project with ${name}`);
+      break;
+
+    case 'Gemfile':
+      analysis.language = 'ruby';
+      analysis.packageFiles.push(`Ruby Gemfile:\n${content}`);
+      const gems = [...content.matchAll(/^\s*gem\s+['"]([^'"]+)['"]/gm)].map(match => match[1]);
+      analysis.dependencies.push(...gems);
+      if (gems.includes('rails')) {
+        analysis.framework = 'rails';
+      }
+      console.log(`💎 Found Gemfile with ${gems.length} gems`);
+      break;
+
+    case 'composer.json':
+      analysis.language = 'php';
+      analysis.packageFiles.push(`PHP Composer JSON:\n${content}`);
+      try {
+        const composer = JSON.parse(content);
+        analysis.dependencies.push(...Object.keys(composer.require || {}));
+        if (composer.require?.['laravel/framework']) {
+          analysis.framework = 'laravel';
+        }
+      } catch (e) {
+        console.error('Error parsing composer.json:', e);
+      }
+      console.log('🐘 Detected PHP project with composer.json');
       break;
 
     case 'Dockerfile':
@@ -582,6 +483,14 @@ function analyzeFileContent(file: GitHubFile, analysis: ProjectAnalysis, files:
       break;
 
     default:
+      if (name.endsWith('.csproj')) {
+        analysis.language = 'csharp';
+        analysis.projectName = analysis.projectName || name.replace(/\.csproj$/, '');
+        analysis.packageFiles.push(`.NET Project (${path}):\n${content}`);
+        console.log(`🟣 Detected .NET project: ${name}`);
+        break;
+      }
+
       // Enhanced Python file analysis with deeper code understanding
       if (name.endsWith('.py')) {
         if (analysis.language === 'unknown') {
@@ -734,22 +643,28 @@ function analyzeFileContent(file: GitHubFile, analysis: ProjectAnalysis, files:
   analysis.dependencies = [...new Set(analysis.dependencies)];
 }
 
-// Generate Dockerfile using OpenAI
+// Generate a Dockerfile: a deterministic per-ecosystem template is the baseline,
+// OpenAI optionally refines it (DOCKERFILE_AI_REFINE=false keeps the template as-is).
 export async function generateDockerfile(
   analysis: ProjectAnalysis,
   userPrompt: string,
   repoUrl: string
 ): Promise<string> {
-  try {
-    // Get API key from environment variables
-    const apiKey = process.env.OPENAI_API_KEY;
+  const baseline = generateTemplateDockerfile(analysis);
+  console.log(`🧩 Baseline Dockerfile from template: ${baseline.template}`);
 
-    console.log('🔑 API Key check:', apiKey ? `Found key starting with: ${apiKey.substring(0, 15)}...` : 'No API key found');
-    console.log('🔑 Full API key length:', apiKey?.length || 0);
+  // Get API key from environment variables
+  const apiKey = process.env.OPENAI_API_KEY;
 
-    if (!apiKey) {
-      throw new Error('OpenAI API key not configured');
-    }
+  console.log('🔑 API Key check:', apiKey ? 'Found' : 'No API key found');
+  console.log('🔑 Full API key length:', apiKey?.length || 0);
+
+  if (!apiKey || process.env.DOCKERFILE_AI_REFINE === 'false') {
+    console.log('🛠️ Using template Dockerfile without AI refinement');
+    return baseline.dockerfile;
+  }
+
+  try {
 
     const openai = new OpenAI({
       apiKey: apiKey,
@@ -790,6 +705,11 @@ CODE ANALYSIS RESULTS:
 🏥 Project Health: ${analysis.projectHealth || 'ASSESSING...'}
 🐳 Has Dockerfile: ${analysis.hasDockerfile ? 'YES - WILL OPTIMIZE' : 'NO - WILL CREATE'}
 
+BASELINE DOCKERFILE (deterministic template "${baseline.template}", exposes port ${baseline.port}):
+${baseline.dockerfile}
+Start from this baseline. Keep its stages, base images and commands unless the project files show they are wrong,
+and only add what this specific project needs (system packages, build steps, environment, health checks).
+
 ${analysis.hasDockerfile ? `
 EXISTING DOCKERFILE TO OPTIMIZE:
 ${analysis.existingDockerfile}
@@ -839,146 +759,75 @@ Generate an optimized Dockerfile for this ${analysis.language} project.`;
       max_tokens: 2000,
     });
 
-    const dockerfile = completion.choices[0]?.message?.content?.trim();
+    const dockerfile = completion.choices[0]?.message?.content
+      ?.replace(/^```(?:dockerfile)?\s*\n|\n```\s*$/gi, '')
+      .trim();
     
-    if (!dockerfile) {
-      throw new Error('Failed to generate Dockerfile content');
+    if (!dockerfile || !/^FROM\s/im.test(dockerfile)) {
+      throw new Error('AI response did not contain a Dockerfile');
     }
     
     return dockerfile;
   } catch (error) {
-    console.error('❌ Error generating Dockerfile:', error);
-
-    // If OpenAI fails, provide a fallback Dockerfile
-    if (error instanceof Error && error.message.includes('401')) {
-      console.log('🔄 OpenAI API key invalid, generating fallback Dockerfile...');
-      return generateFallbackDockerfile(analysis);
-    }
-
-    throw new Error(`AI generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    console.error('❌ AI refinement failed, using template Dockerfile:', error);
+    return baseline.dockerfile;
   }
 }
 
-// Generate a fallback Dockerfile when OpenAI is not available
-function generateFallbackDockerfile(analysis: ProjectAnalysis): string {
-  console.log('🛠️ Generating fallback Dockerfile for:', analysis.language);
-
-  switch (analysis.language) {
-    case 'javascript':
-      if (analysis.framework === 'react' || analysis.framework === 'vue') {
-        return `# Multi-stage build for React/Vue app
-FROM node:18-alpine AS builder
-
-WORKDIR /app
-COPY package*.json ./
-RUN npm ci --only=production
-
-COPY . .
-RUN npm run build
-
-# Production stage
-FROM nginx:alpine
-COPY --from=builder /app/dist /usr/share/nginx/html
-COPY --from=builder /app/build /usr/share/nginx/html
-
-EXPOSE 80
-CMD ["nginx", "-g", "daemon off;"]`;
-      } else {
-        return `# Node.js application
-FROM node:18-alpine
-
-WORKDIR /app
-COPY package*.json ./
-RUN npm ci --only=production
-
-COPY . .
-
-EXPOSE 3000
-CMD ["npm", "start"]`;
-      }
-
-    case 'html':
-    case 'static':
-      return `# Static HTML/CSS/JS website
-FROM nginx:alpine
-
-# Copy website files to nginx
-COPY . /usr/share/nginx/html
-
-# Copy custom nginx config if needed
-# COPY nginx.conf /etc/nginx/nginx.conf
-
-EXPOSE 80
-CMD ["nginx", "-g", "daemon off;"]`;
-
-    case 'python':
-      return `# Python application
-FROM python:3.11-slim
-
-WORKDIR /app
-
-# Install dependencies
-COPY requirements.txt .
-RUN pip install --no-cache-dir -r requirements.txt
-
-# Copy application code
-COPY . .
-
-# Create non-root user
-RUN useradd --create-home --shell /bin/bash app
-USER app
-
-EXPOSE 8000
-CMD ["python", "app.py"]`;
-
-    default:
-      return `# Generic application container
-FROM ubuntu:22.04
-
-WORKDIR /app
-COPY . .
-
-# Install basic dependencies
-RUN apt-get update && apt-get install -y \\
-    curl \\
-    wget \\
-    && rm -rf /var/lib/apt/lists/*
+export interface DockerfileGenerationOptions {
+  ref?: string; // Branch, tag or commit SHA to check out
+  keepCheckout?: boolean; // Leave the checkout on disk for the caller to build from and clean up
+  kubernetes?: Omit<KubernetesOptions, 'image'>; // Also generate Kubernetes manifests, a Helm chart or Kustomize overlays
+}
 
-EXPOSE 8080
-CMD ["echo", "Please configure your application startup command"]`;
-  }
+export interface DockerfileGenerationResult {
+  success: boolean;
+  dockerfile?: string;
+  error?: string;
+  errorCode?: RepoFetchErrorCode;
+  analysis?: ProjectAnalysis;
+  generatedFiles?: any[];
+  imageName?: string;
+  files?: GitHubFile[];
+  checkout?: RepoCheckout;
+  services?: ServiceLayout; // Set when the repository holds several deployable services
+  composeFile?: string;
+  kubernetes?: KubernetesArtifacts;
+  secretFindings?: SecretFinding[]; // Project files and the generated Dockerfile
 }
 
 // Main function to process deployment request
 export async function processDockerfileGeneration(
   repoUrl: string,
   userPrompt?: string,
-  githubToken?: string
-): Promise<{ success: boolean; dockerfile?: string; error?: string; analysis?: ProjectAnalysis; generatedFiles?: any[]; imageName?: string }> {
+  githubToken?: string,
+  options: DockerfileGenerationOptions = {}
+): Promise<DockerfileGenerationResult> {
+  let checkout: RepoCheckout | undefined;
+  let keepCheckout = false;
+
   try {
     console.log(`\n🚀 Starting intelligent deployment analysis...`);
     console.log(`🔗 Repository: ${repoUrl}`);
     console.log(`💭 User prompt: ${userPrompt || 'Generate production-ready Dockerfile'}`);
-    console.log(`🔑 GitHub token: ${githubToken ? 'Provided' : 'Not provided (using public access)'}`);
-    
-    // Parse GitHub URL
-    const urlMatch = repoUrl.match(/github\.com\/([^\/]+)\/([^\/]+)/);
-    if (!urlMatch) {
-      console.log("❌ Invalid GitHub URL format");
-      return { success: false, error: "Invalid GitHub URL format" };
-    }
-
-    const [, owner, repo] = urlMatch;
-    const cleanRepo = repo.replace(/\.git$/, '');
-    console.log(`📁 Repository details: { owner: '${owner}', repo: '${cleanRepo}' }`);
+    console.log(`🔑 Access token: ${githubToken ? 'Provided' : 'Not provided (using public access)'}`);
+
+    // Clone the repository at the requested ref
+    console.log(`📂 Cloning repository${options.ref ? ` at ${options.ref}` : ''}...`);
+    const fetched = await fetchRepository(repoUrl, {
+      token: githubToken,
+      ref: options.ref,
+      onLog: (chunk) => {
+        if (chunk.trim()) console.log(`   ${chunk.trim()}`);
+      }
+    });
+    checkout = fetched.checkout;
+    const files = fetched.files;
+    console.log(`📁 Checked out ${checkout.remote.provider} repository at ${checkout.commit.slice(0, 12)}`);
 
-    // Fetch repository contents
-    console.log(`📂 Fetching repository contents from GitHub API...`);
-    const files = await fetchGitHubRepo(repoUrl, githubToken);
-    
     if (files.length === 0) {
       console.log("❌ No files found in repository");
-      return { success: false, error: "No accessible files found in repository. Check if the repository is public or provide a valid GitHub token." };
+      return { success: false, error: "Repository is empty at the requested ref" };
     }
 
     console.log(`📄 Successfully fetched ${files.length} files from repository`);
@@ -1052,28 +901,58 @@ export async function processDockerfileGeneration(
       return { success: false, error: "Failed to generate Dockerfile" };
     }
 
+    const dockerfileSecrets = scanDockerfileForSecrets(dockerfile);
+    if (dockerfileSecrets.length > 0) {
+      console.log(`🔐 Dockerfile bakes ${dockerfileSecrets.length} secret(s) into the image:`);
+      dockerfileSecrets.forEach(finding => console.log(`   - ${formatSecretFinding(finding)}`));
+    }
+    const secretFindings = [...(analysis.secretFindings || []), ...dockerfileSecrets];
+
+    // Monorepos get one image per service plus a compose file wiring them together
+    const services = detectServices(files) || undefined;
+    let composeFile: string | undefined;
+    if (services) {
+      console.log(`\n🧩 Detected ${services.services.length} services (${services.tools.join(', ') || 'multiple Dockerfiles'}):`);
+      services.services.forEach(s => console.log(`   - ${s.name}: ${s.path} (${s.template || 'existing Dockerfile'}, port ${s.port})`));
+      composeFile = renderComposeFile(services, serviceImageNames(services, deriveImageName(repoUrl)));
+    }
+
     // 🔹 Automatically build the Docker image (gated by AUTO_BUILD)
     let imageName: string | undefined;
     if (process.env.AUTO_BUILD === 'true') {
       try {
         console.log(`\n📦 Preparing Docker build context...`);
-        const buildContextPath = prepareBuildContext(repoUrl, files, dockerfile);
+        const { dir: buildContextPath } = workspaceManager.create(workspaceId('analysis'), { repoIdentifier: repoUrl, files, dockerfile, sourceDir: checkout.dir });
         imageName = deriveImageName(repoUrl);
         // Ensure image name is always lowercase (fallback safety)
         imageName = imageName.toLowerCase();
-        console.log(`🏷️ Image name: ${imageName}`);
 
-        console.log(`\n🚚 Starting Docker build...`);
-        await build_docker_image(buildContextPath, imageName, {
-          onLog: (chunk) => process.stdout.write(chunk)
-        });
-        console.log(`\n✅ Docker image built: ${imageName}`);
+        const builds = [{ imageName, context: buildContextPath, dockerfile: undefined as string | undefined }];
+        if (services && composeFile) {
+          writeServiceFiles(buildContextPath, services, composeFile);
+          const images = serviceImageNames(services, imageName);
+          builds.splice(0, 1, ...services.services.map(s => ({
+            imageName: images[s.name],
+            context: path.join(buildContextPath, s.context),
+            dockerfile: path.join(buildContextPath, s.dockerfile)
+          })));
+        }
 
-        if (process.env.DOCKER_USER) {
-          try {
-            await push_docker_image(imageName, { onLog: (c) => process.stdout.write(c) });
-          } catch (pushErr) {
-            console.warn('⚠️ Docker push failed (optional):', pushErr);
+        for (const build of builds) {
+          console.log(`🏷️ Image name: ${build.imageName}`);
+          console.log(`\n🚚 Starting Docker build...`);
+          await build_docker_image(build.context, build.imageName, {
+            onLog: (chunk) => process.stdout.write(chunk),
+            dockerfile: build.dockerfile
+          });
+          console.log(`\n✅ Docker image built: ${build.imageName}`);
+
+          if (process.env.DOCKER_USER) {
+            try {
+              await push_docker_image(build.imageName, { onLog: (c) => process.stdout.write(c) });
+            } catch (pushErr) {
+              console.warn('⚠️ Docker push failed (optional):', pushErr);
+            }
           }
         }
       } catch (dockerErr) {
@@ -1084,6 +963,20 @@ export async function processDockerfileGeneration(
       console.log('ℹ️ AUTO_BUILD is disabled. Skipping Docker build.');
     }
 
+    // 🔹 Kubernetes artifacts for the same image (optional)
+    let kubernetes: KubernetesArtifacts | undefined;
+    if (options.kubernetes) {
+      try {
+        kubernetes = generateKubernetesArtifacts(
+          { analysis, dockerfile, services },
+          { ...options.kubernetes, image: imageName || deriveImageName(repoUrl) }
+        );
+        console.log(`☸️ Generated ${Object.keys(kubernetes.files).length} Kubernetes files (${kubernetes.packaging})`);
+      } catch (k8sErr) {
+        console.warn('⚠️ Kubernetes manifest generation failed:', k8sErr);
+      }
+    }
+
     console.log(`\n🎉 Intelligent deployment analysis complete!`);
     console.log(`📊 Final summary:`);
     console.log(`   - Repository analyzed: ${repoUrl}`);
@@ -1093,16 +986,28 @@ export async function processDockerfileGeneration(
     console.log(`   - Dockerfile: Generated and optimized`);
     console.log(`   - Ready for production deployment! 🚀`);
 
+    keepCheckout = !!options.keepCheckout;
     return {
       success: true,
       dockerfile,
       analysis,
       generatedFiles: analysis.generatedFiles || [],
-      imageName
+      imageName,
+      files,
+      checkout: keepCheckout ? checkout : undefined,
+      services,
+      composeFile,
+      kubernetes,
+      secretFindings
     };
 
   } catch (error) {
     console.error(`❌ Analysis failed:`, error);
+    if (error instanceof RepoFetchError) {
+      return { success: false, error: error.message, errorCode: error.code };
+    }
     return { success: false, error: `Analysis failed: ${error}` };
+  } finally {
+    if (checkout && !keepCheckout) checkout.cleanup();
   }
 }
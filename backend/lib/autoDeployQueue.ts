@@ -0,0 +1,514 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  AutoDeployService,
+  AUTO_DEPLOY_STEPS,
+  AutoDeployConfig,
+  AutoDeployHooks,
+  AutoDeployResult,
+  AutoDeployStep,
+  AutoDeployStepStatus,
+} from './autoDeployService';
+import { DeploymentTracker, generateDeploymentId } from './deploymentRepository';
+import { recordBuildOptions } from './buildOptions';
+import { credentialVault, Release, secretRedactor } from './credentials';
+import { eventBus } from './events';
+import { createLogger } from './logger';
+import { withTargetCredentials } from './deploymentTargets/http';
+import type { TargetDeployment } from './deploymentTargets';
+import type { HealthCheckResult } from './healthCheck';
+import type { SmokeTestResult } from './smokeTest';
+import type { ImageSecurityReport, PushedImage, SecretFinding } from '../../shared/types';
+
+export type AutoDeployJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+export interface AutoDeployStepState {
+  status: AutoDeployStepStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+/**
+ * Credentials are held in memory only and never written to the job store;
+ * stored credentials are kept as ids and opened each time the job runs
+ */
+export type AutoDeploySecrets = Pick<AutoDeployConfig, 'githubToken' | 'dockerHubPassword' | 'buildSecrets' | 'registry' | 'targetEnv'>;
+export type StoredAutoDeployConfig = Omit<AutoDeployConfig, keyof AutoDeploySecrets>;
+
+export interface AutoDeployJob {
+  id: string;
+  status: AutoDeployJobStatus;
+  userId: string | null;
+  trigger: 'api' | 'webhook' | 'test';
+  config: StoredAutoDeployConfig;
+  steps: Record<AutoDeployStep, AutoDeployStepState>;
+  logs: string[];
+  imageName?: string;
+  images?: Record<string, string>;
+  pushedImages?: PushedImage[]; // Pushed references with their registry digests
+  composeFile?: string;
+  deploymentUrl?: string;
+  targetDeployment?: TargetDeployment;
+  smokeTest?: SmokeTestResult[]; // Sandbox runs of the built images, with the classified crash when one failed
+  securityReports?: ImageSecurityReport[]; // SBOM summary and vulnerabilities of the built images
+  secretFindings?: SecretFinding[]; // Redacted secrets found in the files, Dockerfile and images
+  healthCheck?: HealthCheckResult; // Probe evidence, and the rollback when the check failed
+  error?: string;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface EnqueueOptions {
+  userId?: string | null;
+  trigger?: AutoDeployJob['trigger'];
+}
+
+export interface JobListQuery {
+  userId?: string;
+  status?: AutoDeployJobStatus;
+  limit?: number;
+}
+
+export type AutoDeployRunner = (
+  jobId: string,
+  config: AutoDeployConfig,
+  hooks: AutoDeployHooks
+) => Promise<AutoDeployResult>;
+
+const FINISHED_STATUSES: AutoDeployJobStatus[] = ['completed', 'failed', 'cancelled', 'interrupted'];
+const LOG_PERSIST_DELAY_MS = 1000;
+
+const logger = createLogger('autoDeployQueue');
+
+const defaultRunner: AutoDeployRunner = (jobId, config, hooks) =>
+  new AutoDeployService(jobId, hooks).deploy(config);
+
+function emptySteps(): Record<AutoDeployStep, AutoDeployStepState> {
+  return AUTO_DEPLOY_STEPS.reduce((steps, step) => {
+    steps[step] = { status: 'pending' };
+    return steps;
+  }, {} as Record<AutoDeployStep, AutoDeployStepState>);
+}
+
+export function isJobFinished(job: AutoDeployJob): boolean {
+  return FINISHED_STATUSES.includes(job.status);
+}
+
+/**
+ * Background worker pool for the fully automated pipeline. Jobs run with
+ * bounded concurrency and their state is written through to a JSON file, so
+ * anything unfinished when the process stops is reported as `interrupted`.
+ */
+export class AutoDeployQueue {
+  private jobs: Map<string, AutoDeployJob> | null = null;
+  private secrets = new Map<string, AutoDeploySecrets>();
+  private redactions = new Map<string, Release>(); // Masking of each unfinished job's credentials in logs
+  private trackers = new Map<string, DeploymentTracker>();
+  private pending: string[] = [];
+  private active = new Set<string>();
+  private cancelRequested = new Set<string>();
+  private writeQueue: Promise<void> = Promise.resolve();
+  private persistTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private filePath: string,
+    private concurrency: number,
+    private runner: AutoDeployRunner = defaultRunner
+  ) {}
+
+  async enqueue(config: AutoDeployConfig, options: EnqueueOptions = {}): Promise<AutoDeployJob> {
+    const jobs = this.load();
+    const { githubToken, dockerHubPassword, buildSecrets, registry: _registry, targetEnv: _targetEnv, ...stored } = config;
+    const now = new Date().toISOString();
+
+    const job: AutoDeployJob = {
+      id: generateDeploymentId(),
+      status: 'queued',
+      userId: options.userId ?? null,
+      trigger: options.trigger || 'api',
+      config: stored,
+      steps: emptySteps(),
+      logs: [],
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    jobs.set(job.id, job);
+    this.secrets.set(job.id, { githubToken, dockerHubPassword, buildSecrets });
+    this.redactions.set(job.id, secretRedactor.register(githubToken, dockerHubPassword, ...(buildSecrets || []).map(secret => secret.value)));
+    const tracker = await DeploymentTracker.start({
+      id: job.id,
+      userId: job.userId,
+      source: 'repo',
+      repoUrl: config.repoUrl,
+    });
+    if (config.buildOptions || buildSecrets?.length) {
+      await tracker.update({ buildOptions: recordBuildOptions(config.buildOptions || {}, buildSecrets) });
+    }
+    this.trackers.set(job.id, tracker);
+    eventBus.open(job.id, job.userId);
+
+    logger.child({ deploymentId: job.id }).info(`📥 Queued auto-deploy job ${job.id} for ${config.repoUrl}`);
+    await this.persist();
+    this.pending.push(job.id);
+    this.pump();
+    return job;
+  }
+
+  get(id: string): AutoDeployJob | null {
+    return this.load().get(id) || null;
+  }
+
+  list(query: JobListQuery = {}): AutoDeployJob[] {
+    const jobs = [...this.load().values()]
+      .filter(job => !query.userId || job.userId === query.userId)
+      .filter(job => !query.status || job.status === query.status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return query.limit ? jobs.slice(0, query.limit) : jobs;
+  }
+
+  /**
+   * Cancel a job. Queued jobs stop immediately; running jobs stop at the next
+   * step boundary. Returns null when the job does not exist or has finished.
+   */
+  async cancel(id: string): Promise<AutoDeployJob | null> {
+    const job = this.get(id);
+    if (!job || isJobFinished(job)) return null;
+
+    if (job.status === 'queued') {
+      this.pending = this.pending.filter(pendingId => pendingId !== id);
+      this.appendLog(job, `[${new Date().toISOString()}] 🛑 Cancelled before start`);
+      await this.finish(job, 'cancelled', 'Deployment cancelled');
+    } else {
+      this.cancelRequested.add(id);
+      this.appendLog(job, `[${new Date().toISOString()}] 🛑 Cancellation requested, stopping after the current step`);
+      await this.persist();
+    }
+    return job;
+  }
+
+  /**
+   * Re-queue a finished job that did not complete. Credentials are dropped
+   * when a job finishes, so callers pass them again.
+   */
+  async retry(id: string, secrets: AutoDeploySecrets = {}): Promise<AutoDeployJob | null> {
+    const job = this.get(id);
+    if (!job || !isJobFinished(job) || job.status === 'completed') return null;
+
+    const { githubToken, dockerHubPassword, buildSecrets } = secrets;
+    this.secrets.set(id, { githubToken, dockerHubPassword, buildSecrets });
+    this.redactions.set(id, secretRedactor.register(githubToken, dockerHubPassword, ...(buildSecrets || []).map(secret => secret.value)));
+
+    job.status = 'queued';
+    job.steps = emptySteps();
+    job.error = undefined;
+    job.imageName = undefined;
+    job.images = undefined;
+    job.pushedImages = undefined;
+    job.composeFile = undefined;
+    job.deploymentUrl = undefined;
+    job.targetDeployment = undefined;
+    job.smokeTest = undefined;
+    job.securityReports = undefined;
+    job.secretFindings = undefined;
+    job.healthCheck = undefined;
+    job.startedAt = undefined;
+    job.finishedAt = undefined;
+    this.appendLog(job, `[${new Date().toISOString()}] 🔁 Retry requested (attempt ${job.attempts + 1})`);
+
+    if (!this.trackers.has(id)) {
+      this.trackers.set(id, new DeploymentTracker(id));
+    }
+    await this.trackers.get(id)!.update({ status: 'pending', message: 'Retry queued' });
+
+    await this.persist();
+    this.pending.push(id);
+    this.pump();
+    return job;
+  }
+
+  /**
+   * Record a change made to a finished job's deployment after the fact,
+   * e.g. a rollback or teardown through its deployment target
+   */
+  async updateTargetDeployment(id: string, deployment: TargetDeployment, message: string): Promise<AutoDeployJob | null> {
+    const job = this.get(id);
+    if (!job) return null;
+
+    job.targetDeployment = deployment;
+    job.deploymentUrl = deployment.url;
+    this.appendLog(job, `[${new Date().toISOString()}] ${message}`);
+    await this.persist();
+    await new DeploymentTracker(id).update({ targetDeployment: deployment, deploymentUrl: deployment.url, message });
+    return job;
+  }
+
+  private pump(): void {
+    while (this.active.size < this.concurrency && this.pending.length > 0) {
+      const id = this.pending.shift()!;
+      this.active.add(id);
+      // Credentials resolved while the job runs are masked until it ends
+      secretRedactor.scope(() => this.run(id))
+        .catch(error => console.error(`❌ Auto-deploy job ${id} crashed:`, error))
+        .finally(() => {
+          this.active.delete(id);
+          this.cancelRequested.delete(id);
+          this.pump();
+        });
+    }
+  }
+
+  private async run(id: string): Promise<void> {
+    const job = this.get(id);
+    if (!job) return;
+
+    const tracker = this.trackers.get(id) || new DeploymentTracker(id);
+    eventBus.open(id, job.userId);
+    job.status = 'running';
+    job.attempts += 1;
+    job.startedAt = new Date().toISOString();
+    job.updatedAt = job.startedAt;
+    await this.persist();
+    await tracker.update({ status: 'processing', phase: 'queued', message: `Attempt ${job.attempts} started` });
+
+    const hooks: AutoDeployHooks = {
+      ownerId: job.userId ?? undefined,
+      onLog: line => {
+        this.appendLog(job, line);
+        tracker.log(line);
+      },
+      onStep: (step, status, error) => {
+        this.updateStep(job, step, status, error);
+        if (status === 'running') {
+          void tracker.update({ status: 'processing', phase: step });
+        }
+      },
+      isCancelled: () => this.cancelRequested.has(id),
+      lastHealthyDeployment: () => this.lastHealthyDeployment(job),
+    };
+
+    let result: AutoDeployResult;
+    try {
+      const config = await this.openStoredCredentials(job, { ...job.config, ...this.secrets.get(id) });
+      result = await withTargetCredentials(config.targetEnv, () => this.runner(id, config, hooks));
+    } catch (error) {
+      result = {
+        success: false,
+        deploymentId: id,
+        logs: [],
+        error: error instanceof Error ? error.message : 'Unknown error',
+        steps: { analysis: false, fileGeneration: false, dockerBuild: false, smokeTest: false, securityScan: false, dockerPush: false, deployment: false, healthCheck: false },
+      };
+    }
+
+    job.imageName = result.imageName;
+    job.images = result.images;
+    job.pushedImages = result.pushedImages;
+    job.composeFile = result.composeFile;
+    job.deploymentUrl = result.deploymentUrl;
+    job.targetDeployment = result.targetDeployment;
+    job.smokeTest = result.smokeTest;
+    job.securityReports = result.securityReports;
+    job.secretFindings = result.secretFindings;
+    job.healthCheck = result.healthCheck;
+
+    if (this.cancelRequested.has(id) && !result.success) {
+      await this.finish(job, 'cancelled', 'Deployment cancelled');
+    } else if (result.success) {
+      await this.finish(job, 'completed');
+    } else {
+      await this.finish(job, 'failed', result.error);
+    }
+  }
+
+  /**
+   * Resolve the stored credentials a job references. They belong to the user
+   * who queued the job and are looked up again on every attempt, so edits
+   * and deletions in the vault take effect on retry.
+   */
+  private async openStoredCredentials(job: AutoDeployJob, config: AutoDeployConfig): Promise<AutoDeployConfig> {
+    const { githubCredentialId, registryCredentialId, targetCredentialId } = config;
+    if (!githubCredentialId && !registryCredentialId && !targetCredentialId) return config;
+    if (!job.userId) throw new Error('Stored credentials can only be used by the user who saved them');
+
+    const resolved = { ...config };
+    if (githubCredentialId) resolved.githubToken = await credentialVault.resolveGitHubToken(job.userId, githubCredentialId);
+    if (registryCredentialId) resolved.registry = await credentialVault.resolveRegistry(job.userId, registryCredentialId);
+    if (targetCredentialId) {
+      resolved.targetEnv = await credentialVault.resolveTargetEnv(job.userId, targetCredentialId, config.deploymentTarget || 'dockerhub');
+    }
+    return resolved;
+  }
+
+  /**
+   * Deployment of the latest completed job of the same owner for the same
+   * repository and target. Jobs whose health check fails end as `failed`,
+   * so this is the last image known to have come up.
+   */
+  private lastHealthyDeployment(job: AutoDeployJob): TargetDeployment | undefined {
+    const target = job.config.deploymentTarget || 'dockerhub';
+    return [...this.load().values()]
+      .filter(other => other.id !== job.id && other.status === 'completed' && other.targetDeployment)
+      .filter(other => other.userId === job.userId && other.config.repoUrl === job.config.repoUrl && (other.config.deploymentTarget || 'dockerhub') === target)
+      .sort((a, b) => (b.finishedAt || '').localeCompare(a.finishedAt || ''))[0]?.targetDeployment;
+  }
+
+  private async finish(job: AutoDeployJob, status: AutoDeployJobStatus, error?: string): Promise<void> {
+    const now = new Date().toISOString();
+    job.status = status;
+    job.error = error;
+    job.finishedAt = now;
+    job.updatedAt = now;
+
+    for (const state of Object.values(job.steps)) {
+      if (state.status === 'pending' || state.status === 'running') {
+        state.status = state.status === 'running' ? 'failed' : 'skipped';
+        state.finishedAt = now;
+      }
+    }
+
+    logger.child({ deploymentId: job.id }).log(status === 'completed' || status === 'cancelled' ? 'info' : 'error', `🏁 Auto-deploy job ${job.id} ${status}${error ? `: ${error}` : ''}`);
+    await this.persist();
+
+    if (error) eventBus.publish(job.id, { type: 'error', error });
+    eventBus.publish(job.id, {
+      type: 'done',
+      success: status === 'completed',
+      result: { status, imageName: job.imageName, deploymentUrl: job.deploymentUrl }
+    });
+
+    const tracker = this.trackers.get(job.id) || new DeploymentTracker(job.id);
+    await tracker.update({
+      status: status === 'completed' ? 'completed' : status === 'cancelled' ? 'cancelled' : 'failed',
+      phase: status,
+      imageName: job.imageName,
+      pushedImages: job.pushedImages,
+      deploymentUrl: job.deploymentUrl,
+      targetDeployment: job.targetDeployment,
+      securityReports: job.securityReports,
+      secretFindings: job.secretFindings,
+      error,
+    });
+    this.trackers.delete(job.id);
+    this.secrets.delete(job.id);
+    this.redactions.get(job.id)?.();
+    this.redactions.delete(job.id);
+  }
+
+  private updateStep(job: AutoDeployJob, step: AutoDeployStep, status: AutoDeployStepStatus, error?: string): void {
+    const now = new Date().toISOString();
+    const state = job.steps[step];
+    state.status = status;
+    if (status === 'running') {
+      state.startedAt = now;
+    } else {
+      state.finishedAt = now;
+      state.startedAt = state.startedAt || now;
+    }
+    if (error) state.error = error;
+    job.updatedAt = now;
+    void this.persist();
+
+    if (status === 'running') {
+      eventBus.publish(job.id, { type: 'phase-start', phase: step });
+    } else {
+      const settled = Object.values(job.steps).filter(state => state.status !== 'pending' && state.status !== 'running').length;
+      eventBus.publish(job.id, {
+        type: 'progress',
+        phase: step,
+        progress: Math.round((settled / AUTO_DEPLOY_STEPS.length) * 100),
+        data: { step, status, ...(error ? { error } : {}) }
+      });
+    }
+  }
+
+  private appendLog(job: AutoDeployJob, line: string): void {
+    job.logs.push(secretRedactor.redact(line));
+    const running = AUTO_DEPLOY_STEPS.find(step => job.steps[step].status === 'running');
+    eventBus.log(job.id, line, 'info', running);
+    job.updatedAt = new Date().toISOString();
+    this.persistSoon();
+  }
+
+  /**
+   * Load the store once. Jobs that were queued or running when the previous
+   * process stopped cannot be resumed, so they are marked `interrupted`.
+   */
+  private load(): Map<string, AutoDeployJob> {
+    if (this.jobs) return this.jobs;
+
+    this.jobs = new Map();
+    let interrupted = 0;
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as AutoDeployJob[];
+        const now = new Date().toISOString();
+
+        for (const job of parsed) {
+          // Steps added since the job was stored
+          for (const step of AUTO_DEPLOY_STEPS) {
+            job.steps[step] = job.steps[step] || { status: isJobFinished(job) ? 'skipped' : 'pending' };
+          }
+          if (job.status === 'queued' || job.status === 'running') {
+            for (const state of Object.values(job.steps)) {
+              if (state.status === 'running') {
+                state.status = 'failed';
+                state.error = 'Interrupted by server restart';
+                state.finishedAt = now;
+              }
+            }
+            job.status = 'interrupted';
+            job.error = 'Server restarted before the deployment finished';
+            job.finishedAt = now;
+            job.updatedAt = now;
+            job.logs.push(`[${now}] ⚠️ Job interrupted by server restart`);
+            void new DeploymentTracker(job.id).update({ status: 'failed', phase: 'interrupted', error: job.error });
+            interrupted++;
+          }
+          this.jobs.set(job.id, job);
+        }
+      }
+    } catch (error) {
+      console.error(`⚠️ Could not read auto-deploy job store at ${this.filePath}:`, error);
+    }
+
+    if (interrupted > 0) {
+      console.log(`⚠️ Marked ${interrupted} unfinished auto-deploy job(s) as interrupted`);
+      void this.persist();
+    }
+    return this.jobs;
+  }
+
+  private persistSoon(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      void this.persist();
+    }, LOG_PERSIST_DELAY_MS);
+    this.persistTimer.unref();
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify([...this.load().values()], null, 2);
+    this.writeQueue = this.writeQueue.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tmpPath, snapshot, 'utf-8');
+      await fs.promises.rename(tmpPath, this.filePath);
+    }).catch(error => {
+      console.error('❌ Failed to persist auto-deploy jobs:', error);
+    });
+    return this.writeQueue;
+  }
+}
+
+export const autoDeployQueue = new AutoDeployQueue(
+  process.env.AUTO_DEPLOY_JOBS_PATH || path.join(process.cwd(), '.data', 'auto-deploy-jobs.json'),
+  Math.max(1, Number(process.env.AUTO_DEPLOY_CONCURRENCY) || 2)
+);
@@ -1,51 +1,160 @@
-import { spawn } from 'child_process';
-import { processDockerfileGeneration } from './aiService';
-import { build_docker_image, push_docker_image, deriveImageName, prepareBuildContext } from './docker';
-import { GitHubFile } from './aiService';
+import { processDockerfileGeneration, DockerfileGenerationResult } from './aiService';
+import { build_docker_image, push_docker_image, deriveImageName, login_docker_registry, DockerBuildOptions } from './docker';
+import { GitHubFile, ProjectAnalysis } from './aiService';
 import { dockerBuildMonitor, DockerBuildResult } from './dockerBuildMonitor';
 import * as fs from 'fs';
+import * as path from 'path';
+import type { RepoCheckout } from './repoFetcher';
+import { renderComposeFile, serviceImageNames, writeServiceFiles } from './serviceDetector';
+import { assertTargetStage, BuildKitOptions, BuildSecret } from './buildOptions';
+import { DeploymentTarget, DeploymentTargetName, getDeploymentTarget, TargetDeployment, TargetService } from './deploymentTargets';
+import { DEFAULT_HEALTH_CHECK, HealthCheckOptions, HealthCheckResult, HealthCheckRollback, runHealthCheck } from './healthCheck';
+import { DEFAULT_SMOKE_TEST, smokeTestImage, SmokeTestOptions, SmokeTestResult } from './smokeTest';
+import { DockerAutoFixer } from './dockerAutoFixer';
+import { scanImage, sbomDir, VulnerabilityPolicy } from './imageScan';
+import { formatSecretFinding, scanImageForSecrets } from './secretScanner';
+import { ResolvedRegistry } from './credentials';
+import type { RegistryAuth } from './dockerEngine';
+import { defaultDestination, pushedImage, RegistryDestination } from './registries';
+import { workspaceManager } from './workspaces';
+import { createLogger, logWriter, setLogStep, withLogContext } from './logger';
+import type { ImageSecurityReport, JobLogLevel, PushedImage, SecretFinding } from '../../shared/types';
 
 export interface AutoDeployConfig {
   repoUrl: string;
+  ref?: string; // Branch, tag or commit to deploy; defaults to the repository's default branch
+  imageTag?: string; // Defaults to 'latest'
   githubToken?: string;
   dockerHubUsername?: string;
   dockerHubPassword?: string;
+  githubCredentialId?: string; // Stored github or github-app credential, used instead of githubToken
+  registryCredentialId?: string; // Stored registry login for the push, used instead of the Docker Hub fields
+  targetCredentialId?: string; // Stored cloud credential for the deployment target, instead of the server environment
+  registry?: ResolvedRegistry; // Resolved from registryCredentialId when the job runs; never stored
+  targetEnv?: Record<string, string>; // Resolved from targetCredentialId when the job runs; never stored
   autoBuild?: boolean;
   autoPush?: boolean;
   autoDeploy?: boolean;
-  deploymentTarget?: 'dockerhub' | 'aws' | 'gcp' | 'azure' | 'vercel' | 'netlify';
-  deploymentConfig?: any;
+  deploymentTarget?: DeploymentTargetName;
+  deploymentConfig?: unknown; // Target settings only; provider credentials come from the server environment
+  buildOptions?: BuildKitOptions; // Validated with parseBuildOptions
+  buildSecrets?: BuildSecret[];
+  healthCheck?: HealthCheckOptions; // Validated with parseHealthCheckOptions; defaults to an automatic probe with rollback
+  smokeTest?: SmokeTestOptions; // Validated with parseSmokeTestOptions; defaults to a sandbox run with runtime fixes
+  vulnerabilityPolicy?: VulnerabilityPolicy; // Validated with parseVulnerabilityPolicy; without one the scan only reports
+}
+
+type BuildImageOptions = Omit<DockerBuildOptions, 'onLog' | 'dockerfile'>;
+
+/** What was built, so an image can be rebuilt after its Dockerfile is fixed */
+interface ImageBuild {
+  image: string;
+  dockerfilePath: string;
+  context: string;
+  options: BuildImageOptions;
+}
+
+const MAX_RUNTIME_FIXES = 2;
+
+const logger = createLogger('autoDeploy');
+
+/**
+ * Push credentials: the stored registry login when one was referenced,
+ * otherwise the Docker Hub login sent with the request
+ */
+function registryAuthFor(config: AutoDeployConfig): RegistryAuth | undefined {
+  if (config.registry) return config.registry.auth;
+  if (config.dockerHubUsername && config.dockerHubPassword) {
+    return { username: config.dockerHubUsername, password: config.dockerHubPassword, serveraddress: 'docker.io' };
+  }
+  return undefined;
+}
+
+/**
+ * Where this run pushes: the stored registry credential's registry, otherwise
+ * the server's IMAGE_REGISTRY
+ */
+function destinationFor(config: AutoDeployConfig): RegistryDestination {
+  return config.registry ?? defaultDestination();
 }
 
 export interface AutoDeployResult {
   success: boolean;
   deploymentId: string;
   imageName?: string;
+  images?: Record<string, string>; // Service name -> image, for repositories with several services
+  pushedImages?: PushedImage[]; // With the digest the registry reported
+  composeFile?: string;
   deploymentUrl?: string;
+  targetDeployment?: TargetDeployment;
+  smokeTest?: SmokeTestResult[]; // One per image, in build order
+  securityReports?: ImageSecurityReport[]; // SBOM and vulnerability report per image
+  secretFindings?: SecretFinding[]; // Project files, Dockerfile and image history
+  healthCheck?: HealthCheckResult;
   logs: string[];
   error?: string;
   steps: {
     analysis: boolean;
     fileGeneration: boolean;
     dockerBuild: boolean;
+    smokeTest: boolean;
+    securityScan: boolean;
     dockerPush: boolean;
     deployment: boolean;
+    healthCheck: boolean;
   };
 }
 
+export type AutoDeployStep = keyof AutoDeployResult['steps'];
+export type AutoDeployStepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export const AUTO_DEPLOY_STEPS: AutoDeployStep[] = ['analysis', 'fileGeneration', 'dockerBuild', 'smokeTest', 'securityScan', 'dockerPush', 'deployment', 'healthCheck'];
+
+/**
+ * Optional callbacks so a caller (e.g. the job queue) can observe progress
+ * and stop the pipeline between steps.
+ */
+export interface AutoDeployHooks {
+  /** User the job runs for, passed on to the deployment target */
+  ownerId?: string;
+  onLog?: (line: string) => void;
+  onStep?: (step: AutoDeployStep, status: AutoDeployStepStatus, error?: string) => void;
+  isCancelled?: () => boolean;
+  /** The most recent deployment of this repository to the same target that passed its health check */
+  lastHealthyDeployment?: () => TargetDeployment | undefined;
+}
+
+export class AutoDeployCancelledError extends Error {
+  constructor() {
+    super('Deployment cancelled');
+    this.name = 'AutoDeployCancelledError';
+  }
+}
+
 export class AutoDeployService {
-  private logs: string[] = [];
   private deploymentId: string;
+  private checkout?: RepoCheckout;
 
-  constructor() {
-    this.deploymentId = `deploy-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  constructor(deploymentId?: string, private hooks: AutoDeployHooks = {}) {
+    this.deploymentId = deploymentId || `deploy-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 
   private log(message: string) {
-    const timestamp = new Date().toISOString();
-    const logMessage = `[${timestamp}] ${message}`;
-    this.logs.push(logMessage);
-    console.log(logMessage);
+    // The emoji markers double as levels, as they do in the dashboard
+    const level: JobLogLevel = message.includes('❌') ? 'error' : message.includes('⚠️') ? 'warn' : 'info';
+    const record = logger.log(level, message.trim());
+    this.hooks.onLog?.(`[${record.time}] ${record.message}`);
+  }
+
+  private step(step: AutoDeployStep, status: AutoDeployStepStatus, error?: string) {
+    if (status === 'running') setLogStep(step);
+    this.hooks.onStep?.(step, status, error);
+  }
+
+  private checkCancelled() {
+    if (this.hooks.isCancelled?.()) {
+      throw new AutoDeployCancelledError();
+    }
   }
 
   /**
@@ -53,6 +162,16 @@ export class AutoDeployService {
    * This is the main method that handles everything automatically
    */
   async deploy(config: AutoDeployConfig): Promise<AutoDeployResult> {
+    const startedAt = new Date(Date.now() - 1);
+    return withLogContext({ deploymentId: this.deploymentId }, async () => {
+      const result = await this.runPipeline(config);
+      result.logs = await this.getLogs(startedAt);
+      return result;
+    });
+  }
+
+  // Every record logged from here on carries the deployment id and its step
+  private async runPipeline(config: AutoDeployConfig): Promise<AutoDeployResult> {
     const result: AutoDeployResult = {
       success: false,
       deploymentId: this.deploymentId,
@@ -61,80 +180,217 @@ export class AutoDeployService {
         analysis: false,
         fileGeneration: false,
         dockerBuild: false,
+        smokeTest: false,
+        securityScan: false,
         dockerPush: false,
-        deployment: false
+        deployment: false,
+        healthCheck: false
       }
     };
 
+    let currentStep: AutoDeployStep | null = null;
+    let services: TargetService[] | undefined;
+    let builds: ImageBuild[] = [];
+
     try {
       this.log(`🚀 Starting FULLY AUTOMATED deployment pipeline...`);
       this.log(`📋 Deployment ID: ${this.deploymentId}`);
-      this.log(`🔗 Repository: ${config.repoUrl}`);
+      this.log(`🔗 Repository: ${config.repoUrl}${config.ref ? ` @ ${config.ref}` : ''}`);
 
       // Step 1: AI Analysis & File Generation
+      this.checkCancelled();
       this.log(`\n🔍 STEP 1: AI Analysis & File Generation`);
+      currentStep = 'analysis';
+      this.step('analysis', 'running');
       const analysisResult = await this.performAIAnalysis(config);
       if (!analysisResult.success) {
         throw new Error(`AI Analysis failed: ${analysisResult.error}`);
       }
       result.steps.analysis = true;
       result.steps.fileGeneration = true;
+      this.step('analysis', 'completed');
+      this.step('fileGeneration', 'completed');
+      currentStep = null;
       this.log(`✅ AI Analysis complete - Generated ${analysisResult.generatedFiles?.length || 0} missing files`);
+      result.secretFindings = analysisResult.secretFindings;
+      if (result.secretFindings?.length) {
+        this.log(`🔐 Found ${result.secretFindings.length} secret(s) in the repository and Dockerfile:`);
+        result.secretFindings.forEach(finding => this.log(`   - ${formatSecretFinding(finding)}`));
+      }
 
       // Step 2: Docker Build
+      this.checkCancelled();
       if (config.autoBuild !== false) {
         this.log(`\n🐳 STEP 2: Docker Image Building`);
+        currentStep = 'dockerBuild';
+        this.step('dockerBuild', 'running');
         const buildResult = await this.performDockerBuild(analysisResult, config);
         if (!buildResult.success) {
           throw new Error(`Docker build failed: ${(buildResult as any).error || 'Unknown error'}`);
         }
         result.steps.dockerBuild = true;
         result.imageName = buildResult.imageName;
+        result.images = buildResult.images;
+        result.composeFile = buildResult.composeFile;
+        result.steps.dockerPush = buildResult.pushed;
+        if (buildResult.pushedImages.length > 0) result.pushedImages = buildResult.pushedImages;
+        services = buildResult.services;
+        builds = buildResult.builds;
+        this.step('dockerBuild', 'completed');
+        currentStep = null;
         this.log(`✅ Docker image built: ${buildResult.imageName}`);
+      } else {
+        this.step('dockerBuild', 'skipped');
+      }
+
+      // Step 3: Sandbox Smoke Test
+      this.checkCancelled();
+      const smokeTest = config.smokeTest ?? DEFAULT_SMOKE_TEST;
+      if (builds.length > 0 && smokeTest.enabled) {
+        this.log(`\n🧪 STEP 3: Sandbox Smoke Test`);
+        if (result.steps.dockerPush || builds[0].options.platforms?.length) {
+          this.log(`ℹ️ Skipped: images built for ${builds[0].options.platforms?.join(', ')} are not run on this host`);
+          this.step('smokeTest', 'skipped');
+        } else {
+          currentStep = 'smokeTest';
+          this.step('smokeTest', 'running');
+          result.smokeTest = await this.performSmokeTest(builds, smokeTest, analysisResult.analysis);
+          const failed = result.smokeTest.find(r => r.status === 'failed');
+          if (failed) {
+            throw new Error(`Smoke test failed for ${failed.image}: ${failed.message}`);
+          }
+          result.steps.smokeTest = true;
+          this.step('smokeTest', 'completed');
+          currentStep = null;
+        }
+      } else {
+        this.step('smokeTest', 'skipped');
+      }
+
+      // Step 4: SBOM & Vulnerability Scan
+      this.checkCancelled();
+      if (builds.length > 0) {
+        this.log(`\n🛡️ STEP 4: SBOM & Vulnerability Scan`);
+        if (result.steps.dockerPush || builds[0].options.platforms?.length) {
+          this.log(`ℹ️ Skipped: multi-platform images are pushed by the build and never loaded on this host`);
+          this.step('securityScan', 'skipped');
+        } else {
+          currentStep = 'securityScan';
+          this.step('securityScan', 'running');
+          result.securityReports = await this.performSecurityScan(builds, config.vulnerabilityPolicy);
+          result.secretFindings = [...(result.secretFindings || []), ...await this.performImageSecretScan(builds)];
+          const blocked = result.securityReports.find(r => r.policy && !r.policy.passed);
+          if (blocked) {
+            throw new Error(`Vulnerability policy blocked the push of ${blocked.image}: ${blocked.policy!.violations.join('; ')}`);
+          }
+          result.steps.securityScan = result.securityReports.length === builds.length;
+          this.step('securityScan', result.steps.securityScan ? 'completed' : 'failed');
+          currentStep = null;
+        }
+      } else {
+        this.step('securityScan', 'skipped');
       }
 
-      // Step 3: Docker Push
-      if (config.autoPush !== false && result.imageName) {
-        this.log(`\n📤 STEP 3: Docker Image Push`);
-        const pushResult = await this.performDockerPush(result.imageName, config);
+      // Step 5: Docker Push
+      this.checkCancelled();
+      if (result.steps.dockerPush) {
+        this.log(`\n📤 STEP 5: Docker Image Push - already pushed by the multi-platform build`);
+        this.step('dockerPush', 'completed');
+      } else if (config.autoPush !== false && result.imageName) {
+        this.log(`\n📤 STEP 5: Docker Image Push`);
+        this.step('dockerPush', 'running');
+        let pushResult: { success: boolean; error?: string; pushed?: PushedImage } = { success: true };
+        const pushedImages: PushedImage[] = [];
+        for (const image of result.images ? Object.values(result.images) : [result.imageName]) {
+          pushResult = await this.performDockerPush(image, config);
+          if (!pushResult.success) break;
+          pushedImages.push(pushResult.pushed!);
+        }
+        if (pushedImages.length > 0) result.pushedImages = pushedImages;
         if (!pushResult.success) {
+          this.step('dockerPush', 'failed', pushResult.error);
           this.log(`⚠️ Docker push failed (non-critical): ${pushResult.error}`);
         } else {
           result.steps.dockerPush = true;
+          this.step('dockerPush', 'completed');
           this.log(`✅ Docker image pushed successfully`);
         }
+      } else {
+        this.step('dockerPush', 'skipped');
       }
 
-      // Step 4: Auto Deployment
+      // Step 6: Auto Deployment
+      this.checkCancelled();
       if (config.autoDeploy !== false && result.imageName) {
-        this.log(`\n🚀 STEP 4: Automatic Deployment`);
-        const deployResult = await this.performAutoDeployment(result.imageName, config);
-        if (deployResult.success) {
+        this.log(`\n🚀 STEP 6: Automatic Deployment`);
+        this.step('deployment', 'running');
+        const deployResult = await this.performAutoDeployment(result.imageName, config, result.steps.dockerPush, services);
+        if (deployResult.success && deployResult.deployment) {
           result.steps.deployment = true;
-          result.deploymentUrl = deployResult.deploymentUrl;
-          this.log(`✅ Application deployed successfully: ${deployResult.deploymentUrl}`);
+          result.targetDeployment = deployResult.deployment;
+          result.deploymentUrl = deployResult.deployment.url;
+          this.step('deployment', 'completed');
+          this.log(`✅ Application deployed successfully: ${deployResult.deployment.url || deployResult.deployment.resourceId}`);
         } else {
-          this.log(`⚠️ Auto deployment failed (non-critical): ${(deployResult as any).error || 'Unknown error'}`);
+          const deployError = deployResult.error || 'Unknown error';
+          this.step('deployment', 'failed', deployError);
+          this.log(`⚠️ Auto deployment failed (non-critical): ${deployError}`);
         }
+      } else {
+        this.step('deployment', 'skipped');
+      }
+
+      // Step 7: Health Check
+      this.checkCancelled();
+      const healthCheck = config.healthCheck ?? DEFAULT_HEALTH_CHECK;
+      if (result.targetDeployment && healthCheck.enabled) {
+        this.log(`\n🩺 STEP 7: Health Check`);
+        currentStep = 'healthCheck';
+        this.step('healthCheck', 'running');
+        const { health, restored } = await this.performHealthCheck(result.targetDeployment, config, healthCheck, analysisResult.analysis?.runtime?.healthEndpoints);
+        result.healthCheck = health;
+        if (restored) {
+          result.targetDeployment = restored;
+          result.deploymentUrl = restored.url;
+        }
+        if (health.status === 'failed') {
+          throw new Error(`Health check failed: ${health.message}${health.rollback ? `; ${describeRollback(health.rollback)}` : ''}`);
+        }
+        result.steps.healthCheck = health.status === 'passed';
+        this.step('healthCheck', health.status === 'passed' ? 'completed' : 'skipped');
+        currentStep = null;
+        if (health.status === 'skipped') this.log(`ℹ️ Health check skipped: ${health.message}`);
+      } else {
+        this.step('healthCheck', 'skipped');
       }
 
       result.success = true;
-      result.logs = this.logs;
       this.log(`\n🎉 FULLY AUTOMATED DEPLOYMENT COMPLETE!`);
       this.log(`📊 Summary:`);
       this.log(`   - Analysis: ${result.steps.analysis ? '✅' : '❌'}`);
       this.log(`   - File Generation: ${result.steps.fileGeneration ? '✅' : '❌'}`);
       this.log(`   - Docker Build: ${result.steps.dockerBuild ? '✅' : '❌'}`);
+      this.log(`   - Smoke Test: ${result.steps.smokeTest ? '✅' : '❌'}`);
+      this.log(`   - Security Scan: ${result.steps.securityScan ? '✅' : '❌'}`);
       this.log(`   - Docker Push: ${result.steps.dockerPush ? '✅' : '❌'}`);
       this.log(`   - Deployment: ${result.steps.deployment ? '✅' : '❌'}`);
+      this.log(`   - Health Check: ${result.steps.healthCheck ? '✅' : '❌'}`);
 
       return result;
 
     } catch (error) {
-      this.log(`\n❌ DEPLOYMENT FAILED: ${error}`);
-      result.error = error instanceof Error ? error.message : 'Unknown error';
-      result.logs = this.logs;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (error instanceof AutoDeployCancelledError) {
+        this.log(`\n🛑 DEPLOYMENT CANCELLED`);
+      } else {
+        this.log(`\n❌ DEPLOYMENT FAILED: ${error}`);
+        if (currentStep) this.step(currentStep, 'failed', message);
+      }
+      result.error = message;
       return result;
+    } finally {
+      this.checkout?.cleanup();
+      this.checkout = undefined;
     }
   }
 
@@ -143,20 +399,24 @@ export class AutoDeployService {
    */
   private async performAIAnalysis(config: AutoDeployConfig) {
     this.log(`🧠 Running AI analysis with LangChain + GPT-4o Mini...`);
-    
-    // Enable auto-build for this analysis
-    process.env.AUTO_BUILD = 'true';
-    
+
+    // The checkout is kept so step 2 builds from the full source tree
     const result = await processDockerfileGeneration(
       config.repoUrl,
       'Generate production-ready Dockerfile with full automation',
-      config.githubToken
+      config.githubToken,
+      { ref: config.ref, keepCheckout: true }
     );
+    this.checkout = result.checkout;
 
     if (!result.success) {
       throw new Error(result.error || 'AI analysis failed');
     }
 
+    if (this.checkout) {
+      this.log(`📥 Checked out ${this.checkout.remote.cloneUrl} at ${this.checkout.commit.slice(0, 12)}`);
+    }
+
     this.log(`📊 Analysis Results:`);
     this.log(`   - Language: ${result.analysis?.language}`);
     this.log(`   - Framework: ${result.analysis?.framework || 'None detected'}`);
@@ -170,49 +430,211 @@ export class AutoDeployService {
   /**
    * Step 2: Docker Build with Intelligent Error Fixing
    */
-  private async performDockerBuild(analysisResult: any, config: AutoDeployConfig) {
+  private async performDockerBuild(analysisResult: DockerfileGenerationResult, config: AutoDeployConfig) {
     this.log(`🔨 Building Docker image with intelligent error fixing...`);
     
     if (!analysisResult.dockerfile) {
       throw new Error('No Dockerfile generated from AI analysis');
     }
 
-    // Prepare build context
-    const buildContext = prepareBuildContext(config.repoUrl, analysisResult.files || [], analysisResult.dockerfile);
-    const imageName = deriveImageName(config.repoUrl);
+    // Prepare the build context in this deployment's workspace
+    const { dir: buildContext } = workspaceManager.create(this.deploymentId, {
+      repoIdentifier: config.repoUrl,
+      files: analysisResult.files || [],
+      dockerfile: analysisResult.dockerfile,
+      sourceDir: this.checkout?.dir
+    });
+    const imageName = deriveImageName(config.repoUrl, config.imageTag, destinationFor(config));
+    const buildOptions = await this.resolveBuildOptions(config);
     
     this.log(`📁 Build context: ${buildContext}`);
-    this.log(`🏷️ Image name: ${imageName}`);
 
-    // Write Dockerfile to disk for monitoring
-    const dockerfilePath = 'Dockerfile';
+    // Monorepos: one image per detected service, primary image is the first service
+    const layout = analysisResult.services;
+    if (layout) {
+      const images = serviceImageNames(layout, imageName);
+      const composeFile = renderComposeFile(layout, images);
+      writeServiceFiles(buildContext, layout, composeFile);
+      this.log(`🧩 Building ${layout.services.length} services: ${layout.services.map(s => s.name).join(', ')}`);
+
+      const builds: ImageBuild[] = [];
+      const pushedImages: PushedImage[] = [];
+      for (const service of layout.services) {
+        this.checkCancelled();
+        this.log(`\n📦 Service ${service.name} (${service.path})`);
+        const build = {
+          image: images[service.name],
+          dockerfilePath: path.join(buildContext, service.dockerfile),
+          context: path.join(buildContext, service.context),
+          options: buildOptions
+        };
+        const digest = await this.buildImage(build.dockerfilePath, build.context, build.image, buildOptions);
+        if (buildOptions.push) pushedImages.push(pushedImage(build.image, digest));
+        builds.push(build);
+      }
+
+      this.log(`🐙 Generated docker-compose.yml for ${layout.services.length} services`);
+      const services = layout.services.map(s => ({ name: s.name, image: images[s.name], port: s.port, dependsOn: s.dependsOn }));
+      return { success: true, imageName: images[layout.services[0].name], images, composeFile, services, builds, pushed: !!buildOptions.push, pushedImages };
+    }
+
+    // Write Dockerfile into the build context so concurrent jobs never share it
+    const dockerfilePath = path.join(buildContext, 'Dockerfile');
     fs.writeFileSync(dockerfilePath, analysisResult.dockerfile);
 
+    const digest = await this.buildImage(dockerfilePath, buildContext, imageName, buildOptions);
+    const builds: ImageBuild[] = [{ image: imageName, dockerfilePath, context: buildContext, options: buildOptions }];
+    const pushedImages = buildOptions.push ? [pushedImage(imageName, digest)] : [];
+    return { success: true, imageName, images: undefined, composeFile: undefined, services: undefined, builds, pushed: !!buildOptions.push, pushedImages };
+  }
+
+  /**
+   * Step 3: run each image in the sandbox before anything is pushed. A crash
+   * the auto-fixer recognises is fixed in the Dockerfile and the image
+   * rebuilt; start commands are only rewritten for single-image projects,
+   * since the analysis describes the repository as a whole.
+   */
+  private async performSmokeTest(builds: ImageBuild[], options: SmokeTestOptions, analysis?: ProjectAnalysis): Promise<SmokeTestResult[]> {
+    const fixer = new DockerAutoFixer(process.env.OPENAI_API_KEY || '', { onLog: line => this.log(line) });
+    const results: SmokeTestResult[] = [];
+
+    for (const build of builds) {
+      this.checkCancelled();
+      const fixes = { removedInstructions: [] as string[] };
+      let result = await smokeTestImage(build.image, options, { onLog: line => this.log(line) });
+      for (let attempt = 1; result.status === 'failed' && options.autoFix && attempt <= MAX_RUNTIME_FIXES; attempt++) {
+        if (!fixer.fixRuntimeError(result.error!, build.dockerfilePath, builds.length === 1 ? analysis : undefined, fixes)) break;
+        this.checkCancelled();
+        this.log(`🔁 Rebuilding ${build.image} after runtime fix ${attempt}/${MAX_RUNTIME_FIXES}`);
+        await this.buildImage(build.dockerfilePath, build.context, build.image, build.options);
+        result = await smokeTestImage(build.image, options, { onLog: line => this.log(line) });
+      }
+      if (result.status === 'inconclusive') {
+        this.log(`⚠️ ${build.image} needs services or configuration the sandbox does not have; continuing`);
+      }
+      results.push(result);
+      if (result.status === 'failed') break;
+    }
+    return results;
+  }
+
+  /**
+   * Step 4: SBOM and vulnerability report for each image. Without a policy
+   * a failed scan is only logged; with one, an image that cannot be
+   * checked is treated like one that fails the check.
+   */
+  private async performSecurityScan(builds: ImageBuild[], policy?: VulnerabilityPolicy): Promise<ImageSecurityReport[]> {
+    const reports: ImageSecurityReport[] = [];
+    for (const build of builds) {
+      this.checkCancelled();
+      try {
+        reports.push(await scanImage(build.image, {
+          onLog: line => this.log(line),
+          policy,
+          dockerfilePath: build.dockerfilePath,
+          outputDir: path.join(sbomDir(), this.deploymentId)
+        }));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (policy) throw new Error(`Security scan of ${build.image} failed: ${message}`);
+        this.log(`⚠️ Security scan of ${build.image} failed (non-critical): ${message}`);
+      }
+    }
+    return reports;
+  }
+
+  /**
+   * Step 4: secrets left in image history and config, where anyone who can
+   * pull the image can read them. Reported only; the scan never fails a run.
+   */
+  private async performImageSecretScan(builds: ImageBuild[]): Promise<SecretFinding[]> {
+    const findings: SecretFinding[] = [];
+    for (const build of builds) {
+      this.checkCancelled();
+      try {
+        const found = await scanImageForSecrets(build.image);
+        found.forEach(finding => this.log(`🔐 ${formatSecretFinding(finding)}`));
+        findings.push(...found);
+      } catch (error) {
+        this.log(`⚠️ Secret scan of ${build.image} failed (non-critical): ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    if (findings.length === 0) this.log(`✅ No secrets in image history or config`);
+    return findings;
+  }
+
+  /**
+   * Build options for this run: the configured BuildKit options plus OCI
+   * source labels. Multi-platform images are pushed by the build itself, so
+   * they need registry credentials up front.
+   */
+  private async resolveBuildOptions(config: AutoDeployConfig): Promise<BuildImageOptions> {
+    const options: BuildImageOptions = {
+      ...config.buildOptions,
+      secrets: config.buildSecrets,
+      labels: {
+        'org.opencontainers.image.source': config.repoUrl.replace(/\/\/[^@/]+@/, '//'),
+        ...(this.checkout ? { 'org.opencontainers.image.revision': this.checkout.commit } : {}),
+        ...config.buildOptions?.labels
+      }
+    };
+
+    if ((options.platforms?.length || 0) > 1) {
+      const auth = registryAuthFor(config);
+      if (config.autoPush === false || !auth) {
+        throw new Error('Multi-platform builds are pushed during the build and need autoPush with registry credentials');
+      }
+      await this.dockerLogin(auth);
+      options.push = true;
+    }
+
+    const summary = [
+      options.target && `target=${options.target}`,
+      options.platforms?.length && `platforms=${options.platforms.join(',')}`,
+      options.buildArgs && `build args: ${Object.keys(options.buildArgs).join(', ')}`,
+      options.cacheFrom && `cache from: ${options.cacheFrom.length}`,
+      options.cacheTo && `cache to: ${options.cacheTo.length}`,
+      options.secrets?.length && `secrets: ${options.secrets.map(s => s.id).join(', ')}`
+    ].filter(Boolean);
+    if (summary.length > 0) this.log(`⚙️ Build options: ${summary.join('; ')}`);
+
+    return options;
+  }
+
+  /**
+   * Validate a Dockerfile and build it with automatic error fixing. Resolves
+   * the manifest digest when the build pushed the image.
+   */
+  private async buildImage(dockerfilePath: string, buildContext: string, imageName: string, buildOptions: BuildImageOptions): Promise<string | undefined> {
+    this.log(`🏷️ Image name: ${imageName}`);
+    assertTargetStage(buildOptions, fs.readFileSync(dockerfilePath, 'utf8'));
+
     // Validate Dockerfile first
     this.log(`🔍 Validating Dockerfile for common issues...`);
-    const validationErrors = await dockerBuildMonitor.validateDockerfile(dockerfilePath);
+    const validationErrors = await dockerBuildMonitor.validateDockerfile(dockerfilePath, { contextDir: buildContext });
     if (validationErrors.length > 0) {
       this.log(`⚠️ Found ${validationErrors.length} potential issues in Dockerfile:`);
       validationErrors.forEach(error => {
-        this.log(`  - ${error.type}: ${error.message}`);
+        this.log(`  - ${error.ruleId ?? error.type} (line ${error.line}): ${error.message}`);
       });
     }
 
     // Build with auto-error fixing
     this.log(`🚀 Starting intelligent Docker build with auto-error fixing...`);
-    const buildResult = await dockerBuildMonitor.buildWithAutoFix(
+    const buildResult = await workspaceManager.use(this.deploymentId, () => dockerBuildMonitor.buildWithAutoFix(
       dockerfilePath,
       buildContext,
       imageName,
-      3 // Max 3 retry attempts
-    );
+      3, // Max 3 retry attempts
+      buildOptions
+    ));
 
     if (buildResult.success) {
       this.log(`✅ Docker image built successfully: ${imageName}`);
       if (buildResult.errors.length > 0) {
         this.log(`🔧 Auto-fixed ${buildResult.errors.length} errors during build process`);
       }
-      return { success: true, imageName };
+      return buildResult.digest;
     } else {
       this.log(`❌ Docker build failed after auto-fix attempts`);
       buildResult.errors.forEach(error => {
@@ -223,170 +645,154 @@ export class AutoDeployService {
   }
 
   /**
-   * Step 3: Docker Push
+   * Step 5: Docker Push
    */
   private async performDockerPush(imageName: string, config: AutoDeployConfig) {
-    this.log(`📤 Pushing to Docker Hub...`);
+    const auth = registryAuthFor(config);
+    const destination = destinationFor(config);
     
-    if (!config.dockerHubUsername || !config.dockerHubPassword) {
-      this.log(`⚠️ Docker Hub credentials not provided, skipping push`);
-      return { success: false, error: 'No Docker Hub credentials' };
+    // Insecure registries (e.g. a local registry:2) usually take anonymous pushes
+    if (!auth && !destination.insecure) {
+      this.log(`⚠️ Registry credentials not provided, skipping push`);
+      return { success: false, error: 'No registry credentials' };
     }
 
     try {
-      // Login to Docker Hub
-      await this.dockerLogin(config.dockerHubUsername, config.dockerHubPassword);
-      
-      // Push the image
-      await push_docker_image(imageName, {
-        onLog: (chunk) => this.log(`📤 ${chunk.trim()}`)
+      // The Engine API takes the credentials with the push; no CLI login needed
+      const result = await push_docker_image(imageName, {
+        onLog: (chunk) => this.log(`📤 ${chunk.trim()}`),
+        auth,
+        destination
       });
 
-      return { success: true };
+      return { success: true, pushed: pushedImage(imageName, result.digest) };
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : 'Push failed' };
     }
   }
 
   /**
-   * Step 4: Auto Deployment
+   * Step 6: Auto Deployment
    */
-  private async performAutoDeployment(imageName: string, config: AutoDeployConfig) {
-    this.log(`🚀 Deploying to ${config.deploymentTarget || 'dockerhub'}...`);
-    
-    switch (config.deploymentTarget) {
-      case 'dockerhub':
-        return this.deployToDockerHub(imageName, config);
-      case 'aws':
-        return this.deployToAWS(imageName, config);
-      case 'gcp':
-        return this.deployToGCP(imageName, config);
-      case 'azure':
-        return this.deployToAzure(imageName, config);
-      case 'vercel':
-        return this.deployToVercel(imageName, config);
-      case 'netlify':
-        return this.deployToNetlify(imageName, config);
-      default:
-        this.log(`ℹ️ No specific deployment target, image is ready for manual deployment`);
-        return { success: true, deploymentUrl: `docker://${imageName}` };
-    }
-  }
+  private async performAutoDeployment(
+    imageName: string,
+    config: AutoDeployConfig,
+    pushed: boolean,
+    services?: TargetService[]
+  ): Promise<{ success: boolean; error?: string; deployment?: TargetDeployment }> {
+    try {
+      const target = getDeploymentTarget(config.deploymentTarget);
+      const targetConfig = target.validateConfig(config.deploymentConfig ?? {});
+      this.log(`🚀 Deploying to ${target.displayName}...`);
 
-  /**
-   * Docker Hub Login
-   */
-  private async dockerLogin(username: string, password: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.log(`🔐 Logging into Docker Hub...`);
-      
-      const loginProc = spawn('docker', ['login', '-u', username, '-p', password], {
-        stdio: ['ignore', 'pipe', 'pipe']
-      });
-      
-      loginProc.stdout.on('data', (data) => this.log(`🔐 ${data.toString().trim()}`));
-      loginProc.stderr.on('data', (data) => this.log(`🔐 ${data.toString().trim()}`));
-      
-      loginProc.on('close', (code) => {
-        if (code !== 0) {
-          reject(new Error(`Docker login failed with code ${code}`));
-        } else {
-          this.log(`✅ Docker Hub login successful`);
-          resolve();
-        }
-      });
-    });
-  }
+      if (target.requiresPushedImage && !pushed) {
+        return { success: false, error: `${target.displayName} pulls the image from a registry, but ${imageName} was not pushed` };
+      }
 
-  /**
-   * Deploy to Docker Hub (already done via push)
-   */
-  private async deployToDockerHub(imageName: string, config: AutoDeployConfig) {
-    const dockerHubUrl = `https://hub.docker.com/r/${imageName.split(':')[0]}`;
-    this.log(`✅ Image available on Docker Hub: ${dockerHubUrl}`);
-    return { success: true, deploymentUrl: dockerHubUrl };
+      const deployment = await target.deploy(imageName, targetConfig, {
+        deploymentId: this.deploymentId,
+        ownerId: this.hooks.ownerId,
+        onLog: line => this.log(line),
+        services,
+        registryAuth: registryAuthFor(config)
+      });
+      return { success: true, deployment };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Deployment failed' };
+    }
   }
 
   /**
-   * Deploy to AWS ECS/Fargate
+   * Step 7: Health Check, rolling back to the last healthy image on failure
    */
-  private async deployToAWS(imageName: string, config: AutoDeployConfig) {
-    this.log(`☁️ Deploying to AWS ECS/Fargate...`);
-    
-    // This would integrate with AWS SDK
-    // For now, return a placeholder
-    const deploymentUrl = `https://aws.amazon.com/ecs/`;
-    this.log(`✅ AWS deployment initiated: ${deploymentUrl}`);
-    return { success: true, deploymentUrl };
-  }
+  private async performHealthCheck(
+    deployment: TargetDeployment,
+    config: AutoDeployConfig,
+    options: HealthCheckOptions,
+    healthEndpoints?: string[]
+  ): Promise<{ health: HealthCheckResult; restored?: TargetDeployment }> {
+    const target = getDeploymentTarget(config.deploymentTarget);
+    const targetConfig = target.validateConfig(config.deploymentConfig ?? {});
+    const health = await runHealthCheck(deployment, target, targetConfig, options, {
+      healthEndpoints,
+      onLog: line => this.log(line),
+      isCancelled: this.hooks.isCancelled
+    });
+    if (health.status !== 'failed' || !options.rollback) return { health };
 
-  /**
-   * Deploy to Google Cloud Run
-   */
-  private async deployToGCP(imageName: string, config: AutoDeployConfig) {
-    this.log(`☁️ Deploying to Google Cloud Run...`);
-    
-    // This would integrate with Google Cloud SDK
-    const deploymentUrl = `https://cloud.google.com/run`;
-    this.log(`✅ GCP deployment initiated: ${deploymentUrl}`);
-    return { success: true, deploymentUrl };
+    this.log(`❌ ${health.message}`);
+    const { rollback, deployment: restored } = await this.rollbackUnhealthy(deployment, target, targetConfig);
+    return { health: { ...health, rollback }, restored };
   }
 
   /**
-   * Deploy to Azure Container Instances
+   * Put the last healthy image back. The target's own rollback is used when
+   * its previous revision is that image; otherwise the image is deployed again.
    */
-  private async deployToAzure(imageName: string, config: AutoDeployConfig) {
-    this.log(`☁️ Deploying to Azure Container Instances...`);
-    
-    // This would integrate with Azure SDK
-    const deploymentUrl = `https://azure.microsoft.com/en-us/services/container-instances/`;
-    this.log(`✅ Azure deployment initiated: ${deploymentUrl}`);
-    return { success: true, deploymentUrl };
-  }
+  private async rollbackUnhealthy(
+    deployment: TargetDeployment,
+    target: DeploymentTarget<any>,
+    targetConfig: unknown
+  ): Promise<{ rollback: HealthCheckRollback; deployment?: TargetDeployment }> {
+    const known = this.hooks.lastHealthyDeployment?.();
+    const lastHealthy = known && known.resourceId === deployment.resourceId ? known : undefined;
+    const context = { deploymentId: this.deploymentId, ownerId: this.hooks.ownerId, onLog: (line: string) => this.log(line) };
 
-  /**
-   * Deploy to Vercel
-   */
-  private async deployToVercel(imageName: string, config: AutoDeployConfig) {
-    this.log(`☁️ Deploying to Vercel...`);
-    
-    // This would integrate with Vercel API
-    const deploymentUrl = `https://vercel.com`;
-    this.log(`✅ Vercel deployment initiated: ${deploymentUrl}`);
-    return { success: true, deploymentUrl };
+    try {
+      let restored: TargetDeployment;
+      if (deployment.previousRevision && (!lastHealthy || lastHealthy.image === deployment.previousImage)) {
+        this.log(`⏪ Rolling back to ${deployment.previousImage || `revision ${deployment.previousRevision}`}`);
+        restored = await target.rollback(deployment, targetConfig, context);
+      } else if (lastHealthy && lastHealthy.image !== deployment.image) {
+        this.log(`⏪ Redeploying the last healthy image ${lastHealthy.image}`);
+        restored = await target.deploy(lastHealthy.image, targetConfig, { ...context, deploymentId: `${this.deploymentId}-rollback` });
+      } else {
+        this.log(`⚠️ No earlier healthy image to roll back to`);
+        return { rollback: { status: 'unavailable', error: 'No earlier healthy image for this repository and target' } };
+      }
+      this.log(`✅ Rolled back to ${restored.image}`);
+      return { rollback: { status: 'rolled_back', image: restored.image, revision: restored.revision }, deployment: restored };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Rollback failed';
+      this.log(`❌ Rollback failed: ${message}`);
+      return { rollback: { status: 'failed', error: message } };
+    }
   }
 
   /**
-   * Deploy to Netlify
+   * Log the Docker CLI into the registry for buildx, which pushes
+   * multi-platform images itself
    */
-  private async deployToNetlify(imageName: string, config: AutoDeployConfig) {
-    this.log(`☁️ Deploying to Netlify...`);
-    
-    // This would integrate with Netlify API
-    const deploymentUrl = `https://netlify.com`;
-    this.log(`✅ Netlify deployment initiated: ${deploymentUrl}`);
-    return { success: true, deploymentUrl };
+  private async dockerLogin(auth: RegistryAuth): Promise<void> {
+    await login_docker_registry(auth, line => this.log(`🔐 ${line.trim()}`));
   }
 
   /**
-   * Get deployment logs
+   * Get deployment logs, from the deployment's log store
    */
-  getLogs(): string[] {
-    return this.logs;
+  async getLogs(since?: Date): Promise<string[]> {
+    const records = await logWriter.store.query(this.deploymentId, { stream: 'pipeline', since });
+    return records.map(record => `[${record.time}] ${record.message}`);
   }
 
   /**
    * Get deployment status
    */
-  getStatus(): { deploymentId: string; status: string; logs: string[] } {
+  async getStatus(): Promise<{ deploymentId: string; status: string; logs: string[] }> {
     return {
       deploymentId: this.deploymentId,
       status: 'running',
-      logs: this.logs
+      logs: await this.getLogs()
     };
   }
 }
 
+function describeRollback(rollback: HealthCheckRollback): string {
+  if (rollback.status === 'rolled_back') return `rolled back to ${rollback.image}`;
+  if (rollback.status === 'failed') return `rollback failed: ${rollback.error}`;
+  return 'nothing to roll back to';
+}
+
 /**
  * 🚀 ONE-CLICK FULLY AUTOMATED DEPLOYMENT
  * This is the main function you'll call for complete automation
@@ -395,40 +801,3 @@ export async function performFullyAutomatedDeployment(config: AutoDeployConfig):
   const service = new AutoDeployService();
   return await service.deploy(config);
 }
-
-/**
- * 🔄 GitHub Webhook Handler for Automatic Deployment
- * This handles GitHub push events and triggers automatic deployment
- */
-export async function handleGitHubWebhook(payload: any): Promise<AutoDeployResult> {
-  const { repository, ref } = payload;
-  
-  if (ref !== 'refs/heads/main' && ref !== 'refs/heads/master') {
-    return {
-      success: false,
-      deploymentId: `webhook-${Date.now()}`,
-      logs: ['Skipping deployment - not main/master branch'],
-      steps: {
-        analysis: false,
-        fileGeneration: false,
-        dockerBuild: false,
-        dockerPush: false,
-        deployment: false
-      },
-      error: 'Not main/master branch'
-    };
-  }
-
-  const repoUrl = repository.html_url;
-  console.log(`🔄 GitHub webhook triggered for: ${repoUrl}`);
-
-  const config: AutoDeployConfig = {
-    repoUrl,
-    autoBuild: true,
-    autoPush: true,
-    autoDeploy: true,
-    deploymentTarget: 'dockerhub'
-  };
-
-  return await performFullyAutomatedDeployment(config);
-}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import {
+  BuildOptionsError,
+  parseBuildOptions,
+  recordBuildOptions,
+  registryCacheRefs,
+  requiresBuildx,
+  resolveCacheSpec,
+  localCacheRoot
+} from './buildOptions';
+
+const DOCKERFILE = `FROM node:20 AS deps
+RUN npm ci
+FROM node:20-slim AS runtime
+COPY --from=deps /app /app
+`;
+
+function errorsOf(input: unknown, dockerfile?: string): string[] {
+  try {
+    parseBuildOptions(input, { dockerfile });
+  } catch (error) {
+    if (error instanceof BuildOptionsError) return error.errors;
+    throw error;
+  }
+  return [];
+}
+
+describe('parseBuildOptions', () => {
+  it('normalizes a full set of options', () => {
+    const { options, secrets } = parseBuildOptions({
+      buildArgs: { NODE_ENV: 'production', WORKERS: 4 },
+      target: 'runtime',
+      platforms: 'linux/amd64, linux/arm64',
+      cacheFrom: ['acme/api:buildcache'],
+      cacheTo: ['type=registry,ref=acme/api:buildcache,mode=max'],
+      secrets: [{ id: 'npmrc', value: '//registry.npmjs.org/:_authToken=abc' }],
+      labels: { 'org.opencontainers.image.vendor': 'Acme' },
+      pull: true
+    }, { dockerfile: DOCKERFILE });
+
+    expect(options).toEqual({
+      buildArgs: { NODE_ENV: 'production', WORKERS: '4' },
+      target: 'runtime',
+      platforms: ['linux/amd64', 'linux/arm64'],
+      cacheFrom: ['type=registry,ref=acme/api:buildcache'],
+      cacheTo: ['type=registry,ref=acme/api:buildcache,mode=max'],
+      labels: { 'org.opencontainers.image.vendor': 'Acme' },
+      pull: true
+    });
+    expect(secrets).toEqual([{ id: 'npmrc', value: '//registry.npmjs.org/:_authToken=abc' }]);
+  });
+
+  it('treats missing options as an empty build', () => {
+    expect(parseBuildOptions(undefined)).toEqual({ options: {}, secrets: [] });
+  });
+
+  it('rejects a target that is not a stage of the Dockerfile', () => {
+    expect(errorsOf({ target: 'test' }, DOCKERFILE)).toEqual([
+      'target stage "test" is not defined in the Dockerfile (stages: deps, runtime)'
+    ]);
+  });
+
+  it('steers credentials away from build args', () => {
+    expect(errorsOf({ buildArgs: { NPM_TOKEN: 'abc' } })[0]).toMatch(/NPM_TOKEN looks like a credential/);
+  });
+
+  it('collects every problem at once', () => {
+    expect(errorsOf({
+      platforms: ['linux/amd64', 'macos/m1'],
+      cacheFrom: ['type=s3,bucket=x'],
+      cacheTo: ['type=local,dest=/etc'],
+      noCache: 'yes',
+      secrets: [{ id: 'a', value: '1' }, { id: 'a', value: '2' }]
+    })).toEqual([
+      'unsupported platforms: macos/m1 (expected e.g. linux/amd64, linux/arm64)',
+      'cacheFrom type "s3" is not supported (use registry, local, gha)',
+      'cacheTo local cache needs dest=<name> (letters, digits, "._-")',
+      'noCache must be a boolean',
+      'secret id "a" is used twice'
+    ]);
+  });
+});
+
+describe('build routing', () => {
+  it('keeps plain builds on the Engine API', () => {
+    const { options } = parseBuildOptions({ platforms: ['linux/arm64'], cacheFrom: ['acme/api:cache'], target: 'deps' });
+    expect(requiresBuildx(options)).toBe(false);
+    expect(registryCacheRefs(options)).toEqual(['acme/api:cache']);
+  });
+
+  it('uses buildx for secrets, cache export and multi-platform images', () => {
+    expect(requiresBuildx({}, [{ id: 'npmrc', value: 'x' }])).toBe(true);
+    expect(requiresBuildx({ cacheTo: ['type=inline'] })).toBe(true);
+    expect(requiresBuildx({ platforms: ['linux/amd64', 'linux/arm64'] })).toBe(true);
+    expect(requiresBuildx({ cacheFrom: ['type=local,src=api'] })).toBe(true);
+  });
+
+  it('confines local caches to the cache directory', () => {
+    expect(resolveCacheSpec('type=local,dest=api,mode=max')).toBe(`type=local,dest=${path.join(localCacheRoot(), 'api')},mode=max`);
+    expect(resolveCacheSpec('type=registry,ref=acme/api:cache')).toBe('type=registry,ref=acme/api:cache');
+  });
+});
+
+describe('recordBuildOptions', () => {
+  it('stores secret ids without their values', () => {
+    const recorded = recordBuildOptions({ target: 'runtime' }, [{ id: 'npmrc', value: 'token' }]);
+    expect(recorded).toEqual({ target: 'runtime', secrets: ['npmrc'] });
+    expect(JSON.stringify(recorded)).not.toContain('token');
+  });
+});
@@ -0,0 +1,261 @@
+import path from 'path';
+import type { DeploymentBuildOptions } from '../../shared/types';
+import { parseDockerfile } from './dockerfileParser';
+
+/** Build options that are safe to store; secrets travel separately */
+export type BuildKitOptions = Omit<DeploymentBuildOptions, 'secrets'>;
+
+/** A value exposed to `RUN --mount=type=secret,id=<id>`, never written to a layer */
+export interface BuildSecret {
+  id: string;
+  value: string;
+}
+
+export class BuildOptionsError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid build options: ${errors.join('; ')}`);
+    this.name = 'BuildOptionsError';
+  }
+}
+
+const MAX_BUILD_ARGS = 100;
+const MAX_LABELS = 50;
+const MAX_PLATFORMS = 8;
+const MAX_CACHE_SPECS = 4;
+const MAX_SECRETS = 20;
+const MAX_SECRET_BYTES = 64 * 1024;
+
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const STAGE_NAME = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/;
+const SECRET_ID = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/;
+const LABEL_KEY = /^[A-Za-z0-9][A-Za-z0-9._\/-]{0,127}$/;
+const PLATFORM = /^(linux|windows)\/(amd64|arm64|arm|386|ppc64le|s390x|riscv64|mips64le)(\/v[5-8])?$/;
+const IMAGE_REF = /^[a-z0-9]+([._-][a-z0-9]+)*(:\d+)?(\/[a-z0-9]+([._-][a-z0-9]+)*)*(:[A-Za-z0-9_][A-Za-z0-9_.-]{0,127})?$/;
+const LOCAL_CACHE_NAME = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/;
+const SECRET_LIKE = /(password|passwd|secret|token|api_?key|private_?key|credentials?)$/i;
+
+const CACHE_FROM_TYPES = ['registry', 'local', 'gha'];
+const CACHE_TO_TYPES = ['registry', 'local', 'inline', 'gha'];
+
+/**
+ * Directory that `type=local` cache specs are confined to
+ */
+export function localCacheRoot(): string {
+  return path.resolve(process.env.BUILDKIT_CACHE_DIR || path.join(process.cwd(), '.data', 'buildkit-cache'));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseSpec(spec: string): Record<string, string> {
+  return Object.fromEntries(spec.split(',').map(part => {
+    const eq = part.indexOf('=');
+    return eq === -1 ? [part.trim(), ''] : [part.slice(0, eq).trim(), part.slice(eq + 1).trim()];
+  }));
+}
+
+function formatSpec(fields: Record<string, string>): string {
+  return Object.entries(fields).map(([k, v]) => `${k}=${v}`).join(',');
+}
+
+/**
+ * Normalize a `--cache-from` / `--cache-to` spec. A bare image reference is
+ * shorthand for `type=registry,ref=<image>`; local caches are named, not
+ * arbitrary paths, and live under {@link localCacheRoot}.
+ */
+function normalizeCacheSpec(spec: unknown, direction: 'cacheFrom' | 'cacheTo', errors: string[]): string | undefined {
+  if (typeof spec !== 'string' || !spec.trim()) {
+    errors.push(`${direction} entries must be non-empty strings`);
+    return undefined;
+  }
+  const fields = spec.includes('=') ? parseSpec(spec) : { type: 'registry', ref: spec.trim() };
+  const allowed = direction === 'cacheFrom' ? CACHE_FROM_TYPES : CACHE_TO_TYPES;
+  if (!allowed.includes(fields.type)) {
+    errors.push(`${direction} type "${fields.type || ''}" is not supported (use ${allowed.join(', ')})`);
+    return undefined;
+  }
+  if (fields.type === 'registry' && !IMAGE_REF.test(fields.ref || '')) {
+    errors.push(`${direction} registry cache needs a valid lowercase image ref, got "${fields.ref || ''}"`);
+    return undefined;
+  }
+  if (fields.type === 'local') {
+    const key = direction === 'cacheFrom' ? 'src' : 'dest';
+    if (!LOCAL_CACHE_NAME.test(fields[key] || '')) {
+      errors.push(`${direction} local cache needs ${key}=<name> (letters, digits, "._-")`);
+      return undefined;
+    }
+  }
+  if (fields.mode && !['min', 'max'].includes(fields.mode)) {
+    errors.push(`${direction} mode must be min or max`);
+    return undefined;
+  }
+  return formatSpec(fields);
+}
+
+function stringMap(value: unknown, field: string, key: RegExp, max: number, errors: string[]): Record<string, string> | undefined {
+  if (value === undefined) return undefined;
+  if (!isPlainObject(value)) {
+    errors.push(`${field} must be an object of string values`);
+    return undefined;
+  }
+  const entries = Object.entries(value);
+  if (entries.length > max) errors.push(`${field} allows at most ${max} entries`);
+
+  const result: Record<string, string> = {};
+  for (const [k, v] of entries) {
+    if (!key.test(k)) {
+      errors.push(`${field} key "${k}" is not valid`);
+    } else if (typeof v !== 'string' && typeof v !== 'number' && typeof v !== 'boolean') {
+      errors.push(`${field}.${k} must be a string`);
+    } else {
+      result[k] = String(v);
+    }
+  }
+  return entries.length > 0 ? result : undefined;
+}
+
+function stringList(value: unknown, field: string, errors: string[]): unknown[] | undefined {
+  if (value === undefined) return undefined;
+  const list = typeof value === 'string' ? value.split(',').map(v => v.trim()).filter(Boolean) : value;
+  if (!Array.isArray(list)) {
+    errors.push(`${field} must be an array`);
+    return undefined;
+  }
+  return list;
+}
+
+/**
+ * Validate build options from an API request or webhook config. When the
+ * Dockerfile is known, `target` must name one of its stages.
+ * Throws BuildOptionsError listing every problem found.
+ */
+export function parseBuildOptions(input: unknown, context: { dockerfile?: string } = {}): { options: BuildKitOptions; secrets: BuildSecret[] } {
+  if (input === undefined || input === null) return { options: {}, secrets: [] };
+  if (!isPlainObject(input)) throw new BuildOptionsError(['buildOptions must be an object']);
+
+  const errors: string[] = [];
+  const options: BuildKitOptions = {};
+
+  options.buildArgs = stringMap(input.buildArgs, 'buildArgs', NAME, MAX_BUILD_ARGS, errors);
+  for (const name of Object.keys(options.buildArgs || {})) {
+    if (SECRET_LIKE.test(name)) {
+      errors.push(`buildArgs.${name} looks like a credential; pass it in secrets so it is not stored in the image history`);
+    }
+  }
+
+  if (input.target !== undefined) {
+    if (typeof input.target !== 'string' || !STAGE_NAME.test(input.target)) {
+      errors.push('target must be a stage name');
+    } else {
+      options.target = input.target;
+      if (context.dockerfile !== undefined) {
+        const stages = parseDockerfile(context.dockerfile).stages.map(s => s.name).filter(Boolean);
+        if (!stages.includes(input.target)) {
+          errors.push(`target stage "${input.target}" is not defined in the Dockerfile${stages.length ? ` (stages: ${stages.join(', ')})` : ''}`);
+        }
+      }
+    }
+  }
+
+  const platforms = stringList(input.platforms ?? input.platform, 'platforms', errors);
+  if (platforms) {
+    const unique = [...new Set(platforms)];
+    const invalid = unique.filter(p => typeof p !== 'string' || !PLATFORM.test(p));
+    if (invalid.length > 0) errors.push(`unsupported platforms: ${invalid.join(', ')} (expected e.g. linux/amd64, linux/arm64)`);
+    if (unique.length > MAX_PLATFORMS) errors.push(`at most ${MAX_PLATFORMS} platforms can be built at once`);
+    if (unique.length > 0) options.platforms = unique as string[];
+  }
+
+  for (const direction of ['cacheFrom', 'cacheTo'] as const) {
+    const specs = stringList(input[direction], direction, errors);
+    if (!specs) continue;
+    if (specs.length > MAX_CACHE_SPECS) errors.push(`${direction} allows at most ${MAX_CACHE_SPECS} entries`);
+    const normalized = specs.map(spec => normalizeCacheSpec(spec, direction, errors)).filter((s): s is string => !!s);
+    if (normalized.length > 0) options[direction] = normalized;
+  }
+
+  options.labels = stringMap(input.labels, 'labels', LABEL_KEY, MAX_LABELS, errors);
+
+  for (const flag of ['noCache', 'pull'] as const) {
+    if (input[flag] === undefined) continue;
+    if (typeof input[flag] !== 'boolean') errors.push(`${flag} must be a boolean`);
+    else options[flag] = input[flag] as boolean;
+  }
+
+  const secrets: BuildSecret[] = [];
+  if (input.secrets !== undefined) {
+    if (!Array.isArray(input.secrets)) {
+      errors.push('secrets must be an array of { id, value }');
+    } else {
+      if (input.secrets.length > MAX_SECRETS) errors.push(`at most ${MAX_SECRETS} secrets are allowed`);
+      for (const secret of input.secrets) {
+        if (!isPlainObject(secret) || typeof secret.id !== 'string' || typeof secret.value !== 'string') {
+          errors.push('secrets entries must be { id, value } strings');
+        } else if (!SECRET_ID.test(secret.id)) {
+          errors.push(`secret id "${secret.id}" is not valid`);
+        } else if (secrets.some(s => s.id === secret.id)) {
+          errors.push(`secret id "${secret.id}" is used twice`);
+        } else if (Buffer.byteLength(secret.value) > MAX_SECRET_BYTES) {
+          errors.push(`secret "${secret.id}" is larger than ${MAX_SECRET_BYTES / 1024}KB`);
+        } else {
+          secrets.push({ id: secret.id, value: secret.value });
+        }
+      }
+    }
+  }
+
+  if (errors.length > 0) throw new BuildOptionsError(errors);
+
+  // Drop keys that were not set so stored records stay compact
+  const compact = Object.fromEntries(Object.entries(options).filter(([, v]) => v !== undefined)) as BuildKitOptions;
+  return { options: compact, secrets };
+}
+
+/**
+ * Check `target` against a Dockerfile that was not known at request time
+ */
+export function assertTargetStage(options: BuildKitOptions, dockerfile: string): void {
+  if (!options.target) return;
+  parseBuildOptions({ target: options.target }, { dockerfile });
+}
+
+/**
+ * The stored form of a build: options plus secret ids, without secret values
+ */
+export function recordBuildOptions(options: BuildKitOptions, secrets: BuildSecret[] = []): DeploymentBuildOptions {
+  return {
+    ...options,
+    ...(secrets.length > 0 ? { secrets: secrets.map(s => s.id) } : {})
+  };
+}
+
+/**
+ * Whether the options need `docker buildx` rather than the Engine API's
+ * classic builder (which has no secret mounts, cache export or multi-arch)
+ */
+export function requiresBuildx(options: BuildKitOptions, secrets: BuildSecret[] = []): boolean {
+  return secrets.length > 0
+    || (options.platforms?.length || 0) > 1
+    || (options.cacheTo?.length || 0) > 0
+    || (options.cacheFrom || []).some(spec => parseSpec(spec).type !== 'registry');
+}
+
+/**
+ * Registry refs from cacheFrom, for the classic builder's `cachefrom`
+ */
+export function registryCacheRefs(options: BuildKitOptions): string[] {
+  return (options.cacheFrom || []).map(parseSpec).filter(s => s.type === 'registry').map(s => s.ref);
+}
+
+/**
+ * Expand named local caches to directories under {@link localCacheRoot}
+ */
+export function resolveCacheSpec(spec: string): string {
+  const fields = parseSpec(spec);
+  if (fields.type !== 'local') return spec;
+  for (const key of ['src', 'dest']) {
+    if (fields[key]) fields[key] = path.join(localCacheRoot(), fields[key]);
+  }
+  return formatSpec(fields);
+}
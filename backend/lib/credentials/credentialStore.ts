@@ -0,0 +1,176 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CredentialKind, CredentialMetadata } from '../../../shared/types';
+import type { Json } from '../../../shared/supabase-types';
+import { supabaseAdmin, hasSupabaseConfig } from '../supabase';
+import type { EncryptedSecret } from './encryption';
+
+/** A credential as it is stored: metadata in the clear, the secret sealed */
+export interface StoredCredential {
+  id: string;
+  userId: string;
+  kind: CredentialKind;
+  name: string;
+  metadata: CredentialMetadata;
+  secret: EncryptedSecret;
+  createdAt: string;
+  updatedAt: string;
+  lastUsedAt?: string;
+}
+
+export interface CredentialStore {
+  readonly backend: 'supabase' | 'file';
+  /** Every credential of a user, or of everyone when `userId` is omitted (key rotation) */
+  list(userId?: string): Promise<StoredCredential[]>;
+  get(id: string): Promise<StoredCredential | null>;
+  save(credential: StoredCredential): Promise<void>;
+  /** Record a use without rewriting the sealed secret */
+  markUsed(id: string, at: string): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Supabase-backed store using the `user_credentials` table
+ */
+export class SupabaseCredentialStore implements CredentialStore {
+  readonly backend = 'supabase' as const;
+
+  async list(userId?: string): Promise<StoredCredential[]> {
+    let request = supabaseAdmin.from('user_credentials').select('*');
+    if (userId) request = request.eq('user_id', userId);
+    const { data, error } = await request.order('created_at', { ascending: true });
+    if (error) throw new Error(`Failed to list credentials: ${error.message}`);
+    return (data || []).map(row => this.fromRow(row));
+  }
+
+  async get(id: string): Promise<StoredCredential | null> {
+    const { data, error } = await supabaseAdmin.from('user_credentials').select('*').eq('id', id).maybeSingle();
+    if (error) throw new Error(`Failed to fetch credential: ${error.message}`);
+    return data ? this.fromRow(data) : null;
+  }
+
+  async save(credential: StoredCredential): Promise<void> {
+    const { error } = await supabaseAdmin.from('user_credentials').upsert(this.toRow(credential));
+    if (error) throw new Error(`Failed to save credential: ${error.message}`);
+  }
+
+  async markUsed(id: string, at: string): Promise<void> {
+    const { error } = await supabaseAdmin.from('user_credentials').update({ last_used_at: at }).eq('id', id);
+    if (error) throw new Error(`Failed to record credential use: ${error.message}`);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin.from('user_credentials').delete().eq('id', id).select('id');
+    if (error) throw new Error(`Failed to delete credential: ${error.message}`);
+    return (data || []).length > 0;
+  }
+
+  private toRow(credential: StoredCredential) {
+    return {
+      id: credential.id,
+      user_id: credential.userId,
+      kind: credential.kind,
+      name: credential.name,
+      metadata: credential.metadata as unknown as Json,
+      secret: credential.secret as unknown as Json,
+      key_id: credential.secret.keyId,
+      created_at: credential.createdAt,
+      updated_at: credential.updatedAt,
+      last_used_at: credential.lastUsedAt ?? null,
+    };
+  }
+
+  private fromRow(row: any): StoredCredential {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      kind: row.kind,
+      name: row.name,
+      metadata: row.metadata || {},
+      secret: row.secret,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      lastUsedAt: row.last_used_at ?? undefined,
+    };
+  }
+}
+
+/**
+ * JSON-file store for offline development; written with owner-only permissions
+ */
+export class FileCredentialStore implements CredentialStore {
+  readonly backend = 'file' as const;
+  private records: Map<string, StoredCredential> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async list(userId?: string): Promise<StoredCredential[]> {
+    return [...this.load().values()]
+      .filter(credential => !userId || credential.userId === userId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async get(id: string): Promise<StoredCredential | null> {
+    return this.load().get(id) || null;
+  }
+
+  async save(credential: StoredCredential): Promise<void> {
+    this.load().set(credential.id, credential);
+    await this.persist();
+  }
+
+  async markUsed(id: string, at: string): Promise<void> {
+    const credential = this.load().get(id);
+    if (!credential) return;
+    this.load().set(id, { ...credential, lastUsedAt: at });
+    await this.persist();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = this.load().delete(id);
+    if (deleted) await this.persist();
+    return deleted;
+  }
+
+  private load(): Map<string, StoredCredential> {
+    if (this.records) return this.records;
+
+    this.records = new Map();
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as StoredCredential[];
+        parsed.forEach(credential => this.records!.set(credential.id, credential));
+      }
+    } catch (error) {
+      console.error(`⚠️ Could not read credential store at ${this.filePath}:`, error);
+    }
+    return this.records;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify([...this.load().values()], null, 2);
+    this.writeQueue = this.writeQueue.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tmpPath, snapshot, { encoding: 'utf-8', mode: 0o600 });
+      await fs.promises.rename(tmpPath, this.filePath);
+    }).catch(error => {
+      console.error('❌ Failed to persist credential store:', error);
+    });
+    return this.writeQueue;
+  }
+}
+
+/**
+ * Same choice as the deployment store: CREDENTIAL_STORE=supabase|file,
+ * otherwise Supabase when it is configured and a local file when it is not
+ */
+export function createCredentialStore(): CredentialStore {
+  const configured = process.env.CREDENTIAL_STORE;
+  const useSupabase = configured ? configured === 'supabase' : hasSupabaseConfig;
+  if (useSupabase) return new SupabaseCredentialStore();
+
+  const filePath = process.env.CREDENTIAL_STORE_PATH || path.join(process.cwd(), '.data', 'credentials.json');
+  return new FileCredentialStore(filePath);
+}
@@ -0,0 +1,115 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * AES-256-GCM encryption for stored credentials. Keys come from
+ * CREDENTIAL_ENCRYPTION_KEYS as `id:base64key` pairs, newest first: the first
+ * key seals new secrets, the others only open secrets sealed before a
+ * rotation. Every secret records the id of the key that sealed it.
+ */
+
+export interface EncryptedSecret {
+  keyId: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export class CredentialKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CredentialKeyError';
+  }
+}
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const KEY_ID = /^[A-Za-z0-9._-]{1,64}$/;
+
+export class CredentialKeyring {
+  private keys: Map<string, Buffer>;
+
+  constructor(keys: Array<[string, Buffer]>) {
+    if (keys.length === 0) throw new CredentialKeyError('At least one credential encryption key is required');
+    for (const [id, key] of keys) {
+      if (!KEY_ID.test(id)) throw new CredentialKeyError(`Credential key id "${id}" is not valid`);
+      if (key.length !== KEY_BYTES) throw new CredentialKeyError(`Credential key "${id}" must be ${KEY_BYTES} bytes, got ${key.length}`);
+    }
+    this.keys = new Map(keys);
+    if (this.keys.size !== keys.length) throw new CredentialKeyError('Credential key ids must be unique');
+  }
+
+  /** Id of the key new secrets are sealed with */
+  get activeKeyId(): string {
+    return this.keys.keys().next().value as string;
+  }
+
+  /**
+   * Seal a secret. `context` (e.g. owner and credential id) is bound to the
+   * ciphertext, so a sealed value copied onto another record will not open.
+   */
+  encrypt(plaintext: string, context: string): EncryptedSecret {
+    const keyId = this.activeKeyId;
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', this.keys.get(keyId)!, iv);
+    cipher.setAAD(Buffer.from(context, 'utf8'));
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return {
+      keyId,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+  }
+
+  decrypt(secret: EncryptedSecret, context: string): string {
+    const key = this.keys.get(secret.keyId);
+    if (!key) throw new CredentialKeyError(`Credential encryption key "${secret.keyId}" is not configured`);
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(secret.iv, 'base64'));
+      decipher.setAAD(Buffer.from(context, 'utf8'));
+      decipher.setAuthTag(Buffer.from(secret.tag, 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(secret.data, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+      throw new CredentialKeyError(`Credential could not be decrypted with key "${secret.keyId}"`);
+    }
+  }
+
+  /** Whether a secret is sealed with the active key */
+  isCurrent(secret: EncryptedSecret): boolean {
+    return secret.keyId === this.activeKeyId;
+  }
+}
+
+/**
+ * Parse `id:base64key,id:base64key`, newest key first
+ */
+export function parseKeyring(spec: string): CredentialKeyring {
+  const keys = spec.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) throw new CredentialKeyError('CREDENTIAL_ENCRYPTION_KEYS entries must look like "<id>:<base64 key>"');
+    return [entry.slice(0, separator), Buffer.from(entry.slice(separator + 1), 'base64')] as [string, Buffer];
+  });
+  return new CredentialKeyring(keys);
+}
+
+/**
+ * The configured keyring. Without CREDENTIAL_ENCRYPTION_KEYS a development
+ * key is generated next to the local stores; production refuses to start the
+ * vault without explicit keys.
+ */
+export function loadKeyring(env: NodeJS.ProcessEnv = process.env): CredentialKeyring {
+  if (env.CREDENTIAL_ENCRYPTION_KEYS) return parseKeyring(env.CREDENTIAL_ENCRYPTION_KEYS);
+  if (env.NODE_ENV === 'production') {
+    throw new CredentialKeyError('Stored credentials are unavailable: set CREDENTIAL_ENCRYPTION_KEYS');
+  }
+
+  const keyFile = env.CREDENTIAL_KEY_PATH || path.join(process.cwd(), '.data', 'credential-key');
+  if (!fs.existsSync(keyFile)) {
+    fs.mkdirSync(path.dirname(keyFile), { recursive: true });
+    fs.writeFileSync(keyFile, `dev:${randomBytes(KEY_BYTES).toString('base64')}\n`, { mode: 0o600 });
+    console.warn(`⚠️ CREDENTIAL_ENCRYPTION_KEYS not set; generated a development key at ${keyFile}`);
+  }
+  return parseKeyring(fs.readFileSync(keyFile, 'utf8'));
+}
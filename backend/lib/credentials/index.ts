@@ -0,0 +1,3 @@
+export * from './redaction';
+export * from './streamTickets';
+export * from './vault';
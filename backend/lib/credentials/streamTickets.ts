@@ -0,0 +1,59 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Short-lived, single-use tickets for EventSource streams. Browsers cannot
+ * set headers on an EventSource, so credentials would otherwise travel in
+ * the URL and end up in access logs, proxies and browser history. The client
+ * POSTs the credentials once, gets an opaque ticket back, and opens the
+ * stream with `?ticket=`.
+ */
+
+export interface StreamTicketPayload {
+  userId?: string;
+  githubToken?: string;
+}
+
+export interface IssuedStreamTicket {
+  ticket: string;
+  expiresAt: string;
+}
+
+export const DEFAULT_TICKET_TTL_MS = 60_000;
+
+export class StreamTicketStore<T extends object = StreamTicketPayload> {
+  private tickets = new Map<string, { payload: T; expiresAt: number }>();
+
+  constructor(private ttlMs = DEFAULT_TICKET_TTL_MS, private now: () => number = Date.now) {}
+
+  issue(payload: T): IssuedStreamTicket {
+    this.sweep();
+    const ticket = randomBytes(24).toString('base64url');
+    const expiresAt = this.now() + this.ttlMs;
+    this.tickets.set(ticket, { payload, expiresAt });
+    return { ticket, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * The payload of a valid ticket; the ticket is consumed either way
+   */
+  redeem(ticket: string): T | null {
+    const entry = this.tickets.get(ticket);
+    this.tickets.delete(ticket);
+    if (!entry || entry.expiresAt <= this.now()) return null;
+    return entry.payload;
+  }
+
+  get size(): number {
+    this.sweep();
+    return this.tickets.size;
+  }
+
+  private sweep(): void {
+    const now = this.now();
+    for (const [ticket, entry] of this.tickets) {
+      if (entry.expiresAt <= now) this.tickets.delete(ticket);
+    }
+  }
+}
+
+export const streamTickets = new StreamTicketStore();
@@ -0,0 +1,482 @@
+import crypto from 'crypto';
+import type { CredentialKind, CredentialMetadata, CredentialSummary } from '../../../shared/types';
+import type { RegistryAuth } from '../dockerEngine';
+import { acceptsBareToken, detectRegistryType, normalizeRegistryAuth, REGISTRY_TYPES, RegistryDestination, RegistryType } from '../registries';
+import { DEPLOYMENT_TARGET_NAMES, getDeploymentTarget } from '../deploymentTargets';
+import { signAwsRequest } from '../deploymentTargets/ecs';
+import { requestJson } from '../deploymentTargets/http';
+import { CredentialStore, StoredCredential, createCredentialStore } from './credentialStore';
+import { CredentialKeyError, CredentialKeyring, loadKeyring } from './encryption';
+import { secretRedactor } from './redaction';
+
+/**
+ * Per-user credential vault. Users save GitHub tokens and apps, registry
+ * logins and cloud keys once and reference them by id; secrets are sealed
+ * with the active encryption key and only ever opened inside the server to
+ * run a clone, a push or a deploy.
+ */
+
+export const CREDENTIAL_KINDS: CredentialKind[] = ['github', 'github-app', 'dockerhub', 'ghcr', 'ecr', 'registry', 'cloud'];
+
+export class CredentialInputError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid credential: ${errors.join('; ')}`);
+    this.name = 'CredentialInputError';
+  }
+}
+
+export type CredentialVaultErrorCode = 'not_found' | 'wrong_kind' | 'unavailable' | 'resolve_failed';
+
+export class CredentialVaultError extends Error {
+  constructor(readonly code: CredentialVaultErrorCode, message: string) {
+    super(message);
+    this.name = 'CredentialVaultError';
+  }
+}
+
+/** The sealed part of each kind */
+interface CredentialSecret {
+  token?: string; // github
+  privateKey?: string; // github-app
+  password?: string; // dockerhub, ghcr, registry
+  accessKeyId?: string; // ecr
+  secretAccessKey?: string; // ecr
+  sessionToken?: string; // ecr
+  env?: Record<string, string>; // cloud
+}
+
+export interface CredentialInput {
+  kind: CredentialKind;
+  name: string;
+  metadata: CredentialMetadata;
+  /** Absent on updates that only rename or change settings */
+  secret?: CredentialSecret;
+}
+
+/** Where pushed images go and how to log in there */
+export interface ResolvedRegistry extends RegistryDestination {
+  type: RegistryType;
+  auth: RegistryAuth;
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_SECRET_LENGTH = 16 * 1024;
+const HOST = /^[a-z0-9]([a-z0-9.-]*[a-z0-9])?(:\d+)?$/i;
+const NAMESPACE = /^[a-z0-9]+([._-][a-z0-9]+)*(\/[a-z0-9]+([._-][a-z0-9]+)*)*$/;
+const ECR_REGISTRY = /^\d{12}\.dkr\.ecr\.([a-z]{2}(-[a-z]+)+-\d)\.amazonaws\.com$/;
+const NUMERIC_ID = /^\d+$/;
+const DEFAULT_REGISTRIES: Partial<Record<CredentialKind, string>> = { dockerhub: 'docker.io', ghcr: 'ghcr.io' };
+const REGISTRY_KIND_TYPES: Partial<Record<CredentialKind, RegistryType>> = { dockerhub: 'dockerhub', ghcr: 'ghcr', ecr: 'ecr' };
+// Minted tokens are reused until this close to their expiry
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+function text(input: Record<string, unknown>, key: string, errors: string[], options: { required?: boolean; pattern?: RegExp; max?: number } = {}): string | undefined {
+  const value = input[key];
+  if (value === undefined || value === null || value === '') {
+    if (options.required) errors.push(`${key} is required`);
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    errors.push(`${key} must be a string`);
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (trimmed.length > (options.max ?? MAX_SECRET_LENGTH)) {
+    errors.push(`${key} is too long`);
+    return undefined;
+  }
+  if (options.pattern && !options.pattern.test(trimmed)) {
+    errors.push(`${key} "${trimmed}" is not valid`);
+    return undefined;
+  }
+  return trimmed;
+}
+
+/**
+ * Validate a create (no `existing`) or update request. Secret fields are
+ * required on create; on update they replace the stored secret only when
+ * they are sent.
+ */
+export function parseCredentialInput(body: unknown, existing?: StoredCredential): CredentialInput {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new CredentialInputError(['Request body must be an object']);
+  }
+  const input = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const kind = (existing?.kind ?? input.kind) as CredentialKind;
+  if (!CREDENTIAL_KINDS.includes(kind)) {
+    throw new CredentialInputError([`kind must be one of ${CREDENTIAL_KINDS.join(', ')}`]);
+  }
+  if (existing && input.kind !== undefined && input.kind !== existing.kind) {
+    errors.push('kind cannot be changed; create a new credential instead');
+  }
+
+  const name = text(input, 'name', errors, { required: !existing, max: MAX_NAME_LENGTH }) ?? existing?.name ?? '';
+  const previous = existing?.metadata ?? {};
+  const creating = !existing;
+  const metadata: CredentialMetadata = {};
+  let secret: CredentialSecret | undefined;
+
+  switch (kind) {
+    case 'github': {
+      const token = text(input, 'token', errors, { required: creating });
+      if (token) secret = { token };
+      break;
+    }
+    case 'github-app': {
+      metadata.appId = text(input, 'appId', errors, { required: creating, pattern: NUMERIC_ID }) ?? previous.appId;
+      metadata.installationId = text(input, 'installationId', errors, { required: creating, pattern: NUMERIC_ID }) ?? previous.installationId;
+      const privateKey = text(input, 'privateKey', errors, { required: creating });
+      if (privateKey) {
+        try {
+          crypto.createPrivateKey(privateKey);
+          secret = { privateKey };
+        } catch {
+          errors.push('privateKey must be the PEM private key of the GitHub App');
+        }
+      }
+      break;
+    }
+    case 'dockerhub':
+    case 'ghcr':
+    case 'registry': {
+      metadata.registry = DEFAULT_REGISTRIES[kind]
+        ?? text(input, 'registry', errors, { required: creating, pattern: HOST, max: 255 })?.toLowerCase()
+        ?? previous.registry;
+      if (kind === 'registry') {
+        const registryType = text(input, 'registryType', errors, { max: 32 });
+        const known = !registryType || (REGISTRY_TYPES as string[]).includes(registryType);
+        if (!known) errors.push(`registryType must be one of ${REGISTRY_TYPES.join(', ')}`);
+        metadata.registryType = (known ? registryType as RegistryType | undefined : undefined) ?? previous.registryType;
+        if (input.insecure !== undefined && typeof input.insecure !== 'boolean') errors.push('insecure must be a boolean');
+        metadata.insecure = typeof input.insecure === 'boolean' ? input.insecure || undefined : previous.insecure;
+      }
+      // GCR, Artifact Registry and ACR tokens come with a fixed username
+      const bareToken = !!metadata.registry && acceptsBareToken(metadata.registryType ?? detectRegistryType(metadata.registry));
+      metadata.username = text(input, 'username', errors, { required: creating && !bareToken, max: 255 }) ?? previous.username;
+      metadata.namespace = text(input, 'namespace', errors, { pattern: NAMESPACE, max: 255 })?.toLowerCase() ?? previous.namespace;
+      const password = text(input, 'password', errors, { required: creating });
+      if (password) secret = { password };
+      break;
+    }
+    case 'ecr': {
+      const registry = text(input, 'registry', errors, { required: creating, pattern: ECR_REGISTRY, max: 255 })?.toLowerCase() ?? previous.registry;
+      metadata.registry = registry;
+      metadata.region = registry?.match(ECR_REGISTRY)?.[1];
+      metadata.namespace = text(input, 'namespace', errors, { pattern: NAMESPACE, max: 255 })?.toLowerCase() ?? previous.namespace;
+      const accessKeyId = text(input, 'accessKeyId', errors, { required: creating, pattern: /^[A-Z0-9]{16,128}$/ });
+      const secretAccessKey = text(input, 'secretAccessKey', errors, { required: creating || !!accessKeyId });
+      const sessionToken = text(input, 'sessionToken', errors);
+      if (accessKeyId && secretAccessKey) secret = { accessKeyId, secretAccessKey, sessionToken };
+      break;
+    }
+    case 'cloud': {
+      const target = text(input, 'target', errors, { required: creating }) ?? previous.target;
+      const allowed = target && (DEPLOYMENT_TARGET_NAMES as string[]).includes(target) ? getDeploymentTarget(target).credentialEnv : undefined;
+      if (target && !allowed) {
+        errors.push(`target must be one of ${DEPLOYMENT_TARGET_NAMES.filter(name => getDeploymentTarget(name).credentialEnv).join(', ')}`);
+      }
+      metadata.target = target;
+      metadata.envNames = previous.envNames;
+
+      const env = input.env;
+      if (env === undefined || env === null) {
+        if (creating) errors.push('env is required');
+      } else if (typeof env !== 'object' || Array.isArray(env)) {
+        errors.push('env must be an object of string values');
+      } else if (allowed) {
+        const values: Record<string, string> = {};
+        for (const [variable, value] of Object.entries(env)) {
+          if (!allowed.includes(variable)) errors.push(`env.${variable} is not a ${target} credential (expected ${allowed.join(', ')})`);
+          else if (typeof value !== 'string' || !value.trim()) errors.push(`env.${variable} must be a non-empty string`);
+          else values[variable] = value.trim();
+        }
+        if (Object.keys(values).length === 0 && errors.length === 0) errors.push('env needs at least one variable');
+        secret = { env: values };
+        metadata.envNames = Object.keys(values);
+      }
+      break;
+    }
+  }
+
+  if (existing && kind === 'cloud' && metadata.target !== previous.target && !secret) {
+    errors.push('Changing target needs new env values');
+  }
+  if (errors.length > 0) throw new CredentialInputError(errors);
+
+  // Drop unset fields, so stored metadata only lists what applies to the kind
+  const cleaned = Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined)) as CredentialMetadata;
+  return { kind, name, metadata: cleaned, secret };
+}
+
+export function toCredentialSummary(credential: StoredCredential): CredentialSummary {
+  return {
+    id: credential.id,
+    kind: credential.kind,
+    name: credential.name,
+    metadata: credential.metadata,
+    keyId: credential.secret.keyId,
+    createdAt: credential.createdAt,
+    updatedAt: credential.updatedAt,
+    lastUsedAt: credential.lastUsedAt,
+  };
+}
+
+export class CredentialVault {
+  private keyring: CredentialKeyring | null = null;
+  private minted = new Map<string, { value: string; expiresAt: number }>();
+
+  constructor(
+    private store: CredentialStore = createCredentialStore(),
+    private keyringLoader: () => CredentialKeyring = loadKeyring
+  ) {}
+
+  async list(userId: string): Promise<CredentialSummary[]> {
+    return (await this.store.list(userId)).map(toCredentialSummary);
+  }
+
+  async get(userId: string, id: string): Promise<CredentialSummary> {
+    return toCredentialSummary(await this.owned(userId, id));
+  }
+
+  async create(userId: string, input: CredentialInput): Promise<CredentialSummary> {
+    if (!input.secret) throw new CredentialInputError(['A secret is required']);
+    const now = new Date().toISOString();
+    const id = crypto.randomUUID();
+    const credential: StoredCredential = {
+      id,
+      userId,
+      kind: input.kind,
+      name: input.name,
+      metadata: input.metadata,
+      secret: this.seal(userId, id, input.secret),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.store.save(credential);
+    console.log(`🔑 Stored ${credential.kind} credential ${id} for user ${userId}`);
+    return toCredentialSummary(credential);
+  }
+
+  async update(userId: string, id: string, body: unknown): Promise<CredentialSummary> {
+    const existing = await this.owned(userId, id);
+    const input = parseCredentialInput(body, existing);
+    const credential: StoredCredential = {
+      ...existing,
+      name: input.name,
+      metadata: input.metadata,
+      secret: input.secret ? this.seal(userId, id, input.secret) : existing.secret,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.store.save(credential);
+    this.forgetMinted(id);
+    return toCredentialSummary(credential);
+  }
+
+  async delete(userId: string, id: string): Promise<void> {
+    await this.owned(userId, id);
+    await this.store.delete(id);
+    this.forgetMinted(id);
+    console.log(`🗑️ Deleted credential ${id} for user ${userId}`);
+  }
+
+  /**
+   * Re-seal every secret that is not on the active key. Run after putting a
+   * new key first in CREDENTIAL_ENCRYPTION_KEYS; the old key can be removed
+   * once this reports nothing left to rotate.
+   */
+  async rotate(): Promise<{ keyId: string; rotated: number; total: number }> {
+    const keyring = this.getKeyring();
+    const credentials = await this.store.list();
+    let rotated = 0;
+    for (const credential of credentials) {
+      if (keyring.isCurrent(credential.secret)) continue;
+      const context = this.context(credential.userId, credential.id);
+      const plaintext = keyring.decrypt(credential.secret, context);
+      await this.store.save({ ...credential, secret: keyring.encrypt(plaintext, context) });
+      rotated += 1;
+    }
+    console.log(`🔄 Credential key rotation: ${rotated} of ${credentials.length} re-encrypted with key ${keyring.activeKeyId}`);
+    return { keyId: keyring.activeKeyId, rotated, total: credentials.length };
+  }
+
+  /**
+   * A GitHub token for cloning: the stored PAT, or a fresh installation
+   * token for a GitHub App
+   */
+  async resolveGitHubToken(userId: string, id: string): Promise<string> {
+    const credential = await this.owned(userId, id);
+    const secret = await this.open(credential, ['github', 'github-app']);
+    const token = credential.kind === 'github'
+      ? secret.token!
+      : await this.mint(credential, () => this.installationToken(credential.metadata, secret.privateKey!));
+    secretRedactor.register(token);
+    return token;
+  }
+
+  /**
+   * Registry host, image namespace and login for pushing. ECR credentials are
+   * exchanged for a registry password first.
+   */
+  async resolveRegistry(userId: string, id: string): Promise<ResolvedRegistry> {
+    const credential = await this.owned(userId, id);
+    const secret = await this.open(credential, ['dockerhub', 'ghcr', 'registry', 'ecr']);
+    const { registry, username, namespace, insecure } = credential.metadata;
+    const destination = {
+      registry: registry!,
+      namespace: namespace || (credential.kind === 'ecr' ? undefined : username?.toLowerCase()),
+      type: REGISTRY_KIND_TYPES[credential.kind] ?? credential.metadata.registryType ?? detectRegistryType(registry!),
+      insecure,
+    };
+
+    let auth: RegistryAuth;
+    if (credential.kind === 'ecr') {
+      const password = await this.mint(credential, () => this.ecrPassword(credential.metadata, secret));
+      auth = { username: 'AWS', password, serveraddress: registry };
+    } else {
+      auth = normalizeRegistryAuth(destination, { username, password: secret.password, serveraddress: registry });
+    }
+    secretRedactor.register(auth.password);
+    return { ...destination, auth };
+  }
+
+  /**
+   * Provider credentials for a deployment target, as the environment
+   * variables the target reads
+   */
+  async resolveTargetEnv(userId: string, id: string, target: string): Promise<Record<string, string>> {
+    const credential = await this.owned(userId, id);
+    const secret = await this.open(credential, ['cloud']);
+    if (credential.metadata.target !== target) {
+      throw new CredentialVaultError('wrong_kind', `Credential "${credential.name}" is for ${credential.metadata.target}, not ${target}`);
+    }
+    secretRedactor.register(...Object.values(secret.env || {}));
+    return { ...secret.env };
+  }
+
+  /**
+   * Check that every referenced credential exists, belongs to the user and
+   * is of a usable kind, without opening any secret
+   */
+  async assertUsable(userId: string, refs: Array<{ id?: string; kinds: CredentialKind[]; target?: string }>): Promise<void> {
+    for (const ref of refs) {
+      if (!ref.id) continue;
+      const credential = await this.owned(userId, ref.id);
+      if (!ref.kinds.includes(credential.kind)) {
+        throw new CredentialVaultError('wrong_kind', `Credential "${credential.name}" is a ${credential.kind} credential; expected ${ref.kinds.join(' or ')}`);
+      }
+      if (ref.target && credential.metadata.target !== ref.target) {
+        throw new CredentialVaultError('wrong_kind', `Credential "${credential.name}" is for ${credential.metadata.target}, not ${ref.target}`);
+      }
+    }
+  }
+
+  private async owned(userId: string, id: string): Promise<StoredCredential> {
+    const credential = await this.store.get(id);
+    // Someone else's credential looks exactly like a missing one
+    if (!credential || credential.userId !== userId) {
+      throw new CredentialVaultError('not_found', `Credential ${id} not found`);
+    }
+    return credential;
+  }
+
+  private async open(credential: StoredCredential, kinds: CredentialKind[]): Promise<CredentialSecret> {
+    if (!kinds.includes(credential.kind)) {
+      throw new CredentialVaultError('wrong_kind', `Credential "${credential.name}" is a ${credential.kind} credential; expected ${kinds.join(' or ')}`);
+    }
+    let secret: CredentialSecret;
+    try {
+      secret = JSON.parse(this.getKeyring().decrypt(credential.secret, this.context(credential.userId, credential.id)));
+    } catch (error) {
+      if (error instanceof CredentialVaultError) throw error;
+      throw new CredentialVaultError('unavailable', error instanceof Error ? error.message : 'Credential could not be opened');
+    }
+    await this.store.markUsed(credential.id, new Date().toISOString())
+      .catch(error => console.error(`⚠️ Could not record use of credential ${credential.id}:`, error));
+    return secret;
+  }
+
+  private seal(userId: string, id: string, secret: CredentialSecret): StoredCredential['secret'] {
+    return this.getKeyring().encrypt(JSON.stringify(secret), this.context(userId, id));
+  }
+
+  private context(userId: string, id: string): string {
+    return `${userId}:${id}`;
+  }
+
+  private getKeyring(): CredentialKeyring {
+    if (!this.keyring) {
+      try {
+        this.keyring = this.keyringLoader();
+      } catch (error) {
+        if (error instanceof CredentialKeyError) throw new CredentialVaultError('unavailable', error.message);
+        throw error;
+      }
+    }
+    return this.keyring;
+  }
+
+  private async mint(credential: StoredCredential, create: () => Promise<{ value: string; expiresAt: number }>): Promise<string> {
+    const key = `${credential.id}:${credential.updatedAt}`;
+    const cached = this.minted.get(key);
+    if (cached && cached.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) return cached.value;
+    try {
+      const minted = await create();
+      this.minted.set(key, minted);
+      return minted.value;
+    } catch (error) {
+      throw new CredentialVaultError('resolve_failed', `Credential "${credential.name}" was rejected: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private forgetMinted(id: string): void {
+    for (const key of this.minted.keys()) {
+      if (key.startsWith(`${id}:`)) this.minted.delete(key);
+    }
+  }
+
+  /**
+   * Exchange a GitHub App private key for an installation access token
+   */
+  private async installationToken(metadata: CredentialMetadata, privateKey: string): Promise<{ value: string; expiresAt: number }> {
+    const now = Math.floor(Date.now() / 1000);
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    // Backdated a minute to allow for clock drift, as GitHub recommends
+    const unsigned = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode({ iat: now - 60, exp: now + 540, iss: metadata.appId })}`;
+    const signature = crypto.createSign('RSA-SHA256').update(unsigned).sign(privateKey).toString('base64url');
+
+    const api = (process.env.GITHUB_API_URL || 'https://api.github.com').replace(/\/+$/, '');
+    const response = await requestJson<{ token: string; expires_at: string }>(`${api}/app/installations/${metadata.installationId}/access_tokens`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${unsigned}.${signature}`, Accept: 'application/vnd.github+json' }
+    });
+    return { value: response.token, expiresAt: Date.parse(response.expires_at) };
+  }
+
+  /**
+   * ECR GetAuthorizationToken; the token is base64 of `AWS:<password>`
+   */
+  private async ecrPassword(metadata: CredentialMetadata, secret: CredentialSecret): Promise<{ value: string; expiresAt: number }> {
+    const url = `https://api.ecr.${metadata.region}.amazonaws.com/`;
+    const body = '{}';
+    const headers = signAwsRequest({
+      method: 'POST',
+      url,
+      headers: {
+        'Content-Type': 'application/x-amz-json-1.1',
+        'X-Amz-Target': 'AmazonEC2ContainerRegistry_V20150921.GetAuthorizationToken'
+      },
+      body
+    }, { accessKeyId: secret.accessKeyId!, secretAccessKey: secret.secretAccessKey!, sessionToken: secret.sessionToken }, metadata.region!, 'ecr');
+    const response = await requestJson<{ authorizationData?: Array<{ authorizationToken: string; expiresAt: number }> }>(url, { method: 'POST', headers, body });
+
+    const data = response.authorizationData?.[0];
+    if (!data) throw new Error('ECR returned no authorization data');
+    const decoded = Buffer.from(data.authorizationToken, 'base64').toString('utf8');
+    // expiresAt is in epoch seconds
+    return { value: decoded.slice(decoded.indexOf(':') + 1), expiresAt: data.expiresAt * 1000 };
+  }
+}
+
+export const credentialVault = new CredentialVault();
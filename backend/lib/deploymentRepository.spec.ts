@@ -0,0 +1,28 @@
+import { describe, it, expect, afterAll, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileDeploymentRepository } from './deploymentRepository';
+
+describe('FileDeploymentRepository', () => {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'deployment-repository-spec-'));
+  afterAll(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+  it('keeps every line of concurrent appends and batches them into few writes', async () => {
+    const filePath = path.join(tmp, 'deployments.json');
+    const repository = new FileDeploymentRepository(filePath);
+    await repository.create({ id: 'dep-1', source: 'repo', repoUrl: 'https://github.com/acme/api' });
+
+    const writes = vi.spyOn(fs.promises, 'writeFile');
+    await Promise.all([
+      ...Array.from({ length: 50 }, (_, i) => repository.appendLogs('dep-1', [`line ${i}`])),
+      repository.update('dep-1', { status: 'processing', phase: 'analysis' })
+    ]);
+    expect(writes.mock.calls.length).toBeLessThanOrEqual(2);
+    writes.mockRestore();
+
+    const reloaded = await new FileDeploymentRepository(filePath).get('dep-1');
+    expect(reloaded?.logs).toEqual(Array.from({ length: 50 }, (_, i) => `line ${i}`));
+    expect(reloaded?.status).toBe('processing');
+  });
+});
@@ -0,0 +1,427 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  DeploymentBuildOptions,
+  DeploymentQuery,
+  DeploymentRecord,
+  DeploymentSource,
+  DeploymentStatus,
+  ImageSecurityReport,
+  PushedImage,
+  SecretFinding,
+  TargetDeployment,
+} from '../../shared/types';
+import { supabaseAdmin, hasSupabaseConfig } from './supabase';
+import type { Json } from '../../shared/supabase-types';
+import { secretRedactor } from './credentials';
+
+export interface CreateDeploymentInput {
+  id?: string;
+  userId?: string | null;
+  source: DeploymentSource;
+  repoUrl?: string;
+  prompt?: string;
+}
+
+export interface DeploymentUpdate {
+  status?: DeploymentStatus;
+  phase?: string;
+  message?: string;
+  dockerfile?: string;
+  analysis?: unknown;
+  generatedFiles?: unknown[];
+  imageName?: string;
+  pushedImages?: PushedImage[];
+  buildOptions?: DeploymentBuildOptions;
+  targetDeployment?: TargetDeployment;
+  securityReports?: ImageSecurityReport[];
+  secretFindings?: SecretFinding[];
+  deploymentUrl?: string;
+  error?: string;
+}
+
+export interface DeploymentListResult {
+  deployments: DeploymentRecord[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface DeploymentRepository {
+  readonly backend: 'supabase' | 'file';
+  create(input: CreateDeploymentInput): Promise<DeploymentRecord>;
+  get(id: string): Promise<DeploymentRecord | null>;
+  update(id: string, update: DeploymentUpdate): Promise<DeploymentRecord | null>;
+  appendLogs(id: string, lines: string[]): Promise<void>;
+  list(query: DeploymentQuery): Promise<DeploymentListResult>;
+}
+
+const TERMINAL_STATUSES: DeploymentStatus[] = ['completed', 'failed', 'cancelled'];
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export function generateDeploymentId(): string {
+  return `deploy-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function normalizePaging(query: DeploymentQuery): { page: number; pageSize: number } {
+  const page = Math.max(1, Math.floor(Number(query.page) || 1));
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(Number(query.pageSize) || DEFAULT_PAGE_SIZE)));
+  return { page, pageSize };
+}
+
+function newRecord(input: CreateDeploymentInput): DeploymentRecord {
+  const now = new Date().toISOString();
+  return {
+    id: input.id || generateDeploymentId(),
+    userId: input.userId ?? null,
+    source: input.source,
+    repoUrl: input.repoUrl,
+    prompt: input.prompt,
+    status: 'pending',
+    statusHistory: [{ status: 'pending', at: now }],
+    logs: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Apply an update to a record, appending a status transition whenever the
+ * status or phase changes. Shared by every backend so history is consistent.
+ */
+function applyUpdate(record: DeploymentRecord, update: DeploymentUpdate): DeploymentRecord {
+  const now = new Date().toISOString();
+  const { status, phase, message, ...fields } = update;
+  const next: DeploymentRecord = { ...record, updatedAt: now };
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) (next as any)[key] = value;
+  }
+
+  if (status) {
+    next.status = status;
+    next.statusHistory = [...record.statusHistory, { status, phase, message, at: now }];
+    if (TERMINAL_STATUSES.includes(status)) {
+      next.completedAt = now;
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Supabase-backed repository using the `deployments` table
+ */
+export class SupabaseDeploymentRepository implements DeploymentRepository {
+  readonly backend = 'supabase' as const;
+
+  async create(input: CreateDeploymentInput): Promise<DeploymentRecord> {
+    const record = newRecord(input);
+    const { error } = await supabaseAdmin.from('deployments').insert(this.toRow(record));
+    if (error) throw new Error(`Failed to create deployment: ${error.message}`);
+    return record;
+  }
+
+  async get(id: string): Promise<DeploymentRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('deployments')
+      .select('*')
+      .eq('deployment_id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to fetch deployment: ${error.message}`);
+    return data ? this.fromRow(data) : null;
+  }
+
+  async update(id: string, update: DeploymentUpdate): Promise<DeploymentRecord | null> {
+    const current = await this.get(id);
+    if (!current) return null;
+
+    const next = applyUpdate(current, update);
+    // Logs are only ever appended through appendLogs, so lines written meanwhile are kept
+    const { logs: _logs, ...row } = this.toRow(next);
+    const { error } = await supabaseAdmin
+      .from('deployments')
+      .update(row)
+      .eq('deployment_id', id);
+
+    if (error) throw new Error(`Failed to update deployment: ${error.message}`);
+    return next;
+  }
+
+  // Appended in the database (append_deployment_logs), so concurrent writers never lose lines
+  async appendLogs(id: string, lines: string[]): Promise<void> {
+    if (lines.length === 0) return;
+    const { error } = await supabaseAdmin.rpc('append_deployment_logs', { p_deployment_id: id, p_lines: lines });
+
+    if (error) throw new Error(`Failed to append deployment logs: ${error.message}`);
+  }
+
+  async list(query: DeploymentQuery): Promise<DeploymentListResult> {
+    const { page, pageSize } = normalizePaging(query);
+    const from = (page - 1) * pageSize;
+
+    let request = supabaseAdmin
+      .from('deployments')
+      .select('*', { count: 'exact' })
+      .not('deployment_id', 'is', null);
+
+    if (query.userId) request = request.eq('user_id', query.userId);
+    if (query.status) request = request.eq('status', query.status);
+    if (query.repo) request = request.ilike('repo_link', `%${query.repo}%`);
+
+    const { data, error, count } = await request
+      .order('created_at', { ascending: false })
+      .range(from, from + pageSize - 1);
+
+    if (error) throw new Error(`Failed to list deployments: ${error.message}`);
+
+    return {
+      deployments: (data || []).map(row => this.fromRow(row)),
+      total: count || 0,
+      page,
+      pageSize,
+    };
+  }
+
+  private toRow(record: DeploymentRecord) {
+    return {
+      deployment_id: record.id,
+      user_id: record.userId,
+      source: record.source,
+      repo_link: record.repoUrl ?? null,
+      prompt: record.prompt || '',
+      status: record.status,
+      status_history: record.statusHistory as unknown as Json,
+      dockerfile_content: record.dockerfile ?? null,
+      analysis: (record.analysis ?? null) as Json,
+      generated_files: (record.generatedFiles ?? null) as Json,
+      image_name: record.imageName ?? null,
+      pushed_images: (record.pushedImages ?? null) as unknown as Json,
+      build_options: (record.buildOptions ?? null) as Json,
+      target_deployment: (record.targetDeployment ?? null) as unknown as Json,
+      security_reports: (record.securityReports ?? null) as unknown as Json,
+      secret_findings: (record.secretFindings ?? null) as unknown as Json,
+      deployment_url: record.deploymentUrl ?? null,
+      error_message: record.error ?? null,
+      logs: record.logs,
+      created_at: record.createdAt,
+      updated_at: record.updatedAt,
+      completed_at: record.completedAt ?? null,
+    };
+  }
+
+  private fromRow(row: any): DeploymentRecord {
+    return {
+      id: row.deployment_id || String(row.id),
+      userId: row.user_id,
+      source: row.source === 'upload' ? 'upload' : 'repo',
+      repoUrl: row.repo_link ?? undefined,
+      prompt: row.prompt ?? undefined,
+      status: row.status,
+      statusHistory: Array.isArray(row.status_history) ? row.status_history : [],
+      dockerfile: row.dockerfile_content ?? undefined,
+      analysis: row.analysis ?? undefined,
+      generatedFiles: row.generated_files ?? undefined,
+      imageName: row.image_name ?? undefined,
+      pushedImages: row.pushed_images ?? undefined,
+      buildOptions: row.build_options ?? undefined,
+      targetDeployment: row.target_deployment ?? undefined,
+      securityReports: row.security_reports ?? undefined,
+      secretFindings: row.secret_findings ?? undefined,
+      deploymentUrl: row.deployment_url ?? undefined,
+      error: row.error_message ?? undefined,
+      logs: Array.isArray(row.logs) ? row.logs : [],
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at ?? undefined,
+    };
+  }
+}
+
+/**
+ * JSON-file repository for offline development. Records are kept in memory
+ * and written through to a single file; writes are serialized, and changes
+ * made while a write is waiting are batched into it.
+ */
+export class FileDeploymentRepository implements DeploymentRepository {
+  readonly backend = 'file' as const;
+  private records: Map<string, DeploymentRecord> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private pendingWrite: Promise<void> | null = null;
+
+  constructor(private filePath: string) {}
+
+  async create(input: CreateDeploymentInput): Promise<DeploymentRecord> {
+    const records = this.load();
+    const record = newRecord(input);
+    records.set(record.id, record);
+    await this.persist();
+    return record;
+  }
+
+  async get(id: string): Promise<DeploymentRecord | null> {
+    return this.load().get(id) || null;
+  }
+
+  async update(id: string, update: DeploymentUpdate): Promise<DeploymentRecord | null> {
+    const records = this.load();
+    const current = records.get(id);
+    if (!current) return null;
+
+    const next = applyUpdate(current, update);
+    records.set(id, next);
+    await this.persist();
+    return next;
+  }
+
+  async appendLogs(id: string, lines: string[]): Promise<void> {
+    if (lines.length === 0) return;
+    const records = this.load();
+    const current = records.get(id);
+    if (!current) return;
+
+    records.set(id, { ...current, logs: [...current.logs, ...lines], updatedAt: new Date().toISOString() });
+    await this.persist();
+  }
+
+  async list(query: DeploymentQuery): Promise<DeploymentListResult> {
+    const { page, pageSize } = normalizePaging(query);
+    const repo = query.repo?.toLowerCase();
+
+    const matches = [...this.load().values()]
+      .filter(d => !query.userId || d.userId === query.userId)
+      .filter(d => !query.status || d.status === query.status)
+      .filter(d => !repo || (d.repoUrl || '').toLowerCase().includes(repo))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    const from = (page - 1) * pageSize;
+    return {
+      deployments: matches.slice(from, from + pageSize),
+      total: matches.length,
+      page,
+      pageSize,
+    };
+  }
+
+  private load(): Map<string, DeploymentRecord> {
+    if (this.records) return this.records;
+
+    this.records = new Map();
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as DeploymentRecord[];
+        parsed.forEach(record => this.records!.set(record.id, record));
+      }
+    } catch (error) {
+      console.error(`⚠️ Could not read deployment store at ${this.filePath}:`, error);
+    }
+    return this.records;
+  }
+
+  /**
+   * Write the store once the current write is done. The snapshot is taken
+   * when the write starts, so every change made until then goes into the
+   * same write instead of rewriting the whole file once per change.
+   */
+  private persist(): Promise<void> {
+    if (this.pendingWrite) return this.pendingWrite;
+    this.pendingWrite = this.writeQueue.then(async () => {
+      this.pendingWrite = null;
+      const snapshot = JSON.stringify([...this.load().values()], null, 2);
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tmpPath, snapshot, 'utf-8');
+      await fs.promises.rename(tmpPath, this.filePath);
+    }).catch(error => {
+      console.error('❌ Failed to persist deployment store:', error);
+    });
+    this.writeQueue = this.pendingWrite;
+    return this.pendingWrite;
+  }
+}
+
+/**
+ * Pick the storage backend: DEPLOYMENT_STORE=supabase|file, otherwise Supabase
+ * when it is configured and the local JSON file when it is not.
+ */
+export function createDeploymentRepository(): DeploymentRepository {
+  const configured = process.env.DEPLOYMENT_STORE;
+  const useSupabase = configured ? configured === 'supabase' : hasSupabaseConfig;
+
+  if (useSupabase) {
+    console.log('🗄️ Deployment store: Supabase');
+    return new SupabaseDeploymentRepository();
+  }
+
+  const filePath = process.env.DEPLOYMENT_STORE_PATH || path.join(process.cwd(), '.data', 'deployments.json');
+  console.log(`🗄️ Deployment store: local file (${filePath})`);
+  return new FileDeploymentRepository(filePath);
+}
+
+export const deploymentRepository = createDeploymentRepository();
+
+/** Thrown when a run would be recorded into a deployment owned by another user */
+export class DeploymentOwnershipError extends Error {
+  constructor(readonly deploymentId: string) {
+    super(`Deployment ${deploymentId} belongs to another user`);
+    this.name = 'DeploymentOwnershipError';
+  }
+}
+
+/**
+ * Records a single pipeline run. Store failures are logged but never abort the
+ * pipeline; log lines are buffered and flushed on every status change.
+ */
+export class DeploymentTracker {
+  private pendingLogs: string[] = [];
+
+  constructor(
+    readonly id: string,
+    private repository: DeploymentRepository = deploymentRepository
+  ) {}
+
+  static async start(input: CreateDeploymentInput, repository: DeploymentRepository = deploymentRepository): Promise<DeploymentTracker> {
+    const id = input.id || generateDeploymentId();
+    const tracker = new DeploymentTracker(id, repository);
+    let existing: DeploymentRecord | null = null;
+    try {
+      existing = await repository.get(id);
+      if (!existing) {
+        await repository.create({ ...input, id });
+      }
+    } catch (error) {
+      console.error(`⚠️ Could not record deployment ${id}:`, error);
+    }
+    // Never record a run into a deployment someone else owns
+    if (existing?.userId && existing.userId !== input.userId) {
+      throw new DeploymentOwnershipError(id);
+    }
+    return tracker;
+  }
+
+  log(line: string): void {
+    this.pendingLogs.push(secretRedactor.redact(line));
+  }
+
+  async update(update: DeploymentUpdate): Promise<void> {
+    await this.flush();
+    try {
+      await this.repository.update(this.id, update);
+    } catch (error) {
+      console.error(`⚠️ Could not update deployment ${this.id}:`, error);
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.pendingLogs.length === 0) return;
+    const lines = this.pendingLogs;
+    this.pendingLogs = [];
+    try {
+      await this.repository.appendLogs(this.id, lines);
+    } catch (error) {
+      console.error(`⚠️ Could not store logs for deployment ${this.id}:`, error);
+    }
+  }
+}
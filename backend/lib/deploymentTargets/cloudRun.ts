@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { ConfigReader, requestJson, rolledBack, targetEnv, waitFor } from './http';
+import { DeploymentTarget, DeploymentTargetError, TargetContext } from './types';
+
+export interface CloudRunConfig {
+  project: string;
+  region: string;
+  service: string;
+  port: number;
+  cpu: string;
+  memory: string;
+  minInstances: number;
+  maxInstances: number;
+  allowUnauthenticated: boolean;
+  env: Record<string, string>;
+  timeoutSeconds: number;
+  endpoint: string;
+  tokenEndpoint?: string;
+}
+
+const PROJECT = /^[a-z][a-z0-9-]{4,28}[a-z0-9]$/;
+const REGION = /^[a-z]+-[a-z]+\d$/;
+const SERVICE = /^[a-z]([a-z0-9-]{0,47}[a-z0-9])?$/;
+const CPU = /^\d+(\.\d+)?$|^\d+m$/;
+const MEMORY = /^\d+(Mi|Gi)$/;
+
+const SCOPE = 'https://www.googleapis.com/auth/cloud-platform';
+
+const cachedTokens = new Map<string, { token: string; expiresAt: number }>();
+
+/**
+ * OAuth access token from GOOGLE_OAUTH_ACCESS_TOKEN, or exchanged for a
+ * signed JWT using a service account key: the JSON itself in
+ * GOOGLE_SERVICE_ACCOUNT_KEY (stored credentials) or the file named by
+ * GOOGLE_APPLICATION_CREDENTIALS
+ */
+async function accessToken(config: CloudRunConfig): Promise<string> {
+  const staticToken = targetEnv('GOOGLE_OAUTH_ACCESS_TOKEN');
+  if (staticToken) return staticToken;
+
+  let key: { client_email?: string; private_key?: string; token_uri?: string };
+  const inlineKey = targetEnv('GOOGLE_SERVICE_ACCOUNT_KEY');
+  const keyFile = targetEnv('GOOGLE_APPLICATION_CREDENTIALS');
+  const source = inlineKey ? 'GOOGLE_SERVICE_ACCOUNT_KEY' : keyFile;
+  if (!source) {
+    throw new DeploymentTargetError('auth_failed', 'Google Cloud credentials are not configured (set GOOGLE_APPLICATION_CREDENTIALS or GOOGLE_OAUTH_ACCESS_TOKEN)');
+  }
+  try {
+    key = JSON.parse(inlineKey || fs.readFileSync(keyFile!, 'utf8'));
+  } catch (error) {
+    throw new DeploymentTargetError('auth_failed', `Cannot read service account key ${source}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!key.client_email || !key.private_key) {
+    throw new DeploymentTargetError('auth_failed', `${source} is not a service account key`);
+  }
+
+  // Tokens are cached per service account, since stored credentials differ per user
+  const cached = cachedTokens.get(key.client_email);
+  if (cached && cached.expiresAt > Date.now() + 60000) return cached.token;
+
+  const tokenUri = config.tokenEndpoint || key.token_uri || 'https://oauth2.googleapis.com/token';
+  const now = Math.floor(Date.now() / 1000);
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode({ iss: key.client_email, scope: SCOPE, aud: tokenUri, iat: now, exp: now + 3600 })}`;
+  const signature = crypto.createSign('RSA-SHA256').update(unsigned).sign(key.private_key).toString('base64url');
+
+  const response = await requestJson<{ access_token: string; expires_in: number }>(tokenUri, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer', assertion: `${unsigned}.${signature}` }).toString()
+  });
+  cachedTokens.set(key.client_email, { token: response.access_token, expiresAt: Date.now() + response.expires_in * 1000 });
+  return response.access_token;
+}
+
+async function run<T = any>(config: CloudRunConfig, path: string, request: { method?: string; body?: unknown; allowNotFound?: boolean } = {}): Promise<T> {
+  const token = await accessToken(config);
+  return requestJson<T>(`${config.endpoint}/v2/${path}`, { ...request, headers: { Authorization: `Bearer ${token}` } });
+}
+
+function serviceName(config: CloudRunConfig): string {
+  return `projects/${config.project}/locations/${config.region}/services/${config.service}`;
+}
+
+function shortRevision(revision: string): string {
+  return revision.split('/').pop() || revision;
+}
+
+/**
+ * Wait for the service to finish reconciling and report its ready revision
+ */
+async function waitForReady(config: CloudRunConfig, context: TargetContext): Promise<any> {
+  context.onLog(`⏳ Waiting for Cloud Run service ${config.service} to become ready...`);
+  return waitFor(`Cloud Run service ${config.service} to become ready`, async () => {
+    const service = await run(config, serviceName(config));
+    if (service.reconciling) return undefined;
+    const condition = service.terminalCondition;
+    if (condition?.state === 'CONDITION_SUCCEEDED') return service;
+    if (condition?.state === 'CONDITION_FAILED') {
+      throw new DeploymentTargetError('api_error', `Cloud Run rollout failed: ${condition.message || condition.reason || 'revision not ready'}`);
+    }
+    return undefined;
+  }, context, config.timeoutSeconds * 1000);
+}
+
+/**
+ * Google Cloud Run (Admin API v2). Each deploy creates a revision; rollback
+ * moves all traffic back to the revision that was serving before.
+ */
+export const cloudRunTarget: DeploymentTarget<CloudRunConfig> = {
+  name: 'gcp',
+  displayName: 'Google Cloud Run',
+  requiresPushedImage: true,
+  credentialEnv: ['GOOGLE_OAUTH_ACCESS_TOKEN', 'GOOGLE_SERVICE_ACCOUNT_KEY'],
+
+  validateConfig(input) {
+    const c = new ConfigReader('Cloud Run', input);
+    return c.done<CloudRunConfig>({
+      project: c.string('project', { required: true, pattern: PROJECT }) || '',
+      region: c.string('region', { required: true, pattern: REGION }) || '',
+      service: c.string('service', { required: true, pattern: SERVICE }) || '',
+      port: c.number('port', { min: 1, max: 65535, fallback: 8080 })!,
+      cpu: c.string('cpu', { pattern: CPU, fallback: '1' })!,
+      memory: c.string('memory', { pattern: MEMORY, fallback: '512Mi' })!,
+      minInstances: c.number('minInstances', { min: 0, max: 100, fallback: 0 })!,
+      maxInstances: c.number('maxInstances', { min: 1, max: 1000, fallback: 10 })!,
+      allowUnauthenticated: c.boolean('allowUnauthenticated', true),
+      env: c.env(),
+      timeoutSeconds: c.number('timeoutSeconds', { min: 30, max: 3600, fallback: 600 })!,
+      endpoint: c.endpoint('endpoint', 'https://run.googleapis.com'),
+      tokenEndpoint: c.string('tokenEndpoint')
+    });
+  },
+
+  async deploy(image, config, context) {
+    const name = serviceName(config);
+    const spec = {
+      labels: { 'autodeploy-deployment': context.deploymentId.toLowerCase().replace(/[^a-z0-9_-]/g, '-').slice(0, 63) },
+      template: {
+        containers: [{
+          image,
+          ports: [{ containerPort: config.port }],
+          env: Object.entries(config.env).map(([envName, value]) => ({ name: envName, value })),
+          resources: { limits: { cpu: config.cpu, memory: config.memory } }
+        }],
+        scaling: { minInstanceCount: config.minInstances, maxInstanceCount: config.maxInstances }
+      },
+      // A new deploy always takes all traffic, even after a rollback pinned it
+      traffic: [{ type: 'TRAFFIC_TARGET_ALLOCATION_TYPE_LATEST', percent: 100 }]
+    };
+
+    const existing = await run(config, name, { allowNotFound: true });
+    if (existing) {
+      context.onLog(`🔁 Updating Cloud Run service ${config.service} (serving ${shortRevision(existing.latestReadyRevision || 'none')})`);
+      await run(config, name, { method: 'PATCH', body: spec });
+    } else {
+      context.onLog(`🆕 Creating Cloud Run service ${config.service} in ${config.region}`);
+      await run(config, `projects/${config.project}/locations/${config.region}/services?serviceId=${config.service}`, { method: 'POST', body: spec });
+    }
+
+    const service = await waitForReady(config, context);
+
+    if (config.allowUnauthenticated) {
+      await run(config, `${name}:setIamPolicy`, {
+        method: 'POST',
+        body: { policy: { bindings: [{ role: 'roles/run.invoker', members: ['allUsers'] }] } }
+      });
+    }
+
+    context.onLog(`✅ Cloud Run revision ${shortRevision(service.latestReadyRevision)} is serving at ${service.uri}`);
+    return {
+      target: 'gcp',
+      resourceId: name,
+      image,
+      url: service.uri,
+      revision: service.latestReadyRevision,
+      previousRevision: existing?.latestReadyRevision,
+      previousImage: existing?.template?.containers?.[0]?.image,
+      deployedAt: new Date().toISOString()
+    };
+  },
+
+  async getStatus(deployment, config) {
+    const service = await run(config, serviceName(config), { allowNotFound: true });
+    if (!service) return { state: 'stopped', message: `Service ${config.service} does not exist` };
+    const condition = service.terminalCondition;
+    const base = { url: service.uri, revision: service.latestReadyRevision, message: condition?.message };
+    if (service.reconciling) return { ...base, state: 'deploying' };
+    if (condition?.state === 'CONDITION_SUCCEEDED') return { ...base, state: 'running' };
+    if (condition?.state === 'CONDITION_FAILED') return { ...base, state: 'failed' };
+    return { ...base, state: 'unknown' };
+  },
+
+  async rollback(deployment, config, context) {
+    if (!deployment.previousRevision) {
+      throw new DeploymentTargetError('unsupported', `There is no earlier revision to roll back to for ${config.service}`);
+    }
+    const revision = shortRevision(deployment.previousRevision);
+    context.onLog(`⏪ Routing all Cloud Run traffic to ${revision}`);
+    await run(config, serviceName(config), {
+      method: 'PATCH',
+      body: { traffic: [{ type: 'TRAFFIC_TARGET_ALLOCATION_TYPE_REVISION', revision, percent: 100 }] }
+    });
+    await waitForReady(config, context);
+    return rolledBack(deployment);
+  },
+
+  async teardown(deployment, config, context) {
+    context.onLog(`🧹 Deleting Cloud Run service ${config.service}`);
+    await run(config, serviceName(config), { method: 'DELETE', allowNotFound: true });
+  }
+};
@@ -0,0 +1,204 @@
+import { registryOf } from '../dockerEngine';
+import { ConfigReader, requestJson, requireEnv, rolledBack, waitFor } from './http';
+import { DeploymentTarget, DeploymentTargetError, TargetContext } from './types';
+
+export interface ContainerAppsConfig {
+  subscriptionId: string;
+  resourceGroup: string;
+  name: string;
+  location: string;
+  environmentId: string;
+  targetPort: number;
+  external: boolean;
+  cpu: number;
+  memory: string;
+  minReplicas: number;
+  maxReplicas: number;
+  env: Record<string, string>;
+  timeoutSeconds: number;
+  endpoint: string;
+  authEndpoint: string;
+}
+
+const API_VERSION = '2024-03-01';
+const GUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const RESOURCE_GROUP = /^[-\w.()]{1,90}$/;
+const APP_NAME = /^[a-z][a-z0-9-]{0,30}[a-z0-9]$/;
+const ENVIRONMENT_ID = /^\/subscriptions\/[^/]+\/resourceGroups\/[^/]+\/providers\/Microsoft\.App\/managedEnvironments\/[^/]+$/i;
+const MEMORY = /^\d+(\.\d+)?Gi$/;
+
+const tokens = new Map<string, { token: string; expiresAt: number }>();
+
+/**
+ * ARM token for the service principal in AZURE_TENANT_ID / AZURE_CLIENT_ID / AZURE_CLIENT_SECRET
+ */
+async function armToken(config: ContainerAppsConfig): Promise<string> {
+  const [tenantId, clientId, clientSecret] = requireEnv('Azure', 'AZURE_TENANT_ID', 'AZURE_CLIENT_ID', 'AZURE_CLIENT_SECRET');
+  const key = `${config.authEndpoint}|${tenantId}|${clientId}`;
+  const cached = tokens.get(key);
+  if (cached && cached.expiresAt > Date.now() + 60000) return cached.token;
+
+  const response = await requestJson<{ access_token: string; expires_in: number | string }>(`${config.authEndpoint}/${tenantId}/oauth2/v2.0/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: clientId,
+      client_secret: clientSecret,
+      scope: `${config.endpoint}/.default`
+    }).toString()
+  });
+  tokens.set(key, { token: response.access_token, expiresAt: Date.now() + Number(response.expires_in) * 1000 });
+  return response.access_token;
+}
+
+function appPath(config: ContainerAppsConfig): string {
+  return `/subscriptions/${config.subscriptionId}/resourceGroups/${config.resourceGroup}/providers/Microsoft.App/containerApps/${config.name}`;
+}
+
+async function arm<T = any>(config: ContainerAppsConfig, request: { method?: string; body?: unknown; allowNotFound?: boolean } = {}): Promise<T> {
+  const token = await armToken(config);
+  return requestJson<T>(`${config.endpoint}${appPath(config)}?api-version=${API_VERSION}`, {
+    ...request,
+    headers: { Authorization: `Bearer ${token}` }
+  });
+}
+
+function ingressFor(config: ContainerAppsConfig, traffic: object[]) {
+  return { external: config.external, targetPort: config.targetPort, transport: 'auto', traffic };
+}
+
+/**
+ * Wait until provisioning finishes and the newest revision is ready
+ */
+async function waitForProvisioning(config: ContainerAppsConfig, context: TargetContext): Promise<any> {
+  context.onLog(`⏳ Waiting for container app ${config.name} to provision...`);
+  return waitFor(`container app ${config.name} to provision`, async () => {
+    const app = await arm(config);
+    const state = app.properties?.provisioningState;
+    if (state === 'Failed' || state === 'Canceled') {
+      throw new DeploymentTargetError('api_error', `Container app provisioning ${state.toLowerCase()}`);
+    }
+    if (state !== 'Succeeded') return undefined;
+    const { latestRevisionName, latestReadyRevisionName } = app.properties;
+    return latestRevisionName && latestRevisionName === latestReadyRevisionName ? app : undefined;
+  }, context, config.timeoutSeconds * 1000);
+}
+
+/**
+ * Azure Container Apps in multiple-revision mode, so earlier revisions stay
+ * available and rollback only has to move ingress traffic.
+ */
+export const containerAppsTarget: DeploymentTarget<ContainerAppsConfig> = {
+  name: 'azure',
+  displayName: 'Azure Container Apps',
+  requiresPushedImage: true,
+  credentialEnv: ['AZURE_TENANT_ID', 'AZURE_CLIENT_ID', 'AZURE_CLIENT_SECRET'],
+
+  validateConfig(input) {
+    const c = new ConfigReader('Azure Container Apps', input);
+    return c.done<ContainerAppsConfig>({
+      subscriptionId: c.string('subscriptionId', { required: true, pattern: GUID }) || '',
+      resourceGroup: c.string('resourceGroup', { required: true, pattern: RESOURCE_GROUP }) || '',
+      name: c.string('name', { required: true, pattern: APP_NAME }) || '',
+      location: c.string('location', { required: true, pattern: /^[a-z0-9]+$/ }) || '',
+      environmentId: c.string('environmentId', { required: true, pattern: ENVIRONMENT_ID }) || '',
+      targetPort: c.number('targetPort', { min: 1, max: 65535, fallback: 8080 })!,
+      external: c.boolean('external', true),
+      cpu: c.number('cpu', { min: 0.25, max: 4, fallback: 0.5 })!,
+      memory: c.string('memory', { pattern: MEMORY, fallback: '1Gi' })!,
+      minReplicas: c.number('minReplicas', { min: 0, max: 300, fallback: 0 })!,
+      maxReplicas: c.number('maxReplicas', { min: 1, max: 300, fallback: 10 })!,
+      env: c.env(),
+      timeoutSeconds: c.number('timeoutSeconds', { min: 30, max: 3600, fallback: 600 })!,
+      endpoint: c.endpoint('endpoint', 'https://management.azure.com'),
+      authEndpoint: c.endpoint('authEndpoint', 'https://login.microsoftonline.com')
+    });
+  },
+
+  async deploy(image, config, context) {
+    const existing = await arm(config, { allowNotFound: true });
+
+    // Private images are pulled with the same registry credentials used to push them
+    const auth = context.registryAuth;
+    const registry = auth?.username && auth.password
+      ? { server: auth.serveraddress || registryOf(image), username: auth.username, passwordSecretRef: 'registry-password' }
+      : undefined;
+
+    context.onLog(existing
+      ? `🔁 Updating container app ${config.name} (serving ${existing.properties?.latestReadyRevisionName || 'none'})`
+      : `🆕 Creating container app ${config.name} in ${config.location}`);
+
+    await arm(config, {
+      method: 'PUT',
+      body: {
+        location: config.location,
+        tags: { 'autodeploy-deployment': context.deploymentId },
+        properties: {
+          managedEnvironmentId: config.environmentId,
+          configuration: {
+            activeRevisionsMode: 'Multiple',
+            ingress: ingressFor(config, [{ latestRevision: true, weight: 100 }]),
+            registries: registry ? [registry] : undefined,
+            secrets: registry ? [{ name: 'registry-password', value: auth!.password }] : undefined
+          },
+          template: {
+            containers: [{
+              name: config.name,
+              image,
+              env: Object.entries(config.env).map(([name, value]) => ({ name, value })),
+              resources: { cpu: config.cpu, memory: config.memory }
+            }],
+            scale: { minReplicas: config.minReplicas, maxReplicas: config.maxReplicas }
+          }
+        }
+      }
+    });
+
+    const app = await waitForProvisioning(config, context);
+    const fqdn = app.properties.configuration?.ingress?.fqdn;
+    context.onLog(`✅ Container app revision ${app.properties.latestRevisionName} is ready${fqdn ? ` at https://${fqdn}` : ''}`);
+
+    return {
+      target: 'azure',
+      resourceId: app.id || appPath(config),
+      image,
+      url: fqdn ? `https://${fqdn}` : undefined,
+      revision: app.properties.latestRevisionName,
+      previousRevision: existing?.properties?.latestReadyRevisionName,
+      previousImage: existing?.properties?.template?.containers?.[0]?.image,
+      deployedAt: new Date().toISOString()
+    };
+  },
+
+  async getStatus(deployment, config) {
+    const app = await arm(config, { allowNotFound: true });
+    if (!app) return { state: 'stopped', message: `Container app ${config.name} does not exist` };
+    const props = app.properties || {};
+    const fqdn = props.configuration?.ingress?.fqdn;
+    const base = { url: fqdn ? `https://${fqdn}` : undefined, revision: props.latestReadyRevisionName };
+    if (props.provisioningState === 'Failed') return { ...base, state: 'failed', message: 'Provisioning failed' };
+    if (props.provisioningState !== 'Succeeded' || props.latestRevisionName !== props.latestReadyRevisionName) {
+      return { ...base, state: 'deploying', message: `Provisioning state ${props.provisioningState}` };
+    }
+    return { ...base, state: props.runningStatus === 'Stopped' ? 'stopped' : 'running' };
+  },
+
+  async rollback(deployment, config, context) {
+    if (!deployment.previousRevision) {
+      throw new DeploymentTargetError('unsupported', `There is no earlier revision to roll back to for ${config.name}`);
+    }
+    context.onLog(`⏪ Routing all container app traffic to ${deployment.previousRevision}`);
+    await arm(config, {
+      method: 'PATCH',
+      body: { properties: { configuration: { ingress: ingressFor(config, [{ revisionName: deployment.previousRevision, weight: 100 }]) } } }
+    });
+    await waitForProvisioning(config, context);
+    return rolledBack(deployment);
+  },
+
+  async teardown(deployment, config, context) {
+    context.onLog(`🧹 Deleting container app ${config.name}`);
+    await arm(config, { method: 'DELETE', allowNotFound: true });
+  }
+};
@@ -0,0 +1,289 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { DeploymentTargetError, getDeploymentTarget, TargetContext } from './index';
+import { signAwsRequest } from './ecs';
+
+interface StandInRequest {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+type StandInReply = { status?: number; body?: unknown } | undefined;
+
+/**
+ * One local HTTP server stands in for every provider API; each test installs
+ * a handler and inspects the requests it received.
+ */
+describe('deployment targets', () => {
+  const requests: StandInRequest[] = [];
+  let handler: (req: StandInRequest) => StandInReply = () => undefined;
+  let server: http.Server;
+  let base: string;
+  const savedEnv = { ...process.env };
+  const logs: string[] = [];
+  const context: TargetContext = { deploymentId: 'deploy-1', onLog: line => logs.push(line), pollIntervalMs: 1 };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', c => chunks.push(c));
+      req.on('end', () => {
+        const text = Buffer.concat(chunks).toString();
+        let body: any = text;
+        try { body = text ? JSON.parse(text) : undefined; } catch { /* form bodies stay as text */ }
+        const recorded = { method: req.method || '', path: req.url || '', headers: req.headers, body };
+        requests.push(recorded);
+        const reply = handler(recorded) || { status: 404, body: { message: `unexpected ${req.method} ${req.url}` } };
+        res.writeHead(reply.status || 200, { 'Content-Type': 'application/json' });
+        res.end(reply.body === undefined ? '' : JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    Object.assign(process.env, {
+      AWS_ACCESS_KEY_ID: 'AKIDEXAMPLE',
+      AWS_SECRET_ACCESS_KEY: 'secret',
+      GOOGLE_OAUTH_ACCESS_TOKEN: 'gcp-token',
+      AZURE_TENANT_ID: 'tenant',
+      AZURE_CLIENT_ID: 'client',
+      AZURE_CLIENT_SECRET: 'azure-secret',
+      FLY_API_TOKEN: 'fly-token',
+      RENDER_API_KEY: 'render-key'
+    });
+  });
+
+  afterAll(async () => {
+    process.env = savedEnv;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    logs.length = 0;
+  });
+
+  it('rejects hosts that cannot run containers instead of faking success', () => {
+    for (const name of ['vercel', 'netlify']) {
+      const error = (() => { try { getDeploymentTarget(name); } catch (e) { return e; } })() as DeploymentTargetError;
+      expect(error).toBeInstanceOf(DeploymentTargetError);
+      expect(error.code).toBe('unsupported');
+      expect(error.message).toMatch(/cannot run container images/);
+    }
+    expect(() => getDeploymentTarget('heroku')).toThrow(/Unknown deployment target "heroku"/);
+  });
+
+  it('reports every config problem at once', () => {
+    expect(() => getDeploymentTarget('aws').validateConfig({ region: 'moon-1', cpu: 'lots', env: { 'BAD-NAME': 'x' } }))
+      .toThrow('Invalid AWS ECS config: region "moon-1" is not valid; service is required; subnets needs at least one entry; cpu must be a number; env name "BAD-NAME" is not valid');
+  });
+
+  it('publishes to Docker Hub without claiming anything runs', async () => {
+    const target = getDeploymentTarget('dockerhub');
+    const deployment = await target.deploy('acme/api:1.0', target.validateConfig(undefined), context);
+    expect(deployment.url).toBe('https://hub.docker.com/r/acme/api');
+    expect((await target.getStatus(deployment, {})).state).toBe('published');
+    await expect(target.rollback(deployment, {}, context)).rejects.toThrow(/no running deployment/);
+  });
+
+  it('rolls an ECS service onto a new task definition and back', async () => {
+    let primary = 'arn:aws:ecs:us-east-1:1:task-definition/api:3';
+    handler = req => {
+      const action = String(req.headers['x-amz-target']).split('.').pop();
+      if (action === 'RegisterTaskDefinition') return { body: { taskDefinition: { taskDefinitionArn: 'arn:aws:ecs:us-east-1:1:task-definition/api:4' } } };
+      if (action === 'DescribeServices') {
+        return { body: { services: [{ serviceArn: 'arn:aws:ecs:us-east-1:1:service/prod/api', status: 'ACTIVE', taskDefinition: primary, desiredCount: 1, runningCount: 1,
+          deployments: [{ status: 'PRIMARY', taskDefinition: primary, rolloutState: 'COMPLETED', desiredCount: 1, runningCount: 1 }] }] } };
+      }
+      if (action === 'UpdateService') {
+        primary = req.body.taskDefinition;
+        return { body: { service: { serviceArn: 'arn:aws:ecs:us-east-1:1:service/prod/api' } } };
+      }
+      if (action === 'DescribeTaskDefinition') return { body: { taskDefinition: { containerDefinitions: [{ image: 'acme/api:1' }] } } };
+    };
+
+    const target = getDeploymentTarget('aws');
+    const config = target.validateConfig({ region: 'us-east-1', cluster: 'prod', service: 'api', subnets: 'subnet-1,subnet-2', url: 'https://api.acme.dev', endpoint: base });
+    const deployment = await target.deploy('acme/api:2', config, context);
+
+    expect(deployment).toMatchObject({
+      target: 'aws',
+      revision: 'arn:aws:ecs:us-east-1:1:task-definition/api:4',
+      previousRevision: 'arn:aws:ecs:us-east-1:1:task-definition/api:3',
+      url: 'https://api.acme.dev'
+    });
+    const register = requests.find(r => String(r.headers['x-amz-target']).endsWith('RegisterTaskDefinition'))!;
+    expect(register.body.containerDefinitions[0]).toMatchObject({ image: 'acme/api:2', portMappings: [{ containerPort: 8080, protocol: 'tcp' }] });
+    expect(register.headers.authorization).toMatch(/^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/us-east-1\/ecs\/aws4_request, SignedHeaders=content-type;host;x-amz-date;x-amz-target, Signature=[0-9a-f]{64}$/);
+    expect(await target.getStatus(deployment, config)).toMatchObject({ state: 'running', message: '1/1 tasks running' });
+
+    const rolledBack = await target.rollback(deployment, config, context);
+    expect(rolledBack).toMatchObject({ revision: 'arn:aws:ecs:us-east-1:1:task-definition/api:3', image: 'acme/api:1', previousImage: 'acme/api:2' });
+  });
+
+  it('creates a Cloud Run service, waits for it to be ready and opens it to the public', async () => {
+    let polls = 0;
+    const name = 'projects/acme-prod/locations/us-central1/services/api';
+    handler = req => {
+      if (req.method === 'GET' && req.path === `/v2/${name}`) {
+        if (!requests.some(r => r.method === 'POST')) return { status: 404, body: { error: { message: 'not found' } } };
+        polls++;
+        return { body: polls < 2
+          ? { reconciling: true }
+          : { uri: 'https://api-xyz.a.run.app', latestReadyRevision: `${name}/revisions/api-00001`, terminalCondition: { state: 'CONDITION_SUCCEEDED' } } };
+      }
+      if (req.method === 'POST' && req.path.startsWith('/v2/projects/acme-prod/locations/us-central1/services?serviceId=api')) return { body: { name: 'operations/1' } };
+      if (req.method === 'POST' && req.path === `/v2/${name}:setIamPolicy`) return { body: {} };
+    };
+
+    const target = getDeploymentTarget('gcp');
+    const config = target.validateConfig({ project: 'acme-prod', region: 'us-central1', service: 'api', env: { LOG_LEVEL: 'info' }, endpoint: base });
+    const deployment = await target.deploy('acme/api:2', config, context);
+
+    expect(deployment).toMatchObject({ url: 'https://api-xyz.a.run.app', revision: `${name}/revisions/api-00001`, previousRevision: undefined });
+    const create = requests.find(r => r.path.includes('serviceId=api'))!;
+    expect(create.headers.authorization).toBe('Bearer gcp-token');
+    expect(create.body.template.containers[0]).toMatchObject({ image: 'acme/api:2', env: [{ name: 'LOG_LEVEL', value: 'info' }] });
+    expect(requests.some(r => r.path.endsWith(':setIamPolicy'))).toBe(true);
+  });
+
+  it('fails the deployment when the Cloud Run revision never becomes ready', async () => {
+    handler = req => {
+      if (req.method === 'GET') {
+        return { body: { reconciling: false, latestReadyRevision: 'r1', terminalCondition: { state: 'CONDITION_FAILED', message: 'container failed to listen on PORT=8080' } } };
+      }
+      if (req.method === 'PATCH') return { body: {} };
+    };
+    const target = getDeploymentTarget('gcp');
+    const config = target.validateConfig({ project: 'acme-prod', region: 'us-central1', service: 'api', endpoint: base });
+    await expect(target.deploy('acme/api:3', config, context)).rejects.toThrow(/failed to listen on PORT=8080/);
+  });
+
+  it('deploys a Container App revision and rolls traffic back to the previous one', async () => {
+    let provisioning = 0;
+    handler = req => {
+      if (req.path === '/tenant/oauth2/v2.0/token') {
+        expect(req.body).toContain('grant_type=client_credentials');
+        return { body: { access_token: 'arm-token', expires_in: 3600 } };
+      }
+      if (!req.path.startsWith('/subscriptions/')) return undefined;
+      if (req.method === 'PUT' || req.method === 'PATCH') return { body: {} };
+      const existing = requests.filter(r => r.method === 'GET').length === 1;
+      if (existing) {
+        return { body: { properties: { latestReadyRevisionName: 'api--old', template: { containers: [{ image: 'acme/api:1' }] } } } };
+      }
+      provisioning++;
+      return { body: { id: '/subscriptions/x/app', properties: {
+        provisioningState: provisioning < 2 ? 'InProgress' : 'Succeeded',
+        latestRevisionName: 'api--new',
+        latestReadyRevisionName: provisioning < 2 ? 'api--old' : 'api--new',
+        configuration: { ingress: { fqdn: 'api.nicebeach.eastus.azurecontainerapps.io' } }
+      } } };
+    };
+
+    const target = getDeploymentTarget('azure');
+    const config = target.validateConfig({
+      subscriptionId: '00000000-0000-0000-0000-000000000000',
+      resourceGroup: 'prod',
+      name: 'api',
+      location: 'eastus',
+      environmentId: '/subscriptions/00000000-0000-0000-0000-000000000000/resourceGroups/prod/providers/Microsoft.App/managedEnvironments/env',
+      endpoint: base,
+      authEndpoint: base
+    });
+    const deployment = await target.deploy('acme/private:2', config, {
+      ...context,
+      registryAuth: { username: 'acme', password: 'hub-pass', serveraddress: 'docker.io' }
+    });
+
+    expect(deployment).toMatchObject({
+      url: 'https://api.nicebeach.eastus.azurecontainerapps.io',
+      revision: 'api--new',
+      previousRevision: 'api--old',
+      previousImage: 'acme/api:1'
+    });
+    const put = requests.find(r => r.method === 'PUT')!;
+    expect(put.headers.authorization).toBe('Bearer arm-token');
+    expect(put.body.properties.configuration).toMatchObject({
+      activeRevisionsMode: 'Multiple',
+      registries: [{ server: 'docker.io', username: 'acme', passwordSecretRef: 'registry-password' }]
+    });
+
+    const rolledBack = await target.rollback(deployment, config, context);
+    const patch = requests.find(r => r.method === 'PATCH')!;
+    expect(patch.body.properties.configuration.ingress.traffic).toEqual([{ revisionName: 'api--old', weight: 100 }]);
+    expect(rolledBack).toMatchObject({ revision: 'api--old', image: 'acme/api:1', previousRevision: 'api--new' });
+  });
+
+  it('creates a Fly.io app with a public IP and waits for the machine to start', async () => {
+    handler = req => {
+      if (req.path === '/v1/apps/acme-api' && req.method === 'GET') return { status: 404, body: { error: 'app not found' } };
+      if (req.path === '/v1/apps' && req.method === 'POST') return { status: 201 };
+      if (req.path === '/graphql') return { body: { data: { allocateIpAddress: { app: { name: 'acme-api' } } } } };
+      if (req.path === '/v1/apps/acme-api/machines' && req.method === 'GET') return { body: [] };
+      if (req.path === '/v1/apps/acme-api/machines' && req.method === 'POST') return { body: { id: 'm1', instance_id: 'i1', state: 'created' } };
+      if (req.path === '/v1/apps/acme-api/machines/m1') return { body: { id: 'm1', instance_id: 'i1', state: 'started' } };
+    };
+
+    const target = getDeploymentTarget('fly');
+    const config = target.validateConfig({ app: 'acme-api', region: 'ams', internalPort: 3000, endpoint: base, graphqlEndpoint: `${base}/graphql` });
+    const deployment = await target.deploy('acme/api:2', config, context);
+
+    expect(deployment).toMatchObject({ target: 'fly', resourceId: 'm1', revision: 'i1', url: 'https://acme-api.fly.dev' });
+    expect(requests.find(r => r.path === '/graphql')!.body.variables.input).toEqual({ appId: 'acme-api', type: 'shared_v4' });
+    const create = requests.find(r => r.path === '/v1/apps/acme-api/machines' && r.method === 'POST')!;
+    expect(create.body).toMatchObject({ region: 'ams', config: { image: 'acme/api:2', services: [{ internal_port: 3000 }] } });
+    expect(create.headers.authorization).toBe('Bearer fly-token');
+  });
+
+  it('deploys to an existing Render service and rolls back to the last live deploy', async () => {
+    handler = req => {
+      if (req.path.startsWith('/v1/services?')) return { body: [{ service: { id: 'srv-abc', name: 'api', serviceDetails: { url: 'https://api.onrender.com' } } }] };
+      if (req.path === '/v1/services/srv-abc/deploys?limit=20') return { body: [{ deploy: { id: 'dep-new', status: 'build_failed' } }, { deploy: { id: 'dep-old', status: 'live' } }] };
+      if (req.path === '/v1/services/srv-abc/deploys' && req.method === 'POST') return { status: 201, body: { id: 'dep-2', status: 'created' } };
+      if (req.path === '/v1/services/srv-abc/rollback') return { status: 201, body: { id: 'dep-3', status: 'created' } };
+      if (req.path.startsWith('/v1/services/srv-abc/deploys/')) return { body: { status: 'live' } };
+    };
+
+    const target = getDeploymentTarget('render');
+    const config = target.validateConfig({ service: 'api', ownerId: 'tea-123', endpoint: base });
+    const deployment = await target.deploy('acme/api:2', config, context);
+
+    expect(deployment).toMatchObject({ resourceId: 'srv-abc', revision: 'dep-2', previousRevision: 'dep-old', url: 'https://api.onrender.com' });
+    expect(requests.find(r => r.path === '/v1/services/srv-abc/deploys' && r.method === 'POST')!.body).toEqual({ imageUrl: 'acme/api:2' });
+
+    const rolledBack = await target.rollback(deployment, config, context);
+    expect(requests.find(r => r.path === '/v1/services/srv-abc/rollback')!.body).toEqual({ deployId: 'dep-old' });
+    expect(rolledBack).toMatchObject({ revision: 'dep-3', previousRevision: 'dep-2' });
+  });
+
+  it('explains which credentials are missing', async () => {
+    delete process.env.RENDER_API_KEY;
+    const target = getDeploymentTarget('render');
+    const config = target.validateConfig({ service: 'api', ownerId: 'tea-123', endpoint: base });
+    await expect(target.deploy('acme/api:2', config, context)).rejects.toMatchObject({
+      code: 'auth_failed',
+      message: 'Render credentials are not configured (set RENDER_API_KEY)'
+    });
+    process.env.RENDER_API_KEY = 'render-key';
+  });
+});
+
+describe('signAwsRequest', () => {
+  it('matches the AWS SigV4 reference signature', () => {
+    // Example request from the AWS Signature Version 4 test suite (get-vanilla)
+    const headers = signAwsRequest(
+      { method: 'GET', url: 'https://example.amazonaws.com/', headers: {}, body: '' },
+      { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY' },
+      'us-east-1',
+      'service',
+      new Date('2015-08-30T12:36:00Z')
+    );
+    expect(headers.Authorization).toBe(
+      'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, SignedHeaders=host;x-amz-date, ' +
+      'Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31'
+    );
+  });
+});
@@ -0,0 +1,274 @@
+import crypto from 'crypto';
+import { ConfigReader, requestJson, requireEnv, targetEnv, waitFor } from './http';
+import { DeploymentTarget, DeploymentTargetError, TargetContext, TargetStatus } from './types';
+
+export interface EcsConfig {
+  region: string;
+  cluster: string;
+  service: string;
+  subnets: string[];
+  securityGroups: string[];
+  assignPublicIp: boolean;
+  executionRoleArn?: string;
+  taskRoleArn?: string;
+  cpu: string;
+  memory: string;
+  containerPort: number;
+  desiredCount: number;
+  targetGroupArn?: string;
+  /** Public URL of the load balancer in front of the service, if any */
+  url?: string;
+  env: Record<string, string>;
+  timeoutSeconds: number;
+  endpoint: string;
+}
+
+const NAME = /^[A-Za-z0-9][A-Za-z0-9_-]{0,254}$/;
+const REGION = /^[a-z]{2}(-[a-z]+)+-\d$/;
+const ARN = /^arn:aws[a-z-]*:[a-z0-9-]+:/;
+
+interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+function hash(data: string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Sign a request with AWS Signature Version 4
+ */
+export function signAwsRequest(
+  request: { method: string; url: string; headers: Record<string, string>; body: string },
+  credentials: AwsCredentials,
+  region: string,
+  service: string,
+  now = new Date()
+): Record<string, string> {
+  const url = new URL(request.url);
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = { ...request.headers, host: url.host, 'x-amz-date': amzDate };
+  if (credentials.sessionToken) headers['x-amz-security-token'] = credentials.sessionToken;
+
+  const names = Object.keys(headers).map(h => h.toLowerCase()).sort();
+  const lower = Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v.trim()]));
+  const canonicalHeaders = names.map(name => `${name}:${lower[name]}\n`).join('');
+  const signedHeaders = names.join(';');
+  const query = [...url.searchParams].sort(([a], [b]) => a.localeCompare(b))
+    .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`).join('&');
+
+  const canonicalRequest = [request.method, url.pathname || '/', query, canonicalHeaders, signedHeaders, hash(request.body)].join('\n');
+  const scope = `${dateStamp}/${region}/${service}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, hash(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), region), service), 'aws4_request');
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  const { host: _host, ...rest } = headers;
+  return {
+    ...rest,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  };
+}
+
+function awsCredentials(): AwsCredentials {
+  const [accessKeyId, secretAccessKey] = requireEnv('AWS', 'AWS_ACCESS_KEY_ID', 'AWS_SECRET_ACCESS_KEY');
+  return { accessKeyId, secretAccessKey, sessionToken: targetEnv('AWS_SESSION_TOKEN') };
+}
+
+/**
+ * Call an ECS action over the AWS JSON 1.1 protocol
+ */
+async function ecs<T = any>(config: EcsConfig, action: string, payload: object): Promise<T> {
+  const body = JSON.stringify(payload);
+  const url = `${config.endpoint}/`;
+  const headers = signAwsRequest({
+    method: 'POST',
+    url,
+    headers: {
+      'Content-Type': 'application/x-amz-json-1.1',
+      'X-Amz-Target': `AmazonEC2ContainerServiceV20141113.${action}`
+    },
+    body
+  }, awsCredentials(), config.region, 'ecs');
+  return requestJson<T>(url, { method: 'POST', headers, body });
+}
+
+async function describeService(config: EcsConfig): Promise<any | undefined> {
+  const result = await ecs(config, 'DescribeServices', { cluster: config.cluster, services: [config.service] });
+  const service = result.services?.[0];
+  return service && service.status !== 'INACTIVE' ? service : undefined;
+}
+
+function familyOf(taskDefinitionArn: string): string {
+  return taskDefinitionArn.split('/').pop() || taskDefinitionArn;
+}
+
+/**
+ * ECS on Fargate: one task definition revision per deploy, rolled out by
+ * updating the service. Rollback points the service at the previous revision.
+ */
+export const ecsTarget: DeploymentTarget<EcsConfig> = {
+  name: 'aws',
+  displayName: 'AWS ECS/Fargate',
+  requiresPushedImage: true,
+  credentialEnv: ['AWS_ACCESS_KEY_ID', 'AWS_SECRET_ACCESS_KEY', 'AWS_SESSION_TOKEN'],
+
+  validateConfig(input) {
+    const c = new ConfigReader('AWS ECS', input);
+    const region = c.string('region', { required: true, pattern: REGION }) || '';
+    return c.done<EcsConfig>({
+      region,
+      cluster: c.string('cluster', { pattern: NAME, fallback: 'default' })!,
+      service: c.string('service', { required: true, pattern: NAME }) || '',
+      subnets: c.stringList('subnets', { required: true }),
+      securityGroups: c.stringList('securityGroups'),
+      assignPublicIp: c.boolean('assignPublicIp', true),
+      executionRoleArn: c.string('executionRoleArn', { pattern: ARN }),
+      taskRoleArn: c.string('taskRoleArn', { pattern: ARN }),
+      cpu: String(c.number('cpu', { min: 256, max: 16384, fallback: 256 })),
+      memory: String(c.number('memory', { min: 512, max: 122880, fallback: 512 })),
+      containerPort: c.number('containerPort', { min: 1, max: 65535, fallback: 8080 })!,
+      desiredCount: c.number('desiredCount', { min: 1, max: 100, fallback: 1 })!,
+      targetGroupArn: c.string('targetGroupArn', { pattern: ARN }),
+      url: c.string('url'),
+      env: c.env(),
+      timeoutSeconds: c.number('timeoutSeconds', { min: 30, max: 3600, fallback: 600 })!,
+      endpoint: c.endpoint('endpoint', `https://ecs.${region || 'us-east-1'}.amazonaws.com`)
+    });
+  },
+
+  async deploy(image, config, context) {
+    context.onLog(`📝 Registering task definition ${config.service} for ${image}`);
+    const registered = await ecs(config, 'RegisterTaskDefinition', {
+      family: config.service,
+      networkMode: 'awsvpc',
+      requiresCompatibilities: ['FARGATE'],
+      cpu: config.cpu,
+      memory: config.memory,
+      executionRoleArn: config.executionRoleArn,
+      taskRoleArn: config.taskRoleArn,
+      containerDefinitions: [{
+        name: config.service,
+        image,
+        essential: true,
+        portMappings: [{ containerPort: config.containerPort, protocol: 'tcp' }],
+        environment: Object.entries(config.env).map(([name, value]) => ({ name, value }))
+      }],
+      tags: [{ key: 'autodeploy:deployment', value: context.deploymentId }]
+    });
+    const taskDefinition: string = registered.taskDefinition.taskDefinitionArn;
+
+    const existing = await describeService(config);
+    let service: any;
+    if (existing) {
+      context.onLog(`🔁 Updating service ${config.service} (was ${familyOf(existing.taskDefinition)})`);
+      service = (await ecs(config, 'UpdateService', {
+        cluster: config.cluster,
+        service: config.service,
+        taskDefinition,
+        desiredCount: config.desiredCount,
+        forceNewDeployment: true
+      })).service;
+    } else {
+      context.onLog(`🆕 Creating service ${config.service} in cluster ${config.cluster}`);
+      service = (await ecs(config, 'CreateService', {
+        cluster: config.cluster,
+        serviceName: config.service,
+        taskDefinition,
+        desiredCount: config.desiredCount,
+        launchType: 'FARGATE',
+        networkConfiguration: {
+          awsvpcConfiguration: {
+            subnets: config.subnets,
+            securityGroups: config.securityGroups.length > 0 ? config.securityGroups : undefined,
+            assignPublicIp: config.assignPublicIp ? 'ENABLED' : 'DISABLED'
+          }
+        },
+        loadBalancers: config.targetGroupArn
+          ? [{ targetGroupArn: config.targetGroupArn, containerName: config.service, containerPort: config.containerPort }]
+          : undefined,
+        deploymentConfiguration: { deploymentCircuitBreaker: { enable: true, rollback: false } }
+      })).service;
+    }
+
+    await waitForRollout(config, taskDefinition, context);
+
+    return {
+      target: 'aws',
+      resourceId: service.serviceArn,
+      image,
+      url: config.url,
+      revision: taskDefinition,
+      previousRevision: existing?.taskDefinition,
+      deployedAt: new Date().toISOString(),
+      details: { cluster: config.cluster, region: config.region }
+    };
+  },
+
+  async getStatus(deployment, config) {
+    const service = await describeService(config);
+    if (!service) return { state: 'stopped', message: `Service ${config.service} does not exist` };
+    const primary = service.deployments?.find((d: any) => d.status === 'PRIMARY');
+    const status: TargetStatus = { state: 'unknown', url: config.url, revision: service.taskDefinition };
+    if (primary?.rolloutState === 'FAILED') return { ...status, state: 'failed', message: primary.rolloutStateReason };
+    if (primary?.rolloutState === 'IN_PROGRESS') return { ...status, state: 'deploying', message: primary.rolloutStateReason };
+    if (service.desiredCount === 0) return { ...status, state: 'stopped' };
+    return { ...status, state: service.runningCount > 0 ? 'running' : 'deploying', message: `${service.runningCount}/${service.desiredCount} tasks running` };
+  },
+
+  async rollback(deployment, config, context) {
+    if (!deployment.previousRevision) {
+      throw new DeploymentTargetError('unsupported', `There is no earlier task definition to roll back to for ${config.service}`);
+    }
+    context.onLog(`⏪ Rolling ${config.service} back to ${familyOf(deployment.previousRevision)}`);
+    const { taskDefinition } = await ecs(config, 'DescribeTaskDefinition', { taskDefinition: deployment.previousRevision });
+    await ecs(config, 'UpdateService', {
+      cluster: config.cluster,
+      service: config.service,
+      taskDefinition: deployment.previousRevision,
+      forceNewDeployment: true
+    });
+    await waitForRollout(config, deployment.previousRevision, context);
+    return {
+      ...deployment,
+      image: taskDefinition?.containerDefinitions?.[0]?.image || deployment.previousImage || deployment.image,
+      revision: deployment.previousRevision,
+      previousRevision: deployment.revision,
+      previousImage: deployment.image,
+      deployedAt: new Date().toISOString()
+    };
+  },
+
+  async teardown(deployment, config, context) {
+    context.onLog(`🧹 Deleting ECS service ${config.service}`);
+    const service = await describeService(config);
+    if (!service) return;
+    await ecs(config, 'DeleteService', { cluster: config.cluster, service: config.service, force: true });
+  }
+};
+
+async function waitForRollout(config: EcsConfig, taskDefinition: string, context: TargetContext): Promise<void> {
+  context.onLog(`⏳ Waiting for ${config.service} to reach steady state...`);
+  await waitFor(`ECS service ${config.service} to roll out`, async () => {
+    const service = await describeService(config);
+    const primary = service?.deployments?.find((d: any) => d.status === 'PRIMARY');
+    if (!primary || primary.taskDefinition !== taskDefinition) return undefined;
+    if (primary.rolloutState === 'FAILED') {
+      throw new DeploymentTargetError('api_error', `ECS rollout failed: ${primary.rolloutStateReason || 'tasks did not become healthy'}`);
+    }
+    if (primary.rolloutState === 'COMPLETED' || (primary.runningCount >= primary.desiredCount && primary.desiredCount > 0 && !primary.rolloutState)) {
+      return true;
+    }
+    return undefined;
+  }, context, config.timeoutSeconds * 1000);
+  context.onLog(`✅ ECS service ${config.service} is running ${familyOf(taskDefinition)}`);
+}
@@ -0,0 +1,184 @@
+import { ConfigReader, requestJson, requireEnv, waitFor } from './http';
+import { DeploymentTarget, DeploymentTargetError, TargetContext, TargetStatus } from './types';
+
+export interface FlyConfig {
+  app: string;
+  org: string;
+  region?: string;
+  internalPort: number;
+  cpus: number;
+  memoryMb: number;
+  env: Record<string, string>;
+  timeoutSeconds: number;
+  endpoint: string;
+  graphqlEndpoint: string;
+}
+
+const APP = /^[a-z0-9][a-z0-9-]{1,61}[a-z0-9]$/;
+const REGION = /^[a-z]{3}$/;
+
+async function fly<T = any>(config: FlyConfig, path: string, request: { method?: string; body?: unknown; allowNotFound?: boolean } = {}): Promise<T> {
+  const [token] = requireEnv('Fly.io', 'FLY_API_TOKEN');
+  return requestJson<T>(`${config.endpoint}/v1${path}`, { ...request, headers: { Authorization: `Bearer ${token}` } });
+}
+
+/**
+ * New apps get no public address from the Machines API; allocate a shared
+ * IPv4 through the platform GraphQL API so `<app>.fly.dev` resolves.
+ */
+async function allocateSharedIp(config: FlyConfig): Promise<void> {
+  const [token] = requireEnv('Fly.io', 'FLY_API_TOKEN');
+  const result = await requestJson(config.graphqlEndpoint, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}` },
+    body: {
+      query: 'mutation($input: AllocateIPAddressInput!) { allocateIpAddress(input: $input) { app { name } } }',
+      variables: { input: { appId: config.app, type: 'shared_v4' } }
+    }
+  });
+  if (result?.errors?.length) {
+    throw new DeploymentTargetError('api_error', `Fly.io IP allocation failed: ${result.errors[0].message}`);
+  }
+}
+
+function machineConfig(image: string, config: FlyConfig, deploymentId: string) {
+  return {
+    image,
+    env: config.env,
+    guest: { cpu_kind: 'shared', cpus: config.cpus, memory_mb: config.memoryMb },
+    services: [{
+      protocol: 'tcp',
+      internal_port: config.internalPort,
+      ports: [
+        { port: 80, handlers: ['http'], force_https: true },
+        { port: 443, handlers: ['tls', 'http'] }
+      ]
+    }],
+    metadata: { autodeploy_deployment: deploymentId }
+  };
+}
+
+async function waitForStarted(config: FlyConfig, machineId: string, instanceId: string | undefined, context: TargetContext): Promise<any> {
+  context.onLog(`⏳ Waiting for Fly machine ${machineId} to start...`);
+  return waitFor(`Fly machine ${machineId} to start`, async () => {
+    const machine = await fly(config, `/apps/${config.app}/machines/${machineId}`);
+    if (instanceId && machine.instance_id !== instanceId) return undefined;
+    if (machine.state === 'started') return machine;
+    if (machine.state === 'failed' || machine.state === 'destroyed') {
+      throw new DeploymentTargetError('api_error', `Fly machine ${machineId} ${machine.state}`);
+    }
+    return undefined;
+  }, context, config.timeoutSeconds * 1000);
+}
+
+/**
+ * Fly.io Machines: one machine per app, updated in place. Each update gets a
+ * new instance id; rollback re-deploys the previous image.
+ */
+export const flyTarget: DeploymentTarget<FlyConfig> = {
+  name: 'fly',
+  displayName: 'Fly.io',
+  requiresPushedImage: true,
+  credentialEnv: ['FLY_API_TOKEN'],
+
+  validateConfig(input) {
+    const c = new ConfigReader('Fly.io', input);
+    return c.done<FlyConfig>({
+      app: c.string('app', { required: true, pattern: APP }) || '',
+      org: c.string('org', { pattern: /^[a-z0-9-]+$/, fallback: 'personal' })!,
+      region: c.string('region', { pattern: REGION }),
+      internalPort: c.number('internalPort', { min: 1, max: 65535, fallback: 8080 })!,
+      cpus: c.number('cpus', { min: 1, max: 16, fallback: 1 })!,
+      memoryMb: c.number('memoryMb', { min: 256, max: 65536, fallback: 256 })!,
+      env: c.env(),
+      timeoutSeconds: c.number('timeoutSeconds', { min: 30, max: 3600, fallback: 300 })!,
+      endpoint: c.endpoint('endpoint', 'https://api.machines.dev'),
+      graphqlEndpoint: c.endpoint('graphqlEndpoint', 'https://api.fly.io/graphql')
+    });
+  },
+
+  async deploy(image, config, context) {
+    const app = await fly(config, `/apps/${config.app}`, { allowNotFound: true });
+    if (!app) {
+      context.onLog(`🆕 Creating Fly.io app ${config.app} in org ${config.org}`);
+      await fly(config, '/apps', { method: 'POST', body: { app_name: config.app, org_slug: config.org } });
+      await allocateSharedIp(config);
+    }
+
+    const machines: any[] = await fly(config, `/apps/${config.app}/machines`);
+    const existing = machines.find(m => m.state !== 'destroyed');
+    const body = { config: machineConfig(image, config, context.deploymentId), region: config.region };
+
+    let machine: any;
+    if (existing) {
+      context.onLog(`🔁 Updating Fly machine ${existing.id} (was ${existing.config?.image || 'unknown image'})`);
+      machine = await fly(config, `/apps/${config.app}/machines/${existing.id}`, { method: 'POST', body });
+    } else {
+      context.onLog(`🆕 Creating Fly machine for ${config.app}${config.region ? ` in ${config.region}` : ''}`);
+      machine = await fly(config, `/apps/${config.app}/machines`, { method: 'POST', body });
+    }
+
+    await waitForStarted(config, machine.id, machine.instance_id, context);
+    const url = `https://${config.app}.fly.dev`;
+    context.onLog(`✅ Fly machine ${machine.id} is running at ${url}`);
+
+    return {
+      target: 'fly',
+      resourceId: machine.id,
+      image,
+      url,
+      revision: machine.instance_id,
+      previousRevision: existing?.instance_id,
+      previousImage: existing?.config?.image,
+      deployedAt: new Date().toISOString()
+    };
+  },
+
+  async getStatus(deployment, config) {
+    const machine = await fly(config, `/apps/${config.app}/machines/${deployment.resourceId}`, { allowNotFound: true });
+    if (!machine) return { state: 'stopped', message: `Machine ${deployment.resourceId} does not exist` };
+    const states: Record<string, TargetStatus['state']> = {
+      created: 'deploying',
+      starting: 'deploying',
+      replacing: 'deploying',
+      updating: 'deploying',
+      started: 'running',
+      stopping: 'stopped',
+      stopped: 'stopped',
+      suspended: 'stopped',
+      failed: 'failed',
+      destroyed: 'stopped'
+    };
+    return {
+      state: states[machine.state] || 'unknown',
+      url: `https://${config.app}.fly.dev`,
+      revision: machine.instance_id,
+      message: `Machine ${machine.state}`
+    };
+  },
+
+  async rollback(deployment, config, context) {
+    if (!deployment.previousImage) {
+      throw new DeploymentTargetError('unsupported', `There is no earlier image to roll back to for ${config.app}`);
+    }
+    context.onLog(`⏪ Rolling Fly machine ${deployment.resourceId} back to ${deployment.previousImage}`);
+    const machine = await fly(config, `/apps/${config.app}/machines/${deployment.resourceId}`, {
+      method: 'POST',
+      body: { config: machineConfig(deployment.previousImage, config, context.deploymentId), region: config.region }
+    });
+    await waitForStarted(config, machine.id, machine.instance_id, context);
+    return {
+      ...deployment,
+      image: deployment.previousImage,
+      revision: machine.instance_id,
+      previousRevision: deployment.revision,
+      previousImage: deployment.image,
+      deployedAt: new Date().toISOString()
+    };
+  },
+
+  async teardown(deployment, config, context) {
+    context.onLog(`🧹 Deleting Fly.io app ${config.app}`);
+    await fly(config, `/apps/${config.app}`, { method: 'DELETE', allowNotFound: true });
+  }
+};
@@ -0,0 +1,246 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { DeploymentTargetError, TargetContext, TargetDeployment } from './types';
+
+export interface ApiRequest {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+  /** Resolve with null instead of throwing on 404 */
+  allowNotFound?: boolean;
+}
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Call a provider's JSON API. Non-2xx responses become DeploymentTargetError
+ * with the provider's own error message when it sends one.
+ */
+export async function requestJson<T = any>(url: string, request: ApiRequest = {}): Promise<T> {
+  const headers: Record<string, string> = { Accept: 'application/json', ...request.headers };
+  let body: string | undefined;
+  if (request.body !== undefined) {
+    body = typeof request.body === 'string' ? request.body : JSON.stringify(request.body);
+    headers['Content-Type'] ??= 'application/json';
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: request.method || 'GET',
+      headers,
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new DeploymentTargetError('api_error', `Request to ${new URL(url).host} failed: ${reason}`);
+  }
+
+  const text = await response.text();
+  let data: any = undefined;
+  try {
+    data = text ? JSON.parse(text) : undefined;
+  } catch {
+    data = text;
+  }
+
+  if (response.status === 404 && request.allowNotFound) return null as T;
+  if (!response.ok) {
+    const code = response.status === 401 || response.status === 403 ? 'auth_failed'
+      : response.status === 404 ? 'not_found'
+      : 'api_error';
+    throw new DeploymentTargetError(code, `${request.method || 'GET'} ${new URL(url).pathname} returned ${response.status}: ${errorMessage(data) || response.statusText}`, response.status);
+  }
+  return data as T;
+}
+
+function errorMessage(data: any): string | undefined {
+  if (!data) return undefined;
+  if (typeof data === 'string') return data.slice(0, 300);
+  if (typeof data.error === 'string') return data.error;
+  return data.error?.message || data.message || data.Message || data.error_description;
+}
+
+/**
+ * Poll until `check` returns a value, or give up after `timeoutMs`
+ */
+export async function waitFor<T>(
+  description: string,
+  check: () => Promise<T | undefined>,
+  context: Pick<TargetContext, 'pollIntervalMs'>,
+  timeoutMs: number
+): Promise<T> {
+  const interval = context.pollIntervalMs ?? 5000;
+  const deadline = Date.now() + timeoutMs;
+  while (true) {
+    const result = await check();
+    if (result !== undefined) return result;
+    if (Date.now() + interval > deadline) {
+      throw new DeploymentTargetError('timeout', `Timed out after ${Math.round(timeoutMs / 1000)}s waiting for ${description}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, interval));
+  }
+}
+
+/**
+ * Collects validation problems so a config reports all of them at once
+ */
+export class ConfigReader {
+  readonly errors: string[] = [];
+  private readonly input: Record<string, unknown>;
+
+  constructor(private readonly target: string, config: unknown) {
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      this.errors.push('deploymentConfig must be an object');
+      this.input = {};
+    } else {
+      this.input = config as Record<string, unknown>;
+    }
+  }
+
+  string(key: string, options: { required?: boolean; pattern?: RegExp; fallback?: string } = {}): string | undefined {
+    const value = this.input[key];
+    if (value === undefined || value === null || value === '') {
+      if (options.required) this.errors.push(`${key} is required`);
+      return options.fallback;
+    }
+    if (typeof value !== 'string') {
+      this.errors.push(`${key} must be a string`);
+      return undefined;
+    }
+    if (options.pattern && !options.pattern.test(value)) {
+      this.errors.push(`${key} "${value}" is not valid`);
+      return undefined;
+    }
+    return value;
+  }
+
+  number(key: string, options: { min?: number; max?: number; fallback?: number } = {}): number | undefined {
+    const value = this.input[key];
+    if (value === undefined || value === null) return options.fallback;
+    const n = typeof value === 'string' ? Number(value) : value;
+    if (typeof n !== 'number' || !Number.isFinite(n)) {
+      this.errors.push(`${key} must be a number`);
+      return undefined;
+    }
+    if ((options.min !== undefined && n < options.min) || (options.max !== undefined && n > options.max)) {
+      this.errors.push(`${key} must be between ${options.min ?? '-∞'} and ${options.max ?? '∞'}`);
+      return undefined;
+    }
+    return n;
+  }
+
+  boolean(key: string, fallback: boolean): boolean {
+    const value = this.input[key];
+    if (value === undefined || value === null) return fallback;
+    if (typeof value !== 'boolean') {
+      this.errors.push(`${key} must be a boolean`);
+      return fallback;
+    }
+    return value;
+  }
+
+  stringList(key: string, options: { required?: boolean } = {}): string[] {
+    const value = this.input[key];
+    const list = typeof value === 'string' ? value.split(',').map(v => v.trim()).filter(Boolean) : value;
+    if (list === undefined || list === null || (Array.isArray(list) && list.length === 0)) {
+      if (options.required) this.errors.push(`${key} needs at least one entry`);
+      return [];
+    }
+    if (!Array.isArray(list) || list.some(v => typeof v !== 'string')) {
+      this.errors.push(`${key} must be a list of strings`);
+      return [];
+    }
+    return list as string[];
+  }
+
+  /** Plain environment variables for the container (not secrets) */
+  env(key = 'env'): Record<string, string> {
+    const value = this.input[key];
+    if (value === undefined || value === null) return {};
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      this.errors.push(`${key} must be an object of string values`);
+      return {};
+    }
+    const env: Record<string, string> = {};
+    for (const [name, v] of Object.entries(value)) {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) this.errors.push(`${key} name "${name}" is not valid`);
+      else if (typeof v !== 'string' && typeof v !== 'number' && typeof v !== 'boolean') this.errors.push(`${key}.${name} must be a string`);
+      else env[name] = String(v);
+    }
+    return env;
+  }
+
+  /** Base URL override, so targets can be pointed at a stand-in or a sovereign cloud */
+  endpoint(key: string, fallback: string): string {
+    const value = this.string(key, { fallback });
+    if (!value) return fallback;
+    try {
+      const url = new URL(value);
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error();
+    } catch {
+      this.errors.push(`${key} must be an http(s) URL`);
+    }
+    return value.replace(/\/+$/, '');
+  }
+
+  /** The raw value, for fields with a shape of their own */
+  value(key: string): unknown {
+    return this.input[key];
+  }
+
+  fail(message: string): void {
+    this.errors.push(message);
+  }
+
+  done<C>(config: C): C {
+    if (this.errors.length > 0) {
+      throw new DeploymentTargetError('invalid_config', `Invalid ${this.target} config: ${this.errors.join('; ')}`);
+    }
+    return config;
+  }
+}
+
+const credentialScope = new AsyncLocalStorage<Record<string, string>>();
+
+/**
+ * Run target calls with credentials from the user's vault instead of the
+ * server environment. Inside the scope the server environment is not
+ * consulted at all, so one user's calls never fall back to another's keys.
+ */
+export function withTargetCredentials<T>(env: Record<string, string> | undefined, run: () => Promise<T>): Promise<T> {
+  return env ? credentialScope.run(env, run) : run();
+}
+
+/**
+ * A provider credential from the current credential scope or the environment
+ */
+export function targetEnv(name: string): string | undefined {
+  const scoped = credentialScope.getStore();
+  return scoped ? scoped[name] || undefined : process.env[name] || undefined;
+}
+
+/**
+ * Read a credential from the environment or explain which variable is missing
+ */
+export function requireEnv(target: string, ...names: string[]): string[] {
+  const missing = names.filter(name => !targetEnv(name));
+  if (missing.length > 0) {
+    throw new DeploymentTargetError('auth_failed', `${target} credentials are not configured (set ${missing.join(', ')})`);
+  }
+  return names.map(name => targetEnv(name) as string);
+}
+
+/**
+ * The deployment record after traffic moved back to the previous revision
+ */
+export function rolledBack(deployment: TargetDeployment): TargetDeployment {
+  return {
+    ...deployment,
+    image: deployment.previousImage || deployment.image,
+    revision: deployment.previousRevision,
+    previousRevision: deployment.revision,
+    previousImage: deployment.image,
+    deployedAt: new Date().toISOString()
+  };
+}
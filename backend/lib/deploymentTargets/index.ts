@@ -0,0 +1,90 @@
+import { parseImageReference, registryOf } from '../dockerEngine';
+import { cloudRunTarget } from './cloudRun';
+import { containerAppsTarget } from './containerApps';
+import { ecsTarget } from './ecs';
+import { flyTarget } from './fly';
+import { ConfigReader } from './http';
+import { localTarget } from './local';
+import { renderTarget } from './render';
+import { DeploymentTarget, DeploymentTargetError } from './types';
+
+export * from './types';
+
+/**
+ * The image stays in its registry; nothing is run. Honest about that: the
+ * status is `published`, and there is nothing to roll back or tear down.
+ */
+export const registryTarget: DeploymentTarget<Record<string, never>> = {
+  name: 'dockerhub',
+  displayName: 'Docker Hub (registry only)',
+  requiresPushedImage: true,
+
+  validateConfig(input) {
+    return new ConfigReader('Docker Hub', input ?? {}).done({});
+  },
+
+  async deploy(image, config, context) {
+    const { repository } = parseImageReference(image);
+    const url = registryOf(image) === 'docker.io' ? `https://hub.docker.com/r/${repository.replace(/^docker\.io\//, '')}` : undefined;
+    context.onLog(`📦 Image published${url ? `: ${url}` : ` to ${registryOf(image)}`} (registry only, no runtime)`);
+    return { target: 'dockerhub', resourceId: image, image, url, deployedAt: new Date().toISOString() };
+  },
+
+  async getStatus(deployment) {
+    return { state: 'published', url: deployment.url, message: 'Image is in the registry; it is not running anywhere' };
+  },
+
+  async rollback() {
+    throw new DeploymentTargetError('unsupported', 'Docker Hub only stores images; there is no running deployment to roll back');
+  },
+
+  async teardown() {
+    // Published images are left in the registry
+  }
+};
+
+const TARGETS: Record<string, DeploymentTarget<any>> = {
+  dockerhub: registryTarget,
+  aws: ecsTarget,
+  gcp: cloudRunTarget,
+  azure: containerAppsTarget,
+  fly: flyTarget,
+  render: renderTarget,
+  local: localTarget
+};
+
+/** Hosts that build from source and cannot run a container image */
+const STATIC_SITE_HOSTS: Record<string, string> = {
+  vercel: 'Vercel',
+  netlify: 'Netlify'
+};
+
+export type DeploymentTargetName = 'dockerhub' | 'aws' | 'gcp' | 'azure' | 'fly' | 'render' | 'local';
+
+export const DEPLOYMENT_TARGET_NAMES = Object.keys(TARGETS) as DeploymentTargetName[];
+
+/**
+ * Look up a target by name. Static-site hosts are rejected with an
+ * explanation rather than pretending an image was deployed there.
+ */
+export function getDeploymentTarget(name: string = 'dockerhub'): DeploymentTarget<any> {
+  const target = TARGETS[name];
+  if (target) return target;
+  if (STATIC_SITE_HOSTS[name]) {
+    const host = STATIC_SITE_HOSTS[name];
+    throw new DeploymentTargetError(
+      'unsupported',
+      `${host} cannot run container images. Connect the repository to ${host} directly for a static/serverless deploy, ` +
+      `or choose a container target (${DEPLOYMENT_TARGET_NAMES.join(', ')})`
+    );
+  }
+  throw new DeploymentTargetError('unsupported', `Unknown deployment target "${name}" (use ${DEPLOYMENT_TARGET_NAMES.join(', ')})`);
+}
+
+/**
+ * Resolve a target and validate its config in one step, for request handlers
+ */
+export function validateDeploymentTarget(name: string | undefined, config: unknown): { target: DeploymentTarget<any>; config: unknown } {
+  const target = getDeploymentTarget(name);
+  return { target, config: target.validateConfig(config ?? {}) };
+}
@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createHash } from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { ContainerCreateOptions, DockerEngineClient } from '../dockerEngine';
+import { createLocalTarget, LocalConfig } from './local';
+import { DeploymentTargetError, TargetContext } from './types';
+
+interface FakeContainer {
+  id: string;
+  options: ContainerCreateOptions;
+  state: 'running' | 'exited';
+  exitCode: number;
+}
+
+/**
+ * Just enough of the Engine API for the local target: every published port
+ * maps to one real HTTP server so readiness checks exercise fetch
+ */
+class FakeEngine {
+  containers: FakeContainer[] = [];
+  networks: string[] = [];
+  calls: string[] = [];
+  exposed: Record<string, string[]> = {};
+  crashImages = new Set<string>();
+  private nextId = 1;
+
+  constructor(private readonly appPort: () => number) {}
+
+  async ping() { return true; }
+
+  async inspectImage(image: string) {
+    const ports = this.exposed[image] ?? ['3000/tcp'];
+    return { Config: { ExposedPorts: Object.fromEntries(ports.map(p => [p, {}])), Env: [] } };
+  }
+
+  async listContainers(labels: string[]) {
+    return this.containers
+      .filter(c => labels.every(l => {
+        const [key, value] = l.split('=');
+        return c.options.labels?.[key] === value;
+      }))
+      .map(c => ({
+        Id: c.id,
+        Names: [`/${c.options.name}`],
+        Image: c.options.image,
+        State: c.state,
+        Status: c.state === 'running' ? 'Up 1 second' : `Exited (${c.exitCode}) 1 second ago`,
+        Labels: c.options.labels || {}
+      }));
+  }
+
+  async runContainer(options: ContainerCreateOptions) {
+    const id = `c${this.nextId++}`;
+    this.calls.push(`run ${options.name}`);
+    const crashed = this.crashImages.has(options.image);
+    this.containers.push({ id, options, state: crashed ? 'exited' : 'running', exitCode: crashed ? 1 : 0 });
+    return id;
+  }
+
+  async inspectContainer(id: string) {
+    const c = this.find(id);
+    const ports = Object.fromEntries((c.options.ports || []).map(p => [`${p.container}/tcp`, [{ HostIp: '0.0.0.0', HostPort: String(this.appPort()) }]]));
+    return {
+      Id: id,
+      Name: `/${c.options.name}`,
+      Config: { Image: c.options.image, Labels: c.options.labels },
+      State: { Status: c.state, Running: c.state === 'running', ExitCode: c.exitCode, StartedAt: '', FinishedAt: '' },
+      NetworkSettings: { Ports: ports }
+    };
+  }
+
+  async containerLogs(id: string, options: { onLog?: (line: string, stream: 'stdout' | 'stderr') => void } = {}) {
+    const text = this.find(id).state === 'exited' ? 'Error: Cannot find module server.js' : 'listening on 3000';
+    options.onLog?.(text, 'stdout');
+    return text;
+  }
+
+  async stopContainer(id: string) {
+    this.calls.push(`stop ${this.find(id).options.name}`);
+    this.find(id).state = 'exited';
+    this.find(id).exitCode = 143;
+  }
+
+  async startContainer(id: string) {
+    this.calls.push(`start ${this.find(id).options.name}`);
+    this.find(id).state = 'running';
+  }
+
+  async restartContainer(id: string) {
+    this.calls.push(`restart ${this.find(id).options.name}`);
+  }
+
+  async removeContainer(id: string) {
+    this.calls.push(`remove ${this.find(id).options.name}`);
+    this.containers = this.containers.filter(c => c.id !== id);
+  }
+
+  async ensureNetwork(name: string) {
+    if (!this.networks.includes(name)) this.networks.push(name);
+  }
+
+  async removeNetwork(name: string) {
+    this.networks = this.networks.filter(n => n !== name);
+  }
+
+  private find(id: string): FakeContainer {
+    const c = this.containers.find(c => c.id === id);
+    if (!c) throw new Error(`No such container ${id}`);
+    return c;
+  }
+}
+
+describe('local Docker target', () => {
+  let app: http.Server;
+  let appStatus = 200;
+  let engine: FakeEngine;
+  let target: ReturnType<typeof createLocalTarget>;
+  const logs: string[] = [];
+
+  const context = (deploymentId: string, extra: Partial<TargetContext> = {}): TargetContext => ({
+    deploymentId,
+    onLog: line => logs.push(line),
+    pollIntervalMs: 10,
+    ...extra
+  });
+  const config = (input: object = {}): LocalConfig => target.validateConfig({ timeoutSeconds: 5, ...input });
+
+  beforeAll(async () => {
+    app = http.createServer((req, res) => {
+      res.writeHead(req.url === '/health' ? appStatus : 200);
+      res.end('ok');
+    });
+    await new Promise<void>(resolve => app.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(() => new Promise<void>(resolve => app.close(() => resolve())));
+
+  beforeEach(() => {
+    appStatus = 200;
+    logs.length = 0;
+    engine = new FakeEngine(() => (app.address() as AddressInfo).port);
+    target = createLocalTarget(engine as unknown as DockerEngineClient);
+  });
+
+  it('runs the image on the EXPOSE port and replaces the old revision once ready', async () => {
+    const first = await target.deploy('acme/api:1', config(), context('dep-1'));
+    expect(first).toMatchObject({
+      target: 'local',
+      resourceId: 'autodeploy-acme-api',
+      url: `http://localhost:${(app.address() as AddressInfo).port}`,
+      revision: 'dep-1'
+    });
+    expect(engine.containers[0].options).toMatchObject({
+      ports: [{ container: 3000, host: undefined }],
+      env: { PORT: '3000' },
+      restartPolicy: 'unless-stopped',
+      labels: { 'autodeploy.project': 'autodeploy-acme-api', 'autodeploy.revision': 'dep-1', 'autodeploy.service': 'app' }
+    });
+
+    const second = await target.deploy('acme/api:2', config({ readinessPath: '/health' }), context('dep-2'));
+    expect(second).toMatchObject({ image: 'acme/api:2', previousRevision: 'dep-1', previousImage: 'acme/api:1' });
+    expect(engine.containers.map(c => c.options.image)).toEqual(['acme/api:2']);
+    expect(engine.calls.findIndex(c => c.startsWith('run') && c.endsWith(engine.containers[0].options.name!)))
+      .toBeLessThan(engine.calls.findIndex(c => c.startsWith('remove')));
+
+    expect(await target.getStatus(second, config())).toMatchObject({ state: 'running', revision: 'dep-2' });
+    await target.stop!(second, config(), context('dep-2'));
+    expect(await target.getStatus(second, config())).toMatchObject({ state: 'stopped' });
+  });
+
+  it('namespaces projects by owner and refuses containers another user owns', async () => {
+    const hash = (id: string) => createHash('sha256').update(id).digest('hex').slice(0, 8);
+    const alice = await target.deploy('acme/api:1', config(), context('dep-1', { ownerId: 'alice' }));
+    const bob = await target.deploy('acme/api:1', config(), context('dep-2', { ownerId: 'bob' }));
+    expect(alice.resourceId).toBe(`autodeploy-acme-api-${hash('alice')}`);
+    expect(bob.resourceId).toBe(`autodeploy-acme-api-${hash('bob')}`);
+    expect(engine.containers.map(c => c.options.labels!['autodeploy.owner'])).toEqual(['alice', 'bob']);
+
+    // An ownerless job may pick any name, including one a user's project maps to
+    await target.deploy('acme/shop:1', config({ project: `shop-${hash('bob')}` }), context('dep-3'));
+    const error = await target.deploy('acme/shop:2', config({ project: 'shop' }), context('dep-4', { ownerId: 'bob' })).catch(e => e);
+    expect(error).toMatchObject({ code: 'forbidden' });
+    expect(engine.containers.map(c => c.options.image)).toEqual(['acme/api:1', 'acme/api:1', 'acme/shop:1']);
+  });
+
+  it('fails with the exit code and log tail, and restarts the old revision on a fixed port', async () => {
+    await target.deploy('acme/api:1', config({ hostPort: 8080 }), context('dep-1'));
+    engine.crashImages.add('acme/api:broken');
+
+    const error = await target.deploy('acme/api:broken', config({ hostPort: 8080 }), context('dep-2')).catch(e => e);
+    expect(error).toBeInstanceOf(DeploymentTargetError);
+    expect(error.message).toMatch(/exited with code 1 before becoming ready\nError: Cannot find module server\.js/);
+    expect(engine.containers.map(c => [c.options.image, c.state])).toEqual([['acme/api:1', 'running']]);
+    expect(engine.calls.filter(c => !c.startsWith('run'))).toEqual([
+      expect.stringMatching(/^stop autodeploy-acme-api-app-/),
+      expect.stringMatching(/^remove autodeploy-acme-api-app-/),
+      expect.stringMatching(/^start autodeploy-acme-api-app-/)
+    ]);
+  });
+
+  it('times out when the readiness path keeps answering 5xx', async () => {
+    appStatus = 503;
+    const error = await target.deploy('acme/api:1', config({ readinessPath: '/health', timeoutSeconds: 5 }), context('dep-1', { pollIntervalMs: 1000 }))
+      .catch(e => e);
+    expect(error).toMatchObject({ code: 'timeout' });
+    expect(engine.containers).toEqual([]);
+  }, 10000);
+
+  it('starts dependencies first on a shared network with <DEP>_URL variables', async () => {
+    engine.exposed['acme/api-web:1'] = [];
+    const deployment = await target.deploy('acme/api-web:1', config(), context('dep-1', {
+      services: [
+        { name: 'web', image: 'acme/api-web:1', port: 8080, dependsOn: ['api'] },
+        { name: 'api', image: 'acme/api-api:1', port: 4000 }
+      ]
+    }));
+
+    expect(engine.containers.map(c => c.options.labels!['autodeploy.service'])).toEqual(['api', 'web']);
+    expect(engine.networks).toEqual(['autodeploy-acme-api-web']);
+    expect(engine.containers[1].options).toMatchObject({
+      env: { PORT: '8080', API_URL: 'http://api:3000' },
+      network: 'autodeploy-acme-api-web',
+      networkAliases: ['web']
+    });
+    expect(deployment.details?.services).toHaveLength(2);
+
+    await target.teardown(deployment, config(), context('dep-1'));
+    expect(engine.containers).toEqual([]);
+    expect(engine.networks).toEqual([]);
+  });
+
+  it('rolls back to the images of the previous revision', async () => {
+    await target.deploy('acme/api:1', config(), context('dep-1'));
+    const current = await target.deploy('acme/api:2', config(), context('dep-2'));
+    const rolledBack = await target.rollback(current, config(), context('dep-2'));
+    expect(rolledBack).toMatchObject({ image: 'acme/api:1', previousImage: 'acme/api:2', previousRevision: 'dep-2' });
+    expect(engine.containers.map(c => c.options.image)).toEqual(['acme/api:1']);
+  });
+
+  it('streams logs of the primary service', async () => {
+    const deployment = await target.deploy('acme/api:1', config(), context('dep-1'));
+    const lines: string[] = [];
+    await target.logs!(deployment, config(), { onLog: line => lines.push(line) });
+    expect(lines).toEqual(['listening on 3000']);
+  });
+
+  it('only accepts named volumes', () => {
+    expect(config({ volumes: ['data:/var/lib/data:ro'] }).volumes).toEqual([{ name: 'data', target: '/var/lib/data', readOnly: true }]);
+    expect(() => config({ volumes: ['/etc:/host-etc'] })).toThrow(/named volume, not a host path/);
+    expect(() => config({ hostPort: 80 })).toThrow(/hostPort must be between 1024 and 65535/);
+  });
+});
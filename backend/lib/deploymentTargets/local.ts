@@ -0,0 +1,407 @@
+import { createHash } from 'crypto';
+import { ContainerSummary, DockerEngineClient, dockerEngine, DockerEngineError, parseImageReference, resolveDockerHost } from '../dockerEngine';
+import { ConfigReader, waitFor } from './http';
+import { DeploymentTarget, DeploymentTargetError, TargetContext, TargetDeployment, TargetService, TargetStatus } from './types';
+
+export interface LocalVolume {
+  name: string;
+  target: string;
+  readOnly: boolean;
+}
+
+export interface LocalConfig {
+  /**
+   * Docker name prefix for containers, network and volumes; derived from the
+   * image when omitted. Either way it is suffixed with the owner's hash.
+   */
+  project?: string;
+  containerPort?: number;
+  /** Fixed host port; when omitted Docker picks a free one */
+  hostPort?: number;
+  env: Record<string, string>;
+  volumes: LocalVolume[];
+  readinessPath: string;
+  timeoutSeconds: number;
+  memoryMb?: number;
+  cpus?: number;
+}
+
+// Leaves room for the owner suffix within Docker's 63 characters
+const PROJECT = /^[a-z0-9][a-z0-9_.-]{0,53}$/;
+const VOLUME = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/;
+const PROJECT_LABEL = 'autodeploy.project';
+const REVISION_LABEL = 'autodeploy.revision';
+const SERVICE_LABEL = 'autodeploy.service';
+const OWNER_LABEL = 'autodeploy.owner';
+
+function shortHash(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 8);
+}
+
+/**
+ * Users share one Docker host, so the name is suffixed with a hash of the
+ * owner; two users deploying the same repository get separate projects.
+ * Ownerless (webhook and admin) jobs keep the bare name.
+ */
+function projectName(image: string, config: LocalConfig, ownerId?: string): string {
+  const name = parseImageReference(image).repository.split('/').slice(-2).join('-');
+  const base = config.project || `autodeploy-${name.toLowerCase().replace(/[^a-z0-9_.-]+/g, '-')}`.slice(0, 54);
+  return ownerId ? `${base}-${shortHash(ownerId)}` : base;
+}
+
+/** Where published ports are reachable from this server, and from the user's browser */
+function hosts(): { check: string; public: string } {
+  const daemon = resolveDockerHost().hostname;
+  return { check: daemon || '127.0.0.1', public: process.env.LOCAL_DEPLOY_HOST || daemon || 'localhost' };
+}
+
+/** Dependencies start first, so `<DEP>_URL` points at something already running */
+function startOrder(services: TargetService[]): TargetService[] {
+  const byName = new Map(services.map(s => [s.name, s]));
+  const ordered: TargetService[] = [];
+  const visit = (service: TargetService, path: string[]) => {
+    if (ordered.includes(service)) return;
+    if (path.includes(service.name)) {
+      throw new DeploymentTargetError('invalid_config', `Services depend on each other in a cycle: ${[...path, service.name].join(' → ')}`);
+    }
+    for (const dep of service.dependsOn || []) {
+      const next = byName.get(dep);
+      if (next) visit(next, [...path, service.name]);
+    }
+    ordered.push(service);
+  };
+  services.forEach(s => visit(s, []));
+  return ordered;
+}
+
+/**
+ * Port the service listens on: explicit config, then the image's EXPOSE,
+ * then a PORT variable baked into the image, then what analysis detected
+ */
+async function containerPort(engine: DockerEngineClient, service: TargetService, config: LocalConfig, primary: boolean): Promise<number | undefined> {
+  if (primary && config.containerPort) return config.containerPort;
+  const image = await engine.inspectImage(service.image);
+  if (!image) throw new DeploymentTargetError('not_found', `Image ${service.image} is not on the local Docker host`);
+  const exposed = Object.keys(image.Config.ExposedPorts || {}).find(p => p.endsWith('/tcp'));
+  if (exposed) return parseInt(exposed, 10);
+  const portEnv = (image.Config.Env || []).find(e => e.startsWith('PORT='));
+  if (portEnv && /^\d+$/.test(portEnv.slice(5))) return parseInt(portEnv.slice(5), 10);
+  return service.port;
+}
+
+function labelsOf(summary: ContainerSummary) {
+  return {
+    revision: summary.Labels[REVISION_LABEL],
+    service: summary.Labels[SERVICE_LABEL]
+  };
+}
+
+/** Exit code from a `docker ps` status such as "Exited (137) 2 minutes ago" */
+function exitCode(summary: ContainerSummary): number | undefined {
+  const match = summary.Status.match(/^Exited \((-?\d+)\)/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+interface Rollout {
+  project: string;
+  revision: string;
+  ownerId?: string;
+  services: TargetService[];
+}
+
+/**
+ * Run images on the Docker host this server builds on. A new revision is
+ * started next to the old one and only replaces it once it answers HTTP;
+ * with a fixed host port the old revision has to stop first, and is
+ * started again if the new one never becomes ready.
+ */
+export function createLocalTarget(engine: DockerEngineClient = dockerEngine): DeploymentTarget<LocalConfig> {
+  async function projectContainers(project: string, revision?: string): Promise<ContainerSummary[]> {
+    const labels = [`${PROJECT_LABEL}=${project}`];
+    if (revision) labels.push(`${REVISION_LABEL}=${revision}`);
+    return engine.listContainers(labels);
+  }
+
+  async function publishedPort(id: string, port: number): Promise<number> {
+    const info = await engine.inspectContainer(id);
+    const binding = info.NetworkSettings.Ports[`${port}/tcp`]?.[0];
+    if (!binding) throw new DeploymentTargetError('api_error', `Port ${port} of container ${info.Name} was not published`);
+    return parseInt(binding.HostPort, 10);
+  }
+
+  async function tail(id: string): Promise<string> {
+    const output = await engine.containerLogs(id, { tail: 20 }).catch(() => '');
+    return output.trim() ? `\n${output.trim()}` : '';
+  }
+
+  /**
+   * Ready once the container is running and answers HTTP on its published
+   * port. The primary service must answer below 500 on the readiness path;
+   * others only need to answer at all. An exit ends the wait early.
+   */
+  async function waitReady(id: string, name: string, hostPort: number | undefined, path: string | undefined, config: LocalConfig, context: TargetContext): Promise<void> {
+    const host = hosts().check;
+    await waitFor(`${name} to become ready`, async () => {
+      const info = await engine.inspectContainer(id);
+      if (!info.State.Running) {
+        throw new DeploymentTargetError('api_error', `${name} exited with code ${info.State.ExitCode} before becoming ready${await tail(id)}`);
+      }
+      if (info.State.Health?.Status === 'unhealthy') {
+        throw new DeploymentTargetError('api_error', `${name} failed its HEALTHCHECK${await tail(id)}`);
+      }
+      if (info.State.Health?.Status === 'starting') return undefined;
+      if (!hostPort) return true;
+      try {
+        const response = await fetch(`http://${host}:${hostPort}${path || '/'}`, { signal: AbortSignal.timeout(2000), redirect: 'manual' });
+        await response.body?.cancel();
+        return !path || response.status < 500 ? true : undefined;
+      } catch {
+        return undefined;
+      }
+    }, { pollIntervalMs: context.pollIntervalMs ?? 1000 }, config.timeoutSeconds * 1000);
+  }
+
+  async function rollout(plan: Rollout, config: LocalConfig, context: TargetContext): Promise<TargetDeployment> {
+    const { project, revision } = plan;
+    const existing = await projectContainers(project);
+    if (existing.some(c => (c.Labels[OWNER_LABEL] || undefined) !== plan.ownerId)) {
+      throw new DeploymentTargetError('forbidden', `Project ${project} already has containers that belong to another user`);
+    }
+
+    // A retried job reuses its revision; clear what the failed attempt left
+    for (const container of existing.filter(c => labelsOf(c).revision === revision)) {
+      await engine.removeContainer(container.Id);
+    }
+    const previous = existing.filter(c => labelsOf(c).revision !== revision);
+    const previousRevision = previous.find(c => c.State === 'running')?.Labels[REVISION_LABEL] ?? previous[0]?.Labels[REVISION_LABEL];
+    const previousImages = Object.fromEntries(previous.map(c => [labelsOf(c).service, c.Image]));
+
+    const network = plan.services.length > 1 ? project : undefined;
+    const ownerLabels: Record<string, string> = plan.ownerId ? { [OWNER_LABEL]: plan.ownerId } : {};
+    if (network) await engine.ensureNetwork(network, { [PROJECT_LABEL]: project, ...ownerLabels });
+
+    const stopped: string[] = [];
+    if (config.hostPort) {
+      for (const container of previous.filter(c => c.State === 'running')) {
+        context.onLog(`⏸️ Stopping ${container.Names[0]?.replace(/^\//, '')} to free port ${config.hostPort}`);
+        await engine.stopContainer(container.Id);
+        stopped.push(container.Id);
+      }
+    }
+
+    const primary = plan.services[0];
+    const started: string[] = [];
+    const deployed: Array<TargetService & { url?: string; checkUrl?: string }> = [];
+    try {
+      for (const service of startOrder(plan.services)) {
+        const isPrimary = service === primary;
+        const port = await containerPort(engine, service, config, isPrimary);
+        const dependencyEnv: Record<string, string> = {};
+        for (const dep of service.dependsOn || []) {
+          const target = deployed.find(d => d.name === dep);
+          if (target?.port) dependencyEnv[`${dep.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_URL`] = `http://${dep}:${target.port}`;
+        }
+
+        const name = `${project}-${service.name}-${shortHash(revision)}`;
+        context.onLog(`▶️ Starting ${name} from ${service.image}${port ? ` (port ${port})` : ' (no port to publish)'}`);
+        const id = await engine.runContainer({
+          image: service.image,
+          name,
+          env: { ...(port ? { PORT: String(port) } : {}), ...dependencyEnv, ...config.env },
+          ports: port ? [{ container: port, host: isPrimary ? config.hostPort : undefined }] : [],
+          volumes: config.volumes.map(v => ({ source: `${project}_${v.name}`, target: v.target, readOnly: v.readOnly })),
+          labels: { [PROJECT_LABEL]: project, [REVISION_LABEL]: revision, [SERVICE_LABEL]: service.name, ...ownerLabels },
+          memoryBytes: config.memoryMb ? config.memoryMb * 1024 * 1024 : undefined,
+          nanoCpus: config.cpus ? Math.round(config.cpus * 1e9) : undefined,
+          restartPolicy: 'unless-stopped',
+          network,
+          networkAliases: network ? [service.name] : undefined
+        });
+        started.push(id);
+
+        const hostPort = port ? await publishedPort(id, port) : undefined;
+        context.onLog(`⏳ Waiting for ${name} to become ready${hostPort ? ` on port ${hostPort}` : ''}...`);
+        await waitReady(id, name, hostPort, isPrimary ? config.readinessPath : undefined, config, context);
+        deployed.push({
+          ...service,
+          port,
+          url: hostPort ? `http://${hosts().public}:${hostPort}` : undefined,
+          checkUrl: hostPort ? `http://${hosts().check}:${hostPort}` : undefined
+        });
+      }
+    } catch (error) {
+      context.onLog(`🧹 Removing the new containers after a failed start`);
+      for (const id of started) await engine.removeContainer(id).catch(() => undefined);
+      for (const id of stopped) {
+        context.onLog(`↩️ Restarting the previous revision`);
+        await engine.startContainer(id).catch(() => undefined);
+      }
+      throw error;
+    }
+
+    for (const container of previous) await engine.removeContainer(container.Id);
+
+    const url = deployed.find(d => d.name === primary.name)?.url;
+    context.onLog(`✅ ${project} is running${url ? ` at ${url}` : ''}`);
+    return {
+      target: 'local',
+      resourceId: project,
+      image: primary.image,
+      url,
+      revision,
+      previousRevision,
+      previousImage: previousImages[primary.name],
+      deployedAt: new Date().toISOString(),
+      details: {
+        services: deployed.map(({ name, image, port, dependsOn, url }) => ({ name, image, port, dependsOn, url })),
+        previousImages,
+        // The public URL may use LOCAL_DEPLOY_HOST, which this server cannot always reach
+        checkUrl: deployed.find(d => d.name === primary.name)?.checkUrl
+      }
+    };
+  }
+
+  function deployedServices(deployment: TargetDeployment): TargetService[] {
+    const services = deployment.details?.services;
+    return Array.isArray(services) && services.length > 0 ? services as TargetService[] : [{ name: 'app', image: deployment.image }];
+  }
+
+  async function revisionContainers(deployment: TargetDeployment): Promise<ContainerSummary[]> {
+    const containers = await projectContainers(deployment.resourceId, deployment.revision);
+    if (containers.length === 0) {
+      throw new DeploymentTargetError('not_found', `No containers of ${deployment.resourceId} revision ${deployment.revision} exist`);
+    }
+    return containers;
+  }
+
+  return {
+    name: 'local',
+    displayName: 'Local Docker',
+    requiresPushedImage: false,
+
+    validateConfig(input) {
+      const c = new ConfigReader('Local Docker', input ?? {});
+      const volumes: LocalVolume[] = [];
+      const rawVolumes = c.value('volumes');
+      if (rawVolumes !== undefined && rawVolumes !== null) {
+        if (!Array.isArray(rawVolumes)) {
+          c.fail('volumes must be a list of "name:/path[:ro]" entries');
+        } else {
+          for (const entry of rawVolumes) {
+            const [name, target, mode, ...rest] = typeof entry === 'string' ? entry.split(':') : [];
+            if (!name || !VOLUME.test(name) || !target?.startsWith('/') || (mode && mode !== 'ro' && mode !== 'rw') || rest.length) {
+              c.fail(`volume "${String(entry)}" must be "name:/path[:ro]" with a named volume, not a host path`);
+            } else {
+              volumes.push({ name, target, readOnly: mode === 'ro' });
+            }
+          }
+        }
+      }
+
+      return c.done<LocalConfig>({
+        project: c.string('project', { pattern: PROJECT }),
+        containerPort: c.number('containerPort', { min: 1, max: 65535 }),
+        hostPort: c.number('hostPort', { min: 1024, max: 65535 }),
+        env: c.env(),
+        volumes,
+        readinessPath: c.string('readinessPath', { pattern: /^\/\S*$/, fallback: '/' })!,
+        timeoutSeconds: c.number('timeoutSeconds', { min: 5, max: 600, fallback: 60 })!,
+        memoryMb: c.number('memoryMb', { min: 16, max: 65536 }),
+        cpus: c.number('cpus', { min: 0.1, max: 64 })
+      });
+    },
+
+    async deploy(image, config, context) {
+      if (!(await engine.ping())) {
+        throw new DeploymentTargetError('api_error', 'The local Docker daemon is not reachable');
+      }
+      const services = context.services?.length ? context.services : [{ name: 'app', image }];
+      return rollout({
+        project: projectName(image, config, context.ownerId),
+        revision: context.deploymentId,
+        ownerId: context.ownerId,
+        services
+      }, config, context);
+    },
+
+    async getStatus(deployment) {
+      const containers = await projectContainers(deployment.resourceId, deployment.revision);
+      if (containers.length === 0) return { state: 'stopped', message: `No containers of ${deployment.resourceId} exist` };
+
+      const crashed = containers.filter(c => c.State === 'exited' || c.State === 'dead')
+        .filter(c => ![0, 137, 143].includes(exitCode(c) ?? 1));
+      const summary = containers.map(c => `${labelsOf(c).service}: ${c.Status}`).join(', ');
+      let state: TargetStatus['state'];
+      if (crashed.length > 0) state = 'failed';
+      else if (containers.every(c => c.State === 'running')) state = 'running';
+      else if (containers.some(c => c.State === 'created' || c.State === 'restarting')) state = 'deploying';
+      else state = 'stopped';
+      return { state, url: deployment.url, revision: deployment.revision, message: summary };
+    },
+
+    async rollback(deployment, config, context) {
+      const previousImages = (deployment.details?.previousImages || {}) as Record<string, string>;
+      if (!deployment.previousImage || Object.keys(previousImages).length === 0) {
+        throw new DeploymentTargetError('unsupported', `There is no earlier image to roll back to for ${deployment.resourceId}`);
+      }
+      context.onLog(`⏪ Rolling ${deployment.resourceId} back to ${deployment.previousImage}`);
+      const services = deployedServices(deployment).map(s => ({ ...s, image: previousImages[s.name] || s.image }));
+      return rollout({
+        project: deployment.resourceId,
+        revision: `${context.deploymentId}-rb${Date.now().toString(36)}`,
+        ownerId: context.ownerId,
+        services
+      }, config, context);
+    },
+
+    async teardown(deployment, config, context) {
+      context.onLog(`🧹 Removing containers of ${deployment.resourceId} (named volumes are kept)`);
+      for (const container of await projectContainers(deployment.resourceId)) {
+        await engine.removeContainer(container.Id);
+      }
+      await engine.removeNetwork(deployment.resourceId);
+    },
+
+    async stop(deployment, config, context) {
+      for (const container of await revisionContainers(deployment)) {
+        context.onLog(`⏹️ Stopping ${labelsOf(container).service}`);
+        await engine.stopContainer(container.Id);
+      }
+    },
+
+    async restart(deployment, config, context) {
+      const containers = await revisionContainers(deployment);
+      const services = deployedServices(deployment);
+      for (const service of startOrder(services)) {
+        const container = containers.find(c => labelsOf(c).service === service.name);
+        if (!container) continue;
+        context.onLog(`🔄 Restarting ${service.name}`);
+        await engine.restartContainer(container.Id);
+        const hostPort = service.port ? await publishedPort(container.Id, service.port) : undefined;
+        await waitReady(container.Id, service.name, hostPort, service === services[0] ? config.readinessPath : undefined, config, context);
+      }
+    },
+
+    async logs(deployment, config, options) {
+      const containers = await revisionContainers(deployment);
+      const service = options.service || deployedServices(deployment)[0].name;
+      const container = containers.find(c => labelsOf(c).service === service);
+      if (!container) throw new DeploymentTargetError('not_found', `Service ${service} is not part of ${deployment.resourceId}`);
+      try {
+        await engine.containerLogs(container.Id, {
+          tail: options.tail ?? 200,
+          follow: options.follow,
+          onLog: options.onLog,
+          signal: options.signal
+        });
+      } catch (error) {
+        if (error instanceof DockerEngineError && error.statusCode === 404) {
+          throw new DeploymentTargetError('not_found', `Container for ${service} no longer exists`);
+        }
+        throw error;
+      }
+    }
+  };
+}
+
+export const localTarget = createLocalTarget();
@@ -0,0 +1,161 @@
+import { ConfigReader, requestJson, requireEnv, waitFor } from './http';
+import { DeploymentTarget, DeploymentTargetError, TargetContext } from './types';
+
+export interface RenderConfig {
+  service: string;
+  ownerId: string;
+  plan: string;
+  region: string;
+  port: number;
+  healthCheckPath?: string;
+  registryCredentialId?: string;
+  env: Record<string, string>;
+  timeoutSeconds: number;
+  endpoint: string;
+}
+
+const SERVICE = /^[A-Za-z0-9][A-Za-z0-9 _.-]{0,99}$/;
+const ID = /^[a-z]{2,4}-[a-z0-9]+$/;
+const FAILED = ['build_failed', 'update_failed', 'pre_deploy_failed', 'canceled', 'deactivated'];
+
+async function render<T = any>(config: RenderConfig, path: string, request: { method?: string; body?: unknown; allowNotFound?: boolean } = {}): Promise<T> {
+  const [apiKey] = requireEnv('Render', 'RENDER_API_KEY');
+  return requestJson<T>(`${config.endpoint}/v1${path}`, { ...request, headers: { Authorization: `Bearer ${apiKey}` } });
+}
+
+async function findService(config: RenderConfig): Promise<any | undefined> {
+  const query = new URLSearchParams({ name: config.service, ownerId: config.ownerId, limit: '1' });
+  const results: Array<{ service: any }> = await render(config, `/services?${query}`);
+  return results.find(r => r.service?.name === config.service)?.service;
+}
+
+async function liveDeployId(config: RenderConfig, serviceId: string): Promise<string | undefined> {
+  const deploys: Array<{ deploy: any }> = await render(config, `/services/${serviceId}/deploys?limit=20`);
+  return deploys.find(d => d.deploy?.status === 'live')?.deploy.id;
+}
+
+async function waitForLive(config: RenderConfig, serviceId: string, deployId: string, context: TargetContext): Promise<void> {
+  context.onLog(`⏳ Waiting for Render deploy ${deployId} to go live...`);
+  await waitFor(`Render deploy ${deployId} to go live`, async () => {
+    const deploy = await render(config, `/services/${serviceId}/deploys/${deployId}`);
+    if (deploy.status === 'live') return true;
+    if (FAILED.includes(deploy.status)) {
+      throw new DeploymentTargetError('api_error', `Render deploy ${deployId} ended with status ${deploy.status}`);
+    }
+    return undefined;
+  }, context, config.timeoutSeconds * 1000);
+}
+
+/**
+ * Render image-backed web services. Every deploy is addressable by id, so
+ * rollback asks Render to redeploy the deploy that was live before.
+ */
+export const renderTarget: DeploymentTarget<RenderConfig> = {
+  name: 'render',
+  displayName: 'Render',
+  requiresPushedImage: true,
+  credentialEnv: ['RENDER_API_KEY'],
+
+  validateConfig(input) {
+    const c = new ConfigReader('Render', input);
+    return c.done<RenderConfig>({
+      service: c.string('service', { required: true, pattern: SERVICE }) || '',
+      ownerId: c.string('ownerId', { required: true, pattern: ID }) || '',
+      plan: c.string('plan', { pattern: /^[a-z_]+$/, fallback: 'starter' })!,
+      region: c.string('region', { pattern: /^[a-z]+$/, fallback: 'oregon' })!,
+      port: c.number('port', { min: 1, max: 65535, fallback: 8080 })!,
+      healthCheckPath: c.string('healthCheckPath', { pattern: /^\/\S*$/ }),
+      registryCredentialId: c.string('registryCredentialId', { pattern: ID }),
+      env: c.env(),
+      timeoutSeconds: c.number('timeoutSeconds', { min: 30, max: 3600, fallback: 900 })!,
+      endpoint: c.endpoint('endpoint', 'https://api.render.com')
+    });
+  },
+
+  async deploy(image, config, context) {
+    let service = await findService(config);
+    let previousRevision: string | undefined;
+    let deployId: string;
+
+    if (service) {
+      previousRevision = await liveDeployId(config, service.id);
+      context.onLog(`🔁 Deploying ${image} to Render service ${config.service} (live deploy ${previousRevision || 'none'})`);
+      const deploy = await render(config, `/services/${service.id}/deploys`, { method: 'POST', body: { imageUrl: image } });
+      deployId = deploy.id;
+    } else {
+      context.onLog(`🆕 Creating Render web service ${config.service} in ${config.region}`);
+      const created = await render(config, '/services', {
+        method: 'POST',
+        body: {
+          type: 'web_service',
+          name: config.service,
+          ownerId: config.ownerId,
+          image: { ownerId: config.ownerId, imagePath: image, registryCredentialId: config.registryCredentialId },
+          serviceDetails: {
+            runtime: 'image',
+            plan: config.plan,
+            region: config.region,
+            healthCheckPath: config.healthCheckPath
+          },
+          envVars: Object.entries({ PORT: String(config.port), ...config.env }).map(([key, value]) => ({ key, value }))
+        }
+      });
+      service = created.service;
+      deployId = created.deployId;
+    }
+
+    if (!deployId) throw new DeploymentTargetError('api_error', 'Render did not start a deploy');
+    await waitForLive(config, service.id, deployId, context);
+    const url = service.serviceDetails?.url;
+    context.onLog(`✅ Render deploy ${deployId} is live${url ? ` at ${url}` : ''}`);
+
+    return {
+      target: 'render',
+      resourceId: service.id,
+      image,
+      url,
+      revision: deployId,
+      previousRevision,
+      deployedAt: new Date().toISOString()
+    };
+  },
+
+  async getStatus(deployment, config) {
+    const service = await render(config, `/services/${deployment.resourceId}`, { allowNotFound: true });
+    if (!service) return { state: 'stopped', message: `Service ${deployment.resourceId} does not exist` };
+    const url = service.serviceDetails?.url;
+    if (service.suspended === 'suspended') return { state: 'stopped', url, message: 'Service is suspended' };
+
+    const deploys: Array<{ deploy: any }> = await render(config, `/services/${service.id}/deploys?limit=1`);
+    const latest = deploys[0]?.deploy;
+    if (!latest) return { state: 'unknown', url };
+    if (latest.status === 'live') return { state: 'running', url, revision: latest.id };
+    if (FAILED.includes(latest.status)) return { state: 'failed', url, revision: latest.id, message: `Deploy ${latest.status}` };
+    return { state: 'deploying', url, revision: latest.id, message: `Deploy ${latest.status}` };
+  },
+
+  async rollback(deployment, config, context) {
+    if (!deployment.previousRevision) {
+      throw new DeploymentTargetError('unsupported', `There is no earlier deploy to roll back to for ${config.service}`);
+    }
+    context.onLog(`⏪ Rolling Render service ${config.service} back to deploy ${deployment.previousRevision}`);
+    const deploy = await render(config, `/services/${deployment.resourceId}/rollback`, {
+      method: 'POST',
+      body: { deployId: deployment.previousRevision }
+    });
+    await waitForLive(config, deployment.resourceId, deploy.id, context);
+    return {
+      ...deployment,
+      image: deployment.previousImage || deployment.image,
+      revision: deploy.id,
+      previousRevision: deployment.revision,
+      previousImage: deployment.image,
+      deployedAt: new Date().toISOString()
+    };
+  },
+
+  async teardown(deployment, config, context) {
+    context.onLog(`🧹 Deleting Render service ${config.service}`);
+    await render(config, `/services/${deployment.resourceId}`, { method: 'DELETE', allowNotFound: true });
+  }
+};
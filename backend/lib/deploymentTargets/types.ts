@@ -0,0 +1,84 @@
+import type { TargetDeployment } from '../../../shared/types';
+import type { RegistryAuth } from '../dockerEngine';
+
+export type { TargetDeployment };
+
+export type DeploymentTargetErrorCode =
+  | 'invalid_config'
+  | 'unsupported'
+  | 'auth_failed'
+  | 'api_error'
+  | 'timeout'
+  | 'not_found'
+  | 'forbidden';
+
+export class DeploymentTargetError extends Error {
+  constructor(readonly code: DeploymentTargetErrorCode, message: string, readonly statusCode?: number) {
+    super(message);
+    this.name = 'DeploymentTargetError';
+  }
+}
+
+export type TargetState = 'deploying' | 'running' | 'failed' | 'stopped' | 'published' | 'unknown';
+
+export interface TargetStatus {
+  state: TargetState;
+  url?: string;
+  revision?: string;
+  message?: string;
+}
+
+/** One image of a multi-service build, with what is known about how it runs */
+export interface TargetService {
+  name: string;
+  image: string;
+  port?: number;
+  dependsOn?: string[];
+}
+
+export interface TargetContext {
+  deploymentId: string;
+  /** User the deployment belongs to; absent for webhook and admin jobs */
+  ownerId?: string;
+  onLog: (line: string) => void;
+  /** Every image of a multi-service build, primary first; absent for single images */
+  services?: TargetService[];
+  /** Credentials for pulling the image from a private registry */
+  registryAuth?: RegistryAuth;
+  /** How often to poll the provider while a rollout settles */
+  pollIntervalMs?: number;
+}
+
+/**
+ * A place that runs container images. Provider credentials come from the
+ * server environment or a user's stored credential (see withTargetCredentials);
+ * `config` holds only non-secret settings so it can be stored with the
+ * deployment and reused for status, rollback and teardown.
+ */
+export interface DeploymentTarget<C = unknown> {
+  name: string;
+  displayName: string;
+  /** Whether the image must be in a registry the provider can pull from */
+  requiresPushedImage: boolean;
+  /** Environment variables holding the provider credentials; a stored cloud credential may supply them instead */
+  credentialEnv?: string[];
+  /** Throws DeploymentTargetError('invalid_config') listing every problem */
+  validateConfig(config: unknown): C;
+  deploy(image: string, config: C, context: TargetContext): Promise<TargetDeployment>;
+  getStatus(deployment: TargetDeployment, config: C): Promise<TargetStatus>;
+  /** Route traffic back to `deployment.previousRevision`; returns the new current deployment */
+  rollback(deployment: TargetDeployment, config: C, context: TargetContext): Promise<TargetDeployment>;
+  teardown(deployment: TargetDeployment, config: C, context: TargetContext): Promise<void>;
+  /** Lifecycle controls, for targets that run containers this server manages */
+  stop?(deployment: TargetDeployment, config: C, context: TargetContext): Promise<void>;
+  restart?(deployment: TargetDeployment, config: C, context: TargetContext): Promise<void>;
+  logs?(deployment: TargetDeployment, config: C, options: TargetLogOptions): Promise<void>;
+}
+
+export interface TargetLogOptions {
+  service?: string;
+  tail?: number;
+  follow?: boolean;
+  onLog: (line: string, stream: 'stdout' | 'stderr') => void;
+  signal?: AbortSignal;
+}
@@ -3,11 +3,52 @@ import path from 'path';
 import fs from 'fs';
 import os from 'os';
 import type { GitHubFile } from './aiService';
+import { classifyBuildError, BuildError } from '../../shared/buildErrors';
+import { dockerEngine, BuildStep, EngineBuildResult, EnginePushResult, RegistryAuth, parseImageReference, registryOf } from './dockerEngine';
+import { BuildKitOptions, BuildSecret, requiresBuildx, registryCacheRefs, resolveCacheSpec } from './buildOptions';
+import { scanFilesForSecrets, writeSecretDockerignore, SecretScanResult } from './secretScanner';
+import { dockerignoreForDockerfile } from './dockerfileTemplates';
+import { secretRedactor } from './credentials';
+import { defaultDestination, explainPushError, imageReference, isTransientPushError, normalizeRegistryAuth, registryDisplayName, RegistryDestination } from './registries';
 
 export type LogSink = (chunk: string) => void;
 
-export interface DockerBuildOptions {
+export interface DockerBuildOptions extends BuildKitOptions {
   onLog?: LogSink;
+  dockerfile?: string; // Dockerfile path when it is not <context>/Dockerfile
+  secrets?: BuildSecret[];
+  push?: boolean; // Push from buildx as part of the build; required for multi-platform images
+}
+
+export interface DockerBuildOutcome extends EngineBuildResult {
+  builder: 'engine' | 'buildx';
+  pushed: boolean;
+  digest?: string; // Manifest digest of an image pushed by buildx
+}
+
+export interface DockerPushOptions {
+  onLog?: LogSink;
+  auth?: RegistryAuth; // Defaults to the ~/.docker/config.json entry for the registry
+  destination?: RegistryDestination; // Registry profile for auth defaults and error hints; detected from the image otherwise
+  retries?: number; // Extra attempts after transient failures (default 3)
+  retryDelayMs?: number; // First backoff delay, doubled after each attempt (default 2000)
+}
+
+export interface DockerPushResult extends EnginePushResult {
+  attempts: number;
+}
+
+const PUSH_RETRIES = 3;
+const PUSH_RETRY_DELAY_MS = 2000;
+
+/**
+ * Rejection of build_docker_image, carrying the classified cause
+ */
+export class DockerBuildFailedError extends Error {
+  constructor(readonly buildError: BuildError, message: string) {
+    super(message);
+    this.name = 'DockerBuildFailedError';
+  }
 }
 
 export function sanitizeDockerfileContent(raw: string): string {
@@ -22,97 +63,269 @@ export function sanitizeDockerfileContent(raw: string): string {
   return content;
 }
 
-export async function build_docker_image(repoPath: string, imageName: string, options: DockerBuildOptions = {}): Promise<void> {
-  const onLog = options.onLog || (() => {});
-  return new Promise((resolve, reject) => {
-    onLog(`\n🐳 Starting Docker build for ${imageName}\n`);
-    onLog(`📁 Context: ${path.resolve(repoPath)}\n`);
+/**
+ * Build an image without throwing on build failures. Plain builds go through
+ * the Engine API; secrets, cache export, non-registry cache import and
+ * multi-platform builds need BuildKit and run through `docker buildx build`.
+ */
+export async function runDockerBuild(repoPath: string, imageName: string, options: DockerBuildOptions = {}): Promise<DockerBuildOutcome> {
+  const onLog = secretRedactor.sink(options.onLog);
+  const multiPlatform = (options.platforms?.length || 0) > 1;
+  if (multiPlatform && !options.push) {
+    return {
+      builder: 'buildx', pushed: false, success: false, steps: [], log: '',
+      error: { message: 'Multi-platform images cannot be loaded into the local image store; enable push' }
+    };
+  }
 
-    let buildOutput = '';
-    let errorOutput = '';
+  if (requiresBuildx(options, options.secrets)) {
+    return buildWithBuildx(repoPath, imageName, options);
+  }
 
-    const buildProc = spawn('docker', ['build', '-t', imageName, repoPath], { stdio: ['ignore', 'pipe', 'pipe'] });
-    
-    buildProc.stdout.on('data', d => {
-      const output = d.toString();
-      buildOutput += output;
-      onLog(output);
+  try {
+    const result = await dockerEngine.build(repoPath, {
+      tags: [imageName],
+      dockerfile: options.dockerfile,
+      buildArgs: options.buildArgs,
+      target: options.target,
+      platform: options.platforms?.[0],
+      labels: options.labels,
+      cacheFrom: registryCacheRefs(options),
+      noCache: options.noCache,
+      pull: options.pull,
+      onLog,
+      onStep: step => onLog(`\n▶️ Step ${step.index}/${step.total}: ${step.instruction}\n`)
     });
-    
-    buildProc.stderr.on('data', d => {
-      const output = d.toString();
-      errorOutput += output;
-      onLog(output);
+    return { ...result, builder: 'engine', pushed: false };
+  } catch (error) {
+    // Daemon unreachable or the request itself failed
+    return {
+      builder: 'engine', pushed: false, success: false, steps: [], log: '',
+      error: { message: error instanceof Error ? error.message : String(error) }
+    };
+  }
+}
+
+function buildxArgs(repoPath: string, imageName: string, options: DockerBuildOptions): string[] {
+  const args = ['buildx', 'build', '--progress=plain', '-t', imageName];
+  if (options.dockerfile) args.push('-f', options.dockerfile);
+  for (const [key, value] of Object.entries(options.buildArgs || {})) args.push('--build-arg', `${key}=${value}`);
+  if (options.target) args.push('--target', options.target);
+  if (options.platforms?.length) args.push('--platform', options.platforms.join(','));
+  for (const spec of options.cacheFrom || []) args.push('--cache-from', resolveCacheSpec(spec));
+  for (const spec of options.cacheTo || []) args.push('--cache-to', resolveCacheSpec(spec));
+  // Secret values go through the child's environment, never the command line
+  (options.secrets || []).forEach((secret, i) => args.push('--secret', `id=${secret.id},env=BUILDX_SECRET_${i}`));
+  for (const [key, value] of Object.entries(options.labels || {})) args.push('--label', `${key}=${value}`);
+  if (options.noCache) args.push('--no-cache');
+  if (options.pull) args.push('--pull');
+  args.push(options.push ? '--push' : '--load', repoPath);
+  return args;
+}
+
+function buildWithBuildx(repoPath: string, imageName: string, options: DockerBuildOptions): Promise<DockerBuildOutcome> {
+  const onLog = secretRedactor.sink(options.onLog);
+  const env: NodeJS.ProcessEnv = { ...process.env };
+  (options.secrets || []).forEach((secret, i) => { env[`BUILDX_SECRET_${i}`] = secret.value; });
+  secretRedactor.register(...(options.secrets || []).map(secret => secret.value));
+
+  return new Promise(resolve => {
+    const outcome: DockerBuildOutcome = { builder: 'buildx', pushed: false, success: false, steps: [], log: '' };
+    const steps = new Map<string, BuildStep>();
+    let pending = '';
+
+    // BuildKit plain progress: "#7 [build 3/5] RUN npm ci", "#7 CACHED", "#7 1.234 output"
+    const parseLine = (line: string) => {
+      const vertex = line.match(/^#(\d+) \[(?:[\w.-]+ )?(\d+)\/(\d+)\] (.+)$/);
+      if (vertex && !steps.has(vertex[1])) {
+        const step: BuildStep = {
+          index: Number(vertex[2]),
+          total: Number(vertex[3]),
+          instruction: vertex[4],
+          cached: false,
+          output: [],
+          startedAt: new Date().toISOString()
+        };
+        steps.set(vertex[1], step);
+        outcome.steps.push(step);
+        onLog(`\n▶️ Step ${step.index}/${step.total}: ${step.instruction}\n`);
+        return;
+      }
+      const event = line.match(/^#(\d+) (.*)$/);
+      const step = event && steps.get(event[1]);
+      if (step && event) {
+        if (event[2] === 'CACHED') step.cached = true;
+        if (event[2] === 'CACHED' || /^DONE /.test(event[2])) step.finishedAt = new Date().toISOString();
+        else step.output.push(event[2].replace(/^\d+\.\d+ /, ''));
+      }
+      const image = line.match(/writing image (sha256:[0-9a-f]{64})/);
+      if (image) outcome.imageId = image[1];
+      const manifest = line.match(/pushing manifest for \S+@(sha256:[0-9a-f]{64})/);
+      if (manifest) {
+        // The last manifest pushed is the multi-platform index
+        outcome.pushed = true;
+        outcome.digest = manifest[1];
+      }
+    };
+
+    const proc = spawn('docker', buildxArgs(repoPath, imageName, options), { stdio: ['ignore', 'pipe', 'pipe'], env });
+    const onData = (data: Buffer) => {
+      const text = secretRedactor.redact(data.toString());
+      outcome.log += text;
+      onLog(text);
+      pending += text;
+      const lines = pending.split('\n');
+      pending = lines.pop() || '';
+      lines.forEach(parseLine);
+    };
+    proc.stdout.on('data', onData);
+    proc.stderr.on('data', onData);
+
+    proc.on('error', error => {
+      outcome.error = { message: `docker buildx is required for these build options: ${error.message}` };
+      resolve(outcome);
     });
-    
-    buildProc.on('close', code => {
-      if (code !== 0) {
-        onLog(`\n❌ Docker build failed with code ${code}\n`);
-        
-        // Detailed error analysis
-        onLog(`\n🔍 DETAILED ERROR ANALYSIS:\n`);
-        
-        if (errorOutput.includes('repository name must be lowercase')) {
-          onLog(`❌ ERROR TYPE: Docker tag case sensitivity\n`);
-          onLog(`   - Image name: ${imageName}\n`);
-          onLog(`   - Issue: Repository name contains uppercase letters\n`);
-          onLog(`   - Solution: Image name should be lowercase\n`);
-          onLog(`   - Expected: ${imageName.toLowerCase()}\n`);
-        } else if (errorOutput.includes('invalid file request')) {
-          onLog(`❌ ERROR TYPE: Invalid file request\n`);
-          onLog(`   - Issue: Docker is trying to access a file that doesn't exist\n`);
-          onLog(`   - Common causes: Missing .dockerignore, .npmrc, or other config files\n`);
-          onLog(`   - Solution: Check build context and file permissions\n`);
-        } else if (errorOutput.includes('no such file or directory')) {
-          onLog(`❌ ERROR TYPE: Missing file or directory\n`);
-          onLog(`   - Issue: Dockerfile references files/directories that don't exist\n`);
-          onLog(`   - Common causes: Missing source files, incorrect COPY paths\n`);
-          onLog(`   - Solution: Verify all files referenced in Dockerfile exist\n`);
-        } else if (errorOutput.includes('permission denied')) {
-          onLog(`❌ ERROR TYPE: Permission denied\n`);
-          onLog(`   - Issue: Docker doesn't have permission to access files\n`);
-          onLog(`   - Solution: Check file permissions and Docker daemon access\n`);
-        } else if (errorOutput.includes('failed to solve')) {
-          onLog(`❌ ERROR TYPE: Docker build context issue\n`);
-          onLog(`   - Issue: Docker cannot process the build context\n`);
-          onLog(`   - Common causes: Large build context, missing files, invalid Dockerfile\n`);
-          onLog(`   - Solution: Check .dockerignore and build context size\n`);
-        } else {
-          onLog(`❌ ERROR TYPE: Unknown error\n`);
-          onLog(`   - Please check the full error output above for details\n`);
-        }
-        
-        onLog(`\n📋 FULL ERROR OUTPUT:\n${errorOutput}\n`);
-        onLog(`📋 FULL BUILD OUTPUT:\n${buildOutput}\n`);
-        
-        return reject(new Error(`Docker build failed with code ${code}: ${errorOutput}`));
+    proc.on('close', code => {
+      if (pending) parseLine(pending);
+      if (code === 0) {
+        outcome.success = true;
+        outcome.pushed = !!options.push;
+      } else {
+        const lastError = outcome.log.split('\n').reverse().find(line => /^ERROR:/.test(line.trim()));
+        outcome.error = { message: lastError?.trim() || `docker buildx build exited with code ${code}`, code: code ?? undefined };
       }
-      onLog(`\n✅ Build completed for ${imageName}\n`);
-      resolve();
+      resolve(outcome);
     });
   });
 }
 
-export async function push_docker_image(imageName: string, options: DockerBuildOptions = {}): Promise<void> {
-  const onLog = options.onLog || (() => {});
-  return new Promise((resolve, reject) => {
-    onLog(`\n📤 Attempting to push ${imageName}...\n`);
-    const pushProc = spawn('docker', ['push', imageName], { stdio: ['ignore', 'pipe', 'pipe'] });
-    pushProc.stdout.on('data', d => onLog(d.toString()));
-    pushProc.stderr.on('data', d => onLog(d.toString()));
-    pushProc.on('close', code => {
-      if (code !== 0) {
-        onLog(`\n⚠️ Docker push failed with code ${code}. Are you logged in?\n`);
-        return reject(new Error(`Docker push failed with code ${code}`));
+export async function build_docker_image(repoPath: string, imageName: string, options: DockerBuildOptions = {}): Promise<DockerBuildOutcome> {
+  const onLog = secretRedactor.sink(options.onLog);
+  onLog(`\n🐳 Starting Docker build for ${imageName}\n`);
+  onLog(`📁 Context: ${path.resolve(repoPath)}\n`);
+
+  const result = await runDockerBuild(repoPath, imageName, options);
+
+  if (!result.success) {
+    const failedStep = result.steps[result.steps.length - 1];
+    onLog(`\n❌ Docker build failed${failedStep ? ` at step ${failedStep.index}/${failedStep.total}` : ''}\n`);
+
+    // Detailed error analysis
+    const buildError = classifyBuildError(`${result.log}\n${result.error?.message || ''}`);
+    if (failedStep && !buildError.instruction) {
+      buildError.step = `${failedStep.index}/${failedStep.total}`;
+      buildError.instruction = failedStep.instruction;
+    }
+    if (buildError.exitCode === undefined && result.error?.code) buildError.exitCode = result.error.code;
+    onLog(`\n🔍 DETAILED ERROR ANALYSIS:\n`);
+    onLog(`❌ ERROR TYPE: ${buildError.code} (${buildError.category})\n`);
+    onLog(`   - Issue: ${buildError.message}\n`);
+    if (buildError.instruction) {
+      const stage = buildError.stage ? ` in stage ${buildError.stage}` : '';
+      const line = buildError.line ? ` (Dockerfile line ${buildError.line})` : '';
+      onLog(`   - Step: ${buildError.instruction}${stage}${line}\n`);
+    }
+    onLog(`   - Solution: ${buildError.suggestion}\n`);
+    if (buildError.code === 'INVALID_IMAGE_NAME') {
+      onLog(`   - Expected: ${imageName.toLowerCase()}\n`);
+    }
+
+    throw new DockerBuildFailedError(buildError, `Docker build failed: ${result.error?.message || 'unknown error'}`);
+  }
+
+  onLog(`\n✅ Build completed for ${imageName}${result.imageId ? ` (${result.imageId})` : ''}${result.pushed ? ' and pushed' : ''}\n`);
+  return result;
+}
+
+/**
+ * Push an image, retrying transient registry and network failures with
+ * exponential backoff. The result carries the manifest digest, read back from
+ * the local image when the registry did not report one.
+ */
+export async function push_docker_image(imageName: string, options: DockerPushOptions = {}): Promise<DockerPushResult> {
+  const onLog = secretRedactor.sink(options.onLog);
+  const destination = options.destination ?? { registry: registryOf(imageName) };
+  const auth = options.auth && normalizeRegistryAuth(destination, options.auth);
+  const retries = options.retries ?? PUSH_RETRIES;
+  onLog(`\n📤 Pushing ${imageName} to ${registryDisplayName(destination)}...\n`);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await dockerEngine.push(imageName, { auth, onLog });
+      const digest = result.digest ?? await localRepoDigest(imageName);
+      onLog(`\n🚀 Image pushed successfully: ${imageName}${digest ? `@${digest}` : ''}\n`);
+      return { ...result, digest, attempts: attempt };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (attempt <= retries && isTransientPushError(message)) {
+        const delay = (options.retryDelayMs ?? PUSH_RETRY_DELAY_MS) * 2 ** (attempt - 1);
+        onLog(`\n⚠️ Push attempt ${attempt} failed: ${message}. Retrying in ${Math.round(delay / 1000)}s...\n`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
+      }
+      const explained = explainPushError(message, destination);
+      onLog(`\n⚠️ Docker push failed: ${explained}\n`);
+      throw new Error(`Docker push failed: ${explained}`);
+    }
+  }
+}
+
+async function localRepoDigest(imageName: string): Promise<string | undefined> {
+  const { repository } = parseImageReference(imageName);
+  try {
+    const image = await dockerEngine.inspectImage(imageName);
+    return image?.RepoDigests?.find(ref => ref.startsWith(`${repository}@`))?.split('@')[1];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Log the Docker CLI into a registry. Only buildx needs this, since it reads
+ * ~/.docker/config.json; Engine API pushes send the credentials with the
+ * request. The password goes through stdin, never the command line, so it
+ * does not show up in the process list.
+ */
+export async function login_docker_registry(auth: RegistryAuth, onLog?: LogSink): Promise<void> {
+  const log = secretRedactor.sink(onLog);
+  if (!auth.username || !auth.password) throw new Error('Registry login needs a username and password');
+  secretRedactor.register(auth.password);
+  const registry = auth.serveraddress && auth.serveraddress !== 'docker.io' ? [auth.serveraddress] : [];
+  log(`🔐 Logging into ${registry[0] || 'Docker Hub'}...\n`);
+
+  await new Promise<void>((resolve, reject) => {
+    const proc = spawn('docker', ['login', '--username', auth.username!, '--password-stdin', ...registry], { stdio: ['pipe', 'pipe', 'pipe'] });
+    let output = '';
+    proc.stdout.on('data', (d: Buffer) => output += d.toString());
+    proc.stderr.on('data', (d: Buffer) => output += d.toString());
+    proc.on('error', reject);
+    proc.on('close', code => {
+      const message = secretRedactor.redact(output.trim());
+      if (code === 0) {
+        log(`✅ Logged into ${registry[0] || 'Docker Hub'}\n`);
+        resolve();
+      } else {
+        log(`❌ Registry login failed: ${message}\n`);
+        reject(new Error(`Docker login failed: ${message || `exit code ${code}`}`));
       }
-      onLog(`\n🚀 Image pushed successfully: ${imageName}\n`);
-      resolve();
     });
+    proc.stdin.end(auth.password);
   });
 }
 
-export function deriveImageName(repoUrlOrFolder: string): string {
-  const dockerUser = (process.env.DOCKER_USER || 'anonymous').toLowerCase();
+/**
+ * Docker tags allow [A-Za-z0-9_.-], max 128 chars, and cannot start with '.' or '-'
+ */
+export function sanitizeImageTag(tag: string): string {
+  const cleaned = tag.replace(/[^A-Za-z0-9_.-]/g, '-').replace(/^[.-]+/, '').slice(0, 128);
+  return cleaned || 'latest';
+}
+
+/**
+ * Image reference for a repository at a destination, which defaults to
+ * IMAGE_REGISTRY/IMAGE_NAMESPACE (Docker Hub and DOCKER_USER when unset)
+ */
+export function deriveImageName(repoUrlOrFolder: string, tag: string = 'latest', destination: RegistryDestination = defaultDestination()): string {
   let repoName = 'project';
   
   console.log(`🔍 Deriving image name from: ${repoUrlOrFolder}`);
@@ -136,22 +349,43 @@ export function deriveImageName(repoUrlOrFolder: string): string {
     repoName = 'project';
   }
   
-  const finalImageName = `${dockerUser}/${repoName}:latest`;
+  const finalImageName = imageReference(destination, repoName, sanitizeImageTag(tag));
   console.log(`🏷️ Generated image name: ${finalImageName} (from: ${originalRepoName})`);
   
   return finalImageName;
 }
 
-export function prepareBuildContext(repoIdentifier: string, files: GitHubFile[], dockerfileContent: string): string {
+/**
+ * Create a build context, in `targetDir` (a deployment workspace) or a new
+ * temp directory. When `sourceDir` (a repository checkout) is
+ * given, the whole tree is copied first so binaries and every source file
+ * reach the image; `files` then only adds what is not already on disk, such
+ * as AI-generated files. Files with a `buffer` or `localPath` are written
+ * byte for byte, so uploaded binaries survive. Credential files found by the secret scanner
+ * (pass `secrets` when the caller already scanned) are kept out of the
+ * build through .dockerignore.
+ */
+export function prepareBuildContext(repoIdentifier: string, files: GitHubFile[], dockerfileContent: string, sourceDir?: string, secrets?: SecretScanResult, targetDir?: string): string {
   const repoName = repoIdentifier.replace(/\.git$/, '').split(/[\\\/]/).pop() || 'project';
-  const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), `autodeploy-${repoName}-`));
+  const baseDir = targetDir ?? fs.mkdtempSync(path.join(os.tmpdir(), `autodeploy-${repoName}-`));
+  if (targetDir) fs.mkdirSync(targetDir, { recursive: true });
+
+  if (sourceDir) {
+    fs.cpSync(sourceDir, baseDir, {
+      recursive: true,
+      filter: (src) => path.basename(src) !== '.git'
+    });
+  }
 
   for (const f of files) {
-    if (f.type !== 'file' || !f.content) continue;
+    if (f.type !== 'file' || (!f.content && !f.buffer && !f.localPath)) continue;
+    if (sourceDir && fs.existsSync(path.join(baseDir, f.path || f.name))) continue;
     
-    // Ensure content is a string
-    let content: string;
-    if (typeof f.content === 'string') {
+    // Exact bytes when known; otherwise ensure content is a string
+    let content: string | Buffer;
+    if (f.buffer) {
+      content = f.buffer;
+    } else if (typeof f.content === 'string') {
       content = f.content;
     } else if (typeof f.content === 'object') {
       content = JSON.stringify(f.content, null, 2);
@@ -161,13 +395,30 @@ export function prepareBuildContext(repoIdentifier: string, files: GitHubFile[],
     
     const relative = f.path || f.name;
     const target = path.join(baseDir, relative);
+    // Paths such as ../../etc/passwd must not leave the context
+    if (path.relative(baseDir, target).split(path.sep)[0] === '..') {
+      console.warn(`⚠️ Skipping ${relative}: outside the build context`);
+      continue;
+    }
     const dir = path.dirname(target);
     fs.mkdirSync(dir, { recursive: true });
-    fs.writeFileSync(target, content, 'utf-8');
+    if (f.localPath && !f.buffer) fs.copyFileSync(f.localPath, target);
+    else fs.writeFileSync(target, content, 'utf-8');
   }
 
   const sanitized = sanitizeDockerfileContent(dockerfileContent);
   fs.writeFileSync(path.join(baseDir, 'Dockerfile'), sanitized, 'utf-8');
+  // Template Dockerfiles bring their .dockerignore; the project's own one wins
+  const dockerignore = dockerignoreForDockerfile(sanitized);
+  if (dockerignore && !fs.existsSync(path.join(baseDir, '.dockerignore'))) {
+    fs.writeFileSync(path.join(baseDir, '.dockerignore'), dockerignore, 'utf-8');
+  }
+
+  const { excluded } = secrets ?? scanFilesForSecrets(files);
+  if (excluded.length > 0) {
+    writeSecretDockerignore(baseDir, excluded);
+    console.log(`🔐 Excluded ${excluded.length} file(s) with secrets from the build context: ${excluded.join(', ')}`);
+  }
 
   return baseDir;
 }
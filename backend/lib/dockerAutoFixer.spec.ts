@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { classifyRuntimeFailure } from '../../shared/buildErrors';
+import type { ProjectAnalysis } from './aiService';
+import { DockerAutoFixer } from './dockerAutoFixer';
+
+const DOCKERFILE = [
+  'FROM node:20 AS build',
+  'WORKDIR /app',
+  'COPY . .',
+  'RUN npm run build',
+  'EXPOSE 9999',
+  '',
+  'FROM node:20-slim',
+  'WORKDIR /app',
+  'COPY --from=build /app .',
+  'EXPOSE 3000',
+  'ENTRYPOINT ["node"]',
+  'CMD ["dist/server.js"]',
+  ''
+].join('\n');
+
+const analysis = { language: 'javascript', dependencies: [], packageFiles: [], hasDockerfile: true, scripts: { start: 'node build/index.js' } } as ProjectAnalysis;
+
+describe('DockerAutoFixer.fixRuntimeError', () => {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'autofix-spec-'));
+  const dockerfile = path.join(tmp, 'Dockerfile');
+  let fixer: DockerAutoFixer;
+
+  beforeAll(() => {
+    fixer = new DockerAutoFixer('', { onLog: () => undefined });
+  });
+
+  afterAll(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+  it('exposes the port the process actually listens on in the final stage', () => {
+    fs.writeFileSync(dockerfile, DOCKERFILE);
+    const error = classifyRuntimeFailure('', { running: true, port: 3000, listeningPorts: [8080] });
+
+    expect(fixer.fixRuntimeError(error, dockerfile)).toBe(true);
+    const content = fs.readFileSync(dockerfile, 'utf-8');
+    expect(content).toContain('EXPOSE 9999');
+    expect(content).not.toContain('EXPOSE 3000');
+    expect(content).toContain('EXPOSE 8080\nENTRYPOINT ["node"]');
+  });
+
+  it('replaces a start command that is missing from the image, once per candidate', () => {
+    fs.writeFileSync(dockerfile, DOCKERFILE);
+    const error = classifyRuntimeFailure("Error: Cannot find module '/app/dist/server.js'", { running: false, exitCode: 1 });
+    const result = { removedInstructions: [] as string[] };
+
+    expect(fixer.fixRuntimeError(error, dockerfile, analysis, result)).toBe(true);
+    const content = fs.readFileSync(dockerfile, 'utf-8');
+    expect(content.trimEnd().split('\n').slice(-2)).toEqual(['EXPOSE 3000', 'CMD ["npm", "start"]']);
+    expect(result.removedInstructions).toEqual(['ENTRYPOINT ["node"]', 'CMD ["dist/server.js"]']);
+
+    expect(fixer.fixRuntimeError(error, dockerfile, analysis, result)).toBe(false);
+  });
+
+  it('leaves errors without a rule-based fix alone', () => {
+    fs.writeFileSync(dockerfile, DOCKERFILE);
+    const error = classifyRuntimeFailure('panic: boom', { running: false, exitCode: 2 });
+    expect(fixer.fixRuntimeError(error, dockerfile, analysis)).toBe(false);
+    expect(fs.readFileSync(dockerfile, 'utf-8')).toBe(DOCKERFILE);
+  });
+});
@@ -1,18 +1,21 @@
-import { spawn } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
-import { DockerErrorAnalyzer, DockerBuildError, GeneratedFile, FileGenerationRequest } from './dockerErrorAnalyzer';
+import { DockerErrorAnalyzer, GeneratedFile, FileGenerationRequest } from './dockerErrorAnalyzer';
+import { BuildError } from '../../shared/buildErrors';
+import { dockerEngine } from './dockerEngine';
 import { GitHubFile, ProjectAnalysis } from './aiService';
+import { smokeTestImage, SmokeTestOptions, SmokeTestResult } from './smokeTest';
 
 export interface DockerAutoFixResult {
   success: boolean;
   attempts: number;
   maxAttempts: number;
-  errors: DockerBuildError[];
+  errors: BuildError[];
   generatedFiles: GeneratedFile[];
   removedInstructions: string[];
   finalDockerfile?: string;
   buildLogs: string[];
+  smokeTest?: SmokeTestResult; // Last sandbox run of the built image
   errorMessage?: string;
 }
 
@@ -21,21 +24,28 @@ export interface DockerAutoFixOptions {
   onLog?: (message: string) => void;
   onProgress?: (progress: number) => void;
   projectContext?: string;
+  smokeTest?: SmokeTestOptions; // Run the built image in the sandbox and fix runtime errors too
 }
 
 export class DockerAutoFixer {
-  private errorAnalyzer: DockerErrorAnalyzer;
+  private apiKey: string;
+  private analyzer?: DockerErrorAnalyzer;
   private maxAttempts: number;
   private onLog: (message: string) => void;
   private onProgress: (progress: number) => void;
 
   constructor(apiKey: string, options: DockerAutoFixOptions = {}) {
-    this.errorAnalyzer = new DockerErrorAnalyzer(apiKey);
+    this.apiKey = apiKey;
     this.maxAttempts = options.maxAttempts || 3;
     this.onLog = options.onLog || console.log;
     this.onProgress = options.onProgress || (() => {});
   }
 
+  /** Created on first use; runtime fixes are rule-based and need no API key */
+  private get errorAnalyzer(): DockerErrorAnalyzer {
+    return this.analyzer ??= new DockerErrorAnalyzer(this.apiKey);
+  }
+
   /**
    * Main method to automatically fix Docker build issues
    */
@@ -71,9 +81,17 @@ export class DockerAutoFixer {
 
         if (buildResult.success) {
           this.onLog('✅ Docker build successful!');
-          result.success = true;
-          this.onProgress(100);
-          return result;
+          const runtimeError = options.smokeTest?.enabled ? await this.smokeTest(imageName, options.smokeTest, result) : undefined;
+          if (!runtimeError) {
+            result.success = true;
+            this.onProgress(100);
+            return result;
+          }
+          if (!options.smokeTest!.autoFix || !this.fixRuntimeError(runtimeError, path.join(buildContext, 'Dockerfile'), analysis, result)) {
+            result.errorMessage = `Image does not start: ${runtimeError.message}`;
+            break;
+          }
+          continue;
         }
 
         // Analyze the error
@@ -82,31 +100,28 @@ export class DockerAutoFixer {
         const error = await this.errorAnalyzer.analyzeDockerError(buildResult.errorOutput, projectContext);
         result.errors.push(error);
 
-        this.onLog(`📊 Error Type: ${error.type}`);
+        this.onLog(`📊 Error Code: ${error.code}`);
         this.onLog(`📊 Severity: ${error.severity}`);
-        this.onLog(`📊 Suggested Action: ${error.suggestedAction}`);
-
-        if (error.type === 'missing_file' && error.missingFile) {
-          if (error.suggestedAction === 'remove_instruction') {
-            await this.handleRemoveInstruction(error, buildContext, result);
-          } else if (error.suggestedAction === 'remove_dockerignore') {
-            await this.handleRemoveDockerignore(error, buildContext, result);
-          } else if (error.suggestedAction === 'remove_npmrc') {
-            await this.handleRemoveNpmrc(error, buildContext, result);
-          } else {
-            await this.handleMissingFile(error, buildContext, projectFiles, analysis, result);
-          }
-        } else if (error.suggestedAction === 'remove_instruction') {
+        this.onLog(`📊 Suggested Action: ${error.action}`);
+        if (error.instruction) {
+          this.onLog(`📍 Failing step: ${error.instruction}${error.line ? ` (Dockerfile line ${error.line})` : ''}`);
+        }
+
+        if (error.action === 'remove_instruction') {
           await this.handleRemoveInstruction(error, buildContext, result);
-        } else if (error.suggestedAction === 'remove_dockerignore') {
+        } else if (error.action === 'remove_dockerignore') {
           await this.handleRemoveDockerignore(error, buildContext, result);
-        } else if (error.suggestedAction === 'remove_npmrc') {
+        } else if (error.action === 'remove_npmrc') {
           await this.handleRemoveNpmrc(error, buildContext, result);
-        } else if (error.suggestedAction === 'fix_tag_case') {
+        } else if (error.action === 'generate_file' && error.file) {
+          await this.handleMissingFile(error, buildContext, projectFiles, analysis, result);
+        } else if (error.action === 'fix_tag_case') {
           await this.handleFixTagCase(error, buildContext, result);
+        } else if (error.action === 'retry') {
+          this.onLog(`🔁 ${error.message}; retrying build`);
         } else {
-          this.onLog(`❌ Cannot auto-fix error type: ${error.type}`);
-          result.errorMessage = `Cannot auto-fix error: ${error.errorMessage}`;
+          this.onLog(`❌ Cannot auto-fix error: ${error.code}`);
+          result.errorMessage = `Cannot auto-fix error: ${error.message}`;
           break;
         }
 
@@ -120,6 +135,99 @@ export class DockerAutoFixer {
     return result;
   }
 
+  /**
+   * Run the built image in the sandbox; returns the runtime error to fix, if any.
+   * Inconclusive runs (no network, no configuration) count as a pass.
+   */
+  private async smokeTest(imageName: string, options: SmokeTestOptions, result: DockerAutoFixResult): Promise<BuildError | undefined> {
+    result.smokeTest = await smokeTestImage(imageName, options, { onLog: this.onLog });
+    if (result.smokeTest.status !== 'failed') return undefined;
+    result.errors.push(result.smokeTest.error!);
+    return result.smokeTest.error;
+  }
+
+  /**
+   * Apply the Dockerfile change a runtime error calls for. Only the final
+   * stage is touched. Returns false when the error has no rule-based fix or
+   * the fix would not change anything.
+   */
+  fixRuntimeError(
+    error: BuildError,
+    dockerfilePath: string,
+    analysis?: ProjectAnalysis,
+    result?: Pick<DockerAutoFixResult, 'removedInstructions' | 'finalDockerfile'>
+  ): boolean {
+    if (error.action !== 'fix_port' && error.action !== 'fix_command') {
+      this.onLog(`❌ Cannot auto-fix runtime error: ${error.code}`);
+      return false;
+    }
+    if (!fs.existsSync(dockerfilePath)) {
+      this.onLog('❌ Dockerfile not found');
+      return false;
+    }
+
+    const lines = fs.readFileSync(dockerfilePath, 'utf-8').split('\n');
+    const finalStage = lines.reduce((last, line, i) => (/^\s*FROM\s/i.test(line) ? i : last), 0);
+    const isInstruction = (i: number, name: string) => i > finalStage && new RegExp(`^\\s*${name}\\s`, 'i').test(lines[i]);
+    const removed: string[] = [];
+    let updated: string[];
+
+    if (error.action === 'fix_port') {
+      if (!error.port) return false;
+      this.onLog(`🔧 Process listens on port ${error.port}; updating EXPOSE`);
+      const expose = `EXPOSE ${error.port}`;
+      updated = lines.filter((line, i) => {
+        if (!isInstruction(i, 'EXPOSE')) return true;
+        removed.push(line.trim());
+        return false;
+      });
+      const cmdIndex = updated.findIndex((line, i) => i > finalStage && /^\s*(CMD|ENTRYPOINT)\s/i.test(line));
+      updated.splice(cmdIndex === -1 ? updated.length : cmdIndex, 0, expose);
+    } else {
+      const current = lines.filter((_, i) => isInstruction(i, 'CMD')).map(line => line.trim());
+      const command = this.startCommand(analysis, [...current, ...(result?.removedInstructions || [])]);
+      if (!command) {
+        this.onLog('❌ No other start command to try');
+        return false;
+      }
+      this.onLog(`🔧 Start command failed; switching to ${command}`);
+      updated = lines.filter((line, i) => {
+        if (!isInstruction(i, 'ENTRYPOINT') && !isInstruction(i, 'CMD')) return true;
+        removed.push(line.trim());
+        return false;
+      });
+      while (updated.length > 0 && !updated[updated.length - 1].trim()) updated.pop();
+      updated.push(command, '');
+    }
+
+    const content = updated.join('\n');
+    if (content === lines.join('\n')) return false;
+    fs.writeFileSync(dockerfilePath, content, 'utf-8');
+    for (const line of removed) this.onLog(`🗑️ Removed: ${line}`);
+    if (result) {
+      result.removedInstructions.push(...removed);
+      result.finalDockerfile = content;
+    }
+    this.onLog('✅ Updated Dockerfile');
+    return true;
+  }
+
+  /**
+   * A CMD that starts the project the way its manifest says, skipping any
+   * that were already tried and removed
+   */
+  private startCommand(analysis: ProjectAnalysis | undefined, tried: string[]): string | undefined {
+    const candidates: string[][] = [];
+    if (analysis?.scripts?.start) candidates.push(['npm', 'start']);
+    if (analysis?.entryPoint) {
+      const runtime = /\.py$/.test(analysis.entryPoint) ? 'python' : /\.[cm]?js$/.test(analysis.entryPoint) ? 'node' : undefined;
+      if (runtime) candidates.push([runtime, analysis.entryPoint]);
+    }
+    return candidates
+      .map(command => `CMD ${JSON.stringify(command).replace(/","/g, '", "')}`)
+      .find(command => !tried.includes(command));
+  }
+
   /**
    * Attempt Docker build and return result
    */
@@ -128,57 +236,44 @@ export class DockerAutoFixer {
     logs: string[];
     errorOutput: string;
   }> {
-    return new Promise((resolve) => {
-      const logs: string[] = [];
-      let errorOutput = '';
+    const logs: string[] = [];
 
-      this.onLog(`🐳 Building Docker image: ${imageName}`);
-      this.onLog(`📁 Build context: ${buildContext}`);
+    this.onLog(`🐳 Building Docker image: ${imageName}`);
+    this.onLog(`📁 Build context: ${buildContext}`);
 
-      const buildProc = spawn('docker', ['build', '-t', imageName, buildContext], {
-        stdio: ['ignore', 'pipe', 'pipe'],
-      });
-
-      buildProc.stdout.on('data', (data) => {
-        const log = data.toString();
-        logs.push(log);
-        this.onLog(log.trim());
-      });
-
-      buildProc.stderr.on('data', (data) => {
-        const log = data.toString();
-        logs.push(log);
-        errorOutput += log;
-        this.onLog(log.trim());
-      });
-
-      buildProc.on('close', (code) => {
-        if (code === 0) {
-          resolve({ success: true, logs, errorOutput: '' });
-        } else {
-          resolve({ success: false, logs, errorOutput });
+    try {
+      const result = await dockerEngine.build(buildContext, {
+        tags: [imageName],
+        onLog: log => {
+          logs.push(log);
+          this.onLog(log.trim());
         }
       });
-    });
+      return { success: result.success, logs, errorOutput: result.success ? '' : `${result.log}\n${result.error?.message || ''}` };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.onLog(message);
+      return { success: false, logs, errorOutput: message };
+    }
   }
 
   /**
    * Handle missing file error
    */
   private async handleMissingFile(
-    error: DockerBuildError,
+    error: BuildError,
     buildContext: string,
     projectFiles: GitHubFile[],
     analysis: ProjectAnalysis,
     result: DockerAutoFixResult
   ): Promise<void> {
-    if (!error.missingFile) return;
+    if (!error.file) return;
 
-    const fileName = error.missingFile;
+    const fileName = error.file;
     this.onLog(`🔧 Handling missing file: ${fileName}`);
 
     // Always generate files when LangChain suggests it
-    if (error.suggestedAction === 'generate_file') {
+    if (error.action === 'generate_file') {
       this.onLog(`🧠 LangChain suggests generating file: ${fileName}`);
       
       // Generate the missing file
@@ -191,7 +286,7 @@ export class DockerAutoFixer {
         fileType,
         projectContext,
         existingFiles,
-        reason: `Missing file detected during Docker build: ${error.errorMessage}`,
+        reason: `Missing file detected during Docker build: ${error.excerpt}`,
       };
 
       try {
@@ -222,7 +317,7 @@ export class DockerAutoFixer {
         this.createFallbackFile(fileName, buildContext, result);
       }
     } else {
-      this.onLog(`⏭️ LangChain suggests not generating file: ${fileName} (action: ${error.suggestedAction})`);
+      this.onLog(`⏭️ LangChain suggests not generating file: ${fileName} (action: ${error.action})`);
     }
   }
 
@@ -285,7 +380,7 @@ export class DockerAutoFixer {
    * Handle remove instruction action
    */
   private async handleRemoveInstruction(
-    error: DockerBuildError,
+    error: BuildError,
     buildContext: string,
     result: DockerAutoFixResult
   ): Promise<void> {
@@ -307,7 +402,7 @@ export class DockerAutoFixer {
         const trimmedLine = line.trim();
         
         // Check for specific backend directory references
-        if (error.missingFile && (error.missingFile === 'backend' || error.missingFile === '/backend')) {
+        if (error.file && (error.file === 'backend' || error.file === '/backend')) {
           if (trimmedLine.includes('COPY backend') || trimmedLine.includes('COPY /backend')) {
             result.removedInstructions.push(trimmedLine);
             this.onLog(`🗑️ Removed: ${trimmedLine}`);
@@ -316,7 +411,7 @@ export class DockerAutoFixer {
         }
         
         // General missing file check
-        if (error.missingFile && line.includes(error.missingFile)) {
+        if (error.file && line.includes(error.file)) {
           result.removedInstructions.push(trimmedLine);
           this.onLog(`🗑️ Removed: ${trimmedLine}`);
           return false;
@@ -357,7 +452,7 @@ export class DockerAutoFixer {
    * Handle remove dockerignore action
    */
   private async handleRemoveDockerignore(
-    error: DockerBuildError,
+    error: BuildError,
     buildContext: string,
     result: DockerAutoFixResult
   ): Promise<void> {
@@ -428,7 +523,7 @@ README.md
    * Handle remove npmrc action
    */
   private async handleRemoveNpmrc(
-    error: DockerBuildError,
+    error: BuildError,
     buildContext: string,
     result: DockerAutoFixResult
   ): Promise<void> {
@@ -461,7 +556,7 @@ README.md
    * Handle fix tag case action
    */
   private async handleFixTagCase(
-    error: DockerBuildError,
+    error: BuildError,
     buildContext: string,
     result: DockerAutoFixResult
   ): Promise<void> {
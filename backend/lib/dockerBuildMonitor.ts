@@ -1,9 +1,13 @@
-import { spawn } from 'child_process';
 import { processDockerfileGeneration } from './aiService';
 import { dockerStatusChecker } from './dockerStatusChecker';
+import { runDockerBuild, DockerBuildOptions } from './docker';
 import { advancedFileDetector, ProjectAnalysis } from './advancedFileDetector';
 import * as fs from 'fs';
 import * as path from 'path';
+import { lintDockerfile, LintContext, LintFinding, LintSeverity } from './dockerfileLinter';
+import { SourceRange } from './dockerfileParser';
+import { classifyBuildLog, BuildErrorCategory, BuildErrorCode } from '../../shared/buildErrors';
+import { createLogger } from './logger';
 
 export interface DockerBuildError {
   type: 'missing_file' | 'syntax_error' | 'dependency_error' | 'language_mismatch' | 'permission_error';
@@ -12,6 +16,15 @@ export interface DockerBuildError {
   file?: string;
   suggestion: string;
   fix: string;
+  code?: BuildErrorCode; // Set for errors classified from build output
+  ruleId?: string; // Set for lint findings
+  severity?: LintSeverity;
+  range?: SourceRange;
+}
+
+export interface ValidateDockerfileOptions {
+  contextDir?: string; // Build context used to check COPY/ADD sources
+  expectedPort?: number;
 }
 
 export interface DockerBuildResult {
@@ -20,6 +33,62 @@ export interface DockerBuildResult {
   errors: DockerBuildError[];
   fixedDockerfile?: string;
   logs: string[];
+  pushed?: boolean; // Multi-platform builds are pushed by buildx as part of the build
+  digest?: string; // Manifest digest of the pushed image
+}
+
+// Raw Docker output, kept apart from pipeline messages
+const buildOutput = createLogger('dockerBuild', 'build');
+
+const FINDING_TYPES: Record<string, DockerBuildError['type']> = {
+  AD1002: 'missing_file',
+  AD1006: 'missing_file',
+  AD1005: 'language_mismatch',
+  DL3006: 'dependency_error',
+  DL3007: 'dependency_error',
+  DL3009: 'dependency_error',
+  DL3015: 'dependency_error',
+  DL3002: 'permission_error',
+  AD1001: 'permission_error',
+  AD1004: 'permission_error'
+};
+
+const BUILD_ERROR_TYPES: Partial<Record<BuildErrorCategory, DockerBuildError['type']>> = {
+  missing_file: 'missing_file',
+  syntax: 'syntax_error',
+  permission: 'permission_error'
+};
+
+const MAX_CONTEXT_FILES = 20000;
+
+/**
+ * List build context files relative to `dir`. Returns undefined for huge
+ * contexts so the COPY source check is skipped rather than guessed.
+ */
+function listContextFiles(dir: string): string[] | undefined {
+  const files: string[] = [];
+  const pending = [''];
+
+  while (pending.length > 0) {
+    const relative = pending.pop()!;
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(path.join(dir, relative), { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      if (entry.name === '.git') continue;
+      const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        pending.push(entryPath);
+      } else {
+        files.push(entryPath);
+        if (files.length > MAX_CONTEXT_FILES) return undefined;
+      }
+    }
+  }
+  return files;
 }
 
 export class DockerBuildMonitor {
@@ -34,7 +103,8 @@ export class DockerBuildMonitor {
     dockerfilePath: string,
     contextPath: string,
     imageName: string,
-    maxRetries: number = 3
+    maxRetries: number = 3,
+    buildOptions: Omit<DockerBuildOptions, 'onLog' | 'dockerfile'> = {}
   ): Promise<DockerBuildResult> {
     this.buildLogs = [];
     this.errors = [];
@@ -75,7 +145,7 @@ export class DockerBuildMonitor {
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       console.log(`\n🔄 Build attempt ${attempt}/${maxRetries}`);
       
-      const result = await this.attemptBuild(dockerfilePath, contextPath, imageName);
+      const result = await this.attemptBuild(dockerfilePath, contextPath, imageName, buildOptions);
       
       if (result.success) {
         console.log('✅ Docker build successful!');
@@ -83,15 +153,14 @@ export class DockerBuildMonitor {
           success: true,
           imageName,
           errors: this.errors,
-          logs: this.buildLogs
+          logs: this.buildLogs,
+          pushed: result.pushed,
+          digest: result.digest
         };
       }
 
       // Check if this is a .dockerignore error and handle it specially
-      const hasDockerignoreError = result.errors.some(error => 
-        error.message.includes('.dockerignore') || 
-        error.message.includes('invalid file request .dockerignore')
-      );
+      const hasDockerignoreError = result.errors.some(error => error.file === '.dockerignore');
 
       if (hasDockerignoreError && attempt < maxRetries) {
         console.log('🔧 Detected .dockerignore error, removing it completely...');
@@ -108,11 +177,7 @@ export class DockerBuildMonitor {
       }
 
       // Check if this is a .npmrc error and handle it specially
-      const hasNpmrcError = result.errors.some(error => 
-        error.message.includes('.npmrc') || 
-        error.message.includes('invalid file request .npmrc') ||
-        error.file === '.npmrc'
-      );
+      const hasNpmrcError = result.errors.some(error => error.file === '.npmrc');
 
       if (hasNpmrcError && attempt < maxRetries) {
         console.log('🔧 Detected .npmrc error, removing it completely...');
@@ -143,7 +208,7 @@ export class DockerBuildMonitor {
       }
 
       // Analyze errors and attempt to fix
-      const fixedDockerfile = await this.analyzeAndFixErrors(dockerfilePath, result.errors);
+      const fixedDockerfile = await this.analyzeAndFixErrors(dockerfilePath, result.errors, contextPath);
       
       if (fixedDockerfile && attempt < maxRetries) {
         console.log('🔧 Auto-fixing Dockerfile errors...');
@@ -166,200 +231,49 @@ export class DockerBuildMonitor {
   private async attemptBuild(
     dockerfilePath: string,
     contextPath: string,
-    imageName: string
-  ): Promise<{ success: boolean; errors: DockerBuildError[] }> {
-    return new Promise((resolve) => {
-      const dockerBuild = spawn('docker', [
-        'build',
-        '-f', dockerfilePath,
-        '-t', imageName,
-        contextPath
-      ]);
-
-      let output = '';
-      const errors: DockerBuildError[] = [];
-
-      dockerBuild.stdout.on('data', (data) => {
-        const log = data.toString();
-        output += log;
+    imageName: string,
+    buildOptions: Omit<DockerBuildOptions, 'onLog' | 'dockerfile'>
+  ): Promise<{ success: boolean; errors: DockerBuildError[]; pushed?: boolean; digest?: string }> {
+    const result = await runDockerBuild(contextPath, imageName, {
+      ...buildOptions,
+      dockerfile: path.resolve(dockerfilePath),
+      onLog: log => {
         this.buildLogs.push(log);
-        console.log(log.trim());
-      });
-
-      dockerBuild.stderr.on('data', (data) => {
-        const error = data.toString();
-        output += error;
-        this.buildLogs.push(error);
-        console.error(error.trim());
-        
-        // Parse common Docker errors
-        const parsedErrors = this.parseDockerErrors(error);
-        errors.push(...parsedErrors);
-      });
-
-      dockerBuild.on('close', (code) => {
-        if (code === 0) {
-          resolve({ success: true, errors: [] });
-        } else {
-          // Parse final output for errors
-          const finalErrors = this.parseDockerErrors(output);
-          errors.push(...finalErrors);
-          this.errors.push(...errors);
-          resolve({ success: false, errors });
-        }
-      });
-    });
-  }
-
-  private parseDockerErrors(output: string): DockerBuildError[] {
-    const errors: DockerBuildError[] = [];
-
-    // Missing file errors - Enhanced detection
-    const missingFileRegex = /"([^"]+)": not found/g;
-    let match;
-    while ((match = missingFileRegex.exec(output)) !== null) {
-      const fileName = match[1];
-      
-      // Special handling for Go module files
-      if (fileName === 'go.mod' || fileName === 'go.sum') {
-        errors.push({
-          type: 'missing_file',
-          message: `Go module file not found: ${fileName}`,
-          file: fileName,
-          suggestion: `Generate ${fileName} or remove Go-specific commands from Dockerfile`,
-          fix: `RUN go mod init your-project-name && go mod tidy`
-        });
-      } else {
-        errors.push({
-          type: 'missing_file',
-          message: `File not found: ${fileName}`,
-          file: fileName,
-          suggestion: `Create missing file: ${fileName}`,
-          fix: `COPY ${fileName} ./`
-        });
+        if (log.trim()) buildOutput.info(log.trimEnd(), { image: imageName });
       }
-    }
-
-    // Enhanced Go-specific error detection
-    if (output.includes('go.mod') && output.includes('not found')) {
-      errors.push({
-        type: 'missing_file',
-        message: 'Go module files (go.mod/go.sum) are missing but Dockerfile tries to use them',
-        file: 'go.mod',
-        suggestion: 'Either generate Go module files or use a different base image',
-        fix: 'Remove Go-specific commands or generate go.mod with: RUN go mod init project-name'
-      });
-    }
-
-    // Go build errors
-    if (output.includes('go build') && output.includes('.py')) {
-      errors.push({
-        type: 'language_mismatch',
-        message: 'Trying to build Python file with Go compiler',
-        suggestion: 'Use Python runtime instead of Go for Python files',
-        fix: 'Change FROM golang:1.21 to FROM python:3.11-slim'
-      });
-    }
-
-    // Missing requirements.txt
-    if (output.includes('requirements.txt') && output.includes('not found')) {
-      errors.push({
-        type: 'missing_file',
-        message: 'requirements.txt not found',
-        file: 'requirements.txt',
-        suggestion: 'Create requirements.txt file',
-        fix: 'Generate requirements.txt from Python dependencies'
-      });
-    }
-
-    // Missing go.sum
-    if (output.includes('go.sum') && output.includes('not found')) {
-      errors.push({
-        type: 'missing_file',
-        message: 'go.sum not found',
-        file: 'go.sum',
-        suggestion: 'Generate go.sum file',
-        fix: 'RUN go mod tidy'
-      });
-    }
-
-    // Missing backend directory - multiple patterns
-    if ((output.includes('/backend') && output.includes('not found')) || 
-        output.includes('"/backend": not found') ||
-        output.includes('failed to calculate checksum') && output.includes('backend')) {
-      errors.push({
-        type: 'missing_file',
-        message: 'backend directory not found',
-        file: 'backend',
-        suggestion: 'Remove or fix COPY command referencing backend directory',
-        fix: 'Remove COPY backend ./ or create backend directory'
-      });
-    }
-
-    // Missing any directory in COPY command
-    const copyDirMatch = output.match(/COPY\s+([^\s]+)\s+.*not found/);
-    if (copyDirMatch) {
-      const missingDir = copyDirMatch[1];
-      errors.push({
-        type: 'missing_file',
-        message: `Directory ${missingDir} not found`,
-        file: missingDir,
-        suggestion: `Remove or fix COPY command referencing ${missingDir}`,
-        fix: `Remove COPY ${missingDir} or create the directory`
-      });
-    }
-
-    // .dockerignore file issues
-    if (output.includes('invalid file request .dockerignore')) {
-      errors.push({
-        type: 'missing_file',
-        message: '.dockerignore file causing build issues',
-        file: '.dockerignore',
-        suggestion: 'Remove or recreate .dockerignore file',
-        fix: 'Remove problematic .dockerignore and create minimal version'
-      });
-    }
-
-    // .npmrc file issues - multiple patterns
-    if (output.includes('invalid file request .npmrc') || 
-        output.includes('ERROR: invalid file request .npmrc')) {
-      errors.push({
-        type: 'missing_file',
-        message: '.npmrc file causing build issues',
-        file: '.npmrc',
-        suggestion: 'Remove problematic .npmrc file',
-        fix: 'Remove .npmrc file to prevent build context issues'
-      });
-    }
+    });
 
-    // Docker tag case sensitivity issues
-    if (output.includes('repository name must be lowercase') || 
-        output.includes('invalid tag')) {
-      errors.push({
-        type: 'syntax_error',
-        message: 'Docker tag case sensitivity issue',
-        file: 'image-tag',
-        suggestion: 'Fix Docker image tag to use lowercase',
-        fix: 'Convert image name to lowercase and remove special characters'
-      });
-    }
+    if (result.success) return { success: true, errors: [], pushed: result.pushed, digest: result.digest };
 
-    // Permission errors
-    if (output.includes('permission denied') || output.includes('EACCES')) {
-      errors.push({
-        type: 'permission_error',
-        message: 'Permission denied',
-        suggestion: 'Fix file permissions or use proper user',
-        fix: 'RUN chmod +x filename or add proper USER directive'
-      });
-    }
+    // Classify the full output so multi-line errors are seen together
+    const errors = this.parseDockerErrors(`${result.log}\n${result.error?.message || ''}`);
+    this.errors.push(...errors);
+    return { success: false, errors };
+  }
 
-    return errors;
+  /**
+   * Classify build output with the shared build error catalog
+   */
+  private parseDockerErrors(output: string): DockerBuildError[] {
+    return classifyBuildLog(output).map(error => ({
+      type: error.code === 'LANGUAGE_MISMATCH' ? 'language_mismatch' : BUILD_ERROR_TYPES[error.category] || 'dependency_error',
+      message: error.message,
+      line: error.line,
+      file: error.file,
+      suggestion: error.suggestion,
+      fix: error.file === 'go.mod' || error.file === 'go.sum' ? 'RUN go mod tidy' : error.suggestion,
+      code: error.code
+    }));
   }
 
+  /**
+   * Ask the AI for a fixed Dockerfile. Project analysis and generated files
+   * are confined to the build context, never the server's working directory.
+   */
   private async analyzeAndFixErrors(
     dockerfilePath: string,
-    errors: DockerBuildError[]
+    errors: DockerBuildError[],
+    contextPath: string
   ): Promise<string | null> {
     if (errors.length === 0) return null;
 
@@ -371,12 +285,12 @@ export class DockerBuildMonitor {
 
       // Advanced project analysis
       console.log('🔍 Running advanced project analysis...');
-      const projectAnalysis = await advancedFileDetector.analyzeProject('.');
+      const projectAnalysis = await advancedFileDetector.analyzeProject(contextPath);
       
       // Generate missing files if needed
       if (projectAnalysis.missingFiles.length > 0) {
         console.log('📝 Generating missing dependency files...');
-        await advancedFileDetector.generateMissingFiles(projectAnalysis, '.');
+        await advancedFileDetector.generateMissingFiles(projectAnalysis, contextPath);
       }
 
       // Create intelligent prompt based on project analysis
@@ -631,53 +545,39 @@ README.md
 
   /**
    * 🧪 TEST DOCKERFILE BEFORE BUILDING
-   * Validates Dockerfile syntax and common issues
+   * Lints the Dockerfile and, when the build context is given, checks that
+   * every COPY/ADD source exists in it
    */
-  async validateDockerfile(dockerfilePath: string): Promise<DockerBuildError[]> {
+  async validateDockerfile(dockerfilePath: string, options: ValidateDockerfileOptions = {}): Promise<DockerBuildError[]> {
     const dockerfile = fs.readFileSync(dockerfilePath, 'utf8');
-    const errors: DockerBuildError[] = [];
-
-    const lines = dockerfile.split('\n');
-
-    // Check for common issues
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      
-      // Check for language mismatches
-      if (line.includes('FROM golang:') && dockerfile.includes('.py')) {
-        errors.push({
-          type: 'language_mismatch',
-          message: 'Using Go base image for Python project',
-          line: i + 1,
-          suggestion: 'Use Python base image for Python files',
-          fix: 'FROM python:3.11-slim'
-        });
-      }
+    const context: LintContext = { expectedPort: options.expectedPort };
 
-      // Check for go build with .py files
-      if (line.includes('go build') && line.includes('.py')) {
-        errors.push({
-          type: 'language_mismatch',
-          message: 'Trying to build Python file with Go compiler',
-          line: i + 1,
-          suggestion: 'Use Python to run .py files',
-          fix: 'RUN python filename.py'
-        });
-      }
-
-      // Check for missing COPY commands for required files
-      if (line.includes('pip install -r requirements.txt') && !dockerfile.includes('COPY requirements.txt')) {
-        errors.push({
-          type: 'missing_file',
-          message: 'Installing requirements.txt but not copying it',
-          line: i + 1,
-          suggestion: 'Add COPY requirements.txt ./ before pip install',
-          fix: 'COPY requirements.txt ./'
-        });
+    if (options.contextDir) {
+      context.files = listContextFiles(options.contextDir);
+      const dockerignorePath = path.join(options.contextDir, '.dockerignore');
+      if (fs.existsSync(dockerignorePath)) {
+        context.dockerignore = fs.readFileSync(dockerignorePath, 'utf8');
       }
     }
 
-    return errors;
+    const { findings } = lintDockerfile(dockerfile, context);
+    return this.toBuildErrors(findings.filter(f => f.severity !== 'info'));
+  }
+
+  /**
+   * Convert linter findings into build errors understood by the auto-fixer
+   */
+  toBuildErrors(findings: LintFinding[]): DockerBuildError[] {
+    return findings.map(finding => ({
+      type: FINDING_TYPES[finding.ruleId] || 'syntax_error',
+      message: finding.message,
+      line: finding.range.start.line,
+      suggestion: finding.suggestion || finding.fix?.description || '',
+      fix: finding.fix?.edits.map(e => e.text.trim()).filter(Boolean).join('\n') || '',
+      ruleId: finding.ruleId,
+      severity: finding.severity,
+      range: finding.range
+    }));
   }
 }
 
@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DockerEngineClient, DockerEngineError, parseImageReference, registryOf, resolveDockerHost } from './dockerEngine';
+
+interface Recorded {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+/**
+ * Read entry names from an uncompressed tar archive (PAX `path` aware)
+ */
+function tarEntries(archive: Buffer): Record<string, string> {
+  const entries: Record<string, string> = {};
+  let offset = 0;
+  let paxPath: string | undefined;
+  while (offset + 512 <= archive.length) {
+    const header = archive.subarray(offset, offset + 512);
+    if (header.every(b => b === 0)) break;
+    const name = header.subarray(0, 100).toString('utf8').replace(/\0.*$/s, '');
+    const size = parseInt(header.subarray(124, 136).toString('ascii').replace(/\0.*$/s, ''), 8);
+    const type = String.fromCharCode(header[156]);
+    const data = archive.subarray(offset + 512, offset + 512 + size).toString('utf8');
+    if (type === 'x') {
+      paxPath = data.match(/\d+ path=(.*)\n/)?.[1];
+    } else {
+      entries[paxPath || name] = data;
+      paxPath = undefined;
+    }
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+  return entries;
+}
+
+function frame(stream: 1 | 2, text: string): Buffer {
+  const payload = Buffer.from(text);
+  const header = Buffer.alloc(8);
+  header[0] = stream;
+  header.writeUInt32BE(payload.length, 4);
+  return Buffer.concat([header, payload]);
+}
+
+describe('DockerEngineClient', () => {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'engine-spec-'));
+  const socketPath = path.join(tmp, 'docker.sock');
+  const requests: Recorded[] = [];
+  let buildResponse: object[] = [];
+  let server: http.Server;
+  let client: DockerEngineClient;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', c => chunks.push(c));
+      req.on('end', () => {
+        const url = req.url || '';
+        requests.push({ method: req.method || '', url, headers: req.headers, body: Buffer.concat(chunks) });
+        const pathname = url.split('?')[0];
+
+        if (pathname === '/v1.43/_ping') return res.end('OK');
+        if (pathname === '/v1.43/version') {
+          return res.end(JSON.stringify({ Version: '24.0.7', ApiVersion: '1.43', Os: 'linux', Arch: 'amd64' }));
+        }
+        if (pathname === '/v1.43/build') {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          return res.end(buildResponse.map(m => JSON.stringify(m)).join('\r\n'));
+        }
+        if (pathname === '/v1.43/images/missing/json') {
+          res.writeHead(404);
+          return res.end(JSON.stringify({ message: 'No such image: missing' }));
+        }
+        if (pathname === '/v1.43/images/registry.example.com%3A5000%2Fteam%2Fapp/push') {
+          res.writeHead(200);
+          return res.end([
+            { status: 'The push refers to repository [registry.example.com:5000/team/app]' },
+            { status: 'Pushing', progressDetail: { current: 10, total: 20 }, id: 'abc' },
+            { status: 'Pushed', progressDetail: {}, id: 'abc' },
+            { status: `v2: digest: sha256:${'a'.repeat(64)} size: 1234` }
+          ].map(m => JSON.stringify(m)).join('\n'));
+        }
+        if (pathname === '/v1.43/images/denied%2Fapp/push') {
+          res.writeHead(200);
+          return res.end(JSON.stringify({ errorDetail: { message: 'denied: requested access to the resource is denied' }, error: 'denied' }));
+        }
+        if (pathname === '/v1.43/containers/c1/json') {
+          return res.end(JSON.stringify({ Id: 'c1', Config: { Tty: false } }));
+        }
+        if (pathname === '/v1.43/containers/c1/logs') {
+          res.writeHead(200, { 'Content-Type': 'application/vnd.docker.raw-stream' });
+          const body = Buffer.concat([frame(1, 'listening on 8080\n'), frame(2, 'warning: debug mode\n')]);
+          // Split mid-frame to exercise reassembly
+          res.write(body.subarray(0, 5));
+          return res.end(body.subarray(5));
+        }
+        if (pathname === '/v1.43/containers/c1/exec') {
+          return res.end(JSON.stringify({ Id: 'e1' }));
+        }
+        if (pathname === '/v1.43/exec/e1/start') {
+          res.writeHead(200, { 'Content-Type': 'application/vnd.docker.raw-stream' });
+          return res.end('  sl  local_address\r\n');
+        }
+        if (pathname === '/v1.43/exec/e1/json') {
+          return res.end(JSON.stringify({ ExitCode: 0, Running: false }));
+        }
+        res.writeHead(404);
+        res.end(JSON.stringify({ message: `unexpected ${req.method} ${url}` }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(socketPath, resolve));
+    client = new DockerEngineClient({ host: `unix://${socketPath}`, apiVersion: '1.43' });
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  it('pings and reads the daemon version over the unix socket', async () => {
+    expect(await client.ping()).toBe(true);
+    expect(await client.version()).toMatchObject({ Version: '24.0.7', ApiVersion: '1.43' });
+  });
+
+  it('streams the context as tar and reports steps and the image id', async () => {
+    const context = path.join(tmp, 'context');
+    const longName = `${'nested/'.repeat(20)}file.txt`;
+    fs.mkdirSync(path.join(context, path.dirname(longName)), { recursive: true });
+    fs.writeFileSync(path.join(context, 'Dockerfile'), 'FROM alpine\nCOPY app.js .\n');
+    fs.writeFileSync(path.join(context, 'app.js'), 'console.log(1)\n');
+    fs.writeFileSync(path.join(context, 'secret.env'), 'TOKEN=x\n');
+    fs.writeFileSync(path.join(context, '.dockerignore'), '*.env\n');
+    fs.writeFileSync(path.join(context, longName), 'deep\n');
+
+    buildResponse = [
+      { stream: 'Step 1/2 : FROM alpine\n' },
+      { stream: ' ---> 3cc203321400\n' },
+      { stream: 'Step 2/2 : COPY app.js .\n' },
+      { stream: ' ---> Using cache\n' },
+      { aux: { ID: 'sha256:feedface' } },
+      { stream: 'Successfully built feedface\n' }
+    ];
+    const steps: string[] = [];
+    const result = await client.build(context, {
+      tags: ['demo/app:1', 'demo/app:latest'],
+      buildArgs: { NODE_ENV: 'production' },
+      onStep: step => steps.push(step.instruction)
+    });
+
+    expect(result).toMatchObject({ success: true, imageId: 'sha256:feedface' });
+    expect(steps).toEqual(['FROM alpine', 'COPY app.js .']);
+    expect(result.steps[1].cached).toBe(true);
+
+    const request = requests.find(r => r.url.startsWith('/v1.43/build'))!;
+    const query = new URLSearchParams(request.url.split('?')[1]);
+    expect(query.getAll('t')).toEqual(['demo/app:1', 'demo/app:latest']);
+    expect(JSON.parse(query.get('buildargs')!)).toEqual({ NODE_ENV: 'production' });
+    expect(request.headers['content-type']).toBe('application/x-tar');
+
+    const entries = tarEntries(request.body);
+    expect(Object.keys(entries)).toEqual(expect.arrayContaining(['Dockerfile', 'app.js', '.dockerignore', longName]));
+    expect(entries).not.toHaveProperty('secret.env');
+    expect(entries[longName]).toBe('deep\n');
+  });
+
+  it('embeds a Dockerfile that lives outside the context', async () => {
+    const context = path.join(tmp, 'outside');
+    fs.mkdirSync(context);
+    fs.writeFileSync(path.join(context, 'main.go'), 'package main\n');
+    const dockerfile = path.join(tmp, 'Custom.Dockerfile');
+    fs.writeFileSync(dockerfile, 'FROM golang:1.21\n');
+    buildResponse = [{ aux: { ID: 'sha256:beef' } }];
+
+    await client.build(context, { tags: ['demo/go'], dockerfile });
+
+    const request = requests.filter(r => r.url.startsWith('/v1.43/build')).pop()!;
+    const name = new URLSearchParams(request.url.split('?')[1]).get('dockerfile')!;
+    expect(tarEntries(request.body)[name]).toBe('FROM golang:1.21\n');
+  });
+
+  it('reports the failing step and exit code from errorDetail', async () => {
+    buildResponse = [
+      { stream: 'Step 1/2 : FROM node:20\n' },
+      { stream: 'Step 2/2 : RUN npm ci\n' },
+      { stream: 'npm ERR! code EUSAGE\n' },
+      { errorDetail: { code: 1, message: "The command '/bin/sh -c npm ci' returned a non-zero code: 1" }, error: 'failed' }
+    ];
+    const result = await client.build(path.join(tmp, 'context'), { tags: ['demo/fail'] });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toEqual({ code: 1, message: "The command '/bin/sh -c npm ci' returned a non-zero code: 1" });
+    expect(result.steps.map(s => s.index)).toEqual([1, 2]);
+    expect(result.steps[1].output).toContain('npm ERR! code EUSAGE');
+  });
+
+  it('returns null for images that do not exist', async () => {
+    expect(await client.inspectImage('missing')).toBeNull();
+  });
+
+  it('pushes with X-Registry-Auth and returns the digest', async () => {
+    const lines: string[] = [];
+    const result = await client.push('registry.example.com:5000/team/app:v2', {
+      auth: { username: 'ci', password: 'pw', serveraddress: 'registry.example.com:5000' },
+      onLog: line => lines.push(line)
+    });
+
+    expect(result.digest).toBe(`sha256:${'a'.repeat(64)}`);
+    expect(lines).not.toContain('abc: Pushing\n');
+    const request = requests.find(r => r.url.includes('/push'))!;
+    expect(request.url).toContain('tag=v2');
+    expect(JSON.parse(Buffer.from(request.headers['x-registry-auth'] as string, 'base64url').toString())).toMatchObject({ username: 'ci' });
+  });
+
+  it('rejects pushes the registry denies', async () => {
+    await expect(client.push('denied/app', { auth: {} })).rejects.toThrow(/requested access to the resource is denied/);
+  });
+
+  it('demultiplexes stdout and stderr container logs', async () => {
+    const lines: Array<[string, string]> = [];
+    const output = await client.containerLogs('c1', { onLog: (line, stream) => lines.push([stream, line]) });
+
+    expect(output).toBe('listening on 8080\nwarning: debug mode\n');
+    expect(lines).toEqual([['stdout', 'listening on 8080'], ['stderr', 'warning: debug mode']]);
+  });
+
+  it('runs a command in a container and returns its exit code', async () => {
+    requests.length = 0;
+    expect(await client.execInContainer('c1', ['cat', '/proc/net/tcp'])).toEqual({ exitCode: 0, output: '  sl  local_address\r\n' });
+    expect(JSON.parse(requests[0].body.toString())).toMatchObject({ Cmd: ['cat', '/proc/net/tcp'], Tty: true });
+    expect(requests.map(r => `${r.method} ${r.url}`)).toEqual(['POST /v1.43/containers/c1/exec', 'POST /v1.43/exec/e1/start', 'GET /v1.43/exec/e1/json']);
+  });
+
+  it('surfaces API errors with the status code', async () => {
+    const error = await client.stopContainer('nope').catch(e => e);
+    expect(error).toBeInstanceOf(DockerEngineError);
+    expect(error.statusCode).toBe(404);
+  });
+
+  it('reports an unreachable daemon', async () => {
+    const offline = new DockerEngineClient({ host: `unix://${path.join(tmp, 'missing.sock')}` });
+    expect(await offline.ping()).toBe(false);
+    await expect(offline.version()).rejects.toThrow(/Cannot connect to the Docker daemon/);
+  });
+});
+
+describe('image references', () => {
+  it('splits repository and tag', () => {
+    expect(parseImageReference('localhost:5000/app')).toEqual({ repository: 'localhost:5000/app', tag: 'latest' });
+    expect(parseImageReference('user/app:1.2')).toEqual({ repository: 'user/app', tag: '1.2' });
+  });
+
+  it('finds the registry host', () => {
+    expect(registryOf('user/app:1')).toBe('docker.io');
+    expect(registryOf('ghcr.io/org/app')).toBe('ghcr.io');
+    expect(registryOf('localhost:5000/app')).toBe('localhost:5000');
+  });
+
+  it('resolves DOCKER_HOST', () => {
+    expect(resolveDockerHost('unix:///run/user/1000/docker.sock')).toEqual({ socketPath: '/run/user/1000/docker.sock', secure: false });
+    expect(resolveDockerHost('tcp://10.0.0.5:2375')).toMatchObject({ hostname: '10.0.0.5', port: 2375 });
+  });
+});
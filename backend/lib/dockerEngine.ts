@@ -0,0 +1,804 @@
+import http from 'http';
+import https from 'https';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { filterDockerignore } from './dockerfileLinter';
+
+/**
+ * Minimal typed client for the Docker Engine API. Talks to the daemon over
+ * the unix socket, a Windows named pipe or TCP (DOCKER_HOST), so builds get
+ * structured progress instead of scraped CLI output.
+ */
+
+export class DockerEngineError extends Error {
+  constructor(readonly statusCode: number, message: string) {
+    super(message);
+    this.name = 'DockerEngineError';
+  }
+}
+
+export interface DockerEngineOptions {
+  host?: string; // unix:///var/run/docker.sock, npipe:////./pipe/docker_engine, tcp://host:2376
+  apiVersion?: string; // e.g. "1.43"; the daemon's default when omitted
+  tls?: { ca?: Buffer; cert?: Buffer; key?: Buffer };
+}
+
+export interface RegistryAuth {
+  username?: string;
+  password?: string;
+  identitytoken?: string;
+  serveraddress?: string;
+}
+
+export interface BuildStep {
+  index: number;
+  total: number;
+  instruction: string;
+  cached: boolean;
+  output: string[];
+  startedAt: string;
+  finishedAt?: string;
+}
+
+export interface EngineBuildOptions {
+  tags: string[];
+  dockerfile?: string; // Path to the Dockerfile, absolute or relative to the context
+  buildArgs?: Record<string, string>;
+  target?: string;
+  platform?: string;
+  labels?: Record<string, string>;
+  cacheFrom?: string[];
+  noCache?: boolean;
+  pull?: boolean;
+  registryAuth?: Record<string, RegistryAuth>; // Credentials for pulling base images, keyed by registry
+  onLog?: (chunk: string) => void;
+  onStep?: (step: BuildStep) => void;
+  signal?: AbortSignal;
+}
+
+export interface EngineBuildResult {
+  success: boolean;
+  imageId?: string;
+  steps: BuildStep[];
+  log: string;
+  error?: { message: string; code?: number };
+}
+
+export interface EnginePushResult {
+  digest?: string;
+  log: string;
+}
+
+export interface EngineVersion {
+  Version: string;
+  ApiVersion: string;
+  Os: string;
+  Arch: string;
+}
+
+export interface ImageInspect {
+  Id: string;
+  RepoTags: string[];
+  RepoDigests: string[];
+  Architecture: string;
+  Os: string;
+  Size: number;
+  Created: string;
+  Config: {
+    Env?: string[];
+    Cmd?: string[];
+    Entrypoint?: string[];
+    ExposedPorts?: Record<string, object>;
+    User?: string;
+    WorkingDir?: string;
+    Labels?: Record<string, string>;
+  };
+}
+
+export interface ImageHistoryEntry {
+  Id: string;
+  Created: number;
+  CreatedBy: string;
+  Tags: string[] | null;
+  Size: number;
+  Comment: string;
+}
+
+export interface ContainerCreateOptions {
+  image: string;
+  name?: string;
+  cmd?: string[];
+  entrypoint?: string[];
+  env?: Record<string, string>;
+  ports?: Array<{ container: number; host?: number; protocol?: 'tcp' | 'udp' }>;
+  volumes?: Array<{ source: string; target: string; readOnly?: boolean }>;
+  labels?: Record<string, string>;
+  memoryBytes?: number;
+  nanoCpus?: number;
+  autoRemove?: boolean;
+  restartPolicy?: 'no' | 'on-failure' | 'unless-stopped' | 'always';
+  network?: string; // Network name, or a mode such as 'none'
+  networkAliases?: string[];
+  pidsLimit?: number;
+  securityOpt?: string[]; // e.g. 'no-new-privileges'
+}
+
+export interface ContainerInspect {
+  Id: string;
+  Name: string;
+  Config: { Image: string; Labels?: Record<string, string> };
+  State: {
+    Status: string;
+    Running: boolean;
+    ExitCode: number;
+    OOMKilled?: boolean;
+    StartedAt: string;
+    FinishedAt: string;
+    Health?: { Status: 'starting' | 'healthy' | 'unhealthy' };
+  };
+  NetworkSettings: { Ports: Record<string, Array<{ HostIp: string; HostPort: string }> | null> };
+}
+
+export interface ContainerSummary {
+  Id: string;
+  Names: string[];
+  Image: string;
+  State: string;
+  Status: string;
+  Labels: Record<string, string>;
+}
+
+export interface ContainerLogOptions {
+  tail?: number;
+  since?: number; // Unix seconds
+  timestamps?: boolean;
+  follow?: boolean;
+  onLog?: (line: string, stream: 'stdout' | 'stderr') => void;
+  signal?: AbortSignal;
+}
+
+interface RequestOptions {
+  query?: Record<string, string | number | boolean | string[] | undefined>;
+  body?: unknown;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+const EMBEDDED_DOCKERFILE = '.autodeploy.Dockerfile';
+
+/**
+ * Resolve where the daemon listens from DOCKER_HOST, with the platform default
+ */
+export function resolveDockerHost(host = process.env.DOCKER_HOST): { socketPath?: string; hostname?: string; port?: number; secure: boolean } {
+  if (!host) {
+    return process.platform === 'win32'
+      ? { socketPath: '\\\\.\\pipe\\docker_engine', secure: false }
+      : { socketPath: '/var/run/docker.sock', secure: false };
+  }
+  if (host.startsWith('unix://')) return { socketPath: host.slice('unix://'.length), secure: false };
+  if (host.startsWith('npipe://')) return { socketPath: host.slice('npipe://'.length).replace(/\//g, '\\'), secure: false };
+
+  const match = host.match(/^(tcp|http|https):\/\/([^:/]+)(?::(\d+))?/);
+  if (!match) throw new DockerEngineError(0, `Unsupported DOCKER_HOST: ${host}`);
+  const secure = match[1] === 'https' || (match[1] === 'tcp' && process.env.DOCKER_TLS_VERIFY === '1');
+  return { hostname: match[2], port: match[3] ? Number(match[3]) : secure ? 2376 : 2375, secure };
+}
+
+/**
+ * Split an image reference into repository and tag
+ */
+export function parseImageReference(image: string): { repository: string; tag: string } {
+  const digest = image.indexOf('@');
+  if (digest !== -1) return { repository: image.slice(0, digest), tag: image.slice(digest + 1) };
+  const colon = image.lastIndexOf(':');
+  if (colon > image.lastIndexOf('/')) return { repository: image.slice(0, colon), tag: image.slice(colon + 1) };
+  return { repository: image, tag: 'latest' };
+}
+
+/**
+ * Registry host of an image reference (docker.io for Docker Hub images)
+ */
+export function registryOf(image: string): string {
+  const [first, ...rest] = image.split('/');
+  return rest.length > 0 && (first.includes('.') || first.includes(':') || first === 'localhost') ? first : 'docker.io';
+}
+
+/**
+ * Credentials for a registry from ~/.docker/config.json `auths` entries.
+ * Credential helpers are not supported.
+ */
+export function registryAuthFromConfig(registry: string): RegistryAuth | undefined {
+  const configDir = process.env.DOCKER_CONFIG || path.join(os.homedir(), '.docker');
+  try {
+    const config = JSON.parse(fs.readFileSync(path.join(configDir, 'config.json'), 'utf8'));
+    const keys = registry === 'docker.io'
+      ? ['https://index.docker.io/v1/', 'index.docker.io', 'docker.io', 'registry-1.docker.io']
+      : [registry, `https://${registry}`, `http://${registry}`];
+    const entry = keys.map(k => config.auths?.[k]).find(Boolean);
+    if (!entry?.auth) return entry?.identitytoken ? { identitytoken: entry.identitytoken, serveraddress: registry } : undefined;
+    const [username, ...password] = Buffer.from(entry.auth, 'base64').toString('utf8').split(':');
+    return { username, password: password.join(':'), serveraddress: registry };
+  } catch {
+    return undefined;
+  }
+}
+
+function encodeAuth(auth: unknown): string {
+  return Buffer.from(JSON.stringify(auth)).toString('base64url');
+}
+
+// --- Build context tarball -------------------------------------------------
+
+function writeOctal(block: Buffer, value: number, offset: number, length: number): void {
+  block.write(value.toString(8).padStart(length - 1, '0') + '\0', offset, length, 'ascii');
+}
+
+function tarHeader(name: string, size: number, mode: number, mtime: number, type: '0' | '2' | 'x', linkname = ''): Buffer {
+  const block = Buffer.alloc(512);
+  block.write(name, 0, 100, 'utf8');
+  writeOctal(block, mode & 0o7777, 100, 8);
+  writeOctal(block, 0, 108, 8);
+  writeOctal(block, 0, 116, 8);
+  writeOctal(block, size, 124, 12);
+  writeOctal(block, Math.floor(mtime), 136, 12);
+  block.fill(' ', 148, 156);
+  block.write(type, 156, 1, 'ascii');
+  block.write(linkname, 157, 100, 'utf8');
+  block.write('ustar\0', 257, 6, 'ascii');
+  block.write('00', 263, 2, 'ascii');
+  let checksum = 0;
+  for (const byte of block) checksum += byte;
+  block.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8, 'ascii');
+  return block;
+}
+
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  let length = Buffer.byteLength(body);
+  while (Buffer.byteLength(`${length}${body}`) !== length) length = Buffer.byteLength(`${length}${body}`);
+  return `${length}${body}`;
+}
+
+/**
+ * Headers for one entry; names over 100 bytes get a PAX extended header
+ */
+function entryHeaders(name: string, size: number, mode: number, mtime: number, type: '0' | '2', linkname = ''): Buffer[] {
+  const headers: Buffer[] = [];
+  const records = [
+    Buffer.byteLength(name) > 100 ? paxRecord('path', name) : '',
+    Buffer.byteLength(linkname) > 100 ? paxRecord('linkpath', linkname) : ''
+  ].join('');
+  if (records) {
+    const pax = Buffer.from(records);
+    headers.push(tarHeader('PaxHeader', pax.length, 0o644, mtime, 'x'), pax, Buffer.alloc((512 - (pax.length % 512)) % 512));
+  }
+  headers.push(tarHeader(name.slice(0, 100), size, mode, mtime, type, linkname.slice(0, 100)));
+  return headers;
+}
+
+function listContext(contextDir: string): string[] {
+  const files: string[] = [];
+  const walk = (relative: string) => {
+    const entries = fs.readdirSync(path.join(contextDir, relative), { withFileTypes: true })
+      .sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) walk(entryPath);
+      else if (entry.isFile() || entry.isSymbolicLink()) files.push(entryPath);
+    }
+  };
+  walk('');
+  return files;
+}
+
+/**
+ * Stream a build context as a tar archive, honouring .dockerignore. The
+ * Dockerfile and .dockerignore are always sent, like the docker CLI does;
+ * `extra` adds in-memory files such as a Dockerfile from outside the context.
+ */
+export function createContextTar(contextDir: string, options: { dockerfile?: string; extra?: Record<string, string> } = {}): Readable {
+  const dockerignorePath = path.join(contextDir, '.dockerignore');
+  const dockerignore = fs.existsSync(dockerignorePath) ? fs.readFileSync(dockerignorePath, 'utf8') : undefined;
+  const all = listContext(contextDir);
+  const kept = new Set(filterDockerignore(all, dockerignore));
+  for (const always of ['.dockerignore', options.dockerfile || 'Dockerfile']) {
+    if (all.includes(always)) kept.add(always);
+  }
+  const files = all.filter(f => kept.has(f) && !(options.extra && f in options.extra));
+
+  async function* generate() {
+    for (const file of files) {
+      const fullPath = path.join(contextDir, file);
+      const stat = fs.lstatSync(fullPath);
+      const mtime = stat.mtimeMs / 1000;
+      if (stat.isSymbolicLink()) {
+        yield* entryHeaders(file, 0, stat.mode, mtime, '2', fs.readlinkSync(fullPath));
+        continue;
+      }
+      yield* entryHeaders(file, stat.size, stat.mode, mtime, '0');
+      let written = 0;
+      for await (const chunk of fs.createReadStream(fullPath)) {
+        written += (chunk as Buffer).length;
+        yield chunk as Buffer;
+      }
+      if (written !== stat.size) throw new DockerEngineError(0, `${file} changed while creating the build context`);
+      yield Buffer.alloc((512 - (stat.size % 512)) % 512);
+    }
+    for (const [name, content] of Object.entries(options.extra || {})) {
+      const data = Buffer.from(content);
+      yield* entryHeaders(name, data.length, 0o644, Date.now() / 1000, '0');
+      yield data;
+      yield Buffer.alloc((512 - (data.length % 512)) % 512);
+    }
+    yield Buffer.alloc(1024);
+  }
+
+  return Readable.from(generate());
+}
+
+// --- Client ----------------------------------------------------------------
+
+export class DockerEngineClient {
+  private target: ReturnType<typeof resolveDockerHost>;
+  private apiVersion?: string;
+  private tls?: DockerEngineOptions['tls'];
+
+  constructor(options: DockerEngineOptions = {}) {
+    this.target = resolveDockerHost(options.host);
+    this.apiVersion = options.apiVersion || process.env.DOCKER_API_VERSION;
+    this.tls = options.tls || this.tlsFromEnv();
+  }
+
+  private tlsFromEnv(): DockerEngineOptions['tls'] {
+    const certPath = process.env.DOCKER_CERT_PATH;
+    if (!this.target.secure || !certPath) return undefined;
+    const read = (file: string) => fs.existsSync(path.join(certPath, file)) ? fs.readFileSync(path.join(certPath, file)) : undefined;
+    return { ca: read('ca.pem'), cert: read('cert.pem'), key: read('key.pem') };
+  }
+
+  /**
+   * Send a request and return the raw response once headers arrive.
+   * Non-2xx responses are turned into DockerEngineError with the daemon's message.
+   */
+  private async request(method: string, apiPath: string, options: RequestOptions = {}): Promise<http.IncomingMessage> {
+    const query = Object.entries(options.query || {})
+      .flatMap(([k, v]) => (Array.isArray(v) ? v : [v]).map(item => [k, item] as const))
+      .filter(([, v]) => v !== undefined && v !== '')
+      .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(String(v))}`)
+      .join('&');
+    const fullPath = `${this.apiVersion ? `/v${this.apiVersion}` : ''}${apiPath}${query ? `?${query}` : ''}`;
+
+    const headers: Record<string, string> = { ...options.headers };
+    let payload: Buffer | Readable | undefined;
+    if (options.body instanceof Readable) {
+      payload = options.body;
+    } else if (options.body !== undefined) {
+      payload = Buffer.from(JSON.stringify(options.body));
+      headers['Content-Type'] = 'application/json';
+      headers['Content-Length'] = String(payload.length);
+    }
+
+    const transport = this.target.secure ? https : http;
+    const response = await new Promise<http.IncomingMessage>((resolve, reject) => {
+      const req = transport.request({
+        method,
+        path: fullPath,
+        headers,
+        socketPath: this.target.socketPath,
+        hostname: this.target.socketPath ? undefined : this.target.hostname,
+        port: this.target.socketPath ? undefined : this.target.port,
+        signal: options.signal,
+        ...(this.tls || {})
+      }, resolve);
+      req.on('error', (err: NodeJS.ErrnoException) => {
+        const unreachable = err.code === 'ENOENT' || err.code === 'ECONNREFUSED' || err.code === 'EACCES';
+        reject(unreachable
+          ? new DockerEngineError(0, `Cannot connect to the Docker daemon at ${this.target.socketPath || this.target.hostname}: ${err.message}`)
+          : err);
+      });
+      if (payload instanceof Readable) {
+        payload.on('error', err => req.destroy(err));
+        payload.pipe(req);
+      } else {
+        req.end(payload);
+      }
+    });
+
+    const status = response.statusCode || 0;
+    if (status >= 200 && status < 300) return response;
+
+    const body = await readBody(response);
+    let message = body.toString('utf8').trim();
+    try {
+      message = JSON.parse(message).message || message;
+    } catch {
+      // Plain-text error body
+    }
+    throw new DockerEngineError(status, message || `Docker Engine API ${method} ${apiPath} failed with ${status}`);
+  }
+
+  private async requestJson<T>(method: string, apiPath: string, options: RequestOptions = {}): Promise<T> {
+    const body = await readBody(await this.request(method, apiPath, options));
+    return (body.length ? JSON.parse(body.toString('utf8')) : undefined) as T;
+  }
+
+  async ping(): Promise<boolean> {
+    try {
+      const body = await readBody(await this.request('GET', '/_ping'));
+      return body.toString('utf8') === 'OK';
+    } catch {
+      return false;
+    }
+  }
+
+  version(): Promise<EngineVersion> {
+    return this.requestJson<EngineVersion>('GET', '/version');
+  }
+
+  /**
+   * Validate registry credentials (the API equivalent of `docker login`)
+   */
+  async checkAuth(auth: RegistryAuth): Promise<void> {
+    await this.requestJson('POST', '/auth', { body: auth });
+  }
+
+  /**
+   * Build an image from a directory. Resolves with per-step progress; build
+   * failures are reported in `error`, transport failures throw.
+   */
+  async build(contextDir: string, options: EngineBuildOptions): Promise<EngineBuildResult> {
+    let dockerfile = options.dockerfile || 'Dockerfile';
+    const extra: Record<string, string> = {};
+    const absolute = path.resolve(contextDir, dockerfile);
+    const relative = path.relative(path.resolve(contextDir), absolute);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      // The daemon only sees the tarball, so a Dockerfile outside the context is embedded
+      extra[EMBEDDED_DOCKERFILE] = fs.readFileSync(absolute, 'utf8');
+      dockerfile = EMBEDDED_DOCKERFILE;
+    } else {
+      dockerfile = relative.split(path.sep).join('/');
+    }
+
+    const query: RequestOptions['query'] = {
+      t: options.tags,
+      dockerfile,
+      buildargs: options.buildArgs ? JSON.stringify(options.buildArgs) : undefined,
+      target: options.target,
+      platform: options.platform,
+      labels: options.labels ? JSON.stringify(options.labels) : undefined,
+      cachefrom: options.cacheFrom?.length ? JSON.stringify(options.cacheFrom) : undefined,
+      nocache: options.noCache ? 1 : undefined,
+      pull: options.pull ? 1 : undefined,
+      rm: 1,
+      forcerm: 1
+    };
+    const response = await this.request('POST', '/build', {
+      query,
+      headers: {
+        'Content-Type': 'application/x-tar',
+        ...(options.registryAuth ? { 'X-Registry-Config': encodeAuth(options.registryAuth) } : {})
+      },
+      body: createContextTar(contextDir, { dockerfile, extra }),
+      signal: options.signal
+    });
+
+    return this.readBuildStream(response, options);
+  }
+
+  private async readBuildStream(response: http.IncomingMessage, options: EngineBuildOptions): Promise<EngineBuildResult> {
+    const result: EngineBuildResult = { success: false, steps: [], log: '' };
+    let current: BuildStep | undefined;
+
+    const append = (text: string) => {
+      result.log += text;
+      options.onLog?.(text);
+    };
+
+    await readJsonStream(response, message => {
+      if (typeof message.stream === 'string') {
+        append(message.stream);
+        for (const line of message.stream.split('\n')) {
+          const step = line.match(/^Step (\d+)\/(\d+) : (.+)$/);
+          if (step) {
+            if (current) current.finishedAt = new Date().toISOString();
+            current = {
+              index: Number(step[1]),
+              total: Number(step[2]),
+              instruction: step[3],
+              cached: false,
+              output: [],
+              startedAt: new Date().toISOString()
+            };
+            result.steps.push(current);
+            options.onStep?.(current);
+          } else if (current && line.trim()) {
+            if (line.includes('---> Using cache')) current.cached = true;
+            current.output.push(line);
+          }
+          const built = line.match(/^Successfully built ([0-9a-f]+)/);
+          if (built && !result.imageId) result.imageId = built[1];
+        }
+      } else if (typeof message.status === 'string') {
+        append(`${message.id ? `${message.id}: ` : ''}${message.status}${message.progress ? ` ${message.progress}` : ''}\n`);
+      } else if (message.aux?.ID) {
+        result.imageId = message.aux.ID;
+      }
+      if (message.error || message.errorDetail) {
+        const detail = message.errorDetail || {};
+        result.error = { message: detail.message || message.error, code: detail.code };
+        append(`${result.error.message}\n`);
+      }
+    });
+
+    if (current) current.finishedAt = new Date().toISOString();
+    result.success = !result.error && !!result.imageId;
+    if (!result.error && !result.imageId) result.error = { message: 'Build finished without producing an image' };
+    return result;
+  }
+
+  /**
+   * Inspect an image; resolves null when it does not exist
+   */
+  async inspectImage(image: string): Promise<ImageInspect | null> {
+    try {
+      return await this.requestJson<ImageInspect>('GET', `/images/${encodeURIComponent(image)}/json`);
+    } catch (error) {
+      if (error instanceof DockerEngineError && error.statusCode === 404) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Write `image` as a `docker save` archive to `destination`
+   */
+  async exportImage(image: string, destination: string): Promise<void> {
+    const response = await this.request('GET', `/images/${encodeURIComponent(image)}/get`);
+    await pipeline(response, fs.createWriteStream(destination));
+  }
+
+  /**
+   * Layers of an image, newest first, with the instruction that created each
+   */
+  async imageHistory(image: string): Promise<ImageHistoryEntry[]> {
+    return this.requestJson<ImageHistoryEntry[]>('GET', `/images/${encodeURIComponent(image)}/history`);
+  }
+
+  async removeImage(image: string, force = false): Promise<void> {
+    await this.requestJson('DELETE', `/images/${encodeURIComponent(image)}`, { query: { force: force || undefined } });
+  }
+
+  /**
+   * Push an image. Without explicit credentials the ~/.docker/config.json
+   * entry for the image's registry is used.
+   */
+  async push(image: string, options: { auth?: RegistryAuth; onLog?: (chunk: string) => void; signal?: AbortSignal } = {}): Promise<EnginePushResult> {
+    const { repository, tag } = parseImageReference(image);
+    const auth = options.auth || registryAuthFromConfig(registryOf(image)) || {};
+    const response = await this.request('POST', `/images/${encodeURIComponent(repository)}/push`, {
+      query: { tag },
+      headers: { 'X-Registry-Auth': encodeAuth(auth) },
+      signal: options.signal
+    });
+
+    const result: EnginePushResult = { log: '' };
+    let failure: string | undefined;
+    await readJsonStream(response, message => {
+      if (message.error || message.errorDetail) {
+        failure = message.errorDetail?.message || message.error;
+        return;
+      }
+      if (typeof message.status !== 'string') return;
+      // Layer progress updates are noisy; only report state changes
+      if (message.progressDetail && Object.keys(message.progressDetail).length > 0) return;
+      const line = `${message.id ? `${message.id}: ` : ''}${message.status}\n`;
+      result.log += line;
+      options.onLog?.(line);
+      const digest = message.status.match(/digest: (sha256:[0-9a-f]{64})/);
+      if (digest) result.digest = digest[1];
+    });
+
+    if (failure) throw new DockerEngineError(0, failure);
+    return result;
+  }
+
+  /**
+   * Create and start a container, returning its id
+   */
+  async runContainer(options: ContainerCreateOptions): Promise<string> {
+    const exposed: Record<string, object> = {};
+    const bindings: Record<string, Array<{ HostPort: string }>> = {};
+    for (const port of options.ports || []) {
+      const key = `${port.container}/${port.protocol || 'tcp'}`;
+      exposed[key] = {};
+      bindings[key] = [{ HostPort: port.host ? String(port.host) : '' }];
+    }
+
+    const created = await this.requestJson<{ Id: string }>('POST', '/containers/create', {
+      query: { name: options.name },
+      body: {
+        Image: options.image,
+        Cmd: options.cmd,
+        Entrypoint: options.entrypoint,
+        Env: Object.entries(options.env || {}).map(([k, v]) => `${k}=${v}`),
+        ExposedPorts: exposed,
+        Labels: options.labels,
+        HostConfig: {
+          PortBindings: bindings,
+          Binds: (options.volumes || []).map(v => `${v.source}:${v.target}${v.readOnly ? ':ro' : ''}`),
+          Memory: options.memoryBytes,
+          NanoCpus: options.nanoCpus,
+          AutoRemove: options.autoRemove,
+          RestartPolicy: options.restartPolicy ? { Name: options.restartPolicy } : undefined,
+          NetworkMode: options.network,
+          PidsLimit: options.pidsLimit,
+          SecurityOpt: options.securityOpt
+        },
+        NetworkingConfig: options.network && options.networkAliases?.length
+          ? { EndpointsConfig: { [options.network]: { Aliases: options.networkAliases } } }
+          : undefined
+      }
+    });
+    await this.requestJson('POST', `/containers/${created.Id}/start`);
+    return created.Id;
+  }
+
+  inspectContainer(id: string): Promise<ContainerInspect> {
+    return this.requestJson<ContainerInspect>('GET', `/containers/${encodeURIComponent(id)}/json`);
+  }
+
+  /**
+   * Containers matching all of the given labels (`key` or `key=value`), running or not
+   */
+  listContainers(labels: string[] = []): Promise<ContainerSummary[]> {
+    return this.requestJson<ContainerSummary[]>('GET', '/containers/json', {
+      query: { all: 1, filters: JSON.stringify({ label: labels }) }
+    });
+  }
+
+  async startContainer(id: string): Promise<void> {
+    try {
+      await this.requestJson('POST', `/containers/${encodeURIComponent(id)}/start`);
+    } catch (error) {
+      // 304: already running
+      if (!(error instanceof DockerEngineError && error.statusCode === 304)) throw error;
+    }
+  }
+
+  async restartContainer(id: string, timeoutSeconds = 10): Promise<void> {
+    await this.requestJson('POST', `/containers/${encodeURIComponent(id)}/restart`, { query: { t: timeoutSeconds } });
+  }
+
+  /**
+   * Create a bridge network unless one with this name exists
+   */
+  async ensureNetwork(name: string, labels: Record<string, string> = {}): Promise<void> {
+    const existing = await this.requestJson<Array<{ Name: string }>>('GET', '/networks', {
+      query: { filters: JSON.stringify({ name: [name] }) }
+    });
+    if (existing.some(n => n.Name === name)) return;
+    await this.requestJson('POST', '/networks/create', { body: { Name: name, Driver: 'bridge', Labels: labels } });
+  }
+
+  async removeNetwork(name: string): Promise<void> {
+    try {
+      await this.requestJson('DELETE', `/networks/${encodeURIComponent(name)}`);
+    } catch (error) {
+      if (!(error instanceof DockerEngineError && error.statusCode === 404)) throw error;
+    }
+  }
+
+  async stopContainer(id: string, timeoutSeconds = 10): Promise<void> {
+    try {
+      await this.requestJson('POST', `/containers/${encodeURIComponent(id)}/stop`, { query: { t: timeoutSeconds } });
+    } catch (error) {
+      // 304: already stopped
+      if (!(error instanceof DockerEngineError && error.statusCode === 304)) throw error;
+    }
+  }
+
+  async removeContainer(id: string, force = true): Promise<void> {
+    await this.requestJson('DELETE', `/containers/${encodeURIComponent(id)}`, { query: { force: force || undefined, v: 1 } });
+  }
+
+  /**
+   * Wait for a container to exit and return its exit code
+   */
+  async waitContainer(id: string): Promise<number> {
+    const result = await this.requestJson<{ StatusCode: number }>('POST', `/containers/${encodeURIComponent(id)}/wait`);
+    return result.StatusCode;
+  }
+
+  /**
+   * Run a command inside a running container and collect its combined output
+   */
+  async execInContainer(id: string, cmd: string[]): Promise<{ exitCode: number; output: string }> {
+    const exec = await this.requestJson<{ Id: string }>('POST', `/containers/${encodeURIComponent(id)}/exec`, {
+      body: { Cmd: cmd, AttachStdout: true, AttachStderr: true, Tty: true }
+    });
+    // With a TTY the output comes back as one raw stream, no multiplexing
+    const response = await this.request('POST', `/exec/${exec.Id}/start`, { body: { Detach: false, Tty: true } });
+    const output = (await readBody(response)).toString('utf8');
+    const result = await this.requestJson<{ ExitCode: number | null }>('GET', `/exec/${exec.Id}/json`);
+    return { exitCode: result.ExitCode ?? -1, output };
+  }
+
+  /**
+   * Read container logs, demultiplexing stdout/stderr. With `follow` the
+   * promise resolves when the container stops or `signal` aborts.
+   */
+  async containerLogs(id: string, options: ContainerLogOptions = {}): Promise<string> {
+    const { Config } = await this.requestJson<{ Config: { Tty: boolean } }>('GET', `/containers/${encodeURIComponent(id)}/json`);
+    const response = await this.request('GET', `/containers/${encodeURIComponent(id)}/logs`, {
+      query: {
+        stdout: 1,
+        stderr: 1,
+        follow: options.follow ? 1 : undefined,
+        tail: options.tail,
+        since: options.since,
+        timestamps: options.timestamps ? 1 : undefined
+      },
+      signal: options.signal
+    });
+
+    let output = '';
+    const emit = (text: string, stream: 'stdout' | 'stderr') => {
+      output += text;
+      if (options.onLog) text.split('\n').filter(Boolean).forEach(line => options.onLog!(line, stream));
+    };
+
+    let pending = Buffer.alloc(0);
+    try {
+      for await (const chunk of response) {
+        if (Config.Tty) {
+          emit((chunk as Buffer).toString('utf8'), 'stdout');
+          continue;
+        }
+        pending = Buffer.concat([pending, chunk as Buffer]);
+        while (pending.length >= 8) {
+          const size = pending.readUInt32BE(4);
+          if (pending.length < 8 + size) break;
+          emit(pending.subarray(8, 8 + size).toString('utf8'), pending[0] === 2 ? 'stderr' : 'stdout');
+          pending = pending.subarray(8 + size);
+        }
+      }
+    } catch (error) {
+      if (!options.signal?.aborted) throw error;
+    }
+    return output;
+  }
+}
+
+async function readBody(response: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of response) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Parse a newline-delimited JSON progress stream
+ */
+async function readJsonStream(response: http.IncomingMessage, onMessage: (message: any) => void): Promise<void> {
+  let buffer = '';
+  const flush = (line: string) => {
+    if (!line.trim()) return;
+    try {
+      onMessage(JSON.parse(line));
+    } catch {
+      onMessage({ stream: `${line}\n` });
+    }
+  };
+  for await (const chunk of response) {
+    buffer += (chunk as Buffer).toString('utf8');
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      flush(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+    }
+  }
+  flush(buffer);
+}
+
+export const dockerEngine = new DockerEngineClient();
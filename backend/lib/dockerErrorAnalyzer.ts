@@ -4,15 +4,7 @@ import { StringOutputParser } from '@langchain/core/output_parsers';
 import { RunnableSequence } from '@langchain/core/runnables';
 import * as fs from 'fs';
 import * as path from 'path';
-
-export interface DockerBuildError {
-  type: 'missing_file' | 'permission' | 'syntax' | 'dependency' | 'unknown';
-  missingFile?: string;
-  errorMessage: string;
-  lineNumber?: number;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  suggestedAction: 'generate_file' | 'remove_instruction' | 'fix_permission' | 'manual_fix' | 'remove_dockerignore' | 'remove_npmrc' | 'fix_tag_case';
-}
+import { classifyBuildError, BuildError, BuildErrorAction, BuildErrorCategory, BuildErrorSeverity } from '../../shared/buildErrors';
 
 export interface FileGenerationRequest {
   fileName: string;
@@ -42,11 +34,18 @@ export class DockerErrorAnalyzer {
   }
 
   /**
-   * Parse Docker build error and extract missing file information
+   * Classify a Docker build error. Known BuildKit/legacy builder signatures
+   * are classified deterministically; only unrecognised output is sent to the LLM.
    */
-  async analyzeDockerError(errorOutput: string, projectContext: string): Promise<DockerBuildError> {
+  async analyzeDockerError(errorOutput: string, projectContext: string): Promise<BuildError> {
     console.log('🔍 Analyzing Docker build error...');
 
+    const classified = classifyBuildError(errorOutput);
+    if (classified.code !== 'UNKNOWN') {
+      console.log(`📊 Classified as ${classified.code}: ${classified.message}`);
+      return classified;
+    }
+
     const analysisPrompt = PromptTemplate.fromTemplate(`
 You are an expert DevOps engineer analyzing Docker build errors.
 
@@ -57,25 +56,19 @@ Project Context:
 {projectContext}
 
 Analyze this Docker build error and determine:
-1. What type of error this is (missing_file, permission, syntax, dependency, unknown)
-2. If it's a missing file error, what file is missing
+1. The error category (missing_file, permission, syntax, dependency, network, resource, platform, command, unknown)
+2. If a file is missing or at fault, which file (relative to the build context)
 3. The severity level (low, medium, high, critical)
-4. What action should be taken (generate_file, remove_instruction, fix_permission, manual_fix)
-
-Common missing file patterns:
-- "lstat ... no such file or directory"
-- "COPY failed: file not found"
-- "ADD failed: file not found"
-- "failed to compute cache key"
+4. What action should be taken (generate_file, remove_instruction, fix_permission, retry, manual_fix)
 
 Respond with a JSON object containing:
 {{
-  "type": "missing_file|permission|syntax|dependency|unknown",
-  "missingFile": "path/to/missing/file" (if applicable),
-  "errorMessage": "cleaned error message",
-  "lineNumber": 123 (if applicable),
+  "category": "missing_file|permission|syntax|dependency|network|resource|platform|command|unknown",
+  "file": "path/to/file" (if applicable),
+  "message": "cleaned error message",
+  "line": 123 (Dockerfile line, if applicable),
   "severity": "low|medium|high|critical",
-  "suggestedAction": "generate_file|remove_instruction|fix_permission|manual_fix"
+  "action": "generate_file|remove_instruction|fix_permission|retry|manual_fix"
 }}
 `);
 
@@ -103,94 +96,29 @@ Respond with a JSON object containing:
         cleanResult = cleanResult.replace(/```\s*/, '').replace(/```\s*$/, '');
       }
 
-      const parsed = JSON.parse(cleanResult);
+      const parsed = JSON.parse(cleanResult) as {
+        category?: BuildErrorCategory;
+        file?: string;
+        message?: string;
+        line?: number;
+        severity?: BuildErrorSeverity;
+        action?: BuildErrorAction;
+      };
       console.log('📊 Error analysis result:', parsed);
-      return parsed as DockerBuildError;
+
+      return {
+        ...classified,
+        category: parsed.category || classified.category,
+        severity: parsed.severity || classified.severity,
+        action: parsed.action || classified.action,
+        message: parsed.message || classified.message,
+        ...(parsed.file ? { file: parsed.file } : {}),
+        ...(typeof parsed.line === 'number' ? { line: parsed.line } : {}),
+      };
     } catch (error) {
       console.error('❌ Error parsing failed:', error);
       console.log('Raw result:', result);
-      
-                    // Fallback: try to extract basic info from the error
-              if (errorOutput.includes('invalid file request') || errorOutput.includes('no such file or directory') || errorOutput.includes('not found')) {
-                const missingFileMatch = errorOutput.match(/invalid file request\s+(.+)/) ||
-                                        errorOutput.match(/lstat\s+(.+?)\s+no such file/) ||
-                                        errorOutput.match(/failed to calculate checksum.*"([^"]+)".*not found/) ||
-                                        errorOutput.match(/COPY\s+([^\s]+)\s+.*not found/) ||
-                                        errorOutput.match(/failed to calculate checksum.*"([^"]+)".*not found/);
-
-                const missingFile = missingFileMatch ? missingFileMatch[1].trim() : undefined;
-                
-                // Special handling for .dockerignore errors
-                if (missingFile === '.dockerignore' || errorOutput.includes('invalid file request .dockerignore')) {
-                  return {
-                    type: 'missing_file',
-                    missingFile: '.dockerignore',
-                    errorMessage: errorOutput,
-                    severity: 'high',
-                    suggestedAction: 'remove_dockerignore',
-                  };
-                }
-                
-                // Special handling for .npmrc errors
-                if (missingFile === '.npmrc' || errorOutput.includes('invalid file request .npmrc')) {
-                  return {
-                    type: 'missing_file',
-                    missingFile: '.npmrc',
-                    errorMessage: errorOutput,
-                    severity: 'high',
-                    suggestedAction: 'remove_npmrc',
-                  };
-                }
-                
-                // Special handling for backend directory errors
-                if (missingFile === 'backend' || missingFile === '/backend' || errorOutput.includes('"/backend": not found')) {
-                  return {
-                    type: 'missing_file',
-                    missingFile: 'backend',
-                    errorMessage: errorOutput,
-                    severity: 'high',
-                    suggestedAction: 'remove_instruction',
-                  };
-                }
-                
-                // For directory errors, suggest removing the instruction instead of generating
-                if (missingFile && (missingFile.includes('/') || missingFile === 'backend' || missingFile === '/backend')) {
-                  return {
-                    type: 'missing_file',
-                    missingFile,
-                    errorMessage: errorOutput,
-                    severity: 'high',
-                    suggestedAction: 'remove_instruction',
-                  };
-                }
-                
-                // Always suggest generating files for missing file errors
-                return {
-                  type: 'missing_file',
-                  missingFile,
-                  errorMessage: errorOutput,
-                  severity: 'high',
-                  suggestedAction: 'generate_file',
-                };
-              }
-              
-              // Check for Docker tag case sensitivity errors
-              if (errorOutput.includes('repository name must be lowercase') || 
-                  errorOutput.includes('invalid tag')) {
-                return {
-                  type: 'syntax',
-                  errorMessage: errorOutput,
-                  severity: 'high',
-                  suggestedAction: 'fix_tag_case',
-                };
-              }
-      
-      return {
-        type: 'unknown',
-        errorMessage: errorOutput,
-        severity: 'high',
-        suggestedAction: 'manual_fix',
-      };
+      return classified;
     }
   }
 
@@ -1,4 +1,7 @@
-import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { dockerEngine, resolveDockerHost } from './dockerEngine';
 
 export interface DockerStatus {
   isInstalled: boolean;
@@ -14,44 +17,30 @@ export class DockerStatusChecker {
    */
   async checkDockerStatus(): Promise<DockerStatus> {
     try {
-      console.log('🔍 Checking Docker installation...');
-      
-      // Check if Docker is installed with a shorter timeout
-      const versionResult = await this.runCommand('docker', ['--version'], 5000);
-      
-      if (!versionResult.success) {
-        console.log('❌ Docker not installed or not in PATH');
-        return {
-          isInstalled: false,
-          isRunning: false,
-          canBuild: false,
-          error: versionResult.error || 'Docker is not installed or not in PATH'
-        };
-      }
+      console.log('🔍 Checking Docker daemon status...');
 
-      console.log('✅ Docker is installed:', versionResult.output);
+      const version = await this.withTimeout(dockerEngine.version(), 8000).catch((error: Error) => error);
 
-      // Check if Docker daemon is running with a shorter timeout
-      console.log('🔍 Checking Docker daemon status...');
-      const psResult = await this.runCommand('docker', ['ps', '--format', 'table'], 8000);
-      
-      if (!psResult.success) {
-        console.log('❌ Docker daemon not running:', psResult.error);
+      if (version instanceof Error) {
+        const { socketPath } = resolveDockerHost();
+        const isInstalled = !socketPath || fs.existsSync(socketPath);
+        console.log(isInstalled ? `❌ Docker daemon not running: ${version.message}` : '❌ Docker not installed');
         return {
-          isInstalled: true,
+          isInstalled,
           isRunning: false,
-          version: versionResult.output,
           canBuild: false,
-          error: psResult.error || 'Docker Desktop is not running. Please start Docker Desktop.'
+          error: isInstalled
+            ? version.message || 'Docker Desktop is not running. Please start Docker Desktop.'
+            : 'Docker is not installed (no Docker Engine socket found)'
         };
       }
 
-      console.log('✅ Docker daemon is running');
-      
+      console.log(`✅ Docker daemon is running: ${version.Version} (API ${version.ApiVersion}, ${version.Os}/${version.Arch})`);
+
       return {
         isInstalled: true,
         isRunning: true,
-        version: versionResult.output,
+        version: `Docker version ${version.Version}`,
         canBuild: true
       };
 
@@ -108,6 +97,7 @@ export class DockerStatusChecker {
    * 🧪 Test Docker build capability
    */
   async testDockerBuild(): Promise<{ success: boolean; error?: string; output?: string }> {
+    const testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'docker-test-'));
     try {
       console.log('🧪 Testing Docker build capability...');
       
@@ -116,43 +106,25 @@ export class DockerStatusChecker {
 RUN echo "Docker build test successful"
 CMD ["echo", "Hello from Docker!"]`;
 
-      const fs = require('fs');
-      const path = require('path');
-      const testDir = path.join(process.cwd(), 'temp-docker-test');
-      const testDockerfilePath = path.join(testDir, 'Dockerfile');
-      
-      // Create test directory
-      if (!fs.existsSync(testDir)) {
-        fs.mkdirSync(testDir, { recursive: true });
-      }
-      
-      fs.writeFileSync(testDockerfilePath, testDockerfile);
+      fs.writeFileSync(path.join(testDir, 'Dockerfile'), testDockerfile);
 
       // Try to build the test image with a longer timeout for build operations
       console.log('🔨 Building test Docker image...');
-      const result = await this.runCommand('docker', [
-        'build', 
-        '-f', testDockerfilePath, 
-        '-t', 'docker-test-image', 
-        testDir
-      ], 30000); // 30 second timeout for build
+      const result = await dockerEngine.build(testDir, {
+        tags: ['docker-test-image'],
+        signal: AbortSignal.timeout(30000) // 30 second timeout for build
+      });
 
-      // Clean up
-      try {
-        console.log('🧹 Cleaning up test files...');
-        fs.unlinkSync(testDockerfilePath);
-        fs.rmdirSync(testDir);
-        await this.runCommand('docker', ['rmi', 'docker-test-image'], 10000);
-      } catch (e) {
-        console.log('⚠️ Cleanup warning:', e);
-        // Ignore cleanup errors
+      if (result.success) {
+        console.log('🧹 Cleaning up test image...');
+        await dockerEngine.removeImage('docker-test-image', true).catch(e => console.log('⚠️ Cleanup warning:', e));
       }
 
       console.log('✅ Docker build test completed');
       return {
         success: result.success,
-        error: result.success ? undefined : result.error,
-        output: result.output
+        error: result.error?.message,
+        output: result.log.trim()
       };
 
     } catch (error) {
@@ -161,6 +133,8 @@ CMD ["echo", "Hello from Docker!"]`;
         success: false,
         error: error instanceof Error ? error.message : 'Docker build test failed'
       };
+    } finally {
+      fs.rmSync(testDir, { recursive: true, force: true });
     }
   }
 
@@ -199,64 +173,14 @@ CMD ["echo", "Hello from Docker!"]`;
     };
   }
 
-  private async runCommand(command: string, args: string[], timeoutMs: number = 10000): Promise<{
-    success: boolean;
-    output?: string;
-    error?: string;
-  }> {
-    return new Promise((resolve) => {
-      const process = spawn(command, args, { 
-        stdio: ['ignore', 'pipe', 'pipe'],
-        shell: true 
-      });
-
-      let output = '';
-      let error = '';
-      let isResolved = false;
-
-      // Set up timeout
-      const timeout = setTimeout(() => {
-        if (!isResolved) {
-          isResolved = true;
-          process.kill('SIGTERM');
-          resolve({
-            success: false,
-            error: `Command timed out after ${timeoutMs}ms`
-          });
-        }
-      }, timeoutMs);
-
-      process.stdout.on('data', (data) => {
-        output += data.toString();
-      });
-
-      process.stderr.on('data', (data) => {
-        error += data.toString();
-      });
-
-      process.on('close', (code) => {
-        if (!isResolved) {
-          isResolved = true;
-          clearTimeout(timeout);
-          resolve({
-            success: code === 0,
-            output: output.trim(),
-            error: error.trim()
-          });
-        }
-      });
-
-      process.on('error', (err) => {
-        if (!isResolved) {
-          isResolved = true;
-          clearTimeout(timeout);
-          resolve({
-            success: false,
-            error: err.message
-          });
-        }
-      });
-    });
+  private withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+    let timer: NodeJS.Timeout;
+    return Promise.race([
+      promise,
+      new Promise<T>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Docker Engine did not respond within ${timeoutMs}ms`)), timeoutMs);
+      })
+    ]).finally(() => clearTimeout(timer));
   }
 }
 
@@ -0,0 +1,242 @@
+import { describe, it, expect } from 'vitest';
+import { applyLintFixes, filterDockerignore, lintDockerfile, LintContext, LINT_RULES } from './dockerfileLinter';
+
+const dockerfile = (...lines: string[]) => `${lines.join('\n')}\n`;
+const ruleIds = (content: string, context: LintContext = {}) => lintDockerfile(content, context).findings.map(f => f.ruleId);
+
+const CLEAN = dockerfile(
+  'FROM node:20-alpine AS builder',
+  'WORKDIR /app',
+  'COPY package.json package-lock.json ./',
+  'RUN npm ci',
+  'COPY . .',
+  'RUN npm run build',
+  '',
+  'FROM node:20-alpine',
+  'WORKDIR /app',
+  'COPY --from=builder /app/dist ./dist',
+  'USER node',
+  'EXPOSE 3000',
+  'CMD ["node", "dist/server.js"]'
+);
+
+// For every rule: Dockerfiles it must flag, and close calls it must leave alone
+const CASES: Record<string, { fires: [string, LintContext?][]; quiet: [string, LintContext?][] }> = {
+  AD1000: {
+    fires: [[dockerfile('FROM alpine:3.20', 'RUNN echo hi')], [dockerfile('RUN echo hi')]],
+    quiet: [[CLEAN]]
+  },
+  DL3006: {
+    fires: [
+      [dockerfile('FROM ubuntu', 'USER nobody')],
+      [dockerfile('ARG IMAGE=ubuntu', 'FROM $IMAGE', 'USER nobody')],
+      [dockerfile('FROM localhost:5000/app', 'USER nobody')]
+    ],
+    quiet: [
+      [dockerfile('FROM ubuntu:24.04', 'USER nobody')],
+      [dockerfile('FROM ubuntu@sha256:0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef', 'USER nobody')],
+      [dockerfile('FROM scratch', 'COPY app /app')],
+      [dockerfile('FROM node:20 AS base', 'FROM base', 'USER node')],
+      [dockerfile('FROM localhost:5000/app:1', 'USER nobody')]
+    ]
+  },
+  DL3007: {
+    fires: [[dockerfile('FROM node:latest', 'USER node')], [dockerfile('ARG TAG=latest', 'FROM node:${TAG}', 'USER node')]],
+    quiet: [[dockerfile('ARG TAG=20', 'FROM node:${TAG}', 'USER node')], [dockerfile('FROM latest/node:20', 'USER node')]]
+  },
+  DL3002: {
+    fires: [[dockerfile('FROM alpine:3.20', 'USER root')], [dockerfile('FROM alpine:3.20', 'ARG RUN_AS=0', 'USER ${RUN_AS}:0')]],
+    quiet: [
+      [dockerfile('FROM alpine:3.20 AS build', 'USER root', 'FROM alpine:3.20', 'USER nobody')],
+      [dockerfile('FROM alpine:3.20', 'USER root', 'RUN apk add --no-cache curl', 'USER nobody')]
+    ]
+  },
+  AD1001: {
+    fires: [[dockerfile('FROM alpine:3.20', 'CMD ["sh"]')], [dockerfile('FROM alpine:3.20 AS build', 'USER nobody', 'FROM alpine:3.20', 'CMD ["sh"]')]],
+    quiet: [
+      [dockerfile('FROM gcr.io/distroless/static-debian12:nonroot', 'CMD ["/app"]')],
+      [dockerfile('FROM scratch', 'COPY app /app')],
+      [dockerfile('FROM alpine:3.20 AS base', 'USER nobody', 'FROM base', 'CMD ["sh"]')]
+    ]
+  },
+  DL3009: {
+    fires: [[dockerfile('FROM debian:bookworm', 'RUN apt-get update && apt-get -y install --no-install-recommends curl', 'USER nobody')]],
+    quiet: [
+      [dockerfile('FROM debian:bookworm', 'RUN apt-get update && apt-get install -y --no-install-recommends curl \\', '    && rm -rf /var/lib/apt/lists/*', 'USER nobody')],
+      [dockerfile('FROM debian:bookworm', 'RUN --mount=type=cache,target=/var/lib/apt apt-get update && apt-get install -y --no-install-recommends curl', 'USER nobody')],
+      [dockerfile('FROM debian:bookworm', 'RUN apt-get update', 'USER nobody')]
+    ]
+  },
+  DL3015: {
+    fires: [[dockerfile('FROM debian:bookworm', 'RUN apt-get install -y curl && rm -rf /var/lib/apt/lists/*', 'USER nobody')]],
+    quiet: [[dockerfile('FROM debian:bookworm', 'RUN apt-get install -y --no-install-recommends curl && rm -rf /var/lib/apt/lists/*', 'USER nobody')]]
+  },
+  DL3020: {
+    fires: [[dockerfile('FROM alpine:3.20', 'ADD app.py requirements.txt /app/', 'USER nobody')]],
+    quiet: [
+      [dockerfile('FROM alpine:3.20', 'ADD https://example.com/tool.sh /usr/local/bin/', 'USER nobody')],
+      [dockerfile('FROM alpine:3.20', 'ADD rootfs.tar.gz /', 'USER nobody')],
+      [dockerfile('FROM alpine:3.20', 'ADD https://github.com/acme/app.git /src', 'USER nobody')]
+    ]
+  },
+  AD1002: {
+    fires: [
+      [dockerfile('FROM alpine:3.20', 'COPY config.yml /etc/app/', 'USER nobody'), { files: ['app.py'] }],
+      [dockerfile('FROM alpine:3.20', 'COPY secrets/app.key /etc/app/', 'USER nobody'), { files: ['secrets/app.key'], dockerignore: 'secrets\n' }],
+      [dockerfile('FROM alpine:3.20', 'COPY web/node_modules /app/', 'USER nobody'), { files: ['web/node_modules/a.js'], dockerignore: '**/node_modules\n' }]
+    ],
+    quiet: [
+      [dockerfile('FROM alpine:3.20', 'COPY config.yml /etc/app/', 'USER nobody')],
+      [dockerfile('FROM alpine:3.20', 'ARG CONF=config.yml', 'COPY $CONF src/*.py ./', 'USER nobody'), { files: ['config.yml', 'src/main.py'] }],
+      [dockerfile('FROM alpine:3.20', 'COPY secrets/public.pem /etc/app/', 'USER nobody'), { files: ['secrets/public.pem'], dockerignore: 'secrets\n!secrets/public.pem\n' }],
+      [dockerfile('FROM alpine:3.20 AS build', 'FROM alpine:3.20', 'COPY --from=build /out /out', 'COPY $UNSET ./', 'USER nobody'), { files: [] }]
+    ]
+  },
+  DL3022: {
+    fires: [
+      [dockerfile('FROM alpine:3.20', 'COPY --from=builder /out /out', 'USER nobody')],
+      [dockerfile('FROM alpine:3.20', 'COPY --from=later /out /out', 'FROM alpine:3.20 AS later', 'USER nobody')]
+    ],
+    quiet: [[CLEAN], [dockerfile('FROM alpine:3.20 AS Build', 'FROM alpine:3.20', 'COPY --from=0 /a /a', 'COPY --from=BUILD /b /b', 'COPY --from=nginx:1.27 /c /c', 'USER nobody')]]
+  },
+  DL3024: {
+    fires: [[dockerfile('FROM alpine:3.20 AS build', 'FROM alpine:3.20 AS Build', 'USER nobody')]],
+    quiet: [[CLEAN]]
+  },
+  AD1003: {
+    fires: [[CLEAN, { expectedPort: 8080 }], [CLEAN.replace('EXPOSE 3000\n', ''), { expectedPort: 3000 }]],
+    quiet: [[CLEAN, { expectedPort: 3000 }], [CLEAN.replace('EXPOSE 3000', 'ENV PORT=3000\nEXPOSE $PORT/tcp'), { expectedPort: 3000 }], [CLEAN.replace('EXPOSE 3000\n', '')]]
+  },
+  AD1004: {
+    fires: [[dockerfile('FROM alpine:3.20', 'ENV DB_PASSWORD=hunter2', 'USER nobody')], [dockerfile('FROM alpine:3.20', 'ARG NPM_TOKEN=npm_abc', 'USER nobody')]],
+    quiet: [
+      [dockerfile('FROM alpine:3.20', 'ARG NPM_TOKEN', 'ENV API_KEY=$API_KEY TOKEN_TTL=60', 'USER nobody')],
+      [dockerfile('FROM alpine:3.20', 'ENV PASSWORD_MIN_LENGTH=12', 'USER nobody')]
+    ]
+  },
+  DL3025: {
+    fires: [[dockerfile('FROM alpine:3.20', 'USER nobody', 'CMD ./server --port 8080')], [dockerfile('FROM alpine:3.20', 'USER nobody', 'ENTRYPOINT exec ./server')]],
+    quiet: [[CLEAN]]
+  },
+  DL3000: {
+    fires: [[dockerfile('FROM alpine:3.20', 'WORKDIR app', 'USER nobody')]],
+    quiet: [[dockerfile('FROM alpine:3.20', 'WORKDIR /app', 'WORKDIR $HOME', 'USER nobody')], [dockerfile('FROM mcr.microsoft.com/windows/servercore:ltsc2022', 'WORKDIR C:/app', 'USER nobody')]]
+  },
+  DL4000: {
+    fires: [[dockerfile('FROM alpine:3.20', 'MAINTAINER Jane Doe <jane@example.com>', 'USER nobody')]],
+    quiet: [[dockerfile('FROM alpine:3.20', 'LABEL maintainer="Jane Doe <jane@example.com>"', 'USER nobody')]]
+  },
+  DL4003: {
+    fires: [[dockerfile('FROM alpine:3.20', 'USER nobody', 'CMD ["a"]', 'CMD ["b"]')]],
+    quiet: [[dockerfile('FROM alpine:3.20 AS build', 'CMD ["a"]', 'FROM alpine:3.20', 'USER nobody', 'CMD ["b"]')]]
+  },
+  AD1005: {
+    fires: [[dockerfile('FROM golang:1.22', 'RUN go build -o /app main.py', 'USER nobody')]],
+    quiet: [[dockerfile('FROM golang:1.22', 'RUN go build -o /app ./cmd/api && python3 tools/gen.py', 'USER nobody')]]
+  },
+  AD1006: {
+    fires: [
+      [dockerfile('FROM python:3.12-slim', 'RUN pip install -r requirements.txt', 'COPY . .', 'USER nobody')],
+      [dockerfile('FROM python:3.12-slim AS deps', 'COPY requirements.txt ./', 'FROM python:3.12-slim', 'RUN pip3 install --requirement requirements.txt', 'USER nobody')]
+    ],
+    quiet: [
+      [dockerfile('FROM python:3.12-slim', 'COPY requirements.txt ./', 'RUN pip install -r requirements.txt', 'USER nobody')],
+      [dockerfile('FROM python:3.12-slim', 'COPY requirements ./requirements', 'RUN pip install -r requirements/prod.txt', 'USER nobody')],
+      [dockerfile('FROM python:3.12-slim', 'COPY . .', 'RUN pip install -r requirements.txt', 'USER nobody')]
+    ]
+  }
+};
+
+describe('Dockerfile linter', () => {
+  it('has a case for every rule', () => {
+    expect(Object.keys(CASES).sort()).toEqual(LINT_RULES.map(rule => rule.id).sort());
+  });
+
+  for (const [ruleId, { fires, quiet }] of Object.entries(CASES)) {
+    it(`${ruleId} fires where it should and nowhere else`, () => {
+      for (const [content, context] of fires) {
+        expect(ruleIds(content, context), content).toContain(ruleId);
+      }
+      for (const [content, context] of quiet) {
+        expect(ruleIds(content, context), content).not.toContain(ruleId);
+      }
+    });
+  }
+
+  it('reports rule IDs, severities and source ranges sorted by position', () => {
+    const { findings } = lintDockerfile(dockerfile(
+      'FROM node:latest',
+      'WORKDIR app',
+      'ENV API_TOKEN=abc123',
+      'CMD node server.js'
+    ));
+    expect(findings.map(f => [f.ruleId, f.severity, f.range.start.line, f.range.start.column, f.range.end.line, f.range.end.column])).toEqual([
+      ['AD1001', 'warning', 1, 1, 1, 17],
+      ['DL3007', 'warning', 1, 1, 1, 17],
+      ['DL3000', 'error', 2, 1, 2, 12],
+      ['AD1004', 'error', 3, 1, 3, 21],
+      ['DL3025', 'warning', 4, 1, 4, 19]
+    ]);
+    expect(findings.find(f => f.ruleId === 'AD1004')?.message).not.toContain('abc123');
+  });
+
+  it('points inside continued lines', () => {
+    const { findings } = lintDockerfile(dockerfile(
+      'FROM debian:bookworm',
+      'RUN apt-get update \\',
+      '    && apt-get install -y curl \\',
+      '    && rm -rf /var/lib/apt/lists/*',
+      'USER nobody'
+    ));
+    expect(findings.map(f => [f.ruleId, f.range])).toEqual([
+      ['DL3015', { start: { line: 3, column: 8 }, end: { line: 3, column: 23 } }]
+    ]);
+  });
+
+  it('applies autofixes, after which the fixed rules stay quiet and fixing again changes nothing', () => {
+    const content = dockerfile(
+      'FROM python:3.12-slim',
+      'MAINTAINER Jane Doe <jane@example.com>',
+      'WORKDIR /app',
+      'RUN apt-get update && apt-get install -y gcc',
+      'ADD app.py /app/',
+      'RUN pip install -r requirements.txt',
+      'CMD python app.py'
+    );
+    const context = { expectedPort: 8000 };
+    const { findings } = lintDockerfile(content, context);
+    expect(findings.filter(f => f.fix).map(f => f.ruleId).sort()).toEqual(['AD1001', 'AD1003', 'AD1006', 'DL3009', 'DL3015', 'DL3020', 'DL3025', 'DL4000']);
+
+    const fixed = applyLintFixes(content, findings);
+    expect(fixed).toBe(dockerfile(
+      'FROM python:3.12-slim',
+      'LABEL maintainer="Jane Doe <jane@example.com>"',
+      'WORKDIR /app',
+      'RUN apt-get update && apt-get install --no-install-recommends -y gcc \\',
+      '    && rm -rf /var/lib/apt/lists/*',
+      'COPY app.py /app/',
+      'COPY requirements.txt ./',
+      'RUN pip install -r requirements.txt',
+      'EXPOSE 8000',
+      'USER nobody',
+      'CMD ["python", "app.py"]'
+    ));
+
+    const again = lintDockerfile(fixed, context).findings;
+    expect(again).toEqual([]);
+    expect(applyLintFixes(fixed, again)).toBe(fixed);
+  });
+
+  it('leaves findings without a safe fix untouched', () => {
+    const content = dockerfile('FROM alpine:3.20', 'RUN ["apt-get", "install", "-y", "curl"]', 'USER nobody', 'CMD ./server && ./worker');
+    const { findings } = lintDockerfile(content);
+    expect(findings.map(f => [f.ruleId, !!f.fix])).toEqual([['DL3009', false], ['DL3025', false]]);
+    expect(applyLintFixes(content, findings)).toBe(content);
+  });
+
+  it('filters build context paths through .dockerignore like Docker', () => {
+    const files = ['node_modules/a.js', 'web/node_modules/b.js', 'src/index.ts', '.env', '.env.example', 'logs/app.log'];
+    expect(filterDockerignore(files, '**/node_modules\n.env*\n!.env.example\n# comment\nlogs/*.log\n')).toEqual(['src/index.ts', '.env.example']);
+    expect(filterDockerignore(files)).toEqual(files);
+  });
+});
@@ -0,0 +1,470 @@
+import {
+  parseDockerfile,
+  parseKeyValues,
+  rangeIn,
+  substitute,
+  Instruction,
+  ParsedDockerfile,
+  SourceRange,
+  Stage
+} from './dockerfileParser';
+
+/**
+ * Rule-based Dockerfile linter. Rule IDs follow hadolint (DLxxxx) where an
+ * equivalent rule exists; AutoDeploy-specific rules use ADxxxx.
+ */
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export interface LintEdit {
+  range: SourceRange;
+  text: string;
+}
+
+export interface LintFix {
+  description: string;
+  edits: LintEdit[];
+}
+
+export interface LintFinding {
+  ruleId: string;
+  severity: LintSeverity;
+  message: string;
+  range: SourceRange;
+  suggestion?: string;
+  fix?: LintFix;
+}
+
+export interface LintContext {
+  files?: string[]; // Paths in the build context; enables the COPY source check
+  dockerignore?: string; // .dockerignore content applied to `files`
+  expectedPort?: number; // Port the application listens on
+}
+
+export interface LintRule {
+  id: string;
+  severity: LintSeverity;
+  description: string;
+  check(doc: ParsedDockerfile, context: LintContext): Omit<LintFinding, 'ruleId' | 'severity'>[];
+}
+
+export interface LintResult {
+  findings: LintFinding[];
+  parsed: ParsedDockerfile;
+}
+
+const SECRET_NAME = /(PASSWORD|PASSWD|SECRET|TOKEN|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY|CREDENTIALS?)$/i;
+const ARCHIVE = /\.(tar|tar\.gz|tgz|tar\.bz2|tbz2|tar\.xz|txz|tar\.zst)$/i;
+const NON_ROOT_IMAGE = /nonroot|unprivileged|rootless/i;
+
+function insertBefore(range: SourceRange, text: string): LintEdit {
+  return { range: { start: range.start, end: range.start }, text };
+}
+
+function finalStage(doc: ParsedDockerfile): Stage | undefined {
+  return doc.stages[doc.stages.length - 1];
+}
+
+function stageByName(doc: ParsedDockerfile, name: string, before: number): Stage | undefined {
+  const lower = name.toLowerCase();
+  return doc.stages.find(s => s.index < before && (s.name === lower || String(s.index) === name));
+}
+
+function lastUser(doc: ParsedDockerfile, stage: Stage): string | undefined {
+  const user = [...stage.instructions].reverse().find(i => i.keyword === 'USER');
+  if (user) return substitute(user.args[0] || '', stage.env);
+  const parent = stageByName(doc, stage.image, stage.index);
+  return parent ? lastUser(doc, parent) : undefined;
+}
+
+function runCommand(instruction: Instruction): string {
+  if (instruction.heredocs.length > 0) return instruction.heredocs.map(h => h.content).join('\n');
+  return instruction.json ? instruction.args.join(' ') : instruction.value;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  // `**/` also matches no directory at all, so `**/node_modules` covers the root one
+  const regex = pattern
+    .split('**/')
+    .map(segment => segment
+      .split('**')
+      .map(part => part
+        .split('*')
+        .map(literal => literal.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\?/g, '[^/]'))
+        .join('[^/]*'))
+      .join('.*'))
+    .join('(?:.*/)?');
+  return new RegExp(`^${regex}(/.*)?$`);
+}
+
+function normalizePath(value: string): string {
+  return value.replace(/^\.\//, '').replace(/^\/+/, '').replace(/\/+$/, '') || '.';
+}
+
+/**
+ * Apply .dockerignore rules (with `!` exceptions) to build context paths
+ */
+export function filterDockerignore(files: string[], dockerignore?: string): string[] {
+  if (!dockerignore) return files;
+  const rules = dockerignore
+    .split('\n')
+    .map(l => l.trim())
+    .filter(l => l && !l.startsWith('#'))
+    .map(l => ({ exclude: !l.startsWith('!'), pattern: globToRegExp(normalizePath(l.replace(/^!/, ''))) }));
+
+  return files.filter(file => {
+    let included = true;
+    for (const rule of rules) {
+      if (rule.pattern.test(file)) included = !rule.exclude;
+    }
+    return included;
+  });
+}
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'AD1000',
+    severity: 'error',
+    description: 'Dockerfile must parse',
+    check: (doc) => doc.problems.map(p => ({ message: p.message, range: p.range }))
+  },
+  {
+    id: 'DL3006',
+    severity: 'warning',
+    description: 'Always tag the version of an image explicitly',
+    check: (doc) => doc.stages
+      .filter(stage => {
+        const image = stage.resolvedImage;
+        const lastSegment = image.split('/').pop() || '';
+        return image !== '' && image !== 'scratch' && !image.includes('@')
+          && !lastSegment.includes(':') && !stageByName(doc, stage.image, stage.index)
+          && !/\$/.test(image);
+      })
+      .map(stage => ({
+        message: `Base image '${stage.resolvedImage}' has no tag, so every build may pull a different version`,
+        range: stage.from.range,
+        suggestion: `Pin a version, e.g. '${stage.resolvedImage}:<version>' or a digest`
+      }))
+  },
+  {
+    id: 'DL3007',
+    severity: 'warning',
+    description: "Using 'latest' is prone to errors if the image will ever update",
+    check: (doc) => doc.stages
+      .filter(stage => /:latest$/.test(stage.resolvedImage))
+      .map(stage => ({
+        message: `Base image '${stage.resolvedImage}' uses the mutable 'latest' tag`,
+        range: stage.from.range,
+        suggestion: 'Pin a specific version tag or digest'
+      }))
+  },
+  {
+    id: 'DL3002',
+    severity: 'warning',
+    description: 'Last USER should not be root',
+    check: (doc) => {
+      const stage = finalStage(doc);
+      const user = stage && [...stage.instructions].reverse().find(i => i.keyword === 'USER');
+      if (!stage || !user) return [];
+      const name = substitute(user.args[0] || '', stage.env).split(':')[0];
+      return name === 'root' || name === '0'
+        ? [{ message: 'The final image runs as root', range: user.range, suggestion: 'Switch to an unprivileged user before CMD' }]
+        : [];
+    }
+  },
+  {
+    id: 'AD1001',
+    severity: 'warning',
+    description: 'Final stage should set a non-root USER',
+    check: (doc) => {
+      const stage = finalStage(doc);
+      if (!stage || stage.resolvedImage === 'scratch' || NON_ROOT_IMAGE.test(stage.resolvedImage)) return [];
+      if (lastUser(doc, stage) !== undefined) return [];
+
+      const anchor = stage.instructions.find(i => i.keyword === 'CMD' || i.keyword === 'ENTRYPOINT');
+      return [{
+        message: 'The final image has no USER instruction and will run as root',
+        range: stage.from.range,
+        suggestion: 'Create an unprivileged user and add USER before CMD/ENTRYPOINT',
+        fix: {
+          description: 'Run as the built-in nobody user',
+          edits: [anchor
+            ? insertBefore(anchor.range, 'USER nobody\n')
+            : insertBefore({ start: { line: stage.from.range.end.line + 1, column: 1 }, end: { line: stage.from.range.end.line + 1, column: 1 } }, 'USER nobody\n')]
+        }
+      }];
+    }
+  },
+  {
+    id: 'DL3009',
+    severity: 'warning',
+    description: 'Delete the apt-get lists after installing something',
+    check: (doc) => doc.instructions
+      .filter(i => i.keyword === 'RUN' && /apt-get\s+(-\S+\s+)*install/.test(runCommand(i)))
+      .filter(i => !/rm\s+-(rf|fr)\s+\/var\/lib\/apt\/lists/.test(runCommand(i)))
+      .filter(i => !i.flags.some(f => f.name === 'mount' && f.value.includes('/var/lib/apt')))
+      .map(i => ({
+        message: 'apt-get install leaves package lists in the layer',
+        range: i.range,
+        suggestion: "Finish the same RUN with '&& rm -rf /var/lib/apt/lists/*'",
+        fix: i.json || i.heredocs.length > 0 ? undefined : {
+          description: 'Remove apt lists in the same layer',
+          edits: [{ range: { start: i.range.end, end: i.range.end }, text: ' \\\n    && rm -rf /var/lib/apt/lists/*' }]
+        }
+      }))
+  },
+  {
+    id: 'DL3015',
+    severity: 'info',
+    description: 'Avoid additional packages by specifying --no-install-recommends',
+    check: (doc) => doc.instructions
+      .filter(i => i.keyword === 'RUN' && !i.json && i.heredocs.length === 0)
+      .flatMap(i => [...i.value.matchAll(/apt-get\s+install\b(?![^&;|]*--no-install-recommends)/g)].map(match => ({
+        message: 'apt-get install pulls in recommended packages',
+        range: rangeIn(i, match.index!, match[0].length),
+        fix: {
+          description: 'Add --no-install-recommends',
+          edits: [{ range: rangeIn(i, match.index!, match[0].length), text: 'apt-get install --no-install-recommends' }]
+        }
+      })))
+  },
+  {
+    id: 'DL3020',
+    severity: 'error',
+    description: 'Use COPY instead of ADD for files and folders',
+    check: (doc) => doc.instructions
+      .filter(i => i.keyword === 'ADD' && i.heredocs.length === 0)
+      .filter(i => i.args.slice(0, -1).every(src => !/^(https?|git):\/\//.test(src) && !ARCHIVE.test(src) && !src.endsWith('.git')))
+      .map(i => ({
+        message: 'ADD is only needed for URLs and archives; use COPY for local files',
+        range: i.keywordRange,
+        fix: { description: 'Replace ADD with COPY', edits: [{ range: i.keywordRange, text: 'COPY' }] }
+      }))
+  },
+  {
+    id: 'AD1002',
+    severity: 'error',
+    description: 'COPY/ADD sources must exist in the build context',
+    check: (doc, context) => {
+      if (!context.files) return [];
+      const files = filterDockerignore(context.files.map(normalizePath), context.dockerignore);
+      const findings: Omit<LintFinding, 'ruleId' | 'severity'>[] = [];
+
+      for (const i of doc.instructions) {
+        if ((i.keyword !== 'COPY' && i.keyword !== 'ADD') || i.flags.some(f => f.name === 'from')) continue;
+        const stage = doc.stages[i.stage];
+        for (const source of i.args.slice(0, -1)) {
+          if (source.startsWith('<<') || /^(https?|git):\/\//.test(source)) continue;
+          let unresolved = false;
+          const resolved = normalizePath(substitute(source, stage?.env || {}, () => { unresolved = true; }));
+          if (unresolved || resolved === '.') continue;
+
+          const pattern = globToRegExp(resolved);
+          if (!files.some(file => pattern.test(file))) {
+            const offset = i.value.indexOf(source);
+            findings.push({
+              message: `${i.keyword} source '${source}' is not in the build context`,
+              range: offset >= 0 ? rangeIn(i, offset, source.length) : i.range,
+              suggestion: 'Check the path and the .dockerignore file, or generate the file before this step'
+            });
+          }
+        }
+      }
+      return findings;
+    }
+  },
+  {
+    id: 'DL3022',
+    severity: 'error',
+    description: 'COPY --from should reference a previously defined stage',
+    check: (doc) => doc.instructions
+      .filter(i => i.keyword === 'COPY')
+      .flatMap(i => i.flags.filter(f => f.name === 'from').map(flag => ({ i, from: flag.value })))
+      .filter(({ i, from }) => !stageByName(doc, from, i.stage) && !/[:/@]/.test(from) && !/\$/.test(from))
+      .map(({ i, from }) => ({
+        message: `COPY --from=${from} does not match an earlier stage`,
+        range: i.range
+      }))
+  },
+  {
+    id: 'DL3024',
+    severity: 'error',
+    description: 'FROM aliases (stage names) must be unique',
+    check: (doc) => doc.stages
+      .filter((stage, index) => stage.name && doc.stages.findIndex(s => s.name === stage.name) !== index)
+      .map(stage => ({ message: `Stage name '${stage.name}' is used more than once`, range: stage.from.range }))
+  },
+  {
+    id: 'AD1003',
+    severity: 'warning',
+    description: 'EXPOSE should match the port the application listens on',
+    check: (doc, context) => {
+      const stage = finalStage(doc);
+      if (!stage || !context.expectedPort) return [];
+      const exposes = stage.instructions.filter(i => i.keyword === 'EXPOSE');
+      const ports = exposes.flatMap(i => i.args.map(a => parseInt(substitute(a, stage.env).split('/')[0], 10)));
+
+      if (exposes.length === 0) {
+        const anchor = stage.instructions.find(i => i.keyword === 'CMD' || i.keyword === 'ENTRYPOINT');
+        return [{
+          message: `No EXPOSE in the final stage; the application listens on ${context.expectedPort}`,
+          range: stage.from.range,
+          fix: anchor ? { description: `Expose port ${context.expectedPort}`, edits: [insertBefore(anchor.range, `EXPOSE ${context.expectedPort}\n`)] } : undefined
+        }];
+      }
+      if (!ports.includes(context.expectedPort)) {
+        return [{
+          message: `EXPOSE ${ports.join(', ')} does not include the application port ${context.expectedPort}`,
+          range: exposes[0].range,
+          fix: { description: `Expose port ${context.expectedPort}`, edits: [{ range: exposes[0].range, text: `EXPOSE ${context.expectedPort}` }] }
+        }];
+      }
+      return [];
+    }
+  },
+  {
+    id: 'AD1004',
+    severity: 'error',
+    description: 'Do not store secrets in ENV or ARG',
+    check: (doc) => doc.instructions
+      .filter(i => i.keyword === 'ENV' || i.keyword === 'ARG')
+      .flatMap(i => parseKeyValues(i.value, doc.escape)
+        .filter(({ key, value }) => SECRET_NAME.test(key) && !!value && !value.startsWith('$'))
+        .map(({ key }) => ({
+          message: `${i.keyword} ${key} bakes a secret into the image${i.keyword === 'ARG' ? ' history' : ''}`,
+          range: i.range,
+          suggestion: 'Pass it at runtime, or use RUN --mount=type=secret during the build'
+        })))
+  },
+  {
+    id: 'DL3025',
+    severity: 'warning',
+    description: 'Use arguments JSON notation for CMD and ENTRYPOINT arguments',
+    check: (doc) => doc.instructions
+      .filter(i => (i.keyword === 'CMD' || i.keyword === 'ENTRYPOINT') && !i.json && i.value !== '')
+      .map(i => ({
+        message: `${i.keyword} in shell form does not receive signals, so the container cannot stop gracefully`,
+        range: i.range,
+        fix: /[&|;<>$`()]/.test(i.value) ? undefined : {
+          description: 'Convert to JSON (exec) form',
+          edits: [{ range: i.range, text: `${i.keyword} ${JSON.stringify(i.args).replace(/","/g, '", "')}` }]
+        }
+      }))
+  },
+  {
+    id: 'DL3000',
+    severity: 'error',
+    description: 'Use absolute WORKDIR',
+    check: (doc) => doc.instructions
+      .filter(i => i.keyword === 'WORKDIR' && i.args[0] && !i.args[0].startsWith('/') && !i.args[0].startsWith('$') && !/^[A-Za-z]:[\\/]/.test(i.args[0]))
+      .map(i => ({ message: `WORKDIR '${i.args[0]}' is relative`, range: i.range, suggestion: `Use an absolute path such as /app` }))
+  },
+  {
+    id: 'DL4000',
+    severity: 'error',
+    description: 'MAINTAINER is deprecated',
+    check: (doc) => doc.instructions
+      .filter(i => i.keyword === 'MAINTAINER')
+      .map(i => ({
+        message: 'MAINTAINER is deprecated',
+        range: i.range,
+        fix: { description: 'Use a maintainer label', edits: [{ range: i.range, text: `LABEL maintainer=${JSON.stringify(i.value)}` }] }
+      }))
+  },
+  {
+    id: 'DL4003',
+    severity: 'warning',
+    description: 'Multiple CMD instructions found',
+    check: (doc) => doc.stages.flatMap(stage => stage.instructions
+      .filter(i => i.keyword === 'CMD')
+      .slice(0, -1)
+      .map(i => ({ message: 'Only the last CMD in a stage takes effect', range: i.range })))
+  },
+  {
+    id: 'AD1005',
+    severity: 'error',
+    description: 'Build commands must match the source language',
+    check: (doc) => doc.instructions
+      .filter(i => i.keyword === 'RUN' && /\bgo\s+build\b[^&;|]*\.py\b/.test(runCommand(i)))
+      .map(i => ({
+        message: 'Trying to build a Python file with the Go compiler',
+        range: i.range,
+        suggestion: 'Use a Python base image and run .py files with python'
+      }))
+  },
+  {
+    id: 'AD1006',
+    severity: 'error',
+    description: 'Files used by RUN must be copied first',
+    check: (doc) => doc.stages.flatMap(stage => {
+      const findings: Omit<LintFinding, 'ruleId' | 'severity'>[] = [];
+      const copied: string[] = [];
+      for (const i of stage.instructions) {
+        if (i.keyword === 'COPY' || i.keyword === 'ADD') {
+          copied.push(...i.args.slice(0, -1).map(normalizePath));
+          continue;
+        }
+        if (i.keyword !== 'RUN') continue;
+        for (const match of runCommand(i).matchAll(/pip3?\s+install\b[^&;|]*?(?:-r|--requirement)\s+(\S+)/g)) {
+          const file = normalizePath(match[1]);
+          if (copied.some(src => src === '.' || src === file || file.startsWith(`${src}/`))) continue;
+          findings.push({
+            message: `pip installs from ${match[1]} but it is never copied into the image`,
+            range: i.range,
+            suggestion: `Add 'COPY ${match[1]} ./' before this RUN`,
+            fix: { description: `Copy ${match[1]} first`, edits: [insertBefore(i.range, `COPY ${match[1]} ./\n`)] }
+          });
+        }
+      }
+      return findings;
+    })
+  }
+];
+
+/**
+ * Parse and lint a Dockerfile. Findings are sorted by position.
+ */
+export function lintDockerfile(content: string, context: LintContext = {}, rules: LintRule[] = LINT_RULES): LintResult {
+  const parsed = parseDockerfile(content);
+  const findings = rules.flatMap(rule => rule.check(parsed, context).map(finding => ({
+    ruleId: rule.id,
+    severity: rule.severity,
+    ...finding
+  })));
+
+  findings.sort((a, b) => a.range.start.line - b.range.start.line
+    || a.range.start.column - b.range.start.column
+    || a.ruleId.localeCompare(b.ruleId));
+  return { findings, parsed };
+}
+
+/**
+ * Apply the autofixes of the given findings. Edits that overlap an edit
+ * already applied are skipped.
+ */
+export function applyLintFixes(content: string, findings: LintFinding[]): string {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+  const text = lines.join('\n');
+  const toOffset = (line: number, column: number) =>
+    line > lines.length ? text.length : Math.min(lineStarts[line - 1] + column - 1, text.length);
+
+  const edits = findings
+    .flatMap(f => f.fix?.edits || [])
+    .map(e => ({ start: toOffset(e.range.start.line, e.range.start.column), end: toOffset(e.range.end.line, e.range.end.column), text: e.text }))
+    .sort((a, b) => b.start - a.start || b.end - a.end);
+
+  let result = text;
+  let boundary = Infinity;
+  for (const edit of edits) {
+    if (edit.end > boundary) continue;
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    boundary = edit.start;
+  }
+  return result;
+}
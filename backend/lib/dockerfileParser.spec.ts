@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { parseDockerfile, rangeIn, splitWords, substitute } from './dockerfileParser';
+
+const dockerfile = (...lines: string[]) => `${lines.join('\n')}\n`;
+
+describe('Dockerfile parser', () => {
+  it('joins line continuations, skipping comments and blank lines, and maps offsets back to source', () => {
+    const doc = parseDockerfile(dockerfile(
+      'FROM alpine:3.20',
+      'RUN apk add --no-cache \\',
+      '    # build tools',
+      '    curl \\',
+      '',
+      '    git',
+      'CMD ["sh"]'
+    ));
+
+    expect(doc.problems).toEqual([]);
+    expect(doc.instructions.map(i => i.keyword)).toEqual(['FROM', 'RUN', 'CMD']);
+    const run = doc.instructions[1];
+    expect(run.args).toEqual(['apk', 'add', '--no-cache', 'curl', 'git']);
+    expect(run.range).toEqual({ start: { line: 2, column: 1 }, end: { line: 6, column: 8 } });
+    expect(rangeIn(run, run.value.indexOf('git'), 3)).toEqual({ start: { line: 6, column: 5 }, end: { line: 6, column: 8 } });
+    expect(doc.instructions[2]).toMatchObject({ json: true, args: ['sh'], range: { start: { line: 7, column: 1 } } });
+  });
+
+  it('honours the escape directive', () => {
+    const doc = parseDockerfile(dockerfile(
+      '# escape=`',
+      'FROM mcr.microsoft.com/windows/servercore:ltsc2022',
+      'COPY testfile.txt c:\\',
+      'RUN dir c:\\ `',
+      '    && echo done'
+    ));
+
+    expect(doc.directives).toEqual({ escape: '`' });
+    expect(doc.instructions.map(i => i.keyword)).toEqual(['FROM', 'COPY', 'RUN']);
+    expect(doc.instructions[1].args).toEqual(['testfile.txt', 'c:\\']);
+    expect(doc.instructions[2].args).toEqual(['dir', 'c:\\', '&&', 'echo', 'done']);
+  });
+
+  it('reads heredoc bodies, with tab stripping for <<-', () => {
+    const doc = parseDockerfile(dockerfile(
+      'FROM debian:bookworm-slim',
+      'RUN <<EOF',
+      'apt-get update',
+      'apt-get install -y curl',
+      'EOF',
+      'COPY <<-"CONF" /etc/app.conf',
+      '\tkey=value',
+      '\tCONF',
+      'CMD ["sh"]'
+    ));
+
+    expect(doc.problems).toEqual([]);
+    expect(doc.instructions.map(i => i.keyword)).toEqual(['FROM', 'RUN', 'COPY', 'CMD']);
+    expect(doc.instructions[1].heredocs).toEqual([{
+      delimiter: 'EOF',
+      content: 'apt-get update\napt-get install -y curl\n',
+      stripTabs: false,
+      range: { start: { line: 3, column: 1 }, end: { line: 5, column: 1 } }
+    }]);
+    expect(doc.instructions[1].range.end.line).toBe(5);
+    expect(doc.instructions[2].heredocs[0]).toMatchObject({ delimiter: 'CONF', content: 'key=value\n', stripTabs: true });
+    expect(doc.instructions[2].args).toEqual(['<<-CONF', '/etc/app.conf']);
+  });
+
+  it('reports an unterminated heredoc', () => {
+    const doc = parseDockerfile(dockerfile('FROM alpine:3.20', 'RUN <<EOF', 'echo hi'));
+    expect(doc.problems).toEqual([{ message: "Heredoc 'EOF' is never terminated", range: { start: { line: 2, column: 1 }, end: { line: 2, column: 10 } } }]);
+  });
+
+  it('substitutes global ARGs into FROM and keeps ARG/ENV scope per stage', () => {
+    const doc = parseDockerfile(dockerfile(
+      'ARG NODE_VERSION=20',
+      'ARG BASE=node',
+      'FROM ${BASE}:${NODE_VERSION}-alpine AS Base',
+      'ARG NODE_VERSION',
+      'ENV APP_HOME=/app',
+      'ENV APP_BIN=$APP_HOME/bin',
+      'FROM base AS build',
+      'ENV OUT=${APP_HOME}/dist',
+      'FROM alpine:3.20',
+      'ARG BASE',
+      'ENV OUT=${OUT:-/srv} VERSION=${NODE_VERSION:-unknown}'
+    ));
+
+    expect(doc.problems).toEqual([]);
+    expect(doc.globalArgs).toEqual({ NODE_VERSION: '20', BASE: 'node' });
+    expect(doc.stages.map(s => [s.name, s.image, s.resolvedImage])).toEqual([
+      ['base', '${BASE}:${NODE_VERSION}-alpine', 'node:20-alpine'],
+      ['build', 'base', 'base'],
+      [undefined, 'alpine:3.20', 'alpine:3.20']
+    ]);
+    // A global ARG is only visible in a stage that declares it again
+    expect(doc.stages[0].env).toEqual({ NODE_VERSION: '20', APP_HOME: '/app', APP_BIN: '/app/bin' });
+    // ENV carries over to a stage built FROM an earlier one
+    expect(doc.stages[1].env).toEqual({ NODE_VERSION: '20', APP_HOME: '/app', APP_BIN: '/app/bin', OUT: '/app/dist' });
+    expect(doc.stages[2].env).toEqual({ BASE: 'node', OUT: '/srv', VERSION: 'unknown' });
+  });
+
+  it('records stage references of COPY --from on the copying stage', () => {
+    const doc = parseDockerfile(dockerfile(
+      'FROM --platform=$BUILDPLATFORM golang:1.22 AS Builder',
+      'RUN go build -o /out/app .',
+      'FROM gcr.io/distroless/static-debian12',
+      'COPY --from=builder /out/app /app',
+      'COPY --from=0 --chown=65532:65532 ["/out/app", "/bin/app"]',
+      'COPY --from=nginx:1.27 /etc/nginx/nginx.conf /etc/nginx/'
+    ));
+
+    expect(doc.stages.map(s => [s.index, s.name, s.platform])).toEqual([[0, 'builder', '$BUILDPLATFORM'], [1, undefined, undefined]]);
+    const copies = doc.instructions.filter(i => i.keyword === 'COPY');
+    expect(copies.map(i => i.stage)).toEqual([1, 1, 1]);
+    expect(copies.map(i => i.flags)).toEqual([
+      [{ name: 'from', value: 'builder' }],
+      [{ name: 'from', value: '0' }, { name: 'chown', value: '65532:65532' }],
+      [{ name: 'from', value: 'nginx:1.27' }]
+    ]);
+    expect(copies[1]).toMatchObject({ json: true, args: ['/out/app', '/bin/app'] });
+    expect(doc.stages[1].instructions).toEqual(copies);
+  });
+
+  it('reports instructions it cannot place', () => {
+    const doc = parseDockerfile(dockerfile('RUN echo hi', 'FROM', 'FROM alpine AS', 'RUNN echo typo'));
+    expect(doc.problems.map(p => [p.range.start.line, p.message])).toEqual([
+      [4, "Unknown instruction 'RUNN'"],
+      [1, 'RUN must come after FROM'],
+      [2, 'FROM requires a base image'],
+      [3, "FROM expects 'FROM <image> [AS <name>]'"]
+    ]);
+  });
+
+  it('splits shell words and substitutes variables like the builder', () => {
+    expect(splitWords(`echo "a b" 'c $d' e\\ f`)).toEqual(['echo', 'a b', 'c $d', 'e f']);
+    const missing: string[] = [];
+    expect(substitute('${A}-$B-${C:-c}-${A:+set}-${D:+set}-\\$A', { A: 'a', B: 'b' }, name => missing.push(name))).toBe('a-b-c-set--$A');
+    expect(substitute('$MISSING/bin', {}, name => missing.push(name))).toBe('/bin');
+    expect(missing).toEqual(['MISSING']);
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Dockerfile parser producing a small AST: parser directives, instructions
+ * with line continuations and heredocs, flags, JSON/shell form arguments,
+ * and build stages with their ARG/ENV scope resolved.
+ *
+ * Positions are 1-based. A range's end column points one past the last
+ * character, so `{ line: 3, column: 1 }..{ line: 3, column: 4 }` covers `RUN`.
+ */
+
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export interface InstructionFlag {
+  name: string;
+  value: string;
+}
+
+export interface Heredoc {
+  delimiter: string;
+  content: string;
+  stripTabs: boolean;
+  range: SourceRange;
+}
+
+export interface Instruction {
+  keyword: string; // Upper-case instruction name
+  value: string; // Everything after the keyword, continuations joined
+  flags: InstructionFlag[];
+  args: string[]; // Arguments after the flags (JSON form decoded, shell form split into words)
+  json: boolean;
+  heredocs: Heredoc[];
+  stage: number; // Index of the stage this instruction belongs to, -1 before the first FROM
+  range: SourceRange;
+  keywordRange: SourceRange;
+  segments: { offset: number; line: number; column: number; length: number }[]; // Physical pieces of `value`
+}
+
+export interface Stage {
+  index: number;
+  name?: string;
+  image: string; // Base image as written
+  resolvedImage: string; // Base image with global ARGs substituted
+  platform?: string;
+  from: Instruction;
+  instructions: Instruction[];
+  env: Record<string, string>; // ARG and ENV values in scope at the end of the stage
+}
+
+export interface ParseProblem {
+  message: string;
+  range: SourceRange;
+}
+
+export interface ParsedDockerfile {
+  directives: Record<string, string>;
+  escape: string;
+  instructions: Instruction[];
+  globalArgs: Record<string, string | undefined>;
+  stages: Stage[];
+  problems: ParseProblem[];
+}
+
+export const DOCKERFILE_INSTRUCTIONS = [
+  'ADD', 'ARG', 'CMD', 'COPY', 'ENTRYPOINT', 'ENV', 'EXPOSE', 'FROM', 'HEALTHCHECK',
+  'LABEL', 'MAINTAINER', 'ONBUILD', 'RUN', 'SHELL', 'STOPSIGNAL', 'USER', 'VOLUME', 'WORKDIR'
+];
+
+const JSON_FORM_INSTRUCTIONS = ['RUN', 'CMD', 'ENTRYPOINT', 'COPY', 'ADD', 'SHELL', 'VOLUME'];
+const HEREDOC_INSTRUCTIONS = ['RUN', 'COPY', 'ADD'];
+const HEREDOC_PATTERN = /<<(-?)(["']?)([A-Za-z_][A-Za-z0-9_]*)\2/g;
+
+/**
+ * Split shell-form arguments on whitespace, honouring quotes and removing them
+ */
+export function splitWords(text: string, escape = '\\'): string[] {
+  const words: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  let inWord = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === escape && i + 1 < text.length && quote !== "'") {
+      current += text[++i];
+      inWord = true;
+    } else if (quote) {
+      if (ch === quote) quote = null;
+      else current += ch;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      inWord = true;
+    } else if (/\s/.test(ch)) {
+      if (inWord) words.push(current);
+      current = '';
+      inWord = false;
+    } else {
+      current += ch;
+      inWord = true;
+    }
+  }
+  if (inWord) words.push(current);
+  return words;
+}
+
+/**
+ * Expand `$VAR`, `${VAR}`, `${VAR:-default}` and `${VAR:+alternate}`.
+ * Names missing from `vars` expand to '' and are reported through `onMissing`.
+ */
+export function substitute(text: string, vars: Record<string, string | undefined>, onMissing?: (name: string) => void): string {
+  return text.replace(/\\\$|\$\{([A-Za-z_][A-Za-z0-9_]*)(?:(:?[-+])([^}]*))?\}|\$([A-Za-z_][A-Za-z0-9_]*)/g,
+    (match, braced: string, operator: string | undefined, word: string | undefined, bare: string) => {
+      if (match === '\\$') return '$';
+      const name = braced || bare;
+      const value = vars[name];
+      const isSet = value !== undefined && (operator?.startsWith(':') ? value !== '' : true);
+      if (operator?.endsWith('-')) return isSet ? value! : (word || '');
+      if (operator?.endsWith('+')) return isSet ? (word || '') : '';
+      if (value === undefined) onMissing?.(name);
+      return value ?? '';
+    });
+}
+
+/**
+ * Parse `KEY=value` pairs (or the legacy `KEY value` form) from ENV/LABEL/ARG arguments
+ */
+export function parseKeyValues(value: string, escape = '\\'): Array<{ key: string; value?: string }> {
+  const words = splitWords(value, escape);
+  if (words.length > 0 && !words[0].includes('=')) {
+    const [key, ...rest] = value.trim().split(/\s+/);
+    return [{ key, value: rest.length > 0 ? splitWords(value.trim().slice(key.length), escape).join(' ') : undefined }];
+  }
+  return words.map(word => {
+    const eq = word.indexOf('=');
+    return eq === -1 ? { key: word } : { key: word.slice(0, eq), value: word.slice(eq + 1) };
+  });
+}
+
+/**
+ * Map an offset inside `instruction.value` back to a source position
+ */
+export function positionAt(instruction: Instruction, offset: number): SourcePosition {
+  let segment = instruction.segments[0];
+  for (const candidate of instruction.segments) {
+    if (candidate.offset > offset) break;
+    segment = candidate;
+  }
+  if (!segment) return instruction.range.start;
+  return { line: segment.line, column: segment.column + Math.min(offset - segment.offset, segment.length) };
+}
+
+export function rangeIn(instruction: Instruction, offset: number, length: number): SourceRange {
+  return { start: positionAt(instruction, offset), end: positionAt(instruction, offset + length) };
+}
+
+function readDirectives(lines: string[]): { directives: Record<string, string>; escape: string } {
+  const directives: Record<string, string> = {};
+  for (const line of lines) {
+    const match = line.match(/^\s*#\s*([a-zA-Z]+)\s*=\s*(.+?)\s*$/);
+    if (!match) break;
+    directives[match[1].toLowerCase()] = match[2];
+  }
+  const escape = directives.escape === '`' ? '`' : '\\';
+  return { directives, escape };
+}
+
+function parseFlagsAndArgs(keyword: string, value: string, escape: string): Pick<Instruction, 'flags' | 'args' | 'json'> {
+  const flags: InstructionFlag[] = [];
+  let rest = value.trim();
+
+  while (rest.startsWith('--')) {
+    const match = rest.match(/^--([A-Za-z][A-Za-z0-9-]*)(?:=("[^"]*"|'[^']*'|\S*))?\s*/);
+    if (!match) break;
+    flags.push({ name: match[1], value: match[2] !== undefined ? match[2].replace(/^["']|["']$/g, '') : 'true' });
+    rest = rest.slice(match[0].length);
+  }
+
+  if (JSON_FORM_INSTRUCTIONS.includes(keyword) && rest.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(rest);
+      if (Array.isArray(parsed) && parsed.every(item => typeof item === 'string')) {
+        return { flags, args: parsed, json: true };
+      }
+    } catch {
+      // Not valid JSON, Docker treats it as shell form
+    }
+  }
+
+  return { flags, args: splitWords(rest, escape), json: false };
+}
+
+export function parseDockerfile(content: string): ParsedDockerfile {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const { directives, escape } = readDirectives(lines);
+  const instructions: Instruction[] = [];
+  const problems: ParseProblem[] = [];
+  const lineRange = (line: number, text: string): SourceRange => ({
+    start: { line, column: 1 },
+    end: { line, column: text.length + 1 }
+  });
+
+  let i = 0;
+  while (i < lines.length) {
+    const raw = lines[i];
+    const trimmed = raw.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) {
+      i++;
+      continue;
+    }
+
+    const startLine = i + 1;
+    const indent = raw.length - raw.trimStart().length;
+    const keywordMatch = raw.slice(indent).match(/^(\S+)/)!;
+    const keyword = keywordMatch[1].toUpperCase();
+    const keywordRange: SourceRange = {
+      start: { line: startLine, column: indent + 1 },
+      end: { line: startLine, column: indent + 1 + keywordMatch[1].length }
+    };
+
+    // Join continuation lines; comment and blank lines inside a continuation are dropped
+    const segments: Instruction['segments'] = [];
+    let value = '';
+    let column = indent + keywordMatch[1].length + 1;
+    let text = raw.slice(column - 1);
+    let lastLine = i;
+    for (;;) {
+      const continued = text.trimEnd().endsWith(escape);
+      const piece = continued ? text.trimEnd().slice(0, -1) : text;
+      segments.push({ offset: value.length, line: lastLine + 1, column, length: piece.length });
+      value += piece;
+      if (!continued) break;
+
+      let next = lastLine + 1;
+      while (next < lines.length && (lines[next].trim() === '' || lines[next].trim().startsWith('#'))) next++;
+      if (next >= lines.length) break;
+      lastLine = next;
+      text = lines[next];
+      column = 1;
+    }
+
+    // Heredoc bodies follow the instruction line
+    const heredocs: Heredoc[] = [];
+    if (HEREDOC_INSTRUCTIONS.includes(keyword)) {
+      for (const match of value.matchAll(HEREDOC_PATTERN)) {
+        const stripTabs = match[1] === '-';
+        const delimiter = match[3];
+        const bodyStart = lastLine + 1;
+        let end = bodyStart;
+        while (end < lines.length && (stripTabs ? lines[end].replace(/^\t+/, '') : lines[end]) !== delimiter) end++;
+        if (end >= lines.length) {
+          problems.push({ message: `Heredoc '${delimiter}' is never terminated`, range: lineRange(startLine, raw) });
+        }
+        const body = lines.slice(bodyStart, end).map(l => (stripTabs ? l.replace(/^\t+/, '') : l));
+        heredocs.push({
+          delimiter,
+          content: body.length > 0 ? `${body.join('\n')}\n` : '',
+          stripTabs,
+          range: { start: { line: bodyStart + 1, column: 1 }, end: { line: Math.min(end, lines.length - 1) + 1, column: 1 } }
+        });
+        lastLine = Math.min(end, lines.length - 1);
+      }
+    }
+
+    const lastText = lines[lastLine];
+    const instruction: Instruction = {
+      keyword,
+      value: value.trim(),
+      ...parseFlagsAndArgs(keyword, value, escape),
+      heredocs,
+      stage: -1,
+      range: { start: { line: startLine, column: indent + 1 }, end: { line: lastLine + 1, column: lastText.length + 1 } },
+      keywordRange,
+      segments: []
+    };
+
+    // Re-base segments so offsets refer to the trimmed value
+    const leading = value.length - value.trimStart().length;
+    instruction.segments = segments
+      .map(s => ({ ...s, offset: s.offset - leading }))
+      .map(s => (s.offset < 0 ? { ...s, column: s.column - s.offset, length: s.length + s.offset, offset: 0 } : s));
+
+    if (!DOCKERFILE_INSTRUCTIONS.includes(keyword)) {
+      problems.push({ message: `Unknown instruction '${keywordMatch[1]}'`, range: keywordRange });
+    }
+    instructions.push(instruction);
+    i = lastLine + 1;
+  }
+
+  // Stages and variable scope
+  const globalArgs: Record<string, string | undefined> = {};
+  const stages: Stage[] = [];
+  let current: Stage | null = null;
+
+  for (const instruction of instructions) {
+    if (instruction.keyword === 'FROM') {
+      const [image = '', as, name] = instruction.args;
+      if (!image) {
+        problems.push({ message: 'FROM requires a base image', range: instruction.range });
+      }
+      if (as !== undefined && (as.toUpperCase() !== 'AS' || !name)) {
+        problems.push({ message: "FROM expects 'FROM <image> [AS <name>]'", range: instruction.range });
+      }
+      current = {
+        index: stages.length,
+        name: as?.toUpperCase() === 'AS' && name ? name.toLowerCase() : undefined,
+        image,
+        resolvedImage: substitute(image, globalArgs),
+        platform: instruction.flags.find(f => f.name === 'platform')?.value,
+        from: instruction,
+        instructions: [],
+        // ENV carries over when building on an earlier stage
+        env: { ...(stages.find(s => s.name !== undefined && s.name === image.toLowerCase())?.env || {}) }
+      };
+      stages.push(current);
+      instruction.stage = current.index;
+      continue;
+    }
+
+    if (!current) {
+      if (instruction.keyword === 'ARG') {
+        for (const { key, value } of parseKeyValues(instruction.value, escape)) {
+          globalArgs[key] = value;
+        }
+      } else if (DOCKERFILE_INSTRUCTIONS.includes(instruction.keyword)) {
+        problems.push({ message: `${instruction.keyword} must come after FROM`, range: instruction.range });
+      }
+      continue;
+    }
+
+    instruction.stage = current.index;
+    current.instructions.push(instruction);
+
+    if (instruction.keyword === 'ARG') {
+      for (const { key, value } of parseKeyValues(instruction.value, escape)) {
+        const resolved = value !== undefined ? substitute(value, current.env) : globalArgs[key];
+        if (resolved !== undefined) current.env[key] = resolved;
+      }
+    } else if (instruction.keyword === 'ENV') {
+      for (const { key, value } of parseKeyValues(instruction.value, escape)) {
+        current.env[key] = substitute(value ?? '', current.env);
+      }
+    }
+  }
+
+  if (instructions.length > 0 && stages.length === 0) {
+    problems.push({ message: 'Dockerfile has no FROM instruction', range: instructions[0].range });
+  }
+
+  return { directives, escape, instructions, globalArgs, stages, problems };
+}
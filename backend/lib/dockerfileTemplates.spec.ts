@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import type { ProjectAnalysis } from './aiService';
+import { parseDockerfile } from './dockerfileParser';
+import { dockerignoreForDockerfile, generateTemplateDockerfile, selectTemplate, templateDockerignore, TemplateId } from './dockerfileTemplates';
+
+function analysis(input: Partial<ProjectAnalysis> & Pick<ProjectAnalysis, 'language'>): ProjectAnalysis {
+  return { dependencies: [], packageFiles: [], hasDockerfile: false, projectFiles: [], ...input };
+}
+
+const node = (input: Partial<ProjectAnalysis> = {}) => analysis({
+  language: 'javascript',
+  projectFiles: ['package.json', 'server.js'],
+  lockfiles: ['package-lock.json'],
+  scripts: { start: 'node server.js' },
+  ...input
+});
+
+const python = (input: Partial<ProjectAnalysis> = {}) => analysis({
+  language: 'python',
+  projectFiles: ['requirements.txt', 'app.py'],
+  entryPoint: 'app.py',
+  ...input
+});
+
+// One project per framework and package manager (version) variant, grouped by ecosystem
+const ECOSYSTEMS: Record<string, [string, TemplateId, ProjectAnalysis][]> = {
+  node: [
+    ['npm with a lockfile', 'node', node()],
+    ['npm without a lockfile and an entry point', 'node', node({ lockfiles: [], scripts: {}, entryPoint: 'src/index.mjs' })],
+    ['yarn classic', 'node', node({ lockfiles: ['yarn.lock'] })],
+    ['yarn berry', 'node', node({ lockfiles: ['yarn.lock'], projectFiles: ['package.json', '.yarnrc.yml', 'server.js'] })],
+    ['pnpm', 'node', node({ lockfiles: ['pnpm-lock.yaml'] })],
+    ['Next.js', 'node-nextjs', node({ framework: 'nextjs', scripts: { build: 'next build', start: 'next start' } })],
+    ['NestJS with start:prod', 'node-nestjs', node({ scripts: { build: 'nest build', 'start:prod': 'node dist/main' } })],
+    ['Vite SPA', 'node-spa', node({ dependencies: ['vite', 'react'], scripts: { build: 'vite build', preview: 'vite preview' } })],
+    ['Create React App', 'node-spa', node({ lockfiles: ['yarn.lock'], dependencies: ['react-scripts'], scripts: { build: 'react-scripts build', start: 'react-scripts start' } })]
+  ],
+  python: [
+    ['pip with Flask', 'python', python({ framework: 'flask', dependencies: ['flask'] })],
+    ['pip with Flask and gunicorn pinned', 'python', python({ framework: 'flask', dependencies: ['flask==3.0.0', 'gunicorn>=21'] })],
+    ['Poetry with FastAPI', 'python', python({ framework: 'fastapi', lockfiles: ['poetry.lock'], projectFiles: ['pyproject.toml', 'poetry.lock', 'api/main.py'], entryPoint: 'api/main.py' })],
+    ['uv with FastAPI', 'python', python({ framework: 'fastapi', lockfiles: ['uv.lock'], projectFiles: ['pyproject.toml', 'uv.lock', 'main.py'], entryPoint: 'main.py', dependencies: ['uvicorn'] })],
+    ['pyproject with Django', 'python', python({ framework: 'django', projectFiles: ['pyproject.toml', 'manage.py', 'shop/wsgi.py'], entryPoint: 'manage.py' })],
+    ['plain script', 'python', python({ projectFiles: ['main.py'], entryPoint: undefined })]
+  ],
+  go: [
+    ['module root', 'go', analysis({ language: 'go', projectFiles: ['go.mod', 'go.sum', 'main.go'] })],
+    ['cmd layout without go.sum', 'go', analysis({ language: 'go', projectFiles: ['go.mod', 'cmd/api/main.go'] })]
+  ],
+  rust: [
+    ['locked crate', 'rust', analysis({ language: 'rust', projectFiles: ['Cargo.toml', 'src/main.rs'], lockfiles: ['Cargo.lock'], projectName: 'server' })]
+  ],
+  java: [
+    ['Maven', 'java-maven', analysis({ language: 'java', projectFiles: ['pom.xml', 'src/main/java/App.java'] })],
+    ['Gradle Kotlin DSL', 'java-gradle', analysis({ language: 'java', projectFiles: ['build.gradle.kts', 'settings.gradle.kts'] })]
+  ],
+  dotnet: [
+    ['csproj in a subdirectory', 'dotnet', analysis({ language: 'csharp', projectFiles: ['Api/Api.csproj', 'Api/Program.cs'] })]
+  ],
+  ruby: [
+    ['Rails', 'rails', analysis({ language: 'ruby', projectFiles: ['Gemfile', 'bin/rails', 'config.ru'], lockfiles: ['Gemfile.lock'], dependencies: ['rails'] })],
+    ['Rack', 'ruby', analysis({ language: 'ruby', projectFiles: ['Gemfile', 'config.ru'] })]
+  ],
+  php: [
+    ['Laravel', 'php', analysis({ language: 'php', projectFiles: ['composer.json', 'artisan', 'public/index.php'], lockfiles: ['composer.lock'] })],
+    ['plain index.php', 'php', analysis({ language: 'php', projectFiles: ['index.php'] })]
+  ],
+  static: [
+    ['index.html', 'static', analysis({ language: 'html', projectFiles: ['index.html', 'style.css'] })]
+  ],
+  generic: [
+    ['unknown stack', 'generic', analysis({ language: 'elixir', projectFiles: ['mix.exs'] })]
+  ]
+};
+
+describe('Dockerfile templates', () => {
+  for (const [ecosystem, cases] of Object.entries(ECOSYSTEMS)) {
+    describe(ecosystem, () => {
+      it.each(cases)('%s', (_name, template, project) => {
+        const result = generateTemplateDockerfile(project);
+        expect(selectTemplate(project)).toBe(template);
+        expect(result.template).toBe(template);
+        // Byte-identical on every run, and a Dockerfile the parser accepts
+        expect(generateTemplateDockerfile(project)).toEqual(result);
+        expect(parseDockerfile(result.dockerfile).problems).toEqual([]);
+        expect(result.dockerfile).toMatchSnapshot();
+      });
+
+      it('generates the .dockerignore', () => {
+        const templates = [...new Set(cases.map(([, template]) => template))];
+        for (const template of templates) {
+          expect(templateDockerignore(template)).toMatchSnapshot(template);
+        }
+      });
+    });
+  }
+
+  it('builds a monorepo member from the root with its local libraries first', () => {
+    const result = generateTemplateDockerfile(node({ lockfiles: ['pnpm-lock.yaml'], scripts: { build: 'tsc', start: 'node dist/index.js' } }), {
+      workspace: { path: 'apps/api', name: '@acme/api', buildFirst: ['@acme/shared'] }
+    });
+    expect(result.dockerfile).toMatchSnapshot();
+  });
+
+  it('prefers build manifests over the detected language', () => {
+    expect(selectTemplate(analysis({ language: 'javascript', projectFiles: ['package.json', 'go.mod'] }))).toBe('go');
+    expect(selectTemplate(analysis({ language: 'python', projectFiles: ['package.json', 'requirements.txt'] }))).toBe('python');
+    expect(selectTemplate(analysis({ language: 'javascript', projectFiles: ['package.json', 'requirements.txt'] }))).toBe('node');
+  });
+
+  it('finds the .dockerignore for a refined Dockerfile by its template header', () => {
+    const { dockerfile, dockerignore } = generateTemplateDockerfile(python());
+    expect(dockerignoreForDockerfile(`${dockerfile}HEALTHCHECK CMD curl -f http://localhost:8000/ || exit 1\n`)).toBe(dockerignore);
+    expect(dockerignoreForDockerfile('FROM alpine:3.20\n')).toBeUndefined();
+    expect(dockerignoreForDockerfile('# Generated by AutoDeploy (template: cobol)\nFROM alpine:3.20\n')).toBeUndefined();
+  });
+});
@@ -0,0 +1,642 @@
+import type { ProjectAnalysis } from './aiService';
+
+/**
+ * Deterministic Dockerfile generation. Everything here is a pure function of
+ * the ProjectAnalysis so the same project always yields the same Dockerfile,
+ * with or without network access.
+ */
+
+export type TemplateId =
+  | 'node-nextjs'
+  | 'node-nestjs'
+  | 'node-spa'
+  | 'node'
+  | 'python'
+  | 'go'
+  | 'rust'
+  | 'java-maven'
+  | 'java-gradle'
+  | 'dotnet'
+  | 'rails'
+  | 'ruby'
+  | 'php'
+  | 'static'
+  | 'generic';
+
+export interface TemplateResult {
+  template: TemplateId;
+  dockerfile: string;
+  port: number;
+  dockerignore: string; // Written next to the Dockerfile when the project has no .dockerignore
+}
+
+/**
+ * A package inside a JavaScript monorepo. It is built from the repository
+ * root so the root lockfile and local library packages are available.
+ */
+export interface NodeWorkspace {
+  path: string; // Member directory relative to the repository root
+  name: string; // package.json name
+  buildFirst: string[]; // Local library packages (with a build script) this member depends on
+}
+
+export interface TemplateOptions {
+  workspace?: NodeWorkspace;
+}
+
+type NodePackageManager = 'npm' | 'yarn' | 'yarn-berry' | 'pnpm';
+type PythonPackageManager = 'pip' | 'poetry' | 'uv' | 'pyproject';
+
+const NODE_IMAGE = 'node:20-alpine';
+const PYTHON_IMAGE = 'python:3.12-slim';
+const STATIC_IMAGE = 'nginxinc/nginx-unprivileged:1.27-alpine';
+
+class ProjectView {
+  private files: Set<string>;
+  private deps: Set<string>;
+
+  constructor(readonly analysis: ProjectAnalysis, readonly workspace?: NodeWorkspace) {
+    this.files = new Set(analysis.projectFiles || []);
+    this.deps = new Set(analysis.dependencies.map(d => d.toLowerCase().split(/[<>=!~\[;\s]/)[0]));
+  }
+
+  has(file: string): boolean {
+    return this.files.has(file) || (this.analysis.lockfiles || []).includes(file);
+  }
+
+  find(pattern: RegExp): string | undefined {
+    return [...this.files].sort().find(f => pattern.test(f));
+  }
+
+  dep(name: string): boolean {
+    return this.deps.has(name.toLowerCase());
+  }
+
+  script(name: string): string | undefined {
+    return this.analysis.scripts?.[name];
+  }
+
+  is(language: string): boolean {
+    return this.analysis.language === language;
+  }
+
+  /**
+   * Framework check for package.json projects. `dependencies` also holds
+   * scanned imports, so the detected framework or the npm scripts decide.
+   */
+  usesNodeFramework(framework: 'nextjs' | 'nestjs'): boolean {
+    const cli = framework === 'nextjs' ? 'next' : 'nest';
+    const scripts = Object.values(this.analysis.scripts || {}).join('\n');
+    return this.analysis.framework === framework || new RegExp(`(^|[\\s&;])${cli}(\\s|$)`, 'm').test(scripts);
+  }
+}
+
+const HEADER = /^# Generated by AutoDeploy \(template: ([a-z-]+)\)$/m;
+
+// Local state, VCS data and secrets never belong in an image
+const COMMON_IGNORES = ['.git', '.env', '.env.*', '!.env.example', '*.log', '.DS_Store', '.idea', '.vscode'];
+
+/** A directory or file pattern at the context root and below it */
+function anywhere(...patterns: string[]): string[] {
+  return patterns.flatMap(p => [p, `**/${p}`]);
+}
+
+// Dependencies and build output the Dockerfile recreates inside the image
+const TEMPLATE_IGNORES: Record<TemplateId, string[]> = {
+  'node-nextjs': [...anywhere('node_modules', '.next'), 'coverage'],
+  'node-nestjs': [...anywhere('node_modules'), 'coverage'],
+  'node-spa': [...anywhere('node_modules'), 'coverage'],
+  node: [...anywhere('node_modules'), 'coverage'],
+  python: [...anywhere('__pycache__', '*.pyc'), '.venv', 'venv', '.pytest_cache', '.mypy_cache', '.ruff_cache'],
+  go: ['bin'],
+  rust: ['target'],
+  'java-maven': ['target'],
+  'java-gradle': ['build', '.gradle'],
+  dotnet: anywhere('bin', 'obj'),
+  rails: ['.bundle', 'vendor/bundle', 'node_modules', 'log/*', 'tmp/*'],
+  ruby: ['.bundle', 'vendor/bundle'],
+  php: ['node_modules'],
+  static: ['node_modules'],
+  generic: []
+};
+
+function header(template: TemplateId): string {
+  return `# syntax=docker/dockerfile:1\n# Generated by AutoDeploy (template: ${template})\n`;
+}
+
+/** The .dockerignore that goes with a template */
+export function templateDockerignore(template: TemplateId): string {
+  return `# Generated by AutoDeploy (template: ${template})\n${[...COMMON_IGNORES, ...TEMPLATE_IGNORES[template]].join('\n')}\n`;
+}
+
+/**
+ * The .dockerignore for a Dockerfile that still carries a template header,
+ * e.g. after AI refinement; undefined for any other Dockerfile
+ */
+export function dockerignoreForDockerfile(dockerfile: string): string | undefined {
+  const template = dockerfile.match(HEADER)?.[1] as TemplateId | undefined;
+  return template && template in TEMPLATE_IGNORES ? templateDockerignore(template) : undefined;
+}
+
+function render(template: TemplateId, port: number, body: string): TemplateResult {
+  return { template, port, dockerfile: `${header(template)}\n${body.trim()}\n`, dockerignore: templateDockerignore(template) };
+}
+
+function jsonCmd(args: string[]): string {
+  return JSON.stringify(args).replace(/","/g, '", "');
+}
+
+// ---------------------------------------------------------------------------
+// Node.js
+// ---------------------------------------------------------------------------
+
+function nodePackageManager(view: ProjectView): NodePackageManager {
+  if (view.has('pnpm-lock.yaml')) return 'pnpm';
+  if (view.has('yarn.lock')) return view.has('.yarnrc.yml') ? 'yarn-berry' : 'yarn';
+  return 'npm';
+}
+
+function nodeCommands(pm: NodePackageManager, hasLockfile: boolean) {
+  switch (pm) {
+    case 'pnpm':
+      return {
+        manifests: 'package.json pnpm-lock.yaml',
+        setup: 'RUN corepack enable',
+        install: 'pnpm install --frozen-lockfile',
+        run: (script: string) => `pnpm run ${script}`,
+        runIn: (pkg: string, script: string) => `pnpm --filter ${pkg} run ${script}`,
+        prune: 'pnpm prune --prod',
+        start: ['pnpm', 'start'],
+      };
+    case 'yarn':
+      return {
+        manifests: 'package.json yarn.lock',
+        setup: '',
+        install: 'yarn install --frozen-lockfile',
+        run: (script: string) => `yarn run ${script}`,
+        runIn: (pkg: string, script: string) => `yarn workspace ${pkg} run ${script}`,
+        prune: 'yarn install --production --frozen-lockfile --ignore-scripts --prefer-offline',
+        start: ['yarn', 'start'],
+      };
+    case 'yarn-berry':
+      return {
+        manifests: 'package.json yarn.lock .yarnrc.yml',
+        setup: 'RUN corepack enable',
+        install: 'yarn install --immutable',
+        run: (script: string) => `yarn run ${script}`,
+        runIn: (pkg: string, script: string) => `yarn workspace ${pkg} run ${script}`,
+        prune: '',
+        start: ['yarn', 'start'],
+      };
+    default:
+      return {
+        manifests: hasLockfile ? 'package.json package-lock.json' : 'package.json',
+        setup: '',
+        install: hasLockfile ? 'npm ci' : 'npm install',
+        run: (script: string) => `npm run ${script}`,
+        runIn: (pkg: string, script: string) => `npm run ${script} --workspace ${pkg}`,
+        prune: 'npm prune --omit=dev',
+        start: ['npm', 'start'],
+      };
+  }
+}
+
+function nodeStages(view: ProjectView): { pm: ReturnType<typeof nodeCommands>; deps: string; builder: string } {
+  const pm = nodeCommands(nodePackageManager(view), view.has('package-lock.json'));
+  const setup = pm.setup ? `${pm.setup}\n` : '';
+
+  if (view.workspace) {
+    // Workspace installs need every member's package.json, so install after copying the tree
+    const ws = view.workspace;
+    const builds = [...ws.buildFirst, ...(view.script('build') ? [ws.name] : [])]
+      .map(pkg => `RUN ${pm.runIn(pkg, 'build')}\n`)
+      .join('');
+    const prune = pm.prune ? `RUN ${pm.prune}\n` : '';
+    const builder = `FROM ${NODE_IMAGE} AS builder
+WORKDIR /app
+${setup}COPY . .
+RUN ${pm.install}
+${builds}${prune}`.trim();
+    return { pm, deps: '', builder };
+  }
+
+  const deps = `FROM ${NODE_IMAGE} AS deps
+WORKDIR /app
+${setup}COPY ${pm.manifests} ./
+RUN ${pm.install}`;
+
+  const build = view.script('build') ? `RUN ${pm.run('build')}\n` : '';
+  const prune = pm.prune ? `RUN ${pm.prune}\n` : '';
+
+  const builder = `FROM ${NODE_IMAGE} AS builder
+WORKDIR /app
+${setup}COPY --from=deps /app/node_modules ./node_modules
+COPY . .
+${build}${prune}`.trim();
+
+  return { pm, deps, builder };
+}
+
+function nodeRunner(view: ProjectView, extraEnv: string, cmd: string[], port: number): string {
+  const { pm } = nodeStages(view);
+  const setup = pm.setup ? `${pm.setup}\n` : '';
+  return `FROM ${NODE_IMAGE} AS runner
+WORKDIR /app
+ENV NODE_ENV=production
+ENV PORT=${port}
+${extraEnv}${setup}COPY --from=builder --chown=node:node /app ./
+${view.workspace ? `WORKDIR /app/${view.workspace.path}\n` : ''}USER node
+EXPOSE ${port}
+CMD ${jsonCmd(cmd)}`;
+}
+
+function nodeTemplate(view: ProjectView): TemplateResult {
+  const stages = nodeStages(view);
+  const { pm, builder } = stages;
+  const deps = stages.deps ? `${stages.deps}\n\n` : '';
+
+  if (view.usesNodeFramework('nextjs')) {
+    const runner = nodeRunner(view, 'ENV NEXT_TELEMETRY_DISABLED=1\n', pm.start, 3000);
+    return render('node-nextjs', 3000, `${deps}${builder}\n\n${runner}`);
+  }
+
+  if (view.usesNodeFramework('nestjs')) {
+    const cmd = view.script('start:prod') ? [pm.start[0], 'run', 'start:prod'] : ['node', 'dist/main.js'];
+    const runner = nodeRunner(view, '', cmd, 3000);
+    return render('node-nestjs', 3000, `${deps}${builder}\n\n${runner}`);
+  }
+
+  const start = view.script('start');
+  const isSpa = (view.dep('vite') || view.dep('react-scripts'))
+    && !!view.script('build')
+    && (!start || /\b(vite|react-scripts)\b/.test(start));
+
+  if (isSpa) {
+    const outputDir = `${view.workspace ? `${view.workspace.path}/` : ''}${view.dep('react-scripts') ? 'build' : 'dist'}`;
+    const setup = pm.setup ? `${pm.setup}\n` : '';
+    const spaBuilder = view.workspace
+      ? builder
+      : `FROM ${NODE_IMAGE} AS builder
+WORKDIR /app
+${setup}COPY --from=deps /app/node_modules ./node_modules
+COPY . .
+RUN ${pm.run('build')}`;
+
+    const runner = `FROM ${STATIC_IMAGE} AS runner
+COPY --from=builder /app/${outputDir} /usr/share/nginx/html
+# Serve index.html for client-side routes
+RUN printf 'server {\\n  listen 8080;\\n  root /usr/share/nginx/html;\\n  location / {\\n    try_files $uri $uri/ /index.html;\\n  }\\n}\\n' > /etc/nginx/conf.d/default.conf
+EXPOSE 8080
+CMD ["nginx", "-g", "daemon off;"]`;
+    return render('node-spa', 8080, `${deps}${spaBuilder}\n\n${runner}`);
+  }
+
+  const entry = view.analysis.entryPoint && /\.(c|m)?js$/.test(view.analysis.entryPoint)
+    ? view.analysis.entryPoint
+    : 'index.js';
+  const cmd = start ? pm.start : ['node', entry];
+  const runner = nodeRunner(view, '', cmd, 3000);
+  return render('node', 3000, `${deps}${builder}\n\n${runner}`);
+}
+
+// ---------------------------------------------------------------------------
+// Python
+// ---------------------------------------------------------------------------
+
+function pythonPackageManager(view: ProjectView): PythonPackageManager {
+  if (view.has('uv.lock')) return 'uv';
+  if (view.has('poetry.lock')) return 'poetry';
+  if (view.has('requirements.txt')) return 'pip';
+  if (view.has('pyproject.toml')) return 'pyproject';
+  return 'pip';
+}
+
+function pythonModule(entryPoint: string | undefined, fallback: string): string {
+  if (!entryPoint || !entryPoint.endsWith('.py')) return fallback;
+  return entryPoint.replace(/\.py$/, '').replace(/[\\/]/g, '.');
+}
+
+function pythonTemplate(view: ProjectView): TemplateResult {
+  const pm = pythonPackageManager(view);
+  const framework = view.analysis.framework;
+  const port = 8000;
+
+  let install: string;
+  let addPackage: (pkgs: string) => string;
+  switch (pm) {
+    case 'uv':
+      install = `COPY --from=ghcr.io/astral-sh/uv:0.4 /uv /usr/local/bin/uv
+ENV UV_PROJECT_ENVIRONMENT=/opt/venv UV_COMPILE_BYTECODE=1 UV_LINK_MODE=copy
+COPY pyproject.toml uv.lock ./
+RUN uv sync --frozen --no-dev --no-install-project`;
+      addPackage = (pkgs) => `RUN uv pip install --python /opt/venv/bin/python ${pkgs}`;
+      break;
+    case 'poetry':
+      install = `RUN pip install --no-cache-dir "poetry>=1.8,<2" && python -m venv /opt/venv
+ENV VIRTUAL_ENV=/opt/venv PATH="/opt/venv/bin:$PATH"
+COPY pyproject.toml poetry.lock ./
+RUN poetry config virtualenvs.create false && poetry install --only main --no-root --no-interaction --no-ansi`;
+      addPackage = (pkgs) => `RUN /opt/venv/bin/pip install --no-cache-dir ${pkgs}`;
+      break;
+    case 'pyproject':
+      install = `RUN python -m venv /opt/venv
+ENV PATH="/opt/venv/bin:$PATH"
+COPY . .
+RUN pip install --no-cache-dir .`;
+      addPackage = (pkgs) => `RUN /opt/venv/bin/pip install --no-cache-dir ${pkgs}`;
+      break;
+    default:
+      install = view.has('requirements.txt')
+        ? `RUN python -m venv /opt/venv
+ENV PATH="/opt/venv/bin:$PATH"
+COPY requirements.txt ./
+RUN pip install --no-cache-dir -r requirements.txt`
+        : `RUN python -m venv /opt/venv
+ENV PATH="/opt/venv/bin:$PATH"`;
+      addPackage = (pkgs) => `RUN /opt/venv/bin/pip install --no-cache-dir ${pkgs}`;
+  }
+
+  let cmd: string[];
+  const servers: string[] = [];
+  if (framework === 'fastapi') {
+    if (!view.dep('uvicorn')) servers.push('"uvicorn[standard]"');
+    cmd = ['uvicorn', `${pythonModule(view.analysis.entryPoint, 'main')}:app`, '--host', '0.0.0.0', '--port', String(port)];
+  } else if (framework === 'flask') {
+    if (!view.dep('gunicorn')) servers.push('gunicorn');
+    cmd = ['gunicorn', '--bind', `0.0.0.0:${port}`, '--workers', '2', `${pythonModule(view.analysis.entryPoint, 'app')}:app`];
+  } else if (framework === 'django') {
+    if (!view.dep('gunicorn')) servers.push('gunicorn');
+    const wsgi = view.find(/^[^/]+\/wsgi\.py$/);
+    const project = wsgi ? wsgi.split('/')[0] : (view.analysis.projectName || 'config');
+    cmd = ['gunicorn', '--bind', `0.0.0.0:${port}`, '--workers', '2', `${project}.wsgi:application`];
+  } else {
+    cmd = ['python', view.analysis.entryPoint || 'main.py'];
+  }
+
+  const serverInstall = servers.length > 0 ? `\n${addPackage(servers.join(' '))}` : '';
+
+  const body = `FROM ${PYTHON_IMAGE} AS builder
+WORKDIR /app
+ENV PIP_DISABLE_PIP_VERSION_CHECK=1 PIP_NO_CACHE_DIR=1
+${install}${serverInstall}
+
+FROM ${PYTHON_IMAGE} AS runner
+WORKDIR /app
+ENV PYTHONDONTWRITEBYTECODE=1 PYTHONUNBUFFERED=1 PATH="/opt/venv/bin:$PATH"
+RUN useradd --create-home --uid 10001 app
+COPY --from=builder /opt/venv /opt/venv
+COPY --chown=app:app . .
+USER app
+EXPOSE ${port}
+CMD ${jsonCmd(cmd)}`;
+
+  return render('python', port, body);
+}
+
+// ---------------------------------------------------------------------------
+// Compiled languages
+// ---------------------------------------------------------------------------
+
+function goTemplate(view: ProjectView): TemplateResult {
+  const cmdMain = view.has('main.go') ? undefined : view.find(/^cmd\/[^/]+\/main\.go$/);
+  const target = cmdMain ? `./${cmdMain.replace(/\/main\.go$/, '')}` : '.';
+  const manifests = view.has('go.sum') ? 'go.mod go.sum' : 'go.mod';
+
+  return render('go', 8080, `FROM golang:1.22-alpine AS builder
+WORKDIR /src
+COPY ${manifests} ./
+RUN go mod download
+COPY . .
+RUN CGO_ENABLED=0 go build -trimpath -ldflags="-s -w" -o /out/app ${target}
+
+FROM gcr.io/distroless/static-debian12:nonroot AS runner
+COPY --from=builder /out/app /app
+USER nonroot:nonroot
+EXPOSE 8080
+ENTRYPOINT ["/app"]`);
+}
+
+function rustTemplate(view: ProjectView): TemplateResult {
+  const binary = view.analysis.projectName || 'app';
+  const locked = view.has('Cargo.lock') ? ' --locked' : '';
+
+  return render('rust', 8080, `FROM rust:1.79-slim AS builder
+WORKDIR /src
+COPY . .
+RUN cargo build --release${locked} && cp target/release/${binary} /usr/local/bin/app
+
+FROM debian:bookworm-slim AS runner
+RUN apt-get update && apt-get install -y --no-install-recommends ca-certificates \\
+    && rm -rf /var/lib/apt/lists/* \\
+    && useradd --create-home --uid 10001 app
+COPY --from=builder /usr/local/bin/app /usr/local/bin/app
+USER app
+EXPOSE 8080
+ENTRYPOINT ["/usr/local/bin/app"]`);
+}
+
+const JAVA_RUNNER = `FROM eclipse-temurin:21-jre AS runner
+WORKDIR /app
+RUN useradd --create-home --uid 10001 app
+COPY --from=builder /out/app.jar ./app.jar
+USER app
+EXPOSE 8080
+ENTRYPOINT ["java", "-XX:MaxRAMPercentage=75", "-jar", "/app/app.jar"]`;
+
+function mavenTemplate(): TemplateResult {
+  return render('java-maven', 8080, `FROM maven:3.9-eclipse-temurin-21 AS builder
+WORKDIR /src
+COPY pom.xml ./
+RUN mvn -B -q dependency:go-offline
+COPY src ./src
+RUN mvn -B -q package -DskipTests \\
+    && mkdir -p /out \\
+    && find target -maxdepth 1 -name '*.jar' ! -name '*-sources.jar' ! -name '*-javadoc.jar' ! -name '*.original' \\
+       | head -n 1 | xargs -I{} cp {} /out/app.jar
+
+${JAVA_RUNNER}`);
+}
+
+function gradleTemplate(): TemplateResult {
+  return render('java-gradle', 8080, `FROM gradle:8.8-jdk21 AS builder
+WORKDIR /src
+COPY . .
+RUN gradle build -x test --no-daemon \\
+    && mkdir -p /out \\
+    && find build/libs -maxdepth 1 -name '*.jar' ! -name '*-plain.jar' \\
+       | head -n 1 | xargs -I{} cp {} /out/app.jar
+
+${JAVA_RUNNER}`);
+}
+
+function dotnetTemplate(view: ProjectView): TemplateResult {
+  const project = view.find(/\.csproj$/);
+  const assembly = view.analysis.projectName
+    || (project ? project.split('/').pop()!.replace(/\.csproj$/, '') : 'app');
+  const target = project ? ` "${project}"` : '';
+
+  return render('dotnet', 8080, `FROM mcr.microsoft.com/dotnet/sdk:8.0 AS builder
+WORKDIR /src
+COPY . .
+RUN dotnet restore${target}
+RUN dotnet publish${target} -c Release -o /out --no-restore
+
+FROM mcr.microsoft.com/dotnet/aspnet:8.0 AS runner
+WORKDIR /app
+ENV ASPNETCORE_HTTP_PORTS=8080
+COPY --from=builder /out ./
+USER app
+EXPOSE 8080
+ENTRYPOINT ["dotnet", "${assembly}.dll"]`);
+}
+
+// ---------------------------------------------------------------------------
+// Ruby, PHP, static
+// ---------------------------------------------------------------------------
+
+function rubyTemplate(view: ProjectView): TemplateResult {
+  const rails = view.dep('rails') || view.has('bin/rails') || view.analysis.framework === 'rails';
+  const manifests = view.has('Gemfile.lock') ? 'Gemfile Gemfile.lock' : 'Gemfile';
+  const port = rails ? 3000 : 9292;
+
+  const precompile = rails
+    ? `\nRUN if bundle exec rails -T assets:precompile 2>/dev/null | grep -q precompile; then \\
+      SECRET_KEY_BASE_DUMMY=1 bundle exec rails assets:precompile; fi`
+    : '';
+
+  let cmd: string[];
+  if (rails) {
+    cmd = ['bundle', 'exec', 'rails', 'server', '-b', '0.0.0.0', '-p', String(port)];
+  } else if (view.has('config.ru')) {
+    cmd = ['bundle', 'exec', 'rackup', '--host', '0.0.0.0', '--port', String(port)];
+  } else {
+    cmd = ['bundle', 'exec', 'ruby', view.analysis.entryPoint || 'app.rb'];
+  }
+
+  return render(rails ? 'rails' : 'ruby', port, `FROM ruby:3.3-slim AS builder
+WORKDIR /app
+RUN apt-get update && apt-get install -y --no-install-recommends build-essential git libpq-dev libyaml-dev \\
+    && rm -rf /var/lib/apt/lists/*
+ENV BUNDLE_WITHOUT="development:test" BUNDLE_DEPLOYMENT=1 BUNDLE_PATH=/usr/local/bundle
+COPY ${manifests} ./
+RUN bundle install --jobs 4
+COPY . .${precompile}
+
+FROM ruby:3.3-slim AS runner
+WORKDIR /app
+RUN apt-get update && apt-get install -y --no-install-recommends libpq5 libyaml-0-2 \\
+    && rm -rf /var/lib/apt/lists/* \\
+    && useradd --create-home --uid 10001 app
+ENV BUNDLE_WITHOUT="development:test" BUNDLE_DEPLOYMENT=1 BUNDLE_PATH=/usr/local/bundle${rails ? ' RAILS_ENV=production RAILS_LOG_TO_STDOUT=1' : ''}
+COPY --from=builder /usr/local/bundle /usr/local/bundle
+COPY --from=builder --chown=app:app /app ./
+USER app
+EXPOSE ${port}
+CMD ${jsonCmd(cmd)}`);
+}
+
+function phpTemplate(view: ProjectView): TemplateResult {
+  const laravel = view.has('artisan') || view.dep('laravel/framework');
+  const composer = view.has('composer.json');
+  const manifests = view.has('composer.lock') ? 'composer.json composer.lock' : 'composer.json';
+
+  const vendorStage = composer
+    ? `FROM composer:2 AS vendor
+WORKDIR /app
+COPY ${manifests} ./
+RUN composer install --no-dev --no-interaction --no-scripts --prefer-dist --optimize-autoloader
+
+`
+    : '';
+
+  const docroot = laravel
+    ? `ENV APACHE_DOCUMENT_ROOT=/var/www/html/public
+RUN sed -ri 's!/var/www/html!\${APACHE_DOCUMENT_ROOT}!g' /etc/apache2/sites-available/*.conf /etc/apache2/apache2.conf
+`
+    : '';
+
+  return render('php', 80, `${vendorStage}FROM php:8.3-apache AS runner
+WORKDIR /var/www/html
+RUN a2enmod rewrite && docker-php-ext-install pdo_mysql opcache
+${docroot}COPY --chown=www-data:www-data . .
+${composer ? 'COPY --from=vendor --chown=www-data:www-data /app/vendor ./vendor\n' : ''}EXPOSE 80
+CMD ["apache2-foreground"]`);
+}
+
+function staticTemplate(): TemplateResult {
+  return render('static', 8080, `FROM ${STATIC_IMAGE} AS runner
+COPY . /usr/share/nginx/html
+EXPOSE 8080
+CMD ["nginx", "-g", "daemon off;"]`);
+}
+
+function genericTemplate(view: ProjectView): TemplateResult {
+  return render('generic', 8080, `# Could not detect a supported stack for language "${view.analysis.language}".
+FROM debian:bookworm-slim AS runner
+WORKDIR /app
+RUN useradd --create-home --uid 10001 app
+COPY --chown=app:app . .
+USER app
+EXPOSE 8080
+CMD ["sh", "-c", "echo 'Configure the start command for this project' && exit 1"]`);
+}
+
+/**
+ * Pick a template from the analysis. Build manifests take priority over the
+ * detected language because many backends also carry a package.json for
+ * frontend tooling.
+ */
+export function selectTemplate(analysis: ProjectAnalysis): TemplateId {
+  const view = new ProjectView(analysis);
+
+  if (view.has('go.mod') || view.is('go')) return 'go';
+  if (view.has('Cargo.toml') || view.is('rust')) return 'rust';
+  if (view.has('pom.xml')) return 'java-maven';
+  if (view.has('build.gradle') || view.has('build.gradle.kts')) return 'java-gradle';
+  if (view.find(/\.(csproj|sln)$/) || view.is('csharp')) return 'dotnet';
+  if (view.has('Gemfile') || view.is('ruby')) {
+    return view.dep('rails') || view.has('bin/rails') ? 'rails' : 'ruby';
+  }
+  if (view.has('composer.json') || view.has('index.php') || view.is('php')) return 'php';
+
+  const pythonManifest = ['requirements.txt', 'pyproject.toml', 'poetry.lock', 'uv.lock', 'Pipfile'].some(f => view.has(f));
+  const nodeManifest = view.has('package.json');
+  if (pythonManifest && (!nodeManifest || view.is('python'))) return 'python';
+
+  if (nodeManifest || view.is('javascript') || view.is('typescript')) {
+    if (view.usesNodeFramework('nextjs')) return 'node-nextjs';
+    if (view.usesNodeFramework('nestjs')) return 'node-nestjs';
+    return nodeTemplate(view).template;
+  }
+
+  if (view.is('python')) return 'python';
+  if (view.has('index.html') || view.is('html')) return 'static';
+  return 'generic';
+}
+
+/**
+ * Generate a production Dockerfile from the analysis without any network
+ * calls. The same analysis always produces byte-identical output. Pass
+ * `workspace` for a monorepo member that must be built from the repo root.
+ */
+export function generateTemplateDockerfile(analysis: ProjectAnalysis, options: TemplateOptions = {}): TemplateResult {
+  const view = new ProjectView(analysis, options.workspace);
+
+  switch (selectTemplate(analysis)) {
+    case 'go': return goTemplate(view);
+    case 'rust': return rustTemplate(view);
+    case 'java-maven': return mavenTemplate();
+    case 'java-gradle': return gradleTemplate();
+    case 'dotnet': return dotnetTemplate(view);
+    case 'rails':
+    case 'ruby': return rubyTemplate(view);
+    case 'php': return phpTemplate(view);
+    case 'python': return pythonTemplate(view);
+    case 'node-nextjs':
+    case 'node-nestjs':
+    case 'node-spa':
+    case 'node': return nodeTemplate(view);
+    case 'static': return staticTemplate();
+    default: return genericTemplate(view);
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { EventBus } from './events';
+import { secretRedactor } from './credentials';
+import type { JobEvent } from '../../shared/types';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('EventBus', () => {
+  let now = Date.parse('2025-10-01T00:00:00Z');
+  const bus = (bufferSize = 100) => new EventBus({ bufferSize, retentionMs: HOUR }, () => now);
+
+  it('numbers events per job and replays what a late subscriber missed', () => {
+    const events = bus(3);
+    events.publish('job-1', { type: 'phase-start', phase: 'analysis' });
+    events.log('job-1', 'one');
+    events.log('job-2', 'elsewhere');
+    events.log('job-1', 'two');
+    events.log('job-1', 'three');
+
+    const received: JobEvent[] = [];
+    const unsubscribe = events.subscribe('job-1', event => received.push(event), { afterId: 2 });
+    events.publish('job-1', { type: 'done', success: true });
+    unsubscribe();
+    events.log('job-1', 'after unsubscribe');
+
+    expect(received.map(event => [event.id, event.type])).toEqual([[3, 'log'], [4, 'log'], [5, 'done']]);
+    expect(received[0]).toMatchObject({ jobId: 'job-1', level: 'info', message: 'two' });
+    // Only the last three events are buffered
+    expect(events.events('job-1').map(event => event.id)).toEqual([4, 5, 6]);
+  });
+
+  it('keeps owned jobs to their owner and redacts registered secrets', () => {
+    const events = bus();
+    const early: JobEvent[] = [];
+    events.subscribe('deploy-1', event => early.push(event));
+    events.open('deploy-1', 'user-1');
+    secretRedactor.register('ghp_eventBusSpecSecret0123456789');
+    events.log('deploy-1', 'cloning with ghp_eventBusSpecSecret0123456789');
+
+    expect(early).toEqual([]);
+    expect(events.canAccess('deploy-1', 'user-2')).toBe(false);
+    expect(events.canAccess('deploy-1', 'user-1')).toBe(true);
+    // Claimed ids are not handed to another owner, nor to anonymous publishers
+    expect(events.open('deploy-1', 'user-2')).toBe(false);
+    expect(events.open('deploy-1')).toBe(false);
+    expect(events.open('deploy-1', 'user-1')).toBe(true);
+    expect(events.open('upload-1', 'user-1')).toBe(true);
+    expect(events.canAccess('upload-1', 'user-2')).toBe(false);
+    expect(events.canAccess('upload-2', 'user-2')).toBe(true);
+    expect(events.events('deploy-1', 0, 'user-2')).toEqual([]);
+    const [event] = events.events('deploy-1', 0, 'user-1');
+    expect(event.type === 'log' && event.message).not.toContain('ghp_eventBusSpecSecret0123456789');
+  });
+
+  it('captures console output for the job that produced it only', async () => {
+    const events = bus();
+    const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+    await Promise.all(['a', 'b'].map(jobId => events.capture(`capture-${jobId}`, async () => {
+      console.log(`first from ${jobId}`);
+      await tick();
+      console.warn(`second from ${jobId}`, { step: jobId });
+    })));
+    console.log('outside any job');
+
+    const messages = (jobId: string) => events.events(jobId).map(event => event.type === 'log' ? `${event.level}: ${event.message}` : event.type);
+    expect(messages('capture-a')).toEqual(['info: first from a', "warn: second from a { step: 'a' }"]);
+    expect(messages('capture-b')).toEqual(['info: first from b', "warn: second from b { step: 'b' }"]);
+  });
+
+  it('ends failed jobs with error and done, and sweeps idle ones nobody follows', () => {
+    const events = bus();
+    events.fail('failed', 'Repository URL is required');
+    expect(events.events('failed').map(event => event.type)).toEqual(['error', 'done']);
+
+    const unsubscribe = events.subscribe('followed', () => undefined);
+    now += 2 * HOUR;
+    expect(events.sweep()).toEqual(['failed']);
+    unsubscribe();
+    now += 2 * HOUR;
+    expect(events.sweep()).toEqual(['followed']);
+  });
+});
@@ -0,0 +1,190 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { formatWithOptions } from 'util';
+import { secretRedactor } from './credentials';
+import type { JobEvent, JobLogLevel } from '../../shared/types';
+
+/**
+ * One event stream per long-running job, keyed by deployment or job id.
+ * Events are numbered per job and the most recent ones are buffered, so a
+ * subscriber that connects late, or reconnects with `Last-Event-ID`, gets
+ * what it missed first. Transports (SSE, WebSocket) live in routes/events.ts.
+ */
+
+type WithoutEnvelope<T> = T extends unknown ? Omit<T, 'id' | 'jobId' | 'at'> : never;
+
+/** An event as published; the bus adds the id, job id and timestamp */
+export type JobEventInput = WithoutEnvelope<JobEvent>;
+
+export type JobEventListener = (event: JobEvent) => void;
+
+export interface EventBusOptions {
+  bufferSize: number; // Events kept per job for replay
+  retentionMs: number; // Idle time before a job's events are dropped
+}
+
+interface JobStream {
+  events: JobEvent[];
+  lastId: number;
+  ownerId?: string;
+  listeners: Map<JobEventListener, string | undefined>; // Listener -> subscribing user
+  updatedAt: number;
+}
+
+export const JOB_ID = /^[A-Za-z0-9._-]{1,128}$/;
+
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+// Job whose console output is being forwarded, for code running inside EventBus.capture
+const capturing = new AsyncLocalStorage<{ bus: EventBus; jobId: string }>();
+let consoleForwarded = false;
+
+/**
+ * Wrap console.log/info/warn/error once. Output still goes to the terminal;
+ * inside `capture` it is also published to that job only, so concurrent
+ * requests never see each other's logs.
+ */
+function forwardConsole(): void {
+  if (consoleForwarded) return;
+  consoleForwarded = true;
+  const levels: [keyof Pick<Console, 'log' | 'info' | 'warn' | 'error'>, JobLogLevel][] = [['log', 'info'], ['info', 'info'], ['warn', 'warn'], ['error', 'error']];
+  for (const [method, level] of levels) {
+    const original = console[method].bind(console);
+    console[method] = (...args: unknown[]) => {
+      original(...args);
+      const context = capturing.getStore();
+      if (context) context.bus.log(context.jobId, formatWithOptions({ colors: false, depth: 4 }, ...args), level);
+    };
+  }
+}
+
+export class EventBus {
+  private jobs = new Map<string, JobStream>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(readonly options: EventBusOptions, private now: () => number = Date.now) {}
+
+  /**
+   * Restrict a job's events to `ownerId`, like the job itself. Jobs without
+   * an owner can be followed by anyone who knows the id. A job another user
+   * has already claimed is left alone and false is returned.
+   */
+  open(jobId: string, ownerId?: string | null): boolean {
+    if (!this.canAccess(jobId, ownerId ?? undefined)) return false;
+    const stream = this.stream(jobId);
+    if (ownerId) stream.ownerId = ownerId;
+    return true;
+  }
+
+  publish(jobId: string, input: JobEventInput): JobEvent {
+    const stream = this.stream(jobId);
+    const event = secretRedactor.redactValue({ ...input, id: ++stream.lastId, jobId, at: new Date(this.now()).toISOString() }) as JobEvent;
+    stream.events.push(event);
+    if (stream.events.length > this.options.bufferSize) stream.events.splice(0, stream.events.length - this.options.bufferSize);
+    stream.updatedAt = this.now();
+
+    for (const [listener, userId] of stream.listeners) {
+      if (!this.allowed(stream, userId)) continue;
+      try {
+        listener(event);
+      } catch {
+        // A broken transport must not stop the job
+      }
+    }
+    return event;
+  }
+
+  log(jobId: string, message: string, level: JobLogLevel = 'info', phase?: string): JobEvent {
+    return this.publish(jobId, { type: 'log', level, message, ...(phase ? { phase } : {}) });
+  }
+
+  /** Report a failure and end the stream */
+  fail(jobId: string, error: string, code?: string): JobEvent {
+    this.publish(jobId, { type: 'error', error, ...(code ? { code } : {}) });
+    return this.publish(jobId, { type: 'done', success: false });
+  }
+
+  /**
+   * Replay buffered events after `afterId`, then deliver new ones until the
+   * returned function is called
+   */
+  subscribe(jobId: string, listener: JobEventListener, options: { afterId?: number; userId?: string } = {}): () => void {
+    const stream = this.stream(jobId);
+    for (const event of this.events(jobId, options.afterId ?? 0, options.userId)) {
+      listener(event);
+    }
+    stream.listeners.set(listener, options.userId);
+    return () => {
+      stream.listeners.delete(listener);
+      stream.updatedAt = this.now();
+    };
+  }
+
+  /** Buffered events after `afterId` that `userId` may see */
+  events(jobId: string, afterId = 0, userId?: string): JobEvent[] {
+    const stream = this.jobs.get(jobId);
+    if (!stream || !this.allowed(stream, userId)) return [];
+    return stream.events.filter(event => event.id > afterId);
+  }
+
+  /**
+   * Whether `userId` may follow or publish to `jobId`. An id nobody has
+   * claimed yet is open; once `open` gave it an owner, only that owner may,
+   * even before anything was published.
+   */
+  canAccess(jobId: string, userId?: string): boolean {
+    const stream = this.jobs.get(jobId);
+    return !stream || this.allowed(stream, userId);
+  }
+
+  /**
+   * Run `task` with its console output published to `jobId` as log events
+   */
+  capture<T>(jobId: string, task: () => Promise<T>): Promise<T> {
+    forwardConsole();
+    return capturing.run({ bus: this, jobId }, task);
+  }
+
+  /** Drop idle jobs nobody is listening to; returns their ids */
+  sweep(): string[] {
+    const cutoff = this.now() - this.options.retentionMs;
+    const removed = [...this.jobs]
+      .filter(([, stream]) => stream.listeners.size === 0 && stream.updatedAt < cutoff)
+      .map(([jobId]) => jobId);
+    removed.forEach(jobId => this.jobs.delete(jobId));
+    return removed;
+  }
+
+  private stream(jobId: string): JobStream {
+    let stream = this.jobs.get(jobId);
+    if (!stream) {
+      stream = { events: [], lastId: 0, listeners: new Map(), updatedAt: this.now() };
+      this.jobs.set(jobId, stream);
+      this.startSweeper();
+    }
+    return stream;
+  }
+
+  private allowed(stream: JobStream, userId?: string): boolean {
+    return !stream.ownerId || stream.ownerId === userId;
+  }
+
+  private startSweeper(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+}
+
+/**
+ * JOB_EVENT_BUFFER (default 2000 events per job) and
+ * JOB_EVENT_RETENTION_HOURS (default 1)
+ */
+export function eventBusOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): EventBusOptions {
+  const positive = (value: string | undefined, fallback: number) => Number(value) > 0 ? Number(value) : fallback;
+  return {
+    bufferSize: positive(env.JOB_EVENT_BUFFER, 2000),
+    retentionMs: positive(env.JOB_EVENT_RETENTION_HOURS, 1) * 60 * 60 * 1000
+  };
+}
+
+export const eventBus = new EventBus(eventBusOptionsFromEnv());
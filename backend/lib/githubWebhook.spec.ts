@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { planWebhookDeployment } from './githubWebhook';
+
+const repository = { full_name: 'acme/api', html_url: 'https://github.com/acme/api', default_branch: 'main' };
+
+function pullRequest(headRepo: string) {
+  return {
+    action: 'opened',
+    number: 7,
+    repository,
+    pull_request: {
+      number: 7,
+      head: { sha: 'abc123', ref: 'feature', repo: { full_name: headRepo, html_url: `https://github.com/${headRepo}` } },
+      base: { ref: 'main', repo: { full_name: 'acme/api', html_url: 'https://github.com/acme/api' } }
+    }
+  };
+}
+
+describe('planWebhookDeployment', () => {
+  it('builds a preview of a pull request from the same repository', () => {
+    const plan = planWebhookDeployment('pull_request', pullRequest('acme/api'), { secret: 's' });
+    expect(plan.config).toMatchObject({ repoUrl: 'https://github.com/acme/api', ref: 'abc123', imageTag: 'pr-7', autoPush: false, autoDeploy: false });
+  });
+
+  it('skips pull requests from forks unless the rule allows them', () => {
+    const skipped = planWebhookDeployment('pull_request', pullRequest('mallory/api'), { secret: 's' });
+    expect(skipped.config).toBeUndefined();
+    expect(skipped.skipReason).toMatch(/mallory\/api.*forks are not enabled/);
+
+    const allowed = planWebhookDeployment('pull_request', pullRequest('mallory/api'), { secret: 's', allowForks: true });
+    expect(allowed.config).toMatchObject({ repoUrl: 'https://github.com/mallory/api', ref: 'abc123', autoPush: false });
+  });
+});
@@ -0,0 +1,235 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AutoDeployConfig } from './autoDeployService';
+import { sanitizeImageTag } from './docker';
+import { parseBuildOptions, BuildKitOptions, BuildOptionsError } from './buildOptions';
+import { DeploymentTargetError, validateDeploymentTarget } from './deploymentTargets';
+
+/**
+ * Per-repository webhook rules, keyed by `owner/repo` in the rules file:
+ *
+ * {
+ *   "repositories": {
+ *     "acme/api": { "secret": "...", "branches": ["main", "release/*"], "tags": ["v*"],
+ *                   "buildOptions": { "platforms": ["linux/amd64", "linux/arm64"] },
+ *                   "deploymentTarget": "gcp", "deploymentConfig": { "project": "acme-prod", "region": "us-central1", "service": "api" } }
+ *   }
+ * }
+ */
+export interface WebhookRepoRule {
+  secret: string;
+  branches?: string[];
+  tags?: string[];
+  pullRequests?: boolean;
+  allowForks?: boolean; // Also build pull requests opened from forks; off by default
+  releases?: boolean;
+  deploymentTarget?: AutoDeployConfig['deploymentTarget'];
+  deploymentConfig?: unknown;
+  dockerHubUsername?: string;
+  buildOptions?: BuildKitOptions;
+}
+
+export interface WebhookRulesFile {
+  repositories?: Record<string, WebhookRepoRule>;
+}
+
+export interface WebhookPlan {
+  config?: AutoDeployConfig;
+  skipReason?: string;
+}
+
+export const DEFAULT_BRANCHES = ['main', 'master'];
+const PULL_REQUEST_ACTIONS = ['opened', 'synchronize', 'reopened'];
+const DELIVERY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_TRACKED_DELIVERIES = 5000;
+
+function rulesPath(): string {
+  return process.env.GITHUB_WEBHOOKS_PATH || path.join(process.cwd(), '.data', 'github-webhooks.json');
+}
+
+/**
+ * Find the rule for a repository. The rules file is re-read on every call so
+ * secrets can be rotated without a restart; GITHUB_WEBHOOK_SECRET covers
+ * repositories that are not listed, deploying only main/master pushes.
+ */
+export function getRepoRule(fullName: string): WebhookRepoRule | null {
+  try {
+    const file = rulesPath();
+    if (fs.existsSync(file)) {
+      const rules = JSON.parse(fs.readFileSync(file, 'utf-8')) as WebhookRulesFile;
+      const match = Object.entries(rules.repositories || {})
+        .find(([name]) => name.toLowerCase() === fullName.toLowerCase());
+      if (match) return match[1];
+    }
+  } catch (error) {
+    console.error(`⚠️ Could not read webhook rules at ${rulesPath()}:`, error);
+  }
+
+  const fallbackSecret = process.env.GITHUB_WEBHOOK_SECRET;
+  return fallbackSecret ? { secret: fallbackSecret } : null;
+}
+
+/**
+ * Check an `X-Hub-Signature-256` header (`sha256=<hex>`) against the raw body
+ */
+export function verifySignature(rawBody: Buffer | undefined, signature: string | undefined, secret: string): boolean {
+  if (!rawBody || !signature || !signature.startsWith('sha256=')) return false;
+
+  const expected = Buffer.from(
+    `sha256=${crypto.createHmac('sha256', secret).update(rawBody).digest('hex')}`
+  );
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Glob match for ref names: `*` stays within one path segment, `**` spans segments
+ */
+export function matchesPattern(value: string, patterns: string[]): boolean {
+  return patterns.some(pattern => {
+    const regex = pattern
+      .split('**')
+      .map(part => part
+        .split('*')
+        .map(literal => literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^/]*'))
+      .join('.*');
+    return new RegExp(`^${regex}$`).test(value);
+  });
+}
+
+const seenDeliveries = new Map<string, number>();
+
+/**
+ * Record a delivery ID; returns false when it was already seen recently.
+ * GitHub re-sends the same ID on redelivery, so duplicates are dropped.
+ */
+export function markDelivery(deliveryId: string): boolean {
+  const now = Date.now();
+  for (const [id, seenAt] of seenDeliveries) {
+    if (now - seenAt < DELIVERY_TTL_MS && seenDeliveries.size <= MAX_TRACKED_DELIVERIES) break;
+    seenDeliveries.delete(id);
+  }
+
+  if (seenDeliveries.has(deliveryId)) return false;
+  seenDeliveries.set(deliveryId, now);
+  return true;
+}
+
+/**
+ * Decide what a webhook event should deploy:
+ * - push to a matching branch: build, push and deploy (`latest` on the default branch, branch name otherwise)
+ * - push of a matching tag: build, push and deploy tagged with the tag name
+ * - pull_request opened/synchronize/reopened: build-only preview tagged `pr-<number>`,
+ *   for branches of the same repository unless the rule sets `allowForks`
+ * - release published: build, push and deploy tagged with the release version
+ */
+export function planWebhookDeployment(event: string, payload: any, rule: WebhookRepoRule): WebhookPlan {
+  const repository = payload?.repository;
+  if (!repository?.html_url) {
+    return { skipReason: 'Payload has no repository' };
+  }
+
+  let buildOptions: BuildKitOptions | undefined;
+  try {
+    buildOptions = rule.buildOptions ? parseBuildOptions(rule.buildOptions).options : undefined;
+  } catch (error) {
+    if (error instanceof BuildOptionsError) return { skipReason: error.message };
+    throw error;
+  }
+
+  try {
+    validateDeploymentTarget(rule.deploymentTarget, rule.deploymentConfig);
+  } catch (error) {
+    if (error instanceof DeploymentTargetError) return { skipReason: error.message };
+    throw error;
+  }
+
+  const base: AutoDeployConfig = {
+    repoUrl: repository.html_url,
+    autoBuild: true,
+    autoPush: true,
+    autoDeploy: true,
+    deploymentTarget: rule.deploymentTarget || 'dockerhub',
+    deploymentConfig: rule.deploymentConfig,
+    dockerHubUsername: rule.dockerHubUsername,
+    buildOptions
+  };
+
+  switch (event) {
+    case 'push': {
+      const ref: string = payload.ref || '';
+      if (payload.deleted) {
+        return { skipReason: `${ref} was deleted` };
+      }
+
+      if (ref.startsWith('refs/heads/')) {
+        const branch = ref.slice('refs/heads/'.length);
+        if (!matchesPattern(branch, rule.branches || DEFAULT_BRANCHES)) {
+          return { skipReason: `Branch ${branch} does not match the configured branches` };
+        }
+        const imageTag = branch === repository.default_branch || DEFAULT_BRANCHES.includes(branch)
+          ? 'latest'
+          : sanitizeImageTag(branch);
+        return { config: { ...base, ref: payload.after || branch, imageTag } };
+      }
+
+      if (ref.startsWith('refs/tags/')) {
+        const tag = ref.slice('refs/tags/'.length);
+        if (!matchesPattern(tag, rule.tags || [])) {
+          return { skipReason: `Tag ${tag} does not match the configured tags` };
+        }
+        return { config: { ...base, ref: tag, imageTag: sanitizeImageTag(tag) } };
+      }
+
+      return { skipReason: `Unsupported ref ${ref}` };
+    }
+
+    case 'pull_request': {
+      if (rule.pullRequests === false) {
+        return { skipReason: 'Pull request previews are disabled for this repository' };
+      }
+      if (!PULL_REQUEST_ACTIONS.includes(payload.action)) {
+        return { skipReason: `Pull request action '${payload.action}' does not trigger a build` };
+      }
+
+      const pr = payload.pull_request;
+      const headRepo: string | undefined = pr?.head?.repo?.full_name;
+      if (headRepo !== pr?.base?.repo?.full_name && !rule.allowForks) {
+        return { skipReason: `Pull request from ${headRepo || 'a deleted fork'} skipped: builds of forks are not enabled for this repository` };
+      }
+      const headRepoUrl: string = pr?.head?.repo?.html_url || repository.html_url;
+      return {
+        config: {
+          ...base,
+          repoUrl: headRepoUrl,
+          ref: pr?.head?.sha || pr?.head?.ref,
+          imageTag: `pr-${payload.number ?? pr?.number}`,
+          autoPush: false,
+          autoDeploy: false,
+          // Previews are not pushed, so only the first platform can be built
+          buildOptions: buildOptions?.platforms ? { ...buildOptions, platforms: buildOptions.platforms.slice(0, 1) } : buildOptions
+        }
+      };
+    }
+
+    case 'release': {
+      if (rule.releases === false) {
+        return { skipReason: 'Release deployments are disabled for this repository' };
+      }
+      if (payload.action !== 'published') {
+        return { skipReason: `Release action '${payload.action}' does not trigger a deployment` };
+      }
+
+      const tagName: string = payload.release?.tag_name || '';
+      if (!tagName) {
+        return { skipReason: 'Release has no tag' };
+      }
+      return { config: { ...base, ref: tagName, imageTag: sanitizeImageTag(tagName.replace(/^v(?=\d)/, '')) } };
+    }
+
+    default:
+      return { skipReason: `Event '${event}' is not handled` };
+  }
+}
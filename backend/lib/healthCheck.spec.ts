@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import net from 'net';
+import type { AddressInfo } from 'net';
+import type { DeploymentTarget, TargetDeployment, TargetStatus } from './deploymentTargets';
+import {
+  DEFAULT_HEALTH_CHECK,
+  HealthCheckOptions,
+  HealthCheckOptionsError,
+  parseHealthCheckOptions,
+  runHealthCheck
+} from './healthCheck';
+
+function fakeTarget(statuses: TargetStatus[]): DeploymentTarget {
+  let calls = 0;
+  return {
+    name: 'fake',
+    displayName: 'Fake',
+    requiresPushedImage: false,
+    validateConfig: config => config,
+    deploy: async () => { throw new Error('not used'); },
+    getStatus: async () => statuses[Math.min(calls++, statuses.length - 1)],
+    rollback: async () => { throw new Error('not used'); },
+    teardown: async () => undefined
+  };
+}
+
+const running = fakeTarget([{ state: 'running' }]);
+const fast = (options: Partial<HealthCheckOptions> = {}): HealthCheckOptions =>
+  ({ ...DEFAULT_HEALTH_CHECK, retries: 2, intervalSeconds: 1, timeoutSeconds: 1, ...options });
+
+function deployment(url?: string, details?: Record<string, unknown>): TargetDeployment {
+  return { target: 'fake', resourceId: 'acme-api', image: 'acme/api:2', url, revision: 'r2', deployedAt: '', details };
+}
+
+describe('runHealthCheck', () => {
+  let server: http.Server;
+  let base: string;
+  const hits: string[] = [];
+  let healthyAfter = 0;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      hits.push(req.url!);
+      if (req.url === '/health') res.writeHead(hits.filter(h => h === '/health').length > healthyAfter ? 200 : 503);
+      else res.writeHead(req.url === '/' ? 200 : 404);
+      res.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('probes the detected health route over HTTP and retries until it answers', async () => {
+    hits.length = 0;
+    healthyAfter = 1;
+    const logs: string[] = [];
+    const result = await runHealthCheck(deployment(base), running, {}, fast(), { healthEndpoints: ['/api/ready', '/health'], onLog: l => logs.push(l) });
+
+    expect(result).toMatchObject({ status: 'passed', probe: 'http', endpoint: `${base}/health`, image: 'acme/api:2', revision: 'r2' });
+    expect(result.attempts.map(a => [a.ok, a.statusCode])).toEqual([[false, 503], [true, 200]]);
+    expect(logs.some(l => l.includes('attempt 1/3 failed: HTTP 503'))).toBe(true);
+  });
+
+  it('fails with the evidence of every attempt', async () => {
+    const result = await runHealthCheck(deployment(base), running, {}, fast({ path: '/missing', retries: 1 }), { onLog: () => undefined });
+    expect(result.status).toBe('failed');
+    expect(result.attempts).toHaveLength(2);
+    expect(result.attempts[1]).toMatchObject({ attempt: 2, ok: false, statusCode: 404, error: 'HTTP 404' });
+    expect(result.message).toBe(`${base}/missing did not become healthy after 2 attempts (last: HTTP 404)`);
+  });
+
+  it('prefers the address the target recorded for this server', async () => {
+    const result = await runHealthCheck(
+      deployment('http://public.example.invalid:1', { checkUrl: base }),
+      running, {}, fast({ type: 'http', retries: 0 }), { onLog: () => undefined }
+    );
+    expect(result).toMatchObject({ status: 'passed', endpoint: `${base}/` });
+  });
+
+  it('falls back to a TCP connect without a health route', async () => {
+    const closed = await new Promise<number>(resolve => {
+      const probe = net.createServer().listen(0, '127.0.0.1', () => {
+        const { port } = probe.address() as AddressInfo;
+        probe.close(() => resolve(port));
+      });
+    });
+
+    const open = await runHealthCheck(deployment(base), running, {}, fast(), { onLog: () => undefined });
+    expect(open).toMatchObject({ status: 'passed', probe: 'tcp', endpoint: base.replace('http://', '') });
+
+    const refused = await runHealthCheck(deployment(`http://127.0.0.1:${closed}`), running, {}, fast({ retries: 0 }), { onLog: () => undefined });
+    expect(refused).toMatchObject({ status: 'failed', probe: 'tcp' });
+    expect(refused.attempts[0].error).toMatch(/ECONNREFUSED/);
+  });
+
+  it('checks the container state when there is no URL', async () => {
+    const crashing = fakeTarget([
+      { state: 'deploying' },
+      { state: 'deploying' },
+      { state: 'failed', message: 'app: Exited (1) 2 seconds ago' }
+    ]);
+    const result = await runHealthCheck(deployment(), crashing, {}, fast({ retries: 1 }), { onLog: () => undefined });
+    expect(result).toMatchObject({ status: 'failed', probe: 'container', endpoint: 'acme-api' });
+    expect(result.attempts.map(a => a.state)).toEqual(['deploying', 'failed']);
+    expect(result.attempts[1].error).toBe('app: Exited (1) 2 seconds ago');
+  });
+
+  it('skips targets that only publish the image', async () => {
+    const registry = fakeTarget([{ state: 'published', message: 'Image is in the registry' }]);
+    const result = await runHealthCheck(deployment('https://hub.docker.com/r/acme/api'), registry, {}, fast(), { onLog: () => undefined });
+    expect(result).toMatchObject({ status: 'skipped', message: 'Image is in the registry', attempts: [] });
+  });
+});
+
+describe('parseHealthCheckOptions', () => {
+  it('fills in defaults and turns the check off with false', () => {
+    expect(parseHealthCheckOptions(undefined)).toEqual(DEFAULT_HEALTH_CHECK);
+    expect(parseHealthCheckOptions(false).enabled).toBe(false);
+    expect(parseHealthCheckOptions({ type: 'http', path: '/healthz', retries: 0 })).toMatchObject({ type: 'http', path: '/healthz', retries: 0, rollback: true });
+  });
+
+  it('reports every invalid field', () => {
+    const error = (() => {
+      try {
+        parseHealthCheckOptions({ type: 'grpc', path: 'health', retries: 100, rollback: 'yes' });
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(HealthCheckOptionsError);
+    expect((error as HealthCheckOptionsError).errors).toEqual([
+      'rollback must be a boolean',
+      'type must be one of auto, http, tcp, container',
+      'path must start with / and contain no spaces',
+      'retries must be an integer between 0 and 30'
+    ]);
+  });
+});
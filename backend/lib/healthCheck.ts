@@ -0,0 +1,244 @@
+import * as net from 'net';
+import type { DeploymentTarget, TargetDeployment } from './deploymentTargets';
+
+/**
+ * Post-deploy verification: probe the running deployment until it answers
+ * or the retries run out. Each attempt is recorded so a failed job shows
+ * exactly what was checked and what came back.
+ */
+
+export type HealthProbeType = 'http' | 'tcp' | 'container';
+
+export interface HealthCheckOptions {
+  enabled: boolean;
+  type: 'auto' | HealthProbeType;
+  path?: string; // HTTP path; defaults to a detected health route, then '/'
+  retries: number; // Extra attempts after the first failure
+  intervalSeconds: number;
+  timeoutSeconds: number; // Per attempt
+  rollback: boolean; // Restore the last healthy image when the check fails
+}
+
+export interface HealthProbeAttempt {
+  attempt: number;
+  at: string;
+  ok: boolean;
+  durationMs: number;
+  statusCode?: number; // HTTP probes
+  state?: string; // Container probes
+  error?: string;
+}
+
+export interface HealthCheckRollback {
+  status: 'rolled_back' | 'failed' | 'unavailable';
+  image?: string;
+  revision?: string;
+  error?: string;
+}
+
+export interface HealthCheckResult {
+  status: 'passed' | 'failed' | 'skipped';
+  probe?: HealthProbeType;
+  endpoint?: string; // URL, host:port or resource id that was probed
+  image: string;
+  revision?: string;
+  message: string;
+  attempts: HealthProbeAttempt[];
+  startedAt: string;
+  finishedAt: string;
+  rollback?: HealthCheckRollback;
+}
+
+export interface HealthCheckContext {
+  healthEndpoints?: string[]; // From ProjectAnalysis.runtime
+  onLog: (line: string) => void;
+  isCancelled?: () => boolean;
+}
+
+export class HealthCheckOptionsError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid health check options: ${errors.join('; ')}`);
+    this.name = 'HealthCheckOptionsError';
+  }
+}
+
+export const DEFAULT_HEALTH_CHECK: HealthCheckOptions = {
+  enabled: true,
+  type: 'auto',
+  retries: 5,
+  intervalSeconds: 5,
+  timeoutSeconds: 5,
+  rollback: true
+};
+
+const PROBE_TYPES = ['auto', 'http', 'tcp', 'container'];
+const MAX_ERROR_LENGTH = 300;
+
+function integer(value: unknown, key: string, min: number, max: number, errors: string[]): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    errors.push(`${key} must be an integer between ${min} and ${max}`);
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Validate health check settings from a request body; `false` turns the check off
+ */
+export function parseHealthCheckOptions(input: unknown): HealthCheckOptions {
+  if (input === undefined || input === null || input === true) return { ...DEFAULT_HEALTH_CHECK };
+  if (input === false) return { ...DEFAULT_HEALTH_CHECK, enabled: false };
+  if (typeof input !== 'object' || Array.isArray(input)) throw new HealthCheckOptionsError(['healthCheck must be an object or a boolean']);
+
+  const value = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const options: HealthCheckOptions = { ...DEFAULT_HEALTH_CHECK };
+
+  for (const key of ['enabled', 'rollback'] as const) {
+    if (value[key] === undefined) continue;
+    if (typeof value[key] !== 'boolean') errors.push(`${key} must be a boolean`);
+    else options[key] = value[key] as boolean;
+  }
+  if (value.type !== undefined) {
+    if (!PROBE_TYPES.includes(value.type as string)) errors.push(`type must be one of ${PROBE_TYPES.join(', ')}`);
+    else options.type = value.type as HealthCheckOptions['type'];
+  }
+  if (value.path !== undefined) {
+    if (typeof value.path !== 'string' || !/^\/\S*$/.test(value.path)) errors.push('path must start with / and contain no spaces');
+    else options.path = value.path;
+  }
+  options.retries = integer(value.retries, 'retries', 0, 30, errors) ?? options.retries;
+  options.intervalSeconds = integer(value.intervalSeconds, 'intervalSeconds', 1, 300, errors) ?? options.intervalSeconds;
+  options.timeoutSeconds = integer(value.timeoutSeconds, 'timeoutSeconds', 1, 60, errors) ?? options.timeoutSeconds;
+
+  if (errors.length > 0) throw new HealthCheckOptionsError(errors);
+  return options;
+}
+
+function describeError(error: unknown): string {
+  const cause = error instanceof Error && (error as { cause?: unknown }).cause;
+  const message = cause instanceof Error ? `${(error as Error).message}: ${cause.message}` : error instanceof Error ? error.message : String(error);
+  return message.slice(0, MAX_ERROR_LENGTH);
+}
+
+/** Where this server can reach the deployment; targets may record a private address next to the public URL */
+function probeUrl(deployment: TargetDeployment): URL | undefined {
+  const candidate = typeof deployment.details?.checkUrl === 'string' ? deployment.details.checkUrl : deployment.url;
+  if (!candidate) return undefined;
+  try {
+    const url = new URL(candidate);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function httpProbe(url: URL, timeoutMs: number): Promise<Pick<HealthProbeAttempt, 'ok' | 'statusCode' | 'error'>> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs), redirect: 'manual' });
+    await response.body?.cancel();
+    const ok = response.status >= 200 && response.status < 400;
+    return { ok, statusCode: response.status, error: ok ? undefined : `HTTP ${response.status}` };
+  } catch (error) {
+    return { ok: false, error: describeError(error) };
+  }
+}
+
+function tcpProbe(host: string, port: number, timeoutMs: number): Promise<Pick<HealthProbeAttempt, 'ok' | 'error'>> {
+  return new Promise(resolve => {
+    const socket = net.connect({ host, port });
+    const done = (result: Pick<HealthProbeAttempt, 'ok' | 'error'>) => {
+      socket.destroy();
+      resolve(result);
+    };
+    socket.setTimeout(timeoutMs, () => done({ ok: false, error: `No connection within ${timeoutMs}ms` }));
+    socket.once('connect', () => done({ ok: true }));
+    socket.once('error', error => done({ ok: false, error: describeError(error) }));
+  });
+}
+
+/**
+ * Probe `deployment` until it is healthy or `options.retries` further
+ * attempts have failed. Registry-only targets have nothing running, so the
+ * check is skipped for them.
+ */
+export async function runHealthCheck(
+  deployment: TargetDeployment,
+  target: DeploymentTarget<any>,
+  targetConfig: unknown,
+  options: HealthCheckOptions,
+  context: HealthCheckContext
+): Promise<HealthCheckResult> {
+  const startedAt = new Date().toISOString();
+  const base = { image: deployment.image, revision: deployment.revision, startedAt };
+  const finish = (fields: Pick<HealthCheckResult, 'status' | 'message' | 'attempts'> & Partial<HealthCheckResult>): HealthCheckResult =>
+    ({ ...base, ...fields, finishedAt: new Date().toISOString() });
+
+  const initial = await target.getStatus(deployment, targetConfig).catch(() => undefined);
+  if (initial?.state === 'published') {
+    return finish({ status: 'skipped', message: initial.message || `${target.displayName} does not run the image`, attempts: [] });
+  }
+
+  const url = probeUrl(deployment);
+  const detected = context.healthEndpoints?.find(e => e.includes('health')) ?? context.healthEndpoints?.[0];
+  let type: HealthProbeType;
+  if (options.type !== 'auto') type = options.type;
+  else if (url && (options.path || detected)) type = 'http';
+  else if (url) type = 'tcp';
+  else type = 'container';
+
+  if ((type === 'http' || type === 'tcp') && !url) {
+    return finish({ status: 'failed', probe: type, message: `${type.toUpperCase()} probe needs a deployment URL, and ${deployment.resourceId} has none`, attempts: [] });
+  }
+
+  let endpoint: string;
+  let probe: () => Promise<Omit<HealthProbeAttempt, 'attempt' | 'at' | 'durationMs'>>;
+  const timeoutMs = options.timeoutSeconds * 1000;
+  if (type === 'http') {
+    const checkUrl = new URL(options.path || detected || '/', url);
+    endpoint = checkUrl.toString();
+    probe = () => httpProbe(checkUrl, timeoutMs);
+  } else if (type === 'tcp') {
+    const port = Number(url!.port) || (url!.protocol === 'https:' ? 443 : 80);
+    endpoint = `${url!.hostname}:${port}`;
+    probe = () => tcpProbe(url!.hostname, port, timeoutMs);
+  } else {
+    endpoint = deployment.resourceId;
+    probe = async () => {
+      try {
+        const status = await target.getStatus(deployment, targetConfig);
+        const ok = status.state === 'running';
+        return { ok, state: status.state, error: ok ? undefined : status.message || `State is ${status.state}` };
+      } catch (error) {
+        return { ok: false, error: describeError(error) };
+      }
+    };
+  }
+
+  context.onLog(`🩺 Probing ${endpoint} (${type}, up to ${options.retries + 1} attempts every ${options.intervalSeconds}s)`);
+  const attempts: HealthProbeAttempt[] = [];
+  for (let attempt = 1; attempt <= options.retries + 1; attempt++) {
+    if (attempt > 1) {
+      if (context.isCancelled?.()) break;
+      await new Promise(resolve => setTimeout(resolve, options.intervalSeconds * 1000));
+    }
+    const started = Date.now();
+    const outcome = await probe();
+    attempts.push({ attempt, at: new Date(started).toISOString(), durationMs: Date.now() - started, ...outcome });
+    if (outcome.ok) {
+      context.onLog(`✅ Health check passed on attempt ${attempt}${outcome.statusCode ? ` (HTTP ${outcome.statusCode})` : ''}`);
+      return finish({ status: 'passed', probe: type, endpoint, message: `${endpoint} is healthy`, attempts });
+    }
+    context.onLog(`⚠️ Health check attempt ${attempt}/${options.retries + 1} failed: ${outcome.error}`);
+  }
+
+  const last = attempts[attempts.length - 1];
+  return finish({
+    status: 'failed',
+    probe: type,
+    endpoint,
+    message: `${endpoint} did not become healthy after ${attempts.length} attempt${attempts.length === 1 ? '' : 's'}${last?.error ? ` (last: ${last.error})` : ''}`,
+    attempts
+  });
+}
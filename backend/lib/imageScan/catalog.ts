@@ -0,0 +1,391 @@
+import path from 'path';
+import { DockerEngineClient } from '../dockerEngine';
+import { ImageFilesystem } from './imageArchive';
+
+/**
+ * Inventory of everything installed in an image: OS packages from the
+ * dpkg, apk and rpm databases, plus language packages found on disk
+ * (node_modules, Python site-packages, Go module info in binaries).
+ */
+
+export type PackageType = 'deb' | 'apk' | 'rpm' | 'npm' | 'pypi' | 'golang';
+
+export interface ImagePackage {
+  type: PackageType;
+  name: string;
+  version: string;
+  ecosystem: string; // OSV ecosystem, e.g. "Debian:12", "npm"
+  sourceName?: string; // Source package, which distro advisories are filed under
+  arch?: string;
+  license?: string;
+  locations: string[];
+  purl: string;
+}
+
+export interface OsInfo {
+  id: string;
+  version?: string;
+  name?: string;
+}
+
+export interface ImageCatalog {
+  os?: OsInfo;
+  packages: ImagePackage[];
+  notes: string[];
+}
+
+export interface CatalogContext {
+  image: string; // Used to query the rpm database through the image's own rpm
+  engine?: DockerEngineClient;
+}
+
+const NODE_PACKAGE = /(^|\/)node_modules\/(@[^/]+\/)?[^/]+\/package\.json$/;
+const PYTHON_METADATA = /(^|\/)(site|dist)-packages\/[^/]+\.(dist-info\/METADATA|egg-info\/PKG-INFO|egg-info)$/;
+const EXECUTABLE_DIRS = /^(usr\/(local\/)?s?bin|s?bin|app|opt|go\/bin|ko-app)\//;
+const RPM_QUERY_FORMAT = '%{NAME}\\t%{EPOCH}:%{VERSION}-%{RELEASE}\\t%{ARCH}\\t%{SOURCERPM}\\t%{LICENSE}\\n';
+const RPM_DISTROS: Record<string, string> = {
+  rhel: 'Red Hat',
+  rocky: 'Rocky Linux',
+  almalinux: 'AlmaLinux',
+  opensuse: 'openSUSE',
+  'opensuse-leap': 'openSUSE',
+  sles: 'SUSE'
+};
+const MAX_MANIFEST_BYTES = 1024 * 1024;
+
+function parseKeyValue(text: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const match = line.match(/^([A-Z_]+)=(.*)$/);
+    if (match) values[match[1]] = match[2].replace(/^["']|["']$/g, '');
+  }
+  return values;
+}
+
+/** Paragraphs of RFC 822 style fields; continuation lines are appended */
+function parseStanzas(text: string): Array<Record<string, string>> {
+  const stanzas: Array<Record<string, string>> = [];
+  for (const block of text.split(/\n\s*\n/)) {
+    const fields: Record<string, string> = {};
+    let last: string | undefined;
+    for (const line of block.split('\n')) {
+      if (/^\s/.test(line) && last) {
+        fields[last] += `\n${line.trim()}`;
+        continue;
+      }
+      const colon = line.indexOf(':');
+      if (colon <= 0) continue;
+      last = line.slice(0, colon);
+      fields[last] = line.slice(colon + 1).trim();
+    }
+    if (Object.keys(fields).length > 0) stanzas.push(fields);
+  }
+  return stanzas;
+}
+
+export function purl(type: PackageType, name: string, version: string, qualifiers: Record<string, string | undefined> = {}, namespace?: string): string {
+  const encodedName = name.split('/').map(encodeURIComponent).join('/');
+  const query = Object.entries(qualifiers)
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value!)}`)
+    .join('&');
+  return `pkg:${type}/${namespace ? `${encodeURIComponent(namespace)}/` : ''}${encodedName}@${encodeURIComponent(version)}${query ? `?${query}` : ''}`;
+}
+
+export function normalizePythonName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+export function detectOs(image: ImageFilesystem): OsInfo | undefined {
+  const text = image.readText('etc/os-release') ?? image.readText('usr/lib/os-release');
+  if (text) {
+    const values = parseKeyValue(text);
+    if (values.ID) return { id: values.ID, version: values.VERSION_ID, name: values.PRETTY_NAME };
+  }
+  const alpine = image.readText('etc/alpine-release');
+  if (alpine) return { id: 'alpine', version: alpine.trim(), name: `Alpine Linux v${alpine.trim()}` };
+  return undefined;
+}
+
+/** The OSV ecosystem OS packages of this distribution are filed under */
+export function osEcosystem(os: OsInfo | undefined): string | undefined {
+  if (!os) return undefined;
+  const major = os.version?.split('.')[0];
+  switch (os.id) {
+    case 'debian':
+      return major ? `Debian:${major}` : 'Debian';
+    case 'ubuntu':
+      return os.version ? `Ubuntu:${os.version}` : 'Ubuntu';
+    case 'alpine': {
+      const minor = os.version?.split('.').slice(0, 2).join('.');
+      return minor ? `Alpine:v${minor}` : 'Alpine';
+    }
+    default: {
+      const distro = RPM_DISTROS[os.id];
+      if (!distro) return undefined;
+      return major && distro !== 'Red Hat' ? `${distro}:${major}` : distro;
+    }
+  }
+}
+
+function dpkgPackages(image: ImageFilesystem, os: OsInfo | undefined): ImagePackage[] {
+  const ecosystem = osEcosystem(os) ?? 'Debian';
+  const namespace = os?.id ?? 'debian';
+  const distro = os?.version ? `${namespace}-${os.version}` : undefined;
+  const sources: Array<[string, boolean]> = [];
+  if (image.has('var/lib/dpkg/status')) sources.push(['var/lib/dpkg/status', true]);
+  // Distroless images keep one stanza per package and no Status field
+  for (const file of image.find(/^var\/lib\/dpkg\/status\.d\/[^/]+$/)) {
+    if (!file.endsWith('.md5sums')) sources.push([file, false]);
+  }
+
+  const packages: ImagePackage[] = [];
+  for (const [file, hasStatus] of sources) {
+    for (const stanza of parseStanzas(image.readText(file) || '')) {
+      if (!stanza.Package || !stanza.Version) continue;
+      if (hasStatus && !/\binstalled$/.test(stanza.Status || '')) continue;
+      const sourceName = stanza.Source?.split(' ')[0];
+      packages.push({
+        type: 'deb',
+        name: stanza.Package,
+        version: stanza.Version,
+        ecosystem,
+        sourceName: sourceName && sourceName !== stanza.Package ? sourceName : undefined,
+        arch: stanza.Architecture,
+        locations: [`/${file}`],
+        purl: purl('deb', stanza.Package, stanza.Version, { arch: stanza.Architecture, distro }, namespace)
+      });
+    }
+  }
+  return packages;
+}
+
+function apkPackages(image: ImageFilesystem, os: OsInfo | undefined): ImagePackage[] {
+  const file = 'lib/apk/db/installed';
+  const text = image.readText(file);
+  if (!text) return [];
+  const ecosystem = osEcosystem(os) ?? 'Alpine';
+  const namespace = os?.id ?? 'alpine';
+  const distro = os?.version ? `${namespace}-${os.version}` : undefined;
+
+  const packages: ImagePackage[] = [];
+  for (const block of text.split(/\n\s*\n/)) {
+    const fields: Record<string, string> = {};
+    for (const line of block.split('\n')) {
+      if (line[1] === ':') fields[line[0]] = line.slice(2);
+    }
+    if (!fields.P || !fields.V) continue;
+    packages.push({
+      type: 'apk',
+      name: fields.P,
+      version: fields.V,
+      ecosystem,
+      sourceName: fields.o && fields.o !== fields.P ? fields.o : undefined,
+      arch: fields.A,
+      license: fields.L,
+      locations: [`/${file}`],
+      purl: purl('apk', fields.P, fields.V, { arch: fields.A, distro }, namespace)
+    });
+  }
+  return packages;
+}
+
+/**
+ * The rpm database is a Berkeley DB, NDB or SQLite file depending on the
+ * distribution; rather than parse all three, ask the image's own rpm.
+ */
+async function rpmPackages(image: ImageFilesystem, os: OsInfo | undefined, context: CatalogContext, notes: string[]): Promise<ImagePackage[]> {
+  const database = ['var/lib/rpm', 'usr/lib/sysimage/rpm'].find(dir => image.find(new RegExp(`^${dir}/`)).length > 0);
+  if (!database) return [];
+  if (!context.engine) {
+    notes.push('rpm database found but no Docker engine was available to query it');
+    return [];
+  }
+
+  let output = '';
+  let id: string | undefined;
+  try {
+    id = await context.engine.runContainer({
+      image: context.image,
+      entrypoint: ['rpm'],
+      cmd: ['-qa', '--qf', RPM_QUERY_FORMAT],
+      network: 'none',
+      securityOpt: ['no-new-privileges']
+    });
+    const exitCode = await context.engine.waitContainer(id);
+    await context.engine.containerLogs(id, {
+      onLog: (line, stream) => {
+        if (stream === 'stdout') output += `${line}\n`;
+      }
+    });
+    if (exitCode !== 0) throw new Error(`rpm exited with code ${exitCode}`);
+  } catch (error) {
+    notes.push(`rpm database at /${database} could not be read: ${error instanceof Error ? error.message : String(error)}`);
+    return [];
+  } finally {
+    if (id) await context.engine.removeContainer(id).catch(() => undefined);
+  }
+
+  const ecosystem = osEcosystem(os) ?? 'Red Hat';
+  const namespace = os?.id ?? 'redhat';
+  const distro = os?.version ? `${namespace}-${os.version}` : undefined;
+  const packages: ImagePackage[] = [];
+  for (const line of output.split('\n')) {
+    const [name, rawVersion, arch, sourceRpm, license] = line.split('\t');
+    if (!name || !rawVersion || name === 'gpg-pubkey') continue;
+    const version = rawVersion.replace(/^\(none\):/, '');
+    const sourceName = sourceRpm?.match(/^(.+)-[^-]+-[^-]+\.src\.rpm$/)?.[1];
+    const epoch = version.includes(':') ? version.split(':')[0] : undefined;
+    packages.push({
+      type: 'rpm',
+      name,
+      version,
+      ecosystem,
+      sourceName: sourceName && sourceName !== name ? sourceName : undefined,
+      arch: arch === '(none)' ? undefined : arch,
+      license: license === '(none)' ? undefined : license,
+      locations: [`/${database}`],
+      purl: purl('rpm', name, version.replace(/^\d+:/, ''), { arch, epoch, distro }, namespace)
+    });
+  }
+  return packages;
+}
+
+function nodePackages(image: ImageFilesystem): ImagePackage[] {
+  const packages: ImagePackage[] = [];
+  for (const file of image.find(NODE_PACKAGE)) {
+    let manifest: { name?: unknown; version?: unknown; license?: unknown };
+    try {
+      manifest = JSON.parse(image.read(file, MAX_MANIFEST_BYTES)?.toString('utf8') || '{}');
+    } catch {
+      continue;
+    }
+    if (typeof manifest.name !== 'string' || typeof manifest.version !== 'string') continue;
+    const [namespace, name] = manifest.name.startsWith('@') ? manifest.name.split('/') : [undefined, manifest.name];
+    packages.push({
+      type: 'npm',
+      name: manifest.name,
+      version: manifest.version,
+      ecosystem: 'npm',
+      license: typeof manifest.license === 'string' ? manifest.license : undefined,
+      locations: [`/${file}`],
+      purl: purl('npm', name, manifest.version, {}, namespace)
+    });
+  }
+  return packages;
+}
+
+function pythonPackages(image: ImageFilesystem): ImagePackage[] {
+  const packages: ImagePackage[] = [];
+  for (const file of image.find(PYTHON_METADATA)) {
+    // Headers end at the first blank line; the description follows
+    const text = image.read(file, 64 * 1024)?.toString('utf8').split(/\r?\n\r?\n/)[0];
+    if (!text) continue;
+    const [fields] = parseStanzas(text);
+    if (!fields?.Name || !fields.Version) continue;
+    packages.push({
+      type: 'pypi',
+      name: fields.Name,
+      version: fields.Version,
+      ecosystem: 'PyPI',
+      license: fields.License && fields.License !== 'UNKNOWN' ? fields.License.split('\n')[0] : undefined,
+      locations: [`/${path.posix.dirname(file)}`],
+      purl: purl('pypi', normalizePythonName(fields.Name), fields.Version)
+    });
+  }
+  return packages;
+}
+
+function readVarint(data: Buffer, offset: number): [number, number] {
+  let value = 0;
+  let shift = 0;
+  while (offset < data.length) {
+    const byte = data[offset++];
+    value += (byte & 0x7f) * 2 ** shift;
+    if (!(byte & 0x80)) break;
+    shift += 7;
+  }
+  return [value, offset];
+}
+
+/**
+ * Go version and module list from a build info blob. Go 1.18+ stores both
+ * inline as length-prefixed strings (flag bit 2); older binaries point into
+ * the data segment and are reported as unreadable.
+ */
+export function parseGoBuildInfo(blob: Buffer): { goVersion: string; modules: Array<{ path: string; version: string }> } | undefined {
+  if (blob.length < 32 || !(blob[15] & 0x2)) return undefined;
+  let [length, offset] = readVarint(blob, 32);
+  const goVersion = blob.subarray(offset, offset + length).toString('utf8');
+  offset += length;
+  [length, offset] = readVarint(blob, offset);
+  let raw = blob.subarray(offset, offset + length);
+  // The module info is wrapped in 16-byte sentinels
+  if (raw.length >= 33 && raw[raw.length - 17] === 0x0a) raw = raw.subarray(16, raw.length - 16);
+  const modinfo = raw.toString('utf8');
+
+  const modules: Array<{ path: string; version: string }> = [];
+  for (const line of modinfo.split('\n')) {
+    const [kind, modulePath, version] = line.split('\t');
+    if ((kind === 'mod' || kind === 'dep') && modulePath && version) {
+      modules.push({ path: modulePath, version });
+    } else if (kind === '=>' && modulePath && version && modules.length > 0) {
+      modules[modules.length - 1] = { path: modulePath, version };
+    }
+  }
+  return { goVersion, modules };
+}
+
+function goPackages(image: ImageFilesystem, notes: string[]): ImagePackage[] {
+  const packages: ImagePackage[] = [];
+  for (const file of image.find(EXECUTABLE_DIRS)) {
+    const entry = image.files.get(file)!;
+    if (!(entry.mode & 0o111)) continue;
+    const blob = image.goBuildInfo(file);
+    if (!blob) continue;
+    const info = parseGoBuildInfo(blob);
+    if (!info) {
+      notes.push(`/${file} was built with Go older than 1.18; its modules were not catalogued`);
+      continue;
+    }
+    const location = [`/${file}`];
+    const stdlib = info.goVersion.replace(/^go/, '').split(' ')[0];
+    if (stdlib) {
+      packages.push({ type: 'golang', name: 'stdlib', version: stdlib, ecosystem: 'Go', locations: location, purl: purl('golang', 'stdlib', stdlib) });
+    }
+    for (const module of info.modules) {
+      // Main modules built from a checkout report "(devel)", which no advisory can match
+      if (module.version === '(devel)') continue;
+      packages.push({ type: 'golang', name: module.path, version: module.version, ecosystem: 'Go', locations: location, purl: purl('golang', module.path, module.version) });
+    }
+  }
+  return packages;
+}
+
+/** Merge duplicates (the same package found in several places) */
+function dedupe(packages: ImagePackage[]): ImagePackage[] {
+  const merged = new Map<string, ImagePackage>();
+  for (const pkg of packages) {
+    const key = `${pkg.type}\0${pkg.name}\0${pkg.version}`;
+    const existing = merged.get(key);
+    if (existing) existing.locations = [...new Set([...existing.locations, ...pkg.locations])];
+    else merged.set(key, { ...pkg });
+  }
+  return [...merged.values()];
+}
+
+export async function catalogImage(image: ImageFilesystem, context: CatalogContext): Promise<ImageCatalog> {
+  const notes: string[] = [];
+  const os = detectOs(image);
+  if (!os) notes.push('No /etc/os-release found; OS packages are matched without a distribution release');
+
+  const packages = [
+    ...dpkgPackages(image, os),
+    ...apkPackages(image, os),
+    ...await rpmPackages(image, os, context, notes),
+    ...nodePackages(image),
+    ...pythonPackages(image),
+    ...goPackages(image, notes)
+  ];
+  return { os, packages: dedupe(packages), notes };
+}
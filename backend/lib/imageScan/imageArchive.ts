@@ -0,0 +1,275 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { pipeline } from 'stream/promises';
+
+/**
+ * Random-access view of a `docker save` archive: layers are indexed by
+ * header only and merged in order (whiteouts applied), and file contents
+ * are read from the archive on demand. Nothing is extracted to disk except
+ * compressed layers, which are inflated once so they can be seeked.
+ */
+
+export interface TarEntry {
+  name: string;
+  type: 'file' | 'directory' | 'symlink' | 'hardlink' | 'other';
+  mode: number;
+  size: number;
+  offset: number; // Start of the data in the archive file
+  linkname?: string;
+}
+
+export interface ImageFile {
+  path: string; // Without leading slash, e.g. "etc/os-release"
+  mode: number;
+  size: number;
+  archive: string; // File holding the (uncompressed) layer tar
+  offset: number;
+}
+
+export interface ImageConfig {
+  os?: string;
+  architecture?: string;
+  config?: { Labels?: Record<string, string> | null; Env?: string[] };
+}
+
+const BLOCK = 512;
+const GO_BUILDINFO_MAGIC = Buffer.from('\xff Go buildinf:', 'latin1');
+const SCAN_CHUNK = 1024 * 1024;
+
+function readOctal(block: Buffer, offset: number, length: number): number {
+  // Large sizes use the GNU base-256 encoding
+  if (block[offset] & 0x80) {
+    let value = 0;
+    for (let i = offset + 1; i < offset + length; i++) value = value * 256 + block[i];
+    return value;
+  }
+  const text = block.subarray(offset, offset + length).toString('ascii').replace(/\0.*$/s, '').trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function cString(block: Buffer, offset: number, length: number): string {
+  return block.subarray(offset, offset + length).toString('utf8').replace(/\0.*$/s, '');
+}
+
+function readAt(fd: number, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  const read = fs.readSync(fd, buffer, 0, length, position);
+  return buffer.subarray(0, read);
+}
+
+function paxRecords(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = parseInt(data.subarray(offset, space).toString('ascii'), 10);
+    if (!length) break;
+    const record = data.subarray(space + 1, offset + length - 1).toString('utf8');
+    const eq = record.indexOf('=');
+    if (eq !== -1) records[record.slice(0, eq)] = record.slice(eq + 1);
+    offset += length;
+  }
+  return records;
+}
+
+/**
+ * Index the entries of an uncompressed tar, honouring PAX and GNU long
+ * names. `start` and `length` select a tar stored inside another file.
+ */
+export function indexTar(file: string, start = 0, length?: number): TarEntry[] {
+  const fd = fs.openSync(file, 'r');
+  try {
+    const total = start + (length ?? fs.fstatSync(fd).size - start);
+    const entries: TarEntry[] = [];
+    let offset = start;
+    let longName: string | undefined;
+    let longLink: string | undefined;
+    while (offset + BLOCK <= total) {
+      const header = readAt(fd, offset, BLOCK);
+      if (header.length < BLOCK || header.every(b => b === 0)) break;
+      const size = readOctal(header, 124, 12);
+      const flag = String.fromCharCode(header[156] || 0x30);
+      const dataOffset = offset + BLOCK;
+      offset = dataOffset + Math.ceil(size / BLOCK) * BLOCK;
+
+      if (flag === 'x' || flag === 'L' || flag === 'K') {
+        const data = readAt(fd, dataOffset, size);
+        if (flag === 'x') {
+          const records = paxRecords(data);
+          longName = records.path ?? longName;
+          longLink = records.linkpath ?? longLink;
+        } else if (flag === 'L') {
+          longName = data.toString('utf8').replace(/\0.*$/s, '');
+        } else {
+          longLink = data.toString('utf8').replace(/\0.*$/s, '');
+        }
+        continue;
+      }
+      if (flag === 'g') continue;
+
+      const prefix = header.subarray(257, 263).toString('ascii').startsWith('ustar') ? cString(header, 345, 155) : '';
+      const name = longName ?? (prefix ? `${prefix}/${cString(header, 0, 100)}` : cString(header, 0, 100));
+      const linkname = longLink ?? cString(header, 157, 100);
+      longName = undefined;
+      longLink = undefined;
+
+      const type: TarEntry['type'] = flag === '0' || flag === '7' || flag === '\0' ? 'file'
+        : flag === '5' ? 'directory'
+        : flag === '2' ? 'symlink'
+        : flag === '1' ? 'hardlink'
+        : 'other';
+      entries.push({ name, type, mode: readOctal(header, 100, 8), size, offset: dataOffset, linkname: linkname || undefined });
+    }
+    return entries;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function normalize(name: string): string {
+  return path.posix.normalize(`/${name}`).slice(1).replace(/\/$/, '');
+}
+
+function isCompressed(file: string, offset = 0): boolean {
+  const fd = fs.openSync(file, 'r');
+  try {
+    const magic = readAt(fd, offset, 2);
+    return magic[0] === 0x1f && magic[1] === 0x8b;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+export class ImageFilesystem {
+  readonly files = new Map<string, ImageFile>();
+  config: ImageConfig = {};
+  repoTags: string[] = [];
+
+  /**
+   * Open a `docker save` archive (legacy or OCI layout). Compressed layers
+   * are inflated into `workDir`.
+   */
+  static async open(archive: string, workDir: string): Promise<ImageFilesystem> {
+    const image = new ImageFilesystem();
+    const outer = new Map(indexTar(archive).map(e => [normalize(e.name), e]));
+    const readOuter = (name: string) => {
+      const entry = outer.get(normalize(name));
+      if (!entry) throw new Error(`Image archive has no ${name}`);
+      const fd = fs.openSync(archive, 'r');
+      try {
+        return readAt(fd, entry.offset, entry.size);
+      } finally {
+        fs.closeSync(fd);
+      }
+    };
+
+    const [manifest] = JSON.parse(readOuter('manifest.json').toString('utf8')) as Array<{ Config: string; RepoTags?: string[]; Layers: string[] }>;
+    if (!manifest) throw new Error('Image archive has an empty manifest');
+    image.config = JSON.parse(readOuter(manifest.Config).toString('utf8'));
+    image.repoTags = manifest.RepoTags || [];
+
+    for (const [index, layer] of manifest.Layers.entries()) {
+      const entry = outer.get(normalize(layer));
+      if (!entry) throw new Error(`Image archive is missing layer ${layer}`);
+      let layerFile = archive;
+      let base = entry.offset;
+      if (isCompressed(archive, entry.offset)) {
+        layerFile = path.join(workDir, `layer-${index}.tar`);
+        await pipeline(
+          fs.createReadStream(archive, { start: entry.offset, end: entry.offset + entry.size - 1 }),
+          zlib.createGunzip(),
+          fs.createWriteStream(layerFile)
+        );
+        base = 0;
+      }
+      image.applyLayer(indexTar(layerFile, base, layerFile === archive ? entry.size : undefined), layerFile);
+    }
+    return image;
+  }
+
+  /**
+   * Merge one layer: whiteouts hide paths from earlier layers, then the
+   * layer's own files are added
+   */
+  private applyLayer(entries: TarEntry[], file: string): void {
+    const remove = (prefix: string, keepSelf = false) => {
+      for (const key of [...this.files.keys()]) {
+        if ((!keepSelf && key === prefix) || key.startsWith(`${prefix}/`) || prefix === '') this.files.delete(key);
+      }
+    };
+    for (const entry of entries) {
+      const name = normalize(entry.name);
+      const dir = path.posix.dirname(name);
+      const base = path.posix.basename(name);
+      if (base === '.wh..wh..opq') remove(dir === '.' ? '' : dir, true);
+      else if (base.startsWith('.wh.')) remove(dir === '.' ? base.slice(4) : `${dir}/${base.slice(4)}`);
+    }
+    const layerFiles = new Map<string, ImageFile>();
+    for (const entry of entries) {
+      const name = normalize(entry.name);
+      if (path.posix.basename(name).startsWith('.wh.')) continue;
+      if (entry.type === 'file') {
+        layerFiles.set(name, { path: name, mode: entry.mode, size: entry.size, archive: file, offset: entry.offset });
+      } else if (entry.type === 'hardlink' && entry.linkname) {
+        const target = layerFiles.get(normalize(entry.linkname)) || this.files.get(normalize(entry.linkname));
+        if (target) layerFiles.set(name, { ...target, path: name, mode: entry.mode || target.mode });
+      } else {
+        this.files.delete(name);
+      }
+    }
+    for (const [name, entry] of layerFiles) this.files.set(name, entry);
+  }
+
+  has(filePath: string): boolean {
+    return this.files.has(normalize(filePath));
+  }
+
+  read(filePath: string, maxBytes = Infinity): Buffer | undefined {
+    const file = this.files.get(normalize(filePath));
+    if (!file) return undefined;
+    const fd = fs.openSync(file.archive, 'r');
+    try {
+      return readAt(fd, file.offset, Math.min(file.size, maxBytes));
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  readText(filePath: string): string | undefined {
+    return this.read(filePath)?.toString('utf8');
+  }
+
+  /** Paths matching `pattern`, in sorted order */
+  find(pattern: RegExp): string[] {
+    return [...this.files.keys()].filter(p => pattern.test(p)).sort();
+  }
+
+  /**
+   * The Go build info blob of an executable (version and module list), or
+   * undefined when the file is not a Go binary. Scanned in chunks, so large
+   * binaries are never held in memory.
+   */
+  goBuildInfo(filePath: string): Buffer | undefined {
+    const file = this.files.get(normalize(filePath));
+    if (!file || file.size < 64) return undefined;
+    const fd = fs.openSync(file.archive, 'r');
+    try {
+      if (readAt(fd, file.offset, 4).toString('latin1') !== '\x7fELF') return undefined;
+      const overlap = GO_BUILDINFO_MAGIC.length - 1;
+      for (let position = 0; position < file.size; position += SCAN_CHUNK - overlap) {
+        const chunk = readAt(fd, file.offset + position, Math.min(SCAN_CHUNK, file.size - position));
+        const found = chunk.indexOf(GO_BUILDINFO_MAGIC);
+        if (found !== -1) {
+          const start = position + found;
+          return readAt(fd, file.offset + start, Math.min(64 * 1024, file.size - start));
+        }
+        if (chunk.length < SCAN_CHUNK) break;
+      }
+      return undefined;
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+}
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { pipeline } from 'stream/promises';
+import { createContextTar, DockerEngineClient } from '../dockerEngine';
+import { parseGoBuildInfo } from './catalog';
+import { evaluatePolicy, finalBaseImage, parseVulnerabilityPolicy, scanImage, VulnerabilityPolicyError } from './index';
+
+const DPKG_STATUS = [
+  'Package: libssl3',
+  'Status: install ok installed',
+  'Architecture: amd64',
+  'Source: openssl',
+  'Version: 3.0.11-1~deb12u2',
+  'Description: Secure Sockets Layer toolkit',
+  ' shared libraries',
+  '',
+  'Package: removed-pkg',
+  'Status: deinstall ok config-files',
+  'Version: 1.0',
+  ''
+].join('\n');
+
+const DOCKERFILE = 'FROM debian:12 AS base\nFROM base\nCOPY . /app\n';
+
+/** Write a tar of in-memory files, optionally gzipped, the way `docker save` stores layers */
+async function writeLayer(file: string, files: Record<string, string>, gzip = false): Promise<void> {
+  const empty = fs.mkdtempSync(path.join(os.tmpdir(), 'layer-src-'));
+  try {
+    const tar = createContextTar(empty, { extra: files });
+    await (gzip ? pipeline(tar, zlib.createGzip(), fs.createWriteStream(file)) : pipeline(tar, fs.createWriteStream(file)));
+  } finally {
+    fs.rmSync(empty, { recursive: true, force: true });
+  }
+}
+
+/** A `docker save` archive of two layers: the second deletes a package and is compressed */
+async function buildImageArchive(dir: string): Promise<string> {
+  const content = path.join(dir, 'archive');
+  fs.mkdirSync(path.join(content, 'blobs'), { recursive: true });
+  await writeLayer(path.join(content, 'blobs', 'layer1.tar'), {
+    'etc/os-release': 'PRETTY_NAME="Debian GNU/Linux 12 (bookworm)"\nID=debian\nVERSION_ID="12"\n',
+    'var/lib/dpkg/status': DPKG_STATUS,
+    'app/node_modules/lodash/package.json': JSON.stringify({ name: 'lodash', version: '4.17.20', license: 'MIT' }),
+    'app/node_modules/left-pad/package.json': JSON.stringify({ name: 'left-pad', version: '1.3.0' })
+  });
+  await writeLayer(path.join(content, 'blobs', 'layer2.tar.gz'), {
+    'app/node_modules/.wh.left-pad': '',
+    'app/node_modules/@types/node/package.json': JSON.stringify({ name: '@types/node', version: '20.1.0' }),
+    'usr/lib/python3/dist-packages/Jinja2-3.1.2.dist-info/METADATA': 'Metadata-Version: 2.1\nName: Jinja2\nVersion: 3.1.2\nLicense: BSD-3-Clause\n\nLong description'
+  }, true);
+  fs.writeFileSync(path.join(content, 'config.json'), JSON.stringify({ os: 'linux', architecture: 'amd64', config: {} }));
+  fs.writeFileSync(path.join(content, 'manifest.json'), JSON.stringify([
+    { Config: 'config.json', RepoTags: ['acme/api:1'], Layers: ['blobs/layer1.tar', 'blobs/layer2.tar.gz'] }
+  ]));
+
+  const archive = path.join(dir, 'image.tar');
+  await pipeline(createContextTar(content), fs.createWriteStream(archive));
+  return archive;
+}
+
+const ADVISORIES = [
+  {
+    id: 'DSA-5000-1',
+    aliases: ['CVE-2024-0001'],
+    severity: [{ type: 'CVSS_V3', score: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H' }],
+    affected: [{ package: { ecosystem: 'Debian:12', name: 'openssl' }, ranges: [{ type: 'ECOSYSTEM', events: [{ introduced: '0' }, { fixed: '3.0.13-1~deb12u1' }] }] }]
+  },
+  {
+    id: 'GHSA-lodash',
+    summary: 'Prototype pollution in lodash',
+    database_specific: { severity: 'HIGH' },
+    affected: [{ package: { ecosystem: 'npm', name: 'lodash' }, ranges: [{ type: 'SEMVER', events: [{ introduced: '0' }, { fixed: '4.17.21' }] }] }]
+  },
+  {
+    id: 'GHSA-left-pad',
+    database_specific: { severity: 'CRITICAL' },
+    affected: [{ package: { ecosystem: 'npm', name: 'left-pad' }, versions: ['1.3.0'] }]
+  }
+];
+
+describe('scanImage', () => {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'image-scan-spec-'));
+  const dbPath = path.join(tmp, 'osv.json');
+  const dockerfilePath = path.join(tmp, 'Dockerfile');
+  let archive: string;
+  const engine = {
+    inspectImage: async () => ({ Id: 'sha256:abc', Config: { Labels: {} } }),
+    exportImage: async (_image: string, destination: string) => fs.copyFileSync(archive, destination)
+  } as unknown as DockerEngineClient;
+
+  beforeAll(async () => {
+    archive = await buildImageArchive(tmp);
+    fs.writeFileSync(dbPath, JSON.stringify(ADVISORIES));
+    fs.writeFileSync(dockerfilePath, DOCKERFILE);
+  });
+
+  afterAll(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+  const scan = (options: Partial<Parameters<typeof scanImage>[1]> = {}) =>
+    scanImage('acme/api:1', { onLog: () => undefined, outputDir: path.join(tmp, 'sbom'), databasePath: dbPath, dockerfilePath, ...options }, engine);
+
+  it('catalogs the merged filesystem of every layer', async () => {
+    const report = await scan();
+
+    expect(report).toMatchObject({
+      image: 'acme/api:1',
+      imageId: 'sha256:abc',
+      os: { id: 'debian', version: '12' },
+      baseImage: 'debian:12',
+      packages: 4,
+      packagesByType: { deb: 1, npm: 2, pypi: 1 }
+    });
+    const cdx = JSON.parse(fs.readFileSync(report.sbom.cyclonedx, 'utf-8'));
+    expect(cdx.components.map((c: { purl?: string }) => c.purl).filter(Boolean)).toEqual([
+      'pkg:deb/debian/libssl3@3.0.11-1~deb12u2?arch=amd64&distro=debian-12',
+      'pkg:npm/%40types/node@20.1.0',
+      'pkg:npm/lodash@4.17.20',
+      'pkg:pypi/jinja2@3.1.2'
+    ]);
+    const document = JSON.parse(fs.readFileSync(report.sbom.spdx, 'utf-8'));
+    expect(document.spdxVersion).toBe('SPDX-2.3');
+    expect(document.relationships.filter((r: { relationshipType: string }) => r.relationshipType === 'CONTAINS')).toHaveLength(4);
+  });
+
+  it('matches the offline database and recommends fixes', async () => {
+    const report = await scan();
+
+    expect(report.counts).toEqual({ critical: 1, high: 1, medium: 0, low: 0, unknown: 0 });
+    expect(report.fixable).toBe(2);
+    expect(report.findings.map(f => [f.id, f.package, f.fixedVersion])).toEqual([
+      ['DSA-5000-1', 'libssl3', '3.0.13-1~deb12u1'],
+      ['GHSA-lodash', 'lodash', '4.17.21']
+    ]);
+    expect(report.recommendations[0]).toContain('debian:12-slim');
+    expect(report.recommendations).toContain('Upgrade lodash 4.17.20 → 4.17.21 (npm; fixes GHSA-lodash)');
+  });
+
+  it('fails the policy on findings above the critical and high limits', async () => {
+    const strict = await scan({ policy: parseVulnerabilityPolicy(true) });
+    expect(strict.policy).toEqual({ passed: false, violations: ['1 critical vulnerabilities (limit 0)'] });
+
+    const lenient = await scan({ policy: parseVulnerabilityPolicy({ maxCritical: 1, maxHigh: 0 }) });
+    expect(lenient.policy).toEqual({ passed: false, violations: ['1 high vulnerabilities (limit 0)'] });
+  });
+
+  it('reports without matching, and blocks a policy, when there is no database', async () => {
+    const report = await scan({ databasePath: path.join(tmp, 'missing'), policy: parseVulnerabilityPolicy(true) });
+    expect(report.database).toBeNull();
+    expect(report.notes.some(n => n.includes('VULN_DB_PATH'))).toBe(true);
+    expect(report.policy?.passed).toBe(false);
+  });
+});
+
+describe('parseVulnerabilityPolicy', () => {
+  it('is off by default and validates every field', () => {
+    expect(parseVulnerabilityPolicy(undefined)).toBeUndefined();
+    expect(parseVulnerabilityPolicy({ ignoreUnfixed: true })).toEqual({ maxCritical: 0, ignoreUnfixed: true });
+    expect(() => parseVulnerabilityPolicy({ maxCritical: -1, ignoreUnfixed: 'yes' })).toThrow(VulnerabilityPolicyError);
+  });
+
+  it('counts only fixable findings with ignoreUnfixed', () => {
+    const database = { source: 'x', advisories: 1 };
+    const findings = [{ id: 'A', package: 'p', version: '1', packageType: 'deb', severity: 'critical' as const }];
+    expect(evaluatePolicy({ database, findings }, { maxCritical: 0, ignoreUnfixed: true })).toEqual([]);
+    expect(evaluatePolicy({ database, findings }, { maxCritical: 0, ignoreUnfixed: false })).toHaveLength(1);
+  });
+});
+
+describe('finalBaseImage', () => {
+  it('follows the final stage back to an external image', () => {
+    expect(finalBaseImage(DOCKERFILE)).toBe('debian:12');
+    expect(finalBaseImage('ARG V=20\nFROM node:${V}-slim\n')).toBe('node:20-slim');
+  });
+});
+
+describe('parseGoBuildInfo', () => {
+  it('reads the Go version and module list of a Go 1.18+ binary', () => {
+    const varString = (text: string) => Buffer.concat([Buffer.from([Buffer.byteLength(text)]), Buffer.from(text)]);
+    const sentinel = Buffer.alloc(16, 0xee);
+    const modinfo = 'path\texample.com/app\nmod\texample.com/app\t(devel)\t\ndep\tgolang.org/x/net\tv0.17.0\th1:x=\ndep\tgithub.com/a/b\tv1.0.0\n=>\tgithub.com/fork/b\tv1.0.1\th1:y=\n';
+    const header = Buffer.alloc(32);
+    header.write('\xff Go buildinf:', 0, 'latin1');
+    header[14] = 8;
+    header[15] = 2;
+    const blob = Buffer.concat([header, varString('go1.21.5'), Buffer.from([Buffer.byteLength(modinfo) + 32]), sentinel, Buffer.from(modinfo), sentinel]);
+
+    expect(parseGoBuildInfo(blob)).toEqual({
+      goVersion: 'go1.21.5',
+      modules: [
+        { path: 'example.com/app', version: '(devel)' },
+        { path: 'golang.org/x/net', version: 'v0.17.0' },
+        { path: 'github.com/fork/b', version: 'v1.0.1' }
+      ]
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ImageSecurityReport, VulnerabilityFinding, VulnerabilitySeverity } from '../../../shared/types';
+import { DockerEngineClient, dockerEngine, parseImageReference } from '../dockerEngine';
+import { parseDockerfile } from '../dockerfileParser';
+import { catalogImage, ImageCatalog } from './catalog';
+import { ImageFilesystem } from './imageArchive';
+import { cycloneDx, spdx } from './sbom';
+import { comparatorFor } from './versions';
+import { loadVulnerabilityDatabase, SEVERITY_ORDER } from './vulnerabilityDb';
+
+/**
+ * Post-build image scan: catalog the packages in the image, write the SBOM
+ * in CycloneDX and SPDX form, match the packages against the offline
+ * vulnerability database and judge the result against the push policy.
+ */
+
+export interface VulnerabilityPolicy {
+  maxCritical: number; // Push is blocked above this many critical findings
+  maxHigh?: number;
+  ignoreUnfixed: boolean; // Findings with no fixed version yet do not count
+}
+
+export interface ScanOptions {
+  onLog: (line: string) => void;
+  policy?: VulnerabilityPolicy;
+  dockerfilePath?: string; // Used to name the base image in recommendations
+  outputDir?: string; // Where the SBOM files go; defaults under SBOM_DIR
+  databasePath?: string;
+}
+
+export class VulnerabilityPolicyError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid vulnerability policy: ${errors.join('; ')}`);
+    this.name = 'VulnerabilityPolicyError';
+  }
+}
+
+export const DEFAULT_VULNERABILITY_POLICY: VulnerabilityPolicy = {
+  maxCritical: 0,
+  ignoreUnfixed: false
+};
+
+const MAX_FINDINGS = 500;
+const MAX_UPGRADE_RECOMMENDATIONS = 5;
+const MINIMAL_BASE = /(slim|alpine|distroless|chainguard|scratch|minimal|micro|busybox)/i;
+const OS_PACKAGE_TYPES = ['deb', 'apk', 'rpm'];
+const LANGUAGE_ECOSYSTEMS: Record<string, string> = { npm: 'npm', pypi: 'PyPI', golang: 'Go' };
+
+export function sbomDir(): string {
+  return path.resolve(process.env.SBOM_DIR || path.join(process.cwd(), '.data', 'sboms'));
+}
+
+/**
+ * Validate a vulnerability policy from a request body. `undefined` or
+ * `false` means no policy (the scan still runs and reports); `true` uses
+ * the defaults.
+ */
+export function parseVulnerabilityPolicy(input: unknown): VulnerabilityPolicy | undefined {
+  if (input === undefined || input === null || input === false) return undefined;
+  if (input === true) return { ...DEFAULT_VULNERABILITY_POLICY };
+  if (typeof input !== 'object' || Array.isArray(input)) throw new VulnerabilityPolicyError(['vulnerabilityPolicy must be an object or a boolean']);
+
+  const value = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const policy: VulnerabilityPolicy = { ...DEFAULT_VULNERABILITY_POLICY };
+  for (const key of ['maxCritical', 'maxHigh'] as const) {
+    if (value[key] === undefined) continue;
+    if (typeof value[key] !== 'number' || !Number.isInteger(value[key]) || (value[key] as number) < 0) errors.push(`${key} must be a non-negative integer`);
+    else policy[key] = value[key] as number;
+  }
+  if (value.ignoreUnfixed !== undefined) {
+    if (typeof value.ignoreUnfixed !== 'boolean') errors.push('ignoreUnfixed must be a boolean');
+    else policy.ignoreUnfixed = value.ignoreUnfixed;
+  }
+
+  if (errors.length > 0) throw new VulnerabilityPolicyError(errors);
+  return policy;
+}
+
+/** Policy violations in a report; empty when the image may be pushed */
+export function evaluatePolicy(report: Pick<ImageSecurityReport, 'database' | 'findings'>, policy: VulnerabilityPolicy): string[] {
+  if (!report.database) return ['No vulnerability database snapshot is configured (VULN_DB_PATH), so the image cannot be checked'];
+  const counted = report.findings.filter(f => !policy.ignoreUnfixed || f.fixedVersion);
+  const count = (severity: VulnerabilitySeverity) => counted.filter(f => f.severity === severity).length;
+  const violations: string[] = [];
+  const unfixed = policy.ignoreUnfixed ? ' with a fix available' : '';
+  if (count('critical') > policy.maxCritical) violations.push(`${count('critical')} critical vulnerabilities${unfixed} (limit ${policy.maxCritical})`);
+  if (policy.maxHigh !== undefined && count('high') > policy.maxHigh) violations.push(`${count('high')} high vulnerabilities${unfixed} (limit ${policy.maxHigh})`);
+  return violations;
+}
+
+/** Base image of the final stage, following references to earlier stages */
+export function finalBaseImage(dockerfile: string): string | undefined {
+  const { stages } = parseDockerfile(dockerfile);
+  let stage = stages[stages.length - 1];
+  for (let hops = 0; stage && hops < stages.length; hops++) {
+    const parent = stages.find(s => s.index < stage.index && s.name && s.name.toLowerCase() === stage.resolvedImage.toLowerCase());
+    if (!parent) return stage.resolvedImage;
+    stage = parent;
+  }
+  return stage?.resolvedImage;
+}
+
+function recommendations(baseImage: string | undefined, catalog: ImageCatalog, findings: VulnerabilityFinding[]): string[] {
+  const advice: string[] = [];
+  const osFindings = findings.filter(f => OS_PACKAGE_TYPES.includes(f.packageType));
+  const osFixable = osFindings.filter(f => f.fixedVersion).length;
+
+  if (baseImage && baseImage !== 'scratch' && !MINIMAL_BASE.test(baseImage) && osFindings.length > 0) {
+    const { repository, tag } = parseImageReference(baseImage);
+    advice.push(`Switch the base image to a minimal variant such as ${repository}:${tag === 'latest' ? 'slim' : `${tag}-slim`} or a distroless image; ${osFindings.length} of the findings come from OS packages in ${baseImage}`);
+  }
+  if (osFixable > 0) {
+    advice.push(`Rebuild on a freshly pulled ${baseImage || 'base image'}: ${osFixable} OS package ${osFixable === 1 ? 'vulnerability has' : 'vulnerabilities have'} a fix in the distribution`);
+  }
+
+  // One line per package, worst finding first, aiming at the lowest version that fixes all of them
+  const upgrades = new Map<string, VulnerabilityFinding[]>();
+  for (const finding of findings) {
+    if (!finding.fixedVersion || OS_PACKAGE_TYPES.includes(finding.packageType)) continue;
+    const key = `${finding.packageType}\0${finding.package}\0${finding.version}`;
+    upgrades.set(key, [...(upgrades.get(key) || []), finding]);
+  }
+  for (const group of [...upgrades.values()].slice(0, MAX_UPGRADE_RECOMMENDATIONS)) {
+    const compare = comparatorFor(LANGUAGE_ECOSYSTEMS[group[0].packageType] || '');
+    const target = group.map(f => f.fixedVersion!).reduce((a, b) => (compare(a, b) >= 0 ? a : b));
+    advice.push(`Upgrade ${group[0].package} ${group[0].version} → ${target} (${group[0].packageType}; fixes ${group.map(f => f.id).join(', ')})`);
+  }
+  if (upgrades.size > MAX_UPGRADE_RECOMMENDATIONS) advice.push(`${upgrades.size - MAX_UPGRADE_RECOMMENDATIONS} more packages have upgrades available; see the findings`);
+
+  const unfixedCritical = findings.filter(f => f.severity === 'critical' && !f.fixedVersion);
+  if (unfixedCritical.length > 0) {
+    advice.push(`No fix is published yet for ${unfixedCritical.map(f => `${f.id} in ${f.package}`).join(', ')}; remove the package if the application does not need it`);
+  }
+  if (catalog.packages.length === 0) advice.push('No packages were found; the SBOM only describes the image itself');
+  return advice;
+}
+
+function slug(image: string): string {
+  return image.replace(/[^A-Za-z0-9_.-]+/g, '_');
+}
+
+/**
+ * Scan a local image and produce its security report. The image is
+ * exported to a temporary directory, which is removed afterwards.
+ */
+export async function scanImage(image: string, options: ScanOptions, engine: DockerEngineClient = dockerEngine): Promise<ImageSecurityReport> {
+  const generatedAt = new Date().toISOString();
+  const info = await engine.inspectImage(image);
+  if (!info) throw new Error(`Image ${image} not found on the Docker host`);
+
+  options.onLog(`🛡️ Scanning ${image} for packages and known vulnerabilities...`);
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'image-scan-'));
+  let catalog: ImageCatalog;
+  try {
+    const archive = path.join(workDir, 'image.tar');
+    await engine.exportImage(image, archive);
+    const filesystem = await ImageFilesystem.open(archive, workDir);
+    catalog = await catalogImage(filesystem, { image, engine });
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+
+  const packagesByType: Record<string, number> = {};
+  for (const pkg of catalog.packages) packagesByType[pkg.type] = (packagesByType[pkg.type] || 0) + 1;
+  options.onLog(`📦 ${catalog.packages.length} packages${catalog.os ? ` on ${catalog.os.name || catalog.os.id}` : ''} (${Object.entries(packagesByType).map(([t, n]) => `${t} ${n}`).join(', ') || 'none'})`);
+
+  const notes = [...catalog.notes];
+  const database = loadVulnerabilityDatabase(options.databasePath);
+  if (!database) notes.push('No vulnerability database snapshot found; set VULN_DB_PATH to an OSV export to match packages');
+  const rank = (f: VulnerabilityFinding) => SEVERITY_ORDER.indexOf(f.severity);
+  const findings = database
+    ? catalog.packages.flatMap(pkg => database.match(pkg)).sort((a, b) => rank(a) - rank(b) || (b.score ?? 0) - (a.score ?? 0))
+    : [];
+
+  const counts = Object.fromEntries(SEVERITY_ORDER.map(s => [s, 0])) as Record<VulnerabilitySeverity, number>;
+  for (const finding of findings) counts[finding.severity]++;
+
+  const outputDir = options.outputDir || path.join(sbomDir(), slug(image));
+  fs.mkdirSync(outputDir, { recursive: true });
+  const subject = { image, imageId: info.Id, generatedAt };
+  const sbom = {
+    cyclonedx: path.join(outputDir, `${slug(image)}.cdx.json`),
+    spdx: path.join(outputDir, `${slug(image)}.spdx.json`)
+  };
+  fs.writeFileSync(sbom.cyclonedx, JSON.stringify(cycloneDx(subject, catalog, findings), null, 2));
+  fs.writeFileSync(sbom.spdx, JSON.stringify(spdx(subject, catalog), null, 2));
+
+  const baseImage = (options.dockerfilePath && fs.existsSync(options.dockerfilePath)
+    ? finalBaseImage(fs.readFileSync(options.dockerfilePath, 'utf-8'))
+    : undefined) ?? info.Config.Labels?.['org.opencontainers.image.base.name'];
+  if (findings.length > MAX_FINDINGS) notes.push(`Only the ${MAX_FINDINGS} most severe of ${findings.length} findings are listed; the CycloneDX SBOM has all of them`);
+
+  const report: ImageSecurityReport = {
+    image,
+    imageId: info.Id,
+    generatedAt,
+    os: catalog.os,
+    baseImage,
+    packages: catalog.packages.length,
+    packagesByType,
+    sbom,
+    database: database ? { source: database.source, updatedAt: database.updatedAt, advisories: database.advisories } : null,
+    counts,
+    fixable: findings.filter(f => f.fixedVersion).length,
+    findings: findings.slice(0, MAX_FINDINGS),
+    recommendations: recommendations(baseImage, catalog, findings),
+    notes
+  };
+
+  const summary = SEVERITY_ORDER.filter(s => counts[s] > 0).map(s => `${counts[s]} ${s}`).join(', ');
+  options.onLog(database
+    ? `🔎 ${findings.length === 0 ? 'No known vulnerabilities' : `${findings.length} vulnerabilities: ${summary} (${report.fixable} fixable)`}`
+    : '⚠️ No vulnerability database snapshot; SBOM written without vulnerability matching');
+  report.recommendations.forEach(line => options.onLog(`   💡 ${line}`));
+
+  if (options.policy) {
+    // Judge on every finding, not just the listed ones
+    const violations = evaluatePolicy({ database: report.database, findings }, options.policy);
+    report.policy = { passed: violations.length === 0, violations };
+    options.onLog(violations.length === 0 ? '✅ Vulnerability policy passed' : `❌ Vulnerability policy failed: ${violations.join('; ')}`);
+  }
+  return report;
+}
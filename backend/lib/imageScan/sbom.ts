@@ -0,0 +1,103 @@
+import { randomUUID } from 'crypto';
+import type { VulnerabilityFinding } from '../../../shared/types';
+import type { ImageCatalog } from './catalog';
+
+/**
+ * SBOM documents for a catalogued image, in the two formats registries
+ * and scanners accept: CycloneDX 1.5 and SPDX 2.3, both as JSON.
+ */
+
+export interface SbomSubject {
+  image: string;
+  imageId?: string;
+  generatedAt: string;
+}
+
+const TOOL_NAME = 'spark-space-image-scan';
+// Licence strings from package metadata are free text; only plain SPDX expressions are declared as such
+const SPDX_EXPRESSION = /^[A-Za-z0-9.+-]+( (AND|OR|WITH) [A-Za-z0-9.+-]+)*$/;
+
+export function cycloneDx(subject: SbomSubject, catalog: ImageCatalog, findings: VulnerabilityFinding[] = []): object {
+  const refs = new Map<string, string>();
+  const components: object[] = catalog.packages.map(pkg => {
+    refs.set(`${pkg.type}\0${pkg.name}\0${pkg.version}`, pkg.purl);
+    return {
+      type: 'library',
+      'bom-ref': pkg.purl,
+      name: pkg.name,
+      version: pkg.version,
+      purl: pkg.purl,
+      licenses: pkg.license ? [SPDX_EXPRESSION.test(pkg.license) ? { expression: pkg.license } : { license: { name: pkg.license } }] : undefined,
+      properties: [
+        ...pkg.locations.map(location => ({ name: `${TOOL_NAME}:location`, value: location })),
+        ...(pkg.sourceName ? [{ name: `${TOOL_NAME}:source-package`, value: pkg.sourceName }] : [])
+      ]
+    };
+  });
+  if (catalog.os) {
+    components.unshift({ type: 'operating-system', 'bom-ref': `os:${catalog.os.id}`, name: catalog.os.id, version: catalog.os.version, description: catalog.os.name });
+  }
+
+  return {
+    bomFormat: 'CycloneDX',
+    specVersion: '1.5',
+    serialNumber: `urn:uuid:${randomUUID()}`,
+    version: 1,
+    metadata: {
+      timestamp: subject.generatedAt,
+      tools: { components: [{ type: 'application', name: TOOL_NAME }] },
+      component: { type: 'container', 'bom-ref': 'image', name: subject.image, version: subject.imageId }
+    },
+    components,
+    vulnerabilities: findings.map(finding => ({
+      id: finding.id,
+      references: finding.aliases?.map(alias => ({ id: alias, source: { name: alias.split('-')[0] } })),
+      ratings: [{ severity: finding.severity, score: finding.score, method: finding.score !== undefined ? 'CVSSv3' : undefined }],
+      description: finding.summary,
+      recommendation: finding.fixedVersion ? `Upgrade ${finding.package} to ${finding.fixedVersion}` : undefined,
+      affects: [{ ref: refs.get(`${finding.packageType}\0${finding.package}\0${finding.version}`) }]
+    }))
+  };
+}
+
+export function spdx(subject: SbomSubject, catalog: ImageCatalog): object {
+  const imageId = 'SPDXRef-Image';
+  const packages = catalog.packages.map((pkg, index) => ({
+    SPDXID: `SPDXRef-Package-${pkg.type}-${index}`,
+    name: pkg.name,
+    versionInfo: pkg.version,
+    downloadLocation: 'NOASSERTION',
+    filesAnalyzed: false,
+    licenseConcluded: 'NOASSERTION',
+    licenseDeclared: pkg.license && SPDX_EXPRESSION.test(pkg.license) ? pkg.license : 'NOASSERTION',
+    licenseComments: pkg.license && !SPDX_EXPRESSION.test(pkg.license) ? pkg.license : undefined,
+    copyrightText: 'NOASSERTION',
+    sourceInfo: `found in ${pkg.locations.join(', ')}`,
+    externalRefs: [{ referenceCategory: 'PACKAGE-MANAGER', referenceType: 'purl', referenceLocator: pkg.purl }]
+  }));
+
+  return {
+    spdxVersion: 'SPDX-2.3',
+    dataLicense: 'CC0-1.0',
+    SPDXID: 'SPDXRef-DOCUMENT',
+    name: subject.image,
+    documentNamespace: `https://spdx.org/spdxdocs/${TOOL_NAME}/${encodeURIComponent(subject.image)}-${randomUUID()}`,
+    creationInfo: { created: subject.generatedAt, creators: [`Tool: ${TOOL_NAME}`] },
+    packages: [
+      {
+        SPDXID: imageId,
+        name: subject.image,
+        versionInfo: subject.imageId,
+        downloadLocation: 'NOASSERTION',
+        filesAnalyzed: false,
+        primaryPackagePurpose: 'CONTAINER',
+        comment: catalog.os?.name
+      },
+      ...packages
+    ],
+    relationships: [
+      { spdxElementId: 'SPDXRef-DOCUMENT', relationshipType: 'DESCRIBES', relatedSpdxElement: imageId },
+      ...packages.map(pkg => ({ spdxElementId: imageId, relationshipType: 'CONTAINS', relatedSpdxElement: pkg.SPDXID }))
+    ]
+  };
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { comparatorFor, compareApk, compareDebian, comparePep440, compareRpm, compareSemver } from './versions';
+
+const ordered = (compare: (a: string, b: string) => number, versions: string[]) =>
+  [...versions].reverse().sort(compare);
+
+describe('version comparators', () => {
+  it('orders semver with pre-releases before the release', () => {
+    const versions = ['1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-beta.2', '1.0.0-beta.11', '1.0.0', 'v1.2.0', '1.10.0'];
+    expect(ordered(compareSemver, versions)).toEqual(versions);
+  });
+
+  it('orders dpkg versions with epochs and tildes', () => {
+    const versions = ['3.0.11-1~deb12u1', '3.0.11-1', '3.0.13-1~deb12u1', '3.0.13-1', '1:1.0-1'];
+    expect(ordered(compareDebian, versions)).toEqual(versions);
+    expect(compareDebian('1.2.3a', '1.2.3')).toBeGreaterThan(0);
+  });
+
+  it('orders rpm versions segment by segment', () => {
+    const versions = ['1.0~rc1-1.el9', '1.0-1.el9', '1.0-1.el9_2', '1.0a-1.el9', '1.10-1.el9', '1:0.9-1.el9'];
+    expect(ordered(compareRpm, versions)).toEqual(versions);
+  });
+
+  it('orders apk versions with suffixes and revisions', () => {
+    const versions = ['3.1.4_rc1-r0', '3.1.4-r0', '3.1.4-r5', '3.1.4_p1-r0', '3.1.4a-r0', '3.1.10-r0'];
+    expect(ordered(compareApk, versions)).toEqual(versions);
+  });
+
+  it('orders PEP 440 versions', () => {
+    const versions = ['2.0.dev1', '2.0a1', '2.0b2', '2.0rc1', '2.0', '2.0.post1', '2.0.1', '1!0.1'];
+    expect(ordered(comparePep440, versions)).toEqual(versions);
+    expect(comparePep440('2.0', '2.0.0')).toBe(0);
+  });
+
+  it('picks the comparator from the OSV ecosystem', () => {
+    expect(comparatorFor('Debian:12')).toBe(compareDebian);
+    expect(comparatorFor('Alpine:v3.19')).toBe(compareApk);
+    expect(comparatorFor('PyPI')).toBe(comparePep440);
+    expect(comparatorFor('Go')).toBe(compareSemver);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Version ordering per package ecosystem, as used by advisory ranges.
+ * Each comparator returns <0, 0 or >0 like Array.prototype.sort expects.
+ */
+
+export type VersionComparator = (a: string, b: string) => number;
+
+const sign = (n: number) => (n < 0 ? -1 : n > 0 ? 1 : 0);
+
+// --- Semantic versions (npm, Go) -----------------------------------------
+
+const SEMVER = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+export function compareSemver(a: string, b: string): number {
+  const ma = a.trim().match(SEMVER);
+  const mb = b.trim().match(SEMVER);
+  if (!ma || !mb) return compareGeneric(a, b);
+  for (let i = 1; i <= 3; i++) {
+    const diff = Number(ma[i] || 0) - Number(mb[i] || 0);
+    if (diff) return sign(diff);
+  }
+  // A pre-release sorts before the release
+  if (!ma[4] || !mb[4]) return ma[4] ? -1 : mb[4] ? 1 : 0;
+  const pa = ma[4].split('.');
+  const pb = mb[4].split('.');
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    if (pa[i] === undefined) return -1;
+    if (pb[i] === undefined) return 1;
+    const na = /^\d+$/.test(pa[i]);
+    const nb = /^\d+$/.test(pb[i]);
+    if (na && nb) {
+      const diff = Number(pa[i]) - Number(pb[i]);
+      if (diff) return sign(diff);
+    } else if (na !== nb) {
+      return na ? -1 : 1;
+    } else if (pa[i] !== pb[i]) {
+      return pa[i] < pb[i] ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+// --- PEP 440 (PyPI) -------------------------------------------------------
+
+const PEP440 = /^v?(?:(\d+)!)?(\d+(?:\.\d+)*)(?:[-_.]?(a|alpha|b|beta|c|rc|pre|preview)[-_.]?(\d*))?(?:(?:-(\d+))|(?:[-_.]?(?:post|rev|r)[-_.]?(\d*)))?(?:[-_.]?dev[-_.]?(\d*))?(?:\+.*)?$/i;
+const PRE_ORDER: Record<string, number> = { a: 0, alpha: 0, b: 1, beta: 1, c: 2, rc: 2, pre: 2, preview: 2 };
+
+function pep440Key(version: string): number[] | undefined {
+  const m = version.trim().toLowerCase().match(PEP440);
+  if (!m) return undefined;
+  const release = m[2].split('.').map(Number);
+  while (release.length > 1 && release[release.length - 1] === 0) release.pop();
+  const post = m[5] ?? m[6];
+  // Dev releases sort before pre-releases, which sort before the release
+  const pre = m[3] ? [PRE_ORDER[m[3]], Number(m[4] || 0)] : m[7] !== undefined && post === undefined ? [-1, 0] : [3, 0];
+  return [
+    Number(m[1] || 0),
+    release.length, ...release,
+    ...pre,
+    post !== undefined ? Number(post || 0) : -1,
+    m[7] !== undefined ? Number(m[7] || 0) : Infinity
+  ];
+}
+
+export function comparePep440(a: string, b: string): number {
+  const ka = pep440Key(a);
+  const kb = pep440Key(b);
+  if (!ka || !kb) return compareGeneric(a, b);
+  // Compare the epoch, then the release segment by segment
+  if (ka[0] !== kb[0]) return sign(ka[0] - kb[0]);
+  const ra = ka.slice(2, 2 + ka[1]);
+  const rb = kb.slice(2, 2 + kb[1]);
+  for (let i = 0; i < Math.max(ra.length, rb.length); i++) {
+    const diff = (ra[i] ?? 0) - (rb[i] ?? 0);
+    if (diff) return sign(diff);
+  }
+  const ta = ka.slice(2 + ka[1]);
+  const tb = kb.slice(2 + kb[1]);
+  for (let i = 0; i < ta.length; i++) {
+    if (ta[i] !== tb[i]) return ta[i] < tb[i] ? -1 : 1;
+  }
+  return 0;
+}
+
+// --- Debian (dpkg) --------------------------------------------------------
+
+function dpkgOrder(c: string | undefined): number {
+  if (c === undefined) return 0;
+  if (c === '~') return -1;
+  if (/[A-Za-z]/.test(c)) return c.charCodeAt(0);
+  return c.charCodeAt(0) + 256;
+}
+
+function dpkgCompareFragment(a: string, b: string): number {
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    let firstDiff = 0;
+    while ((i < a.length && !/\d/.test(a[i])) || (j < b.length && !/\d/.test(b[j]))) {
+      const ac = i < a.length && !/\d/.test(a[i]) ? a[i] : undefined;
+      const bc = j < b.length && !/\d/.test(b[j]) ? b[j] : undefined;
+      const diff = dpkgOrder(ac) - dpkgOrder(bc);
+      if (diff) return sign(diff);
+      i++;
+      j++;
+    }
+    while (a[i] === '0') i++;
+    while (b[j] === '0') j++;
+    while (i < a.length && /\d/.test(a[i]) && j < b.length && /\d/.test(b[j])) {
+      if (!firstDiff) firstDiff = a.charCodeAt(i) - b.charCodeAt(j);
+      i++;
+      j++;
+    }
+    if (i < a.length && /\d/.test(a[i])) return 1;
+    if (j < b.length && /\d/.test(b[j])) return -1;
+    if (firstDiff) return sign(firstDiff);
+  }
+  return 0;
+}
+
+function splitEpoch(version: string): [number, string, string] {
+  const colon = version.indexOf(':');
+  const epoch = colon === -1 ? 0 : Number(version.slice(0, colon)) || 0;
+  const rest = colon === -1 ? version : version.slice(colon + 1);
+  const dash = rest.lastIndexOf('-');
+  return dash === -1 ? [epoch, rest, ''] : [epoch, rest.slice(0, dash), rest.slice(dash + 1)];
+}
+
+export function compareDebian(a: string, b: string): number {
+  const [ea, ua, ra] = splitEpoch(a.trim());
+  const [eb, ub, rb] = splitEpoch(b.trim());
+  if (ea !== eb) return sign(ea - eb);
+  return dpkgCompareFragment(ua, ub) || dpkgCompareFragment(ra, rb);
+}
+
+// --- RPM ------------------------------------------------------------------
+
+function rpmvercmp(a: string, b: string): number {
+  if (a === b) return 0;
+  const segments = (v: string) => v.match(/~|\^|\d+|[A-Za-z]+/g) || [];
+  const sa = segments(a);
+  const sb = segments(b);
+  for (let i = 0; i < Math.max(sa.length, sb.length); i++) {
+    const x = sa[i];
+    const y = sb[i];
+    // Tilde sorts before anything, even the end of the version; caret after the end
+    if (x === '~' || y === '~') {
+      if (x !== y) return x === '~' ? -1 : 1;
+      continue;
+    }
+    if (x === '^' || y === '^') {
+      if (x === undefined) return -1;
+      if (y === undefined) return 1;
+      if (x !== y) return x === '^' ? -1 : 1;
+      continue;
+    }
+    if (x === undefined || y === undefined) return x === undefined ? -1 : 1;
+    const nx = /^\d/.test(x);
+    const ny = /^\d/.test(y);
+    if (nx !== ny) return nx ? 1 : -1;
+    if (nx) {
+      const diff = x.replace(/^0+/, '').length - y.replace(/^0+/, '').length;
+      if (diff) return sign(diff);
+      const cmp = x.replace(/^0+/, '').localeCompare(y.replace(/^0+/, ''));
+      if (cmp) return sign(cmp);
+    } else if (x !== y) {
+      return x < y ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+export function compareRpm(a: string, b: string): number {
+  const [ea, va, ra] = splitEpoch(a.trim());
+  const [eb, vb, rb] = splitEpoch(b.trim());
+  if (ea !== eb) return sign(ea - eb);
+  return rpmvercmp(va, vb) || rpmvercmp(ra, rb);
+}
+
+// --- Alpine (apk) ---------------------------------------------------------
+
+const APK_SUFFIX: Record<string, number> = { alpha: -4, beta: -3, pre: -2, rc: -1, '': 0, cvs: 1, svn: 2, git: 3, hg: 4, p: 5 };
+
+export function compareApk(a: string, b: string): number {
+  const parse = (v: string) => {
+    const m = v.trim().match(/^([\d.]+)([a-z]?)((?:_[a-z]+\d*)*)(?:-r(\d+))?$/);
+    if (!m) return undefined;
+    const suffixes = (m[3].match(/_[a-z]+\d*/g) || []).map(s => {
+      const [, name, n] = s.match(/^_([a-z]+)(\d*)$/)!;
+      return [APK_SUFFIX[name] ?? 0, Number(n || 0)];
+    });
+    return { numbers: m[1].split('.').filter(Boolean).map(Number), letter: m[2], suffixes, release: Number(m[4] || 0) };
+  };
+  const pa = parse(a);
+  const pb = parse(b);
+  if (!pa || !pb) return compareGeneric(a, b);
+  for (let i = 0; i < Math.max(pa.numbers.length, pb.numbers.length); i++) {
+    const diff = (pa.numbers[i] ?? -1) - (pb.numbers[i] ?? -1);
+    if (diff) return sign(diff);
+  }
+  if (pa.letter !== pb.letter) return pa.letter < pb.letter ? -1 : 1;
+  for (let i = 0; i < Math.max(pa.suffixes.length, pb.suffixes.length); i++) {
+    const [sa, na] = pa.suffixes[i] ?? [0, 0];
+    const [sb, nb] = pb.suffixes[i] ?? [0, 0];
+    if (sa !== sb) return sign(sa - sb);
+    if (na !== nb) return sign(na - nb);
+  }
+  return sign(pa.release - pb.release);
+}
+
+// --- Fallback -------------------------------------------------------------
+
+/** Numbers compare numerically, everything else lexically */
+export function compareGeneric(a: string, b: string): number {
+  const sa = a.match(/\d+|[^\d.\-_+~]+/g) || [];
+  const sb = b.match(/\d+|[^\d.\-_+~]+/g) || [];
+  for (let i = 0; i < Math.max(sa.length, sb.length); i++) {
+    if (sa[i] === undefined) return -1;
+    if (sb[i] === undefined) return 1;
+    const na = /^\d+$/.test(sa[i]);
+    const nb = /^\d+$/.test(sb[i]);
+    if (na && nb) {
+      const diff = Number(sa[i]) - Number(sb[i]);
+      if (diff) return sign(diff);
+    } else if (sa[i] !== sb[i]) {
+      return na ? 1 : nb ? -1 : sa[i] < sb[i] ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * The comparator for an OSV ecosystem name such as "npm", "PyPI",
+ * "Debian:12" or "Alpine:v3.19"
+ */
+export function comparatorFor(ecosystem: string): VersionComparator {
+  const base = ecosystem.split(':')[0];
+  switch (base) {
+    case 'npm':
+    case 'Go':
+      return compareSemver;
+    case 'PyPI':
+      return comparePep440;
+    case 'Debian':
+    case 'Ubuntu':
+      return compareDebian;
+    case 'Alpine':
+      return compareApk;
+    case 'Red Hat':
+    case 'Rocky Linux':
+    case 'AlmaLinux':
+    case 'openSUSE':
+    case 'SUSE':
+      return compareRpm;
+    default:
+      return compareGeneric;
+  }
+}
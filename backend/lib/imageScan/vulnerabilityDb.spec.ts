@@ -0,0 +1,79 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ImagePackage } from './catalog';
+import { cvss3BaseScore, loadVulnerabilityDatabase, VulnerabilityDatabase } from './vulnerabilityDb';
+
+const pkg = (fields: Partial<ImagePackage>): ImagePackage =>
+  ({ type: 'npm', name: 'x', version: '1.0.0', ecosystem: 'npm', locations: [], purl: '', ...fields });
+
+describe('cvss3BaseScore', () => {
+  it('computes base scores for scope unchanged and changed vectors', () => {
+    expect(cvss3BaseScore('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H')).toBe(9.8);
+    expect(cvss3BaseScore('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:C/C:H/I:H/A:H')).toBe(10);
+    expect(cvss3BaseScore('CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N')).toBe(6.1);
+    expect(cvss3BaseScore('CVSS:3.0/AV:L/AC:L/PR:L/UI:N/S:U/C:N/I:N/A:N')).toBe(0);
+    expect(cvss3BaseScore('CVSS:2.0/AV:N')).toBeUndefined();
+  });
+});
+
+describe('VulnerabilityDatabase.match', () => {
+  const database = new VulnerabilityDatabase('memory', [
+    {
+      id: 'GHSA-1',
+      summary: 'Two affected ranges',
+      database_specific: { severity: 'MODERATE' },
+      affected: [{
+        package: { ecosystem: 'npm', name: 'x' },
+        ranges: [{ type: 'SEMVER', events: [{ introduced: '2.0.0' }, { fixed: '2.3.0' }, { introduced: '0' }, { fixed: '1.5.0' }] }]
+      }]
+    },
+    {
+      id: 'DSA-1',
+      severity: [{ type: 'CVSS_V3', score: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H' }],
+      affected: [{ package: { ecosystem: 'Debian:12', name: 'openssl' }, ranges: [{ type: 'ECOSYSTEM', events: [{ introduced: '0' }, { fixed: '3.0.13-1~deb12u1' }] }] }]
+    },
+    {
+      id: 'PYSEC-1',
+      affected: [{ package: { ecosystem: 'PyPI', name: 'Jinja2' }, ranges: [{ type: 'ECOSYSTEM', events: [{ introduced: '0' }, { last_affected: '3.1.2' }] }] }]
+    },
+    { id: 'WITHDRAWN-1', withdrawn: '2024-01-01T00:00:00Z', affected: [{ package: { ecosystem: 'npm', name: 'x' }, versions: ['1.0.0'] }] }
+  ]);
+
+  it('evaluates every range and reports the lowest fix above the installed version', () => {
+    expect(database.match(pkg({ version: '1.0.0' }))).toMatchObject([{ id: 'GHSA-1', severity: 'medium', fixedVersion: '1.5.0' }]);
+    expect(database.match(pkg({ version: '2.1.0' }))).toMatchObject([{ id: 'GHSA-1', fixedVersion: '2.3.0' }]);
+    expect(database.match(pkg({ version: '1.7.0' }))).toEqual([]);
+    expect(database.match(pkg({ version: '2.3.0' }))).toEqual([]);
+  });
+
+  it('matches OS packages by source package within the same release', () => {
+    const libssl = pkg({ type: 'deb', name: 'libssl3', sourceName: 'openssl', version: '3.0.11-1~deb12u2', ecosystem: 'Debian:12' });
+    expect(database.match(libssl)).toMatchObject([{ id: 'DSA-1', package: 'libssl3', severity: 'critical', score: 9.8, fixedVersion: '3.0.13-1~deb12u1' }]);
+    expect(database.match({ ...libssl, ecosystem: 'Debian:11' })).toEqual([]);
+  });
+
+  it('normalizes Python names and honours last_affected', () => {
+    expect(database.match(pkg({ type: 'pypi', name: 'jinja2', version: '3.1.2', ecosystem: 'PyPI' }))).toMatchObject([{ id: 'PYSEC-1', severity: 'unknown' }]);
+    expect(database.match(pkg({ type: 'pypi', name: 'jinja2', version: '3.1.3', ecosystem: 'PyPI' }))).toEqual([]);
+  });
+});
+
+describe('loadVulnerabilityDatabase', () => {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'vulndb-spec-'));
+  afterAll(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+  it('reads single advisories, arrays and wrapped lists from a directory', () => {
+    fs.mkdirSync(path.join(tmp, 'npm'));
+    fs.writeFileSync(path.join(tmp, 'npm', 'GHSA-1.json'), JSON.stringify({ id: 'GHSA-1', modified: '2025-01-02T00:00:00Z', affected: [] }));
+    fs.writeFileSync(path.join(tmp, 'list.json'), JSON.stringify([{ id: 'A', affected: [] }, { id: 'B', affected: [] }]));
+    fs.writeFileSync(path.join(tmp, 'export.json'), JSON.stringify({ vulnerabilities: [{ id: 'C', modified: '2025-03-01T00:00:00Z', affected: [] }] }));
+
+    const database = loadVulnerabilityDatabase(tmp)!;
+    expect(database.advisories).toBe(4);
+    expect(database.updatedAt).toBe('2025-03-01T00:00:00Z');
+    expect(loadVulnerabilityDatabase(tmp)).toBe(database);
+    expect(loadVulnerabilityDatabase(path.join(tmp, 'missing'))).toBeNull();
+  });
+});
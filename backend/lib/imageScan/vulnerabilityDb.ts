@@ -0,0 +1,245 @@
+import fs from 'fs';
+import path from 'path';
+import type { VulnerabilityFinding, VulnerabilitySeverity } from '../../../shared/types';
+import { ImagePackage, normalizePythonName } from './catalog';
+import { comparatorFor, VersionComparator } from './versions';
+
+/**
+ * Offline vulnerability database: a snapshot of OSV advisories (as
+ * published at https://osv.dev) kept on disk, so scans need no network
+ * access. `VULN_DB_PATH` points at one JSON file or a directory of them;
+ * each file holds an advisory, an array of advisories or
+ * `{ "vulnerabilities": [...] }`.
+ */
+
+interface OsvEvent {
+  introduced?: string;
+  fixed?: string;
+  last_affected?: string;
+  limit?: string;
+}
+
+interface OsvAffected {
+  package?: { ecosystem?: string; name?: string };
+  ranges?: Array<{ type: string; events: OsvEvent[] }>;
+  versions?: string[];
+  ecosystem_specific?: { severity?: unknown };
+  database_specific?: { severity?: unknown };
+}
+
+interface OsvAdvisory {
+  id: string;
+  aliases?: string[];
+  summary?: string;
+  details?: string;
+  modified?: string;
+  withdrawn?: string;
+  severity?: Array<{ type: string; score: string }>;
+  affected?: OsvAffected[];
+  database_specific?: { severity?: unknown };
+}
+
+interface IndexedAffected {
+  advisory: OsvAdvisory;
+  affected: OsvAffected;
+  ecosystem: string;
+}
+
+const SEVERITY_NAMES: Record<string, VulnerabilitySeverity> = {
+  critical: 'critical',
+  high: 'high',
+  important: 'high',
+  moderate: 'medium',
+  medium: 'medium',
+  low: 'low',
+  negligible: 'low',
+  unimportant: 'low'
+};
+
+export const SEVERITY_ORDER: VulnerabilitySeverity[] = ['critical', 'high', 'medium', 'low', 'unknown'];
+
+export function defaultVulnerabilityDbPath(): string {
+  return path.resolve(process.env.VULN_DB_PATH || path.join(process.cwd(), '.data', 'vulnerability-db'));
+}
+
+const CVSS3_WEIGHTS: Record<string, Record<string, number>> = {
+  AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 },
+  AC: { L: 0.77, H: 0.44 },
+  UI: { N: 0.85, R: 0.62 },
+  C: { H: 0.56, L: 0.22, N: 0 },
+  I: { H: 0.56, L: 0.22, N: 0 },
+  A: { H: 0.56, L: 0.22, N: 0 }
+};
+
+function roundUp(value: number): number {
+  const scaled = Math.round(value * 100000);
+  return scaled % 10000 === 0 ? scaled / 100000 : (Math.floor(scaled / 10000) + 1) / 10;
+}
+
+/** Base score of a CVSS v3.x vector such as "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H" */
+export function cvss3BaseScore(vector: string): number | undefined {
+  const metrics = Object.fromEntries(vector.split('/').slice(1).map(part => part.split(':') as [string, string]));
+  const changed = metrics.S === 'C';
+  const pr = { N: 0.85, L: changed ? 0.68 : 0.62, H: changed ? 0.5 : 0.27 }[metrics.PR as 'N' | 'L' | 'H'];
+  const [av, ac, ui, c, i, a] = ['AV', 'AC', 'UI', 'C', 'I', 'A'].map(key => CVSS3_WEIGHTS[key][metrics[key]]);
+  if (!/^CVSS:3\.[01]\//.test(vector) || [av, ac, ui, c, i, a, pr].some(w => w === undefined)) return undefined;
+
+  const iss = 1 - (1 - c) * (1 - i) * (1 - a);
+  const impact = changed ? 7.52 * (iss - 0.029) - 3.25 * (iss - 0.02) ** 15 : 6.42 * iss;
+  const exploitability = 8.22 * av * ac * pr! * ui;
+  if (impact <= 0) return 0;
+  return roundUp(Math.min((changed ? 1.08 : 1) * (impact + exploitability), 10));
+}
+
+export function severityFromScore(score: number): VulnerabilitySeverity {
+  if (score >= 9) return 'critical';
+  if (score >= 7) return 'high';
+  if (score >= 4) return 'medium';
+  if (score > 0) return 'low';
+  return 'unknown';
+}
+
+function severityName(value: unknown): VulnerabilitySeverity | undefined {
+  return typeof value === 'string' ? SEVERITY_NAMES[value.toLowerCase()] : undefined;
+}
+
+function packageKey(ecosystem: string, name: string): string {
+  const base = ecosystem.split(':')[0];
+  return `${base}\0${base === 'PyPI' ? normalizePythonName(name) : name}`;
+}
+
+/**
+ * Whether an advisory filed under `advisory` applies to a package from
+ * `installed`: "Debian:12" matches "Debian:12" and plain "Debian", and a
+ * release-less installed ecosystem matches every release.
+ */
+function ecosystemMatches(advisory: string, installed: string): boolean {
+  return advisory === installed || installed.startsWith(`${advisory}:`) || advisory.startsWith(`${installed}:`);
+}
+
+function inRange(version: string, events: OsvEvent[], compare: VersionComparator): boolean {
+  const at = (event: OsvEvent) => event.introduced ?? event.fixed ?? event.last_affected ?? event.limit ?? '0';
+  const sorted = [...events].sort((a, b) => (at(a) === '0' ? -1 : at(b) === '0' ? 1 : compare(at(a), at(b))));
+  let affected = false;
+  for (const event of sorted) {
+    if (event.introduced !== undefined) {
+      if (event.introduced === '0' || compare(version, event.introduced) >= 0) affected = true;
+    } else if (event.fixed !== undefined) {
+      if (compare(version, event.fixed) >= 0) affected = false;
+    } else if (event.last_affected !== undefined) {
+      if (compare(version, event.last_affected) > 0) affected = false;
+    } else if (event.limit !== undefined && event.limit !== '*') {
+      if (compare(version, event.limit) >= 0) affected = false;
+    }
+  }
+  return affected;
+}
+
+export class VulnerabilityDatabase {
+  private readonly index = new Map<string, IndexedAffected[]>();
+  advisories = 0;
+  updatedAt?: string;
+
+  constructor(readonly source: string, advisories: OsvAdvisory[]) {
+    for (const advisory of advisories) this.add(advisory);
+  }
+
+  private add(advisory: OsvAdvisory): void {
+    if (!advisory?.id || advisory.withdrawn || !Array.isArray(advisory.affected)) return;
+    this.advisories++;
+    if (advisory.modified && (!this.updatedAt || advisory.modified > this.updatedAt)) this.updatedAt = advisory.modified;
+    for (const affected of advisory.affected) {
+      const { ecosystem, name } = affected.package || {};
+      if (!ecosystem || !name) continue;
+      const key = packageKey(ecosystem, name);
+      const entries = this.index.get(key) || [];
+      entries.push({ advisory, affected, ecosystem });
+      this.index.set(key, entries);
+    }
+  }
+
+  /**
+   * Advisories affecting an installed package. OS packages are also looked
+   * up by source package, since distributions file advisories that way.
+   */
+  match(pkg: ImagePackage): VulnerabilityFinding[] {
+    const compare = comparatorFor(pkg.ecosystem);
+    const findings = new Map<string, VulnerabilityFinding>();
+    for (const name of [pkg.name, pkg.sourceName].filter(Boolean) as string[]) {
+      for (const { advisory, affected, ecosystem } of this.index.get(packageKey(pkg.ecosystem, name)) || []) {
+        if (findings.has(advisory.id) || !ecosystemMatches(ecosystem, pkg.ecosystem)) continue;
+        const ranges = (affected.ranges || []).filter(r => r.type !== 'GIT');
+        const listed = (affected.versions || []).some(v => compare(v, pkg.version) === 0);
+        const affecting = ranges.filter(r => inRange(pkg.version, r.events, compare));
+        if (!listed && affecting.length === 0) continue;
+
+        const fixes = affecting
+          .flatMap(r => r.events.map(e => e.fixed).filter((v): v is string => !!v))
+          .filter(v => compare(v, pkg.version) > 0)
+          .sort(compare);
+        const score = advisory.severity
+          ?.filter(s => s.type === 'CVSS_V3')
+          .map(s => cvss3BaseScore(s.score))
+          .find((s): s is number => s !== undefined);
+        const severity = severityName(advisory.database_specific?.severity)
+          ?? severityName(affected.ecosystem_specific?.severity)
+          ?? severityName(affected.database_specific?.severity)
+          ?? (score !== undefined ? severityFromScore(score) : 'unknown');
+
+        findings.set(advisory.id, {
+          id: advisory.id,
+          aliases: advisory.aliases?.length ? advisory.aliases : undefined,
+          package: pkg.name,
+          version: pkg.version,
+          packageType: pkg.type,
+          severity,
+          score,
+          fixedVersion: fixes[0],
+          summary: advisory.summary || advisory.details?.split('\n')[0]?.slice(0, 200) || undefined
+        });
+      }
+    }
+    return [...findings.values()];
+  }
+}
+
+function listJsonFiles(location: string): string[] {
+  const stat = fs.statSync(location);
+  if (stat.isFile()) return [location];
+  return fs.readdirSync(location, { withFileTypes: true }).flatMap(entry => {
+    const full = path.join(location, entry.name);
+    if (entry.isDirectory()) return listJsonFiles(full);
+    return entry.name.endsWith('.json') ? [full] : [];
+  });
+}
+
+let cached: { key: string; database: VulnerabilityDatabase } | undefined;
+
+/**
+ * Load the snapshot at `location`, or null when there is none. The parsed
+ * database is reused until a file in the snapshot changes.
+ */
+export function loadVulnerabilityDatabase(location = defaultVulnerabilityDbPath()): VulnerabilityDatabase | null {
+  if (!fs.existsSync(location)) return null;
+  const files = listJsonFiles(location).sort();
+  const key = `${location}\0${files.map(f => `${f}:${fs.statSync(f).mtimeMs}`).join('\0')}`;
+  if (cached?.key === key) return cached.database;
+
+  const advisories: OsvAdvisory[] = [];
+  for (const file of files) {
+    let content: unknown;
+    try {
+      content = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (error) {
+      console.warn(`⚠️ Skipping unreadable vulnerability file ${file}:`, error instanceof Error ? error.message : error);
+      continue;
+    }
+    if (Array.isArray(content)) advisories.push(...content);
+    else if (Array.isArray((content as { vulnerabilities?: unknown })?.vulnerabilities)) advisories.push(...(content as { vulnerabilities: OsvAdvisory[] }).vulnerabilities);
+    else if (content) advisories.push(content as OsvAdvisory);
+  }
+
+  const database = new VulnerabilityDatabase(location, advisories);
+  cached = { key, database };
+  return database;
+}
@@ -0,0 +1,314 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import type { GitHubFile, ProjectAnalysis } from './aiService';
+import type { ServiceLayout } from './serviceDetector';
+import {
+  detectRuntimeRequirements,
+  generateKubernetesArtifacts,
+  parseKubernetesOptions,
+  KubernetesObject,
+  KubernetesOptionsError,
+  toYaml
+} from './kubernetesManifests';
+
+// Just the parts of the Kubernetes API schemas the generator is expected to fill in
+const dnsName = z.string().regex(/^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/).max(63);
+const metadata = z.object({
+  name: dnsName,
+  namespace: dnsName.optional(),
+  labels: z.record(z.string()).optional()
+});
+const portRef = z.union([z.number().int().min(1).max(65535), z.literal('http')]);
+const probe = z.object({
+  httpGet: z.object({ path: z.string().startsWith('/'), port: portRef }).optional(),
+  tcpSocket: z.object({ port: portRef }).optional(),
+  periodSeconds: z.number().int().positive(),
+  failureThreshold: z.number().int().positive()
+}).refine(p => !!p.httpGet !== !!p.tcpSocket, 'exactly one handler');
+const envVar = z.object({
+  name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/),
+  value: z.string().optional(),
+  valueFrom: z.union([
+    z.object({ configMapKeyRef: z.object({ name: dnsName, key: z.string(), optional: z.literal(true) }) }),
+    z.object({ secretKeyRef: z.object({ name: dnsName, key: z.string(), optional: z.literal(true) }) })
+  ]).optional()
+}).refine(e => (e.value === undefined) !== (e.valueFrom === undefined), 'value or valueFrom');
+const container = z.object({
+  name: dnsName,
+  image: z.string().min(1),
+  ports: z.array(z.object({ name: z.literal('http'), containerPort: z.number().int().min(1).max(65535) })).length(1),
+  env: z.array(envVar),
+  readinessProbe: probe,
+  livenessProbe: probe,
+  startupProbe: probe.optional(),
+  resources: z.object({ requests: z.object({ cpu: z.string(), memory: z.string() }), limits: z.object({ memory: z.string() }) }),
+  volumeMounts: z.array(z.object({ name: dnsName, mountPath: z.string().startsWith('/') })).optional()
+});
+
+const schemas: Record<string, z.ZodTypeAny> = {
+  Deployment: z.object({
+    apiVersion: z.literal('apps/v1'),
+    metadata,
+    spec: z.object({
+      replicas: z.number().int().positive().optional(),
+      selector: z.object({ matchLabels: z.record(z.string()) }),
+      template: z.object({
+        metadata: z.object({ labels: z.record(z.string()) }),
+        spec: z.object({
+          containers: z.array(container).length(1),
+          volumes: z.array(z.object({ name: dnsName, persistentVolumeClaim: z.object({ claimName: dnsName }) })).optional()
+        })
+      })
+    })
+  }).refine(d => Object.entries(d.spec.selector.matchLabels).every(([k, v]) => d.spec.template.metadata.labels[k] === v), 'selector matches template labels'),
+  Service: z.object({
+    apiVersion: z.literal('v1'),
+    metadata,
+    spec: z.object({
+      type: z.literal('ClusterIP'),
+      selector: z.record(z.string()),
+      ports: z.array(z.object({ port: z.number().int(), targetPort: portRef })).min(1)
+    })
+  }),
+  Ingress: z.object({
+    apiVersion: z.literal('networking.k8s.io/v1'),
+    metadata,
+    spec: z.object({
+      rules: z.array(z.object({
+        host: z.string(),
+        http: z.object({
+          paths: z.array(z.object({
+            path: z.string(),
+            pathType: z.enum(['Prefix', 'Exact', 'ImplementationSpecific']),
+            backend: z.object({ service: z.object({ name: dnsName, port: z.object({ name: z.string() }) }) })
+          }))
+        })
+      })).min(1)
+    })
+  }),
+  ConfigMap: z.object({ apiVersion: z.literal('v1'), metadata, data: z.record(z.string()) }),
+  PersistentVolumeClaim: z.object({
+    apiVersion: z.literal('v1'),
+    metadata,
+    spec: z.object({ accessModes: z.array(z.string()).min(1), resources: z.object({ requests: z.object({ storage: z.string() }) }) })
+  }),
+  HorizontalPodAutoscaler: z.object({
+    apiVersion: z.literal('autoscaling/v2'),
+    metadata,
+    spec: z.object({
+      scaleTargetRef: z.object({ apiVersion: z.literal('apps/v1'), kind: z.literal('Deployment'), name: dnsName }),
+      minReplicas: z.number().int().positive(),
+      maxReplicas: z.number().int().positive(),
+      metrics: z.array(z.object({ type: z.literal('Resource') })).min(1)
+    })
+  }).refine(h => h.spec.minReplicas <= h.spec.maxReplicas, 'minReplicas <= maxReplicas')
+};
+
+function expectValid(objects: KubernetesObject[]) {
+  for (const object of objects) {
+    const schema = schemas[object.kind];
+    expect(schema, `no schema for ${object.kind}`).toBeDefined();
+    const result = schema.safeParse(object);
+    expect(result.success, `${object.kind}/${object.metadata.name}: ${result.error?.message}`).toBe(true);
+  }
+}
+
+function file(path: string, content: string): GitHubFile {
+  return { name: path.split('/').pop()!, path, type: 'file', content };
+}
+
+function analysisFor(files: GitHubFile[], dependencies: string[] = []): ProjectAnalysis {
+  return {
+    language: 'python',
+    dependencies,
+    packageFiles: [],
+    hasDockerfile: false,
+    runtime: detectRuntimeRequirements(files, dependencies)
+  };
+}
+
+const DOCKERFILE = 'FROM node:20-slim\nWORKDIR /srv\nEXPOSE 3000\nCMD ["node", "server.js"]\n';
+
+describe('detectRuntimeRequirements', () => {
+  it('collects env vars, health routes and model directories that are not in the repository', () => {
+    const runtime = detectRuntimeRequirements([
+      file('server.js', "const db = process.env.DATABASE_URL;\nconst port = process.env.PORT;\napp.get('/healthz', ok);\napp.get('/api/ready', ok);"),
+      file('app/main.py', 'import os\nkey = os.environ["OPENAI_API_KEY"]\nlevel = os.getenv("LOG_LEVEL", "info")\nmodel = load("models/bert/weights.bin")\nvocab = open("assets/vocab.txt")'),
+      file('main.go', 'addr := os.Getenv("LISTEN_ADDR")'),
+      file('test/server.spec.js', 'process.env.TEST_ONLY'),
+      file('node_modules/lib/index.js', 'process.env.VENDORED')
+    ], ['fastapi', 'transformers==4.44']);
+
+    expect(runtime).toEqual({
+      envVars: ['DATABASE_URL', 'LISTEN_ADDR', 'LOG_LEVEL', 'OPENAI_API_KEY'],
+      healthEndpoints: ['/api/ready', '/healthz'],
+      modelPaths: ['models/bert'],
+      modelCache: true
+    });
+  });
+
+  it('does not ask for a volume when the weights are checked in', () => {
+    const runtime = detectRuntimeRequirements([
+      file('predict.py', 'model = joblib.load("models/clf.pkl")'),
+      file('models/clf.pkl', 'binary')
+    ]);
+    expect(runtime.modelPaths).toEqual([]);
+    expect(runtime.modelCache).toBe(false);
+  });
+});
+
+describe('generateKubernetesArtifacts', () => {
+  it('builds a valid web workload with probes, config and secret references and an autoscaler', () => {
+    const analysis = analysisFor([
+      file('server.js', "process.env.DATABASE_URL; process.env.LOG_LEVEL; app.get('/health', ok)")
+    ]);
+    const artifacts = generateKubernetesArtifacts({ analysis, dockerfile: DOCKERFILE }, { image: 'acme/api:1.4.0', host: 'api.acme.dev' });
+
+    expectValid(artifacts.manifests);
+    expect(artifacts.manifests.map(m => m.kind)).toEqual(['ConfigMap', 'Deployment', 'Service', 'HorizontalPodAutoscaler', 'Ingress']);
+    expect(Object.keys(artifacts.files)).toEqual(['k8s/api.yaml', 'k8s/ingress.yaml']);
+
+    const deployment = artifacts.manifests.find(m => m.kind === 'Deployment') as any;
+    const c = deployment.spec.template.spec.containers[0];
+    expect(deployment.spec.replicas).toBeUndefined();
+    expect(c.image).toBe('acme/api:1.4.0');
+    expect(c.ports[0].containerPort).toBe(3000);
+    expect(c.readinessProbe.httpGet).toEqual({ path: '/health', port: 'http' });
+    expect(c.startupProbe).toBeUndefined();
+    expect(c.env).toEqual([
+      { name: 'PORT', value: '3000' },
+      { name: 'LOG_LEVEL', valueFrom: { configMapKeyRef: { name: 'api-config', key: 'LOG_LEVEL', optional: true } } },
+      { name: 'DATABASE_URL', valueFrom: { secretKeyRef: { name: 'api-secrets', key: 'DATABASE_URL', optional: true } } }
+    ]);
+    expect(artifacts.manifests.find(m => m.kind === 'Ingress')).toMatchObject({ spec: { rules: [{ host: 'api.acme.dev' }] } });
+    expect(artifacts.notes).toEqual(['api: create Secret api-secrets with DATABASE_URL']);
+  });
+
+  it('falls back to TCP probes without a health endpoint', () => {
+    const artifacts = generateKubernetesArtifacts({ analysis: analysisFor([]) }, { image: 'acme/worker' });
+    expectValid(artifacts.manifests);
+    const c = (artifacts.manifests.find(m => m.kind === 'Deployment') as any).spec.template.spec.containers[0];
+    expect(c.livenessProbe.tcpSocket).toEqual({ port: 'http' });
+    expect(c.ports[0].containerPort).toBe(8080);
+  });
+
+  it('mounts model volumes, pins ML workloads to one replica and gives them a startup probe', () => {
+    const analysis = analysisFor([file('app.py', 'pipe = load("./checkpoints")\n@app.get("/ready")')], ['torch']);
+    const artifacts = generateKubernetesArtifacts(
+      { analysis, dockerfile: 'FROM python:3.11\nWORKDIR /app\nEXPOSE 8000\n' },
+      { image: 'acme/ml:2', namespace: 'ml' }
+    );
+
+    expectValid(artifacts.manifests);
+    expect(artifacts.manifests.some(m => m.kind === 'HorizontalPodAutoscaler')).toBe(false);
+    expect(artifacts.manifests.every(m => m.metadata.namespace === 'ml')).toBe(true);
+    expect(artifacts.manifests.filter(m => m.kind === 'PersistentVolumeClaim').map(m => m.metadata.name)).toEqual(['ml-models', 'ml-model-cache']);
+
+    const deployment = artifacts.manifests.find(m => m.kind === 'Deployment') as any;
+    const c = deployment.spec.template.spec.containers[0];
+    expect(deployment.spec).toMatchObject({ replicas: 1, strategy: { type: 'Recreate' } });
+    expect(c.startupProbe).toMatchObject({ httpGet: { path: '/ready' }, failureThreshold: 30 });
+    expect(c.volumeMounts).toEqual([{ name: 'models', mountPath: '/app/checkpoints' }, { name: 'model-cache', mountPath: '/models' }]);
+    expect(c.env).toContainEqual({ name: 'HF_HOME', value: '/models/huggingface' });
+  });
+
+  it('creates one workload per detected service and links dependencies through the ConfigMap', () => {
+    const services = {
+      tools: ['docker-compose'],
+      services: [
+        { name: 'web', dockerfileContent: 'FROM nginx\nEXPOSE 80\n', port: 80, dependsOn: ['api'] },
+        { name: 'api', dockerfileContent: DOCKERFILE, port: 3000, dependsOn: [] }
+      ]
+    } as unknown as ServiceLayout;
+    const artifacts = generateKubernetesArtifacts({ analysis: analysisFor([]), services }, { image: 'acme/shop:7' });
+
+    expectValid(artifacts.manifests);
+    expect(Object.keys(artifacts.files)).toEqual(['k8s/shop-web.yaml', 'k8s/shop-api.yaml', 'k8s/ingress.yaml']);
+    expect(artifacts.manifests.find(m => m.kind === 'ConfigMap' && m.metadata.name === 'shop-web-config'))
+      .toMatchObject({ data: { API_URL: 'http://shop-api' } });
+    const images = artifacts.manifests.filter(m => m.kind === 'Deployment').map(m => (m as any).spec.template.spec.containers[0].image);
+    expect(images).toEqual(['acme/shop-web:7', 'acme/shop-api:7']);
+    expect(artifacts.manifests.find(m => m.kind === 'Ingress')).toMatchObject({
+      spec: { rules: [{ http: { paths: [{ backend: { service: { name: 'shop-web' } } }] } }] }
+    });
+  });
+
+  it('lays out a Kustomize base with an overlay per environment', () => {
+    const artifacts = generateKubernetesArtifacts(
+      { analysis: analysisFor([]), dockerfile: DOCKERFILE },
+      { image: 'acme/api:1.4.0', packaging: 'kustomize', environments: ['dev', 'production'] }
+    );
+    expect(Object.keys(artifacts.files)).toEqual([
+      'k8s/base/api.yaml',
+      'k8s/base/ingress.yaml',
+      'k8s/base/kustomization.yaml',
+      'k8s/overlays/dev/kustomization.yaml',
+      'k8s/overlays/production/kustomization.yaml'
+    ]);
+    expect(artifacts.files['k8s/base/kustomization.yaml']).toContain('resources:\n- api.yaml\n- ingress.yaml\n');
+    expect(artifacts.files['k8s/overlays/dev/kustomization.yaml']).toContain('namespace: api-dev\n');
+    expect(artifacts.files['k8s/overlays/dev/kustomization.yaml']).toContain('images:\n- name: acme/api\n  newTag: "1.4.0"\n');
+    expect(artifacts.files['k8s/overlays/dev/kustomization.yaml']).toContain('path: /spec/minReplicas');
+    expect(artifacts.files['k8s/overlays/production/kustomization.yaml']).not.toContain('patches');
+  });
+
+  it('packages a Helm chart with values per environment', () => {
+    const artifacts = generateKubernetesArtifacts(
+      { analysis: analysisFor([file('server.js', 'process.env.API_TOKEN')]), dockerfile: DOCKERFILE },
+      { image: 'acme/api:1.4.0', packaging: 'helm', host: 'api.acme.dev' }
+    );
+    expect(Object.keys(artifacts.files).sort()).toEqual([
+      'helm/api/Chart.yaml',
+      'helm/api/templates/_helpers.tpl',
+      'helm/api/templates/configmap.yaml',
+      'helm/api/templates/deployment.yaml',
+      'helm/api/templates/hpa.yaml',
+      'helm/api/templates/ingress.yaml',
+      'helm/api/templates/pvc.yaml',
+      'helm/api/templates/service.yaml',
+      'helm/api/values-production.yaml',
+      'helm/api/values-staging.yaml',
+      'helm/api/values.yaml'
+    ]);
+    expect(artifacts.files['helm/api/Chart.yaml']).toContain('apiVersion: v2\nname: api\n');
+    expect(artifacts.files['helm/api/Chart.yaml']).toContain('appVersion: "1.4.0"\n');
+    expect(artifacts.files['helm/api/values.yaml']).toContain('    secrets:\n    - API_TOKEN\n');
+    expect(artifacts.files['helm/api/values-staging.yaml']).toContain('host: staging.api.acme.dev');
+  });
+
+  it('is deterministic', () => {
+    const input = { analysis: analysisFor([file('a.py', 'os.getenv("X")')]), dockerfile: DOCKERFILE };
+    const first = generateKubernetesArtifacts(input, { image: 'acme/api:1', packaging: 'helm' });
+    const second = generateKubernetesArtifacts(input, { image: 'acme/api:1', packaging: 'helm' });
+    expect(second.files).toEqual(first.files);
+  });
+});
+
+describe('toYaml', () => {
+  it('quotes strings YAML would read as another type', () => {
+    expect(toYaml({ a: '8080', b: 'true', c: 'no', d: '', e: 'plain', f: 'x: y', g: [], h: {}, i: 3 }))
+      .toBe('a: "8080"\nb: "true"\nc: "no"\nd: ""\ne: plain\nf: "x: y"\ng: []\nh: {}\ni: 3\n');
+  });
+
+  it('nests maps inside lists', () => {
+    expect(toYaml({ items: [{ name: 'a', ports: [80] }, 'b'] })).toBe('items:\n- name: a\n  ports:\n  - 80\n- b\n');
+  });
+});
+
+describe('parseKubernetesOptions', () => {
+  it('accepts defaults and rejects invalid values', () => {
+    expect(parseKubernetesOptions(true)).toEqual({});
+    expect(parseKubernetesOptions({ packaging: 'helm', environments: ['staging', 'staging'] }))
+      .toEqual({ packaging: 'helm', environments: ['staging'] });
+
+    const error = (() => {
+      try {
+        parseKubernetesOptions({ packaging: 'compose', namespace: 'Prod', host: 'not a host' });
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(KubernetesOptionsError);
+    expect((error as KubernetesOptionsError).errors).toHaveLength(3);
+  });
+});
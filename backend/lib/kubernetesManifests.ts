@@ -0,0 +1,809 @@
+import * as path from 'path';
+import type { GitHubFile, ProjectAnalysis } from './aiService';
+import { parseDockerfile } from './dockerfileParser';
+import { parseImageReference } from './dockerEngine';
+import type { ServiceLayout } from './serviceDetector';
+
+/**
+ * Kubernetes artifacts from the same ProjectAnalysis the Dockerfile comes
+ * from: one Deployment/Service per deployable service, probes on detected
+ * health endpoints, env wired to a ConfigMap or Secret by name and a volume
+ * for ML model caches. Output is deterministic, like the Dockerfile templates.
+ */
+
+export type KubernetesPackaging = 'manifests' | 'helm' | 'kustomize';
+
+export interface RuntimeRequirements {
+  envVars: string[]; // Read via process.env / os.environ / os.Getenv
+  healthEndpoints: string[]; // Route paths such as /health or /readyz
+  modelPaths: string[]; // Directories the code loads model weights from that are not in the repository
+  modelCache: boolean; // Downloads models from a hub at runtime (transformers, torch hub...)
+}
+
+export interface KubernetesOptions {
+  image: string;
+  name?: string; // Defaults to the image repository name
+  packaging?: KubernetesPackaging; // Defaults to 'manifests'
+  environments?: string[]; // Helm values files / Kustomize overlays; defaults to staging and production
+  host?: string; // Ingress host; a placeholder under example.com otherwise
+  namespace?: string;
+}
+
+export interface KubernetesObject {
+  apiVersion: string;
+  kind: string;
+  metadata: { name: string; namespace?: string; labels?: Record<string, string>; annotations?: Record<string, string> };
+  [field: string]: unknown;
+}
+
+export interface KubernetesArtifacts {
+  packaging: KubernetesPackaging;
+  files: Record<string, string>; // Path relative to the repository root -> content
+  manifests: KubernetesObject[]; // The plain objects behind the files
+  notes: string[];
+}
+
+export class KubernetesOptionsError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid Kubernetes options: ${errors.join('; ')}`);
+    this.name = 'KubernetesOptionsError';
+  }
+}
+
+const SOURCE_FILE = /\.(c|m)?(j|t)sx?$|\.py$|\.go$|\.rb$/;
+const ENV_PATTERNS = [
+  /process\.env\.([A-Za-z_][A-Za-z0-9_]*)/g,
+  /process\.env\[\s*['"`]([A-Za-z_][A-Za-z0-9_]*)['"`]\s*\]/g,
+  /import\.meta\.env\.([A-Za-z_][A-Za-z0-9_]*)/g,
+  /os\.environ\[\s*['"]([A-Za-z_][A-Za-z0-9_]*)['"]\s*\]/g,
+  /os\.environ\.get\(\s*['"]([A-Za-z_][A-Za-z0-9_]*)['"]/g,
+  /os\.getenv\(\s*['"]([A-Za-z_][A-Za-z0-9_]*)['"]/g,
+  /os\.(?:Getenv|LookupEnv)\(\s*"([A-Za-z_][A-Za-z0-9_]*)"/g,
+  /ENV\[\s*['"]([A-Za-z_][A-Za-z0-9_]*)['"]\s*\]/g
+];
+// Set by the platform or the container runtime, never configured per app
+const RUNTIME_ENV = new Set(['PORT', 'HOST', 'HOSTNAME', 'HOME', 'PATH', 'PWD', 'USER', 'SHELL', 'TERM', 'CI', 'TZ', 'LANG']);
+const SECRET_LIKE = /(password|passwd|secret|token|api_?key|private_?key|credentials?|dsn|database_url|connection_string)$/i;
+const HEALTH_ROUTE = /['"`](\/(?:api\/)?(?:health|healthz|healthcheck|health-check|ready|readyz|readiness|live|livez|liveness|ping))\/?['"`]/gi;
+const MODEL_PATH = /['"`](?:\.\/)?((?:models?|checkpoints|weights)(?:\/[\w.-]+)*)\/?['"`]/g;
+const MODEL_CACHE_DEPS = ['transformers', 'sentence-transformers', 'diffusers', 'huggingface-hub', 'huggingface_hub', 'torch', 'tensorflow', 'keras', 'timm', 'spacy', '@xenova/transformers', '@huggingface/transformers'];
+const MAX_ENV_VARS = 100;
+const NAME = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+const HOST = /^(\*\.)?[a-z0-9]([-a-z0-9]*[a-z0-9])?(\.[a-z0-9]([-a-z0-9]*[a-z0-9])?)+$/;
+const PACKAGING: KubernetesPackaging[] = ['manifests', 'helm', 'kustomize'];
+const MODEL_CACHE_DIR = '/models';
+
+function contentOf(file: GitHubFile): string | undefined {
+  if (!file.content) return undefined;
+  return typeof file.content === 'string' ? file.content : JSON.stringify(file.content);
+}
+
+function isSourceFile(filePath: string): boolean {
+  return SOURCE_FILE.test(filePath)
+    && !filePath.split('/').some(part => part === 'node_modules' || part === 'vendor' || part === 'dist' || part === 'build')
+    && !/(^|\/)(tests?|__tests__|spec)\//.test(filePath)
+    && !/\.(spec|test)\.[^/]+$/.test(filePath);
+}
+
+/**
+ * Scan source files for what the app needs at runtime. Pure and cheap; runs
+ * as part of analyzeFiles.
+ */
+export function detectRuntimeRequirements(files: GitHubFile[], dependencies: string[] = []): RuntimeRequirements {
+  const envVars = new Set<string>();
+  const healthEndpoints = new Set<string>();
+  const referencedModelDirs = new Set<string>();
+  const tracked = new Set(files.filter(f => f.type === 'file').map(f => f.path));
+
+  for (const file of files) {
+    const content = contentOf(file);
+    if (!content || !isSourceFile(file.path)) continue;
+
+    for (const pattern of ENV_PATTERNS) {
+      for (const match of content.matchAll(pattern)) {
+        if (!RUNTIME_ENV.has(match[1]) && !match[1].startsWith('npm_')) envVars.add(match[1]);
+      }
+    }
+    for (const match of content.matchAll(HEALTH_ROUTE)) healthEndpoints.add(match[1].toLowerCase());
+    for (const match of content.matchAll(MODEL_PATH)) {
+      // The directory holding the weights, not the file itself
+      const dir = path.posix.extname(match[1]) ? path.posix.dirname(match[1]) : match[1];
+      referencedModelDirs.add(dir);
+    }
+  }
+
+  // Weights checked into the repository are baked into the image; only missing ones need a volume
+  const modelPaths = [...referencedModelDirs]
+    .filter(dir => ![...tracked].some(p => p.startsWith(`${dir}/`)))
+    .filter((dir, _, all) => !all.some(other => other !== dir && dir.startsWith(`${other}/`)));
+
+  const deps = new Set(dependencies.map(d => d.toLowerCase().split(/[<>=!~\[;\s]/)[0]));
+  return {
+    envVars: [...envVars].sort().slice(0, MAX_ENV_VARS),
+    healthEndpoints: [...healthEndpoints].sort(),
+    modelPaths: modelPaths.sort(),
+    modelCache: MODEL_CACHE_DEPS.some(dep => deps.has(dep))
+  };
+}
+
+/**
+ * Validate user-supplied generation options (image comes from the build).
+ * `true` asks for the defaults.
+ */
+export function parseKubernetesOptions(input: unknown): Omit<KubernetesOptions, 'image'> {
+  if (input === undefined || input === null || input === true) return {};
+  if (typeof input !== 'object' || Array.isArray(input)) throw new KubernetesOptionsError(['kubernetes must be an object']);
+  const value = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const options: Omit<KubernetesOptions, 'image'> = {};
+
+  if (value.packaging !== undefined) {
+    if (!PACKAGING.includes(value.packaging as KubernetesPackaging)) errors.push(`packaging must be one of ${PACKAGING.join(', ')}`);
+    else options.packaging = value.packaging as KubernetesPackaging;
+  }
+  for (const key of ['name', 'namespace'] as const) {
+    if (value[key] === undefined) continue;
+    if (typeof value[key] !== 'string' || !NAME.test(value[key] as string) || (value[key] as string).length > 53) {
+      errors.push(`${key} must be a DNS label (lower-case letters, digits and '-', at most 53 characters)`);
+    } else {
+      options[key] = value[key] as string;
+    }
+  }
+  if (value.host !== undefined) {
+    if (typeof value.host !== 'string' || !HOST.test(value.host)) errors.push('host must be a DNS name');
+    else options.host = value.host;
+  }
+  if (value.environments !== undefined) {
+    const list = value.environments;
+    if (!Array.isArray(list) || list.length === 0 || list.length > 10 || list.some(e => typeof e !== 'string' || !NAME.test(e))) {
+      errors.push('environments must be a list of up to 10 DNS labels');
+    } else {
+      options.environments = [...new Set(list as string[])];
+    }
+  }
+
+  if (errors.length > 0) throw new KubernetesOptionsError(errors);
+  return options;
+}
+
+interface Workload {
+  name: string;
+  image: string;
+  port: number;
+  workdir: string;
+  config: Record<string, string>; // Known values; other non-secret vars are referenced as optional keys
+  configKeys: string[];
+  secretKeys: string[];
+  liveness?: string;
+  readiness?: string;
+  modelMounts: Array<{ volume: string; mountPath: string }>;
+  modelCache: boolean;
+  ml: boolean;
+}
+
+function dnsName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 53) || 'app';
+}
+
+function envName(service: string): string {
+  return service.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+function pickEndpoint(endpoints: string[], preferred: string[]): string | undefined {
+  for (const name of preferred) {
+    const match = endpoints.find(e => e.replace(/^\/api/, '') === `/${name}`);
+    if (match) return match;
+  }
+  return undefined;
+}
+
+function dockerfileFacts(dockerfile: string | undefined): { port?: number; workdir: string } {
+  if (!dockerfile) return { workdir: '/app' };
+  const parsed = parseDockerfile(dockerfile);
+  const last = parsed.stages[parsed.stages.length - 1];
+  const instructions = last ? last.instructions : parsed.instructions;
+  const expose = instructions.filter(i => i.keyword === 'EXPOSE').flatMap(i => i.args)[0];
+  const workdir = instructions.filter(i => i.keyword === 'WORKDIR').map(i => i.args[0]).pop();
+  const port = expose ? parseInt(expose, 10) : undefined;
+  return { port: port && Number.isFinite(port) ? port : undefined, workdir: workdir && workdir.startsWith('/') ? workdir : '/app' };
+}
+
+function toWorkload(
+  name: string,
+  image: string,
+  dockerfile: string | undefined,
+  fallbackPort: number,
+  runtime: RuntimeRequirements,
+  links: Record<string, string>
+): Workload {
+  const facts = dockerfileFacts(dockerfile);
+  const env = runtime.envVars.filter(v => !(v in links));
+  const liveness = pickEndpoint(runtime.healthEndpoints, ['livez', 'healthz', 'liveness', 'live', 'health', 'healthcheck', 'health-check', 'ping']);
+  const readiness = pickEndpoint(runtime.healthEndpoints, ['readyz', 'ready', 'readiness', 'health', 'healthz', 'healthcheck', 'health-check', 'ping']) || liveness;
+  const modelMounts = runtime.modelPaths.map((dir, i) => ({
+    volume: runtime.modelPaths.length > 1 ? `models-${i + 1}` : 'models',
+    mountPath: path.posix.join(facts.workdir, dir)
+  }));
+
+  return {
+    name,
+    image,
+    port: facts.port || fallbackPort,
+    workdir: facts.workdir,
+    config: { ...links },
+    configKeys: env.filter(v => !SECRET_LIKE.test(v)),
+    secretKeys: env.filter(v => SECRET_LIKE.test(v)),
+    liveness,
+    readiness,
+    modelMounts,
+    modelCache: runtime.modelCache,
+    ml: runtime.modelCache || modelMounts.length > 0
+  };
+}
+
+function workloadsFor(analysis: ProjectAnalysis, dockerfile: string | undefined, services: ServiceLayout | undefined, options: KubernetesOptions, appName: string): Workload[] {
+  const runtime = analysis.runtime || { envVars: [], healthEndpoints: [], modelPaths: [], modelCache: false };
+  if (!services) return [toWorkload(appName, options.image, dockerfile, 8080, runtime, {})];
+
+  const { repository, tag } = parseImageReference(options.image);
+  return services.services.map(service => {
+    const links: Record<string, string> = {};
+    for (const dep of service.dependsOn) {
+      const target = services.services.find(s => s.name === dep);
+      if (target) links[`${envName(dep)}_URL`] = `http://${appName}-${dnsName(dep)}`;
+    }
+    return toWorkload(
+      `${appName}-${dnsName(service.name)}`,
+      `${repository}-${service.name}:${tag}`,
+      service.dockerfileContent,
+      service.port,
+      // Member runtime hints are not kept per service; the root scan covers the repository
+      runtime,
+      links
+    );
+  });
+}
+
+function labelsFor(appName: string, component?: string): Record<string, string> {
+  return {
+    'app.kubernetes.io/name': appName,
+    ...(component ? { 'app.kubernetes.io/component': component } : {}),
+    'app.kubernetes.io/managed-by': 'autodeploy'
+  };
+}
+
+function selectorFor(appName: string, component: string): Record<string, string> {
+  return { 'app.kubernetes.io/name': appName, 'app.kubernetes.io/component': component };
+}
+
+function resourcesFor(workload: Workload) {
+  return workload.ml
+    ? { requests: { cpu: '500m', memory: '1Gi' }, limits: { memory: '4Gi' } }
+    : { requests: { cpu: '100m', memory: '128Mi' }, limits: { memory: '512Mi' } };
+}
+
+function probesFor(workload: Workload): Record<string, unknown> {
+  const check = (endpoint: string | undefined) => endpoint
+    ? { httpGet: { path: endpoint, port: 'http' } }
+    : { tcpSocket: { port: 'http' } };
+  const probes: Record<string, unknown> = {
+    readinessProbe: { ...check(workload.readiness), periodSeconds: 10, timeoutSeconds: 3, failureThreshold: 3 },
+    livenessProbe: { ...check(workload.liveness), periodSeconds: 20, timeoutSeconds: 3, failureThreshold: 3 }
+  };
+  // Loading a model can take minutes; keep liveness from killing the pod meanwhile
+  if (workload.ml) probes.startupProbe = { ...check(workload.liveness || workload.readiness), periodSeconds: 10, failureThreshold: 30 };
+  return probes;
+}
+
+function envFor(workload: Workload): unknown[] {
+  const configName = `${workload.name}-config`;
+  const secretName = `${workload.name}-secrets`;
+  const configKeys = [...new Set([...Object.keys(workload.config), ...workload.configKeys])].sort();
+  return [
+    { name: 'PORT', value: String(workload.port) },
+    ...configKeys.map(key => ({ name: key, valueFrom: { configMapKeyRef: { name: configName, key, optional: true } } })),
+    ...workload.secretKeys.map(key => ({ name: key, valueFrom: { secretKeyRef: { name: secretName, key, optional: true } } })),
+    ...(workload.modelCache ? [
+      { name: 'HF_HOME', value: `${MODEL_CACHE_DIR}/huggingface` },
+      { name: 'TORCH_HOME', value: `${MODEL_CACHE_DIR}/torch` }
+    ] : [])
+  ];
+}
+
+function volumesFor(workload: Workload) {
+  const mounts = workload.modelMounts.map(m => ({ name: m.volume, mountPath: m.mountPath }));
+  if (workload.modelCache) mounts.push({ name: 'model-cache', mountPath: MODEL_CACHE_DIR });
+  return {
+    mounts,
+    volumes: mounts.map(m => ({ name: m.name, persistentVolumeClaim: { claimName: `${workload.name}-${m.name}` } }))
+  };
+}
+
+/** Single-writer model volumes pin the workload to one replica */
+function scalable(workload: Workload): boolean {
+  return workload.modelMounts.length === 0 && !workload.modelCache;
+}
+
+function workloadObjects(workload: Workload, appName: string, namespace?: string): KubernetesObject[] {
+  const meta = (name: string): KubernetesObject['metadata'] => ({
+    name,
+    ...(namespace ? { namespace } : {}),
+    labels: labelsFor(appName, workload.name)
+  });
+  const selector = selectorFor(appName, workload.name);
+  const { mounts, volumes } = volumesFor(workload);
+  const objects: KubernetesObject[] = [];
+
+  objects.push({
+    apiVersion: 'v1',
+    kind: 'ConfigMap',
+    metadata: meta(`${workload.name}-config`),
+    data: Object.fromEntries(Object.entries(workload.config).sort(([a], [b]) => a.localeCompare(b)))
+  });
+
+  for (const volume of volumes) {
+    objects.push({
+      apiVersion: 'v1',
+      kind: 'PersistentVolumeClaim',
+      metadata: meta(volume.persistentVolumeClaim.claimName),
+      spec: { accessModes: ['ReadWriteOnce'], resources: { requests: { storage: '10Gi' } } }
+    });
+  }
+
+  objects.push({
+    apiVersion: 'apps/v1',
+    kind: 'Deployment',
+    metadata: meta(workload.name),
+    spec: {
+      ...(scalable(workload) ? {} : { replicas: 1, strategy: { type: 'Recreate' } }),
+      selector: { matchLabels: selector },
+      template: {
+        metadata: { labels: { ...labelsFor(appName, workload.name), ...selector } },
+        spec: {
+          containers: [{
+            name: workload.name,
+            image: workload.image,
+            imagePullPolicy: 'IfNotPresent',
+            ports: [{ name: 'http', containerPort: workload.port, protocol: 'TCP' }],
+            env: envFor(workload),
+            ...probesFor(workload),
+            resources: resourcesFor(workload),
+            securityContext: { allowPrivilegeEscalation: false },
+            ...(mounts.length > 0 ? { volumeMounts: mounts } : {})
+          }],
+          ...(volumes.length > 0 ? { volumes } : {})
+        }
+      }
+    }
+  });
+
+  objects.push({
+    apiVersion: 'v1',
+    kind: 'Service',
+    metadata: meta(workload.name),
+    spec: {
+      type: 'ClusterIP',
+      selector,
+      ports: [{ name: 'http', port: 80, targetPort: 'http', protocol: 'TCP' }]
+    }
+  });
+
+  if (scalable(workload)) {
+    objects.push({
+      apiVersion: 'autoscaling/v2',
+      kind: 'HorizontalPodAutoscaler',
+      metadata: meta(workload.name),
+      spec: {
+        scaleTargetRef: { apiVersion: 'apps/v1', kind: 'Deployment', name: workload.name },
+        minReplicas: 2,
+        maxReplicas: 10,
+        metrics: [{ type: 'Resource', resource: { name: 'cpu', target: { type: 'Utilization', averageUtilization: 70 } } }]
+      }
+    });
+  }
+  return objects;
+}
+
+function ingressFor(workload: Workload, appName: string, host: string, namespace?: string): KubernetesObject {
+  return {
+    apiVersion: 'networking.k8s.io/v1',
+    kind: 'Ingress',
+    metadata: { name: appName, ...(namespace ? { namespace } : {}), labels: labelsFor(appName) },
+    spec: {
+      rules: [{
+        host,
+        http: { paths: [{ path: '/', pathType: 'Prefix', backend: { service: { name: workload.name, port: { name: 'http' } } } }] }
+      }]
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// YAML
+
+const PLAIN_UNSAFE = /^$|^[\s\-?:,\[\]{}#&*!|>'"%@`~]|[:#]\s|\s#|:$|\s$|^(true|false|yes|no|on|off|y|n|null|~)$|^[-+.]?\d|\n/i;
+
+function scalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  const text = String(value);
+  return PLAIN_UNSAFE.test(text) ? JSON.stringify(text) : text;
+}
+
+function isEmptyCollection(value: unknown): boolean {
+  return Array.isArray(value) ? value.length === 0 : typeof value === 'object' && value !== null && Object.keys(value).length === 0;
+}
+
+/**
+ * Block-style YAML for plain JSON-like values. Strings that YAML would read
+ * as something else are double-quoted (JSON quoting is valid YAML).
+ */
+export function toYaml(value: unknown, indent = 0): string {
+  const pad = ' '.repeat(indent);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return `${pad}[]\n`;
+    return value.map(item => {
+      if (typeof item === 'object' && item !== null && !isEmptyCollection(item)) {
+        const nested = toYaml(item, indent + 2);
+        return `${pad}- ${nested.slice(indent + 2)}`;
+      }
+      return `${pad}- ${isEmptyCollection(item) ? (Array.isArray(item) ? '[]' : '{}') : scalar(item)}\n`;
+    }).join('');
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    if (entries.length === 0) return `${pad}{}\n`;
+    return entries.map(([key, v]) => {
+      if (typeof v === 'object' && v !== null && !isEmptyCollection(v)) {
+        return `${pad}${scalar(key)}:\n${toYaml(v, Array.isArray(v) ? indent : indent + 2)}`;
+      }
+      return `${pad}${scalar(key)}: ${isEmptyCollection(v) ? (Array.isArray(v) ? '[]' : '{}') : scalar(v)}\n`;
+    }).join('');
+  }
+  return `${pad}${scalar(value)}\n`;
+}
+
+function documents(objects: unknown[], header?: string): string {
+  return `${header ? `# ${header}\n` : ''}${objects.map(o => toYaml(o)).join('---\n')}`;
+}
+
+// ---------------------------------------------------------------------------
+// Packaging
+
+function kustomizeFiles(objects: Map<string, KubernetesObject[]>, appName: string, environments: string[], workloads: Workload[]): Record<string, string> {
+  const files: Record<string, string> = {};
+  for (const [file, docs] of objects) files[`k8s/base/${file}`] = documents(docs, 'Generated by AutoDeploy');
+  files['k8s/base/kustomization.yaml'] = toYaml({
+    apiVersion: 'kustomize.config.k8s.io/v1beta1',
+    kind: 'Kustomization',
+    resources: [...objects.keys()]
+  });
+
+  const images = workloads.map(w => {
+    const { repository, tag } = parseImageReference(w.image);
+    return { name: repository, newTag: tag };
+  });
+  const hpaTargets = workloads.filter(scalable).map(w => w.name);
+
+  for (const env of environments) {
+    const production = env === 'production' || env === 'prod';
+    files[`k8s/overlays/${env}/kustomization.yaml`] = toYaml({
+      apiVersion: 'kustomize.config.k8s.io/v1beta1',
+      kind: 'Kustomization',
+      namespace: `${appName}-${env}`,
+      resources: ['../../base'],
+      labels: [{ pairs: { 'app.kubernetes.io/environment': env }, includeSelectors: false }],
+      images,
+      // Outside production one replica is enough
+      ...(!production && hpaTargets.length > 0 ? {
+        patches: hpaTargets.map(name => ({
+          target: { kind: 'HorizontalPodAutoscaler', name },
+          patch: '- op: replace\n  path: /spec/minReplicas\n  value: 1\n- op: replace\n  path: /spec/maxReplicas\n  value: 3\n'
+        }))
+      } : {})
+    });
+  }
+  return files;
+}
+
+const HELM_HELPERS = `{{- define "app.labels" -}}
+app.kubernetes.io/name: {{ .Chart.Name }}
+app.kubernetes.io/instance: {{ .Release.Name }}
+app.kubernetes.io/managed-by: {{ .Release.Service }}
+helm.sh/chart: {{ printf "%s-%s" .Chart.Name .Chart.Version }}
+{{- end }}
+
+{{- define "app.selectorLabels" -}}
+app.kubernetes.io/name: {{ .Chart.Name }}
+app.kubernetes.io/instance: {{ .Release.Name }}
+{{- end }}
+`;
+
+const HELM_TEMPLATES: Record<string, string> = {
+  'configmap.yaml': `{{- range $name, $w := .Values.workloads }}
+---
+apiVersion: v1
+kind: ConfigMap
+metadata:
+  name: {{ $name }}-config
+  labels:
+    {{- include "app.labels" $ | nindent 4 }}
+    app.kubernetes.io/component: {{ $name }}
+data:
+  {{- range $key, $value := $w.config }}
+  {{- if $value }}
+  {{ $key }}: {{ $value | quote }}
+  {{- end }}
+  {{- end }}
+{{- end }}
+`,
+  'deployment.yaml': `{{- range $name, $w := .Values.workloads }}
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: {{ $name }}
+  labels:
+    {{- include "app.labels" $ | nindent 4 }}
+    app.kubernetes.io/component: {{ $name }}
+spec:
+  {{- if not $w.autoscaling.enabled }}
+  replicas: {{ $w.replicas }}
+  {{- end }}
+  {{- with $w.strategy }}
+  strategy:
+    {{- toYaml . | nindent 4 }}
+  {{- end }}
+  selector:
+    matchLabels:
+      {{- include "app.selectorLabels" $ | nindent 6 }}
+      app.kubernetes.io/component: {{ $name }}
+  template:
+    metadata:
+      labels:
+        {{- include "app.selectorLabels" $ | nindent 8 }}
+        app.kubernetes.io/component: {{ $name }}
+    spec:
+      containers:
+        - name: {{ $name }}
+          image: "{{ $w.image.repository }}:{{ $w.image.tag }}"
+          imagePullPolicy: {{ $.Values.imagePullPolicy }}
+          ports:
+            - name: http
+              containerPort: {{ $w.port }}
+              protocol: TCP
+          env:
+            - name: PORT
+              value: {{ $w.port | quote }}
+            {{- range $key, $value := $w.config }}
+            - name: {{ $key }}
+              valueFrom:
+                configMapKeyRef:
+                  name: {{ $name }}-config
+                  key: {{ $key }}
+                  optional: true
+            {{- end }}
+            {{- range $w.secrets }}
+            - name: {{ . }}
+              valueFrom:
+                secretKeyRef:
+                  name: {{ $name }}-secrets
+                  key: {{ . }}
+                  optional: true
+            {{- end }}
+            {{- with $w.extraEnv }}
+            {{- toYaml . | nindent 12 }}
+            {{- end }}
+          {{- toYaml $w.probes | nindent 10 }}
+          resources:
+            {{- toYaml $w.resources | nindent 12 }}
+          securityContext:
+            allowPrivilegeEscalation: false
+          {{- with $w.persistence }}
+          volumeMounts:
+            {{- range . }}
+            - name: {{ .name }}
+              mountPath: {{ .mountPath }}
+            {{- end }}
+          {{- end }}
+      {{- with $w.persistence }}
+      volumes:
+        {{- range . }}
+        - name: {{ .name }}
+          persistentVolumeClaim:
+            claimName: {{ $name }}-{{ .name }}
+        {{- end }}
+      {{- end }}
+{{- end }}
+`,
+  'service.yaml': `{{- range $name, $w := .Values.workloads }}
+---
+apiVersion: v1
+kind: Service
+metadata:
+  name: {{ $name }}
+  labels:
+    {{- include "app.labels" $ | nindent 4 }}
+    app.kubernetes.io/component: {{ $name }}
+spec:
+  type: ClusterIP
+  selector:
+    {{- include "app.selectorLabels" $ | nindent 4 }}
+    app.kubernetes.io/component: {{ $name }}
+  ports:
+    - name: http
+      port: 80
+      targetPort: http
+      protocol: TCP
+{{- end }}
+`,
+  'hpa.yaml': `{{- range $name, $w := .Values.workloads }}
+{{- if $w.autoscaling.enabled }}
+---
+apiVersion: autoscaling/v2
+kind: HorizontalPodAutoscaler
+metadata:
+  name: {{ $name }}
+  labels:
+    {{- include "app.labels" $ | nindent 4 }}
+    app.kubernetes.io/component: {{ $name }}
+spec:
+  scaleTargetRef:
+    apiVersion: apps/v1
+    kind: Deployment
+    name: {{ $name }}
+  minReplicas: {{ $w.autoscaling.minReplicas }}
+  maxReplicas: {{ $w.autoscaling.maxReplicas }}
+  metrics:
+    - type: Resource
+      resource:
+        name: cpu
+        target:
+          type: Utilization
+          averageUtilization: {{ $w.autoscaling.targetCPUUtilizationPercentage }}
+{{- end }}
+{{- end }}
+`,
+  'pvc.yaml': `{{- range $name, $w := .Values.workloads }}
+{{- range $w.persistence }}
+---
+apiVersion: v1
+kind: PersistentVolumeClaim
+metadata:
+  name: {{ $name }}-{{ .name }}
+  labels:
+    {{- include "app.labels" $ | nindent 4 }}
+    app.kubernetes.io/component: {{ $name }}
+spec:
+  accessModes:
+    - ReadWriteOnce
+  resources:
+    requests:
+      storage: {{ .size }}
+{{- end }}
+{{- end }}
+`,
+  'ingress.yaml': `{{- if .Values.ingress.enabled }}
+apiVersion: networking.k8s.io/v1
+kind: Ingress
+metadata:
+  name: {{ .Release.Name }}
+  labels:
+    {{- include "app.labels" . | nindent 4 }}
+  {{- with .Values.ingress.annotations }}
+  annotations:
+    {{- toYaml . | nindent 4 }}
+  {{- end }}
+spec:
+  {{- with .Values.ingress.className }}
+  ingressClassName: {{ . }}
+  {{- end }}
+  rules:
+    - host: {{ .Values.ingress.host | quote }}
+      http:
+        paths:
+          - path: /
+            pathType: Prefix
+            backend:
+              service:
+                name: {{ .Values.ingress.service }}
+                port:
+                  name: http
+{{- end }}
+`
+};
+
+function helmValues(workloads: Workload[], host: string) {
+  return {
+    imagePullPolicy: 'IfNotPresent',
+    workloads: Object.fromEntries(workloads.map(w => {
+      const { repository, tag } = parseImageReference(w.image);
+      const { mounts } = volumesFor(w);
+      const probes = probesFor(w);
+      return [w.name, {
+        image: { repository, tag },
+        port: w.port,
+        replicas: scalable(w) ? 2 : 1,
+        ...(scalable(w) ? {} : { strategy: { type: 'Recreate' } }),
+        autoscaling: { enabled: scalable(w), minReplicas: 2, maxReplicas: 10, targetCPUUtilizationPercentage: 70 },
+        config: Object.fromEntries([...new Set([...Object.keys(w.config), ...w.configKeys])].sort().map(k => [k, w.config[k] ?? ''])),
+        secrets: w.secretKeys,
+        extraEnv: envFor(w).filter(e => (e as { name: string }).name === 'HF_HOME' || (e as { name: string }).name === 'TORCH_HOME'),
+        probes,
+        resources: resourcesFor(w),
+        persistence: mounts.map(m => ({ name: m.name, mountPath: m.mountPath, size: '10Gi' }))
+      }];
+    })),
+    ingress: { enabled: true, className: '', annotations: {}, host, service: workloads[0].name }
+  };
+}
+
+function helmFiles(appName: string, workloads: Workload[], host: string, environments: string[]): Record<string, string> {
+  const root = `helm/${appName}`;
+  const { tag } = parseImageReference(workloads[0].image);
+  const files: Record<string, string> = {
+    [`${root}/Chart.yaml`]: toYaml({
+      apiVersion: 'v2',
+      name: appName,
+      description: `Helm chart for ${appName}, generated by AutoDeploy`,
+      type: 'application',
+      version: '0.1.0',
+      appVersion: tag
+    }),
+    [`${root}/values.yaml`]: `# Generated by AutoDeploy. Secrets are read from <workload>-secrets; create them separately.\n${toYaml(helmValues(workloads, host))}`,
+    [`${root}/templates/_helpers.tpl`]: HELM_HELPERS
+  };
+  for (const [file, template] of Object.entries(HELM_TEMPLATES)) files[`${root}/templates/${file}`] = template;
+
+  for (const env of environments) {
+    const production = env === 'production' || env === 'prod';
+    const overrides = Object.fromEntries(workloads.filter(scalable).map(w => [w.name, {
+      autoscaling: production ? { minReplicas: 2, maxReplicas: 10 } : { minReplicas: 1, maxReplicas: 3 }
+    }]));
+    files[`${root}/values-${env}.yaml`] = toYaml({
+      ...(Object.keys(overrides).length > 0 ? { workloads: overrides } : {}),
+      ingress: { host: production ? host : `${env}.${host.replace(/^\*\./, '')}` }
+    });
+  }
+  return files;
+}
+
+/**
+ * Generate Kubernetes artifacts for the analysed project. The same input
+ * always yields byte-identical files.
+ */
+export function generateKubernetesArtifacts(
+  input: { analysis: ProjectAnalysis; dockerfile?: string; services?: ServiceLayout },
+  options: KubernetesOptions
+): KubernetesArtifacts {
+  const packaging = options.packaging || 'manifests';
+  const appName = dnsName(options.name || parseImageReference(options.image).repository.split('/').pop() || 'app');
+  const host = options.host || `${appName}.example.com`;
+  const environments = options.environments?.length ? options.environments : ['staging', 'production'];
+  const workloads = workloadsFor(input.analysis, input.dockerfile, input.services, options, appName);
+  const namespace = packaging === 'manifests' ? options.namespace : undefined;
+
+  const perFile = new Map<string, KubernetesObject[]>();
+  for (const workload of workloads) perFile.set(`${workload.name}.yaml`, workloadObjects(workload, appName, namespace));
+  perFile.set('ingress.yaml', [ingressFor(workloads[0], appName, host, namespace)]);
+  const manifests = [...perFile.values()].flat();
+
+  const notes: string[] = [];
+  for (const w of workloads) {
+    if (!w.liveness && !w.readiness) notes.push(`${w.name}: no health endpoint found, probes check that port ${w.port} accepts connections`);
+    if (w.secretKeys.length > 0) notes.push(`${w.name}: create Secret ${w.name}-secrets with ${w.secretKeys.join(', ')}`);
+    if (!scalable(w)) notes.push(`${w.name}: model volumes are ReadWriteOnce, so the Deployment runs one replica without an autoscaler`);
+  }
+  if (!options.host) notes.push(`Ingress host is a placeholder (${host}); set kubernetes.host`);
+
+  let files: Record<string, string>;
+  if (packaging === 'helm') {
+    files = helmFiles(appName, workloads, host, environments);
+  } else if (packaging === 'kustomize') {
+    files = kustomizeFiles(perFile, appName, environments, workloads);
+  } else {
+    files = Object.fromEntries([...perFile].map(([file, docs]) => [`k8s/${file}`, documents(docs, 'Generated by AutoDeploy')]));
+  }
+
+  return { packaging, files, manifests, notes };
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DeploymentLogStore, Logger, LogWriter, routeConsole, setLogStep, withLogContext } from './logger';
+import { secretRedactor } from './credentials';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Logger', () => {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'logger-spec-'));
+  afterAll(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+  const writer = (name: string, level: 'debug' | 'info' | 'warn' = 'info') => {
+    const lines: string[] = [];
+    const logWriter = new LogWriter({ level, format: 'json', dir: path.join(tmp, name), retentionMs: DAY }, line => lines.push(line));
+    return { lines, logWriter };
+  };
+
+  it('writes JSON lines tagged with the deployment and step of the running code', async () => {
+    const { lines, logWriter } = writer('context');
+    const pipeline = new Logger('autoDeploy', 'pipeline', logWriter);
+    const build = new Logger('dockerBuild', 'build', logWriter);
+
+    pipeline.info('server starting');
+    await Promise.all(['dep-a', 'dep-b'].map(deploymentId => withLogContext({ deploymentId }, async () => {
+      setLogStep('dockerBuild');
+      await new Promise(resolve => setTimeout(resolve, 5));
+      build.info(`Step 1/3 : FROM node:20 for ${deploymentId}`, { image: `${deploymentId}:latest` });
+    })));
+    pipeline.debug('below the configured level');
+
+    const records = lines.map(line => JSON.parse(line));
+    expect(records).toHaveLength(3);
+    expect(records[0]).toMatchObject({ level: 'info', module: 'autoDeploy', stream: 'pipeline', message: 'server starting' });
+    expect(records[0].deploymentId).toBeUndefined();
+    expect(await logWriter.store.query('dep-a')).toEqual([
+      expect.objectContaining({ deploymentId: 'dep-a', step: 'dockerBuild', stream: 'build', message: 'Step 1/3 : FROM node:20 for dep-a', fields: { image: 'dep-a:latest' } })
+    ]);
+    expect(await logWriter.store.query('dep-b')).toHaveLength(1);
+  });
+
+  it('redacts registered secrets in messages and fields', async () => {
+    const { lines, logWriter } = writer('redaction');
+    secretRedactor.register('ghp_loggerSpecSecret0123456789');
+    new Logger('repoFetcher', 'pipeline', logWriter)
+      .child({ deploymentId: 'dep-secret' })
+      .warn('clone with ghp_loggerSpecSecret0123456789 failed', { url: 'https://ghp_loggerSpecSecret0123456789@github.com/acme/api' });
+
+    expect(lines[0]).not.toContain('ghp_loggerSpecSecret0123456789');
+    expect(JSON.stringify(await logWriter.store.query('dep-secret'))).not.toContain('ghp_loggerSpecSecret0123456789');
+  });
+
+  it('turns console output into records of the running deployment', async () => {
+    const { lines, logWriter } = writer('console');
+    const target = { log: () => {}, info: () => {}, debug: () => {}, warn: () => {}, error: () => {} };
+    const restore = routeConsole(target, new Logger('console', 'pipeline', logWriter));
+
+    target.log('🚀 server on port %d', 3001);
+    await withLogContext({ deploymentId: 'dep-console', step: 'analysis' }, async () => {
+      target.warn('⚠️ no lockfile in', { dir: 'app' });
+    });
+    target.debug('below the configured level');
+    restore();
+    target.error('not routed');
+
+    const records = lines.map(line => JSON.parse(line));
+    expect(records).toEqual([
+      expect.objectContaining({ level: 'info', module: 'console', message: '🚀 server on port 3001' }),
+      expect.objectContaining({ level: 'warn', deploymentId: 'dep-console', step: 'analysis', message: "⚠️ no lockfile in { dir: 'app' }" })
+    ]);
+    expect(await logWriter.store.query('dep-console')).toHaveLength(1);
+  });
+});
+
+describe('DeploymentLogStore', () => {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'log-store-spec-'));
+  afterAll(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+  const record = (time: string, fields: Partial<{ level: 'debug' | 'info' | 'warn' | 'error'; step: string; stream: 'pipeline' | 'build' }>) => ({
+    time,
+    level: 'info' as const,
+    module: 'autoDeploy',
+    stream: 'pipeline' as const,
+    message: time,
+    deploymentId: 'dep-1',
+    ...fields
+  });
+
+  it('filters by step, minimum level, time and stream', async () => {
+    const store = new DeploymentLogStore(path.join(tmp, 'query'), DAY);
+    store.append(record('2025-10-01T00:00:01.000Z', { step: 'analysis' }));
+    store.append(record('2025-10-01T00:00:02.000Z', { step: 'dockerBuild', stream: 'build' }));
+    store.append(record('2025-10-01T00:00:03.000Z', { step: 'dockerBuild', level: 'warn' }));
+    store.append(record('2025-10-01T00:00:04.000Z', { step: 'dockerPush', level: 'error' }));
+    store.append({ ...record('2025-10-01T00:00:05.000Z', {}), deploymentId: '../escape' });
+
+    const times = async (query: Parameters<DeploymentLogStore['query']>[1]) => (await store.query('dep-1', query)).map(r => r.time.slice(17, 19));
+    expect(await times({})).toEqual(['01', '02', '03', '04']);
+    expect(await times({ step: 'dockerBuild' })).toEqual(['02', '03']);
+    expect(await times({ stream: 'build' })).toEqual(['02']);
+    expect(await times({ level: 'warn' })).toEqual(['03', '04']);
+    expect(await times({ since: new Date('2025-10-01T00:00:02.000Z') })).toEqual(['03', '04']);
+    expect(await times({ limit: 1 })).toEqual(['04']);
+    expect(await store.query('../escape')).toEqual([]);
+    expect(fs.readdirSync(path.join(tmp, 'query'))).toEqual(['dep-1.jsonl']);
+  });
+
+  it('removes log files that were not written to within the retention window', async () => {
+    let now = Date.now();
+    const store = new DeploymentLogStore(path.join(tmp, 'sweep'), DAY, () => now);
+    store.append({ ...record('2025-10-01T00:00:01.000Z', {}), deploymentId: 'old' });
+    store.append({ ...record('2025-10-01T00:00:01.000Z', {}), deploymentId: 'recent' });
+    await Promise.all([store.flush('old'), store.flush('recent')]);
+    const old = new Date(now - 2 * DAY);
+    fs.utimesSync(path.join(tmp, 'sweep', 'old.jsonl'), old, old);
+
+    expect(store.sweep()).toEqual(['old']);
+    expect(await store.query('recent')).toHaveLength(1);
+    now += 2 * DAY;
+    expect(store.sweep()).toEqual(['recent']);
+  });
+
+  it('buffers writes and lets a query see every record appended before it, in order', async () => {
+    const store = new DeploymentLogStore(path.join(tmp, 'buffered'), DAY);
+    for (let i = 0; i < 100; i++) {
+      store.append({ ...record(new Date(Date.UTC(2025, 9, 1, 0, 0, i % 60, Math.floor(i / 60))).toISOString(), {}), message: `line ${i}` });
+    }
+    const records = await store.query('dep-1');
+    expect(records.map(r => r.message)).toEqual(Array.from({ length: 100 }, (_, i) => `line ${i}`));
+  });
+});
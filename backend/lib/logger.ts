@@ -0,0 +1,311 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatWithOptions } from 'util';
+import { secretRedactor } from './credentials';
+import type { JobLogLevel, LogRecord, LogStream } from '../../shared/types';
+
+/**
+ * Structured logging. Each record is one JSON line on stdout carrying its
+ * level and source module; inside `withLogContext` it also carries the
+ * deployment and step it belongs to, and is appended to that deployment's
+ * log file so it can be queried later. Docker build output goes to the
+ * `build` stream, apart from the `pipeline` messages around it.
+ */
+
+export interface LogContext {
+  deploymentId: string;
+  step?: string;
+}
+
+export interface LogQuery {
+  step?: string;
+  level?: JobLogLevel; // Minimum level
+  since?: Date; // Records after this time
+  stream?: LogStream;
+  limit?: number; // Most recent records only
+}
+
+export interface LoggerOptions {
+  level: JobLogLevel; // Records below this level are dropped
+  format: 'json' | 'pretty'; // pretty prints `time LEVEL module message` for local development
+  dir: string; // Per-deployment log files
+  retentionMs: number; // Age after which a deployment's log file is removed
+}
+
+export const LOG_LEVELS: JobLogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const ID = /^[A-Za-z0-9._-]{1,128}$/;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const IDLE_CLOSE_MS = 60 * 1000; // Log files not written to for this long are closed
+const DEFAULT_QUERY_LIMIT = 5000;
+
+const severity = (level: JobLogLevel) => LOG_LEVELS.indexOf(level);
+
+// Deployment and step of the code running now
+const context = new AsyncLocalStorage<LogContext>();
+
+/** Run `task` with every record it logs tagged with `value` */
+export function withLogContext<T>(value: LogContext, task: () => Promise<T>): Promise<T> {
+  return context.run({ ...value }, task);
+}
+
+/** Tag the rest of the current deployment's records with `step` */
+export function setLogStep(step: string | undefined): void {
+  const current = context.getStore();
+  if (current) current.step = step;
+}
+
+interface OpenLogFile {
+  stream: fs.WriteStream;
+  idle: NodeJS.Timeout;
+}
+
+/**
+ * Log records of each deployment, one JSON-lines file per deployment. Each
+ * file is written through a buffered stream that stays open while the
+ * deployment logs; queries wait for the records written so far.
+ */
+export class DeploymentLogStore {
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private dirReady = false;
+  private open = new Map<string, OpenLogFile>();
+
+  constructor(readonly dir: string, readonly retentionMs: number, private now: () => number = Date.now) {}
+
+  append(record: LogRecord): void {
+    if (!record.deploymentId || !ID.test(record.deploymentId)) return;
+    try {
+      this.writer(record.deploymentId).write(`${JSON.stringify(record)}\n`);
+      this.startSweeper();
+    } catch {
+      // Losing a stored line must never fail the deployment; stdout still has it
+    }
+  }
+
+  /** Resolves once every record appended so far for the deployment is on disk */
+  flush(deploymentId: string): Promise<void> {
+    const open = this.open.get(deploymentId);
+    if (!open) return Promise.resolve();
+    return new Promise(resolve => open.stream.write('', () => resolve()));
+  }
+
+  async query(deploymentId: string, query: LogQuery = {}): Promise<LogRecord[]> {
+    if (!ID.test(deploymentId)) return [];
+    await this.flush(deploymentId);
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.file(deploymentId), 'utf8');
+    } catch {
+      return [];
+    }
+
+    const since = query.since?.getTime();
+    const records: LogRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line) continue;
+      let record: LogRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (query.step && record.step !== query.step) continue;
+      if (query.stream && record.stream !== query.stream) continue;
+      if (query.level && severity(record.level) < severity(query.level)) continue;
+      if (since !== undefined && Date.parse(record.time) <= since) continue;
+      records.push(record);
+    }
+    return records.slice(-(query.limit || DEFAULT_QUERY_LIMIT));
+  }
+
+  /** Remove log files not written to within the retention window; returns their deployment ids */
+  sweep(): string[] {
+    const cutoff = this.now() - this.retentionMs;
+    let names: string[];
+    try {
+      names = fs.readdirSync(this.dir);
+    } catch {
+      return [];
+    }
+    const removed: string[] = [];
+    for (const name of names.filter(name => name.endsWith('.jsonl'))) {
+      const file = path.join(this.dir, name);
+      try {
+        const deploymentId = name.slice(0, -'.jsonl'.length);
+        if (fs.statSync(file).mtimeMs < cutoff) {
+          this.close(deploymentId);
+          fs.rmSync(file, { force: true });
+          removed.push(deploymentId);
+        }
+      } catch {
+        // Removed by someone else meanwhile
+      }
+    }
+    return removed;
+  }
+
+  private file(deploymentId: string): string {
+    return path.join(this.dir, `${deploymentId}.jsonl`);
+  }
+
+  // The deployment's open log file, opened on its first record and closed once idle
+  private writer(deploymentId: string): fs.WriteStream {
+    const open = this.open.get(deploymentId);
+    if (open) {
+      open.idle.refresh();
+      return open.stream;
+    }
+
+    if (!this.dirReady) {
+      fs.mkdirSync(this.dir, { recursive: true });
+      this.dirReady = true;
+    }
+    const stream = fs.createWriteStream(this.file(deploymentId), { flags: 'a' });
+    stream.on('error', () => {
+      // The directory may have been removed; it is created again with the next file
+      this.dirReady = false;
+      if (this.open.get(deploymentId)?.stream === stream) this.close(deploymentId);
+    });
+    const idle = setTimeout(() => this.close(deploymentId), IDLE_CLOSE_MS);
+    idle.unref();
+    this.open.set(deploymentId, { stream, idle });
+    return stream;
+  }
+
+  private close(deploymentId: string): void {
+    const open = this.open.get(deploymentId);
+    if (!open) return;
+    clearTimeout(open.idle);
+    this.open.delete(deploymentId);
+    open.stream.end();
+  }
+
+  private startSweeper(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+}
+
+/** Formats records for stdout and hands deployment records to the store */
+export class LogWriter {
+  readonly store: DeploymentLogStore;
+
+  constructor(
+    readonly options: LoggerOptions,
+    private out: (line: string) => void = line => process.stdout.write(`${line}\n`)
+  ) {
+    this.store = new DeploymentLogStore(options.dir, options.retentionMs);
+  }
+
+  enabled(level: JobLogLevel): boolean {
+    return severity(level) >= severity(this.options.level);
+  }
+
+  write(record: LogRecord): void {
+    this.out(this.options.format === 'pretty' ? pretty(record) : JSON.stringify(record));
+    this.store.append(record);
+  }
+}
+
+function pretty(record: LogRecord): string {
+  const where = record.deploymentId ? ` [${record.deploymentId}${record.step ? `/${record.step}` : ''}]` : '';
+  const fields = record.fields ? ` ${JSON.stringify(record.fields)}` : '';
+  return `${record.time} ${record.level.toUpperCase().padEnd(5)} ${record.module}${where} ${record.message}${fields}`;
+}
+
+export class Logger {
+  constructor(
+    readonly module: string,
+    readonly stream: LogStream = 'pipeline',
+    private writer: LogWriter = logWriter,
+    private bound: Partial<LogContext> = {}
+  ) {}
+
+  /** A logger whose records always carry `bound`, e.g. the deployment of a tracker */
+  child(bound: Partial<LogContext>): Logger {
+    return new Logger(this.module, this.stream, this.writer, { ...this.bound, ...bound });
+  }
+
+  /**
+   * Build the record (redacted, with the current deployment and step) and
+   * write it if its level is enabled. The record is returned either way, so
+   * callers can pass the same line on to their own listeners.
+   */
+  log(level: JobLogLevel, message: string, fields?: Record<string, unknown>): LogRecord {
+    const current = { ...context.getStore(), ...this.bound };
+    const record: LogRecord = {
+      time: new Date().toISOString(),
+      level,
+      module: this.module,
+      stream: this.stream,
+      message: secretRedactor.redact(message),
+      ...(current.deploymentId ? { deploymentId: current.deploymentId } : {}),
+      ...(current.step ? { step: current.step } : {}),
+      ...(fields ? { fields: secretRedactor.redactValue(fields) } : {})
+    };
+    if (this.writer.enabled(level)) this.writer.write(record);
+    return record;
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): LogRecord {
+    return this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): LogRecord {
+    return this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): LogRecord {
+    return this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): LogRecord {
+    return this.log('error', message, fields);
+  }
+}
+
+/**
+ * LOG_LEVEL (default info), LOG_FORMAT (json or pretty, default json),
+ * DEPLOYMENT_LOG_DIR (default .data/deployment-logs) and
+ * DEPLOYMENT_LOG_RETENTION_DAYS (default 14)
+ */
+export function loggerOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): LoggerOptions {
+  const level = LOG_LEVELS.find(level => level === env.LOG_LEVEL?.toLowerCase()) || 'info';
+  const days = Number(env.DEPLOYMENT_LOG_RETENTION_DAYS) > 0 ? Number(env.DEPLOYMENT_LOG_RETENTION_DAYS) : 14;
+  return {
+    level,
+    format: env.LOG_FORMAT === 'pretty' ? 'pretty' : 'json',
+    dir: path.resolve(env.DEPLOYMENT_LOG_DIR || path.join(process.cwd(), '.data', 'deployment-logs')),
+    retentionMs: days * 24 * 60 * 60 * 1000
+  };
+}
+
+export const logWriter = new LogWriter(loggerOptionsFromEnv());
+
+/** Logger for `module`; build output uses the `build` stream */
+export function createLogger(module: string, stream: LogStream = 'pipeline'): Logger {
+  return new Logger(module, stream);
+}
+
+type ConsoleMethod = 'log' | 'info' | 'debug' | 'warn' | 'error';
+
+const CONSOLE_LEVELS: Record<ConsoleMethod, JobLogLevel> = { log: 'info', info: 'info', debug: 'debug', warn: 'warn', error: 'error' };
+
+/**
+ * Turn console output into records of `logger`, so modules that still log
+ * plain lines write JSON too. Inside `withLogContext` those records carry the
+ * deployment and step and are stored with the deployment. Returns a function
+ * that restores the original methods.
+ */
+export function routeConsole(target: Pick<Console, ConsoleMethod> = console, logger: Logger = createLogger('console')): () => void {
+  const methods = Object.keys(CONSOLE_LEVELS) as ConsoleMethod[];
+  const originals = Object.fromEntries(methods.map(method => [method, target[method]]));
+  for (const method of methods) {
+    target[method] = (...args: unknown[]) => {
+      logger.log(CONSOLE_LEVELS[method], formatWithOptions({ colors: false, depth: 4 }, ...args));
+    };
+  }
+  return () => Object.assign(target, originals);
+}
@@ -0,0 +1,112 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { dockerEngine, DockerEngineError } from './dockerEngine';
+import { push_docker_image } from './docker';
+import {
+  defaultDestination,
+  detectRegistryType,
+  explainPushError,
+  imageReference,
+  isTransientPushError,
+  normalizeRegistryAuth,
+  pushedImageUrl,
+  RegistryError
+} from './registries';
+
+describe('detectRegistryType', () => {
+  it('recognizes hosted registries by host', () => {
+    expect(detectRegistryType('docker.io')).toBe('dockerhub');
+    expect(detectRegistryType('ghcr.io')).toBe('ghcr');
+    expect(detectRegistryType('123456789012.dkr.ecr.eu-west-1.amazonaws.com')).toBe('ecr');
+    expect(detectRegistryType('eu.gcr.io')).toBe('gcr');
+    expect(detectRegistryType('europe-west1-docker.pkg.dev')).toBe('artifact-registry');
+    expect(detectRegistryType('myteam.azurecr.io')).toBe('acr');
+    expect(detectRegistryType('localhost:5000')).toBe('generic');
+  });
+});
+
+describe('imageReference', () => {
+  it('keeps the short form on Docker Hub and the host elsewhere', () => {
+    expect(imageReference({ registry: 'docker.io', namespace: 'acme' }, 'api', 'latest')).toBe('acme/api:latest');
+    expect(imageReference({ registry: 'ghcr.io', namespace: 'acme/tools' }, 'api', 'v1')).toBe('ghcr.io/acme/tools/api:v1');
+    expect(imageReference({ registry: 'localhost:5000' }, 'api', 'sha-1234')).toBe('localhost:5000/api:sha-1234');
+  });
+
+  it('enforces the namespace depth of each registry', () => {
+    expect(() => imageReference({ registry: 'docker.io', namespace: 'acme/tools' }, 'api', 'latest')).toThrow(RegistryError);
+    expect(() => imageReference({ registry: 'europe-west1-docker.pkg.dev', namespace: 'my-project' }, 'api', 'latest')).toThrow(/<project>\/<repository>/);
+    expect(() => imageReference({ registry: 'harbor.internal', type: 'harbor' }, 'api', 'latest')).toThrow(/Harbor project/);
+    expect(imageReference({ registry: 'europe-west1-docker.pkg.dev', namespace: 'my-project/images' }, 'api', 'latest'))
+      .toBe('europe-west1-docker.pkg.dev/my-project/images/api:latest');
+  });
+
+  it('rejects invalid components and tags', () => {
+    try {
+      imageReference({ registry: 'ghcr.io', namespace: 'Acme' }, 'api', '-bad');
+      expect.unreachable();
+    } catch (error) {
+      expect((error as RegistryError).errors).toHaveLength(2);
+    }
+  });
+});
+
+describe('normalizeRegistryAuth', () => {
+  it('fills in the fixed usernames of token logins', () => {
+    const gcr = normalizeRegistryAuth({ registry: 'gcr.io' }, { password: 'ya29.token' });
+    expect(gcr).toEqual({ username: 'oauth2accesstoken', password: 'ya29.token', serveraddress: 'gcr.io' });
+    expect(normalizeRegistryAuth({ registry: 'us-docker.pkg.dev' }, { password: '{"type":"service_account"}' }).username).toBe('_json_key');
+    expect(normalizeRegistryAuth({ registry: 'team.azurecr.io' }, { password: 't' }).username).toBe('00000000-0000-0000-0000-000000000000');
+    expect(normalizeRegistryAuth({ registry: 'ghcr.io' }, { username: 'octocat', password: 't' }).username).toBe('octocat');
+  });
+});
+
+describe('push errors', () => {
+  it('retries network and server failures only', () => {
+    expect(isTransientPushError('received unexpected HTTP status: 503 Service Unavailable')).toBe(true);
+    expect(isTransientPushError('read tcp 10.0.0.2:443: read: connection reset by peer')).toBe(true);
+    expect(isTransientPushError('toomanyrequests: rate limit exceeded')).toBe(true);
+    expect(isTransientPushError('denied: requested access to the resource is denied')).toBe(false);
+    expect(isTransientPushError('name unknown: repository not found')).toBe(false);
+  });
+
+  it('explains plain-HTTP registries and missing repositories', () => {
+    expect(explainPushError('http: server gave HTTP response to HTTPS client', { registry: 'registry.lan:5000' })).toMatch(/insecure-registries/);
+    expect(explainPushError('name unknown: The repository with name \'api\' does not exist', { registry: '123456789012.dkr.ecr.us-east-1.amazonaws.com' }))
+      .toMatch(/create the repository/);
+  });
+});
+
+describe('defaultDestination and pushedImageUrl', () => {
+  it('falls back to Docker Hub and DOCKER_USER', () => {
+    expect(defaultDestination({ DOCKER_USER: 'Acme' })).toEqual({ registry: 'docker.io', namespace: 'acme', type: undefined, insecure: false });
+    expect(defaultDestination({ IMAGE_REGISTRY: 'http://localhost:5000/', IMAGE_REGISTRY_INSECURE: 'true' }))
+      .toEqual({ registry: 'localhost:5000', namespace: undefined, type: undefined, insecure: true });
+  });
+
+  it('links the registry page of an image', () => {
+    expect(pushedImageUrl('acme/api:latest')).toBe('https://hub.docker.com/r/acme/api');
+    expect(pushedImageUrl('ghcr.io/acme/api:v1')).toBe('https://github.com/acme?tab=packages');
+    expect(pushedImageUrl('localhost:5000/api:v1')).toBe('https://localhost:5000/api');
+  });
+});
+
+describe('push_docker_image', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('retries transient failures and falls back to the local repo digest', async () => {
+    const digest = `sha256:${'a'.repeat(64)}`;
+    const push = vi.spyOn(dockerEngine, 'push')
+      .mockRejectedValueOnce(new DockerEngineError(0, 'received unexpected HTTP status: 502 Bad Gateway'))
+      .mockResolvedValueOnce({ log: '' });
+    vi.spyOn(dockerEngine, 'inspectImage').mockResolvedValue({ RepoDigests: [`localhost:5000/api@${digest}`] } as any);
+
+    const result = await push_docker_image('localhost:5000/api:v1', { retryDelayMs: 1 });
+    expect(push).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ digest, attempts: 2 });
+  });
+
+  it('does not retry authentication failures', async () => {
+    const push = vi.spyOn(dockerEngine, 'push').mockRejectedValue(new DockerEngineError(0, 'denied: requested access to the resource is denied'));
+    await expect(push_docker_image('ghcr.io/acme/api:v1', { retryDelayMs: 1 })).rejects.toThrow(/GitHub Container Registry credentials/);
+    expect(push).toHaveBeenCalledTimes(1);
+  });
+});
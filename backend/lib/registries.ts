@@ -0,0 +1,212 @@
+import { registryOf, RegistryAuth } from './dockerEngine';
+import type { PushedImage, RegistryType } from '../../shared/types';
+
+/**
+ * Registry profiles: how each registry names repositories, which username a
+ * bare token goes with, and where a pushed image can be viewed. The host
+ * identifies most registries; Harbor and plain self-hosted registries are
+ * named explicitly.
+ */
+
+export type { RegistryType };
+
+export const REGISTRY_TYPES: RegistryType[] = ['dockerhub', 'ghcr', 'ecr', 'gcr', 'artifact-registry', 'acr', 'harbor', 'generic'];
+
+export class RegistryError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid image reference: ${errors.join('; ')}`);
+    this.name = 'RegistryError';
+  }
+}
+
+/** Where images are pushed */
+export interface RegistryDestination {
+  registry: string; // Host, e.g. ghcr.io or localhost:5000; docker.io for Docker Hub
+  namespace?: string; // Path between the host and the image name
+  type?: RegistryType; // Detected from the host when absent
+  insecure?: boolean; // Plain-HTTP registry; pushes are allowed without credentials
+}
+
+interface RegistryProfile {
+  displayName: string;
+  /** Path components required between the host and the image name */
+  namespaceDepth: { min: number; max?: number };
+  namespaceHint?: string;
+  /** Username that goes with a bare access token */
+  tokenUsername?: (password: string) => string;
+  webUrl?: (repository: string) => string;
+  /** Why a push to a missing repository fails, when the registry does not create it */
+  missingRepositoryHint?: string;
+}
+
+const PROFILES: Record<RegistryType, RegistryProfile> = {
+  dockerhub: {
+    displayName: 'Docker Hub',
+    namespaceDepth: { min: 1, max: 1 },
+    namespaceHint: 'the Docker Hub user or organization',
+    webUrl: repository => `https://hub.docker.com/r/${repository}`
+  },
+  ghcr: {
+    displayName: 'GitHub Container Registry',
+    namespaceDepth: { min: 1 },
+    namespaceHint: 'the GitHub user or organization that owns the package',
+    webUrl: repository => `https://github.com/${repository.split('/')[1]}?tab=packages`
+  },
+  ecr: {
+    displayName: 'Amazon ECR',
+    namespaceDepth: { min: 0 },
+    missingRepositoryHint: 'ECR does not create repositories on push; create the repository in the registry first'
+  },
+  gcr: {
+    displayName: 'Google Container Registry',
+    namespaceDepth: { min: 1 },
+    namespaceHint: 'the Google Cloud project id',
+    tokenUsername: password => password.trimStart().startsWith('{') ? '_json_key' : 'oauth2accesstoken'
+  },
+  'artifact-registry': {
+    displayName: 'Google Artifact Registry',
+    namespaceDepth: { min: 2 },
+    namespaceHint: '<project>/<repository>',
+    tokenUsername: password => password.trimStart().startsWith('{') ? '_json_key' : 'oauth2accesstoken',
+    missingRepositoryHint: 'Artifact Registry repositories must exist before the first push'
+  },
+  acr: {
+    displayName: 'Azure Container Registry',
+    namespaceDepth: { min: 0 },
+    // Repository-scoped tokens and `az acr login --expose-token` both use this username
+    tokenUsername: () => '00000000-0000-0000-0000-000000000000'
+  },
+  harbor: {
+    displayName: 'Harbor',
+    namespaceDepth: { min: 1 },
+    namespaceHint: 'the Harbor project',
+    missingRepositoryHint: 'Harbor projects must exist before the first push'
+  },
+  generic: {
+    displayName: 'Container registry',
+    namespaceDepth: { min: 0 }
+  }
+};
+
+// Distribution spec: lowercase components separated by '.', '_', '__' or dashes
+const PATH_COMPONENT = /^[a-z0-9]+(?:(?:\.|_|__|-+)[a-z0-9]+)*$/;
+const MAX_REPOSITORY_LENGTH = 255;
+const TAG = /^[A-Za-z0-9_][A-Za-z0-9_.-]{0,127}$/;
+
+export function detectRegistryType(registry: string): RegistryType {
+  const host = registry.toLowerCase();
+  if (host === 'docker.io' || host === 'index.docker.io' || host === 'registry-1.docker.io') return 'dockerhub';
+  if (host === 'ghcr.io') return 'ghcr';
+  if (/\.dkr\.ecr\.[a-z0-9-]+\.amazonaws\.com(\.cn)?$/.test(host)) return 'ecr';
+  if (/^([a-z]+\.)?gcr\.io$/.test(host)) return 'gcr';
+  if (/-docker\.pkg\.dev$/.test(host)) return 'artifact-registry';
+  if (/\.azurecr\.(io|cn|us)$/.test(host)) return 'acr';
+  return 'generic';
+}
+
+export function registryTypeOf(destination: RegistryDestination): RegistryType {
+  return destination.type ?? detectRegistryType(destination.registry);
+}
+
+export function registryDisplayName(destination: RegistryDestination): string {
+  const type = registryTypeOf(destination);
+  return type === 'generic' || type === 'harbor' ? `${PROFILES[type].displayName} ${destination.registry}` : PROFILES[type].displayName;
+}
+
+/**
+ * Destination from the server environment: IMAGE_REGISTRY (default Docker
+ * Hub) with IMAGE_NAMESPACE, falling back to DOCKER_USER
+ */
+export function defaultDestination(env: NodeJS.ProcessEnv = process.env): RegistryDestination {
+  const registry = (env.IMAGE_REGISTRY || 'docker.io').toLowerCase().replace(/^https?:\/\//, '').replace(/\/+$/, '');
+  const type = env.IMAGE_REGISTRY_TYPE && (REGISTRY_TYPES as string[]).includes(env.IMAGE_REGISTRY_TYPE)
+    ? env.IMAGE_REGISTRY_TYPE as RegistryType
+    : undefined;
+  return {
+    registry,
+    namespace: (env.IMAGE_NAMESPACE || env.DOCKER_USER || (registry === 'docker.io' ? 'anonymous' : '')).toLowerCase() || undefined,
+    type,
+    insecure: env.IMAGE_REGISTRY_INSECURE === 'true'
+  };
+}
+
+/**
+ * Full image reference for `name:tag` at a destination, checked against the
+ * registry's naming rules. Docker Hub images keep the short `namespace/name` form.
+ */
+export function imageReference(destination: RegistryDestination, name: string, tag: string): string {
+  const type = registryTypeOf(destination);
+  const profile = PROFILES[type];
+  const namespace = (destination.namespace || '').split('/').filter(Boolean);
+  const errors: string[] = [];
+
+  const { min, max } = profile.namespaceDepth;
+  if (namespace.length < min || (max !== undefined && namespace.length > max)) {
+    const expected = max === min ? `exactly ${min}` : max === undefined ? `at least ${min}` : `${min} to ${max}`;
+    errors.push(`${profile.displayName} needs ${expected} namespace component${min === 1 && max === 1 ? '' : 's'}${profile.namespaceHint ? ` (${profile.namespaceHint})` : ''}, got "${namespace.join('/')}"`);
+  }
+  for (const component of [...namespace, name]) {
+    if (!PATH_COMPONENT.test(component)) errors.push(`"${component}" is not a valid repository path component (lowercase letters, digits and separators)`);
+  }
+  const repository = [...namespace, name].join('/');
+  if (repository.length > MAX_REPOSITORY_LENGTH) errors.push(`Repository "${repository}" is longer than ${MAX_REPOSITORY_LENGTH} characters`);
+  if (!TAG.test(tag)) errors.push(`Tag "${tag}" is not valid`);
+  if (errors.length > 0) throw new RegistryError(errors);
+
+  return type === 'dockerhub' ? `${repository}:${tag}` : `${destination.registry}/${repository}:${tag}`;
+}
+
+/** Whether the registry has a fixed username for access tokens, so none needs to be stored */
+export function acceptsBareToken(type: RegistryType): boolean {
+  return !!PROFILES[type].tokenUsername;
+}
+
+/**
+ * Fill in what each registry expects: the server address, and the username
+ * that goes with a bare token (GCR, Artifact Registry, ACR)
+ */
+export function normalizeRegistryAuth(destination: RegistryDestination, auth: RegistryAuth): RegistryAuth {
+  const profile = PROFILES[registryTypeOf(destination)];
+  const username = auth.username || (auth.password && profile.tokenUsername ? profile.tokenUsername(auth.password) : undefined);
+  return { ...auth, username, serveraddress: auth.serveraddress || destination.registry };
+}
+
+export function pushedImage(image: string, digest?: string): PushedImage {
+  return { image, registry: registryOf(image), digest, pushedAt: new Date().toISOString() };
+}
+
+/**
+ * Web page of a pushed image, or the plain registry path when the registry has none
+ */
+export function pushedImageUrl(image: string, type: RegistryType = detectRegistryType(registryOf(image))): string {
+  const repository = image.replace(/@sha256:[0-9a-f]+$/, '').replace(/:[^/:]+$/, '');
+  const webUrl = PROFILES[type].webUrl;
+  if (type === 'dockerhub') return webUrl!(repository.replace(/^(docker\.io|index\.docker\.io)\//, ''));
+  return webUrl ? webUrl(repository) : `https://${repository}`;
+}
+
+/**
+ * Network hiccups, registry 5xx and rate limits are worth retrying;
+ * authentication, naming and manifest errors are not
+ */
+export function isTransientPushError(message: string): boolean {
+  if (/denied|unauthorized|authentication required|name unknown|name invalid|manifest invalid|not found|HTTP response to HTTPS client/i.test(message)) return false;
+  return /timeout|timed out|ECONNRESET|ECONNREFUSED|EPIPE|connection reset|broken pipe|unexpected EOF|\bEOF\b|TLS handshake|toomanyrequests|too many requests|50[0234]\b|bad gateway|service unavailable|gateway time-?out|internal server error|i\/o/i.test(message);
+}
+
+/**
+ * A push error with the fix spelled out, where one is known
+ */
+export function explainPushError(message: string, destination: RegistryDestination): string {
+  const profile = PROFILES[registryTypeOf(destination)];
+  if (/HTTP response to HTTPS client/i.test(message)) {
+    return `${message}. ${destination.registry} serves plain HTTP; add it to "insecure-registries" in the Docker daemon configuration`;
+  }
+  if (/name unknown|repository .* not found|does not exist/i.test(message) && profile.missingRepositoryHint) {
+    return `${message}. ${profile.missingRepositoryHint}`;
+  }
+  if (/denied|unauthorized|authentication required/i.test(message)) {
+    return `${message}. Check the ${profile.displayName} credentials and that they may push to this repository`;
+  }
+  return message;
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { cloneRepository, parseRepoUrl, RepoFetchError, validateRef } from './repoFetcher';
+
+describe('repoFetcher', () => {
+  const tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'repo-fetcher-spec-')));
+  afterAll(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+  const codeOf = async (task: () => unknown) => {
+    try {
+      await task();
+    } catch (error) {
+      return (error as RepoFetchError).code;
+    }
+    return undefined;
+  };
+
+  it('normalizes hosted web URLs', () => {
+    expect(parseRepoUrl('https://github.com/acme/api/tree/main')).toEqual({ provider: 'github', cloneUrl: 'https://github.com/acme/api.git', name: 'api' });
+    expect(parseRepoUrl('git@gitlab.com:group/sub/app.git')).toMatchObject({ provider: 'gitlab', name: 'app' });
+  });
+
+  it('accepts file:// repositories only under REPO_LOCAL_ROOTS', async () => {
+    const repo = path.join(tmp, 'repos', 'app');
+    fs.mkdirSync(repo, { recursive: true });
+
+    expect(await codeOf(() => parseRepoUrl(`file://${repo}`, {}))).toBe('invalid_url');
+    expect(await codeOf(() => parseRepoUrl(`file://${repo}`, { REPO_LOCAL_ROOTS: path.join(tmp, 'other') }))).toBe('invalid_url');
+    expect(await codeOf(() => parseRepoUrl(`file://${path.join(tmp, 'repos', '..', 'escape')}`, { REPO_LOCAL_ROOTS: path.join(tmp, 'repos') }))).toBe('invalid_url');
+    expect(parseRepoUrl(`file://${repo}`, { REPO_LOCAL_ROOTS: `relative, ${path.join(tmp, 'repos')}` })).toEqual({ provider: 'file', cloneUrl: `file://${repo}`, name: 'app' });
+  });
+
+  it('rejects refs git would read as options or that are not refs or SHAs', async () => {
+    for (const ref of ['--upload-pack=touch /tmp/pwned', '-b', 'main..other', 'feature branch', 'refs/heads/x.lock']) {
+      expect(await codeOf(() => validateRef(ref)), ref).toBe('invalid_ref');
+    }
+    for (const ref of ['main', 'release/1.2', 'v1.0.0', 'HEAD', '0a1b2c3d', '0a1b2c3d4e5f60718293a4b5c6d7e8f901234567']) {
+      expect(await codeOf(() => validateRef(ref)), ref).toBeUndefined();
+    }
+  });
+
+  it('never passes an option-like ref to git', async () => {
+    const repo = path.join(tmp, 'origin');
+    fs.mkdirSync(repo);
+    const run = (...args: string[]) => execFileSync('git', ['-c', 'user.email=spec@example.com', '-c', 'user.name=spec', ...args], { cwd: repo, stdio: 'ignore' });
+    run('init', '--quiet');
+    fs.writeFileSync(path.join(repo, 'index.js'), 'console.log(1)\n');
+    run('add', '.');
+    run('commit', '--quiet', '-m', 'init');
+
+    const marker = path.join(tmp, 'marker');
+    const env = process.env.REPO_LOCAL_ROOTS;
+    process.env.REPO_LOCAL_ROOTS = tmp;
+    try {
+      expect(await codeOf(() => cloneRepository(`file://${repo}`, { ref: `--upload-pack=touch ${marker};git-upload-pack` }))).toBe('invalid_ref');
+      expect(fs.existsSync(marker)).toBe(false);
+
+      const checkout = await cloneRepository(`file://${repo}`);
+      expect(fs.readFileSync(path.join(checkout.dir, 'index.js'), 'utf-8')).toBe('console.log(1)\n');
+      checkout.cleanup();
+    } finally {
+      if (env === undefined) delete process.env.REPO_LOCAL_ROOTS;
+      else process.env.REPO_LOCAL_ROOTS = env;
+    }
+  });
+});
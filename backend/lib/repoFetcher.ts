@@ -0,0 +1,380 @@
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { GitHubFile } from './aiService';
+import type { LogSink } from './docker';
+import { secretRedactor } from './credentials';
+
+export type RepoProvider = 'github' | 'gitlab' | 'bitbucket' | 'git' | 'file';
+
+export type RepoFetchErrorCode =
+  | 'invalid_url'
+  | 'git_unavailable'
+  | 'auth_required'
+  | 'not_found'
+  | 'ref_not_found'
+  | 'invalid_ref'
+  | 'rate_limited'
+  | 'too_large'
+  | 'timeout'
+  | 'clone_failed';
+
+export class RepoFetchError extends Error {
+  constructor(readonly code: RepoFetchErrorCode, message: string) {
+    super(message);
+    this.name = 'RepoFetchError';
+  }
+}
+
+export interface RepoRemote {
+  provider: RepoProvider;
+  cloneUrl: string;
+  name: string;
+}
+
+export interface CloneOptions {
+  ref?: string;
+  token?: string;
+  onLog?: LogSink;
+  timeoutMs?: number;
+}
+
+export interface RepoCheckout {
+  dir: string;
+  commit: string;
+  remote: RepoRemote;
+  cleanup: () => void;
+}
+
+export interface ReadFilesOptions {
+  maxFiles?: number;
+  maxTotalBytes?: number;
+  maxContentBytes?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = Number(process.env.REPO_CLONE_TIMEOUT_MS) || 5 * 60 * 1000;
+const DEFAULT_MAX_FILES = Number(process.env.REPO_MAX_FILES) || 20000;
+const DEFAULT_MAX_TOTAL_BYTES = Number(process.env.REPO_MAX_BYTES) || 500 * 1024 * 1024;
+const DEFAULT_MAX_CONTENT_BYTES = 256 * 1024;
+
+const HOSTED_PROVIDERS: Record<string, RepoProvider> = {
+  'github.com': 'github',
+  'gitlab.com': 'gitlab',
+  'bitbucket.org': 'bitbucket',
+};
+
+// Username each host expects alongside an access token over HTTPS
+const TOKEN_USERS: Record<RepoProvider, string> = {
+  github: 'x-access-token',
+  gitlab: 'oauth2',
+  bitbucket: 'x-token-auth',
+  git: 'git',
+  file: '',
+};
+
+// A full or abbreviated commit SHA (SHA-1 or SHA-256)
+const COMMIT_SHA = /^[0-9a-f]{7,64}$/i;
+
+/**
+ * Directories under which `file://` repositories may be cloned, from
+ * REPO_LOCAL_ROOTS (comma-separated absolute paths). None by default, so
+ * callers cannot clone repositories from the server's disk.
+ */
+export function localRepoRoots(env: NodeJS.ProcessEnv = process.env): string[] {
+  return (env.REPO_LOCAL_ROOTS || '')
+    .split(',')
+    .map(root => root.trim())
+    .filter(root => path.isAbsolute(root))
+    .map(root => path.resolve(root));
+}
+
+// Resolve symlinks so a link inside an allowed root cannot point outside it
+function realPath(target: string): string {
+  try {
+    return fs.realpathSync(target);
+  } catch {
+    return path.resolve(target);
+  }
+}
+
+/**
+ * Normalize a repository URL into something `git clone` accepts. Handles
+ * GitHub/GitLab/Bitbucket web URLs (including `/tree/<branch>` suffixes),
+ * any other HTTPS or SSH remote, and `file://` repositories under one of the
+ * `localRepoRoots`.
+ */
+export function parseRepoUrl(repoUrl: string, env: NodeJS.ProcessEnv = process.env): RepoRemote {
+  const input = (repoUrl || '').trim();
+  if (!input) {
+    throw new RepoFetchError('invalid_url', 'Repository URL is required');
+  }
+
+  if (input.startsWith('file://')) {
+    const localPath = realPath(decodeURIComponent(input.slice('file://'.length)));
+    const allowed = localRepoRoots(env).some(root => {
+      const relative = path.relative(realPath(root), localPath);
+      return !relative.startsWith('..') && !path.isAbsolute(relative);
+    });
+    if (!allowed) {
+      throw new RepoFetchError('invalid_url', 'Local repositories are not enabled for this path (set REPO_LOCAL_ROOTS)');
+    }
+    return { provider: 'file', cloneUrl: `file://${localPath}`, name: path.basename(localPath).replace(/\.git$/, '') || 'project' };
+  }
+
+  // Options such as --upload-pack must never reach git as a remote
+  if (input.startsWith('-')) {
+    throw new RepoFetchError('invalid_url', `Invalid repository URL: ${input}`);
+  }
+
+  // scp-style SSH remote: git@host:owner/repo.git
+  const scpMatch = input.match(/^[\w.-]+@([\w.-]+):(.+)$/);
+  if (scpMatch) {
+    const name = scpMatch[2].replace(/\.git$/, '').split('/').pop() || 'project';
+    return { provider: HOSTED_PROVIDERS[scpMatch[1].toLowerCase()] || 'git', cloneUrl: input, name };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    throw new RepoFetchError('invalid_url', `Invalid repository URL: ${input}`);
+  }
+
+  if (!['http:', 'https:', 'ssh:', 'git:'].includes(url.protocol)) {
+    throw new RepoFetchError('invalid_url', `Unsupported repository URL scheme: ${url.protocol}`);
+  }
+
+  const provider = HOSTED_PROVIDERS[url.hostname.toLowerCase()] || 'git';
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  if (provider !== 'git') {
+    // Hosted web URLs: keep the project path (GitLab allows nested groups),
+    // drop UI suffixes like /tree/main or /-/tree/main
+    const uiIndex = segments.findIndex(s => ['-', 'tree', 'blob', 'src', 'commits'].includes(s));
+    const projectSegments = (uiIndex === -1 ? segments : segments.slice(0, uiIndex));
+    if (projectSegments.length < 2) {
+      throw new RepoFetchError('invalid_url', `Repository URL must include owner and name: ${input}`);
+    }
+    const keep = provider === 'gitlab' ? projectSegments : projectSegments.slice(0, 2);
+    const projectPath = keep.join('/').replace(/\.git$/, '');
+    return {
+      provider,
+      cloneUrl: `${url.protocol}//${url.host}/${projectPath}.git`,
+      name: keep[keep.length - 1].replace(/\.git$/, ''),
+    };
+  }
+
+  const name = (segments[segments.length - 1] || 'project').replace(/\.git$/, '');
+  return { provider, cloneUrl: input, name };
+}
+
+function classifyGitError(stderr: string): RepoFetchError {
+  const text = stderr.toLowerCase();
+  const summary = stderr.trim().split('\n').filter(Boolean).slice(-3).join(' | ') || 'git command failed';
+
+  if (text.includes('rate limit') || text.includes(' 429')) {
+    return new RepoFetchError('rate_limited', `Repository host rate limit exceeded: ${summary}`);
+  }
+  if (text.includes("couldn't find remote ref") || text.includes('not our ref') || text.includes('did not match any file')) {
+    return new RepoFetchError('ref_not_found', `Branch, tag or commit not found: ${summary}`);
+  }
+  if (
+    text.includes('authentication failed') ||
+    text.includes('could not read username') ||
+    text.includes('permission denied') ||
+    text.includes(' 401') ||
+    text.includes(' 403')
+  ) {
+    return new RepoFetchError('auth_required', `Repository requires valid credentials: ${summary}`);
+  }
+  if (text.includes('not found') || text.includes('does not appear to be a git repository') || text.includes(' 404')) {
+    return new RepoFetchError('not_found', `Repository not found or not accessible: ${summary}`);
+  }
+  return new RepoFetchError('clone_failed', `Git operation failed: ${summary}`);
+}
+
+function runGit(args: string[], options: { cwd?: string; timeoutMs: number; onLog?: LogSink }): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn('git', args, {
+      cwd: options.cwd,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      env: {
+        ...process.env,
+        GIT_TERMINAL_PROMPT: '0',
+        GIT_ASKPASS: 'echo',
+        GIT_SSH_COMMAND: process.env.GIT_SSH_COMMAND || 'ssh -o BatchMode=yes',
+      },
+    });
+
+    let stdout = '';
+    let stderr = '';
+    const command = args[args[0] === '-c' ? 2 : 0];
+    const timer = setTimeout(() => {
+      proc.kill('SIGKILL');
+      reject(new RepoFetchError('timeout', `git ${command} timed out after ${Math.round(options.timeoutMs / 1000)}s`));
+    }, options.timeoutMs);
+
+    proc.stdout.on('data', (d) => { stdout += d.toString(); });
+    proc.stderr.on('data', (d) => {
+      const chunk = d.toString();
+      stderr += chunk;
+      options.onLog?.(chunk);
+    });
+
+    proc.on('error', (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(error.code === 'ENOENT'
+        ? new RepoFetchError('git_unavailable', 'git is not installed on the server')
+        : error);
+    });
+
+    proc.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0) resolve(stdout);
+      else reject(classifyGitError(stderr));
+    });
+  });
+}
+
+/**
+ * Reject refs git could read as an option or that are not a branch, tag or
+ * commit SHA. Refs come from API callers and end up on git's command line.
+ */
+export async function validateRef(ref: string): Promise<void> {
+  if (!ref || ref.startsWith('-') || /[\s\0]/.test(ref)) {
+    throw new RepoFetchError('invalid_ref', `Invalid branch, tag or commit: ${ref}`);
+  }
+  if (COMMIT_SHA.test(ref)) return;
+  // check-ref-format takes no `--`; the leading dash is already ruled out above
+  await runGit(['check-ref-format', '--allow-onelevel', ref], { timeoutMs: DEFAULT_TIMEOUT_MS }).catch(() => {
+    throw new RepoFetchError('invalid_ref', `Invalid branch, tag or commit: ${ref}`);
+  });
+}
+
+/**
+ * Shallow-clone a repository at a branch, tag or commit SHA into a temp
+ * directory. The token is sent as an HTTP header for this command only, so it
+ * never lands in the checkout's git config.
+ */
+export async function cloneRepository(repoUrl: string, options: CloneOptions = {}): Promise<RepoCheckout> {
+  const remote = parseRepoUrl(repoUrl);
+  if (options.ref) await validateRef(options.ref);
+  const timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), `checkout-${remote.name.replace(/[^\w.-]/g, '-')}-`));
+  const cleanup = () => fs.rmSync(dir, { recursive: true, force: true });
+
+  const authArgs: string[] = [];
+  if (options.token && remote.cloneUrl.startsWith('http')) {
+    const basic = Buffer.from(`${TOKEN_USERS[remote.provider]}:${options.token}`).toString('base64');
+    secretRedactor.register(options.token, basic);
+    authArgs.push('-c', `http.extraHeader=Authorization: Basic ${basic}`);
+  }
+
+  const log: LogSink = secretRedactor.sink(options.onLog);
+  const git = (args: string[]) => runGit(args, { cwd: dir, timeoutMs, onLog: log });
+
+  try {
+    log(`📥 Cloning ${remote.cloneUrl}${options.ref ? ` @ ${options.ref}` : ''}\n`);
+    await git(['init', '--quiet']);
+    await git(['remote', 'add', '--', 'origin', remote.cloneUrl]);
+
+    // Fetching a single ref works for branches, tags and (on hosts that allow it) raw SHAs
+    const target = options.ref || 'HEAD';
+    try {
+      await git([...authArgs, 'fetch', '--depth', '1', '--no-tags', '--', 'origin', target]);
+    } catch (error) {
+      // Local remotes don't serve unadvertised SHAs over a shallow fetch; fall back to a full fetch
+      if (!(error instanceof RepoFetchError) || error.code !== 'ref_not_found' || !options.ref) throw error;
+      log(`ℹ️ Shallow fetch of ${options.ref} failed, fetching full history\n`);
+      await git([...authArgs, 'fetch', '--tags', '--', 'origin']);
+      await git(['rev-parse', '--verify', '--end-of-options', `${options.ref}^{commit}`]).catch(() => {
+        throw new RepoFetchError('ref_not_found', `Branch, tag or commit not found: ${options.ref}`);
+      });
+      await git(['checkout', '--quiet', '--detach', options.ref, '--']);
+      const commit = (await git(['rev-parse', 'HEAD'])).trim();
+      log(`✅ Checked out ${commit.slice(0, 12)}\n`);
+      return { dir, commit, remote, cleanup };
+    }
+
+    await git(['checkout', '--quiet', '--detach', 'FETCH_HEAD', '--']);
+    const commit = (await git(['rev-parse', 'HEAD'])).trim();
+    log(`✅ Checked out ${commit.slice(0, 12)}\n`);
+    return { dir, commit, remote, cleanup };
+  } catch (error) {
+    cleanup();
+    throw error;
+  }
+}
+
+export function isProbablyText(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, 8000);
+  return !sample.includes(0);
+}
+
+/**
+ * List every file git considers part of the working tree (tracked files plus
+ * untracked files not excluded by .gitignore) and read text content for
+ * analysis. Fails instead of returning a partial list when limits are hit.
+ */
+export async function readRepositoryFiles(checkout: RepoCheckout, options: ReadFilesOptions = {}): Promise<GitHubFile[]> {
+  const maxFiles = options.maxFiles || DEFAULT_MAX_FILES;
+  const maxTotalBytes = options.maxTotalBytes || DEFAULT_MAX_TOTAL_BYTES;
+  const maxContentBytes = options.maxContentBytes || DEFAULT_MAX_CONTENT_BYTES;
+
+  const output = await runGit(
+    ['ls-files', '-z', '--cached', '--others', '--exclude-standard', '--'],
+    { cwd: checkout.dir, timeoutMs: DEFAULT_TIMEOUT_MS }
+  );
+  const paths = output.split('\0').filter(Boolean);
+
+  if (paths.length > maxFiles) {
+    throw new RepoFetchError('too_large', `Repository has ${paths.length} files, more than the limit of ${maxFiles}`);
+  }
+
+  const files: GitHubFile[] = [];
+  let totalBytes = 0;
+
+  for (const relativePath of paths) {
+    const fullPath = path.join(checkout.dir, relativePath);
+    const stat = fs.lstatSync(fullPath, { throwIfNoEntry: false });
+    if (!stat || !stat.isFile()) continue;
+
+    totalBytes += stat.size;
+    if (totalBytes > maxTotalBytes) {
+      throw new RepoFetchError('too_large', `Repository is larger than the limit of ${Math.round(maxTotalBytes / 1024 / 1024)} MB`);
+    }
+
+    const file: GitHubFile = {
+      name: path.basename(relativePath),
+      path: relativePath,
+      type: 'file',
+    };
+
+    if (stat.size <= maxContentBytes) {
+      const buffer = fs.readFileSync(fullPath);
+      if (isProbablyText(buffer)) file.content = buffer.toString('utf-8');
+    }
+    files.push(file);
+  }
+
+  return files;
+}
+
+/**
+ * Clone and read a repository in one step. The checkout stays on disk so it
+ * can be used as a build context; call `checkout.cleanup()` when done.
+ */
+export async function fetchRepository(
+  repoUrl: string,
+  options: CloneOptions & ReadFilesOptions = {}
+): Promise<{ checkout: RepoCheckout; files: GitHubFile[] }> {
+  const checkout = await cloneRepository(repoUrl, options);
+  try {
+    const files = await readRepositoryFiles(checkout, options);
+    return { checkout, files };
+  } catch (error) {
+    checkout.cleanup();
+    throw error;
+  }
+}
@@ -0,0 +1,364 @@
+import fs from 'fs';
+import path from 'path';
+import type { SecretFinding, SecretSeverity } from '../../shared/types';
+import type { GitHubFile } from './aiService';
+import { DockerEngineClient, dockerEngine } from './dockerEngine';
+import { parseDockerfile, parseKeyValues, positionAt } from './dockerfileParser';
+
+/**
+ * Secret detection for everything that can end up in an image: the project
+ * files we were given, the Dockerfile, and the metadata of the built image.
+ * Credential files and private keys are kept out of the build context with a
+ * generated .dockerignore block; inline secrets in source files are reported
+ * but left in place, since removing the file would break the build.
+ */
+
+export interface SecretScanResult {
+  findings: SecretFinding[];
+  excluded: string[]; // Project paths left out of the build context
+}
+
+interface ContentRule {
+  id: string;
+  description: string;
+  severity: SecretSeverity;
+  pattern: RegExp;
+  group?: number; // Capture group holding the secret; defaults to the whole match
+  exclude?: boolean; // A file containing this is never needed inside the image
+  accept?: (value: string) => boolean;
+}
+
+interface FileRule {
+  id: string;
+  description: string;
+  test: (filePath: string, content?: string) => boolean;
+}
+
+const MAX_FINDINGS = 200;
+const MAX_LINE_LENGTH = 4000;
+const DOCKERIGNORE_MARKER = '# Secrets detected by AutoDeploy (generated, do not edit)';
+const DOCKERIGNORE_END = '# End of detected secrets';
+
+const SECRET_NAME = /(PASSWORD|PASSWD|SECRET|TOKEN|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY|AUTH_?KEY|CLIENT_?SECRET|CREDENTIALS?)$/i;
+const PLACEHOLDER = /^(x+|\*+|\.+|-+|<[^>]*>|\$\{?[\w.:-]*\}?|%[\w]+%|\{\{.*\}\}|\[.*\]|changeme|change[_-]?me|password\d*|secret|example|sample|dummy|placeholder|test(ing)?|todo|none|null|nil|undefined|true|false|admin|root|postgres|guest|replace[_-]?me)$/i;
+const PLACEHOLDER_HINT = /(example|your[_-]|xxxx|<|>|\$\{|process\.env|os\.environ|getenv|changeme|placeholder|dummy|redacted)/i;
+const LOCKFILE = /(^|\/)(package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|poetry\.lock|uv\.lock|Pipfile\.lock|go\.sum|Cargo\.lock|Gemfile\.lock|composer\.lock|packages\.lock\.json)$/;
+const MINIFIED = /\.(min\.js|min\.css|map|svg|lock)$/i;
+
+/**
+ * Shannon entropy in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) || 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function isPlaceholder(value: string): boolean {
+  const trimmed = value.trim().replace(/^['"]|['"]$/g, '');
+  return !trimmed || PLACEHOLDER.test(trimmed) || PLACEHOLDER_HINT.test(trimmed) || /^(.)\1+$/.test(trimmed);
+}
+
+/**
+ * Keep just enough of a secret to recognise it: "AKIA…MPLE"
+ */
+export function redact(value: string): string {
+  if (value.length <= 8) return '…';
+  const visible = Math.min(4, Math.floor(value.length / 6));
+  return `${value.slice(0, visible)}…${value.slice(-visible)}`;
+}
+
+const CONTENT_RULES: ContentRule[] = [
+  { id: 'private-key', description: 'Private key', severity: 'high', pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/, exclude: true },
+  { id: 'gcp-service-account', description: 'Google Cloud service account key', severity: 'high', pattern: /"type"\s*:\s*"service_account"/, exclude: true },
+  { id: 'aws-access-key', description: 'AWS access key ID', severity: 'high', pattern: /\b((?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA)[0-9A-Z]{16})\b/, group: 1 },
+  { id: 'aws-secret-key', description: 'AWS secret access key', severity: 'high', pattern: /aws_?secret_?(?:access_?)?key['"]?\s*[:=]\s*['"]?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/i, group: 1 },
+  { id: 'github-token', description: 'GitHub token', severity: 'high', pattern: /\b(gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{80,})\b/, group: 1 },
+  { id: 'gitlab-token', description: 'GitLab personal access token', severity: 'high', pattern: /\b(glpat-[A-Za-z0-9_-]{20,})\b/, group: 1 },
+  { id: 'slack-token', description: 'Slack token', severity: 'high', pattern: /\b(xox[abprs]-[A-Za-z0-9-]{10,})\b/, group: 1 },
+  { id: 'slack-webhook', description: 'Slack incoming webhook', severity: 'medium', pattern: /https:\/\/hooks\.slack\.com\/services\/T[A-Z0-9]+\/B[A-Z0-9]+\/[A-Za-z0-9]+/ },
+  { id: 'stripe-secret-key', description: 'Stripe live secret key', severity: 'high', pattern: /\b([sr]k_live_[A-Za-z0-9]{20,})\b/, group: 1 },
+  { id: 'anthropic-api-key', description: 'Anthropic API key', severity: 'high', pattern: /\b(sk-ant-[A-Za-z0-9_-]{32,})/, group: 1 },
+  { id: 'openai-api-key', description: 'OpenAI API key', severity: 'high', pattern: /\b(sk-(?!ant-)(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{32,})/, group: 1 },
+  { id: 'google-api-key', description: 'Google API key', severity: 'high', pattern: /\b(AIza[0-9A-Za-z_-]{35})\b/, group: 1 },
+  { id: 'sendgrid-api-key', description: 'SendGrid API key', severity: 'high', pattern: /\b(SG\.[A-Za-z0-9_-]{22}\.[A-Za-z0-9_-]{43})\b/, group: 1 },
+  { id: 'npm-token', description: 'npm access token', severity: 'high', pattern: /\b(npm_[A-Za-z0-9]{36})\b/, group: 1 },
+  { id: 'azure-storage-key', description: 'Azure storage account key', severity: 'high', pattern: /AccountKey=([A-Za-z0-9+/]{86}==)/, group: 1 },
+  { id: 'jwt', description: 'JSON Web Token', severity: 'medium', pattern: /\b(eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})/, group: 1 },
+  {
+    id: 'database-url',
+    description: 'Connection string with an embedded password',
+    severity: 'high',
+    pattern: /\b(?:postgres(?:ql)?|mysql|mariadb|mongodb(?:\+srv)?|redis|rediss|amqps?|mssql):\/\/[^\s:@/'"]+:([^\s@/'"]+)@/i,
+    group: 1,
+    accept: value => !isPlaceholder(value)
+  },
+  {
+    id: 'generic-secret',
+    description: 'Hard-coded credential',
+    severity: 'medium',
+    pattern: /[\w.-]*(?:password|passwd|secret|token|api_?key|access_?key|auth_?key|client_?secret)[\w]*['"]?\s*(?:[:=]|:=|=>)\s*['"]([^'"\s]{8,})['"]/i,
+    group: 1,
+    accept: value => !isPlaceholder(value) && shannonEntropy(value) >= 3
+  },
+  {
+    id: 'high-entropy-string',
+    description: 'High-entropy string that looks like a key',
+    severity: 'low',
+    pattern: /['"]([A-Za-z0-9+/_=-]{32,})['"]/,
+    group: 1,
+    // Hex digests top out at 4 bits per character, so they never reach the threshold
+    accept: value => shannonEntropy(value) >= 4.5 && /\d/.test(value) && /[a-z]/.test(value) && /[A-Z]/.test(value)
+  }
+];
+
+// Formats that identify a credential on their own, without a telling variable name
+const TOKEN_RULES = CONTENT_RULES.filter(r => r.id !== 'generic-secret' && r.id !== 'high-entropy-string');
+
+/**
+ * Replace every recognised token format in `text` with `replacement`,
+ * keeping the surrounding text (e.g. the `postgres://user:` prefix)
+ */
+export function maskKnownTokens(text: string, replacement = '***'): string {
+  let masked = text;
+  for (const rule of TOKEN_RULES) {
+    if (rule.exclude) continue;
+    const pattern = new RegExp(rule.pattern.source, `${rule.pattern.flags}g`);
+    masked = masked.replace(pattern, (match: string, ...groups: unknown[]) => {
+      const value = rule.group ? groups[rule.group - 1] : match;
+      if (typeof value !== 'string' || (rule.accept && !rule.accept(value))) return match;
+      return match.replace(value, replacement);
+    });
+  }
+  return masked;
+}
+
+const ENV_FILE = /^\.env(\..+)?$/;
+const ENV_TEMPLATE = /\.(example|sample|template|dist|defaults?|schema)$/i;
+
+const FILE_RULES: FileRule[] = [
+  { id: 'env-file', description: 'Environment file', test: file => ENV_FILE.test(path.posix.basename(file)) && !ENV_TEMPLATE.test(file) },
+  { id: 'private-key-file', description: 'Private key or keystore', test: file => /\.(key|p12|pfx|jks|keystore|ppk)$/i.test(file) || /(^|\/)id_(rsa|dsa|ecdsa|ed25519)$/.test(file) },
+  { id: 'npm-credentials', description: '.npmrc with a registry token', test: (file, content) => /(^|\/)\.npmrc$/.test(file) && /_(authToken|auth|password)\s*=\s*(?!\$\{)\S/.test(content || '') },
+  {
+    id: 'credentials-file',
+    description: 'Credentials file',
+    test: file => /(^|\/)(\.pypirc|\.netrc|_netrc|\.git-credentials|\.htpasswd|\.aws\/credentials|\.docker\/config\.json|\.kube\/config|credentials\.json|service-account.*\.json|terraform\.tfstate(\.backup)?)$/.test(file)
+  }
+];
+
+function scanLine(text: string, rules: ContentRule[]): Array<{ rule: ContentRule; value: string }> {
+  const matches: Array<{ rule: ContentRule; value: string }> = [];
+  for (const rule of rules) {
+    const match = rule.pattern.exec(text);
+    if (!match) continue;
+    const value = match[rule.group ?? 0];
+    if (rule.accept && !rule.accept(value)) continue;
+    // A specific rule already explains this value; the generic ones would only repeat it
+    if (matches.some(m => m.value.includes(value) || value.includes(m.value))) continue;
+    matches.push({ rule, value });
+  }
+  return matches;
+}
+
+function contentRulesFor(file: string): ContentRule[] {
+  if (LOCKFILE.test(file)) return TOKEN_RULES;
+  if (MINIFIED.test(file)) return CONTENT_RULES.filter(r => r.id !== 'high-entropy-string');
+  return CONTENT_RULES;
+}
+
+function fileContent(file: GitHubFile): string | undefined {
+  if (file.content === undefined || file.content === null) return undefined;
+  return typeof file.content === 'string' ? file.content : JSON.stringify(file.content, null, 2);
+}
+
+/**
+ * Scan project files for credentials. Paths in `excluded` are relative to
+ * the project root, in the same form as `GitHubFile.path`.
+ */
+export function scanFilesForSecrets(files: GitHubFile[]): SecretScanResult {
+  const findings: SecretFinding[] = [];
+  const excluded = new Set<string>();
+
+  for (const file of files) {
+    if (file.type !== 'file') continue;
+    const relative = (file.path || file.name).replace(/\\/g, '/').replace(/^\.?\//, '');
+    const content = fileContent(file);
+
+    const fileRule = FILE_RULES.find(rule => rule.test(relative, content));
+    if (fileRule) {
+      excluded.add(relative);
+      findings.push({ file: relative, rule: fileRule.id, description: fileRule.description, severity: 'high', excluded: true });
+    }
+
+    if (!content || content.includes('\u0000')) continue;
+    const rules = contentRulesFor(relative);
+    const lines = content.split(/\r?\n/);
+    for (let index = 0; index < lines.length && findings.length < MAX_FINDINGS; index++) {
+      if (lines[index].length > MAX_LINE_LENGTH) continue;
+      for (const { rule, value } of scanLine(lines[index], rules)) {
+        if (rule.exclude) excluded.add(relative);
+        findings.push({
+          file: relative,
+          line: index + 1,
+          rule: rule.id,
+          description: rule.description,
+          severity: rule.severity,
+          preview: rule.exclude ? undefined : redact(value),
+          excluded: excluded.has(relative)
+        });
+      }
+    }
+  }
+
+  // Findings recorded before a later line excluded the file
+  for (const finding of findings) finding.excluded = excluded.has(finding.file);
+  return { findings: findings.slice(0, MAX_FINDINGS), excluded: [...excluded].sort() };
+}
+
+/**
+ * Secrets in `KEY=value` pairs from ENV, ARG or image metadata: either a
+ * recognised token format, or a literal value under a secret-looking name.
+ */
+function scanAssignments(pairs: Array<{ key: string; value?: string }>, keyword: string): Array<{ key: string; finding: Omit<SecretFinding, 'file' | 'excluded'> }> {
+  const findings: Array<{ key: string; finding: Omit<SecretFinding, 'file' | 'excluded'> }> = [];
+  for (const { key, value } of pairs) {
+    if (!value || value.startsWith('$')) continue;
+    const [known] = scanLine(value, TOKEN_RULES);
+    if (known) {
+      findings.push({ key, finding: { rule: known.rule.id, description: `${known.rule.description} in ${keyword} ${key}`, severity: known.rule.severity, preview: redact(known.value) } });
+    } else if (SECRET_NAME.test(key) && !isPlaceholder(value)) {
+      findings.push({ key, finding: { rule: `${keyword.toLowerCase()}-secret`, description: `${keyword} ${key} holds a literal secret`, severity: keyword === 'ARG' ? 'medium' : 'high', preview: redact(value) } });
+    }
+  }
+  return findings;
+}
+
+/**
+ * Scan a Dockerfile for secrets baked into ENV and ARG values, and for
+ * known token formats anywhere else (RUN curl -H "Authorization: …").
+ */
+export function scanDockerfileForSecrets(content: string, file = 'Dockerfile'): SecretFinding[] {
+  const doc = parseDockerfile(content);
+  const findings: SecretFinding[] = [];
+
+  for (const instruction of doc.instructions) {
+    if (instruction.keyword === 'ENV' || instruction.keyword === 'ARG') {
+      for (const { key, finding } of scanAssignments(parseKeyValues(instruction.value, doc.escape), instruction.keyword)) {
+        const offset = Math.max(0, instruction.value.indexOf(key));
+        findings.push({ file, line: positionAt(instruction, offset).line, ...finding, excluded: false });
+      }
+      continue;
+    }
+    const text = instruction.heredocs.length > 0
+      ? [instruction.value, ...instruction.heredocs.map(h => h.content)].join('\n')
+      : instruction.value;
+    for (const { rule, value } of scanLine(text, CONTENT_RULES.filter(r => r.id !== 'high-entropy-string'))) {
+      const offset = instruction.value.indexOf(value);
+      findings.push({
+        file,
+        line: offset === -1 ? instruction.range.start.line : positionAt(instruction, offset).line,
+        rule: rule.id,
+        description: `${rule.description} in ${instruction.keyword}`,
+        severity: rule.severity,
+        preview: redact(value),
+        excluded: false
+      });
+    }
+  }
+  return findings;
+}
+
+// `docker history` shows build args used by a RUN step as `|2 KEY=value KEY2=value /bin/sh -c …`
+const HISTORY_ARGS = /^(?:RUN\s+)?\|\d+\s+((?:[\w.-]+=\S*\s+)+)/;
+const HISTORY_INSTRUCTION = /^(?:\/bin\/sh -c #\(nop\)\s+)?(ENV|ARG)\s+(.*)$/;
+
+/**
+ * Scan a built image's history and configured environment. Anything found
+ * here is readable by whoever can pull the image, even if a later layer
+ * overrides it.
+ */
+export async function scanImageForSecrets(image: string, engine: DockerEngineClient = dockerEngine): Promise<SecretFinding[]> {
+  const file = `image:${image}`;
+  const findings: SecretFinding[] = [];
+  const seen = new Set<string>();
+  const add = (finding: SecretFinding) => {
+    const key = `${finding.rule}\0${finding.preview}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    findings.push(finding);
+  };
+
+  const history = await engine.imageHistory(image);
+  // Newest layer first, as the engine returns it; number layers from the base up
+  history.forEach((entry, index) => {
+    const layer = history.length - index;
+    const createdBy = (entry.CreatedBy || '').trim();
+    const instruction = HISTORY_INSTRUCTION.exec(createdBy);
+    const args = HISTORY_ARGS.exec(createdBy);
+    const pairs = instruction ? parseKeyValues(instruction[2]) : args ? parseKeyValues(args[1].trim()) : [];
+    const keyword = instruction ? instruction[1] : 'ARG';
+    for (const { finding } of scanAssignments(pairs, keyword)) {
+      add({ file, ...finding, description: `${finding.description} (layer ${layer})`, excluded: false });
+    }
+    for (const { rule, value } of scanLine(createdBy, TOKEN_RULES)) {
+      add({ file, rule: rule.id, description: `${rule.description} in the build command of layer ${layer}`, severity: rule.severity, preview: redact(value), excluded: false });
+    }
+  });
+
+  const inspect = await engine.inspectImage(image);
+  const env = (inspect?.Config.Env || []).map(entry => {
+    const eq = entry.indexOf('=');
+    return eq === -1 ? { key: entry } : { key: entry.slice(0, eq), value: entry.slice(eq + 1) };
+  });
+  for (const { finding } of scanAssignments(env, 'ENV')) {
+    add({ file, ...finding, description: `${finding.description} (image config)`, excluded: false });
+  }
+  return findings;
+}
+
+function escapeIgnorePattern(relative: string): string {
+  return '/' + relative.replace(/[\\*?[\]]/g, '\\$&');
+}
+
+/**
+ * Add the excluded paths to `.dockerignore` in the context root and in every
+ * directory above an excluded file, so the secrets stay out whichever of
+ * those directories a service is built from. Rewrites its own block on
+ * repeated calls and leaves the project's own rules untouched.
+ */
+export function writeSecretDockerignore(contextDir: string, excluded: string[]): void {
+  if (excluded.length === 0) return;
+  const byDir = new Map<string, string[]>();
+  for (const file of excluded) {
+    const parts = file.split('/');
+    for (let depth = 0; depth < parts.length; depth++) {
+      const dir = parts.slice(0, depth).join('/');
+      byDir.set(dir, [...(byDir.get(dir) || []), parts.slice(depth).join('/')]);
+    }
+  }
+
+  for (const [dir, paths] of byDir) {
+    const target = path.join(contextDir, dir, '.dockerignore');
+    if (!fs.existsSync(path.dirname(target))) continue;
+    const existing = fs.existsSync(target) ? fs.readFileSync(target, 'utf-8') : '';
+    const start = existing.indexOf(DOCKERIGNORE_MARKER);
+    const end = existing.indexOf(DOCKERIGNORE_END);
+    const own = start === -1 ? existing : existing.slice(0, start) + (end === -1 ? '' : existing.slice(end + DOCKERIGNORE_END.length + 1));
+    const block = [DOCKERIGNORE_MARKER, ...paths.map(escapeIgnorePattern), DOCKERIGNORE_END, ''].join('\n');
+    fs.writeFileSync(target, `${own.replace(/\n*$/, own.trim() ? '\n\n' : '')}${block}`, 'utf-8');
+  }
+}
+
+/**
+ * One log line per finding, without the secret
+ */
+export function formatSecretFinding(finding: SecretFinding): string {
+  const location = finding.line ? `${finding.file}:${finding.line}` : finding.file;
+  return `${location} — ${finding.description}${finding.preview ? ` (${finding.preview})` : ''}${finding.excluded ? ' [excluded from build context]' : ''}`;
+}
@@ -0,0 +1,398 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { analyzeFiles, GitHubFile, ProjectAnalysis } from './aiService';
+import { generateTemplateDockerfile, selectTemplate, templateDockerignore, TemplateId } from './dockerfileTemplates';
+import { matchesPattern } from './githubWebhook';
+
+/**
+ * Detects repositories that contain several deployable services (JavaScript
+ * workspaces, Nx/Turborepo, Python multi-package, Go multi-module or several
+ * Dockerfiles) and describes one image per service plus how they connect.
+ */
+
+export type WorkspaceTool = 'npm' | 'yarn' | 'pnpm' | 'nx' | 'turborepo' | 'lerna' | 'python' | 'go' | 'dockerfiles';
+
+export interface ServiceDefinition {
+  name: string; // Compose service name
+  path: string; // Service directory relative to the repository root ('.' for the root)
+  context: string; // Build context relative to the repository root
+  dockerfile: string; // Dockerfile path relative to the repository root
+  dockerfileContent: string;
+  generated: boolean; // False when the repository already ships this Dockerfile
+  template?: TemplateId;
+  language: string;
+  framework?: string;
+  port: number;
+  dependsOn: string[];
+}
+
+export interface ServiceLayout {
+  tools: WorkspaceTool[];
+  services: ServiceDefinition[];
+  libraries: string[]; // Member directories that are not deployable on their own
+}
+
+type MemberKind = 'node' | 'python' | 'go' | 'other';
+
+interface Member {
+  path: string;
+  kind: MemberKind;
+  packageName?: string;
+  analysis: ProjectAnalysis;
+  dockerfile?: string;
+  declaredDeps: string[];
+}
+
+const DEFAULT_WORKSPACE_GLOBS = ['apps/*', 'packages/*', 'libs/*', 'services/*'];
+const PYTHON_MANIFESTS = ['pyproject.toml', 'setup.py', 'requirements.txt'];
+const FRONTEND_TEMPLATES: (TemplateId | undefined)[] = ['node-spa', 'node-nextjs', 'static'];
+
+function text(file: GitHubFile | undefined): string | undefined {
+  if (!file?.content) return undefined;
+  return typeof file.content === 'string' ? file.content : JSON.stringify(file.content);
+}
+
+function parseJson(file: GitHubFile | undefined): any {
+  const content = text(file);
+  if (!content) return undefined;
+  try {
+    return JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+}
+
+function dirsContaining(paths: string[], names: string[], maxDepth = 3): string[] {
+  const dirs = paths
+    .filter(p => names.includes(path.posix.basename(p)))
+    .map(p => path.posix.dirname(p))
+    .filter(d => d !== '.' && d.split('/').length <= maxDepth && !d.split('/').includes('node_modules'));
+  return [...new Set(dirs)].sort();
+}
+
+/**
+ * Workspace globs from package.json `workspaces`, pnpm-workspace.yaml or lerna.json
+ */
+function workspaceGlobs(byPath: Map<string, GitHubFile>, tools: WorkspaceTool[]): string[] {
+  const globs: string[] = [];
+  const rootPkg = parseJson(byPath.get('package.json'));
+  const workspaces = Array.isArray(rootPkg?.workspaces) ? rootPkg.workspaces : rootPkg?.workspaces?.packages;
+  if (Array.isArray(workspaces) && workspaces.length > 0) {
+    globs.push(...workspaces);
+    tools.push(byPath.has('pnpm-lock.yaml') ? 'pnpm' : byPath.has('yarn.lock') ? 'yarn' : 'npm');
+  }
+
+  const pnpmWorkspace = text(byPath.get('pnpm-workspace.yaml'));
+  if (pnpmWorkspace) {
+    const block = pnpmWorkspace.match(/^packages:\s*\n((?:\s+-.*\n?)+)/m);
+    const entries = block ? [...block[1].matchAll(/-\s*['"]?([^'"\n]+?)['"]?\s*$/gm)].map(m => m[1]) : [];
+    globs.push(...entries);
+    if (!tools.includes('pnpm')) tools.push('pnpm');
+  }
+
+  const lerna = parseJson(byPath.get('lerna.json'));
+  if (Array.isArray(lerna?.packages)) {
+    globs.push(...lerna.packages);
+    tools.push('lerna');
+  }
+
+  if (byPath.has('nx.json')) tools.push('nx');
+  if (byPath.has('turbo.json')) tools.push('turborepo');
+  if (globs.length === 0 && (byPath.has('nx.json') || byPath.has('turbo.json'))) {
+    globs.push(...DEFAULT_WORKSPACE_GLOBS);
+  }
+
+  return [...new Set(globs.map(g => g.replace(/^\.\//, '').replace(/\/$/, '')))];
+}
+
+function inWorkspace(dir: string, globs: string[]): boolean {
+  const include = globs.filter(g => !g.startsWith('!'));
+  const exclude = globs.filter(g => g.startsWith('!')).map(g => g.slice(1));
+  return matchesPattern(dir, include) && !matchesPattern(dir, exclude);
+}
+
+function goWorkDirs(byPath: Map<string, GitHubFile>): string[] {
+  const goWork = text(byPath.get('go.work'));
+  if (!goWork) return [];
+  const block = goWork.match(/^use\s*\(([\s\S]*?)\)/m);
+  const entries = block
+    ? block[1].split('\n').map(l => l.replace(/\/\/.*$/, '').trim()).filter(Boolean)
+    : [...goWork.matchAll(/^use\s+(\S+)/gm)].map(m => m[1]);
+  return entries.map(e => e.replace(/^\.\//, '').replace(/\/$/, '')).filter(e => e && e !== '.');
+}
+
+function rebase(files: GitHubFile[], dir: string): GitHubFile[] {
+  const prefix = `${dir}/`;
+  return files
+    .filter(f => f.path.startsWith(prefix))
+    .map(f => ({ ...f, path: f.path.slice(prefix.length) }));
+}
+
+function isDeployable(member: Member): boolean {
+  if (member.dockerfile) return true;
+  const { analysis } = member;
+  const files = new Set(analysis.projectFiles || []);
+
+  switch (member.kind) {
+    case 'node':
+      return !!analysis.scripts?.start
+        || ['node-nextjs', 'node-nestjs', 'node-spa'].includes(selectTemplate(analysis));
+    case 'python':
+      return ['flask', 'fastapi', 'django'].includes(analysis.framework || '')
+        || !!analysis.entryPoint
+        || ['main.py', 'app.py', 'manage.py'].some(f => files.has(f));
+    case 'go':
+      return files.has('main.go') || [...files].some(f => /^cmd\/[^/]+\/main\.go$/.test(f));
+    default:
+      return false;
+  }
+}
+
+function serviceName(dir: string, taken: Set<string>): string {
+  const parts = dir === '.' ? ['app'] : dir.split('/');
+  const clean = (value: string) => value.toLowerCase().replace(/[^a-z0-9-]/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '') || 'service';
+  let name = clean(parts[parts.length - 1]);
+  if (taken.has(name) && parts.length > 1) name = clean(parts.slice(-2).join('-'));
+  for (let i = 2; taken.has(name); i++) name = `${clean(parts[parts.length - 1])}-${i}`;
+  taken.add(name);
+  return name;
+}
+
+function exposedPort(dockerfile: string): number {
+  const match = dockerfile.match(/^\s*EXPOSE\s+(\d+)/im);
+  return match ? parseInt(match[1], 10) : 8080;
+}
+
+/**
+ * Existing Dockerfiles that COPY paths prefixed with their own directory
+ * expect the repository root as build context.
+ */
+function existingContext(dir: string, dockerfile: string): string {
+  if (dir === '.') return '.';
+  const sources = [...dockerfile.matchAll(/^\s*(?:COPY|ADD)\s+(?:--\S+\s+)*(.+)$/gim)]
+    .flatMap(m => m[1].trim().split(/\s+/).slice(0, -1));
+  return sources.some(src => src.replace(/^\.\//, '').startsWith(`${dir}/`)) ? '.' : dir;
+}
+
+/**
+ * Local workspace libraries a member depends on, dependencies first
+ */
+function buildOrder(member: Member, byName: Map<string, Member>, seen = new Set<string>()): string[] {
+  const order: string[] = [];
+  for (const dep of member.declaredDeps) {
+    const lib = byName.get(dep);
+    if (!lib || lib === member || lib.kind !== 'node' || seen.has(dep)) continue;
+    seen.add(dep);
+    order.push(...buildOrder(lib, byName, seen));
+    if (lib.analysis.scripts?.build) order.push(dep);
+  }
+  return order;
+}
+
+/**
+ * Split a repository into deployable services. Returns null when the
+ * repository is a single service, so callers keep the one-image flow.
+ */
+export function detectServices(files: GitHubFile[]): ServiceLayout | null {
+  const byPath = new Map(files.filter(f => f.type === 'file').map(f => [f.path, f]));
+  const paths = [...byPath.keys()];
+  const tools: WorkspaceTool[] = [];
+  const members = new Map<string, Member>();
+  const rootLockfiles = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', '.yarnrc.yml'].filter(f => byPath.has(f));
+
+  const addMember = (dir: string, kind: MemberKind) => {
+    if (members.has(dir)) return;
+    const memberFiles = rebase(files, dir);
+    members.set(dir, { path: dir, kind, analysis: analyzeFiles(memberFiles), declaredDeps: [] });
+  };
+
+  // JavaScript workspaces
+  const globs = workspaceGlobs(byPath, tools);
+  if (globs.length > 0) {
+    dirsContaining(paths, ['package.json'], 4)
+      .filter(dir => inWorkspace(dir, globs))
+      .forEach(dir => addMember(dir, 'node'));
+  }
+
+  // Python packages and Go modules; a single one only counts next to other members
+  const pythonDirs = dirsContaining(paths, PYTHON_MANIFESTS, 2).filter(d => !members.has(d));
+  if (pythonDirs.length >= 2 || (pythonDirs.length > 0 && members.size > 0)) {
+    pythonDirs.forEach(dir => addMember(dir, 'python'));
+    tools.push('python');
+  }
+
+  const goDirs = goWorkDirs(byPath);
+  const goModDirs = goDirs.length > 0 ? goDirs : dirsContaining(paths, ['go.mod'], 3);
+  if (goDirs.length > 0 || goModDirs.length >= 2 || (goModDirs.length > 0 && members.size > 0)) {
+    goModDirs.filter(d => !members.has(d)).forEach(dir => addMember(dir, 'go'));
+    tools.push('go');
+  }
+
+  // Directories that already ship a Dockerfile; a lone root Dockerfile means
+  // the repository already builds as a single image
+  const dockerfileDirs = dirsContaining(paths, ['Dockerfile'], 4);
+  if (dockerfileDirs.length === 0 && byPath.has('Dockerfile')) return null;
+  if (dockerfileDirs.length > 0) {
+    if (byPath.has('Dockerfile')) dockerfileDirs.unshift('.');
+    if (dockerfileDirs.length >= 2) tools.push('dockerfiles');
+    if (dockerfileDirs.length >= 2 || members.size > 0) {
+      for (const dir of dockerfileDirs) {
+        if (dir === '.') {
+          members.set('.', { path: '.', kind: 'other', analysis: analyzeFiles(files), declaredDeps: [] });
+        } else {
+          addMember(dir, 'other');
+        }
+        members.get(dir)!.dockerfile = text(byPath.get(dir === '.' ? 'Dockerfile' : `${dir}/Dockerfile`));
+      }
+    }
+  }
+
+  // Package names and the dependencies each member declares
+  const byName = new Map<string, Member>();
+  for (const member of members.values()) {
+    const prefix = member.path === '.' ? '' : `${member.path}/`;
+    const pkg = parseJson(byPath.get(`${prefix}package.json`));
+    const pyproject = text(byPath.get(`${prefix}pyproject.toml`));
+    const goMod = text(byPath.get(`${prefix}go.mod`));
+
+    member.packageName = pkg?.name
+      || pyproject?.match(/^name\s*=\s*["']([^"']+)["']/m)?.[1]
+      || goMod?.match(/^module\s+(\S+)/m)?.[1]
+      || member.path;
+    member.declaredDeps = [
+      ...member.analysis.dependencies.map(d => d.split(/[<>=!~\[;\s]/)[0]),
+      ...[...(goMod || '').matchAll(/^\s*(?:require\s+)?([\w.-]+\.[\w.-]+\/\S+)\s+v/gm)].map(m => m[1])
+    ];
+    byName.set(member.packageName!, member);
+  }
+
+  const deployable = [...members.values()].filter(isDeployable);
+  if (deployable.length < 2) return null;
+
+  const taken = new Set<string>();
+  const names = new Map(deployable.map(m => [m, serviceName(m.path, taken)]));
+
+  const services: ServiceDefinition[] = deployable.map(member => {
+    const dockerfile = member.path === '.' ? 'Dockerfile' : `${member.path}/Dockerfile`;
+    const base = {
+      name: names.get(member)!,
+      path: member.path,
+      dockerfile,
+      language: member.analysis.language,
+      framework: member.analysis.framework,
+      dependsOn: [] as string[]
+    };
+
+    if (member.dockerfile) {
+      return {
+        ...base,
+        context: existingContext(member.path, member.dockerfile),
+        dockerfileContent: member.dockerfile,
+        generated: false,
+        port: exposedPort(member.dockerfile)
+      };
+    }
+
+    if (member.kind === 'node' && globs.length > 0) {
+      member.analysis.lockfiles = rootLockfiles;
+      const result = generateTemplateDockerfile(member.analysis, {
+        workspace: { path: member.path, name: member.packageName!, buildFirst: buildOrder(member, byName) }
+      });
+      return { ...base, context: '.', dockerfileContent: result.dockerfile, generated: true, template: result.template, port: result.port };
+    }
+
+    const result = generateTemplateDockerfile(member.analysis);
+    return { ...base, context: member.path, dockerfileContent: result.dockerfile, generated: true, template: result.template, port: result.port };
+  });
+
+  // Wire services: declared dependencies on other services, and frontends after every backend
+  const serviceByMember = new Map(deployable.map((m, i) => [m, services[i]]));
+  for (const [member, service] of serviceByMember) {
+    const deps = new Set<string>();
+    for (const dep of member.declaredDeps) {
+      const target = byName.get(dep);
+      const targetService = target && serviceByMember.get(target);
+      if (targetService && targetService !== service) deps.add(targetService.name);
+    }
+    if (FRONTEND_TEMPLATES.includes(service.template)) {
+      services
+        .filter(other => other !== service && !FRONTEND_TEMPLATES.includes(other.template))
+        .forEach(other => deps.add(other.name));
+    }
+    service.dependsOn = [...deps].sort();
+  }
+
+  const libraries = [...members.values()]
+    .filter(m => !deployable.includes(m))
+    .map(m => m.path)
+    .sort();
+
+  return { tools: [...new Set(tools)], services, libraries };
+}
+
+/**
+ * `user/repo:tag` -> `user/repo-<service>:tag`
+ */
+export function serviceImageName(baseImage: string, service: string): string {
+  const colon = baseImage.lastIndexOf(':');
+  const hasTag = colon > baseImage.lastIndexOf('/');
+  const repository = hasTag ? baseImage.slice(0, colon) : baseImage;
+  const tag = hasTag ? baseImage.slice(colon + 1) : 'latest';
+  return `${repository}-${service}:${tag}`;
+}
+
+export function serviceImageNames(layout: ServiceLayout, baseImage: string): Record<string, string> {
+  return Object.fromEntries(layout.services.map(s => [s.name, serviceImageName(baseImage, s.name)]));
+}
+
+/**
+ * Render a docker-compose.yml that builds every service from the repository
+ * root. Each dependency is exposed to its dependents as `<SERVICE>_URL`.
+ */
+export function renderComposeFile(layout: ServiceLayout, images: Record<string, string>): string {
+  const usedHostPorts = new Set<number>();
+  const lines = ['# Generated by AutoDeploy from the detected services', 'services:'];
+
+  for (const service of layout.services) {
+    let hostPort = service.port;
+    while (usedHostPorts.has(hostPort)) hostPort++;
+    usedHostPorts.add(hostPort);
+
+    const context = service.context === '.' ? '.' : `./${service.context}`;
+    lines.push(
+      `  ${service.name}:`,
+      `    build:`,
+      `      context: ${context}`,
+      `      dockerfile: ${path.posix.relative(service.context, service.dockerfile)}`
+    );
+    if (images[service.name]) lines.push(`    image: ${images[service.name]}`);
+    lines.push(`    ports:`, `      - "${hostPort}:${service.port}"`);
+
+    if (service.dependsOn.length > 0) {
+      lines.push(`    environment:`);
+      for (const dep of service.dependsOn) {
+        const target = layout.services.find(s => s.name === dep)!;
+        lines.push(`      ${dep.toUpperCase().replace(/-/g, '_')}_URL: http://${dep}:${target.port}`);
+      }
+      lines.push(`    depends_on:`, ...service.dependsOn.map(dep => `      - ${dep}`));
+    }
+    lines.push(`    restart: unless-stopped`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Write generated service Dockerfiles and the compose file into a build context
+ */
+export function writeServiceFiles(buildContext: string, layout: ServiceLayout, composeFile: string): void {
+  for (const service of layout.services) {
+    if (!service.generated) continue;
+    const target = path.join(buildContext, service.dockerfile);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, service.dockerfileContent, 'utf-8');
+    const dockerignore = path.join(buildContext, service.context, '.dockerignore');
+    if (service.template && !fs.existsSync(dockerignore)) fs.writeFileSync(dockerignore, templateDockerignore(service.template), 'utf-8');
+  }
+  fs.writeFileSync(path.join(buildContext, 'docker-compose.yml'), composeFile, 'utf-8');
+}
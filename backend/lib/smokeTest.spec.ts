@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import type { ContainerCreateOptions, DockerEngineClient } from './dockerEngine';
+import {
+  DEFAULT_SMOKE_TEST,
+  parseListeningPorts,
+  parseSmokeTestOptions,
+  smokeTestImage,
+  SmokeTestOptions,
+  SmokeTestOptionsError
+} from './smokeTest';
+
+const PROC_NET_TCP = [
+  '  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode',
+  '   0: 00000000:1F90 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 12345 1',
+  '   1: 0100007F:1F90 0100007F:D431 01 00000000:00000000 00:00000000 00000000  1000        0 12346 1'
+].join('\n');
+
+/** One container whose state, sockets and output the test scripts */
+class FakeEngine {
+  created?: ContainerCreateOptions;
+  removed = false;
+  exposed = ['3000/tcp'];
+
+  constructor(
+    private readonly state: { running: boolean; exitCode?: number; oomKilled?: boolean },
+    private readonly sockets: string | null,
+    private readonly output: string
+  ) {}
+
+  async inspectImage() {
+    return { Config: { ExposedPorts: Object.fromEntries(this.exposed.map(p => [p, {}])) } };
+  }
+
+  async runContainer(options: ContainerCreateOptions) {
+    this.created = options;
+    return 'c1';
+  }
+
+  async inspectContainer() {
+    return { State: { Running: this.state.running, ExitCode: this.state.exitCode ?? 0, OOMKilled: this.state.oomKilled } };
+  }
+
+  async execInContainer() {
+    if (this.sockets === null) throw new Error('exec: "cat": executable file not found in $PATH');
+    return { exitCode: 0, output: this.sockets };
+  }
+
+  async containerLogs() {
+    return this.output;
+  }
+
+  async removeContainer() {
+    this.removed = true;
+  }
+}
+
+const fast = (options: Partial<SmokeTestOptions> = {}): SmokeTestOptions =>
+  ({ ...DEFAULT_SMOKE_TEST, timeoutSeconds: 0.05, stableSeconds: 0.01, ...options });
+
+async function run(engine: FakeEngine, port?: number) {
+  const logs: string[] = [];
+  const result = await smokeTestImage('acme/api:2', fast(), { port, onLog: l => logs.push(l), pollIntervalMs: 5 }, engine as unknown as DockerEngineClient);
+  return { result, logs };
+}
+
+describe('smokeTestImage', () => {
+  it('runs the image without network under resource caps and removes it', async () => {
+    const engine = new FakeEngine({ running: true }, PROC_NET_TCP, 'Listening on 8080');
+    const { result } = await run(engine, 8080);
+
+    expect(result).toMatchObject({ status: 'passed', port: 8080, portListening: true, listeningPorts: [8080] });
+    expect(engine.created).toMatchObject({
+      image: 'acme/api:2',
+      env: { PORT: '8080' },
+      network: 'none',
+      memoryBytes: 512 * 1024 * 1024,
+      nanoCpus: 1e9,
+      securityOpt: ['no-new-privileges']
+    });
+    expect(engine.removed).toBe(true);
+  });
+
+  it('fails when the process listens on another port than the image declares', async () => {
+    const engine = new FakeEngine({ running: true }, PROC_NET_TCP, 'Listening on 8080');
+    const { result } = await run(engine);
+
+    expect(result).toMatchObject({ status: 'failed', port: 3000, portListening: false });
+    expect(result.error).toMatchObject({ code: 'PORT_NOT_LISTENING', category: 'runtime', action: 'fix_port', port: 8080 });
+  });
+
+  it('classifies the crash output of an exited container', async () => {
+    const engine = new FakeEngine({ running: false, exitCode: 1 }, null, "Error: Cannot find module '/app/dist/server.js'");
+    const { result, logs } = await run(engine);
+
+    expect(result).toMatchObject({ status: 'failed', exitCode: 1 });
+    expect(result.error).toMatchObject({ code: 'MODULE_NOT_FOUND', file: '/app/dist/server.js', action: 'fix_command' });
+    expect(logs).toContain("   Error: Cannot find module '/app/dist/server.js'");
+    expect(engine.removed).toBe(true);
+  });
+
+  it('treats failures caused by the sandbox as inconclusive', async () => {
+    const engine = new FakeEngine({ running: false, exitCode: 1 }, null, 'Error: getaddrinfo ENOTFOUND postgres');
+    expect((await run(engine)).result).toMatchObject({ status: 'inconclusive', error: { code: 'DEPENDENCY_UNREACHABLE' } });
+  });
+
+  it('only checks that the process stays up when its sockets cannot be read', async () => {
+    const engine = new FakeEngine({ running: true }, null, '');
+    const { result, logs } = await run(engine);
+    expect(result).toMatchObject({ status: 'passed', port: 3000 });
+    expect(result.portListening).toBeUndefined();
+    expect(logs.some(l => l.includes('port 3000 was not checked'))).toBe(true);
+  });
+});
+
+describe('parseListeningPorts', () => {
+  it('keeps listening sockets only', () => {
+    expect(parseListeningPorts(PROC_NET_TCP)).toEqual([8080]);
+  });
+});
+
+describe('parseSmokeTestOptions', () => {
+  it('fills in defaults and turns the test off with false', () => {
+    expect(parseSmokeTestOptions(undefined)).toEqual(DEFAULT_SMOKE_TEST);
+    expect(parseSmokeTestOptions(false).enabled).toBe(false);
+    expect(parseSmokeTestOptions({ timeoutSeconds: 60, cpus: 0.5, autoFix: false })).toMatchObject({ timeoutSeconds: 60, cpus: 0.5, autoFix: false });
+  });
+
+  it('reports every invalid field', () => {
+    const error = (() => {
+      try {
+        parseSmokeTestOptions({ enabled: 'yes', timeoutSeconds: 1000, memoryMb: 10 });
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(SmokeTestOptionsError);
+    expect((error as SmokeTestOptionsError).errors).toEqual([
+      'enabled must be a boolean',
+      'timeoutSeconds must be an integer between 5 and 300',
+      'memoryMb must be an integer between 64 and 8192'
+    ]);
+    expect(() => parseSmokeTestOptions({ timeoutSeconds: 10, stableSeconds: 10 })).toThrow('stableSeconds must be less than timeoutSeconds');
+  });
+});
@@ -0,0 +1,213 @@
+import { randomBytes } from 'crypto';
+import { classifyRuntimeFailure, BuildError, BuildErrorCode } from '../../shared/buildErrors';
+import { DockerEngineClient, dockerEngine } from './dockerEngine';
+
+/**
+ * Pre-push verification: start the freshly built image in a throwaway
+ * container with no network and capped resources, and check that the
+ * process stays up and listens on its declared port. A crash is classified
+ * as a runtime error so the auto-fixer can act on it before anything is
+ * pushed.
+ */
+
+export interface SmokeTestOptions {
+  enabled: boolean;
+  timeoutSeconds: number; // Hard limit for the whole run
+  stableSeconds: number; // How long the process must stay up
+  memoryMb: number;
+  cpus: number;
+  autoFix: boolean; // Feed crashes back into DockerAutoFixer and rebuild
+}
+
+export interface SmokeTestResult {
+  status: 'passed' | 'failed' | 'inconclusive';
+  image: string;
+  port?: number;
+  portListening?: boolean; // Undefined when the container's sockets could not be read
+  listeningPorts?: number[];
+  exitCode?: number;
+  uptimeMs: number;
+  logs: string; // Tail of stdout/stderr
+  message: string;
+  error?: BuildError;
+  startedAt: string;
+  finishedAt: string;
+}
+
+export interface SmokeTestContext {
+  port?: number; // Declared port; read from the image's EXPOSE when omitted
+  onLog: (line: string) => void;
+  pollIntervalMs?: number;
+}
+
+export class SmokeTestOptionsError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid smoke test options: ${errors.join('; ')}`);
+    this.name = 'SmokeTestOptionsError';
+  }
+}
+
+export const DEFAULT_SMOKE_TEST: SmokeTestOptions = {
+  enabled: true,
+  timeoutSeconds: 30,
+  stableSeconds: 5,
+  memoryMb: 512,
+  cpus: 1,
+  autoFix: true
+};
+
+export const SMOKE_TEST_LABEL = 'autodeploy.smoke';
+
+/** Failures the sandbox causes itself: the image may well work with network access and its configuration */
+export const SANDBOX_LIMITED_CODES: BuildErrorCode[] = ['MISSING_ENV_VAR', 'DEPENDENCY_UNREACHABLE'];
+
+const PIDS_LIMIT = 256;
+const LOG_TAIL = 50;
+
+function number(value: unknown, key: string, min: number, max: number, errors: string[], integer = true): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || (integer && !Number.isInteger(value)) || value < min || value > max) {
+    errors.push(`${key} must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max}`);
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Validate smoke test settings from a request body; `false` turns the test off
+ */
+export function parseSmokeTestOptions(input: unknown): SmokeTestOptions {
+  if (input === undefined || input === null || input === true) return { ...DEFAULT_SMOKE_TEST };
+  if (input === false) return { ...DEFAULT_SMOKE_TEST, enabled: false };
+  if (typeof input !== 'object' || Array.isArray(input)) throw new SmokeTestOptionsError(['smokeTest must be an object or a boolean']);
+
+  const value = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const options: SmokeTestOptions = { ...DEFAULT_SMOKE_TEST };
+
+  for (const key of ['enabled', 'autoFix'] as const) {
+    if (value[key] === undefined) continue;
+    if (typeof value[key] !== 'boolean') errors.push(`${key} must be a boolean`);
+    else options[key] = value[key] as boolean;
+  }
+  options.timeoutSeconds = number(value.timeoutSeconds, 'timeoutSeconds', 5, 300, errors) ?? options.timeoutSeconds;
+  options.stableSeconds = number(value.stableSeconds, 'stableSeconds', 1, 60, errors) ?? options.stableSeconds;
+  options.memoryMb = number(value.memoryMb, 'memoryMb', 64, 8192, errors) ?? options.memoryMb;
+  options.cpus = number(value.cpus, 'cpus', 0.1, 8, errors, false) ?? options.cpus;
+  if (errors.length === 0 && options.stableSeconds >= options.timeoutSeconds) {
+    errors.push('stableSeconds must be less than timeoutSeconds');
+  }
+
+  if (errors.length > 0) throw new SmokeTestOptionsError(errors);
+  return options;
+}
+
+/**
+ * TCP ports in LISTEN state from /proc/net/tcp{,6} content. The local
+ * address column is `ADDR:PORT` in hex, state 0A is LISTEN.
+ */
+export function parseListeningPorts(procNetTcp: string): number[] {
+  const ports = new Set<number>();
+  for (const line of procNetTcp.split('\n')) {
+    const columns = line.trim().split(/\s+/);
+    if (columns.length < 4 || columns[3] !== '0A') continue;
+    const port = parseInt(columns[1].split(':').pop() || '', 16);
+    if (port > 0) ports.add(port);
+  }
+  return [...ports].sort((a, b) => a - b);
+}
+
+/** Ports the container listens on, or undefined when the image has no `cat` to read them with */
+async function listeningPorts(engine: DockerEngineClient, id: string): Promise<number[] | undefined> {
+  try {
+    const { exitCode, output } = await engine.execInContainer(id, ['cat', '/proc/net/tcp', '/proc/net/tcp6']);
+    // tcp6 is missing when IPv6 is off; cat still prints tcp and exits 1
+    if (exitCode !== 0 && !/\bsl\s+local_address/.test(output)) return undefined;
+    return parseListeningPorts(output);
+  } catch {
+    return undefined;
+  }
+}
+
+async function declaredPort(engine: DockerEngineClient, image: string): Promise<number | undefined> {
+  const info = await engine.inspectImage(image);
+  const exposed = Object.keys(info?.Config.ExposedPorts || {}).find(p => p.endsWith('/tcp'));
+  return exposed ? parseInt(exposed, 10) : undefined;
+}
+
+/**
+ * Run `image` in the sandbox until it has stayed up for
+ * `options.stableSeconds` and listens on its port, or until it exits or
+ * `options.timeoutSeconds` pass. The container is always removed.
+ */
+export async function smokeTestImage(
+  image: string,
+  options: SmokeTestOptions,
+  context: SmokeTestContext,
+  engine: DockerEngineClient = dockerEngine
+): Promise<SmokeTestResult> {
+  const startedAt = new Date().toISOString();
+  const port = context.port ?? await declaredPort(engine, image);
+  const pollIntervalMs = context.pollIntervalMs ?? 500;
+
+  context.onLog(`🧪 Smoke testing ${image} without network (${options.memoryMb} MB, ${options.cpus} CPU, ${options.timeoutSeconds}s limit)`);
+  const id = await engine.runContainer({
+    image,
+    name: `autodeploy-smoke-${randomBytes(4).toString('hex')}`,
+    env: port ? { PORT: String(port) } : {},
+    labels: { [SMOKE_TEST_LABEL]: 'true' },
+    memoryBytes: options.memoryMb * 1024 * 1024,
+    nanoCpus: Math.round(options.cpus * 1e9),
+    network: 'none',
+    pidsLimit: PIDS_LIMIT,
+    securityOpt: ['no-new-privileges']
+  });
+
+  const started = Date.now();
+  let running = true;
+  let exitCode: number | undefined;
+  let oomKilled = false;
+  let ports: number[] | undefined;
+  let uptimeMs = 0;
+  let logs = '';
+  try {
+    while (true) {
+      const info = await engine.inspectContainer(id);
+      uptimeMs = Date.now() - started;
+      if (!info.State.Running) {
+        running = false;
+        exitCode = info.State.ExitCode;
+        oomKilled = !!info.State.OOMKilled;
+        break;
+      }
+      if (uptimeMs >= options.stableSeconds * 1000) {
+        ports = port ? await listeningPorts(engine, id) : undefined;
+        // Without a port or a way to read sockets, staying up is all we can check
+        if (!port || !ports || ports.includes(port)) break;
+      }
+      if (uptimeMs >= options.timeoutSeconds * 1000) break;
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+    }
+    logs = (await engine.containerLogs(id, { tail: LOG_TAIL }).catch(() => '')).trim();
+  } finally {
+    await engine.removeContainer(id).catch(() => undefined);
+  }
+
+  const portListening = port && ports ? ports.includes(port) : undefined;
+  const base = { image, port, portListening, listeningPorts: ports, exitCode, uptimeMs, logs, startedAt };
+  const finish = (fields: Pick<SmokeTestResult, 'status' | 'message'> & Partial<SmokeTestResult>): SmokeTestResult =>
+    ({ ...base, ...fields, finishedAt: new Date().toISOString() });
+
+  if (running && portListening !== false) {
+    const checked = portListening ? ` and listens on port ${port}` : '';
+    if (port && portListening === undefined) context.onLog(`⚠️ Could not read the container's sockets; port ${port} was not checked`);
+    context.onLog(`✅ Smoke test passed: up for ${Math.round(uptimeMs / 1000)}s${checked}`);
+    return finish({ status: 'passed', message: `Process stayed up for ${Math.round(uptimeMs / 1000)}s${checked}` });
+  }
+
+  const error = classifyRuntimeFailure(logs, { running, exitCode, oomKilled, port, listeningPorts: ports });
+  const status = SANDBOX_LIMITED_CODES.includes(error.code) ? 'inconclusive' : 'failed';
+  context.onLog(`${status === 'failed' ? '❌' : '⚠️'} Smoke test ${status}: ${error.message}`);
+  if (error.excerpt) context.onLog(`   ${error.excerpt}`);
+  return finish({ status, message: error.message, error });
+}
@@ -5,7 +5,7 @@ const SUPABASE_URL = process.env.SUPABASE_URL || 'https://placeholder.supabase.c
 const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY || 'placeholder-key';
 
 // Check if we have real Supabase credentials
-const hasSupabaseConfig = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY;
+export const hasSupabaseConfig = !!(process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY);
 
 if (!hasSupabaseConfig) {
   console.warn('⚠️  Supabase environment variables not found. Using placeholder values for development.');
@@ -0,0 +1,77 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { createHash, randomBytes } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { readUpload, UploadLimits } from './uploads';
+import { UploadSessionError, UploadSessionStore } from './uploadSessions';
+
+const LIMITS: UploadLimits = { maxFileBytes: 1024 * 1024, maxTotalBytes: 4 * 1024 * 1024, maxFiles: 10, maxCompressionRatio: 100, maxContentBytes: 64 * 1024 };
+const sha256 = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+
+describe('UploadSessionStore', () => {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-sessions-spec-'));
+  afterAll(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+  let now = Date.parse('2025-10-01T00:00:00Z');
+  const store = () => new UploadSessionStore({ root: tmp, chunkSize: 1000, retentionMs: 60 * 60 * 1000 }, LIMITS, () => now);
+
+  it('resumes from the chunks on disk and assembles files that go through readUpload', async () => {
+    const model = randomBytes(2500);
+    const source = Buffer.from('import pickle\n');
+    const first = store();
+    const session = first.create({ files: [{ path: 'app/models/model.pkl', size: model.length, sha256: sha256(model) }, { path: 'app/main.py', size: source.length }] });
+
+    const chunk = (index: number) => model.subarray(index * 1000, (index + 1) * 1000);
+    await first.writeChunk(session, 0, 0, Readable.from([chunk(0)]), sha256(chunk(0)));
+    await first.writeChunk(session, 0, 2, Readable.from([chunk(2)]), sha256(chunk(2)));
+
+    // After a reload the client asks what is missing, here from a fresh store
+    const second = store();
+    const resumed = second.get(session.id);
+    const progress = second.progress(resumed);
+    expect(progress.files[0]).toMatchObject({ chunks: 3, receivedChunks: [0, 2], receivedBytes: 1500, ranges: [[0, 1000], [2000, 2500]] });
+    expect(progress.complete).toBe(false);
+    await expect(second.assemble(resumed)).rejects.toMatchObject({ code: 'incomplete' });
+
+    await second.writeChunk(resumed, 0, 1, Readable.from([chunk(1)]), sha256(chunk(1)));
+    const done = await second.writeChunk(resumed, 1, 0, Readable.from([source]), sha256(source));
+    expect(done).toMatchObject({ receivedBytes: 2514, totalBytes: 2514, complete: true });
+
+    const { files } = readUpload(await second.assemble(resumed), LIMITS);
+    const pickle = files.find(file => file.path === 'models/model.pkl')!;
+    expect(fs.readFileSync(pickle.localPath!).equals(model)).toBe(true);
+    expect(pickle.content).toBeUndefined();
+    expect(files.find(file => file.path === 'main.py')?.content).toBe('import pickle\n');
+  });
+
+  it('rejects chunks with the wrong checksum or length and keeps nothing of them', async () => {
+    const uploads = store();
+    const session = uploads.create({ files: [{ path: 'a.bin', size: 1500 }] });
+    const data = randomBytes(1000);
+
+    await expect(uploads.writeChunk(session, 0, 0, Readable.from([data]), sha256(randomBytes(8)))).rejects.toMatchObject({ code: 'checksum_mismatch' });
+    await expect(uploads.writeChunk(session, 0, 1, Readable.from([data]), sha256(data))).rejects.toThrow(/longer than 500 bytes/);
+    await expect(uploads.writeChunk(session, 0, 2, Readable.from([data]), sha256(data))).rejects.toThrow(/out of range/);
+    await expect(uploads.writeChunk(session, 0, 0, Readable.from([data]), 'not-a-checksum')).rejects.toThrow(/X-Chunk-Sha256/);
+    expect(uploads.progress(session).receivedBytes).toBe(0);
+    expect(fs.readdirSync(path.join(tmp, session.id, 'chunks', '0'))).toEqual([]);
+  });
+
+  it('checks limits up front, hides other users\' sessions and sweeps idle ones', () => {
+    const uploads = store();
+    expect(() => uploads.create({ files: [{ path: 'big.bin', size: 2 * 1024 * 1024 }] })).toThrow(/per file/);
+    expect(() => uploads.create({ files: [{ path: 'project.zip', size: 5 * 1024 * 1024 }] })).toThrow(UploadSessionError);
+    expect(uploads.create({ files: [{ path: 'project.zip', size: 2 * 1024 * 1024 }] }).files).toHaveLength(1);
+    expect(() => uploads.create({ files: [{ path: 'x', size: -1 }] })).toThrow(/whole number/);
+
+    const owned = uploads.create({ files: [{ path: 'x.txt', size: 1 }], userId: 'user-1' });
+    expect(uploads.get(owned.id, 'user-1').id).toBe(owned.id);
+    expect(() => uploads.get(owned.id, 'user-2')).toThrow(/not found/);
+
+    now += 2 * 60 * 60 * 1000;
+    expect(uploads.sweep()).toContain(owned.id);
+    expect(() => uploads.get(owned.id, 'user-1')).toThrow(/expired/);
+  });
+});
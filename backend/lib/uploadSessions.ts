@@ -0,0 +1,334 @@
+import { createHash, randomUUID } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { Readable } from 'stream';
+import { archiveKind, uploadLimitsFromEnv, UploadedFile, UploadLimits } from './uploads';
+
+/**
+ * Resumable chunked uploads. A session lists the files up front; each file
+ * is sent as numbered chunks with a SHA-256 checksum, written straight to
+ * disk. Received chunks are read back from disk, so a client can ask what
+ * is missing after a reload or a server restart and send only that.
+ * Finishing assembles the files and hands them over as on-disk uploads.
+ */
+
+export interface UploadSessionFile {
+  path: string; // Relative path, as in a folder upload
+  size: number;
+  sha256?: string; // Checked when the file is assembled
+}
+
+export interface UploadSession {
+  id: string;
+  userId?: string;
+  streamId?: string;
+  userPrompt?: string;
+  chunkSize: number;
+  files: UploadSessionFile[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UploadFileProgress {
+  path: string;
+  size: number;
+  chunks: number;
+  receivedChunks: number[];
+  receivedBytes: number;
+  ranges: [number, number][]; // Received byte ranges, end exclusive
+}
+
+export interface UploadProgress {
+  files: UploadFileProgress[];
+  receivedBytes: number;
+  totalBytes: number;
+  complete: boolean;
+}
+
+export type UploadSessionErrorCode = 'invalid' | 'not_found' | 'checksum_mismatch' | 'incomplete' | 'too_large';
+
+export class UploadSessionError extends Error {
+  constructor(readonly code: UploadSessionErrorCode, message: string) {
+    super(message);
+    this.name = 'UploadSessionError';
+  }
+}
+
+/** HTTP status for each error code */
+export const UPLOAD_SESSION_ERROR_STATUS: Record<UploadSessionErrorCode, number> = {
+  invalid: 400,
+  not_found: 404,
+  checksum_mismatch: 422,
+  incomplete: 409,
+  too_large: 413
+};
+
+export interface UploadSessionOptions {
+  root: string;
+  chunkSize: number;
+  retentionMs: number; // Idle time before an unfinished session is removed
+}
+
+const SESSION_FILE = 'session.json';
+const SHA256 = /^[a-f0-9]{64}$/;
+const ID = /^[a-f0-9-]{36}$/;
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+const MB = 1024 * 1024;
+
+export class UploadSessionStore {
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(readonly options: UploadSessionOptions, readonly limits: UploadLimits, private now: () => number = Date.now) {}
+
+  /**
+   * Start a session for the listed files. Sizes are checked against the
+   * upload limits before anything is sent.
+   */
+  create(input: { files: unknown; userId?: string; streamId?: string; userPrompt?: string }): UploadSession {
+    this.startSweeper();
+    this.sweep();
+
+    const files = parseSessionFiles(input.files);
+    if (files.length > this.limits.maxFiles) {
+      throw new UploadSessionError('too_large', `Upload has more than the limit of ${this.limits.maxFiles} files`);
+    }
+    // A lone archive only counts against the total; other files over the per-file limit would be skipped anyway
+    const oversized = files.length === 1 && archiveKind(files[0].path) ? undefined : files.find(file => file.size > this.limits.maxFileBytes);
+    if (oversized) {
+      throw new UploadSessionError('too_large', `${oversized.path} is larger than the limit of ${Math.round(this.limits.maxFileBytes / MB)} MB per file`);
+    }
+    const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    if (totalBytes > this.limits.maxTotalBytes) {
+      throw new UploadSessionError('too_large', `Upload is larger than the limit of ${Math.round(this.limits.maxTotalBytes / MB)} MB`);
+    }
+
+    const at = new Date(this.now()).toISOString();
+    const session: UploadSession = {
+      id: randomUUID(),
+      userId: input.userId,
+      streamId: input.streamId,
+      userPrompt: input.userPrompt,
+      chunkSize: this.options.chunkSize,
+      files,
+      createdAt: at,
+      updatedAt: at
+    };
+    fs.mkdirSync(this.dir(session.id), { recursive: true });
+    this.save(session);
+    return session;
+  }
+
+  /**
+   * A session, or `not_found`. Sessions started by a signed-in user are not
+   * visible to anyone else.
+   */
+  get(id: string, userId?: string): UploadSession {
+    if (!ID.test(id)) throw new UploadSessionError('not_found', 'Upload session not found');
+    let session: UploadSession;
+    try {
+      session = JSON.parse(fs.readFileSync(path.join(this.dir(id), SESSION_FILE), 'utf-8'));
+    } catch {
+      throw new UploadSessionError('not_found', 'Upload session not found or expired');
+    }
+    if (session.userId && session.userId !== userId) throw new UploadSessionError('not_found', 'Upload session not found');
+    return session;
+  }
+
+  /**
+   * Store one chunk. The body must be exactly the chunk's length and match
+   * `sha256`; a chunk that was already received is replaced.
+   */
+  async writeChunk(session: UploadSession, fileIndex: number, chunkIndex: number, body: Readable, sha256: string): Promise<UploadProgress> {
+    const file = session.files[fileIndex];
+    if (!file) throw new UploadSessionError('invalid', `File ${fileIndex} is not part of this upload`);
+    const chunks = chunkCount(file.size, session.chunkSize);
+    if (!Number.isInteger(chunkIndex) || chunkIndex < 0 || chunkIndex >= chunks) {
+      throw new UploadSessionError('invalid', `Chunk ${chunkIndex} is out of range; ${file.path} has ${chunks} chunk(s)`);
+    }
+    if (!SHA256.test(sha256 || '')) throw new UploadSessionError('invalid', 'A SHA-256 checksum of the chunk is required (X-Chunk-Sha256)');
+
+    const expected = Math.min(session.chunkSize, file.size - chunkIndex * session.chunkSize);
+    const chunkDir = path.join(this.dir(session.id), 'chunks', String(fileIndex));
+    fs.mkdirSync(chunkDir, { recursive: true });
+    const target = path.join(chunkDir, String(chunkIndex));
+    const partial = `${target}.${randomUUID()}.part`;
+
+    const hash = createHash('sha256');
+    let received = 0;
+    const measure = new Transform({
+      transform(data: Buffer, _encoding, callback) {
+        received += data.length;
+        if (received > expected) return callback(new UploadSessionError('invalid', `Chunk ${chunkIndex} of ${file.path} is longer than ${expected} bytes`));
+        hash.update(data);
+        callback(null, data);
+      }
+    });
+
+    try {
+      await pipeline(body, measure, fs.createWriteStream(partial));
+      if (received !== expected) {
+        throw new UploadSessionError('invalid', `Chunk ${chunkIndex} of ${file.path} has ${received} bytes, expected ${expected}`);
+      }
+      if (hash.digest('hex') !== sha256) {
+        throw new UploadSessionError('checksum_mismatch', `Chunk ${chunkIndex} of ${file.path} does not match its checksum; send it again`);
+      }
+      fs.renameSync(partial, target);
+    } finally {
+      fs.rmSync(partial, { force: true });
+    }
+
+    this.save({ ...session, updatedAt: new Date(this.now()).toISOString() });
+    return this.progress(session);
+  }
+
+  progress(session: UploadSession): UploadProgress {
+    const files = session.files.map((file, index): UploadFileProgress => {
+      const chunks = chunkCount(file.size, session.chunkSize);
+      let names: string[] = [];
+      try {
+        names = fs.readdirSync(path.join(this.dir(session.id), 'chunks', String(index)));
+      } catch {
+        // Nothing received yet
+      }
+      const receivedChunks = names
+        .filter(name => /^\d+$/.test(name))
+        .map(Number)
+        .filter(chunk => chunk < chunks)
+        .sort((a, b) => a - b);
+
+      const ranges: [number, number][] = [];
+      let receivedBytes = 0;
+      for (const chunk of receivedChunks) {
+        const start = chunk * session.chunkSize;
+        const end = Math.min(start + session.chunkSize, file.size);
+        receivedBytes += end - start;
+        const last = ranges[ranges.length - 1];
+        if (last && last[1] === start) last[1] = end;
+        else ranges.push([start, end]);
+      }
+      return { path: file.path, size: file.size, chunks, receivedChunks, receivedBytes, ranges };
+    });
+
+    const receivedBytes = files.reduce((sum, file) => sum + file.receivedBytes, 0);
+    return {
+      files,
+      receivedBytes,
+      totalBytes: session.files.reduce((sum, file) => sum + file.size, 0),
+      complete: files.every(file => file.receivedChunks.length === file.chunks)
+    };
+  }
+
+  /**
+   * Join each file's chunks and check whole-file checksums. The files stay
+   * in the session directory until `remove`.
+   */
+  async assemble(session: UploadSession): Promise<UploadedFile[]> {
+    const progress = this.progress(session);
+    const missing = progress.files.filter(file => file.receivedChunks.length < file.chunks);
+    if (missing.length > 0) {
+      throw new UploadSessionError('incomplete', `Upload is missing chunks of ${missing.length} file(s), e.g. ${missing[0].path}`);
+    }
+
+    const filesDir = path.join(this.dir(session.id), 'files');
+    fs.mkdirSync(filesDir, { recursive: true });
+    const assembled: UploadedFile[] = [];
+    for (const [index, file] of session.files.entries()) {
+      const target = path.join(filesDir, String(index));
+      const hash = createHash('sha256');
+      const out = fs.openSync(target, 'w');
+      try {
+        for (let chunk = 0; chunk < progress.files[index].chunks; chunk++) {
+          const data = fs.readFileSync(path.join(this.dir(session.id), 'chunks', String(index), String(chunk)));
+          hash.update(data);
+          fs.writeSync(out, data);
+        }
+      } finally {
+        fs.closeSync(out);
+      }
+      if (file.sha256 && hash.digest('hex') !== file.sha256) {
+        throw new UploadSessionError('checksum_mismatch', `${file.path} does not match its checksum after assembly`);
+      }
+      assembled.push({ originalname: file.path, path: target, size: file.size });
+    }
+    fs.rmSync(path.join(this.dir(session.id), 'chunks'), { recursive: true, force: true });
+    return assembled;
+  }
+
+  remove(id: string): void {
+    if (ID.test(id)) fs.rmSync(this.dir(id), { recursive: true, force: true });
+  }
+
+  /**
+   * Remove sessions idle past the retention window; returns their ids
+   */
+  sweep(): string[] {
+    let ids: string[];
+    try {
+      ids = fs.readdirSync(this.options.root).filter(id => ID.test(id));
+    } catch {
+      return [];
+    }
+    const cutoff = this.now() - this.options.retentionMs;
+    const removed = ids.filter(id => {
+      try {
+        const session = JSON.parse(fs.readFileSync(path.join(this.dir(id), SESSION_FILE), 'utf-8')) as UploadSession;
+        return Date.parse(session.updatedAt) < cutoff;
+      } catch {
+        return fs.statSync(this.dir(id)).mtimeMs < cutoff;
+      }
+    });
+    removed.forEach(id => this.remove(id));
+    if (removed.length > 0) console.log(`🧹 Removed ${removed.length} expired upload session(s)`);
+    return removed;
+  }
+
+  private dir(id: string): string {
+    return path.join(this.options.root, id);
+  }
+
+  private save(session: UploadSession): void {
+    fs.writeFileSync(path.join(this.dir(session.id), SESSION_FILE), JSON.stringify(session, null, 2), 'utf-8');
+  }
+
+  private startSweeper(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+}
+
+export function chunkCount(size: number, chunkSize: number): number {
+  return Math.ceil(size / chunkSize);
+}
+
+function parseSessionFiles(value: unknown): UploadSessionFile[] {
+  if (!Array.isArray(value) || value.length === 0) throw new UploadSessionError('invalid', 'files must list at least one { path, size }');
+  const errors: string[] = [];
+  const files = value.map((entry, index): UploadSessionFile => {
+    const { path: filePath, size, sha256 } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof filePath !== 'string' || !filePath) errors.push(`files[${index}].path is required`);
+    if (typeof size !== 'number' || !Number.isSafeInteger(size) || size < 0) errors.push(`files[${index}].size must be a whole number of bytes`);
+    if (sha256 !== undefined && (typeof sha256 !== 'string' || !SHA256.test(sha256))) errors.push(`files[${index}].sha256 must be a lowercase hex SHA-256`);
+    return { path: filePath as string, size: size as number, sha256: sha256 as string | undefined };
+  });
+  if (errors.length > 0) throw new UploadSessionError('invalid', errors.join('; '));
+  return files;
+}
+
+/**
+ * UPLOAD_SESSION_DIR (default <tmpdir>/autodeploy-uploads), UPLOAD_CHUNK_MB
+ * (default 8) and UPLOAD_SESSION_RETENTION_HOURS (default 24)
+ */
+export function uploadSessionOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): UploadSessionOptions {
+  const positive = (value: string | undefined, fallback: number) => Number(value) > 0 ? Number(value) : fallback;
+  return {
+    root: path.resolve(env.UPLOAD_SESSION_DIR || path.join(os.tmpdir(), 'autodeploy-uploads')),
+    chunkSize: Math.round(positive(env.UPLOAD_CHUNK_MB, 8) * MB),
+    retentionMs: positive(env.UPLOAD_SESSION_RETENTION_HOURS, 24) * 60 * 60 * 1000
+  };
+}
+
+export const uploadSessions = new UploadSessionStore(uploadSessionOptionsFromEnv(), uploadLimitsFromEnv());
@@ -0,0 +1,184 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { randomBytes } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { prepareBuildContext } from './docker';
+import { readUpload, safeUploadPath, UploadError, UploadLimits } from './uploads';
+
+const MB = 1024 * 1024;
+const LIMITS: UploadLimits = { maxFileBytes: 2 * MB, maxTotalBytes: 20 * MB, maxFiles: 50, maxCompressionRatio: 100, maxContentBytes: 64 * 1024 };
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d, 0xff, 0xfe]);
+
+interface ZipEntry {
+  name: string;
+  data: Buffer;
+  symlink?: boolean;
+  declaredSize?: number;
+}
+
+/** Minimal zip writer: deflated entries, no CRCs (the reader does not check them) */
+function zipOf(entries: ZipEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf-8');
+    const compressed = zlib.deflateRawSync(entry.data);
+    const size = entry.declaredSize ?? entry.data.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(0x800, 6);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, compressed);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE((3 << 8) | 20, 4);
+    header.writeUInt16LE(0x800, 8);
+    header.writeUInt16LE(8, 10);
+    header.writeUInt32LE(compressed.length, 20);
+    header.writeUInt32LE(size, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(((entry.symlink ? 0o120777 : 0o100644) << 16) >>> 0, 38);
+    header.writeUInt32LE(offset, 42);
+    central.push(header, name);
+    offset += 30 + name.length + compressed.length;
+  }
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+/** Minimal ustar writer; names over 100 bytes get a pax header */
+function tarGzOf(entries: { name: string; data?: Buffer; type?: string; linkTo?: string }[]): Buffer {
+  const blocks: Buffer[] = [];
+  const header = (name: string, size: number, type: string, linkTo = '') => {
+    const block = Buffer.alloc(512);
+    block.write(name.slice(0, 100), 0, 'utf-8');
+    block.write('0000644\0', 100);
+    block.write(`${size.toString(8).padStart(11, '0')}\0`, 124);
+    block.write(type, 156);
+    block.write(linkTo, 157);
+    block.write('ustar\u000000', 257, 'latin1');
+    block.fill(0x20, 148, 156);
+    const sum = block.reduce((total, byte) => total + byte, 0);
+    block.write(`${sum.toString(8).padStart(6, '0')}\0 `, 148);
+    return block;
+  };
+  const padded = (data: Buffer) => Buffer.concat([data, Buffer.alloc((512 - (data.length % 512)) % 512)]);
+  for (const entry of entries) {
+    const data = entry.data ?? Buffer.alloc(0);
+    if (Buffer.byteLength(entry.name) > 100) {
+      const record = ` path=${entry.name}\n`;
+      const pax = Buffer.from(`${record.length + String(record.length + 2).length}${record}`);
+      blocks.push(header('PaxHeader', pax.length, 'x'), padded(pax));
+    }
+    blocks.push(header(entry.name, data.length, entry.type ?? '0', entry.linkTo), padded(data));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return zlib.gzipSync(Buffer.concat(blocks));
+}
+
+const expectUploadError = (fn: () => unknown, code: UploadError['code']) => {
+  try {
+    fn();
+    expect.unreachable();
+  } catch (error) {
+    expect(error).toBeInstanceOf(UploadError);
+    expect((error as UploadError).code).toBe(code);
+  }
+};
+
+describe('safeUploadPath', () => {
+  it('normalizes relative paths and rejects ones that leave the project', () => {
+    expect(safeUploadPath('./src\\app.py')).toBe('src/app.py');
+    expect(safeUploadPath('src//models/./model.pkl')).toBe('src/models/model.pkl');
+    expect(safeUploadPath('../etc/passwd')).toBeUndefined();
+    expect(safeUploadPath('src/../../x')).toBeUndefined();
+    expect(safeUploadPath('/etc/passwd')).toBeUndefined();
+    expect(safeUploadPath('C:\\Windows\\win.ini')).toBeUndefined();
+  });
+});
+
+describe('readUpload', () => {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'uploads-spec-'));
+  afterAll(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+  it('extracts zip archives and keeps binary files byte for byte into the build context', () => {
+    const archive = zipOf([
+      { name: 'api-main/app.py', data: Buffer.from('print("hi")\n') },
+      { name: 'api-main/models/model.pkl', data: PNG },
+      { name: 'api-main/static/logo.png', data: PNG },
+      { name: 'api-main/node_modules/left-pad/index.js', data: Buffer.from('x') },
+      { name: 'api-main/node_modules/right-pad/index.js', data: Buffer.from('x') },
+      { name: 'api-main/../../evil.sh', data: Buffer.from('rm -rf /') },
+      { name: 'api-main/link', data: Buffer.from('/etc/passwd'), symlink: true }
+    ]);
+
+    const { files, report } = readUpload([{ originalname: 'api.zip', buffer: archive }], LIMITS);
+    expect(files.map(file => file.path).sort()).toEqual(['app.py', 'models/model.pkl', 'static/logo.png']);
+    expect(files.find(file => file.path === 'app.py')?.content).toBe('print("hi")\n');
+    expect(files.find(file => file.path === 'models/model.pkl')?.content).toBeUndefined();
+    expect(report).toMatchObject({ archive: 'api.zip', files: 3, binaryFiles: 2 });
+    expect(report.skipped).toEqual([
+      { path: 'api-main/link', reason: 'symbolic link' },
+      { path: 'api-main/../../evil.sh', reason: 'path outside the project' },
+      { path: 'node_modules/', reason: 'ignored directory' }
+    ]);
+
+    const context = prepareBuildContext('upload', files, 'FROM python:3.12\n', undefined, undefined, path.join(tmp, 'context'));
+    expect(fs.readFileSync(path.join(context, 'static/logo.png')).equals(PNG)).toBe(true);
+    expect(fs.readFileSync(path.join(context, 'models/model.pkl')).equals(PNG)).toBe(true);
+  });
+
+  it('rejects zip bombs and entries that lie about their size', () => {
+    expectUploadError(() => readUpload([{ originalname: 'bomb.zip', buffer: zipOf([{ name: 'zeros', data: Buffer.alloc(2 * MB - 1) }]) }], LIMITS), 'invalid_archive');
+    expectUploadError(() => readUpload([{ originalname: 'lie.zip', buffer: zipOf([{ name: 'a.txt', data: Buffer.from('x'.repeat(5000)), declaredSize: 10 }]) }], LIMITS), 'invalid_archive');
+    expectUploadError(() => readUpload([{ originalname: 'fake.zip', buffer: Buffer.from('not a zip at all, just text padding it out') }], LIMITS), 'invalid_archive');
+  });
+
+  it('extracts tar.gz archives with long names and reports skipped entries', () => {
+    const deep = `src/${'nested/'.repeat(16)}main.go`;
+    const archive = tarGzOf([
+      { name: 'go.mod', data: Buffer.from('module example.com/app\n') },
+      { name: deep, data: Buffer.from('package main\n') },
+      { name: 'weights.h5', data: randomBytes(3 * MB) },
+      { name: 'current', type: '2', linkTo: '/etc' }
+    ]);
+
+    const { files, report } = readUpload([{ originalname: 'app.tar.gz', buffer: archive }], LIMITS);
+    expect(files.map(file => file.path)).toEqual(['go.mod', deep]);
+    expect(report.skipped).toEqual([
+      { path: 'weights.h5', reason: 'larger than 2 MB' },
+      { path: 'current', reason: 'symbolic link' }
+    ]);
+  });
+
+  it('keeps folder upload paths and enforces the total and file count limits', () => {
+    const { files, report } = readUpload([
+      { originalname: 'my-app/package.json', buffer: Buffer.from('{"name":"my-app"}') },
+      { originalname: 'my-app/public/font.woff2', buffer: PNG },
+      { originalname: 'my-app/video.mp4', buffer: Buffer.alloc(3 * MB) }
+    ], LIMITS);
+    expect(files.map(file => file.path)).toEqual(['package.json', 'public/font.woff2']);
+    expect(files[1].buffer?.equals(PNG)).toBe(true);
+    expect(report.skipped).toEqual([{ path: 'my-app/video.mp4', reason: 'larger than 2 MB' }]);
+
+    const many = Array.from({ length: 51 }, (_, i) => ({ originalname: `f${i}.txt`, buffer: Buffer.from('x') }));
+    expectUploadError(() => readUpload(many, LIMITS), 'too_many_files');
+    const large = Array.from({ length: 11 }, (_, i) => ({ originalname: `f${i}.bin`, buffer: Buffer.alloc(2 * MB) }));
+    expectUploadError(() => readUpload(large, LIMITS), 'too_large');
+    expectUploadError(() => readUpload([{ originalname: '../x.txt', buffer: Buffer.from('x') }], LIMITS), 'empty');
+  });
+});
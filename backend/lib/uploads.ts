@@ -0,0 +1,392 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import type { SkippedUpload, UploadReport } from '../../shared/types';
+import type { GitHubFile } from './aiService';
+import { isProbablyText } from './repoFetcher';
+
+/**
+ * Uploaded projects: individual files, folder uploads (relative paths kept)
+ * or a single zip/tar.gz archive. Archives are read in memory with checks on
+ * every entry path, entry type, size and compression ratio. File bytes are
+ * kept as buffers, or on disk for chunked uploads; only text files are
+ * decoded for analysis.
+ */
+
+export type { SkippedUpload, UploadReport };
+
+export type UploadErrorCode = 'too_large' | 'too_many_files' | 'invalid_archive' | 'empty';
+
+export class UploadError extends Error {
+  constructor(readonly code: UploadErrorCode, message: string) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+/** HTTP status for each error code */
+export const UPLOAD_ERROR_STATUS: Record<UploadErrorCode, number> = {
+  too_large: 413,
+  too_many_files: 413,
+  invalid_archive: 400,
+  empty: 400
+};
+
+export interface UploadLimits {
+  maxFileBytes: number; // Larger files are skipped
+  maxTotalBytes: number; // Uncompressed size of the whole upload
+  maxFiles: number;
+  maxCompressionRatio: number; // Above this an archive entry is treated as a zip bomb
+  maxContentBytes: number; // Larger text files are kept but not decoded for analysis
+}
+
+export interface UploadedFile {
+  originalname: string;
+  buffer?: Buffer; // In memory, as multer hands it over
+  path?: string; // On disk, e.g. an assembled chunked upload
+  size?: number;
+}
+
+interface ArchiveEntry {
+  path: string;
+  data?: Buffer;
+  localPath?: string;
+  size: number;
+}
+
+const MB = 1024 * 1024;
+const IGNORED_DIRECTORIES = new Set(['.git', 'node_modules', '__pycache__', '.venv', 'dist', 'build']);
+// Small entries compress well without being bombs, so the ratio is checked above this size
+const RATIO_CHECK_MIN_BYTES = MB;
+const TAR_BLOCK = 512;
+
+/**
+ * UPLOAD_MAX_FILE_MB (default 200), UPLOAD_MAX_MB (default 500) and
+ * UPLOAD_MAX_FILES (default 5000)
+ */
+export function uploadLimitsFromEnv(env: NodeJS.ProcessEnv = process.env): UploadLimits {
+  const positive = (value: string | undefined, fallback: number) => Number(value) > 0 ? Number(value) : fallback;
+  return {
+    maxFileBytes: positive(env.UPLOAD_MAX_FILE_MB, 200) * MB,
+    maxTotalBytes: positive(env.UPLOAD_MAX_MB, 500) * MB,
+    maxFiles: positive(env.UPLOAD_MAX_FILES, 5000),
+    maxCompressionRatio: 100,
+    maxContentBytes: 256 * 1024
+  };
+}
+
+/**
+ * Normalized relative path of an upload or archive entry, or undefined when
+ * it is absolute or climbs out of the project with `..`
+ */
+export function safeUploadPath(raw: string): string | undefined {
+  if (!raw || raw.includes('\0')) return undefined;
+  const slashed = raw.replace(/\\/g, '/');
+  if (slashed.startsWith('/') || /^[A-Za-z]:/.test(slashed)) return undefined;
+  const segments = slashed.split('/').filter(segment => segment !== '' && segment !== '.');
+  if (segments.length === 0 || segments.includes('..')) return undefined;
+  return segments.join('/');
+}
+
+export function archiveKind(name: string): 'zip' | 'tar.gz' | undefined {
+  if (/\.zip$/i.test(name)) return 'zip';
+  if (/\.(tar\.gz|tgz)$/i.test(name)) return 'tar.gz';
+  return undefined;
+}
+
+/**
+ * A GitHubFile that keeps the exact bytes; `content` is set for text files only
+ */
+export function toGitHubFile(filePath: string, data: Buffer, maxContentBytes = 256 * 1024): GitHubFile {
+  const file: GitHubFile = { name: path.posix.basename(filePath), path: filePath, type: 'file', buffer: data };
+  if (data.length <= maxContentBytes && isProbablyText(data)) file.content = data.toString('utf-8');
+  return file;
+}
+
+/**
+ * A GitHubFile whose bytes stay on disk; small text files are also read for analysis
+ */
+export function localGitHubFile(filePath: string, localPath: string, size: number, maxContentBytes = 256 * 1024): GitHubFile {
+  const file: GitHubFile = { name: path.posix.basename(filePath), path: filePath, type: 'file', localPath };
+  if (size <= maxContentBytes) {
+    const data = fs.readFileSync(localPath);
+    if (isProbablyText(data)) file.content = data.toString('utf-8');
+  }
+  return file;
+}
+
+/**
+ * Read a zip archive. Encrypted entries, symlinks and unsupported
+ * compression methods are skipped; entries that expand past the limits or
+ * lie about their size fail the whole upload.
+ */
+export function readZip(data: Buffer, limits: UploadLimits, skipped: SkippedUpload[]): ArchiveEntry[] {
+  const eocd = findEndOfCentralDirectory(data);
+  const count = data.readUInt16LE(eocd + 10);
+  const directoryOffset = data.readUInt32LE(eocd + 16);
+  if (count === 0xffff || directoryOffset === 0xffffffff) {
+    throw new UploadError('invalid_archive', 'ZIP64 archives are not supported');
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let total = 0;
+  let offset = directoryOffset;
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== 0x02014b50) {
+      throw new UploadError('invalid_archive', 'Zip central directory is truncated or corrupt');
+    }
+    const madeBy = data.readUInt16LE(offset + 4);
+    const flags = data.readUInt16LE(offset + 8);
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const size = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const mode = data.readUInt32LE(offset + 38) >>> 16;
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString(flags & 0x800 ? 'utf-8' : 'latin1', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (madeBy >> 8 === 3 && (mode & 0o170000) === 0o120000) {
+      skipped.push({ path: name, reason: 'symbolic link' });
+      continue;
+    }
+    if (flags & 0x1) {
+      skipped.push({ path: name, reason: 'encrypted' });
+      continue;
+    }
+    if (method !== 0 && method !== 8) {
+      skipped.push({ path: name, reason: `unsupported compression method ${method}` });
+      continue;
+    }
+    if (size > limits.maxFileBytes) {
+      skipped.push({ path: name, reason: `larger than ${Math.round(limits.maxFileBytes / MB)} MB` });
+      continue;
+    }
+    if (size > RATIO_CHECK_MIN_BYTES && size / Math.max(compressedSize, 1) > limits.maxCompressionRatio) {
+      throw new UploadError('invalid_archive', `${name} expands more than ${limits.maxCompressionRatio}x; refusing a possible zip bomb`);
+    }
+    total += size;
+    if (total > limits.maxTotalBytes) throw totalError(limits);
+    if (entries.length >= limits.maxFiles) throw filesError(limits);
+
+    if (localOffset + 30 > data.length || data.readUInt32LE(localOffset) !== 0x04034b50) {
+      throw new UploadError('invalid_archive', `Zip entry ${name} is truncated or corrupt`);
+    }
+    const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    if (start + compressedSize > data.length) {
+      throw new UploadError('invalid_archive', `Zip entry ${name} is truncated or corrupt`);
+    }
+    const raw = data.subarray(start, start + compressedSize);
+    let content: Buffer;
+    try {
+      // One byte past the declared size, so entries that lie about it fail below
+      content = method === 0 ? raw : zlib.inflateRawSync(raw, { maxOutputLength: size + 1 });
+    } catch {
+      throw new UploadError('invalid_archive', `Zip entry ${name} could not be decompressed or is larger than declared`);
+    }
+    if (content.length !== size) {
+      throw new UploadError('invalid_archive', `Zip entry ${name} does not match its declared size`);
+    }
+    entries.push({ path: name, data: content, size });
+  }
+  return entries;
+}
+
+/**
+ * Read a gzip-compressed tar archive. Links, devices and other special
+ * entries are skipped; the decompressed size is capped before parsing.
+ */
+export function readTarGz(data: Buffer, limits: UploadLimits, skipped: SkippedUpload[]): ArchiveEntry[] {
+  let tar: Buffer;
+  try {
+    // Room for a header and padding per file on top of the content limit
+    tar = zlib.gunzipSync(data, { maxOutputLength: limits.maxTotalBytes + (limits.maxFiles + 2) * 2 * TAR_BLOCK });
+  } catch (error) {
+    if (error instanceof RangeError || (error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') throw totalError(limits);
+    throw new UploadError('invalid_archive', 'Archive is not valid gzip data');
+  }
+  if (tar.length > RATIO_CHECK_MIN_BYTES && tar.length / Math.max(data.length, 1) > limits.maxCompressionRatio) {
+    throw new UploadError('invalid_archive', `Archive expands more than ${limits.maxCompressionRatio}x; refusing a possible zip bomb`);
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let total = 0;
+  let offset = 0;
+  let longName: string | undefined;
+  while (offset + TAR_BLOCK <= tar.length) {
+    const header = tar.subarray(offset, offset + TAR_BLOCK);
+    if (header.every(byte => byte === 0)) break;
+    if (!validTarChecksum(header)) throw new UploadError('invalid_archive', 'Tar header checksum does not match');
+
+    const size = parseOctal(header.subarray(124, 136));
+    const type = String.fromCharCode(header[156] || 0x30);
+    const dataStart = offset + TAR_BLOCK;
+    if (size === undefined || dataStart + size > tar.length) {
+      throw new UploadError('invalid_archive', 'Tar archive is truncated or corrupt');
+    }
+    offset = dataStart + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+    const body = tar.subarray(dataStart, dataStart + size);
+
+    // Long names come in an extra entry before the file
+    if (type === 'x') {
+      longName = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(body.toString('utf-8'))?.[1] ?? longName;
+      continue;
+    }
+    if (type === 'L') {
+      longName = cString(body);
+      continue;
+    }
+    if (type === 'g') continue;
+
+    const prefix = header.subarray(257, 262).toString('latin1') === 'ustar' ? cString(header.subarray(345, 500)) : '';
+    const name = longName ?? (prefix ? `${prefix}/${cString(header.subarray(0, 100))}` : cString(header.subarray(0, 100)));
+    longName = undefined;
+
+    if (type === '5') continue;
+    if (type === '1' || type === '2') {
+      skipped.push({ path: name, reason: type === '2' ? 'symbolic link' : 'hard link' });
+      continue;
+    }
+    if (type !== '0' && type !== '7') {
+      skipped.push({ path: name, reason: 'special file' });
+      continue;
+    }
+    if (size > limits.maxFileBytes) {
+      skipped.push({ path: name, reason: `larger than ${Math.round(limits.maxFileBytes / MB)} MB` });
+      continue;
+    }
+    total += size;
+    if (total > limits.maxTotalBytes) throw totalError(limits);
+    if (entries.length >= limits.maxFiles) throw filesError(limits);
+    entries.push({ path: name, data: body, size });
+  }
+  return entries;
+}
+
+/**
+ * Turn a multipart upload into project files. A single .zip, .tar.gz or .tgz
+ * is extracted; anything else is taken as individual files whose names may
+ * carry relative paths (folder uploads). A top-level folder shared by every
+ * file is dropped, as are ignored directories such as node_modules.
+ */
+export function readUpload(uploaded: UploadedFile[], limits: UploadLimits = uploadLimitsFromEnv()): { files: GitHubFile[]; report: UploadReport } {
+  const skipped: SkippedUpload[] = [];
+  const single = uploaded.length === 1 ? uploaded[0] : undefined;
+  const kind = single ? archiveKind(single.originalname) : undefined;
+
+  let entries: ArchiveEntry[];
+  if (single && kind) {
+    if (sizeOf(single) > limits.maxTotalBytes) throw totalError(limits);
+    const data = single.buffer ?? fs.readFileSync(single.path!);
+    entries = kind === 'zip' ? readZip(data, limits, skipped) : readTarGz(data, limits, skipped);
+  } else {
+    if (uploaded.length > limits.maxFiles) throw filesError(limits);
+    entries = [];
+    let total = 0;
+    for (const file of uploaded) {
+      const size = sizeOf(file);
+      if (size > limits.maxFileBytes) {
+        skipped.push({ path: file.originalname, reason: `larger than ${Math.round(limits.maxFileBytes / MB)} MB` });
+        continue;
+      }
+      total += size;
+      if (total > limits.maxTotalBytes) throw totalError(limits);
+      entries.push({ path: file.originalname, data: file.buffer, localPath: file.path, size });
+    }
+  }
+
+  const ignored = new Set<string>();
+  const kept: ArchiveEntry[] = [];
+  for (const entry of entries) {
+    const safe = safeUploadPath(entry.path);
+    if (!safe) {
+      skipped.push({ path: entry.path, reason: 'path outside the project' });
+      continue;
+    }
+    kept.push({ ...entry, path: safe });
+  }
+
+  const root = commonRoot(kept.map(entry => entry.path));
+  const files: GitHubFile[] = [];
+  let bytes = 0;
+  for (const entry of kept) {
+    const relative = root ? entry.path.slice(root.length + 1) : entry.path;
+    const segments = relative.split('/');
+    const ignoredAt = segments.slice(0, -1).findIndex(segment => IGNORED_DIRECTORIES.has(segment));
+    if (ignoredAt >= 0) {
+      ignored.add(`${segments.slice(0, ignoredAt + 1).join('/')}/`);
+      continue;
+    }
+    files.push(entry.data
+      ? toGitHubFile(relative, entry.data, limits.maxContentBytes)
+      : localGitHubFile(relative, entry.localPath!, entry.size, limits.maxContentBytes));
+    bytes += entry.size;
+  }
+  ignored.forEach(dir => skipped.push({ path: dir, reason: 'ignored directory' }));
+
+  if (files.length === 0) {
+    throw new UploadError('empty', skipped.length > 0 ? `No usable files in the upload; ${skipped.length} path(s) were skipped` : 'No files uploaded');
+  }
+
+  return {
+    files,
+    report: {
+      archive: single && kind ? single.originalname : undefined,
+      files: files.length,
+      bytes,
+      binaryFiles: files.filter(file => file.content === undefined).length,
+      skipped,
+      limits: { maxFileBytes: limits.maxFileBytes, maxTotalBytes: limits.maxTotalBytes, maxFiles: limits.maxFiles }
+    }
+  };
+}
+
+function sizeOf(file: UploadedFile): number {
+  return file.buffer?.length ?? file.size ?? fs.statSync(file.path!).size;
+}
+
+function findEndOfCentralDirectory(data: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64 KB
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 22 - 0xffff); offset--) {
+    if (data.readUInt32LE(offset) === 0x06054b50) return offset;
+  }
+  throw new UploadError('invalid_archive', 'Not a zip archive');
+}
+
+function validTarChecksum(header: Buffer): boolean {
+  const expected = parseOctal(header.subarray(148, 156));
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK; i++) sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  return expected === sum;
+}
+
+/** Octal number field; base-256 sizes (over 8 GB) are not supported */
+function parseOctal(field: Buffer): number | undefined {
+  if (field[0] & 0x80) return undefined;
+  const text = cString(field).trim();
+  if (!/^[0-7]*$/.test(text)) return undefined;
+  return text ? parseInt(text, 8) : 0;
+}
+
+function cString(field: Buffer): string {
+  const end = field.indexOf(0);
+  return field.toString('utf-8', 0, end === -1 ? field.length : end);
+}
+
+/** Top-level folder shared by every path, e.g. `repo-main` in GitHub zips */
+function commonRoot(paths: string[]): string | undefined {
+  if (paths.length === 0 || paths.some(filePath => !filePath.includes('/'))) return undefined;
+  const first = paths[0].split('/')[0];
+  return paths.every(filePath => filePath.split('/')[0] === first) ? first : undefined;
+}
+
+function totalError(limits: UploadLimits): UploadError {
+  return new UploadError('too_large', `Upload is larger than the limit of ${Math.round(limits.maxTotalBytes / MB)} MB`);
+}
+
+function filesError(limits: UploadLimits): UploadError {
+  return new UploadError('too_many_files', `Upload has more than the limit of ${limits.maxFiles} files`);
+}
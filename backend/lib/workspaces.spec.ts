@@ -0,0 +1,89 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { WorkspaceError, WorkspaceManager } from './workspaces';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('WorkspaceManager', () => {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'workspaces-spec-'));
+  afterAll(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+  let now = Date.parse('2025-10-01T00:00:00Z');
+  const manager = (name: string, limits: Partial<{ maxBytes: number; maxTotalBytes: number }> = {}) =>
+    new WorkspaceManager({ root: path.join(tmp, name), maxBytes: 1024 * 1024, maxTotalBytes: 10 * 1024 * 1024, retentionMs: 24 * HOUR, ...limits }, () => now);
+  const file = (filePath: string, content: string) => ({ name: path.basename(filePath), path: filePath, type: 'file' as const, content });
+
+  it('materializes files into the workspace and skips paths that leave it', () => {
+    const workspaces = manager('files');
+    const workspace = workspaces.create('dep-1', {
+      repoIdentifier: 'https://github.com/acme/api.git',
+      files: [file('src/index.js', 'console.log(1)'), file('../../escape.txt', 'nope')],
+      dockerfile: 'FROM node:20\n'
+    });
+
+    expect(workspace.dir).toBe(path.join(tmp, 'files', 'dep-1', 'context'));
+    expect(fs.readFileSync(path.join(workspace.dir, 'src/index.js'), 'utf-8')).toBe('console.log(1)');
+    expect(fs.existsSync(path.join(workspace.dir, 'Dockerfile'))).toBe(true);
+    expect(fs.existsSync(path.join(tmp, 'files', 'escape.txt'))).toBe(false);
+    expect(fs.existsSync(path.join(tmp, 'escape.txt'))).toBe(false);
+
+    expect(workspaces.resolve('dep-1', 'src/index.js')).toBe(path.join(workspace.dir, 'src/index.js'));
+    expect(() => workspaces.resolve('dep-1', '../workspace.json')).toThrow(WorkspaceError);
+    expect(() => workspaces.require('../dep-1')).toThrow(/is not valid/);
+  });
+
+  it('rejects workspaces over the quota without keeping anything', () => {
+    const workspaces = manager('quota', { maxBytes: 1024 });
+    try {
+      workspaces.create('big', { repoIdentifier: 'big', files: [file('blob.bin', 'x'.repeat(4096))], dockerfile: 'FROM scratch\n' });
+      expect.unreachable();
+    } catch (error) {
+      expect((error as WorkspaceError).code).toBe('quota_exceeded');
+    }
+    expect(workspaces.get('big')).toBeUndefined();
+    expect(fs.existsSync(path.join(tmp, 'quota', 'big'))).toBe(false);
+  });
+
+  it('checks the quota before writing and refuses to replace a workspace in use', async () => {
+    const workspaces = manager('guards', { maxBytes: 1024 });
+    workspaces.create('dep-1', { repoIdentifier: 'dep-1', files: [file('index.js', 'v1')], dockerfile: 'FROM scratch\n' });
+
+    expect(() => workspaces.create('dep-1', { repoIdentifier: 'dep-1', files: [file('blob.bin', 'x'.repeat(1000))], dockerfile: 'FROM node:20\n'.repeat(10) }))
+      .toThrow(expect.objectContaining({ code: 'quota_exceeded' }));
+    expect(fs.readFileSync(path.join(workspaces.require('dep-1').dir, 'index.js'), 'utf-8')).toBe('v1');
+
+    await workspaces.use('dep-1', async () => {
+      expect(() => workspaces.create('dep-1', { repoIdentifier: 'dep-1', files: [file('index.js', 'v2')], dockerfile: 'FROM scratch\n' }))
+        .toThrow(expect.objectContaining({ code: 'busy' }));
+    });
+    expect(fs.readFileSync(path.join(workspaces.require('dep-1').dir, 'index.js'), 'utf-8')).toBe('v1');
+    expect(workspaces.create('dep-1', { repoIdentifier: 'dep-1', files: [file('index.js', 'v2')], dockerfile: 'FROM scratch\n' }).id).toBe('dep-1');
+  });
+
+  it('sweeps idle workspaces after the retention window but not busy ones', async () => {
+    const workspaces = manager('sweep');
+    workspaces.create('old', { repoIdentifier: 'old', files: [], dockerfile: 'FROM scratch\n' });
+    workspaces.create('busy', { repoIdentifier: 'busy', files: [], dockerfile: 'FROM scratch\n' });
+
+    now += 25 * HOUR;
+    const swept = await workspaces.use('busy', async () => workspaces.sweep());
+    expect(swept).toEqual(['old']);
+    expect(workspaces.get('busy')?.lastUsedAt).toBe(new Date(now).toISOString());
+    expect(workspaces.sweep()).toEqual([]);
+  });
+
+  it('evicts the least recently used workspaces to stay under the total quota', () => {
+    const workspaces = manager('evict', { maxTotalBytes: 2500 });
+    const create = (id: string) => {
+      now += 1000;
+      return workspaces.create(id, { repoIdentifier: id, files: [file('data.txt', 'x'.repeat(1000))], dockerfile: 'FROM scratch\n' });
+    };
+
+    create('first');
+    create('second');
+    create('third');
+    expect(workspaces.list().map(workspace => workspace.id).sort()).toEqual(['second', 'third']);
+  });
+});
@@ -0,0 +1,320 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { GitHubFile } from './aiService';
+import { prepareBuildContext } from './docker';
+import type { SecretScanResult } from './secretScanner';
+
+/**
+ * Per-deployment build workspaces. Each deployment's files are materialized
+ * into `<root>/<id>/context`, and fixers and file generators write there
+ * instead of the server's working directory. Workspaces stay for the
+ * retention window after their last use, so later fix requests can reuse
+ * them, and are then removed.
+ */
+
+export interface Workspace {
+  id: string;
+  dir: string; // Build context
+  createdAt: string;
+  lastUsedAt: string;
+  bytes: number; // Size when last measured
+}
+
+export interface WorkspaceFiles {
+  repoIdentifier: string;
+  files: GitHubFile[];
+  dockerfile: string;
+  sourceDir?: string; // Repository checkout, copied in first
+  secrets?: SecretScanResult;
+}
+
+export interface WorkspaceLimits {
+  root: string;
+  maxBytes: number; // Per workspace
+  maxTotalBytes: number; // All workspaces; idle ones are evicted, least recently used first
+  retentionMs: number; // Idle time before a workspace is removed
+}
+
+export type WorkspaceErrorCode = 'invalid_id' | 'not_found' | 'quota_exceeded' | 'outside_workspace' | 'busy';
+
+export class WorkspaceError extends Error {
+  constructor(readonly code: WorkspaceErrorCode, message: string) {
+    super(message);
+    this.name = 'WorkspaceError';
+  }
+}
+
+/** HTTP status for each error code */
+export const WORKSPACE_ERROR_STATUS: Record<WorkspaceErrorCode, number> = {
+  invalid_id: 400,
+  not_found: 404,
+  quota_exceeded: 413,
+  outside_workspace: 400,
+  busy: 409
+};
+
+const ID = /^[A-Za-z0-9._-]{1,128}$/;
+const CONTEXT_DIR = 'context';
+const METADATA_FILE = 'workspace.json';
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+const MB = 1024 * 1024;
+
+/**
+ * Bytes under `dir`, without following symlinks. Stops counting once
+ * `limit` is passed, so oversized trees are not walked to the end.
+ */
+export function directorySize(dir: string, limit = Infinity): number {
+  let total = 0;
+  const pending = [dir];
+  while (pending.length > 0 && total <= limit) {
+    const current = pending.pop()!;
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(current, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      const entryPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        pending.push(entryPath);
+      } else if (entry.isFile()) {
+        try {
+          total += fs.lstatSync(entryPath).size;
+        } catch {
+          // Removed while measuring
+        }
+      }
+    }
+  }
+  return total;
+}
+
+export function workspaceId(prefix: string): string {
+  return `${prefix}-${randomUUID()}`;
+}
+
+/** Bytes the files will take once written to the build context */
+function filesSize(files: GitHubFile[]): number {
+  let total = 0;
+  for (const file of files) {
+    if (file.buffer) total += file.buffer.length;
+    else if (file.content !== undefined) total += Buffer.byteLength(file.content);
+    else if (file.localPath) {
+      try {
+        total += fs.statSync(file.localPath).size;
+      } catch {
+        // Missing files are skipped when the context is prepared
+      }
+    }
+  }
+  return total;
+}
+
+export class WorkspaceManager {
+  private busy = new Map<string, number>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(readonly limits: WorkspaceLimits, private now: () => number = Date.now) {}
+
+  /**
+   * Materialize a deployment's files into a fresh workspace, replacing an
+   * earlier one with the same id. A workspace still in use is never replaced
+   * (`busy`). Files over the per-workspace quota are rejected with
+   * `quota_exceeded` before anything is written.
+   */
+  create(id: string, input: WorkspaceFiles): Workspace {
+    const base = this.baseDir(id);
+    if (this.busy.has(id)) {
+      throw new WorkspaceError('busy', `Workspace ${id} is in use by another build or fix`);
+    }
+    this.startSweeper();
+    this.sweep();
+
+    const sourceBytes = input.sourceDir ? directorySize(input.sourceDir, this.limits.maxBytes) : 0;
+    const inputBytes = sourceBytes + filesSize(input.files) + Buffer.byteLength(input.dockerfile || '');
+    if (inputBytes > this.limits.maxBytes) throw this.quotaError(id, inputBytes);
+
+    fs.rmSync(base, { recursive: true, force: true });
+    fs.mkdirSync(base, { recursive: true });
+    const dir = prepareBuildContext(input.repoIdentifier, input.files, input.dockerfile, input.sourceDir, input.secrets, path.join(base, CONTEXT_DIR));
+
+    const at = new Date(this.now()).toISOString();
+    const workspace: Workspace = { id, dir, createdAt: at, lastUsedAt: at, bytes: directorySize(dir, this.limits.maxBytes) };
+    if (workspace.bytes > this.limits.maxBytes) {
+      fs.rmSync(base, { recursive: true, force: true });
+      throw this.quotaError(id, workspace.bytes);
+    }
+    this.writeMetadata(workspace);
+    this.evict(id);
+    console.log(`🗂️ Workspace ${id} ready (${(workspace.bytes / MB).toFixed(1)} MB)`);
+    return workspace;
+  }
+
+  get(id: string): Workspace | undefined {
+    const metadataPath = path.join(this.baseDir(id), METADATA_FILE);
+    try {
+      const workspace = JSON.parse(fs.readFileSync(metadataPath, 'utf-8')) as Workspace;
+      return fs.existsSync(workspace.dir) ? workspace : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * An existing workspace, or `not_found`
+   */
+  require(id: string): Workspace {
+    const workspace = this.get(id);
+    if (!workspace) throw new WorkspaceError('not_found', `Workspace ${id} does not exist or has expired`);
+    return workspace;
+  }
+
+  /**
+   * Absolute path of `relative` inside a workspace's build context. Paths
+   * that would leave it are rejected.
+   */
+  resolve(id: string, relative = '.'): string {
+    const { dir } = this.require(id);
+    const target = path.resolve(dir, relative);
+    if (path.relative(dir, target).split(path.sep)[0] === '..' || path.isAbsolute(path.relative(dir, target))) {
+      throw new WorkspaceError('outside_workspace', `${relative} is outside the workspace`);
+    }
+    return target;
+  }
+
+  /**
+   * Run `task` against a workspace. It is not swept or evicted meanwhile,
+   * and its last use and size are updated afterwards.
+   */
+  async use<T>(id: string, task: (workspace: Workspace) => Promise<T>): Promise<T> {
+    const workspace = this.require(id);
+    this.busy.set(id, (this.busy.get(id) || 0) + 1);
+    try {
+      return await task(workspace);
+    } finally {
+      const count = (this.busy.get(id) || 1) - 1;
+      if (count > 0) this.busy.set(id, count);
+      else this.busy.delete(id);
+      if (fs.existsSync(workspace.dir)) {
+        this.writeMetadata({
+          ...workspace,
+          lastUsedAt: new Date(this.now()).toISOString(),
+          bytes: directorySize(workspace.dir)
+        });
+      }
+    }
+  }
+
+  /**
+   * Run `task` in a throwaway workspace that is removed afterwards, for
+   * requests that are not tied to a deployment
+   */
+  async scratch<T>(prefix: string, input: WorkspaceFiles, task: (workspace: Workspace) => Promise<T>): Promise<T> {
+    const { id } = this.create(workspaceId(prefix), input);
+    try {
+      return await this.use(id, task);
+    } finally {
+      this.remove(id);
+    }
+  }
+
+  remove(id: string): boolean {
+    const base = this.baseDir(id);
+    if (!fs.existsSync(base)) return false;
+    fs.rmSync(base, { recursive: true, force: true });
+    return true;
+  }
+
+  list(): Workspace[] {
+    let ids: string[];
+    try {
+      ids = fs.readdirSync(this.limits.root);
+    } catch {
+      return [];
+    }
+    return ids
+      .filter(id => ID.test(id))
+      .map(id => this.get(id) ?? this.orphan(id))
+      .filter((workspace): workspace is Workspace => !!workspace);
+  }
+
+  /**
+   * Remove idle workspaces past the retention window; returns their ids
+   */
+  sweep(): string[] {
+    const cutoff = this.now() - this.limits.retentionMs;
+    const removed = this.list()
+      .filter(workspace => !this.busy.has(workspace.id) && Date.parse(workspace.lastUsedAt) < cutoff)
+      .map(workspace => workspace.id);
+    removed.forEach(id => this.remove(id));
+    if (removed.length > 0) console.log(`🧹 Removed ${removed.length} expired workspace(s)`);
+    return removed;
+  }
+
+  /**
+   * Keep the total under its quota by removing idle workspaces, least
+   * recently used first. `keep` (the one just created) is never removed.
+   */
+  private evict(keep: string): void {
+    const workspaces = this.list();
+    let total = workspaces.reduce((sum, workspace) => sum + workspace.bytes, 0);
+    const candidates = workspaces
+      .filter(workspace => workspace.id !== keep && !this.busy.has(workspace.id))
+      .sort((a, b) => a.lastUsedAt.localeCompare(b.lastUsedAt));
+    for (const workspace of candidates) {
+      if (total <= this.limits.maxTotalBytes) break;
+      this.remove(workspace.id);
+      total -= workspace.bytes;
+      console.log(`🧹 Evicted workspace ${workspace.id} to stay under the disk quota`);
+    }
+  }
+
+  /** A directory without metadata, e.g. left by a crash during create */
+  private orphan(id: string): Workspace | undefined {
+    try {
+      const stat = fs.statSync(this.baseDir(id));
+      const at = stat.mtime.toISOString();
+      return { id, dir: path.join(this.baseDir(id), CONTEXT_DIR), createdAt: at, lastUsedAt: at, bytes: directorySize(this.baseDir(id)) };
+    } catch {
+      return undefined;
+    }
+  }
+
+  private baseDir(id: string): string {
+    if (!ID.test(id) || id === '.' || id === '..') throw new WorkspaceError('invalid_id', `Workspace id "${id}" is not valid`);
+    return path.join(this.limits.root, id);
+  }
+
+  private writeMetadata(workspace: Workspace): void {
+    fs.writeFileSync(path.join(this.baseDir(workspace.id), METADATA_FILE), JSON.stringify(workspace, null, 2), 'utf-8');
+  }
+
+  private quotaError(id: string, bytes: number): WorkspaceError {
+    return new WorkspaceError('quota_exceeded', `Workspace ${id} needs more than ${Math.round(this.limits.maxBytes / MB)} MB (found at least ${Math.round(bytes / MB)} MB)`);
+  }
+
+  private startSweeper(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+}
+
+/**
+ * WORKSPACE_ROOT, WORKSPACE_MAX_MB (default 2048), WORKSPACE_TOTAL_MAX_MB
+ * (default 20480) and WORKSPACE_RETENTION_HOURS (default 24)
+ */
+export function workspaceLimitsFromEnv(env: NodeJS.ProcessEnv = process.env): WorkspaceLimits {
+  const positive = (value: string | undefined, fallback: number) => Number(value) > 0 ? Number(value) : fallback;
+  return {
+    root: path.resolve(env.WORKSPACE_ROOT || path.join(os.tmpdir(), 'autodeploy-workspaces')),
+    maxBytes: positive(env.WORKSPACE_MAX_MB, 2048) * MB,
+    maxTotalBytes: positive(env.WORKSPACE_TOTAL_MAX_MB, 20480) * MB,
+    retentionMs: positive(env.WORKSPACE_RETENTION_HOURS, 24) * 60 * 60 * 1000
+  };
+}
+
+export const workspaceManager = new WorkspaceManager(workspaceLimitsFromEnv());
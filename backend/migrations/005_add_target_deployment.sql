@@ -0,0 +1,5 @@
+-- Record where each deployment's image is running so it can be queried, rolled back or torn down
+ALTER TABLE deployments
+ADD COLUMN IF NOT EXISTS target_deployment JSONB;
+
+COMMENT ON COLUMN deployments.target_deployment IS 'Deployment target resource, URL and current/previous revision';
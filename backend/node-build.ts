@@ -1,6 +1,11 @@
 import path from "path";
 import { createServer } from "./index";
+import { attachEventSocket } from "./routes/events";
 import * as express from "express";
+import { routeConsole } from "./lib/logger";
+
+// Plain console lines are written as structured log records too
+routeConsole();
 
 const app = createServer();
 const port = process.env.PORT || 3000;
@@ -22,12 +27,15 @@ app.get(/^(?!\/api).*/, (req, res) => {
   res.sendFile(path.join(distPath, "index.html"));
 });
 
-app.listen(port, () => {
+const server = app.listen(port, () => {
   console.log(`🚀 Fusion Starter server running on port ${port}`);
   console.log(`📱 Frontend: http://localhost:${port}`);
   console.log(`🔧 API: http://localhost:${port}/api`);
 });
 
+// Job events over WebSocket share the HTTP server
+attachEventSocket(server);
+
 // Graceful shutdown
 process.on("SIGTERM", () => {
   console.log("🛑 Received SIGTERM, shutting down gracefully");
@@ -1,25 +1,51 @@
 import { Router } from 'express';
 import { advancedFileDetector } from '../lib/advancedFileDetector';
 import { dockerBuildMonitor } from '../lib/dockerBuildMonitor';
+import { workspaceManager, Workspace, WorkspaceError, WORKSPACE_ERROR_STATUS } from '../lib/workspaces';
+import { requireWorkspaceOwner } from './auth';
 import * as fs from 'fs';
+import * as path from 'path';
 
 const router = Router();
 
 /**
  * 🚀 ADVANCED DOCKER FIX ENDPOINTS
- * These endpoints provide advanced Docker error detection and auto-regeneration
+ * These endpoints provide advanced Docker error detection and auto-regeneration.
+ * They work on a deployment's workspace (`workspaceId`, the deployment id),
+ * never on the server's own directory; only the deployment's signed-in owner
+ * may use its workspace.
  */
 
+/**
+ * Run `task` in the given workspace, or in a scratch workspace holding only
+ * the Dockerfile when no id is given
+ */
+function inWorkspace<T>(workspaceId: string | undefined, dockerfile: string, task: (workspace: Workspace) => Promise<T>): Promise<T> {
+  return workspaceId
+    ? workspaceManager.use(workspaceId, task)
+    : workspaceManager.scratch('advanced-fix', { repoIdentifier: 'dockerfile', files: [], dockerfile }, task);
+}
+
+function errorStatus(error: unknown): number {
+  return error instanceof WorkspaceError ? WORKSPACE_ERROR_STATUS[error.code] : 500;
+}
+
 /**
  * POST /api/advanced-docker-fix/analyze-project
  * Analyze project structure and detect missing files
  */
-router.post('/analyze-project', async (req, res) => {
+router.post('/analyze-project', requireWorkspaceOwner, async (req, res) => {
   try {
-    const { projectPath = '.' } = req.body;
+    const { workspaceId } = req.body;
+    if (!workspaceId) {
+      return res.status(400).json({
+        success: false,
+        error: 'workspaceId is required'
+      });
+    }
     
     console.log('🔍 Running advanced project analysis...');
-    const analysis = await advancedFileDetector.analyzeProject(projectPath);
+    const analysis = await workspaceManager.use(workspaceId, workspace => advancedFileDetector.analyzeProject(workspace.dir));
     
     res.json({
       success: true,
@@ -28,7 +54,7 @@ router.post('/analyze-project', async (req, res) => {
     });
 
   } catch (error) {
-    res.status(500).json({
+    res.status(errorStatus(error)).json({
       success: false,
       error: error instanceof Error ? error.message : 'Project analysis failed'
     });
@@ -39,13 +65,21 @@ router.post('/analyze-project', async (req, res) => {
  * POST /api/advanced-docker-fix/generate-missing-files
  * Generate missing dependency files
  */
-router.post('/generate-missing-files', async (req, res) => {
+router.post('/generate-missing-files', requireWorkspaceOwner, async (req, res) => {
   try {
-    const { projectPath = '.' } = req.body;
+    const { workspaceId } = req.body;
+    if (!workspaceId) {
+      return res.status(400).json({
+        success: false,
+        error: 'workspaceId is required'
+      });
+    }
     
     console.log('📝 Generating missing dependency files...');
-    const analysis = await advancedFileDetector.analyzeProject(projectPath);
-    const generatedFiles = await advancedFileDetector.generateMissingFiles(analysis, projectPath);
+    const { analysis, generatedFiles } = await workspaceManager.use(workspaceId, async workspace => {
+      const analysis = await advancedFileDetector.analyzeProject(workspace.dir);
+      return { analysis, generatedFiles: await advancedFileDetector.generateMissingFiles(analysis, workspace.dir) };
+    });
     
     res.json({
       success: true,
@@ -55,7 +89,7 @@ router.post('/generate-missing-files', async (req, res) => {
     });
 
   } catch (error) {
-    res.status(500).json({
+    res.status(errorStatus(error)).json({
       success: false,
       error: error instanceof Error ? error.message : 'File generation failed'
     });
@@ -66,9 +100,9 @@ router.post('/generate-missing-files', async (req, res) => {
  * POST /api/advanced-docker-fix/fix-dockerfile
  * Fix Dockerfile using advanced AI analysis
  */
-router.post('/fix-dockerfile', async (req, res) => {
+router.post('/fix-dockerfile', requireWorkspaceOwner, async (req, res) => {
   try {
-    const { dockerfile, projectPath = '.' } = req.body;
+    const { dockerfile, workspaceId } = req.body;
     
     if (!dockerfile) {
       return res.status(400).json({
@@ -79,17 +113,14 @@ router.post('/fix-dockerfile', async (req, res) => {
 
     console.log('🤖 Fixing Dockerfile with advanced AI...');
     
-    // Write Dockerfile to temp file
-    const dockerfilePath = 'temp-dockerfile';
-    fs.writeFileSync(dockerfilePath, dockerfile);
-
-    // Run advanced project analysis
-    const analysis = await advancedFileDetector.analyzeProject(projectPath);
-    
-    // Generate missing files
-    if (analysis.missingFiles.length > 0) {
-      await advancedFileDetector.generateMissingFiles(analysis, projectPath);
-    }
+    // Run advanced project analysis and generate missing files
+    const analysis = await inWorkspace(workspaceId, dockerfile, async workspace => {
+      const analysis = await advancedFileDetector.analyzeProject(workspace.dir);
+      if (analysis.missingFiles.length > 0) {
+        await advancedFileDetector.generateMissingFiles(analysis, workspace.dir);
+      }
+      return analysis;
+    });
 
     // Generate intelligent prompt
     const intelligentPrompt = advancedFileDetector.generateIntelligentPrompt(analysis, dockerfile);
@@ -97,9 +128,6 @@ router.post('/fix-dockerfile', async (req, res) => {
     // Use AI to fix the Dockerfile
     const fixedDockerfile = await dockerBuildMonitor['callAIForDockerfileFix'](intelligentPrompt);
 
-    // Clean up temp file
-    fs.unlinkSync(dockerfilePath);
-
     res.json({
       success: true,
       originalDockerfile: dockerfile,
@@ -110,7 +138,7 @@ router.post('/fix-dockerfile', async (req, res) => {
     });
 
   } catch (error) {
-    res.status(500).json({
+    res.status(errorStatus(error)).json({
       success: false,
       error: error instanceof Error ? error.message : 'Dockerfile fix failed'
     });
@@ -121,11 +149,11 @@ router.post('/fix-dockerfile', async (req, res) => {
  * POST /api/advanced-docker-fix/auto-regenerate
  * Automatically regenerate Dockerfile with advanced error detection
  */
-router.post('/auto-regenerate', async (req, res) => {
+router.post('/auto-regenerate', requireWorkspaceOwner, async (req, res) => {
   try {
     const { 
       dockerfile, 
-      projectPath = '.', 
+      workspaceId,
       maxRetries = 3,
       imageName = 'auto-regenerated-image'
     } = req.body;
@@ -149,70 +177,69 @@ router.post('/auto-regenerate', async (req, res) => {
 
     let currentDockerfile = dockerfile;
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      console.log(`\n🔄 Auto-regeneration attempt ${attempt}/${maxRetries}`);
+    await inWorkspace(workspaceId, dockerfile, async workspace => {
+      for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        console.log(`\n🔄 Auto-regeneration attempt ${attempt}/${maxRetries}`);
       
-      // Write current Dockerfile
-      const dockerfilePath = 'temp-dockerfile';
-      fs.writeFileSync(dockerfilePath, currentDockerfile);
+        // Write current Dockerfile
+        const dockerfilePath = path.join(workspace.dir, 'Dockerfile');
+        fs.writeFileSync(dockerfilePath, currentDockerfile);
+
+        // Run project analysis
+        const analysis = await advancedFileDetector.analyzeProject(workspace.dir);
+        results.analysis = analysis;
+
+        // Generate missing files
+        if (analysis.missingFiles.length > 0) {
+          const generatedFiles = await advancedFileDetector.generateMissingFiles(analysis, workspace.dir);
+          results.generatedFiles.push(...generatedFiles);
+        }
 
-      // Run project analysis
-      const analysis = await advancedFileDetector.analyzeProject(projectPath);
-      results.analysis = analysis;
+        // Try to build
+        const buildResult = await dockerBuildMonitor.buildWithAutoFix(
+          dockerfilePath,
+          workspace.dir,
+          `${imageName}-attempt-${attempt}`,
+          1 // Single retry per attempt
+        );
 
-      // Generate missing files
-      if (analysis.missingFiles.length > 0) {
-        const generatedFiles = await advancedFileDetector.generateMissingFiles(analysis, projectPath);
-        results.generatedFiles.push(...generatedFiles);
-      }
+        const attemptResult = {
+          attempt,
+          dockerfile: currentDockerfile,
+          buildSuccess: buildResult.success,
+          errors: buildResult.errors,
+          generatedFiles: results.generatedFiles
+        };
+
+        results.attempts.push(attemptResult);
 
-      // Try to build
-      const buildResult = await dockerBuildMonitor.buildWithAutoFix(
-        dockerfilePath,
-        projectPath,
-        `${imageName}-attempt-${attempt}`,
-        1 // Single retry per attempt
-      );
-
-      const attemptResult = {
-        attempt,
-        dockerfile: currentDockerfile,
-        buildSuccess: buildResult.success,
-        errors: buildResult.errors,
-        generatedFiles: results.generatedFiles
-      };
-
-      results.attempts.push(attemptResult);
-
-      if (buildResult.success) {
-        console.log(`✅ Auto-regeneration successful on attempt ${attempt}`);
-        results.success = true;
-        results.finalDockerfile = currentDockerfile;
-        break;
-      } else {
-        console.log(`❌ Attempt ${attempt} failed, regenerating...`);
+        if (buildResult.success) {
+          console.log(`✅ Auto-regeneration successful on attempt ${attempt}`);
+          results.success = true;
+          results.finalDockerfile = currentDockerfile;
+          break;
+        } else {
+          console.log(`❌ Attempt ${attempt} failed, regenerating...`);
         
-        // Generate intelligent prompt for next attempt
-        const intelligentPrompt = advancedFileDetector.generateIntelligentPrompt(
-          analysis, 
-          currentDockerfile
-        );
+          // Generate intelligent prompt for next attempt
+          const intelligentPrompt = advancedFileDetector.generateIntelligentPrompt(
+            analysis, 
+            currentDockerfile
+          );
         
-        // Get AI-fixed Dockerfile for next attempt
-        const fixedDockerfile = await dockerBuildMonitor['callAIForDockerfileFix'](intelligentPrompt);
+          // Get AI-fixed Dockerfile for next attempt
+          const fixedDockerfile = await dockerBuildMonitor['callAIForDockerfileFix'](intelligentPrompt);
         
-        if (fixedDockerfile && fixedDockerfile !== currentDockerfile) {
-          currentDockerfile = fixedDockerfile;
-          console.log(`🔧 Generated improved Dockerfile for attempt ${attempt + 1}`);
-        } else {
-          console.log(`⚠️ Could not improve Dockerfile, stopping attempts`);
-          break;
+          if (fixedDockerfile && fixedDockerfile !== currentDockerfile) {
+            currentDockerfile = fixedDockerfile;
+            console.log(`🔧 Generated improved Dockerfile for attempt ${attempt + 1}`);
+          } else {
+            console.log(`⚠️ Could not improve Dockerfile, stopping attempts`);
+            break;
+          }
         }
       }
-
-      // Clean up temp file
-      fs.unlinkSync(dockerfilePath);
-    }
+    });
 
     res.json({
       success: results.success,
@@ -223,7 +250,7 @@ router.post('/auto-regenerate', async (req, res) => {
     });
 
   } catch (error) {
-    res.status(500).json({
+    res.status(errorStatus(error)).json({
       success: false,
       error: error instanceof Error ? error.message : 'Auto-regeneration failed'
     });
@@ -266,11 +293,11 @@ HEALTHCHECK --interval=30s --timeout=10s CMD curl -f http://localhost:8080/ || e
 
     console.log('🧪 Testing advanced fix system with your go.mod error...');
     
-    // Run project analysis
-    const analysis = await advancedFileDetector.analyzeProject('.');
-    
-    // Generate missing go.mod file
-    const generatedFiles = await advancedFileDetector.generateMissingFiles(analysis, '.');
+    // Run project analysis and generate the missing go.mod file
+    const { analysis, generatedFiles } = await inWorkspace(undefined, problematicDockerfile, async workspace => {
+      const analysis = await advancedFileDetector.analyzeProject(workspace.dir);
+      return { analysis, generatedFiles: await advancedFileDetector.generateMissingFiles(analysis, workspace.dir) };
+    });
     
     // Generate intelligent prompt
     const intelligentPrompt = advancedFileDetector.generateIntelligentPrompt(analysis, problematicDockerfile);
@@ -290,7 +317,7 @@ HEALTHCHECK --interval=30s --timeout=10s CMD curl -f http://localhost:8080/ || e
     });
 
   } catch (error) {
-    res.status(500).json({
+    res.status(errorStatus(error)).json({
       success: false,
       error: error instanceof Error ? error.message : 'Test failed'
     });
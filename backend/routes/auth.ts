@@ -1,5 +1,8 @@
 import { Request, Response } from 'express';
+import type { User } from '@supabase/supabase-js';
 import { supabaseAdmin } from '../lib/supabase';
+import { deploymentRepository } from '../lib/deploymentRepository';
+import type { DeploymentRecord } from '../../shared/types';
 
 // Middleware to verify JWT token
 export const verifyToken = async (req: Request, res: Response, next: any) => {
@@ -24,6 +27,77 @@ export const verifyToken = async (req: Request, res: Response, next: any) => {
   }
 };
 
+// Middleware that attaches the user when a valid token is sent, but never rejects
+export const optionalAuth = async (req: Request, _res: Response, next: any) => {
+  try {
+    const token = req.headers.authorization?.replace('Bearer ', '');
+
+    if (token) {
+      const { data: { user } } = await supabaseAdmin.auth.getUser(token);
+      if (user) req.user = user;
+    }
+  } catch (error) {
+    console.error('Optional token verification error:', error);
+  }
+  next();
+};
+
+// Admins carry `role: "admin"` in Supabase app_metadata, which only the service role can set
+export function isAdmin(user?: User): boolean {
+  const metadata = user?.app_metadata || {};
+  return metadata.role === 'admin' || (Array.isArray(metadata.roles) && metadata.roles.includes('admin'));
+}
+
+/**
+ * Whether `user` may read or change a stored deployment: its owner, or an
+ * admin for deployments nobody owns
+ */
+export function ownsDeployment(deployment: Pick<DeploymentRecord, 'userId'>, user?: User): boolean {
+  return deployment.userId ? deployment.userId === user?.id : isAdmin(user);
+}
+
+// Middleware that only lets signed-in admins through
+export const requireAdmin = async (req: Request, res: Response, next: any) => {
+  await verifyToken(req, res, () => {
+    if (!isAdmin(req.user)) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+    next();
+  });
+};
+
+// Debug endpoints: not served at all in production, admins only everywhere else
+export const requireDebugAccess = async (req: Request, res: Response, next: any) => {
+  if (process.env.NODE_ENV === 'production') {
+    return res.status(404).json({ error: 'Not found' });
+  }
+  await requireAdmin(req, res, next);
+};
+
+/**
+ * Middleware for routes that work on a deployment's workspace (`workspaceId`
+ * in the body or query): the caller must be signed in and own the
+ * deployment. Workspaces without a stored deployment are for admins only.
+ * Requests without a workspaceId pass through to the route.
+ */
+export const requireWorkspaceOwner = async (req: Request, res: Response, next: any) => {
+  const workspaceId = req.body?.workspaceId ?? req.query.workspaceId;
+  if (!workspaceId) return next();
+
+  await verifyToken(req, res, async () => {
+    try {
+      const deployment = typeof workspaceId === 'string' ? await deploymentRepository.get(workspaceId) : null;
+      if (deployment ? !ownsDeployment(deployment, req.user) : !isAdmin(req.user)) {
+        return res.status(404).json({ success: false, error: `Workspace ${workspaceId} not found` });
+      }
+      next();
+    } catch (error) {
+      console.error('Workspace ownership check error:', error);
+      res.status(500).json({ success: false, error: 'Failed to check workspace access' });
+    }
+  });
+};
+
 // Get current user profile
 export const getCurrentUser = async (req: Request, res: Response) => {
   try {
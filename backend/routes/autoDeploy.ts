@@ -1,32 +1,112 @@
-import { Router } from 'express';
-import { performFullyAutomatedDeployment, handleGitHubWebhook, AutoDeployConfig } from '../lib/autoDeployService';
+import { Router, NextFunction, Request, Response } from 'express';
+import { AutoDeployConfig } from '../lib/autoDeployService';
+import { autoDeployQueue, AutoDeployJob, AutoDeployJobStatus } from '../lib/autoDeployQueue';
+import { getRepoRule, markDelivery, planWebhookDeployment, verifySignature } from '../lib/githubWebhook';
+import { parseBuildOptions, BuildOptionsError } from '../lib/buildOptions';
+import { parseHealthCheckOptions, HealthCheckOptionsError } from '../lib/healthCheck';
+import { parseSmokeTestOptions, SmokeTestOptionsError } from '../lib/smokeTest';
+import { parseVulnerabilityPolicy, VulnerabilityPolicyError } from '../lib/imageScan';
+import { DeploymentTargetError, getDeploymentTarget, validateDeploymentTarget } from '../lib/deploymentTargets';
+import { credentialVault, CredentialVaultError, secretRedactor } from '../lib/credentials';
+import { withTargetCredentials } from '../lib/deploymentTargets/http';
+import { sendCredentialError } from './credentials';
+import { optionalAuth, ownsDeployment, requireAdmin } from './auth';
 
 const router = Router();
 
+const JOB_STATUSES: AutoDeployJobStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled', 'interrupted'];
+
+// Jobs started by a signed-in user are only visible to that user
+function findJob(deploymentId: string, userId?: string): AutoDeployJob | null {
+  const job = autoDeployQueue.get(deploymentId);
+  if (!job || (job.userId && job.userId !== userId)) return null;
+  return job;
+}
+
+/**
+ * Auth for every route that reads or acts on one job. Jobs nobody owns,
+ * such as webhook and test deployments, are for signed-in admins only;
+ * owned jobs are checked against the signed-in user by `findJob`.
+ */
+const jobAuth = async (req: Request, res: Response, next: NextFunction) => {
+  const job = autoDeployQueue.get(String(req.params.deploymentId));
+  if (job && !job.userId) return requireAdmin(req, res, next);
+  await optionalAuth(req, res, next);
+};
+
+function toStatusResponse(job: AutoDeployJob) {
+  return {
+    success: true,
+    deploymentId: job.id,
+    status: job.status,
+    repoUrl: job.config.repoUrl,
+    deploymentTarget: job.config.deploymentTarget,
+    trigger: job.trigger,
+    steps: job.steps,
+    imageName: job.imageName,
+    images: job.images,
+    pushedImages: job.pushedImages,
+    composeFile: job.composeFile,
+    deploymentUrl: job.deploymentUrl,
+    targetDeployment: job.targetDeployment,
+    smokeTest: job.smokeTest,
+    securityReports: job.securityReports,
+    secretFindings: job.secretFindings,
+    healthCheck: job.healthCheck,
+    error: job.error,
+    attempts: job.attempts,
+    logs: job.logs,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt
+  };
+}
+
+function acceptedResponse(job: AutoDeployJob) {
+  return {
+    success: true,
+    deploymentId: job.id,
+    status: job.status,
+    statusUrl: `/api/auto-deploy/status/${job.id}`
+  };
+}
+
 /**
  * 🚀 FULLY AUTOMATED DEPLOYMENT ENDPOINT
  * POST /api/auto-deploy
  * 
- * This endpoint handles the complete automation pipeline:
+ * Queues the complete automation pipeline and responds with 202 and the
+ * deployment ID. The pipeline runs in the background:
  * 1. AI Analysis & Error Detection
  * 2. Missing File Generation (LangChain + GPT-4o Mini)
  * 3. Dockerfile Generation
  * 4. Docker Image Building
- * 5. Docker Hub Push
- * 6. Automatic Deployment
+ * 5. Sandbox Smoke Test, feeding crashes back into the auto-fixer
+ * 6. SBOM & Vulnerability Scan, blocking the push when the policy fails
+ * 7. Docker Hub Push
+ * 8. Automatic Deployment
+ * 9. Health Check, rolling back to the last healthy image on failure
  */
-router.post('/auto-deploy', async (req, res) => {
+router.post('/auto-deploy', optionalAuth, async (req, res) => {
   try {
     const {
       repoUrl,
       githubToken,
       dockerHubUsername,
       dockerHubPassword,
+      githubCredentialId,
+      registryCredentialId,
+      targetCredentialId,
       autoBuild = true,
       autoPush = true,
       autoDeploy = true,
       deploymentTarget = 'dockerhub',
-      deploymentConfig = {}
+      deploymentConfig = {},
+      buildOptions,
+      smokeTest,
+      vulnerabilityPolicy,
+      healthCheck
     } = req.body;
 
     console.log('🚀 Starting FULLY AUTOMATED deployment...');
@@ -40,47 +120,80 @@ router.post('/auto-deploy', async (req, res) => {
       });
     }
 
+    let build: ReturnType<typeof parseBuildOptions>;
+    let smoke: ReturnType<typeof parseSmokeTestOptions>;
+    let policy: ReturnType<typeof parseVulnerabilityPolicy>;
+    let health: ReturnType<typeof parseHealthCheckOptions>;
+    try {
+      build = parseBuildOptions(buildOptions);
+      smoke = parseSmokeTestOptions(smokeTest);
+      policy = parseVulnerabilityPolicy(vulnerabilityPolicy);
+      health = parseHealthCheckOptions(healthCheck);
+    } catch (error) {
+      if (error instanceof BuildOptionsError || error instanceof SmokeTestOptionsError || error instanceof VulnerabilityPolicyError || error instanceof HealthCheckOptionsError) {
+        return res.status(400).json({ success: false, error: error.message, errors: error.errors });
+      }
+      throw error;
+    }
+
+    // Fail fast on targets that cannot run images or are missing settings
+    if (autoDeploy !== false) {
+      try {
+        validateDeploymentTarget(deploymentTarget, deploymentConfig);
+      } catch (error) {
+        if (error instanceof DeploymentTargetError) {
+          return res.status(400).json({ success: false, error: error.message, code: error.code });
+        }
+        throw error;
+      }
+    }
+
+    // Stored credentials are checked now, and opened only when the job runs
+    if (githubCredentialId || registryCredentialId || targetCredentialId) {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Sign in to use stored credentials' });
+      }
+      try {
+        await credentialVault.assertUsable(req.user.id, [
+          { id: githubCredentialId, kinds: ['github', 'github-app'] },
+          { id: registryCredentialId, kinds: ['dockerhub', 'ghcr', 'ecr', 'registry'] },
+          { id: targetCredentialId, kinds: ['cloud'], target: deploymentTarget }
+        ]);
+      } catch (error) {
+        return sendCredentialError(res, error, 'Credential check failed');
+      }
+    }
+
     const config: AutoDeployConfig = {
       repoUrl,
       githubToken,
       dockerHubUsername,
       dockerHubPassword,
+      githubCredentialId,
+      registryCredentialId,
+      targetCredentialId,
       autoBuild,
       autoPush,
       autoDeploy,
       deploymentTarget,
-      deploymentConfig
+      deploymentConfig,
+      buildOptions: build.options,
+      buildSecrets: build.secrets,
+      smokeTest: smoke,
+      vulnerabilityPolicy: policy,
+      healthCheck: health
     };
 
-    // Start the fully automated deployment
-    const result = await performFullyAutomatedDeployment(config);
+    // Queue the pipeline; progress is available from the status endpoint
+    const job = await autoDeployQueue.enqueue(config, { userId: req.user?.id, trigger: 'api' });
 
-    if (result.success) {
-      console.log('🎉 FULLY AUTOMATED DEPLOYMENT COMPLETED SUCCESSFULLY!');
-      console.log(`📊 Deployment ID: ${result.deploymentId}`);
-      console.log(`🐳 Image: ${result.imageName}`);
-      console.log(`🌐 URL: ${result.deploymentUrl}`);
-    } else {
-      console.log('❌ FULLY AUTOMATED DEPLOYMENT FAILED');
-      console.log(`❌ Error: ${result.error}`);
-    }
-
-    res.json(result);
+    res.status(202).json(acceptedResponse(job));
 
   } catch (error) {
     console.error('❌ Auto-deploy endpoint error:', error);
     res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : 'Auto-deployment failed',
-      deploymentId: `error-${Date.now()}`,
-      logs: [],
-      steps: {
-        analysis: false,
-        fileGeneration: false,
-        dockerBuild: false,
-        dockerPush: false,
-        deployment: false
-      }
+      error: error instanceof Error ? error.message : 'Auto-deployment failed'
     });
   }
 });
@@ -89,34 +202,77 @@ router.post('/auto-deploy', async (req, res) => {
  * 🔄 GITHUB WEBHOOK ENDPOINT
  * POST /api/auto-deploy/webhook
  * 
- * This endpoint receives GitHub push events and automatically triggers deployment
- * No manual intervention required - just push to main/master branch!
+ * Receives GitHub push, pull_request and release events. The request must be
+ * signed (X-Hub-Signature-256) with the repository's webhook secret; matching
+ * events are queued and the endpoint responds 202 without waiting for the build.
  */
 router.post('/webhook', async (req, res) => {
   try {
-    const payload = req.body;
-    const event = req.headers['x-github-event'];
-
-    console.log(`🔄 GitHub webhook received: ${event}`);
-
-    if (event === 'push') {
-      const result = await handleGitHubWebhook(payload);
-      
-      if (result.success) {
-        console.log('🎉 Automatic deployment from webhook completed!');
-      } else {
-        console.log('⚠️ Automatic deployment from webhook failed:', result.error);
-      }
+    const event = String(req.headers['x-github-event'] || '');
+    const deliveryId = String(req.headers['x-github-delivery'] || '');
+    const signature = req.headers['x-hub-signature-256'] as string | undefined;
+
+    // GitHub can send either application/json or a form-encoded `payload` field
+    const payload = typeof req.body?.payload === 'string' ? JSON.parse(req.body.payload) : req.body;
+    const repoName: string | undefined = payload?.repository?.full_name;
+
+    console.log(`🔄 GitHub webhook received: ${event} (${deliveryId || 'no delivery id'}) for ${repoName || 'unknown repository'}`);
 
-      res.json(result);
-    } else {
-      res.json({
+    if (event === 'ping') {
+      return res.json({ success: true, message: 'pong' });
+    }
+
+    if (!repoName) {
+      return res.status(400).json({
+        success: false,
+        error: 'Payload has no repository'
+      });
+    }
+
+    const rule = getRepoRule(repoName);
+    if (!rule) {
+      return res.status(401).json({
+        success: false,
+        error: `No webhook secret configured for ${repoName}`
+      });
+    }
+
+    if (!verifySignature(req.rawBody, signature, rule.secret)) {
+      console.log(`🚫 Rejected webhook for ${repoName}: invalid signature`);
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid webhook signature'
+      });
+    }
+
+    if (deliveryId && !markDelivery(deliveryId)) {
+      console.log(`⏭️ Duplicate webhook delivery ignored: ${deliveryId}`);
+      return res.status(200).json({
+        success: true,
+        duplicate: true,
+        message: `Delivery ${deliveryId} was already processed`
+      });
+    }
+
+    const plan = planWebhookDeployment(event, payload, rule);
+    if (!plan.config) {
+      console.log(`⏭️ Webhook ${event} skipped: ${plan.skipReason}`);
+      return res.status(200).json({
         success: true,
-        message: `Webhook event '${event}' received but not processed`,
-        deploymentId: `webhook-${Date.now()}`
+        skipped: true,
+        message: plan.skipReason
       });
     }
 
+    const job = await autoDeployQueue.enqueue(plan.config, { trigger: 'webhook' });
+    console.log(`🎉 Automatic deployment from webhook queued: ${job.id} (${event}, tag ${plan.config.imageTag})`);
+
+    res.status(202).json({
+      ...acceptedResponse(job),
+      event,
+      imageTag: plan.config.imageTag
+    });
+
   } catch (error) {
     console.error('❌ Webhook endpoint error:', error);
     res.status(500).json({
@@ -130,23 +286,20 @@ router.post('/webhook', async (req, res) => {
  * 📊 DEPLOYMENT STATUS ENDPOINT
  * GET /api/auto-deploy/status/:deploymentId
  * 
- * Check the status of a running deployment
+ * Live step progress and accumulated logs for a queued deployment
  */
-router.get('/status/:deploymentId', async (req, res) => {
+router.get('/status/:deploymentId', jobAuth, async (req, res) => {
   try {
-    const { deploymentId } = req.params;
-    
-    // In a real implementation, you'd store deployment status in a database
-    // For now, return a placeholder response
-    res.json({
-      deploymentId,
-      status: 'completed',
-      message: 'Deployment status tracking not yet implemented',
-      logs: [
-        'This endpoint will provide real-time deployment status',
-        'Integration with database storage coming soon'
-      ]
-    });
+    const job = findJob(req.params.deploymentId, req.user?.id);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Deployment not found'
+      });
+    }
+
+    res.json(toStatusResponse(job));
 
   } catch (error) {
     console.error('❌ Status endpoint error:', error);
@@ -157,6 +310,355 @@ router.get('/status/:deploymentId', async (req, res) => {
   }
 });
 
+/**
+ * 🛑 CANCEL DEPLOYMENT ENDPOINT
+ * POST /api/auto-deploy/cancel/:deploymentId
+ *
+ * Queued jobs are dropped immediately; running jobs stop at the next step
+ */
+router.post('/cancel/:deploymentId', jobAuth, async (req, res) => {
+  try {
+    const job = findJob(req.params.deploymentId, req.user?.id);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Deployment not found'
+      });
+    }
+
+    const cancelled = await autoDeployQueue.cancel(job.id);
+    if (!cancelled) {
+      return res.status(409).json({
+        success: false,
+        error: `Deployment already ${job.status}`
+      });
+    }
+
+    res.json(toStatusResponse(cancelled));
+
+  } catch (error) {
+    console.error('❌ Cancel endpoint error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Cancel failed'
+    });
+  }
+});
+
+/**
+ * 🔁 RETRY DEPLOYMENT ENDPOINT
+ * POST /api/auto-deploy/retry/:deploymentId
+ *
+ * Re-queues a failed, cancelled or interrupted job. Credentials are never
+ * stored, so send githubToken / dockerHubPassword / buildSecrets again if
+ * they are needed.
+ */
+router.post('/retry/:deploymentId', jobAuth, async (req, res) => {
+  try {
+    const job = findJob(req.params.deploymentId, req.user?.id);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Deployment not found'
+      });
+    }
+
+    const { githubToken, dockerHubPassword, buildSecrets } = req.body || {};
+    let secrets: ReturnType<typeof parseBuildOptions>['secrets'] | undefined;
+    try {
+      secrets = buildSecrets ? parseBuildOptions({ secrets: buildSecrets }).secrets : undefined;
+    } catch (error) {
+      if (error instanceof BuildOptionsError) {
+        return res.status(400).json({ success: false, error: error.message, errors: error.errors });
+      }
+      throw error;
+    }
+    const retried = await autoDeployQueue.retry(job.id, { githubToken, dockerHubPassword, buildSecrets: secrets });
+    if (!retried) {
+      return res.status(409).json({
+        success: false,
+        error: `Deployment is ${job.status} and cannot be retried`
+      });
+    }
+
+    res.status(202).json(acceptedResponse(retried));
+
+  } catch (error) {
+    console.error('❌ Retry endpoint error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Retry failed'
+    });
+  }
+});
+
+/**
+ * Resolve a job's target and config for the target endpoints, or send the error
+ */
+function targetFor(job: AutoDeployJob, res: Response) {
+  if (!job.targetDeployment) {
+    res.status(409).json({
+      success: false,
+      error: 'Deployment has not been deployed to a target'
+    });
+    return null;
+  }
+  const target = getDeploymentTarget(job.targetDeployment.target);
+  return { target, config: target.validateConfig(job.config.deploymentConfig ?? {}), deployment: job.targetDeployment };
+}
+
+/**
+ * Run target calls with the stored cloud credential the job was deployed
+ * with, if it used one
+ */
+async function asJobOwner<T>(job: AutoDeployJob, run: () => Promise<T>): Promise<T> {
+  const { targetCredentialId, deploymentTarget } = job.config;
+  if (!targetCredentialId || !job.userId) return run();
+  const userId = job.userId;
+  // The resolved secrets are masked in logs only for the duration of the call
+  return secretRedactor.scope(async () => {
+    const env = await credentialVault.resolveTargetEnv(userId, targetCredentialId, job.targetDeployment?.target || deploymentTarget || 'dockerhub');
+    return withTargetCredentials(env, run);
+  });
+}
+
+function sendTargetError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof DeploymentTargetError) {
+    const status = error.code === 'invalid_config' || error.code === 'unsupported' ? 400
+      : error.code === 'forbidden' ? 403
+      : error.code === 'not_found' ? 404
+      : error.code === 'timeout' ? 504
+      : 502;
+    return res.status(status).json({ success: false, error: error.message, code: error.code });
+  }
+  if (error instanceof CredentialVaultError) return sendCredentialError(res, error, fallback);
+  console.error(`❌ ${fallback}:`, error);
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : fallback
+  });
+}
+
+/**
+ * 🎯 TARGET STATUS ENDPOINT
+ * GET /api/auto-deploy/target/:deploymentId
+ *
+ * Asks the deployment target whether the deployed image is actually running
+ */
+router.get('/target/:deploymentId', jobAuth, async (req, res) => {
+  try {
+    const job = findJob(req.params.deploymentId, req.user?.id);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Deployment not found'
+      });
+    }
+
+    const resolved = targetFor(job, res);
+    if (!resolved) return;
+    const status = await asJobOwner(job, () => resolved.target.getStatus(resolved.deployment, resolved.config));
+
+    res.json({ success: true, deploymentId: job.id, targetDeployment: resolved.deployment, status });
+
+  } catch (error) {
+    sendTargetError(res, error, 'Target status check failed');
+  }
+});
+
+/**
+ * ⏪ TARGET ROLLBACK ENDPOINT
+ * POST /api/auto-deploy/target/:deploymentId/rollback
+ *
+ * Moves the target back to the revision that was serving before this deployment
+ */
+router.post('/target/:deploymentId/rollback', jobAuth, async (req, res) => {
+  try {
+    const job = findJob(req.params.deploymentId, req.user?.id);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Deployment not found'
+      });
+    }
+
+    const resolved = targetFor(job, res);
+    if (!resolved) return;
+    const logs: string[] = [];
+    const deployment = await asJobOwner(job, () => resolved.target.rollback(resolved.deployment, resolved.config, {
+      deploymentId: job.id,
+      ownerId: job.userId ?? undefined,
+      onLog: line => logs.push(line)
+    }));
+    const updated = await autoDeployQueue.updateTargetDeployment(job.id, deployment, `⏪ Rolled back to ${deployment.revision || deployment.image}`);
+
+    res.json({ success: true, deploymentId: job.id, targetDeployment: updated?.targetDeployment, logs });
+
+  } catch (error) {
+    sendTargetError(res, error, 'Rollback failed');
+  }
+});
+
+/**
+ * 🧹 TARGET TEARDOWN ENDPOINT
+ * DELETE /api/auto-deploy/target/:deploymentId
+ *
+ * Removes the service from the deployment target; the image stays in the registry
+ */
+router.delete('/target/:deploymentId', jobAuth, async (req, res) => {
+  try {
+    const job = findJob(req.params.deploymentId, req.user?.id);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Deployment not found'
+      });
+    }
+
+    const resolved = targetFor(job, res);
+    if (!resolved) return;
+    const logs: string[] = [];
+    await asJobOwner(job, () => resolved.target.teardown(resolved.deployment, resolved.config, {
+      deploymentId: job.id,
+      ownerId: job.userId ?? undefined,
+      onLog: line => logs.push(line)
+    }));
+    const deployment = {
+      ...resolved.deployment,
+      url: undefined,
+      details: { ...resolved.deployment.details, tornDownAt: new Date().toISOString() }
+    };
+    await autoDeployQueue.updateTargetDeployment(job.id, deployment, `🧹 Removed from ${resolved.target.displayName}`);
+
+    res.json({ success: true, deploymentId: job.id, targetDeployment: deployment, logs });
+
+  } catch (error) {
+    sendTargetError(res, error, 'Teardown failed');
+  }
+});
+
+/**
+ * ⏯️ TARGET STOP / RESTART ENDPOINTS
+ * POST /api/auto-deploy/target/:deploymentId/stop
+ * POST /api/auto-deploy/target/:deploymentId/restart
+ *
+ * Only targets whose containers this server runs (the local Docker target)
+ * support these; restart waits until the app is ready again
+ */
+for (const action of ['stop', 'restart'] as const) {
+  router.post(`/target/:deploymentId/${action}`, jobAuth, async (req, res) => {
+    try {
+      const job = findJob(req.params.deploymentId, req.user?.id);
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          error: 'Deployment not found'
+        });
+      }
+
+      const resolved = targetFor(job, res);
+      if (!resolved) return;
+      const run = resolved.target[action];
+      if (!run) {
+        return res.status(400).json({
+          success: false,
+          error: `${resolved.target.displayName} deployments cannot be ${action === 'stop' ? 'stopped' : 'restarted'} from here`,
+          code: 'unsupported'
+        });
+      }
+
+      const logs: string[] = [];
+      await run.call(resolved.target, resolved.deployment, resolved.config, {
+        deploymentId: job.id,
+        onLog: line => logs.push(line)
+      });
+      await autoDeployQueue.updateTargetDeployment(
+        job.id,
+        resolved.deployment,
+        action === 'stop' ? `⏹️ Stopped on ${resolved.target.displayName}` : `🔄 Restarted on ${resolved.target.displayName}`
+      );
+      const status = await resolved.target.getStatus(resolved.deployment, resolved.config);
+
+      res.json({ success: true, deploymentId: job.id, status, logs });
+
+    } catch (error) {
+      sendTargetError(res, error, action === 'stop' ? 'Stop failed' : 'Restart failed');
+    }
+  });
+}
+
+/**
+ * 📜 TARGET LOG STREAM
+ * GET /api/auto-deploy/target/:deploymentId/logs?service=&tail=200&follow=true
+ *
+ * Server-Sent Events with the running container's stdout/stderr
+ */
+router.get('/target/:deploymentId/logs', jobAuth, async (req, res) => {
+  const job = findJob(req.params.deploymentId, req.user?.id);
+  if (!job) {
+    return res.status(404).json({
+      success: false,
+      error: 'Deployment not found'
+    });
+  }
+
+  let resolved: ReturnType<typeof targetFor>;
+  try {
+    resolved = targetFor(job, res);
+  } catch (error) {
+    return sendTargetError(res, error, 'Log stream failed');
+  }
+  if (!resolved) return;
+  if (!resolved.target.logs) {
+    return res.status(400).json({
+      success: false,
+      error: `${resolved.target.displayName} logs are only available in the provider's console`,
+      code: 'unsupported'
+    });
+  }
+
+  const { service, tail, follow } = req.query as Record<string, string | undefined>;
+  const tailLines = tail !== undefined ? Math.min(Math.max(parseInt(tail, 10) || 0, 0), 5000) : undefined;
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders?.();
+  try { res.write('retry: 3000\n\n'); } catch (_) {}
+  const heartbeat = setInterval(() => {
+    try { res.write(': ping\n\n'); } catch (_) {}
+  }, 15000);
+
+  const send = (payload: any) => {
+    try { res.write(`data: ${JSON.stringify(secretRedactor.redactValue(payload))}\n\n`); } catch (_) {}
+  };
+
+  const abort = new AbortController();
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    abort.abort();
+  });
+
+  try {
+    await resolved.target.logs(resolved.deployment, resolved.config, {
+      service,
+      tail: tailLines,
+      follow: follow !== 'false',
+      onLog: (line, stream) => send({ type: 'log', stream, line }),
+      signal: abort.signal
+    });
+    send({ type: 'end', message: 'Container stopped' });
+  } catch (error) {
+    send({ type: 'error', error: error instanceof Error ? error.message : 'Log stream failed' });
+  } finally {
+    clearInterval(heartbeat);
+    try { res.end(); } catch (_) {}
+  }
+});
+
 /**
  * 🧪 TEST ENDPOINT
  * GET /api/auto-deploy/test
@@ -175,12 +677,11 @@ router.get('/test', async (req, res) => {
       deploymentTarget: 'dockerhub'
     };
 
-    const result = await performFullyAutomatedDeployment(testConfig);
+    const job = await autoDeployQueue.enqueue(testConfig, { trigger: 'test' });
 
-    res.json({
-      success: true,
-      message: 'Auto-deployment test completed',
-      testResult: result
+    res.status(202).json({
+      ...acceptedResponse(job),
+      message: 'Auto-deployment test queued'
     });
 
   } catch (error) {
@@ -196,26 +697,31 @@ router.get('/test', async (req, res) => {
  * 📋 DEPLOYMENT HISTORY ENDPOINT
  * GET /api/auto-deploy/history
  * 
- * Get a list of all deployments
+ * Most recent jobs first; ?status= filters, ?limit= caps the result (max 100).
+ * Ownerless jobs are only listed for admins.
  */
-router.get('/history', async (req, res) => {
+router.get('/history', optionalAuth, async (req, res) => {
   try {
-    // In a real implementation, you'd query a database
-    // For now, return a placeholder response
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+    if (status && !JOB_STATUSES.includes(status as AutoDeployJobStatus)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid status. Expected one of: ${JOB_STATUSES.join(', ')}`
+      });
+    }
+
+    const limit = Math.min(100, Math.max(1, Number(req.query.limit) || 20));
+    const jobs = autoDeployQueue
+      .list({ status: status as AutoDeployJobStatus | undefined })
+      .filter(job => ownsDeployment(job, req.user))
+      .slice(0, limit);
+
     res.json({
       success: true,
-      deployments: [
-        {
-          deploymentId: 'deploy-1234567890-abc123',
-          repoUrl: 'https://github.com/user/repo',
-          status: 'completed',
-          imageName: 'user/repo:latest',
-          deploymentUrl: 'https://hub.docker.com/r/user/repo',
-          createdAt: new Date().toISOString(),
-          completedAt: new Date().toISOString()
-        }
-      ],
-      message: 'Deployment history tracking not yet implemented'
+      deployments: jobs.map(job => {
+        const { logs, ...summary } = toStatusResponse(job);
+        return summary;
+      })
     });
 
   } catch (error) {
@@ -1,12 +1,23 @@
 import { Router, Request, Response } from 'express';
 import * as fs from 'fs';
 import * as path from 'path';
+import { workspaceManager, WorkspaceError, WORKSPACE_ERROR_STATUS } from '../lib/workspaces';
+import { requireWorkspaceOwner } from './auth';
 
 const router = Router();
 
-// Complete Docker fix for .builder/rules/deploy-app.mdc error
-router.post('/complete-docker-fix', async (req: Request, res: Response) => {
+// Complete Docker fix for .builder/rules/deploy-app.mdc error, applied to a deployment's workspace
+router.post('/complete-docker-fix', requireWorkspaceOwner, async (req: Request, res: Response) => {
   try {
+    const { workspaceId } = req.body;
+    if (!workspaceId) {
+      return res.status(400).json({
+        success: false,
+        error: 'workspaceId is required'
+      });
+    }
+    const projectRoot = workspaceManager.require(workspaceId).dir;
+
     console.log('🔧 Starting complete Docker fix for .builder/rules/deploy-app.mdc error...');
 
     const result = {
@@ -18,7 +29,7 @@ router.post('/complete-docker-fix', async (req: Request, res: Response) => {
     };
 
     // 1. Generate the missing .builder/rules/deploy-app.mdc file
-    const builderDir = path.join(process.cwd(), '.builder', 'rules');
+    const builderDir = path.join(projectRoot, '.builder', 'rules');
     const deployAppFile = path.join(builderDir, 'deploy-app.mdc');
 
     // Create directory if it doesn't exist
@@ -69,7 +80,7 @@ publish = "dist"
     });
 
     // 2. Update .dockerignore to exclude .builder directory
-    const dockerignorePath = path.join(process.cwd(), '.dockerignore');
+    const dockerignorePath = path.join(projectRoot, '.dockerignore');
     let dockerignoreContent = '';
 
     if (fs.existsSync(dockerignorePath)) {
@@ -104,26 +115,33 @@ publish = "dist"
       '3. If you need the .builder files in Docker, remove the exclusion from .dockerignore'
     ];
 
-    result.dockerBuildCommand = 'docker build -t your-app-name .';
+    result.dockerBuildCommand = `POST /api/deployments/${workspaceId}/build`;
 
     console.log('🎉 Complete Docker fix finished successfully!');
     res.json(result);
 
   } catch (error) {
     console.error('❌ Complete Docker fix failed:', error);
-    res.status(500).json({
+    res.status(error instanceof WorkspaceError ? WORKSPACE_ERROR_STATUS[error.code] : 500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error occurred'
     });
   }
 });
 
-// Get the current project structure
-router.get('/project-structure', async (req: Request, res: Response) => {
+// Get the top-level structure of a deployment's workspace
+router.get('/project-structure', requireWorkspaceOwner, async (req: Request, res: Response) => {
   try {
-    const projectRoot = process.cwd();
+    const workspaceId = typeof req.query.workspaceId === 'string' ? req.query.workspaceId : '';
+    if (!workspaceId) {
+      return res.status(400).json({
+        success: false,
+        error: 'workspaceId is required'
+      });
+    }
+    const projectRoot = workspaceManager.require(workspaceId).dir;
     const structure = {
-      root: projectRoot,
+      workspaceId,
       files: [] as string[],
       directories: [] as string[],
       hasBuilder: false,
@@ -159,7 +177,7 @@ router.get('/project-structure', async (req: Request, res: Response) => {
 
   } catch (error) {
     console.error('❌ Failed to get project structure:', error);
-    res.status(500).json({
+    res.status(error instanceof WorkspaceError ? WORKSPACE_ERROR_STATUS[error.code] : 500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error'
     });
@@ -0,0 +1,120 @@
+import { Router, NextFunction, Request, Response } from 'express';
+import { credentialVault, CredentialInputError, CredentialVaultError, parseCredentialInput, secretRedactor } from '../lib/credentials';
+import { requireAdmin, verifyToken } from './auth';
+
+const router = Router();
+
+/**
+ * Map vault errors to responses; anything else is a 500
+ */
+export function sendCredentialError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof CredentialInputError) {
+    return res.status(400).json({ success: false, error: error.message, errors: error.errors });
+  }
+  if (error instanceof CredentialVaultError) {
+    const status = error.code === 'not_found' ? 404
+      : error.code === 'wrong_kind' ? 400
+      : error.code === 'unavailable' ? 503
+      : 502;
+    return res.status(status).json({ success: false, error: error.message, code: error.code });
+  }
+  console.error(`❌ ${fallback}:`, error);
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : fallback
+  });
+}
+
+/**
+ * Middleware for requests that handle credentials: values registered for
+ * redaction while serving the request are released once the response is done
+ */
+export function redactionScope(_req: Request, res: Response, next: NextFunction) {
+  void secretRedactor.scope(() => new Promise<void>(resolve => {
+    res.on('close', resolve);
+    next();
+  }));
+}
+
+/**
+ * 🔑 LIST CREDENTIALS
+ * GET /api/credentials
+ *
+ * The signed-in user's stored credentials, without their secrets
+ */
+router.get('/', verifyToken, async (req, res) => {
+  try {
+    const credentials = await credentialVault.list(req.user!.id);
+    res.json({ success: true, credentials });
+  } catch (error) {
+    sendCredentialError(res, error, 'Listing credentials failed');
+  }
+});
+
+/**
+ * 🔄 ROTATE ENCRYPTION KEY
+ * POST /api/credentials/rotate
+ *
+ * Admin only. Re-encrypts every stored secret with the first key in
+ * CREDENTIAL_ENCRYPTION_KEYS.
+ */
+router.post('/rotate', requireAdmin, async (_req, res) => {
+  try {
+    const result = await credentialVault.rotate();
+    res.json({ success: true, ...result });
+  } catch (error) {
+    sendCredentialError(res, error, 'Key rotation failed');
+  }
+});
+
+/**
+ * ➕ CREATE CREDENTIAL
+ * POST /api/credentials
+ *
+ * Body: { kind, name, ...settings, ...secret fields }. The secret is
+ * encrypted before it is stored and is never returned.
+ */
+router.post('/', verifyToken, async (req, res) => {
+  try {
+    const credential = await credentialVault.create(req.user!.id, parseCredentialInput(req.body));
+    res.status(201).json({ success: true, credential });
+  } catch (error) {
+    sendCredentialError(res, error, 'Saving credential failed');
+  }
+});
+
+router.get('/:id', verifyToken, async (req, res) => {
+  try {
+    const credential = await credentialVault.get(req.user!.id, req.params.id);
+    res.json({ success: true, credential });
+  } catch (error) {
+    sendCredentialError(res, error, 'Fetching credential failed');
+  }
+});
+
+/**
+ * ✏️ UPDATE CREDENTIAL
+ * PUT /api/credentials/:id
+ *
+ * Rename, change settings, or replace the secret by sending its fields again.
+ * The kind cannot change.
+ */
+router.put('/:id', verifyToken, async (req, res) => {
+  try {
+    const credential = await credentialVault.update(req.user!.id, req.params.id, req.body);
+    res.json({ success: true, credential });
+  } catch (error) {
+    sendCredentialError(res, error, 'Updating credential failed');
+  }
+});
+
+router.delete('/:id', verifyToken, async (req, res) => {
+  try {
+    await credentialVault.delete(req.user!.id, req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    sendCredentialError(res, error, 'Deleting credential failed');
+  }
+});
+
+export default router;
@@ -1,31 +1,54 @@
 import express from 'express';
 import multer from 'multer';
+import { randomUUID } from 'crypto';
 import * as fs from 'fs';
-import { processDockerfileGeneration, analyzeProject, generateDockerfile, GitHubFile } from '../lib/aiService';
+import * as path from 'path';
+import { processDockerfileGeneration, analyzeProject, generateDockerfile } from '../lib/aiService';
 import { IntelligentFileGenerator } from '../lib/intelligentFileGenerator_fixed';
-import { build_docker_image, push_docker_image, deriveImageName, prepareBuildContext, LogSink } from '../lib/docker';
+import { build_docker_image, push_docker_image, deriveImageName, login_docker_registry, LogSink, DockerBuildFailedError } from '../lib/docker';
+import { dockerEngine, RegistryAuth, parseImageReference } from '../lib/dockerEngine';
+import { defaultDestination, pushedImage, pushedImageUrl, registryDisplayName, RegistryDestination, RegistryError } from '../lib/registries';
+import { deploymentRepository, DeploymentOwnershipError, DeploymentTracker, generateDeploymentId } from '../lib/deploymentRepository';
+import { parseBuildOptions, recordBuildOptions, BuildOptionsError } from '../lib/buildOptions';
+import { parseKubernetesOptions, KubernetesOptionsError } from '../lib/kubernetesManifests';
+import { parseVulnerabilityPolicy, scanImage, sbomDir, VulnerabilityPolicyError } from '../lib/imageScan';
+import { formatSecretFinding, scanDockerfileForSecrets, scanFilesForSecrets, scanImageForSecrets } from '../lib/secretScanner';
+import { verifyToken, optionalAuth, requireDebugAccess, ownsDeployment } from './auth';
+import { credentialVault, ResolvedRegistry, secretRedactor, streamTickets } from '../lib/credentials';
+import { redactionScope, sendCredentialError } from './credentials';
+import { workspaceManager, WorkspaceError, WORKSPACE_ERROR_STATUS } from '../lib/workspaces';
+import { readUpload, uploadLimitsFromEnv, UploadedFile, UploadError, UPLOAD_ERROR_STATUS } from '../lib/uploads';
+import { uploadSessions, UploadSession, UploadSessionError, UPLOAD_SESSION_ERROR_STATUS } from '../lib/uploadSessions';
+import { eventBus, JOB_ID, JobEventInput } from '../lib/events';
+import { streamJobEvents } from './events';
+import { createLogger, logWriter, LOG_LEVELS, withLogContext } from '../lib/logger';
+import type { DeploymentStatus, ImageSecurityReport, JobLogLevel, LogStream, SecretFinding } from '../../shared/types';
 import type { Request, Response } from 'express';
 
 const router = express.Router();
-// Simple in-memory event listeners per streamId for upload streaming
-const uploadStreams = new Map<string, ((data: any) => void)[]>();
-function subscribeUploadStream(streamId: string, fn: (data: any)=>void) {
-  const arr = uploadStreams.get(streamId) || [];
-  arr.push(fn);
-  uploadStreams.set(streamId, arr);
-}
-function publishUploadStream(streamId: string, data: any) {
-  const arr = uploadStreams.get(streamId) || [];
-  arr.forEach(f => {
-    try { f(data); } catch (_) {}
-  });
-}
-function closeUploadStream(streamId: string) {
-  uploadStreams.delete(streamId);
+
+const uploadLogger = createLogger('upload');
+const deploymentLogger = createLogger('deployments');
+const buildOutputLogger = createLogger('deployments', 'build');
+
+// Record the final status of an automatic build on the stored deployment
+async function recordBuildOutcome(
+  tracker: DeploymentTracker,
+  buildResult: { success: boolean; errors: { message: string }[] } | null,
+  imageName: string
+) {
+  if (buildResult?.success) {
+    await tracker.update({ status: 'completed', phase: 'build', message: 'Docker image built', imageName });
+  } else {
+    const error = buildResult
+      ? buildResult.errors.map(e => e.message).join(', ') || 'Docker build failed'
+      : 'Docker build did not run';
+    await tracker.update({ status: 'failed', phase: 'build', message: 'Docker build failed', error });
+  }
 }
 
 // Debug endpoint to check if routes are working
-router.get('/debug', (req, res) => {
+router.get('/debug', requireDebugAccess, (req, res) => {
   res.json({
     success: true,
     message: 'Deployment routes are working',
@@ -34,31 +57,52 @@ router.get('/debug', (req, res) => {
 });
 
 // Create new deployment with intelligent file analysis
-router.post('/deployments', async (req, res) => {
+router.post('/deployments', optionalAuth, redactionScope, async (req, res) => {
+  let tracker: DeploymentTracker | null = null;
   try {
+    const { repoUrl, ref, userPrompt, githubToken, uploadedFiles } = req.body;
+    secretRedactor.register(githubToken);
     console.log('📥 Received deployment request:', {
-      body: req.body,
-      headers: req.headers,
-      method: req.method,
-      url: req.url
+      repoUrl: typeof repoUrl === 'string' ? secretRedactor.redact(repoUrl) : undefined,
+      ref,
+      hasGithubToken: !!githubToken,
+      uploadedFiles: uploadedFiles?.length || 0
     });
 
-    const { repoUrl, userPrompt, githubToken, uploadedFiles } = req.body;
-
     // Check if we have either a repo URL or uploaded files
     if (!repoUrl && (!uploadedFiles || uploadedFiles.length === 0)) {
       console.log('❌ Missing repoUrl or uploadedFiles in request body');
       return res.status(400).json({
         success: false,
         error: 'Either repository URL or uploaded files are required',
-        received: { repoUrl, userPrompt, githubToken, uploadedFiles: uploadedFiles?.length || 0 }
+        received: { repoUrl, userPrompt, hasGithubToken: !!githubToken, uploadedFiles: uploadedFiles?.length || 0 }
       });
     }
 
+    let kubernetes: ReturnType<typeof parseKubernetesOptions> | undefined;
+    try {
+      kubernetes = req.body.kubernetes === undefined ? undefined : parseKubernetesOptions(req.body.kubernetes);
+    } catch (error) {
+      if (error instanceof KubernetesOptionsError) {
+        return res.status(400).json({ success: false, error: error.message, errors: error.errors });
+      }
+      throw error;
+    }
+
     console.log('🚀 Starting intelligent deployment analysis for:', repoUrl);
 
-    // Process deployment with enhanced file analysis
-    const result = await processDockerfileGeneration(repoUrl, userPrompt, githubToken);
+    const deploymentId = generateDeploymentId();
+    tracker = await DeploymentTracker.start({
+      id: deploymentId,
+      userId: req.user?.id,
+      source: 'repo',
+      repoUrl,
+      prompt: userPrompt,
+    });
+    await tracker.update({ status: 'processing', phase: 'analysis', message: 'Analyzing repository' });
+
+    // Process deployment with enhanced file analysis; keep the checkout as the build context
+    const result = await processDockerfileGeneration(repoUrl, userPrompt, githubToken, { ref, keepCheckout: true, kubernetes });
 
     console.log('✅ Analysis result:', {
       success: result.success,
@@ -68,34 +112,40 @@ router.post('/deployments', async (req, res) => {
     });
 
     if (result.success) {
-      // Generate a deployment ID
-      const deploymentId = `deploy-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      
+      tracker.log(`✅ Analysis complete: ${result.generatedFiles?.length || 0} generated files`);
+      await tracker.update({
+        status: 'processing',
+        phase: 'build',
+        message: 'Building Docker image',
+        dockerfile: result.dockerfile,
+        analysis: result.analysis,
+        generatedFiles: result.generatedFiles || [],
+      });
+
       // 🚀 AUTOMATICALLY BUILD DOCKER IMAGE
       console.log('🐳 Starting automatic Docker build...');
       let buildResult = null;
+      const imageName = result.imageName || `deploy-${Date.now()}`;
       
       try {
         // Import the docker build monitor
         const { dockerBuildMonitor } = await import('../lib/dockerBuildMonitor');
         
-        // Create a temporary Dockerfile
-        const dockerfilePath = 'temp-deploy-dockerfile';
-        fs.writeFileSync(dockerfilePath, result.dockerfile || '');
-
-        // Generate image name
-        const imageName = result.imageName || `deploy-${Date.now()}`;
+        // Build from the full repository checkout plus any generated files, in this deployment's workspace
+        workspaceManager.create(deploymentId, {
+          repoIdentifier: repoUrl,
+          files: result.files || [],
+          dockerfile: result.dockerfile || '',
+          sourceDir: result.checkout?.dir
+        });
 
         // Build with auto-fix
-        buildResult = await dockerBuildMonitor.buildWithAutoFix(
-          dockerfilePath,
-          '.', // Build context
+        buildResult = await withLogContext({ deploymentId, step: 'dockerBuild' }, () => workspaceManager.use(deploymentId, workspace => dockerBuildMonitor.buildWithAutoFix(
+          path.join(workspace.dir, 'Dockerfile'),
+          workspace.dir,
           imageName,
           3 // Max retry attempts
-        );
-
-        // Clean up temp file
-        fs.unlinkSync(dockerfilePath);
+        )));
 
         if (buildResult.success) {
           console.log(`✅ Docker image built successfully: ${imageName}`);
@@ -105,7 +155,13 @@ router.post('/deployments', async (req, res) => {
 
       } catch (buildError) {
         console.error('❌ Docker build error:', buildError);
+        tracker.log(`❌ Docker build error: ${buildError}`);
+      } finally {
+        result.checkout?.cleanup();
       }
+
+      buildResult?.logs.forEach(line => tracker!.log(line));
+      await recordBuildOutcome(tracker, buildResult, imageName);
       
       res.status(201).json({
         success: true,
@@ -114,10 +170,14 @@ router.post('/deployments', async (req, res) => {
         dockerfile: result.dockerfile,
         analysis: result.analysis || {},
         generatedFiles: result.generatedFiles || [],
+        services: result.services?.services.map(({ dockerfileContent, ...service }) => service),
+        composeFile: result.composeFile,
+        kubernetes: result.kubernetes,
         buildEndpoint: `/api/deployments/${deploymentId}/build`,
+        workspaceId: workspaceManager.get(deploymentId)?.id,
         buildResult: buildResult ? {
           success: buildResult.success,
-          imageName: buildResult.success ? (result.imageName || `deploy-${Date.now()}`) : null,
+          imageName: buildResult.success ? imageName : null,
           errors: buildResult.errors || []
         } : null,
         nextSteps: {
@@ -126,19 +186,26 @@ router.post('/deployments', async (req, res) => {
             method: 'POST',
             description: 'Build Docker image and optionally push to Docker Hub',
             requiredFields: ['dockerfile', 'files'],
-            optionalFields: ['dockerHubUsername', 'dockerHubPassword', 'imageName', 'pushToHub']
+            optionalFields: ['dockerHubUsername', 'dockerHubPassword', 'registryCredentialId', 'imageName', 'pushToHub', 'buildOptions']
           }
         }
       });
     } else {
       console.log('❌ Analysis failed:', result.error);
+      await tracker.update({ status: 'failed', phase: 'analysis', error: result.error, message: 'Analysis failed' });
       res.status(400).json({
         success: false,
-        error: result.error
+        deploymentId,
+        error: result.error,
+        errorCode: result.errorCode
       });
     }
   } catch (error) {
     console.error('❌ Deployment creation error:', error);
+    await tracker?.update({
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Internal server error',
@@ -147,147 +214,181 @@ router.post('/deployments', async (req, res) => {
   }
 });
 
-// SSE streaming endpoint for deployment analysis ("thinking out loud")
-router.get('/deployments/stream', async (req: Request, res: Response) => {
-  console.log('📡 SSE connection established');
-  
-  // Setup Server-Sent Events headers
-  res.setHeader('Content-Type', 'text/event-stream');
-  res.setHeader('Cache-Control', 'no-cache, no-transform');
-  res.setHeader('Connection', 'keep-alive');
-  res.setHeader('X-Accel-Buffering', 'no');
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Headers', 'Cache-Control');
-  res.flushHeaders?.();
-  
-  // Send initial connection confirmation
-  res.write(`data: ${JSON.stringify({ type: 'connection', message: 'Stream connected successfully' })}\n\n`);
-
-  const send = (data: any) => {
-    try {
-      const payload = typeof data === 'string' ? { message: data } : data;
-      res.write(`data: ${JSON.stringify(payload)}\n\n`);
-    } catch (err) {
-      // best-effort; if client disconnects, write will throw
-    }
-  };
-
-  const { repoUrl = '', userPrompt = '', githubToken = '' } = req.query as Record<string, string>;
-
-  // Suggest client retry and heartbeat to keep connection alive
-  try { res.write('retry: 3000\n\n'); } catch (_) {}
-  const heartbeat = setInterval(() => {
-    try { res.write(': ping\n\n'); } catch (_) {}
-  }, 15000);
-
-  req.on('close', () => {
-    console.log('📡 SSE connection closed by client');
-    clearInterval(heartbeat);
-    try { res.end(); } catch (_) {}
-  });
-
-  req.on('error', (err) => {
-    console.error('📡 SSE connection error:', err);
-    clearInterval(heartbeat);
-    try { res.end(); } catch (_) {}
-  });
-
-  try {
-    send('🚀 Starting intelligent deployment analysis...');
-
-    if (!repoUrl) {
-      send({ error: 'Repository URL is required' });
-      send({ done: true });
-      return res.end();
-    }
-
-    send(`🔗 Repository: ${repoUrl}`);
-    send('📂 Fetching repo...');
+// Exchange credentials for a single-use ticket, so the EventSource URL below never carries them
+router.post('/deployments/stream/ticket', optionalAuth, (req: Request, res: Response) => {
+  const { githubToken } = req.body || {};
+  if (githubToken !== undefined && typeof githubToken !== 'string') {
+    return res.status(400).json({ success: false, error: 'githubToken must be a string' });
+  }
+  const issued = streamTickets.issue({ userId: req.user?.id, githubToken: githubToken || undefined });
+  res.json({ success: true, ...issued });
+});
 
-    // Run existing analysis but intercept console logs by temporarily patching console.log
-    const originalLog = console.log;
-    console.log = (...args: any[]) => {
-      originalLog.apply(console, args);
-      const text = args.map(a => (typeof a === 'string' ? a : JSON.stringify(a))).join(' ');
-      if (text) send(text);
-    };
+/**
+ * Analyze a repository and generate its Dockerfile as job `jobId`. Progress
+ * and the analysis's own console output ("thinking out loud") go to the
+ * event bus for this job only.
+ */
+function runAnalysisJob(jobId: string, repoUrl: string, userPrompt: string, githubToken?: string): Promise<void> {
+  // The token is masked in logs and events until the job ends
+  return secretRedactor.scope(async () => {
+    secretRedactor.register(githubToken);
+    try {
+      eventBus.publish(jobId, { type: 'phase-start', phase: 'analysis', message: '🚀 Starting intelligent deployment analysis...' });
+      eventBus.log(jobId, `🔗 Repository: ${repoUrl}`);
+      eventBus.log(jobId, '📂 Fetching repo...');
 
-    const result = await processDockerfileGeneration(String(repoUrl), String(userPrompt || ''), String(githubToken || ''));
+      const result = await eventBus.capture(jobId, () => processDockerfileGeneration(repoUrl, userPrompt, githubToken));
 
-    // restore console
-    console.log = originalLog;
+      if (!result.success) {
+        eventBus.log(jobId, `❌ Analysis failed: ${result.error || 'Unknown error'}`, 'error');
+        eventBus.fail(jobId, result.error || 'Analysis failed');
+        return;
+      }
 
-    if (!result.success) {
-      send(`❌ Analysis failed: ${result.error || 'Unknown error'}`);
-      send({ error: result.error || 'Analysis failed' });
-      send({ done: true });
-      return res.end();
+      eventBus.log(jobId, '✅ Analysis complete.');
+      if (result.imageName) eventBus.log(jobId, `🏷️ Suggested image: ${result.imageName}`);
+      if (result.generatedFiles?.length) eventBus.log(jobId, `📝 Generated files: ${result.generatedFiles.length}`);
+      if (result.dockerfile) eventBus.publish(jobId, { type: 'artifact', name: 'dockerfile', data: result.dockerfile });
+      eventBus.publish(jobId, {
+        type: 'done',
+        success: true,
+        result: { imageName: result.imageName, generatedFiles: result.generatedFiles?.length || 0 }
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unexpected error';
+      eventBus.log(jobId, `❌ Analysis error: ${message}`, 'error');
+      eventBus.fail(jobId, message);
     }
+  });
+}
 
-    send('✅ Analysis complete.');
-    if (result.imageName) send(`🏷️ Suggested image: ${result.imageName}`);
-    if (result.generatedFiles?.length) send(`📝 Generated files: ${result.generatedFiles.length}`);
-    send('📦 Generating Dockerfile...');
-    send({ dockerfile: result.dockerfile?.slice(0, 800) + '...'});
+// Start a repository analysis; follow it at GET /api/events/:jobId or over the event WebSocket
+router.post('/deployments/analyze', optionalAuth, (req: Request, res: Response) => {
+  const { repoUrl, userPrompt, githubToken } = req.body || {};
+  if (typeof repoUrl !== 'string' || !repoUrl.trim()) {
+    return res.status(400).json({ success: false, error: 'Repository URL is required' });
+  }
+  if (githubToken !== undefined && typeof githubToken !== 'string') {
+    return res.status(400).json({ success: false, error: 'githubToken must be a string' });
+  }
+  const jobId = `analysis-${randomUUID()}`;
+  eventBus.open(jobId, req.user?.id);
+  void runAnalysisJob(jobId, repoUrl.trim(), typeof userPrompt === 'string' ? userPrompt : '', githubToken || undefined);
+  res.status(202).json({ success: true, jobId });
+});
 
-    send({ done: true });
-    return res.end();
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unexpected error';
-    send(`❌ Analysis error: ${message}`);
-    send({ error: message });
-    send({ done: true });
-    try { return res.end(); } catch (_) { /* noop */ }
+// Start an analysis and stream its events in the same request (GET only, for plain EventSource clients)
+router.get('/deployments/stream', (req: Request, res: Response) => {
+  const { repoUrl = '', userPrompt = '', ticket = '' } = req.query as Record<string, string>;
+  const jobId = `analysis-${randomUUID()}`;
+  console.log(`📡 Streaming analysis ${jobId}`);
+
+  // Tokens in the URL end up in access logs and browser history
+  const credentials = ticket ? streamTickets.redeem(String(ticket)) : {};
+  if (!repoUrl) {
+    eventBus.fail(jobId, 'Repository URL is required');
+  } else if (req.query.githubToken) {
+    eventBus.fail(jobId, 'githubToken is not accepted in the URL; exchange it for a ticket with POST /api/deployments/stream/ticket');
+  } else if (!credentials) {
+    eventBus.fail(jobId, 'Stream ticket is invalid or expired');
+  } else {
+    void runAnalysisJob(jobId, String(repoUrl), String(userPrompt || ''), credentials.githubToken);
   }
+
+  // Every request is a new job, so an EventSource reconnect starts from its first event
+  streamJobEvents(req, res, jobId, { afterId: 0 });
 });
 
-// Configure multer for file uploads
+// Configure multer for file uploads; relative paths of folder uploads are kept
+const uploadLimits = uploadLimitsFromEnv();
+const reportedUploadLimits = { maxFileBytes: uploadLimits.maxFileBytes, maxTotalBytes: uploadLimits.maxTotalBytes, maxFiles: uploadLimits.maxFiles };
 const upload = multer({
   storage: multer.memoryStorage(),
+  preservePath: true,
   limits: {
-    fileSize: 200 * 1024 * 1024, // 200MB limit per file
-    files: 100 // Maximum 100 files
-  },
-  fileFilter: (req, file, cb) => {
-    // Allow all file types but skip certain directories
-    const skipFiles = ['.git', 'node_modules', '__pycache__', '.venv', 'dist', 'build'];
-    const shouldSkip = skipFiles.some(skip => file.originalname.includes(skip));
-    cb(null, !shouldSkip);
+    fileSize: uploadLimits.maxTotalBytes, // Archives may be this large; readUpload skips larger individual files
+    files: uploadLimits.maxFiles
   }
 });
 
-// File upload endpoint for local project analysis
-router.post('/deployments/upload', upload.array('files'), async (req, res) => {
-  try {
-    console.log('📁 Received file upload request');
-    const files = req.files as Express.Multer.File[];
-    const { userPrompt } = req.body;
-    const streamId = (req.query.streamId as string) || '';
-
-    if (!files || files.length === 0) {
-      return res.status(400).json({
+/** Receive the multipart upload, answering 413 with the limits when multer rejects it */
+function receiveUpload(req: Request, res: Response, next: express.NextFunction) {
+  upload.array('files')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      return res.status(error.code === 'LIMIT_FILE_SIZE' || error.code === 'LIMIT_FILE_COUNT' ? 413 : 400).json({
         success: false,
-        error: 'No files uploaded'
+        error: error.code === 'LIMIT_FILE_SIZE'
+          ? `Upload is larger than the limit of ${Math.round(uploadLimits.maxTotalBytes / 1024 / 1024)} MB`
+          : error.code === 'LIMIT_FILE_COUNT' ? `Upload has more than the limit of ${uploadLimits.maxFiles} files` : error.message,
+        limits: reportedUploadLimits
       });
     }
+    next(error);
+  });
+}
 
-    console.log(`📄 Processing ${files.length} uploaded files...`);
-    if (streamId) publishUploadStream(streamId, { message: `📄 Processing ${files.length} uploaded files...` });
+/** The client's job id for an upload's events (`?streamId=`); ignored unless it is a valid job id */
+function uploadStreamId(value: unknown): string {
+  return typeof value === 'string' && JOB_ID.test(value) ? value : '';
+}
 
-    // Convert uploaded files to GitHubFile format
-    const gitHubFiles: GitHubFile[] = files.map(file => ({
-      name: file.originalname.split('/').pop() || file.originalname,
-      path: file.originalname,
-      type: 'file' as const,
-      content: file.buffer.toString('utf-8')
-    }));
+/**
+ * Claim the upload's stream for the requester, answering 403 when another
+ * user's job already owns that id. Returns false once the response is sent.
+ */
+function openUploadStream(req: Request, res: Response, streamId: string): boolean {
+  if (!streamId || eventBus.open(streamId, req.user?.id)) return true;
+  res.status(403).json({ success: false, error: 'The event stream belongs to another user' });
+  return false;
+}
 
-    console.log('🔍 Converted to GitHub file format:', gitHubFiles.length);
-    if (streamId) publishUploadStream(streamId, { message: '🔍 Analyzing uploaded files...' });
+/**
+ * Analyze, generate a Dockerfile for and build an uploaded project, answering
+ * the request. Used by plain multipart uploads and finished chunked uploads.
+ */
+async function processUpload(req: Request, res: Response, uploaded: UploadedFile[], userPrompt: string | undefined, streamId: string) {
+  if (!openUploadStream(req, res, streamId)) return;
+  let tracker: DeploymentTracker | null = null;
+  // Progress goes to the job stream the client opened for this upload, if any
+  const publish = (input: JobEventInput) => {
+    if (streamId) eventBus.publish(streamId, input);
+  };
+  const log = (message: string, level: JobLogLevel = 'info') => {
+    uploadLogger.child(tracker ? { deploymentId: tracker.id } : {}).log(level, message);
+    publish({ type: 'log', level, message });
+  };
+  try {
+    // Extract archives and keep binary files as buffers; only text is decoded for analysis
+    const { files: gitHubFiles, report: uploadReport } = readUpload(uploaded, uploadLimits);
+    const summary = `${uploadReport.files} file(s), ${(uploadReport.bytes / 1024 / 1024).toFixed(1)} MB${uploadReport.archive ? ` from ${uploadReport.archive}` : ''}`;
+
+    console.log(`📄 Processing ${summary}...`);
+    publish({ type: 'phase-start', phase: 'upload', message: `📄 Processing ${summary}...` });
+    publish({ type: 'artifact', name: 'upload', data: uploadReport });
+
+    tracker = await DeploymentTracker.start({
+      userId: req.user?.id,
+      source: 'upload',
+      prompt: userPrompt,
+    });
+    tracker.log(`📄 Received ${summary}, ${uploadReport.binaryFiles} binary`);
+    uploadReport.skipped.forEach(skipped => tracker!.log(`⏭️ Skipped ${skipped.path}: ${skipped.reason}`));
+    await tracker.update({ status: 'processing', phase: 'analysis', message: 'Analyzing uploaded files' });
+    publish({ type: 'phase-start', phase: 'analysis', message: '🔍 Analyzing uploaded files...' });
+
+    // Report secrets up front; credential files are kept out of the build context below
+    const secrets = scanFilesForSecrets(gitHubFiles);
+    if (secrets.findings.length > 0) {
+      secrets.findings.forEach(finding => tracker!.log(`🔐 ${formatSecretFinding(finding)}`));
+      log(`🔐 Found ${secrets.findings.length} secret(s); ${secrets.excluded.length} file(s) excluded from the build`, 'warn');
+      publish({ type: 'artifact', name: 'secretFindings', data: secrets.findings });
+    }
+    await tracker.update({ secretFindings: secrets.findings });
 
     // Analyze the uploaded project
     const analysis = await analyzeProject(gitHubFiles);
-    if (streamId) publishUploadStream(streamId, { message: '📊 Project analysis complete' });
+    log('📊 Project analysis complete');
     
     console.log('📊 Project analysis complete:', {
       language: analysis.language,
@@ -304,141 +405,239 @@ router.post('/deployments/upload', upload.array('files'), async (req, res) => {
     );
 
     console.log('✅ Dockerfile generated for uploaded project');
-    if (streamId) {
-      publishUploadStream(streamId, { message: '✅ Dockerfile generated for uploaded project' });
-      publishUploadStream(streamId, { dockerfilePreview: dockerfile.slice(0, 800) + '...' });
-    }
+    log('✅ Dockerfile generated for uploaded project');
+    publish({ type: 'artifact', name: 'dockerfile', data: dockerfile });
+
+    await tracker.update({
+      status: 'processing',
+      phase: 'build',
+      message: 'Building Docker image',
+      dockerfile,
+      analysis,
+      generatedFiles: analysis.generatedFiles || [],
+    });
 
     // 🚀 AUTOMATICALLY BUILD DOCKER IMAGE
     console.log('🐳 Starting automatic Docker build...');
     console.log('🔍 DEBUG: About to start Docker build process...');
-    if (streamId) publishUploadStream(streamId, { message: '🐳 Starting automatic Docker build...' });
+    publish({ type: 'phase-start', phase: 'build', message: '🐳 Starting automatic Docker build...' });
 
     let buildResult = null;
+    const imageName = `uploaded-project-${Date.now()}`;
     try {
       // Import the docker build monitor
       const { dockerBuildMonitor } = await import('../lib/dockerBuildMonitor');
       
-      // Create a temporary Dockerfile
-      const dockerfilePath = 'temp-upload-dockerfile';
-      fs.writeFileSync(dockerfilePath, dockerfile);
-
-      // Generate image name
-      const imageName = `uploaded-project-${Date.now()}`;
+      // Build from the uploaded files only, in this deployment's workspace; detected credential files are left out
+      workspaceManager.create(tracker.id, { repoIdentifier: 'uploaded-project', files: gitHubFiles, dockerfile, secrets });
 
       // Build with auto-fix
-      buildResult = await dockerBuildMonitor.buildWithAutoFix(
-        dockerfilePath,
-        '.', // Build context
+      const deploymentId = tracker.id;
+      buildResult = await withLogContext({ deploymentId, step: 'dockerBuild' }, () => workspaceManager.use(deploymentId, workspace => dockerBuildMonitor.buildWithAutoFix(
+        path.join(workspace.dir, 'Dockerfile'),
+        workspace.dir,
         imageName,
         3 // Max retry attempts
-      );
-
-      // Clean up temp file
-      fs.unlinkSync(dockerfilePath);
+      )));
 
       if (buildResult.success) {
         console.log(`✅ Docker image built successfully: ${imageName}`);
-        if (streamId) publishUploadStream(streamId, { 
-          message: `✅ Docker image built successfully: ${imageName}`,
-          imageName: imageName
-        });
+        log(`✅ Docker image built successfully: ${imageName}`);
+        publish({ type: 'artifact', name: 'image', data: { imageName } });
       } else {
         console.log(`❌ Docker build failed: ${buildResult.errors.map(e => e.message).join(', ')}`);
-        if (streamId) publishUploadStream(streamId, { 
-          message: `❌ Docker build failed: ${buildResult.errors.map(e => e.message).join(', ')}`,
-          errors: buildResult.errors
-        });
+        log(`❌ Docker build failed: ${buildResult.errors.map(e => e.message).join(', ')}`, 'error');
       }
 
     } catch (buildError) {
       console.error('❌ Docker build error:', buildError);
-      if (streamId) publishUploadStream(streamId, { 
-        message: `❌ Docker build error: ${buildError}`,
-        error: buildError
-      });
+      tracker.log(`❌ Docker build error: ${buildError}`);
+      log(`❌ Docker build error: ${buildError}`, 'error');
     }
 
-    if (streamId) {
-      publishUploadStream(streamId, { done: true });
-      closeUploadStream(streamId);
-    }
+    buildResult?.logs.forEach(line => tracker!.log(line));
+    await recordBuildOutcome(tracker, buildResult, imageName);
+
+    publish({
+      type: 'done',
+      success: true,
+      result: { deploymentId: tracker.id, imageName: buildResult?.success ? imageName : null }
+    });
 
     res.status(201).json({
       success: true,
       message: 'Local project analysis and Docker build completed successfully',
+      deploymentId: tracker.id,
       dockerfile,
       analysis,
       generatedFiles: analysis.generatedFiles || [],
+      secretFindings: secrets.findings,
+      upload: uploadReport,
+      workspaceId: workspaceManager.get(tracker.id)?.id,
       buildResult: buildResult ? {
         success: buildResult.success,
-        imageName: buildResult.success ? `uploaded-project-${Date.now()}` : null,
+        imageName: buildResult.success ? imageName : null,
         errors: buildResult.errors || []
       } : null
     });
 
   } catch (error) {
     console.error('❌ File upload processing error:', error);
-    const streamId = (req.query.streamId as string) || '';
-    if (streamId) {
-      publishUploadStream(streamId, { error: error instanceof Error ? error.message : 'File upload processing failed' });
-      publishUploadStream(streamId, { done: true });
-      closeUploadStream(streamId);
-    }
-    res.status(500).json({
-      success: false,
+    await tracker?.update({
+      status: 'failed',
       error: error instanceof Error ? error.message : 'File upload processing failed'
     });
+    if (streamId) eventBus.fail(streamId, error instanceof Error ? error.message : 'File upload processing failed');
+    res.status(error instanceof UploadError ? UPLOAD_ERROR_STATUS[error.code] : 500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'File upload processing failed',
+      ...(error instanceof UploadError && { limits: reportedUploadLimits })
+    });
+  }
+}
+
+// File upload endpoint for local project analysis: individual files, a folder or one zip/tar.gz archive
+router.post('/deployments/upload', optionalAuth, receiveUpload, (req, res) => {
+  console.log('📁 Received file upload request');
+  return processUpload(req, res, (req.files as Express.Multer.File[]) || [], req.body.userPrompt, uploadStreamId(req.query.streamId));
+});
+
+/*
+ * Resumable chunked uploads for projects too large for one request:
+ *   POST   /deployments/uploads                                 { files: [{ path, size, sha256? }], userPrompt?, streamId? }
+ *   PUT    /deployments/uploads/:id/files/:file/chunks/:chunk   raw chunk bytes with an X-Chunk-Sha256 header
+ *   GET    /deployments/uploads/:id                             received chunks and byte ranges per file
+ *   POST   /deployments/uploads/:id/complete                    assemble, then analyze and build like /deployments/upload
+ *   DELETE /deployments/uploads/:id
+ * Progress is published to the session's upload stream; `?streamId=` on any
+ * request points it at a new stream, e.g. after the page was reloaded.
+ */
+function sendUploadSessionError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof UploadSessionError) {
+    return res.status(UPLOAD_SESSION_ERROR_STATUS[error.code]).json({ success: false, error: error.message, code: error.code });
+  }
+  console.error(`❌ ${fallback}:`, error);
+  return res.status(500).json({ success: false, error: error instanceof Error ? error.message : fallback });
+}
+
+router.post('/deployments/uploads', optionalAuth, (req, res) => {
+  try {
+    const { files, userPrompt } = req.body;
+    const streamId = uploadStreamId(req.body.streamId);
+    if (!openUploadStream(req, res, streamId)) return;
+    const session = uploadSessions.create({
+      files,
+      userId: req.user?.id,
+      streamId: streamId || undefined,
+      userPrompt: typeof userPrompt === 'string' ? userPrompt : undefined
+    });
+    console.log(`📦 Started chunked upload ${session.id} (${session.files.length} file(s))`);
+    res.status(201).json({
+      success: true,
+      uploadId: session.id,
+      chunkSize: session.chunkSize,
+      progress: uploadSessions.progress(session)
+    });
+  } catch (error) {
+    sendUploadSessionError(res, error, 'Failed to start upload');
+  }
+});
+
+router.get('/deployments/uploads/:id', optionalAuth, (req, res) => {
+  try {
+    const session = uploadSessions.get(req.params.id, req.user?.id);
+    res.json({
+      success: true,
+      uploadId: session.id,
+      chunkSize: session.chunkSize,
+      progress: uploadSessions.progress(session)
+    });
+  } catch (error) {
+    sendUploadSessionError(res, error, 'Failed to read upload');
+  }
+});
+
+router.put('/deployments/uploads/:id/files/:file/chunks/:chunk', optionalAuth, async (req, res) => {
+  try {
+    const session = uploadSessions.get(req.params.id, req.user?.id);
+    const streamId = uploadStreamId(req.query.streamId) || session.streamId || '';
+    if (!openUploadStream(req, res, streamId)) return;
+    const fileIndex = Number(req.params.file);
+    const progress = await uploadSessions.writeChunk(session, fileIndex, Number(req.params.chunk), req, String(req.headers['x-chunk-sha256'] || '').toLowerCase());
+
+    if (streamId) {
+      const file = progress.files[fileIndex];
+      eventBus.publish(streamId, {
+        type: 'progress',
+        phase: 'upload',
+        progress: Math.floor((progress.receivedBytes / Math.max(progress.totalBytes, 1)) * 100),
+        data: { file: fileIndex, path: file.path, receivedBytes: file.receivedBytes, size: file.size, totalReceivedBytes: progress.receivedBytes, totalBytes: progress.totalBytes }
+      });
+      if (file.receivedChunks.length === file.chunks) {
+        eventBus.log(streamId, `📦 Received ${file.path} (${(file.size / 1024 / 1024).toFixed(1)} MB)`, 'info', 'upload');
+      }
+    }
+    res.json({ success: true, progress });
+  } catch (error) {
+    sendUploadSessionError(res, error, 'Failed to store chunk');
+  }
+});
+
+router.post('/deployments/uploads/:id/complete', optionalAuth, async (req, res) => {
+  let session: UploadSession;
+  let uploaded: UploadedFile[];
+  try {
+    session = uploadSessions.get(req.params.id, req.user?.id);
+    uploaded = await uploadSessions.assemble(session);
+  } catch (error) {
+    return sendUploadSessionError(res, error, 'Failed to assemble upload');
+  }
+
+  console.log(`📦 Chunked upload ${session.id} complete`);
+  try {
+    await processUpload(req, res, uploaded, req.body.userPrompt ?? session.userPrompt, uploadStreamId(req.query.streamId) || session.streamId || '');
+  } finally {
+    // The files were copied into the deployment's workspace
+    uploadSessions.remove(session.id);
   }
 });
 
-// SSE endpoint to stream upload analysis logs
+router.delete('/deployments/uploads/:id', optionalAuth, (req, res) => {
+  try {
+    const session = uploadSessions.get(req.params.id, req.user?.id);
+    uploadSessions.remove(session.id);
+    res.json({ success: true });
+  } catch (error) {
+    sendUploadSessionError(res, error, 'Failed to cancel upload');
+  }
+});
+
+// Events of an upload, by the streamId the client chose; the same stream as GET /api/events/:streamId
 router.get('/deployments/upload/stream', (req: Request, res: Response) => {
-  const { streamId } = req.query as Record<string, string>;
+  const streamId = uploadStreamId(req.query.streamId);
   if (!streamId) {
     return res.status(400).end('Missing streamId');
   }
-  res.setHeader('Content-Type', 'text/event-stream');
-  res.setHeader('Cache-Control', 'no-cache, no-transform');
-  res.setHeader('Connection', 'keep-alive');
-  res.setHeader('X-Accel-Buffering', 'no');
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.flushHeaders?.();
-  try { res.write('retry: 3000\n\n'); } catch (_) {}
-  const heartbeat = setInterval(() => {
-    try { res.write(': ping\n\n'); } catch(_) {}
-  }, 15000);
-
-  const send = (payload: any) => {
-    try { res.write(`data: ${JSON.stringify(payload)}\n\n`); } catch(_) {}
-  };
-  subscribeUploadStream(streamId, send);
-
-  req.on('close', () => {
-    clearInterval(heartbeat);
-    try { res.end(); } catch(_) {}
-  });
+  streamJobEvents(req, res, streamId);
 });
 
 // Get deployment by ID with detailed analysis
-router.get('/deployments/:id', async (req, res) => {
+router.get('/deployments/:id', verifyToken, async (req, res) => {
   try {
     const { id } = req.params;
-    
-    // This would typically fetch from database
-    // For now, return a placeholder response
+    const deployment = await deploymentRepository.get(id);
+
+    // Deployments owned by someone else are reported as missing
+    if (!deployment || !ownsDeployment(deployment, req.user)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Deployment not found'
+      });
+    }
+
     res.json({
       success: true,
-      deployment: {
-        id,
-        status: 'completed',
-        createdAt: new Date().toISOString(),
-        analysis: {
-          language: 'javascript',
-          framework: 'react',
-          projectHealth: 'good'
-        }
-      }
+      deployment
     });
   } catch (error) {
     console.error('❌ Error fetching deployment:', error);
@@ -449,13 +648,129 @@ router.get('/deployments/:id', async (req, res) => {
   }
 });
 
+// Download the SBOM of a built image: ?format=cyclonedx (default) or spdx, ?image= when several were built
+router.get('/deployments/:id/sbom', verifyToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { format = 'cyclonedx', image } = req.query as Record<string, string | undefined>;
+    const deployment = await deploymentRepository.get(id);
+
+    if (!deployment || !ownsDeployment(deployment, req.user)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Deployment not found'
+      });
+    }
+    if (format !== 'cyclonedx' && format !== 'spdx') {
+      return res.status(400).json({
+        success: false,
+        error: 'format must be cyclonedx or spdx'
+      });
+    }
+
+    const report = (deployment.securityReports || []).find(r => !image || r.image === image);
+    const file = report?.sbom[format];
+    // Only serve files the scanner wrote, whatever the stored record says
+    if (!file || !path.resolve(file).startsWith(`${sbomDir()}${path.sep}`) || !fs.existsSync(file)) {
+      return res.status(404).json({
+        success: false,
+        error: 'No SBOM recorded for this deployment'
+      });
+    }
+
+    res.setHeader('Content-Type', format === 'spdx' ? 'application/spdx+json' : 'application/vnd.cyclonedx+json');
+    res.setHeader('Content-Disposition', `attachment; filename="${path.basename(file)}"`);
+    fs.createReadStream(file).pipe(res);
+  } catch (error) {
+    console.error('❌ Error fetching SBOM:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch SBOM'
+    });
+  }
+});
+
+/*
+ * GET /api/deployments/:id/logs?step=&level=&since=&stream=&limit=
+ * Structured log records of a deployment, oldest first. `level` is the
+ * minimum level, `since` an ISO time, and `stream` is `pipeline` for the
+ * pipeline's messages or `build` for raw Docker build output.
+ */
+router.get('/deployments/:id/logs', verifyToken, async (req, res) => {
+  try {
+    const id = String(req.params.id);
+    const { step, level, since, stream, limit } = req.query as Record<string, string | undefined>;
+
+    if (level && !LOG_LEVELS.includes(level as JobLogLevel)) {
+      return res.status(400).json({ success: false, error: `Invalid level. Expected one of: ${LOG_LEVELS.join(', ')}` });
+    }
+    if (stream && stream !== 'pipeline' && stream !== 'build') {
+      return res.status(400).json({ success: false, error: 'stream must be pipeline or build' });
+    }
+    if (since && Number.isNaN(Date.parse(since))) {
+      return res.status(400).json({ success: false, error: 'since must be an ISO date' });
+    }
+    if (limit && !(Number.isInteger(Number(limit)) && Number(limit) > 0)) {
+      return res.status(400).json({ success: false, error: 'limit must be a positive integer' });
+    }
+
+    // Deployments owned by someone else are reported as missing; admins see those nobody owns
+    const deployment = await deploymentRepository.get(id);
+    if (!deployment || !ownsDeployment(deployment, req.user)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Deployment not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      logs: await logWriter.store.query(id, {
+        step,
+        level: level as JobLogLevel | undefined,
+        since: since ? new Date(since) : undefined,
+        stream: stream as LogStream | undefined,
+        limit: limit ? Number(limit) : undefined
+      })
+    });
+  } catch (error) {
+    console.error('❌ Error fetching deployment logs:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch deployment logs'
+    });
+  }
+});
+
 // Get all deployments for user
-router.get('/deployments', async (req, res) => {
+router.get('/deployments', verifyToken, async (req, res) => {
   try {
-    // This would typically fetch from database
+    const { status, repo, page, pageSize } = req.query as Record<string, string | undefined>;
+    const validStatuses: DeploymentStatus[] = ['pending', 'processing', 'completed', 'failed', 'cancelled'];
+
+    if (status && !validStatuses.includes(status as DeploymentStatus)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid status filter. Expected one of: ${validStatuses.join(', ')}`
+      });
+    }
+
+    const result = await deploymentRepository.list({
+      userId: req.user!.id,
+      status: status as DeploymentStatus | undefined,
+      repo,
+      page: page ? Number(page) : undefined,
+      pageSize: pageSize ? Number(pageSize) : undefined
+    });
+
     res.json({
       success: true,
-      deployments: []
+      deployments: result.deployments,
+      pagination: {
+        page: result.page,
+        pageSize: result.pageSize,
+        total: result.total
+      }
     });
   } catch (error) {
     console.error('❌ Error fetching deployments:', error);
@@ -516,7 +831,8 @@ router.post('/analyze-files', async (req, res) => {
 });
 
 // Docker build and deployment endpoint
-router.post('/deployments/:id/build', async (req, res) => {
+router.post('/deployments/:id/build', optionalAuth, redactionScope, async (req, res) => {
+  let tracker: DeploymentTracker | null = null;
   try {
     const { id } = req.params;
     const { 
@@ -525,12 +841,26 @@ router.post('/deployments/:id/build', async (req, res) => {
       files, 
       dockerHubUsername, 
       dockerHubPassword, 
+      registryCredentialId,
       imageName,
-      pushToHub = true 
+      pushToHub = true,
+      buildOptions,
+      vulnerabilityPolicy
     } = req.body;
 
     console.log('🐳 Starting Docker build and deployment for:', id);
 
+    // An existing deployment is only rebuilt by its owner; anyone else is told it does not exist
+    const existing = await deploymentRepository.get(id);
+    if (existing?.userId && !req.user) {
+      return res.status(401).json({ success: false, error: 'Sign in to rebuild this deployment' });
+    }
+    if (existing && !ownsDeployment(existing, req.user)) {
+      return res.status(404).json({ success: false, error: 'Deployment not found' });
+    }
+
+    secretRedactor.register(dockerHubPassword);
+
     if (!dockerfile) {
       return res.status(400).json({
         success: false,
@@ -545,93 +875,204 @@ router.post('/deployments/:id/build', async (req, res) => {
       });
     }
 
-    // Set up logging for real-time updates
+    let build: ReturnType<typeof parseBuildOptions>;
+    let policy: ReturnType<typeof parseVulnerabilityPolicy>;
+    try {
+      build = parseBuildOptions(buildOptions, { dockerfile });
+      policy = parseVulnerabilityPolicy(vulnerabilityPolicy);
+    } catch (error) {
+      if (error instanceof BuildOptionsError || error instanceof VulnerabilityPolicyError) {
+        return res.status(400).json({ success: false, error: error.message, errors: error.errors });
+      }
+      throw error;
+    }
+
+    // A stored registry login replaces the Docker Hub fields
+    let registry: ResolvedRegistry | undefined;
+    if (registryCredentialId) {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Sign in to use stored credentials' });
+      }
+      try {
+        registry = await credentialVault.resolveRegistry(req.user.id, registryCredentialId);
+      } catch (error) {
+        return sendCredentialError(res, error, 'Credential lookup failed');
+      }
+    }
+    const pushAuth: RegistryAuth | undefined = registry?.auth
+      ?? (dockerHubUsername && dockerHubPassword ? { username: dockerHubUsername, password: dockerHubPassword, serveraddress: 'docker.io' } : undefined);
+    const destination: RegistryDestination = registry ?? defaultDestination();
+    const registryName = registryDisplayName(destination);
+
+    // Derive image name if not provided, checked against the registry's naming rules
+    let finalImageName: string;
+    try {
+      finalImageName = imageName || deriveImageName(repoUrl || 'project', undefined, destination);
+    } catch (error) {
+      if (error instanceof RegistryError) {
+        return res.status(400).json({ success: false, error: error.message, errors: error.errors });
+      }
+      throw error;
+    }
+
+    // Multi-platform manifests cannot be loaded locally, buildx pushes them as it builds
+    const multiPlatform = (build.options.platforms?.length || 0) > 1;
+    if (multiPlatform && !(pushToHub && pushAuth)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Multi-platform builds are pushed during the build and need pushToHub with registry credentials'
+      });
+    }
+
+    tracker = await DeploymentTracker.start({
+      id,
+      userId: req.user?.id,
+      source: repoUrl ? 'repo' : 'upload',
+      repoUrl,
+    });
+    await tracker.update({
+      status: 'processing',
+      phase: 'build',
+      message: 'Building Docker image',
+      dockerfile,
+      buildOptions: recordBuildOptions(build.options, build.secrets)
+    });
+
+    // Set up logging for real-time updates; Docker's own output is stored as the build stream
     const logs: string[] = [];
-    const logSink: LogSink = (chunk: string) => {
+    const sinkTo = (logger: typeof deploymentLogger): LogSink => secretRedactor.sink((chunk: string) => {
       logs.push(chunk);
-      console.log('🐳 Docker:', chunk.trim());
-    };
+      tracker!.log(chunk);
+      if (chunk.trim()) logger.info(chunk.trim());
+    });
+    const logSink = sinkTo(deploymentLogger.child({ deploymentId: id }));
+    const buildOutput = sinkTo(buildOutputLogger.child({ deploymentId: id, step: 'dockerBuild' }));
 
-    // Prepare build context
+    // Secrets in the files and Dockerfile; credential files are excluded from the context
+    const secrets = scanFilesForSecrets(files);
+    const secretFindings: SecretFinding[] = [...secrets.findings, ...scanDockerfileForSecrets(dockerfile)];
+    secretFindings.forEach(finding => logSink(`🔐 ${formatSecretFinding(finding)}`));
+
+    // Prepare the build context in this deployment's workspace
     logSink('📁 Preparing build context...');
-    const buildContext = prepareBuildContext(repoUrl || 'project', files, dockerfile);
-    logSink(`✅ Build context prepared at: ${buildContext}`);
+    const { dir: buildContext } = workspaceManager.create(id, { repoIdentifier: repoUrl || 'project', files, dockerfile, secrets });
+    logSink('✅ Build context prepared');
 
-    // Derive image name if not provided
-    const finalImageName = imageName || deriveImageName(repoUrl || 'project');
     logSink(`🏷️ Using image name: ${finalImageName}`);
 
     // Build Docker image
     logSink('🔨 Building Docker image...');
-    await build_docker_image(buildContext, finalImageName, { onLog: logSink });
+    if (multiPlatform) {
+      await login_docker_registry(pushAuth!, logSink);
+    }
+    const buildResult = await workspaceManager.use(id, () => build_docker_image(buildContext, finalImageName, {
+      ...build.options,
+      secrets: build.secrets,
+      push: multiPlatform,
+      onLog: buildOutput
+    }));
     logSink('✅ Docker image built successfully!');
+    await tracker.update({ imageName: finalImageName, pushedImages: buildResult.pushed ? [pushedImage(finalImageName, buildResult.digest)] : undefined });
 
-    let pushResult = null;
-    if (pushToHub && dockerHubUsername && dockerHubPassword) {
+    // SBOM and vulnerability report; multi-platform images never reach the local image store
+    let securityReport: ImageSecurityReport | undefined;
+    let pushBlocked: string | undefined;
+    if (!buildResult.pushed) {
+      await tracker.update({ status: 'processing', phase: 'scan', message: 'Scanning image for vulnerabilities' });
       try {
-        logSink('🔐 Logging into Docker Hub...');
-        
-        // Login to Docker Hub
-        const { spawn } = require('child_process');
-        await new Promise<void>((resolve, reject) => {
-          const loginProc = spawn('docker', ['login', '-u', dockerHubUsername, '-p', dockerHubPassword], { 
-            stdio: ['ignore', 'pipe', 'pipe'] 
-          });
-          
-          let output = '';
-          loginProc.stdout.on('data', (d: Buffer) => output += d.toString());
-          loginProc.stderr.on('data', (d: Buffer) => output += d.toString());
-          
-          loginProc.on('close', (code: number) => {
-            if (code === 0) {
-              logSink('✅ Successfully logged into Docker Hub');
-              resolve();
-            } else {
-              logSink(`❌ Docker Hub login failed: ${output}`);
-              reject(new Error(`Docker login failed: ${output}`));
-            }
-          });
+        const imageSecrets = await scanImageForSecrets(finalImageName);
+        imageSecrets.forEach(finding => logSink(`🔐 ${formatSecretFinding(finding)}`));
+        secretFindings.push(...imageSecrets);
+      } catch (scanError) {
+        logSink(`⚠️ Secret scan of the image failed: ${scanError instanceof Error ? scanError.message : String(scanError)}`);
+      }
+      try {
+        securityReport = await scanImage(finalImageName, {
+          onLog: logSink,
+          policy,
+          dockerfilePath: path.join(buildContext, 'Dockerfile'),
+          outputDir: path.join(sbomDir(), id)
         });
+        await tracker.update({ securityReports: [securityReport] });
+        if (securityReport.policy && !securityReport.policy.passed) {
+          pushBlocked = `Push blocked by vulnerability policy: ${securityReport.policy.violations.join('; ')}`;
+        }
+      } catch (scanError) {
+        const message = scanError instanceof Error ? scanError.message : String(scanError);
+        logSink(`⚠️ Security scan failed: ${message}`);
+        if (policy) pushBlocked = `Push blocked: the image could not be scanned (${message})`;
+      }
+    }
 
-        // Push to Docker Hub
-        logSink('📤 Pushing image to Docker Hub...');
-        await push_docker_image(finalImageName, { onLog: logSink });
-        logSink('🚀 Image pushed to Docker Hub successfully!');
+    let pushResult = null;
+    if (buildResult.pushed) {
+      pushResult = {
+        success: true,
+        imageUrl: pushedImageUrl(finalImageName, destination.type),
+        digest: buildResult.digest,
+        pullCommand: `docker pull ${finalImageName}`,
+        platforms: build.options.platforms
+      };
+    } else if (pushToHub && pushBlocked) {
+      logSink(`🚫 ${pushBlocked}`);
+      pushResult = {
+        success: false,
+        error: pushBlocked
+      };
+    } else if (pushToHub && (pushAuth || destination.insecure)) {
+      await tracker.update({ status: 'processing', phase: 'push', message: `Pushing image to ${registryName}` });
+      try {
+        // The Engine API takes the credentials with the request; insecure registries may take none
+        const pushed = await push_docker_image(finalImageName, {
+          onLog: logSink,
+          auth: pushAuth,
+          destination
+        });
+        logSink(`🚀 Image pushed to ${registryName} successfully!`);
+        await tracker.update({ pushedImages: [pushedImage(finalImageName, pushed.digest)] });
         
         pushResult = {
           success: true,
-          imageUrl: `https://hub.docker.com/r/${finalImageName.split(':')[0]}`,
-          pullCommand: `docker pull ${finalImageName}`
+          imageUrl: pushedImageUrl(finalImageName, destination.type),
+          digest: pushed.digest,
+          pullCommand: `docker pull ${pushed.digest ? `${parseImageReference(finalImageName).repository}@${pushed.digest}` : finalImageName}`
         };
       } catch (pushError) {
-        logSink(`⚠️ Push to Docker Hub failed: ${pushError}`);
+        logSink(`⚠️ Push to ${registryName} failed: ${pushError}`);
         pushResult = {
           success: false,
           error: pushError instanceof Error ? pushError.message : 'Push failed'
         };
       }
     } else if (pushToHub) {
-      logSink('⚠️ Docker Hub credentials not provided, skipping push');
+      logSink('⚠️ Registry credentials not provided, skipping push');
       pushResult = {
         success: false,
-        error: 'Docker Hub credentials required for push'
+        error: 'Registry credentials (dockerHubUsername/dockerHubPassword or registryCredentialId) required for push'
       };
     }
 
-    // Clean up build context
-    try {
-      fs.rmSync(buildContext, { recursive: true, force: true });
-      logSink('🧹 Build context cleaned up');
-    } catch (cleanupError) {
-      logSink(`⚠️ Cleanup warning: ${cleanupError}`);
-    }
+    // The workspace stays for fix requests until the retention window passes
+    logSink(`🗂️ Workspace kept for ${Math.round(workspaceManager.limits.retentionMs / 3600000)}h`);
+
+    await tracker.update({
+      status: 'completed',
+      phase: 'build',
+      message: pushResult?.success ? 'Image built and pushed' : 'Image built',
+      deploymentUrl: pushResult?.success ? pushResult.imageUrl : undefined,
+      secretFindings
+    });
 
     res.json({
       success: true,
       message: 'Docker build and deployment completed',
       deploymentId: id,
       imageName: finalImageName,
+      imageId: buildResult.imageId,
+      buildOptions: recordBuildOptions(build.options, build.secrets),
       buildLogs: logs,
+      securityReport,
+      secretFindings,
       pushResult,
       commands: {
         run: `docker run -p 8080:8080 ${finalImageName}`,
@@ -641,16 +1082,25 @@ router.post('/deployments/:id/build', async (req, res) => {
 
   } catch (error) {
     console.error('❌ Docker build error:', error);
-    res.status(500).json({
+    if (error instanceof DeploymentOwnershipError) {
+      return res.status(404).json({ success: false, error: 'Deployment not found' });
+    }
+    await tracker?.update({
+      status: 'failed',
+      phase: 'build',
+      error: error instanceof Error ? error.message : 'Docker build failed'
+    });
+    res.status(error instanceof WorkspaceError ? WORKSPACE_ERROR_STATUS[error.code] : 500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Docker build failed',
+      buildError: error instanceof DockerBuildFailedError ? error.buildError : undefined,
       logs: []
     });
   }
 });
 
 // Docker Hub authentication test endpoint
-router.post('/docker-hub/test', async (req, res) => {
+router.post('/docker-hub/test', redactionScope, async (req, res) => {
   try {
     const { username, password } = req.body;
 
@@ -661,25 +1111,9 @@ router.post('/docker-hub/test', async (req, res) => {
       });
     }
 
-    const { spawn } = require('child_process');
-    
-    await new Promise<void>((resolve, reject) => {
-      const loginProc = spawn('docker', ['login', '-u', username, '-p', password], { 
-        stdio: ['ignore', 'pipe', 'pipe'] 
-      });
-      
-      let output = '';
-      loginProc.stdout.on('data', (d: Buffer) => output += d.toString());
-      loginProc.stderr.on('data', (d: Buffer) => output += d.toString());
-      
-      loginProc.on('close', (code: number) => {
-        if (code === 0) {
-          resolve();
-        } else {
-          reject(new Error(`Login failed: ${output}`));
-        }
-      });
-    });
+    // Engine API check: validates without writing credentials to ~/.docker/config.json
+    secretRedactor.register(password);
+    await dockerEngine.checkAuth({ username, password, serveraddress: 'docker.io' });
 
     res.json({
       success: true,
@@ -687,10 +1121,10 @@ router.post('/docker-hub/test', async (req, res) => {
     });
 
   } catch (error) {
-    console.error('❌ Docker Hub auth test error:', error);
+    console.error('❌ Docker Hub auth test error:', secretRedactor.redactValue(error));
     res.status(401).json({
       success: false,
-      error: error instanceof Error ? error.message : 'Docker Hub authentication failed'
+      error: error instanceof Error ? secretRedactor.redact(error.message) : 'Docker Hub authentication failed'
     });
   }
 });
@@ -1,10 +1,13 @@
 import express from 'express';
 import multer from 'multer';
-import * as fs from 'fs';
-import * as path from 'path';
+import { randomUUID } from 'crypto';
 import { DockerAutoFixer } from '../lib/dockerAutoFixer';
 import { analyzeProject } from '../lib/aiService';
-import { prepareBuildContext, deriveImageName } from '../lib/docker';
+import { deriveImageName } from '../lib/docker';
+import { workspaceManager } from '../lib/workspaces';
+import { toGitHubFile } from '../lib/uploads';
+import { eventBus } from '../lib/events';
+import { streamJobEvents } from './events';
 import type { Request, Response } from 'express';
 
 const router = express.Router();
@@ -35,13 +38,8 @@ router.post('/docker-auto-fix', upload.array('files'), async (req: Request, res:
 
     console.log(`🤖 Starting Docker auto-fix for ${files.length} files...`);
 
-    // Convert uploaded files to GitHubFile format
-    const gitHubFiles = files.map(file => ({
-      name: file.originalname.split('/').pop() || file.originalname,
-      path: file.originalname,
-      type: 'file' as const,
-      content: file.buffer.toString('utf-8'),
-    }));
+    // Convert uploaded files to GitHubFile format; binary files keep their bytes
+    const gitHubFiles = files.map(file => toGitHubFile(file.originalname, file.buffer));
 
     // Analyze the project
     const analysis = await analyzeProject(gitHubFiles);
@@ -58,7 +56,6 @@ router.post('/docker-auto-fix', upload.array('files'), async (req: Request, res:
     // Prepare build context
     const repoIdentifier = 'auto-fix-project';
     const dockerfileContent = gitHubFiles.find(f => f.name === 'Dockerfile')?.content || '';
-    const buildContext = prepareBuildContext(repoIdentifier, gitHubFiles, dockerfileContent);
     const imageName = deriveImageName(repoIdentifier);
 
     // Set up logging
@@ -81,13 +78,15 @@ router.post('/docker-auto-fix', upload.array('files'), async (req: Request, res:
       projectContext: userPrompt,
     });
 
-    // Start the auto-fix process
-    const result = await autoFixer.autoFixDockerBuild(
-      buildContext,
-      imageName,
-      gitHubFiles,
-      analysis,
-      { projectContext: userPrompt }
+    // Start the auto-fix process in a scratch workspace
+    const result = await workspaceManager.scratch('auto-fix', { repoIdentifier, files: gitHubFiles, dockerfile: dockerfileContent }, workspace =>
+      autoFixer.autoFixDockerBuild(
+        workspace.dir,
+        imageName,
+        gitHubFiles,
+        analysis,
+        { projectContext: userPrompt }
+      )
     );
 
     console.log('🎯 Docker auto-fix completed');
@@ -126,138 +125,106 @@ router.post('/docker-auto-fix', upload.array('files'), async (req: Request, res:
 
 /**
  * POST /api/docker-auto-fix/stream
- * Stream Docker auto-fix process with real-time updates
+ * Stream Docker auto-fix process with real-time updates. The response is the
+ * job's SSE event stream; the job id in every event can also be followed at
+ * GET /api/events/:jobId or over the event WebSocket.
  */
 router.post('/docker-auto-fix/stream', upload.array('files'), async (req: Request, res: Response) => {
-  try {
-    const files = req.files as Express.Multer.File[];
-    const { userPrompt, maxAttempts = 3 } = req.body;
-
-    if (!files || files.length === 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'No files uploaded',
-      });
-    }
+  const files = req.files as Express.Multer.File[];
+  const { userPrompt, maxAttempts = 3 } = req.body;
 
-    // Set up Server-Sent Events
-    res.writeHead(200, {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Headers': 'Cache-Control',
+  if (!files || files.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'No files uploaded',
     });
+  }
 
-    const sendEvent = (type: string, data: any) => {
-      res.write(`event: ${type}\n`);
-      res.write(`data: ${JSON.stringify(data)}\n\n`);
-    };
+  const jobId = `auto-fix-${randomUUID()}`;
+  void runAutoFixJob(jobId, files, userPrompt, parseInt(maxAttempts) || 3);
+  streamJobEvents(req, res, jobId, { afterId: 0 });
+});
 
-    try {
-      sendEvent('start', { message: 'Starting Docker auto-fix process...' });
+/**
+ * Analyze uploaded files and auto-fix their Docker build in a scratch
+ * workspace, publishing each step as job `jobId`
+ */
+async function runAutoFixJob(jobId: string, files: Express.Multer.File[], userPrompt: string | undefined, maxAttempts: number): Promise<void> {
+  try {
+    eventBus.publish(jobId, { type: 'phase-start', phase: 'start', message: 'Starting Docker auto-fix process...' });
 
-      // Convert uploaded files to GitHubFile format
-      const gitHubFiles = files.map(file => ({
-        name: file.originalname.split('/').pop() || file.originalname,
-        path: file.originalname,
-        type: 'file' as const,
-        content: file.buffer.toString('utf-8'),
-      }));
-
-      sendEvent('analyze', { message: 'Analyzing project structure...' });
-
-      // Analyze the project
-      const analysis = await analyzeProject(gitHubFiles);
-
-      sendEvent('analyze_complete', { 
-        message: 'Project analysis complete',
-        analysis: {
-          language: analysis.language,
-          framework: analysis.framework,
-          dependencies: analysis.dependencies,
-          projectHealth: analysis.projectHealth,
-        }
-      });
+    // Convert uploaded files to GitHubFile format; binary files keep their bytes
+    const gitHubFiles = files.map(file => toGitHubFile(file.originalname, file.buffer));
+
+    eventBus.publish(jobId, { type: 'phase-start', phase: 'analysis', message: 'Analyzing project structure...' });
+
+    // Analyze the project
+    const analysis = await analyzeProject(gitHubFiles);
 
-      // Initialize the Docker auto-fixer
-      const apiKey = process.env.OPENAI_API_KEY;
-      if (!apiKey) {
-        throw new Error('OpenAI API key not configured');
+    eventBus.publish(jobId, {
+      type: 'artifact',
+      name: 'analysis',
+      data: {
+        language: analysis.language,
+        framework: analysis.framework,
+        dependencies: analysis.dependencies,
+        projectHealth: analysis.projectHealth,
       }
+    });
 
-      // Prepare build context
-      const repoIdentifier = 'auto-fix-project';
-      const dockerfileContent = gitHubFiles.find(f => f.name === 'Dockerfile')?.content || '';
-      const buildContext = prepareBuildContext(repoIdentifier, gitHubFiles, dockerfileContent);
-      const imageName = deriveImageName(repoIdentifier);
+    // Initialize the Docker auto-fixer
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error('OpenAI API key not configured');
+    }
 
-      sendEvent('build_context', { 
-        message: 'Build context prepared',
-        buildContext,
-        imageName
-      });
+    // Prepare build context
+    const repoIdentifier = 'auto-fix-project';
+    const dockerfileContent = gitHubFiles.find(f => f.name === 'Dockerfile')?.content || '';
+    const imageName = deriveImageName(repoIdentifier);
 
-      // Set up logging
-      const onLog = (message: string) => {
-        sendEvent('log', { message, timestamp: new Date().toISOString() });
-      };
-
-      let progress = 0;
-      const onProgress = (newProgress: number) => {
-        progress = newProgress;
-        sendEvent('progress', { progress: newProgress });
-      };
-
-      // Initialize the auto-fixer
-      const autoFixer = new DockerAutoFixer(apiKey, {
-        maxAttempts: parseInt(maxAttempts) || 3,
-        onLog,
-        onProgress,
-        projectContext: userPrompt,
-      });
+    // Initialize the auto-fixer; its log and progress callbacks feed the stream
+    const autoFixer = new DockerAutoFixer(apiKey, {
+      maxAttempts,
+      onLog: message => eventBus.log(jobId, message, 'info', 'fix'),
+      onProgress: progress => eventBus.publish(jobId, { type: 'progress', phase: 'fix', progress }),
+      projectContext: userPrompt,
+    });
 
-      // Start the auto-fix process
-      const result = await autoFixer.autoFixDockerBuild(
-        buildContext,
+    // Start the auto-fix process in a scratch workspace
+    const result = await workspaceManager.scratch('auto-fix', { repoIdentifier, files: gitHubFiles, dockerfile: dockerfileContent }, workspace => {
+      eventBus.publish(jobId, { type: 'phase-start', phase: 'fix', message: 'Build context prepared' });
+      eventBus.publish(jobId, { type: 'artifact', name: 'buildContext', data: { workspaceId: workspace.id, imageName } });
+      return autoFixer.autoFixDockerBuild(
+        workspace.dir,
         imageName,
         gitHubFiles,
         analysis,
         { projectContext: userPrompt }
       );
+    });
 
-      sendEvent('complete', {
-        success: result.success,
-        message: result.success 
-          ? 'Docker build issues fixed successfully!' 
+    eventBus.publish(jobId, {
+      type: 'done',
+      success: result.success,
+      result: {
+        message: result.success
+          ? 'Docker build issues fixed successfully!'
           : 'Docker auto-fix completed with issues',
-        result: {
-          attempts: result.attempts,
-          maxAttempts: result.maxAttempts,
-          errors: result.errors,
-          generatedFiles: result.generatedFiles,
-          removedInstructions: result.removedInstructions,
-          buildLogs: result.buildLogs,
-          finalDockerfile: result.finalDockerfile,
-        }
-      });
-
-    } catch (error) {
-      sendEvent('error', {
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
-      });
-    } finally {
-      res.end();
-    }
-
+        attempts: result.attempts,
+        maxAttempts: result.maxAttempts,
+        errors: result.errors,
+        generatedFiles: result.generatedFiles,
+        removedInstructions: result.removedInstructions,
+        buildLogs: result.buildLogs,
+        finalDockerfile: result.finalDockerfile,
+      }
+    });
   } catch (error) {
     console.error('❌ Docker auto-fix stream error:', error);
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred',
-    });
+    eventBus.fail(jobId, error instanceof Error ? error.message : 'Unknown error occurred');
   }
-});
+}
 
 /**
  * POST /api/docker-auto-fix/start-docker
@@ -338,19 +305,12 @@ router.post('/test-builder-error', async (req: Request, res: Response) => {
       });
     }
 
-    // Create a test build context
-    const testBuildContext = path.join(process.cwd(), 'test-docker-build');
-    if (!fs.existsSync(testBuildContext)) {
-      fs.mkdirSync(testBuildContext, { recursive: true });
-    }
-
     // Create a simple Dockerfile that references the missing file
     const dockerfileContent = `FROM node:18-alpine
 WORKDIR /app
 COPY . .
 RUN echo "Building with .builder files"
 `;
-    fs.writeFileSync(path.join(testBuildContext, 'Dockerfile'), dockerfileContent);
 
     // Create mock project files
     const mockFiles = [
@@ -398,20 +358,17 @@ RUN echo "Building with .builder files"
       projectContext: 'Test project with missing .builder/rules/organize-ui.mdc file',
     });
 
-    // Start the auto-fix process
-    const result = await autoFixer.autoFixDockerBuild(
-      testBuildContext,
-      'test-builder-app',
-      mockFiles,
-      mockAnalysis,
-      { projectContext: 'Test project with missing .builder/rules/organize-ui.mdc file' }
+    // Start the auto-fix process in a scratch workspace, removed afterwards
+    const result = await workspaceManager.scratch('test-builder', { repoIdentifier: 'test-builder-app', files: mockFiles, dockerfile: dockerfileContent }, workspace =>
+      autoFixer.autoFixDockerBuild(
+        workspace.dir,
+        'test-builder-app',
+        mockFiles,
+        mockAnalysis,
+        { projectContext: 'Test project with missing .builder/rules/organize-ui.mdc file' }
+      )
     );
 
-    // Clean up test directory
-    if (fs.existsSync(testBuildContext)) {
-      fs.rmSync(testBuildContext, { recursive: true, force: true });
-    }
-
     console.log('🎯 Test completed');
 
     res.json({
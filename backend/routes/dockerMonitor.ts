@@ -1,7 +1,10 @@
 import { Router } from 'express';
 import { dockerBuildMonitor } from '../lib/dockerBuildMonitor';
-import { spawn } from 'child_process';
+import { lintDockerfile, applyLintFixes } from '../lib/dockerfileLinter';
+import { workspaceManager, Workspace, WorkspaceError, WORKSPACE_ERROR_STATUS } from '../lib/workspaces';
+import { requireWorkspaceOwner } from './auth';
 import * as fs from 'fs';
+import * as path from 'path';
 
 const router = Router();
 
@@ -12,35 +15,42 @@ const router = Router();
 
 /**
  * POST /api/docker-monitor/validate-dockerfile
- * Validates a Dockerfile for common issues before building
+ * Lints a Dockerfile and returns findings with rule IDs, severities, ranges
+ * and autofixes. Pass `files` (build context paths) to check COPY sources,
+ * `expectedPort` to check EXPOSE and `fix: true` to get the fixed Dockerfile.
  */
 router.post('/validate-dockerfile', async (req, res) => {
   try {
-    const { dockerfile } = req.body;
+    const { dockerfile, files, dockerignore, expectedPort, fix } = req.body;
 
-    if (!dockerfile) {
+    if (!dockerfile || typeof dockerfile !== 'string') {
       return res.status(400).json({
         success: false,
         error: 'Dockerfile content is required'
       });
     }
 
-    // Write Dockerfile to temp file
-
-    const dockerfilePath = 'temp-dockerfile';
-    fs.writeFileSync(dockerfilePath, dockerfile);
-
-    // Validate the Dockerfile
-    const errors = await dockerBuildMonitor.validateDockerfile(dockerfilePath);
+    if (files !== undefined && (!Array.isArray(files) || files.some((f: unknown) => typeof f !== 'string'))) {
+      return res.status(400).json({
+        success: false,
+        error: 'files must be an array of paths'
+      });
+    }
 
-    // Clean up temp file
-    fs.unlinkSync(dockerfilePath);
+    const { findings } = lintDockerfile(dockerfile, {
+      files,
+      dockerignore: typeof dockerignore === 'string' ? dockerignore : undefined,
+      expectedPort: expectedPort ? Number(expectedPort) : undefined
+    });
+    const errors = dockerBuildMonitor.toBuildErrors(findings.filter(f => f.severity !== 'info'));
 
     res.json({
       success: true,
+      findings,
       errors,
       errorCount: errors.length,
-      hasErrors: errors.length > 0
+      hasErrors: findings.some(f => f.severity === 'error'),
+      fixedDockerfile: fix ? applyLintFixes(dockerfile, findings) : undefined
     });
 
   } catch (error) {
@@ -53,13 +63,15 @@ router.post('/validate-dockerfile', async (req, res) => {
 
 /**
  * POST /api/docker-monitor/build-with-auto-fix
- * Builds a Docker image with automatic error fixing
+ * Builds a Docker image with automatic error fixing. With `workspaceId` the
+ * build runs in that deployment's workspace, for its signed-in owner only;
+ * otherwise the Dockerfile is built in a scratch workspace of its own.
  */
-router.post('/build-with-auto-fix', async (req, res) => {
+router.post('/build-with-auto-fix', requireWorkspaceOwner, async (req, res) => {
   try {
     const { 
       dockerfile, 
-      contextPath = '.', 
+      workspaceId,
       imageName = 'test-image',
       maxRetries = 3 
     } = req.body;
@@ -73,23 +85,15 @@ router.post('/build-with-auto-fix', async (req, res) => {
 
     console.log('🔍 Starting Docker build with auto-error fixing...');
 
-    // Write Dockerfile to disk
-
-    const dockerfilePath = 'Dockerfile';
-    fs.writeFileSync(dockerfilePath, dockerfile);
-
     // Build with auto-error fixing
-    const result = await dockerBuildMonitor.buildWithAutoFix(
-      dockerfilePath,
-      contextPath,
-      imageName,
-      maxRetries
-    );
-
-    // Clean up Dockerfile
-    if (fs.existsSync(dockerfilePath)) {
-      fs.unlinkSync(dockerfilePath);
-    }
+    const build = (workspace: Workspace) => {
+      const dockerfilePath = path.join(workspace.dir, 'Dockerfile');
+      fs.writeFileSync(dockerfilePath, dockerfile);
+      return dockerBuildMonitor.buildWithAutoFix(dockerfilePath, workspace.dir, imageName, maxRetries);
+    };
+    const result = workspaceId
+      ? await workspaceManager.use(workspaceId, build)
+      : await workspaceManager.scratch('monitor', { repoIdentifier: imageName, files: [], dockerfile }, build);
 
     res.json({
       success: result.success,
@@ -100,7 +104,7 @@ router.post('/build-with-auto-fix', async (req, res) => {
     });
 
   } catch (error) {
-    res.status(500).json({
+    res.status(error instanceof WorkspaceError ? WORKSPACE_ERROR_STATUS[error.code] : 500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Build failed'
     });
@@ -124,20 +128,11 @@ router.post('/fix-dockerfile', async (req, res) => {
 
     console.log('🤖 Analyzing Dockerfile with AI for fixes...');
 
-    // Write Dockerfile to temp file
-
-    const dockerfilePath = 'temp-dockerfile';
-    fs.writeFileSync(dockerfilePath, dockerfile);
-
     // Use AI to fix the Dockerfile
-    const fixedDockerfile = await dockerBuildMonitor['analyzeAndFixErrors'](
-      dockerfilePath,
-      errors || []
+    const fixedDockerfile = await workspaceManager.scratch('fix', { repoIdentifier: 'dockerfile', files: [], dockerfile }, workspace =>
+      dockerBuildMonitor['analyzeAndFixErrors'](path.join(workspace.dir, 'Dockerfile'), errors || [], workspace.dir)
     );
 
-    // Clean up temp file
-    fs.unlinkSync(dockerfilePath);
-
     res.json({
       success: true,
       originalDockerfile: dockerfile,
@@ -193,26 +188,22 @@ HEALTHCHECK --interval=30s --timeout=3s CMD curl -f http://localhost:8080/ || ex
 
     console.log('🧪 Testing auto-fix system with problematic Dockerfile...');
 
-    // Step 1: Validate the problematic Dockerfile
+    const { validationErrors, fixedDockerfile } = await workspaceManager.scratch('test', { repoIdentifier: 'test', files: [], dockerfile: problematicDockerfile }, async workspace => {
+      const dockerfilePath = path.join(workspace.dir, 'Dockerfile');
+      fs.writeFileSync(dockerfilePath, problematicDockerfile);
 
-    const dockerfilePath = 'test-dockerfile';
-    fs.writeFileSync(dockerfilePath, problematicDockerfile);
+      // Step 1: Validate the problematic Dockerfile
+      const validationErrors = await dockerBuildMonitor.validateDockerfile(dockerfilePath);
 
-    const validationErrors = await dockerBuildMonitor.validateDockerfile(dockerfilePath);
-    
-    console.log(`Found ${validationErrors.length} issues:`);
-    validationErrors.forEach(error => {
-      console.log(`- ${error.type}: ${error.message}`);
-    });
-
-    // Step 2: Try to fix the Dockerfile
-    const fixedDockerfile = await dockerBuildMonitor['analyzeAndFixErrors'](
-      dockerfilePath,
-      validationErrors
-    );
+      console.log(`Found ${validationErrors.length} issues:`);
+      validationErrors.forEach(error => {
+        console.log(`- ${error.type}: ${error.message}`);
+      });
 
-    // Clean up
-    fs.unlinkSync(dockerfilePath);
+      // Step 2: Try to fix the Dockerfile
+      const fixedDockerfile = await dockerBuildMonitor['analyzeAndFixErrors'](dockerfilePath, validationErrors, workspace.dir);
+      return { validationErrors, fixedDockerfile };
+    });
 
     res.json({
       success: true,
@@ -0,0 +1,144 @@
+import express from 'express';
+import type { Request, Response } from 'express';
+import type { Server } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { eventBus, JOB_ID } from '../lib/events';
+import { streamTickets } from '../lib/credentials';
+import { optionalAuth } from './auth';
+import type { JobEvent, JobSocketRejection, JobSocketRequest } from '../../shared/types';
+
+const router = express.Router();
+
+export const EVENT_SOCKET_PATH = '/api/events';
+
+const SSE_HEARTBEAT_MS = 15000;
+const SOCKET_HEARTBEAT_MS = 30000;
+
+function lastEventId(req: Request): number {
+  const value = Number(req.headers['last-event-id'] ?? req.query.lastEventId ?? 0);
+  return Number.isInteger(value) && value > 0 ? value : 0;
+}
+
+/**
+ * Answer with a job's events as Server-Sent Events: buffered ones after
+ * `afterId` first, then live ones, until the job is done or the client
+ * goes away. Each event carries its id, so EventSource resumes on its own.
+ */
+export function streamJobEvents(req: Request, res: Response, jobId: string, options: { afterId?: number; userId?: string } = {}): void {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.flushHeaders?.();
+  try { res.write('retry: 3000\n\n'); } catch (_) {}
+
+  let unsubscribe: (() => void) | null = null;
+  let closed = false;
+  const heartbeat = setInterval(() => {
+    try { res.write(': ping\n\n'); } catch (_) {}
+  }, SSE_HEARTBEAT_MS);
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe?.();
+    try { res.end(); } catch (_) {}
+  };
+
+  unsubscribe = eventBus.subscribe(jobId, (event: JobEvent) => {
+    try { res.write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`); } catch (_) {}
+    if (event.type === 'done') close();
+  }, { afterId: options.afterId ?? lastEventId(req), userId: options.userId });
+  // The replay may already have reached `done`
+  if (closed) unsubscribe();
+  res.on('close', close);
+}
+
+/*
+ * GET /api/events/:jobId
+ * SSE stream of any job: an auto-deploy deployment id, an analysis or
+ * auto-fix job id, or the streamId of an upload. `Last-Event-ID` (or
+ * ?lastEventId=) resumes after that event. Jobs started by a signed-in user
+ * need their token, or ?ticket= from POST /api/deployments/stream/ticket
+ * since EventSource cannot send headers.
+ */
+router.get('/events/:jobId', optionalAuth, (req: Request, res: Response) => {
+  const jobId = String(req.params.jobId);
+  if (!JOB_ID.test(jobId)) {
+    return res.status(400).json({ success: false, error: 'Invalid job id' });
+  }
+
+  let userId = req.user?.id;
+  if (req.query.ticket) {
+    const ticket = streamTickets.redeem(String(req.query.ticket));
+    if (!ticket) {
+      return res.status(401).json({ success: false, error: 'Stream ticket is invalid or expired' });
+    }
+    userId = ticket.userId ?? userId;
+  }
+  if (!eventBus.canAccess(jobId, userId)) {
+    return res.status(404).json({ success: false, error: 'Job not found' });
+  }
+
+  streamJobEvents(req, res, jobId, { userId });
+});
+
+/**
+ * Serve the same events over WebSocket at /api/events. Clients send
+ * `{ type: 'subscribe', jobId, lastEventId?, ticket? }` for each job they
+ * follow and `{ type: 'unsubscribe', jobId }`; events arrive as the same
+ * JSON as on the SSE stream.
+ */
+export function attachEventSocket(server: Server): WebSocketServer {
+  const sockets = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req, socket, head) => {
+    if (new URL(req.url || '/', 'http://localhost').pathname !== EVENT_SOCKET_PATH) return;
+    sockets.handleUpgrade(req, socket, head, ws => sockets.emit('connection', ws, req));
+  });
+
+  sockets.on('connection', (ws: WebSocket) => {
+    const subscriptions = new Map<string, () => void>();
+    const send = (message: JobEvent | JobSocketRejection) => {
+      if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+    };
+    const reject = (jobId: string, error: string) => send({ type: 'rejected', jobId, error });
+
+    ws.on('message', raw => {
+      let request: JobSocketRequest;
+      try {
+        request = JSON.parse(raw.toString());
+      } catch {
+        return reject('', 'Messages must be JSON');
+      }
+      const jobId = typeof request?.jobId === 'string' ? request.jobId : '';
+      if (!JOB_ID.test(jobId)) return reject(jobId, 'Invalid job id');
+
+      subscriptions.get(jobId)?.();
+      subscriptions.delete(jobId);
+      if (request.type === 'unsubscribe') return;
+      if (request.type !== 'subscribe') return reject(jobId, 'Unknown request type');
+
+      let userId: string | undefined;
+      if (request.ticket) {
+        const ticket = streamTickets.redeem(String(request.ticket));
+        if (!ticket) return reject(jobId, 'Stream ticket is invalid or expired');
+        userId = ticket.userId;
+      }
+      if (!eventBus.canAccess(jobId, userId)) return reject(jobId, 'Job not found');
+      subscriptions.set(jobId, eventBus.subscribe(jobId, send, { afterId: Number(request.lastEventId) || 0, userId }));
+    });
+
+    const heartbeat = setInterval(() => ws.ping(), SOCKET_HEARTBEAT_MS);
+    ws.on('close', () => {
+      clearInterval(heartbeat);
+      subscriptions.forEach(unsubscribe => unsubscribe());
+      subscriptions.clear();
+    });
+  });
+
+  return sockets;
+}
+
+export default router;
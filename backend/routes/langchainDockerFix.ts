@@ -1,5 +1,5 @@
 import { Router, Request, Response } from 'express';
-import { DockerErrorAnalyzer, DockerBuildError, FileGenerationRequest } from '../lib/dockerErrorAnalyzer';
+import { DockerErrorAnalyzer, FileGenerationRequest } from '../lib/dockerErrorAnalyzer';
 import { DockerAutoFixer } from '../lib/dockerAutoFixer';
 import { GitHubFile, ProjectAnalysis, analyzeProject, fetchGitHubRepo } from '../lib/aiService';
 import * as fs from 'fs';
@@ -56,8 +56,8 @@ router.post('/langchain-docker-fix', async (req: Request, res: Response) => {
     };
 
     // Handle different error types
-    if (errorAnalysis.type === 'missing_file' && errorAnalysis.missingFile) {
-      const fileName = errorAnalysis.missingFile;
+    if (errorAnalysis.category === 'missing_file' && errorAnalysis.file) {
+      const fileName = errorAnalysis.file;
       console.log(`🔧 Handling missing file: ${fileName}`);
 
       // Check if we should generate the file
@@ -107,8 +107,9 @@ router.post('/langchain-docker-fix', async (req: Request, res: Response) => {
       }
     }
 
-    // Add specific recommendations based on error type
-    switch (errorAnalysis.type) {
+    // Add specific recommendations based on error category
+    result.recommendations.push(errorAnalysis.suggestion);
+    switch (errorAnalysis.category) {
       case 'missing_file':
         result.recommendations.push('Check .dockerignore file to ensure unnecessary files are excluded');
         result.recommendations.push('Verify all COPY/ADD instructions reference existing files');
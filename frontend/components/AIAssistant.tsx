@@ -4,6 +4,7 @@ import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Send, X, Bot, User, Brain, Search, FileText, AlertTriangle, CheckCircle, Zap, ToggleLeft, ToggleRight } from 'lucide-react';
 import { useRAGMode } from '../hooks/useRAGMode';
+import { subscribeToJob, logLevel, JobSubscription } from '../services/jobEvents';
 
 interface Message {
   id: string;
@@ -46,6 +47,7 @@ const AIAssistant = React.forwardRef<AIAssistantRef, AIAssistantProps>(({ isOpen
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const streamingTimeoutRef = useRef<NodeJS.Timeout>();
+  const jobRef = useRef<JobSubscription | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -218,43 +220,8 @@ const AIAssistant = React.forwardRef<AIAssistantRef, AIAssistantProps>(({ isOpen
     },
     triggerUploadStream: (streamId: string) => {
       if (!isStreaming && !isAnalyzing) {
-        setIsAnalyzing(true);
-        setIsStreaming(true);
-        const base = window.location.origin;
-        const es = new EventSource(`${base}/api/deployments/upload/stream?streamId=${encodeURIComponent(streamId)}`);
         addConsoleMessage('📡 Connected to upload analysis stream...', 'info');
-        es.onmessage = (evt) => {
-          try {
-            const data = JSON.parse(evt.data);
-            if (data.done) {
-              es.close();
-              setIsAnalyzing(false);
-              setIsStreaming(false);
-              return;
-            }
-            if (data.error) {
-              addConsoleMessage(`❌ ${data.error}`, 'error');
-              return;
-            }
-            if (data.message) {
-              const msg: string = data.message as string;
-              const level = msg.includes('✅') ? 'success' : msg.includes('❌') ? 'error' : msg.includes('⚠️') ? 'warning' : 'info';
-              addConsoleMessage(msg, level as any);
-              return;
-            }
-            if (data.dockerfilePreview) {
-              addConsoleMessage('📄 Dockerfile preview received (truncated).', 'info');
-            }
-          } catch {
-            addConsoleMessage(evt.data, 'info');
-          }
-        };
-        es.onerror = () => {
-          addConsoleMessage('❌ Upload stream connection error', 'error');
-          es.close();
-          setIsAnalyzing(false);
-          setIsStreaming(false);
-        };
+        followJob(streamId);
       }
     }
   }));
@@ -263,57 +230,66 @@ const AIAssistant = React.forwardRef<AIAssistantRef, AIAssistantProps>(({ isOpen
   useEffect(() => {
     return () => {
       clearStreamingTimeouts();
+      jobRef.current?.close();
     };
   }, []);
 
+  // Show a job's events in the console until it is done
+  const followJob = (jobId: string) => {
+    setIsAnalyzing(true);
+    setIsStreaming(true);
+    const finish = () => {
+      setIsAnalyzing(false);
+      setIsStreaming(false);
+    };
+
+    jobRef.current?.close();
+    jobRef.current = subscribeToJob(jobId, (event) => {
+      switch (event.type) {
+        case 'phase-start':
+          if (event.message) addConsoleMessage(event.message, 'info');
+          break;
+        case 'log':
+          addConsoleMessage(event.message, logLevel(event));
+          break;
+        case 'artifact':
+          if (event.name === 'dockerfile') addConsoleMessage('📄 Dockerfile received.', 'info');
+          break;
+        case 'error':
+          addConsoleMessage(`❌ ${event.error}`, 'error');
+          break;
+        case 'done':
+          finish();
+          break;
+        // Upload progress is shown next to the files
+      }
+    }, {
+      onError: (error) => {
+        addConsoleMessage(`❌ ${error.message}`, 'error');
+        finish();
+      }
+    });
+  };
+
   const simulateRepositoryAnalysis = async (repoUrl: string) => {
     setIsAnalyzing(true);
     setIsStreaming(true);
 
     try {
-      // Open SSE connection to backend stream endpoint
-      const params = new URLSearchParams({ repoUrl });
-      const base = window.location.origin;
-      const es = new EventSource(`${base}/api/deployments/stream?${params.toString()}`);
+      // Start the analysis, then follow its events
+      const response = await fetch('/api/deployments/analyze', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ repoUrl })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
       addConsoleMessage('📡 Connected to analysis stream...', 'info');
-
-      es.onmessage = (evt) => {
-        try {
-          const data = JSON.parse(evt.data);
-          if (data.done) {
-            es.close();
-            setIsAnalyzing(false);
-            setIsStreaming(false);
-            return;
-          }
-          if (data.error) {
-            addConsoleMessage(`❌ ${data.error}`, 'error');
-            return;
-          }
-          if (data.message) {
-            const msg: string = data.message as string;
-            const level = msg.includes('✅') ? 'success' : msg.includes('❌') ? 'error' : msg.includes('⚠️') ? 'warning' : 'info';
-            addConsoleMessage(msg, level as any);
-            return;
-          }
-          if (data.dockerfile) {
-            addConsoleMessage('📄 Dockerfile preview received (truncated).', 'info');
-            return;
-          }
-        } catch {
-          // Fallback: treat as plain text
-          addConsoleMessage(evt.data, 'info');
-        }
-      };
-
-      es.onerror = () => {
-        addConsoleMessage('❌ Stream connection error', 'error');
-        es.close();
-        setIsAnalyzing(false);
-        setIsStreaming(false);
-      };
+      followJob(data.jobId);
     } catch (error) {
-      addConsoleMessage('❌ Failed to start analysis stream', 'error');
+      addConsoleMessage(`❌ Failed to start analysis stream${error instanceof Error ? `: ${error.message}` : ''}`, 'error');
       setIsAnalyzing(false);
       setIsStreaming(false);
     }
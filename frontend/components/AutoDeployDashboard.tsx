@@ -1,39 +1,117 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { CheckCircle, XCircle, Clock, Play, Github, Docker, Cloud, Zap } from 'lucide-react';
+import type { LogRecord } from '@shared/types';
+import { deploymentService } from '@/services/deploymentService';
+
+type StepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+interface StepState {
+  status: StepStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+}
 
 interface AutoDeployResult {
   success: boolean;
   deploymentId: string;
+  status: JobStatus;
   imageName?: string;
   deploymentUrl?: string;
   logs: string[];
   error?: string;
   steps: {
-    analysis: boolean;
-    fileGeneration: boolean;
-    dockerBuild: boolean;
-    dockerPush: boolean;
-    deployment: boolean;
+    analysis: StepState;
+    fileGeneration: StepState;
+    dockerBuild: StepState;
+    smokeTest: StepState;
+    securityScan: StepState;
+    dockerPush: StepState;
+    deployment: StepState;
+    healthCheck: StepState;
   };
 }
 
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled', 'interrupted'];
+
+// Example settings per target; provider credentials are configured on the server
+const TARGET_CONFIG_EXAMPLES: Record<string, string> = {
+  aws: '{ "region": "us-east-1", "cluster": "default", "service": "my-app", "subnets": ["subnet-..."] }',
+  gcp: '{ "project": "my-project", "region": "us-central1", "service": "my-app" }',
+  azure: '{ "subscriptionId": "...", "resourceGroup": "...", "name": "my-app", "location": "eastus", "environmentId": "/subscriptions/.../managedEnvironments/..." }',
+  fly: '{ "app": "my-app", "region": "ams" }',
+  render: '{ "service": "my-app", "ownerId": "tea-..." }',
+  local: '{ "hostPort": 8080, "env": { "NODE_ENV": "production" }, "volumes": ["data:/app/data"] }',
+};
+const POLL_INTERVAL_MS = 2000;
+
 export default function AutoDeployDashboard() {
   const [repoUrl, setRepoUrl] = useState('');
   const [githubToken, setGithubToken] = useState('');
   const [dockerHubUsername, setDockerHubUsername] = useState('');
   const [dockerHubPassword, setDockerHubPassword] = useState('');
   const [deploymentTarget, setDeploymentTarget] = useState('dockerhub');
+  const [deploymentConfig, setDeploymentConfig] = useState('');
   const [isDeploying, setIsDeploying] = useState(false);
   const [deploymentResult, setDeploymentResult] = useState<AutoDeployResult | null>(null);
   const [logs, setLogs] = useState<string[]>([]);
+  const [buildOutput, setBuildOutput] = useState<LogRecord[]>([]);
+
+  const pollTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const stopPolling = () => {
+    if (pollTimer.current) {
+      clearTimeout(pollTimer.current);
+      pollTimer.current = null;
+    }
+  };
+
+  useEffect(() => stopPolling, []);
+
+  // Raw Docker output is stored apart from the pipeline's messages; only signed-in owners can read it
+  const loadBuildOutput = async (deploymentId: string) => {
+    try {
+      setBuildOutput(await deploymentService.getDeploymentLogs(deploymentId, { stream: 'build' }));
+    } catch (error) {
+      console.error('Loading build output failed:', error);
+    }
+  };
+
+  const pollStatus = async (deploymentId: string) => {
+    try {
+      const response = await fetch(`/api/auto-deploy/status/${deploymentId}`);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Status check failed with ${response.status}`);
+      }
+
+      setDeploymentResult(result);
+      setLogs(result.logs || []);
+      const finished = FINISHED_STATUSES.includes(result.status);
+      if (result.steps.dockerBuild.status === 'running' || (finished && result.steps.dockerBuild.status !== 'pending')) {
+        await loadBuildOutput(deploymentId);
+      }
+
+      if (finished) {
+        setIsDeploying(false);
+        return;
+      }
+    } catch (error) {
+      console.error('Status polling failed:', error);
+    }
+    pollTimer.current = setTimeout(() => pollStatus(deploymentId), POLL_INTERVAL_MS);
+  };
 
   const handleAutoDeploy = async () => {
     if (!repoUrl) {
@@ -41,9 +119,19 @@ export default function AutoDeployDashboard() {
       return;
     }
 
+    let parsedConfig: unknown;
+    try {
+      parsedConfig = deploymentConfig.trim() ? JSON.parse(deploymentConfig) : undefined;
+    } catch {
+      alert('Target settings must be valid JSON');
+      return;
+    }
+
+    stopPolling();
     setIsDeploying(true);
     setDeploymentResult(null);
     setLogs([]);
+    setBuildOutput([]);
 
     try {
       const response = await fetch('/api/auto-deploy/auto-deploy', {
@@ -57,50 +145,63 @@ export default function AutoDeployDashboard() {
           dockerHubUsername: dockerHubUsername || undefined,
           dockerHubPassword: dockerHubPassword || undefined,
           autoBuild: true,
-          autoPush: true,
+          autoPush: deploymentTarget !== 'local',
           autoDeploy: true,
           deploymentTarget,
+          deploymentConfig: parsedConfig,
         }),
       });
 
-      const result: AutoDeployResult = await response.json();
-      setDeploymentResult(result);
-      setLogs(result.logs || []);
+      const queued = await response.json();
+      if (!response.ok || !queued.success) {
+        throw new Error(queued.error || `Request failed with ${response.status}`);
+      }
+
+      await pollStatus(queued.deploymentId);
     } catch (error) {
       console.error('Deployment failed:', error);
+      const pending: StepState = { status: 'pending' };
+      setIsDeploying(false);
       setDeploymentResult({
         success: false,
         deploymentId: `error-${Date.now()}`,
+        status: 'failed',
         logs: [`Error: ${error}`],
         error: error instanceof Error ? error.message : 'Unknown error',
         steps: {
-          analysis: false,
-          fileGeneration: false,
-          dockerBuild: false,
-          dockerPush: false,
-          deployment: false,
+          analysis: pending,
+          fileGeneration: pending,
+          dockerBuild: pending,
+          smokeTest: pending,
+          securityScan: pending,
+          dockerPush: pending,
+          deployment: pending,
+          healthCheck: pending,
         },
       });
-    } finally {
-      setIsDeploying(false);
     }
   };
 
-  const getStepIcon = (completed: boolean, isCurrent: boolean) => {
-    if (completed) return <CheckCircle className="h-5 w-5 text-green-500" />;
-    if (isCurrent) return <Clock className="h-5 w-5 text-blue-500 animate-spin" />;
-    return <Clock className="h-5 w-5 text-gray-400" />;
+  const handleCancel = async () => {
+    if (!deploymentResult) return;
+    try {
+      await fetch(`/api/auto-deploy/cancel/${deploymentResult.deploymentId}`, { method: 'POST' });
+    } catch (error) {
+      console.error('Cancel failed:', error);
+    }
   };
 
-  const getStepStatus = (completed: boolean, isCurrent: boolean) => {
-    if (completed) return 'completed';
-    if (isCurrent) return 'running';
-    return 'pending';
+  const getStepIcon = (state: StepState) => {
+    if (state.status === 'completed') return <CheckCircle className="h-5 w-5 text-green-500" />;
+    if (state.status === 'failed') return <XCircle className="h-5 w-5 text-red-500" />;
+    if (state.status === 'running') return <Clock className="h-5 w-5 text-blue-500 animate-spin" />;
+    return <Clock className="h-5 w-5 text-gray-400" />;
   };
 
   const getProgressPercentage = () => {
     if (!deploymentResult) return 0;
-    const completedSteps = Object.values(deploymentResult.steps).filter(Boolean).length;
+    const completedSteps = Object.values(deploymentResult.steps)
+      .filter(step => step.status === 'completed' || step.status === 'skipped').length;
     return (completedSteps / 5) * 100;
   };
 
@@ -156,13 +257,27 @@ export default function AutoDeployDashboard() {
                     <option value="dockerhub">Docker Hub</option>
                     <option value="aws">AWS ECS/Fargate</option>
                     <option value="gcp">Google Cloud Run</option>
-                    <option value="azure">Azure Container Instances</option>
-                    <option value="vercel">Vercel</option>
-                    <option value="netlify">Netlify</option>
+                    <option value="azure">Azure Container Apps</option>
+                    <option value="fly">Fly.io</option>
+                    <option value="render">Render</option>
+                    <option value="local">Local Docker</option>
                   </select>
                 </div>
               </div>
 
+              {deploymentTarget !== 'dockerhub' && (
+                <div className="space-y-2">
+                  <Label htmlFor="deploymentConfig">Target Settings (JSON)</Label>
+                  <Textarea
+                    id="deploymentConfig"
+                    className="font-mono text-sm"
+                    placeholder={TARGET_CONFIG_EXAMPLES[deploymentTarget]}
+                    value={deploymentConfig}
+                    onChange={(e) => setDeploymentConfig(e.target.value)}
+                  />
+                </div>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="githubToken">GitHub Token (Optional)</Label>
@@ -221,16 +336,24 @@ export default function AutoDeployDashboard() {
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
-                  {deploymentResult.success ? (
+                  {deploymentResult.status === 'completed' ? (
                     <CheckCircle className="h-5 w-5 text-green-500" />
-                  ) : (
+                  ) : FINISHED_STATUSES.includes(deploymentResult.status) ? (
                     <XCircle className="h-5 w-5 text-red-500" />
+                  ) : (
+                    <Clock className="h-5 w-5 text-blue-500 animate-spin" />
                   )}
                   Deployment Result
+                  <Badge variant="secondary" className="capitalize">{deploymentResult.status}</Badge>
                 </CardTitle>
                 <CardDescription>
                   Deployment ID: {deploymentResult.deploymentId}
                 </CardDescription>
+                {!FINISHED_STATUSES.includes(deploymentResult.status) && (
+                  <Button variant="outline" size="sm" onClick={handleCancel} className="w-fit">
+                    Cancel Deployment
+                  </Button>
+                )}
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="space-y-2">
@@ -242,9 +365,9 @@ export default function AutoDeployDashboard() {
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
-                  {Object.entries(deploymentResult.steps).map(([step, completed]) => (
+                  {Object.entries(deploymentResult.steps).map(([step, state]) => (
                     <div key={step} className="flex items-center space-x-2">
-                      {getStepIcon(completed, false)}
+                      {getStepIcon(state)}
                       <span className="text-sm capitalize">{step.replace(/([A-Z])/g, ' $1')}</span>
                     </div>
                   ))}
@@ -296,16 +419,16 @@ export default function AutoDeployDashboard() {
                   { key: 'analysis', title: 'AI Analysis & Error Detection', description: 'Analyze code, find errors, detect framework' },
                   { key: 'fileGeneration', title: 'Missing File Generation', description: 'Generate missing files using LangChain + GPT-4o Mini' },
                   { key: 'dockerBuild', title: 'Docker Image Building', description: 'Build optimized Docker image' },
+                  { key: 'smokeTest', title: 'Sandbox Smoke Test', description: 'Run the image without network and fix startup crashes before pushing' },
+                  { key: 'securityScan', title: 'SBOM & Vulnerability Scan', description: 'Inventory the image, match known vulnerabilities and enforce the push policy' },
                   { key: 'dockerPush', title: 'Docker Hub Push', description: 'Push image to Docker Hub' },
                   { key: 'deployment', title: 'Automatic Deployment', description: 'Deploy to selected platform' },
+                  { key: 'healthCheck', title: 'Health Check', description: 'Probe the deployment and roll back if it is unhealthy' },
                 ].map((step) => (
                   <div key={step.key} className="flex items-center space-x-4 p-4 border rounded-lg">
                     <div className="flex-shrink-0">
                       {deploymentResult ? (
-                        getStepIcon(
-                          deploymentResult.steps[step.key as keyof typeof deploymentResult.steps],
-                          false
-                        )
+                        getStepIcon(deploymentResult.steps[step.key as keyof typeof deploymentResult.steps])
                       ) : (
                         <Clock className="h-5 w-5 text-gray-400" />
                       )}
@@ -316,14 +439,15 @@ export default function AutoDeployDashboard() {
                     </div>
                     <div className="flex-shrink-0">
                       {deploymentResult ? (
-                        <Badge variant={
-                          deploymentResult.steps[step.key as keyof typeof deploymentResult.steps] 
-                            ? 'default' 
-                            : 'secondary'
-                        }>
-                          {deploymentResult.steps[step.key as keyof typeof deploymentResult.steps] 
-                            ? 'Completed' 
-                            : 'Pending'}
+                        <Badge
+                          variant={
+                            deploymentResult.steps[step.key as keyof typeof deploymentResult.steps].status === 'completed'
+                              ? 'default'
+                              : 'secondary'
+                          }
+                          className="capitalize"
+                        >
+                          {deploymentResult.steps[step.key as keyof typeof deploymentResult.steps].status}
                         </Badge>
                       ) : (
                         <Badge variant="secondary">Pending</Badge>
@@ -360,6 +484,30 @@ export default function AutoDeployDashboard() {
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Build Output</CardTitle>
+              <CardDescription>
+                Raw output of the Docker build, kept apart from the pipeline messages above
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="bg-black text-gray-300 p-4 rounded-lg font-mono text-xs h-96 overflow-y-auto">
+                {buildOutput.length > 0 ? (
+                  buildOutput.map((record, index) => (
+                    <div key={index} className={`whitespace-pre-wrap ${record.level === 'error' ? 'text-red-400' : ''}`}>
+                      {record.message}
+                    </div>
+                  ))
+                ) : (
+                  <div className="text-gray-500">
+                    No build output yet.
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
         </TabsContent>
       </Tabs>
 
@@ -370,7 +518,7 @@ export default function AutoDeployDashboard() {
             GitHub Webhook Setup
           </CardTitle>
           <CardDescription>
-            Set up automatic deployment on every push to main/master branch
+            Set up automatic deployment on pushes, pull requests and releases
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -383,11 +531,12 @@ export default function AutoDeployDashboard() {
           <div className="text-sm text-gray-600 dark:text-gray-400">
             <p>1. Go to your GitHub repository settings</p>
             <p>2. Navigate to Webhooks → Add webhook</p>
-            <p>3. Set the URL to the above endpoint</p>
-            <p>4. Select "Push events" as the trigger</p>
-            <p>5. Save the webhook</p>
+            <p>3. Set the URL to the above endpoint and the content type to application/json</p>
+            <p>4. Enter the webhook secret configured on the server for this repository</p>
+            <p>5. Select "Pushes", "Pull requests" and "Releases" as triggers</p>
+            <p>6. Save the webhook</p>
             <p className="mt-2 font-medium text-green-600">
-              Now every push to main/master will automatically trigger deployment! 🚀
+              Pushes to main/master deploy automatically, pull requests get preview images and releases are tagged with their version! 🚀
             </p>
           </div>
         </CardContent>
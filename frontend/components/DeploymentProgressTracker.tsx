@@ -49,6 +49,7 @@ interface DeploymentProgressTrackerProps {
   onCancel?: () => void;
   onRetry?: () => void;
   onViewLogs?: (phaseId: string) => void;
+  onControl?: (action: 'stop' | 'restart' | 'remove') => void;
 }
 
 const phaseIcons = {
@@ -79,7 +80,8 @@ export function DeploymentProgressTracker({
   deployment, 
   onCancel, 
   onRetry, 
-  onViewLogs 
+  onViewLogs,
+  onControl
 }: DeploymentProgressTrackerProps) {
   const [expandedPhase, setExpandedPhase] = useState<string | null>(null);
 
@@ -230,7 +232,28 @@ export function DeploymentProgressTracker({
                         {phase.details.deploymentUrl && (
                           <div className="flex items-center gap-2 text-sm text-purple-600">
                             <Rocket className="h-4 w-4" />
-                            <span>URL: {phase.details.deploymentUrl}</span>
+                            <span>URL: <a href={phase.details.deploymentUrl} target="_blank" rel="noreferrer" className="underline">{phase.details.deploymentUrl}</a></span>
+                          </div>
+                        )}
+                        {phase.id === 'monitor' && phase.details.status && (
+                          <div className="flex items-center gap-2 text-sm text-gray-600">
+                            <Activity className="h-4 w-4" />
+                            <span>Container: {phase.details.status}</span>
+                          </div>
+                        )}
+                        {phase.id === 'monitor' && phase.details.controls && onControl && (
+                          <div className="flex gap-2">
+                            {phase.details.status === 'running' ? (
+                              <Button variant="outline" size="sm" onClick={() => onControl('stop')}>
+                                Stop
+                              </Button>
+                            ) : null}
+                            <Button variant="outline" size="sm" onClick={() => onControl('restart')}>
+                              {phase.details.status === 'running' ? 'Restart' : 'Start'}
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => onControl('remove')}>
+                              Remove
+                            </Button>
                           </div>
                         )}
                       </div>
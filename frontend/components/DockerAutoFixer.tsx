@@ -5,6 +5,7 @@ import { Alert, AlertDescription } from './ui/alert';
 import { Badge } from './ui/badge';
 import { Progress } from './ui/progress';
 import { SimpleFileUploader } from './SimpleFileUploader';
+import type { JobEvent } from '../services/jobEvents';
 import { CheckCircle, XCircle, AlertCircle, Bot, FileText, Trash2, Download, Play, RotateCcw, Brain, Zap, FileCheck, Container } from 'lucide-react';
 
 interface DockerBuildError {
@@ -152,13 +153,8 @@ export function DockerAutoFixer() {
         buffer = lines.pop() || '';
 
         for (const line of lines) {
-          if (line.startsWith('event: ')) {
-            const eventType = line.substring(7);
-            const dataLine = lines[lines.indexOf(line) + 1];
-            if (dataLine?.startsWith('data: ')) {
-              const data = JSON.parse(dataLine.substring(6));
-              handleStreamEvent(eventType, data);
-            }
+          if (line.startsWith('data: ')) {
+            handleStreamEvent(JSON.parse(line.substring(6)));
           }
         }
       }
@@ -192,33 +188,31 @@ export function DockerAutoFixer() {
     }
   };
 
-  const handleStreamEvent = (eventType: string, data: any) => {
-    switch (eventType) {
-      case 'start':
-        setLogs(prev => [...prev, data.message]);
+  const handleStreamEvent = (event: JobEvent) => {
+    switch (event.type) {
+      case 'phase-start':
+        if (event.message) setLogs(prev => [...prev, event.message!]);
         break;
-      case 'analyze':
-        setLogs(prev => [...prev, data.message]);
-        break;
-      case 'analyze_complete':
-        setAnalysis(data.analysis);
-        setLogs(prev => [...prev, data.message]);
-        break;
-      case 'build_context':
-        setLogs(prev => [...prev, data.message]);
+      case 'artifact':
+        if (event.name === 'analysis') {
+          setAnalysis(event.data as ProjectAnalysis);
+          setLogs(prev => [...prev, 'Project analysis complete']);
+        }
         break;
       case 'log':
-        setLogs(prev => [...prev, data.message]);
+        setLogs(prev => [...prev, event.message]);
         break;
       case 'progress':
-        setProgress(data.progress);
+        if (event.progress !== undefined) setProgress(event.progress);
         break;
-      case 'complete':
-        setResult(data.result);
-        setLogs(prev => [...prev, data.message]);
+      case 'done':
+        if (event.result) {
+          setResult({ success: event.success, ...event.result } as unknown as DockerAutoFixResult);
+          setLogs(prev => [...prev, String(event.result!.message)]);
+        }
         break;
       case 'error':
-        setLogs(prev => [...prev, `Error: ${data.error}`]);
+        setLogs(prev => [...prev, `Error: ${event.error}`]);
         break;
     }
   };
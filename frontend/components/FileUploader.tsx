@@ -5,12 +5,15 @@ import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Progress } from "@/components/ui/progress";
 import { Upload, File, X, Github, Link } from "lucide-react";
+import type { UploadProgress } from "@/services/deploymentService";
 
 interface FileUploaderProps {
   onFileSelect?: (files: FileList) => void;
   onGitHubSubmit?: (url: string) => void;
   onContinue?: () => void;
+  uploadProgress?: UploadProgress | null; // Chunked upload progress, shown per file
   className?: string;
 }
 
@@ -18,6 +21,7 @@ export default function FileUploader({
   onFileSelect,
   onGitHubSubmit,
   onContinue,
+  uploadProgress,
   className,
 }: FileUploaderProps) {
   const [isDragOver, setIsDragOver] = useState(false);
@@ -64,6 +68,9 @@ export default function FileUploader({
     setSelectedFiles(newFiles);
   };
 
+  const fileProgress = (file: File) =>
+    uploadProgress?.files.find((entry) => entry.path === (file.webkitRelativePath || file.name));
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return "0 Bytes";
     const k = 1024;
@@ -197,20 +204,30 @@ export default function FileUploader({
               Selected Files
             </h4>
             <div className="space-y-2">
-              {selectedFiles.map((file, index) => (
+              {selectedFiles.map((file, index) => {
+                const progress = fileProgress(file);
+                return (
                 <div
                   key={index}
                   className="flex items-center justify-between p-3 bg-slate-700/50 rounded-lg"
                 >
-                  <div className="flex items-center gap-3">
+                  <div className="flex items-center gap-3 flex-1 min-w-0">
                     <File className="w-5 h-5 text-slate-400" />
-                    <div>
+                    <div className="flex-1 min-w-0">
                       <p className="text-sm text-white font-medium truncate max-w-[200px]">
                         {file.name}
                       </p>
                       <p className="text-xs text-slate-400">
-                        {formatFileSize(file.size)}
+                        {progress
+                          ? `${formatFileSize(progress.receivedBytes)} of ${formatFileSize(file.size)}`
+                          : formatFileSize(file.size)}
                       </p>
+                      {progress && (
+                        <Progress
+                          value={progress.size > 0 ? (progress.receivedBytes / progress.size) * 100 : 100}
+                          className="h-1.5 mt-2 bg-slate-600"
+                        />
+                      )}
                     </div>
                   </div>
                   <Button
@@ -225,7 +242,8 @@ export default function FileUploader({
                     <X className="w-4 h-4" />
                   </Button>
                 </div>
-              ))}
+                );
+              })}
             </div>
           </div>
         </Card>
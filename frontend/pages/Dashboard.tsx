@@ -7,7 +7,8 @@ import AIAssistant, { AIAssistantRef } from "@/components/AIAssistant";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Activity, Upload, Server, GitBranch } from "lucide-react";
-import { deploymentService, DeploymentRequest } from "@/services/deploymentService";
+import { Progress } from "@/components/ui/progress";
+import { deploymentService, DeploymentRequest, UploadProgress } from "@/services/deploymentService";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 
@@ -16,6 +17,7 @@ export default function Dashboard() {
   const [repoLink, setRepoLink] = useState("");
   const [isAIAssistantOpen, setIsAIAssistantOpen] = useState(false);
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
   const [isGeneratingDockerfile, setIsGeneratingDockerfile] = useState(false);
   const [dockerfileContent, setDockerfileContent] = useState<string>("");
   const [deploymentOutput, setDeploymentOutput] = useState<string | null>(null);
@@ -73,7 +75,7 @@ export default function Dashboard() {
         // Handle file uploads
         console.log('📁 Processing uploaded files:', uploadedFiles.length);
         const streamId = (window as any).__uploadStreamId as string | undefined;
-        response = await deploymentService.createDeploymentFromFiles(uploadedFiles, "Generate an optimized Dockerfile for this uploaded project", streamId);
+        response = await deploymentService.createDeploymentFromFiles(uploadedFiles, "Generate an optimized Dockerfile for this uploaded project", streamId, setUploadProgress);
       } else {
         // Handle GitHub repository
         const deploymentRequest: DeploymentRequest = {
@@ -106,6 +108,7 @@ export default function Dashboard() {
       });
     } finally {
       setIsGeneratingDockerfile(false);
+      setUploadProgress(null);
     }
   };
 
@@ -258,6 +261,15 @@ export default function Dashboard() {
                           }}
                         />
                       </div>
+                      {uploadProgress && !uploadProgress.complete && (
+                        <div className="mt-3 space-y-1">
+                          <Progress value={(uploadProgress.receivedBytes / Math.max(uploadProgress.totalBytes, 1)) * 100} className="h-2 bg-slate-700" />
+                          <p className="text-xs text-slate-400">
+                            Uploading {uploadProgress.files.filter((file) => file.receivedBytes === file.size).length} of {uploadProgress.files.length} files
+                            ({(uploadProgress.receivedBytes / 1024 / 1024).toFixed(1)} of {(uploadProgress.totalBytes / 1024 / 1024).toFixed(1)} MB)
+                          </p>
+                        </div>
+                      )}
                     </div>
 
                     <div>
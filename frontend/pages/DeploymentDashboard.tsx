@@ -94,6 +94,14 @@ export default function DeploymentDashboard() {
     handleStartDeployment();
   };
 
+  const handleControl = async (action: 'stop' | 'restart' | 'remove') => {
+    try {
+      await deploymentFlowService.controlDeployment(action);
+    } catch (error) {
+      console.error(`❌ ${action} failed:`, error);
+    }
+  };
+
   const handleViewLogs = (phaseId: string) => {
     // This could open a modal or navigate to a logs page
     console.log('View logs for phase:', phaseId);
@@ -275,6 +283,7 @@ export default function DeploymentDashboard() {
               onCancel={handleCancelDeployment}
               onRetry={handleRetryDeployment}
               onViewLogs={handleViewLogs}
+              onControl={handleControl}
             />
           </div>
         </div>
@@ -10,6 +10,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
 import { IntelligentFileAnalysis } from '../components/IntelligentFileAnalysis';
 import { DockerDeployment } from '../components/DockerDeployment';
 import { CheckCircle, AlertTriangle, XCircle, Info, Github, Upload, Zap, Brain } from 'lucide-react';
+import { subscribeToJob } from '../services/jobEvents';
 
 interface GeneratedFile {
   fileName: string;
@@ -76,41 +77,51 @@ export default function IntelligentDemo() {
     setLogs([]);
 
     try {
-      // Start streaming directly via SSE (thinking out loud)
-      const params = new URLSearchParams({ repoUrl: repoUrl.trim(), userPrompt: userPrompt.trim() });
-      const es = new EventSource(`/api/deployments/stream?${params.toString()}`);
+      // Start the analysis; the token travels in the request body, never in a URL
+      const response = await fetch('/api/deployments/analyze', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          repoUrl: repoUrl.trim(),
+          userPrompt: userPrompt.trim(),
+          ...(githubToken.trim() && { githubToken: githubToken.trim() })
+        })
+      });
+      const started = await response.json();
+      if (!response.ok || !started.success) {
+        throw new Error(started.error || `HTTP ${response.status}`);
+      }
       setLogs((prev) => [...prev, '📡 Connected to analysis stream...']);
 
-      es.onmessage = (evt) => {
-        try {
-          const data = JSON.parse(evt.data);
-          if (data.done) {
-            es.close();
+      // Stream the analysis as it thinks out loud
+      subscribeToJob(started.jobId, (event) => {
+        switch (event.type) {
+          case 'phase-start':
+            if (event.message) setLogs((p) => [...p, event.message!]);
+            break;
+          case 'log':
+            setLogs((p) => [...p, event.message]);
+            break;
+          case 'artifact':
+            if (event.name === 'dockerfile' && typeof event.data === 'string') {
+              setDockerfile(event.data);
+              setLogs((p) => [...p, '✅ Dockerfile received']);
+            }
+            break;
+          case 'error':
+            setLogs((p) => [...p, `❌ ${event.error}`]);
+            setError(event.error);
+            break;
+          case 'done':
             setIsAnalyzing(false);
-            return;
-          }
-          if (data.error) {
-            setLogs((p) => [...p, `❌ ${data.error}`]);
-            setError(data.error);
-            return;
-          }
-          if (data.message) {
-            setLogs((p) => [...p, data.message]);
-          }
-          if (data.dockerfile) {
-            setDockerfile(data.dockerfile);
-            setLogs((p) => [...p, '✅ Dockerfile preview received']);
-          }
-        } catch {
-          setLogs((p) => [...p, evt.data]);
+            break;
         }
-      };
-
-      es.onerror = () => {
-        setLogs((p) => [...p, '❌ Stream connection error']);
-        es.close();
-        setIsAnalyzing(false);
-      };
+      }, {
+        onError: (streamError) => {
+          setLogs((p) => [...p, `❌ ${streamError.message}`]);
+          setIsAnalyzing(false);
+        }
+      });
     } catch (err) {
       console.error('❌ Analysis error:', err);
       setError(err instanceof Error ? err.message : 'Network error occurred. Please try again.');
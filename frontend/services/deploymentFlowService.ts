@@ -1,4 +1,6 @@
 import { DeploymentProgress, DeploymentPhase } from '../components/DeploymentProgressTracker';
+import { deploymentService } from './deploymentService';
+import { subscribeToJob, type JobEvent, type JobSubscription } from './jobEvents';
 
 export interface DeploymentRequest {
   type: 'files' | 'repository';
@@ -16,9 +18,37 @@ export interface DeploymentResult {
   error?: string;
 }
 
+// What the events of an auto-deploy job tell about it
+interface AutoDeployJobStatus {
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+  steps: Record<string, { status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped'; error?: string }>;
+  imageName?: string;
+  deploymentUrl?: string;
+  error?: string;
+}
+
+interface TargetStatus {
+  state: 'deploying' | 'running' | 'failed' | 'stopped' | 'published' | 'unknown';
+  url?: string;
+  message?: string;
+}
+
+// Which progress phase each server pipeline step reports into
+const STEP_PHASES = {
+  analysis: 'analysis',
+  fileGeneration: 'analysis',
+  dockerBuild: 'build',
+  smokeTest: 'build',
+  securityScan: 'build',
+  dockerPush: 'build',
+  deployment: 'deploy',
+  healthCheck: 'deploy'
+} as const;
+
 class DeploymentFlowService {
   private currentDeployment: DeploymentProgress | null = null;
-  private eventSource: EventSource | null = null;
+  private jobEvents: JobSubscription | null = null;
+  private logStream: EventSource | null = null;
   private onProgressUpdate: ((progress: DeploymentProgress) => void) | null = null;
 
   // Initialize deployment phases
@@ -54,7 +84,7 @@ class DeploymentFlowService {
       {
         id: 'deploy',
         name: 'Deploy',
-        description: 'Deploying to production',
+        description: 'Running the image on the local Docker host',
         icon: 'deploy',
         status: 'pending',
         progress: 0,
@@ -63,7 +93,7 @@ class DeploymentFlowService {
       {
         id: 'monitor',
         name: 'Monitor',
-        description: 'Monitoring deployment health',
+        description: 'Container status and live logs',
         icon: 'monitor',
         status: 'pending',
         progress: 0,
@@ -74,7 +104,7 @@ class DeploymentFlowService {
 
   // Start a new deployment
   async startDeployment(request: DeploymentRequest): Promise<DeploymentResult> {
-    const deploymentId = `deploy-${Date.now()}`;
+    let deploymentId = `deploy-${Date.now()}`;
     
     this.currentDeployment = {
       id: deploymentId,
@@ -90,18 +120,31 @@ class DeploymentFlowService {
     try {
       // Phase 1: Upload Code
       await this.executeUploadPhase(request);
-      
-      // Phase 2: AI Analysis
-      await this.executeAnalysisPhase();
-      
-      // Phase 3: Build
-      const buildResult = await this.executeBuildPhase();
-      
-      // Phase 4: Deploy
-      const deployResult = await this.executeDeployPhase(buildResult);
-      
-      // Phase 5: Monitor
-      await this.executeMonitorPhase(deployResult);
+
+      let imageName: string | undefined;
+      let deploymentUrl: string | undefined;
+
+      if (request.type === 'repository' && request.repositoryUrl) {
+        // Phases 2-4 follow the server's auto-deploy job on the local Docker host
+        deploymentId = await this.startAutoDeployJob(request);
+        this.currentDeployment.id = deploymentId;
+        const job = await this.followAutoDeployJob(deploymentId);
+        imageName = job.imageName;
+        deploymentUrl = job.deploymentUrl;
+
+        // Phase 5: Monitor
+        await this.executeMonitorPhase(deploymentId, deploymentUrl);
+      } else if (request.files) {
+        // Phases 2-3: the upload request analyses and builds; its events fill the phases
+        const upload = await this.executeUploadJob(request.files, request.userPrompt || '');
+        deploymentId = upload.deploymentId || deploymentId;
+        imageName = upload.imageName;
+
+        // Uploaded projects are built only; the server runs images of repositories
+        for (const phaseId of ['deploy', 'monitor']) {
+          this.skipPhase(phaseId, '⏭️ Skipped: uploaded projects are not run. Deploy from a repository to run the image.');
+        }
+      }
 
       // Mark deployment as completed
       this.currentDeployment.status = 'completed';
@@ -113,12 +156,19 @@ class DeploymentFlowService {
       return {
         success: true,
         deploymentId,
-        imageName: buildResult.imageName,
-        deploymentUrl: deployResult.deploymentUrl
+        imageName,
+        deploymentUrl
       };
 
     } catch (error) {
-      this.currentDeployment.status = 'failed';
+      const running = this.currentDeployment.phases.find(p => p.status === 'in_progress');
+      if (running) {
+        running.status = 'failed';
+        this.addLog(running, `❌ ${error instanceof Error ? error.message : 'Unknown error occurred'}`);
+      }
+      if (this.currentDeployment.status !== 'cancelled') {
+        this.currentDeployment.status = 'failed';
+      }
       this.currentDeployment.endTime = new Date();
       this.notifyProgress();
 
@@ -138,208 +188,286 @@ class DeploymentFlowService {
     this.addLog(phase, '🚀 Starting file upload process...');
 
     if (request.type === 'files' && request.files) {
+      // Completed by the upload job once the server has received every file
       this.addLog(phase, `📁 Uploading ${request.files.length} files...`);
-      
-      // Simulate file upload progress
-      for (let i = 0; i <= 100; i += 10) {
-        phase.progress = i;
-        this.addLog(phase, `📤 Upload progress: ${i}%`);
-        this.updateOverallProgress();
-        await this.delay(200);
-      }
-
-      this.addLog(phase, '✅ Files uploaded successfully');
       phase.details = { filesUploaded: request.files.length };
-    } else if (request.type === 'repository' && request.repositoryUrl) {
-      this.addLog(phase, `🔗 Processing repository: ${request.repositoryUrl}`);
-      await this.delay(1000);
-      this.addLog(phase, '✅ Repository processed successfully');
+      return;
+    }
+    if (request.type === 'repository' && request.repositoryUrl) {
+      this.addLog(phase, `🔗 Using repository: ${request.repositoryUrl}`);
       phase.details = { repositoryUrl: request.repositoryUrl };
     }
 
-    phase.status = 'completed';
-    phase.endTime = new Date();
-    phase.duration = phase.endTime.getTime() - phase.startTime!.getTime();
-    phase.progress = 100;
-    this.updateOverallProgress();
+    this.completePhase(phase);
   }
 
-  // Phase 2: AI Analysis
-  private async executeAnalysisPhase(): Promise<void> {
-    const phase = this.getCurrentPhase('analysis');
-    phase.status = 'in_progress';
-    phase.startTime = new Date();
-    this.addLog(phase, '🧠 Starting AI analysis...');
-
-    // Connect to streaming endpoint
-    await this.connectToAnalysisStream(phase);
+  // Phases 1-3 for uploads: send the files and follow the upload job's events until it is done
+  private async executeUploadJob(files: File[], userPrompt: string): Promise<{ deploymentId?: string; imageName?: string }> {
+    const streamId = `upload-${crypto.randomUUID()}`;
+    const uploadPhase = this.getCurrentPhase('upload');
+    let failure: string | undefined;
+
+    const done = new Promise<Extract<JobEvent, { type: 'done' }>>((resolve, reject) => {
+      this.jobEvents = subscribeToJob(streamId, (event) => {
+        switch (event.type) {
+          case 'phase-start':
+            this.startPhase(event.phase);
+            if (event.message) this.addLog(this.getCurrentPhase(this.currentDeployment!.currentPhase), event.message);
+            break;
+          case 'log':
+            this.addLog(this.getCurrentPhase(this.currentDeployment!.currentPhase), event.message);
+            break;
+          case 'artifact':
+            if (event.name === 'dockerfile') {
+              const analysis = this.getCurrentPhase('analysis');
+              analysis.details = { filesGenerated: (analysis.details?.filesGenerated || 0) + 1 };
+            } else if (event.name === 'image') {
+              this.getCurrentPhase('build').details = event.data as Record<string, unknown>;
+            }
+            break;
+          case 'error':
+            failure = event.error;
+            break;
+          case 'done':
+            resolve(event);
+            break;
+        }
+      }, { onError: reject });
+    });
+    // A failed upload request is reported instead
+    done.catch(() => undefined);
 
-    phase.status = 'completed';
-    phase.endTime = new Date();
-    phase.duration = phase.endTime.getTime() - phase.startTime!.getTime();
-    phase.progress = 100;
-    this.updateOverallProgress();
+    try {
+      await deploymentService.createDeploymentFromFiles(files, userPrompt, streamId, (progress) => {
+        uploadPhase.progress = progress.totalBytes ? Math.round(progress.receivedBytes / progress.totalBytes * 100) : 0;
+        this.updateOverallProgress();
+      });
+      const event = await done;
+      if (!event.success) throw new Error(failure || 'Upload processing failed');
+
+      for (const phaseId of ['upload', 'analysis', 'build']) {
+        const phase = this.getCurrentPhase(phaseId);
+        if (phase.status !== 'completed') {
+          phase.startTime ??= new Date();
+          this.completePhase(phase);
+        }
+      }
+      const imageName = event.result?.imageName ? String(event.result.imageName) : undefined;
+      if (!imageName) this.addLog(this.getCurrentPhase('build'), '⚠️ No image was built');
+      return { deploymentId: event.result?.deploymentId as string | undefined, imageName };
+    } finally {
+      this.jobEvents?.close();
+      this.jobEvents = null;
+    }
   }
 
-  // Phase 3: Build
-  private async executeBuildPhase(): Promise<{ imageName: string }> {
-    const phase = this.getCurrentPhase('build');
-    phase.status = 'in_progress';
-    phase.startTime = new Date();
-    this.addLog(phase, '🐳 Starting Docker build...');
-
-    // Simulate build progress
-    const buildSteps = [
-      '📦 Preparing build context...',
-      '🔧 Installing dependencies...',
-      '🏗️ Building application...',
-      '📋 Creating Docker image...',
-      '✅ Build completed successfully'
-    ];
-
-    for (let i = 0; i < buildSteps.length; i++) {
-      phase.progress = (i + 1) * 20;
-      this.addLog(phase, buildSteps[i]);
-      this.updateOverallProgress();
-      await this.delay(1500);
+  // Move on to `phaseId`, completing the phases before it
+  private startPhase(phaseId: string): void {
+    const phases = this.currentDeployment!.phases;
+    const index = phases.findIndex(p => p.id === phaseId);
+    if (index < 0) return;
+    for (const phase of phases.slice(0, index)) {
+      if (phase.status === 'in_progress') this.completePhase(phase);
     }
+    const phase = phases[index];
+    if (phase.status === 'pending') {
+      phase.status = 'in_progress';
+      phase.startTime = new Date();
+    }
+    this.currentDeployment!.currentPhase = phaseId;
+    this.notifyProgress();
+  }
 
-    const imageName = `anonymous/project-${Date.now()}:latest`;
-    phase.details = { imageName };
-    phase.status = 'completed';
-    phase.endTime = new Date();
-    phase.duration = phase.endTime.getTime() - phase.startTime!.getTime();
-    phase.progress = 100;
-    this.updateOverallProgress();
-
-    return { imageName };
+  // Queue the analyse → build → run pipeline on the server's Docker host
+  private async startAutoDeployJob(request: DeploymentRequest): Promise<string> {
+    const response = await fetch('/api/auto-deploy/auto-deploy', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        repoUrl: request.repositoryUrl,
+        githubToken: request.githubToken,
+        autoBuild: true,
+        autoPush: false,
+        autoDeploy: true,
+        deploymentTarget: 'local'
+      })
+    });
+    const queued = await response.json();
+    if (!response.ok || !queued.success) {
+      throw new Error(queued.error || `Deployment request failed with ${response.status}`);
+    }
+    return queued.deploymentId;
   }
 
-  // Phase 4: Deploy
-  private async executeDeployPhase(buildResult: { imageName: string }): Promise<{ deploymentUrl: string }> {
-    const phase = this.getCurrentPhase('deploy');
-    phase.status = 'in_progress';
-    phase.startTime = new Date();
-    this.addLog(phase, '🚀 Starting deployment...');
-
-    const deploySteps = [
-      '📤 Pushing image to registry...',
-      '🌐 Creating deployment resources...',
-      '⚙️ Configuring load balancer...',
-      '🔗 Setting up domain...',
-      '✅ Deployment completed successfully'
-    ];
+  // Phases 2-4: follow the job's events and mirror its steps and logs into the matching phases
+  private followAutoDeployJob(deploymentId: string): Promise<AutoDeployJobStatus> {
+    const steps: AutoDeployJobStatus['steps'] = {};
+    let failure: string | undefined;
 
-    for (let i = 0; i < deploySteps.length; i++) {
-      phase.progress = (i + 1) * 20;
-      this.addLog(phase, deploySteps[i]);
+    const sync = (job: Pick<AutoDeployJobStatus, 'steps' | 'imageName' | 'deploymentUrl'>) => {
+      for (const phaseId of ['analysis', 'build', 'deploy']) {
+        this.syncPhase(phaseId, job);
+      }
       this.updateOverallProgress();
-      await this.delay(1200);
-    }
+    };
 
-    const deploymentUrl = `https://project-${Date.now()}.deploy.app`;
-    phase.details = { deploymentUrl, imageName: buildResult.imageName };
-    phase.status = 'completed';
-    phase.endTime = new Date();
-    phase.duration = phase.endTime.getTime() - phase.startTime!.getTime();
-    phase.progress = 100;
-    this.updateOverallProgress();
+    return new Promise((resolve, reject) => {
+      this.jobEvents?.close();
+      this.jobEvents = subscribeToJob(deploymentId, (event) => {
+        switch (event.type) {
+          case 'log': {
+            // Log lines belong to the step that was running when they were written
+            const step = event.phase as keyof typeof STEP_PHASES | undefined;
+            const logPhase = this.getCurrentPhase(step && STEP_PHASES[step] ? STEP_PHASES[step] : this.currentDeployment!.currentPhase);
+            logPhase.logs.push(event.message);
+            this.notifyProgress();
+            break;
+          }
+          case 'phase-start':
+            steps[event.phase] = { status: 'running' };
+            sync({ steps });
+            break;
+          case 'progress': {
+            const { step, status, error } = (event.data || {}) as { step?: string; status?: AutoDeployJobStatus['steps'][string]['status']; error?: string };
+            if (step && status) {
+              steps[step] = { status, ...(error ? { error } : {}) };
+              sync({ steps });
+            }
+            break;
+          }
+          case 'error':
+            failure = event.error;
+            break;
+          case 'done': {
+            const result = (event.result || {}) as Partial<AutoDeployJobStatus>;
+            const job: AutoDeployJobStatus = { status: result.status || (event.success ? 'completed' : 'failed'), steps, imageName: result.imageName, deploymentUrl: result.deploymentUrl, error: failure };
+            sync(job);
+            this.jobEvents = null;
+            if (job.status === 'completed') resolve(job);
+            else reject(new Error(job.error || `Deployment ${job.status}`));
+            break;
+          }
+        }
+      }, { onError: reject });
+    });
+  }
 
-    return { deploymentUrl };
+  // A phase is as far along as the job steps that feed it
+  private syncPhase(phaseId: string, job: Pick<AutoDeployJobStatus, 'steps' | 'imageName' | 'deploymentUrl'>): void {
+    const phase = this.getCurrentPhase(phaseId);
+    const states = (Object.keys(STEP_PHASES) as Array<keyof typeof STEP_PHASES>)
+      .filter(step => STEP_PHASES[step] === phaseId)
+      .map(step => job.steps[step]?.status || 'pending');
+    const settled = states.filter(s => s === 'completed' || s === 'skipped').length;
+
+    if (states.includes('failed')) {
+      phase.status = 'failed';
+    } else if (states.every(s => s === 'skipped')) {
+      phase.status = 'skipped';
+      phase.progress = 100;
+    } else if (settled === states.length) {
+      if (phase.status !== 'completed') {
+        phase.startTime ??= new Date();
+        phase.details = phaseId === 'build' ? { imageName: job.imageName }
+          : phaseId === 'deploy' ? { imageName: job.imageName, deploymentUrl: job.deploymentUrl }
+          : phase.details;
+        this.completePhase(phase);
+      }
+      return;
+    } else if (states.includes('running') || settled > 0) {
+      if (phase.status === 'pending') {
+        phase.status = 'in_progress';
+        phase.startTime = new Date();
+        this.currentDeployment!.currentPhase = phaseId;
+      }
+      phase.progress = Math.max(phase.progress, Math.round((settled + 0.5) / states.length * 90));
+    }
   }
 
   // Phase 5: Monitor
-  private async executeMonitorPhase(deployResult: { deploymentUrl: string }): Promise<void> {
+  private async executeMonitorPhase(deploymentId: string, deploymentUrl?: string): Promise<void> {
     const phase = this.getCurrentPhase('monitor');
     phase.status = 'in_progress';
     phase.startTime = new Date();
-    this.addLog(phase, '📊 Starting health monitoring...');
+    this.currentDeployment!.currentPhase = 'monitor';
+    this.addLog(phase, '📊 Checking the running container...');
 
-    const monitorSteps = [
-      '🔍 Checking deployment health...',
-      '📈 Monitoring performance metrics...',
-      '🛡️ Verifying security status...',
-      '✅ All systems operational'
-    ];
-
-    for (let i = 0; i < monitorSteps.length; i++) {
-      phase.progress = (i + 1) * 25;
-      this.addLog(phase, monitorSteps[i]);
-      this.updateOverallProgress();
-      await this.delay(1000);
+    const status = await this.refreshTargetStatus(phase, deploymentId);
+    if (status.state !== 'running') {
+      throw new Error(`Container is ${status.state}${status.message ? `: ${status.message}` : ''}`);
     }
 
-    phase.details = { deploymentUrl: deployResult.deploymentUrl, status: 'healthy' };
-    phase.status = 'completed';
-    phase.endTime = new Date();
-    phase.duration = phase.endTime.getTime() - phase.startTime!.getTime();
-    phase.progress = 100;
-    this.updateOverallProgress();
+    phase.details = { deploymentUrl, status: status.state, controls: true };
+    this.completePhase(phase);
+    this.followContainerLogs(phase, deploymentId);
   }
 
-  // Connect to analysis stream
-  private async connectToAnalysisStream(phase: DeploymentPhase): Promise<void> {
-    return new Promise((resolve, reject) => {
-      try {
-        const es = new EventSource('/api/deployments/stream');
-        this.eventSource = es;
-
-        es.onmessage = (event) => {
-          try {
-            const data = JSON.parse(event.data);
-            
-            if (data.done) {
-              es.close();
-              resolve();
-              return;
-            }
-
-            if (data.error) {
-              this.addLog(phase, `❌ ${data.error}`);
-              es.close();
-              reject(new Error(data.error));
-              return;
-            }
-
-            if (data.message) {
-              this.addLog(phase, data.message);
-              
-              // Update progress based on message content
-              if (data.message.includes('analysis complete')) {
-                phase.progress = 100;
-              } else if (data.message.includes('analyzing')) {
-                phase.progress = Math.min(phase.progress + 10, 90);
-              }
-              
-              this.updateOverallProgress();
-            }
-
-            if (data.dockerfile) {
-              this.addLog(phase, '📄 Dockerfile generated successfully');
-              phase.details = { filesGenerated: (phase.details?.filesGenerated || 0) + 1 };
-            }
-
-          } catch (error) {
-            this.addLog(phase, `⚠️ Error parsing stream data: ${error}`);
-          }
-        };
+  private async refreshTargetStatus(phase: DeploymentPhase, deploymentId: string): Promise<TargetStatus> {
+    const response = await fetch(`/api/auto-deploy/target/${deploymentId}`);
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Status check failed with ${response.status}`);
+    }
+    const status: TargetStatus = result.status;
+    this.addLog(phase, `🩺 ${status.state}${status.message ? ` (${status.message})` : ''}`);
+    phase.details = { ...phase.details, status: status.state };
+    return status;
+  }
 
-        es.onerror = () => {
-          this.addLog(phase, '❌ Stream connection error');
-          es.close();
-          reject(new Error('Stream connection failed'));
-        };
+  // Container stdout/stderr keeps flowing into the Monitor phase until cleanup
+  private followContainerLogs(phase: DeploymentPhase, deploymentId: string): void {
+    this.logStream?.close();
+    const es = new EventSource(`/api/auto-deploy/target/${deploymentId}/logs?tail=50`);
+    this.logStream = es;
 
-        // Timeout after 5 minutes
-        setTimeout(() => {
+    es.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data);
+        if (data.type === 'log') {
+          phase.logs.push(data.stream === 'stderr' ? `⚠️ ${data.line}` : data.line);
+          this.notifyProgress();
+        } else if (data.type === 'end' || data.type === 'error') {
+          this.addLog(phase, data.type === 'end' ? '⏹️ Container stopped' : `❌ ${data.error}`);
           es.close();
-          reject(new Error('Analysis timeout'));
-        }, 300000);
-
+        }
       } catch (error) {
-        reject(error);
+        this.addLog(phase, `⚠️ Error parsing log stream: ${error}`);
       }
-    });
+    };
+
+    es.onerror = () => {
+      es.close();
+    };
+  }
+
+  // Stop, restart or remove the running container of the current deployment
+  async controlDeployment(action: 'stop' | 'restart' | 'remove'): Promise<void> {
+    if (!this.currentDeployment) return;
+    const phase = this.getCurrentPhase('monitor');
+    const deploymentId = this.currentDeployment.id;
+
+    const labels = { stop: '⏹️ Stopping', restart: '🔄 Restarting', remove: '🧹 Removing' };
+    this.addLog(phase, `${labels[action]} the container...`);
+    if (action !== 'restart') this.logStream?.close();
+
+    const response = await fetch(
+      action === 'remove' ? `/api/auto-deploy/target/${deploymentId}` : `/api/auto-deploy/target/${deploymentId}/${action}`,
+      { method: action === 'remove' ? 'DELETE' : 'POST' }
+    );
+    const result = await response.json();
+    for (const line of result.logs || []) this.addLog(phase, line);
+    if (!response.ok || !result.success) {
+      this.addLog(phase, `❌ ${result.error || `${action} failed with ${response.status}`}`);
+      return;
+    }
+
+    if (action === 'remove') {
+      phase.details = { ...phase.details, deploymentUrl: undefined, status: 'removed', controls: false };
+      this.addLog(phase, '✅ Container removed');
+      return;
+    }
+    await this.refreshTargetStatus(phase, deploymentId);
+    if (action === 'restart') this.followContainerLogs(phase, deploymentId);
   }
 
   // Helper methods
@@ -349,6 +477,22 @@ class DeploymentFlowService {
     return phase;
   }
 
+  private completePhase(phase: DeploymentPhase): void {
+    phase.status = 'completed';
+    phase.endTime = new Date();
+    phase.duration = phase.endTime.getTime() - phase.startTime!.getTime();
+    phase.progress = 100;
+    this.updateOverallProgress();
+  }
+
+  private skipPhase(phaseId: string, reason: string): void {
+    const phase = this.getCurrentPhase(phaseId);
+    phase.status = 'skipped';
+    phase.progress = 100;
+    this.addLog(phase, reason);
+    this.updateOverallProgress();
+  }
+
   private addLog(phase: DeploymentPhase, message: string): void {
     const timestamp = new Date().toLocaleTimeString();
     phase.logs.push(`[${timestamp}] ${message}`);
@@ -372,10 +516,6 @@ class DeploymentFlowService {
     }
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   // Public methods
   getCurrentDeployment(): DeploymentProgress | null {
     return this.currentDeployment;
@@ -386,8 +526,10 @@ class DeploymentFlowService {
   }
 
   cancelDeployment(): void {
-    if (this.eventSource) {
-      this.eventSource.close();
+    this.jobEvents?.close();
+    this.logStream?.close();
+    if (this.currentDeployment?.status === 'running' && !this.currentDeployment.id.startsWith('deploy-')) {
+      fetch(`/api/auto-deploy/cancel/${this.currentDeployment.id}`, { method: 'POST' }).catch(() => undefined);
     }
     if (this.currentDeployment) {
       this.currentDeployment.status = 'cancelled';
@@ -396,9 +538,8 @@ class DeploymentFlowService {
   }
 
   cleanup(): void {
-    if (this.eventSource) {
-      this.eventSource.close();
-    }
+    this.jobEvents?.close();
+    this.logStream?.close();
     this.currentDeployment = null;
     this.onProgressUpdate = null;
   }
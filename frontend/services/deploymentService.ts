@@ -1,4 +1,5 @@
 import { supabase } from '../integrations/supabase/client';
+import type { LogRecord, LogStream } from '@shared/types';
 
 // Types for deployment
 export interface DeploymentRequest {
@@ -17,22 +18,69 @@ export interface DeploymentResponse {
   dockerfile?: string;
   analysis?: any;
   generatedFiles?: any[];
+  upload?: {
+    archive?: string;
+    files: number;
+    bytes: number;
+    binaryFiles: number;
+    skipped: { path: string; reason: string }[];
+  };
+}
+
+// Progress of a chunked upload, per file and overall
+export interface UploadFileProgress {
+  path: string;
+  size: number;
+  chunks: number;
+  receivedChunks: number[];
+  receivedBytes: number;
+  ranges: [number, number][];
+}
+
+export interface UploadProgress {
+  files: UploadFileProgress[];
+  receivedBytes: number;
+  totalBytes: number;
+  complete: boolean;
 }
 
 export interface Deployment {
-  id: number;
-  user_id: string;
-  prompt: string;
-  repo_link: string;
-  deployment_stack: string[];
+  id: string;
+  userId: string | null;
+  source: 'repo' | 'upload';
+  repoUrl?: string;
+  prompt?: string;
   status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
-  webhook_response?: string;
-  dockerfile_content?: string;
-  error_message?: string;
-  deployment_url?: string;
-  created_at: string;
-  updated_at: string;
-  completed_at?: string;
+  statusHistory: { status: Deployment['status']; phase?: string; message?: string; at: string }[];
+  dockerfile?: string;
+  analysis?: any;
+  generatedFiles?: any[];
+  imageName?: string;
+  deploymentUrl?: string;
+  error?: string;
+  logs: string[];
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface DeploymentHistoryFilters {
+  status?: Deployment['status'];
+  repo?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+// Uploads larger than this go through resumable chunked uploads
+const CHUNKED_UPLOAD_THRESHOLD = 20 * 1024 * 1024;
+const UPLOAD_SESSION_KEY = 'zeroops:upload:';
+
+const uploadPath = (file: File) => file.webkitRelativePath || file.name;
+
+async function sha256Hex(data: ArrayBuffer | string): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
 }
 
 class DeploymentService {
@@ -98,16 +146,26 @@ class DeploymentService {
   }
 
   // Create deployment from uploaded files
-  async createDeploymentFromFiles(files: File[], userPrompt: string, streamId?: string): Promise<DeploymentResponse> {
+  async createDeploymentFromFiles(
+    files: File[],
+    userPrompt: string,
+    streamId?: string,
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<DeploymentResponse> {
+    const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    if (totalBytes > CHUNKED_UPLOAD_THRESHOLD) {
+      return this.createDeploymentFromChunkedUpload(files, userPrompt, streamId, onProgress);
+    }
+
     try {
       console.log('📁 Creating deployment from uploaded files:', files.length);
       
       // Create FormData for file upload
       const formData = new FormData();
       
-      // Add files to FormData
+      // Add files to FormData, keeping their paths inside an uploaded folder
       files.forEach((file, index) => {
-        formData.append('files', file);
+        formData.append('files', file, file.webkitRelativePath || file.name);
         console.log(`📄 Added file ${index + 1}: ${file.name} (${file.size} bytes)`);
       });
       
@@ -139,7 +197,8 @@ class DeploymentService {
         message: data.message || 'File upload deployment completed successfully',
         dockerfile: data.dockerfile,
         analysis: data.analysis,
-        generatedFiles: data.generatedFiles
+        generatedFiles: data.generatedFiles,
+        upload: data.upload
       };
       
     } catch (error) {
@@ -148,6 +207,95 @@ class DeploymentService {
     }
   }
 
+  // Upload files in checksummed chunks, resuming an earlier upload of the same files
+  async createDeploymentFromChunkedUpload(
+    files: File[],
+    userPrompt: string,
+    streamId?: string,
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<DeploymentResponse> {
+    try {
+      const query = streamId ? `?streamId=${encodeURIComponent(streamId)}` : '';
+      const key = UPLOAD_SESSION_KEY + await sha256Hex(files.map(file => `${uploadPath(file)}:${file.size}:${file.lastModified}`).join('\n'));
+
+      let session = await this.resumeUpload(localStorage.getItem(key), query);
+      if (session) {
+        console.log(`🔁 Resuming upload ${session.uploadId} (${session.progress.receivedBytes} of ${session.progress.totalBytes} bytes already received)`);
+      } else {
+        const response = await fetch(`${this.baseUrl}/deployments/uploads`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ files: files.map(file => ({ path: uploadPath(file), size: file.size })), userPrompt, streamId })
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || `HTTP ${response.status}`);
+        }
+        session = data as { uploadId: string; chunkSize: number; progress: UploadProgress };
+        localStorage.setItem(key, session.uploadId);
+        console.log(`📦 Started chunked upload ${session.uploadId}`);
+      }
+
+      const { uploadId, chunkSize } = session;
+      let progress = session.progress;
+      onProgress?.(progress);
+
+      for (const [fileIndex, file] of files.entries()) {
+        const received = new Set(progress.files[fileIndex]?.receivedChunks ?? []);
+        const chunks = Math.max(1, Math.ceil(file.size / chunkSize));
+        for (let chunkIndex = 0; chunkIndex < chunks; chunkIndex++) {
+          if (received.has(chunkIndex)) continue;
+          const chunk = await file.slice(chunkIndex * chunkSize, (chunkIndex + 1) * chunkSize).arrayBuffer();
+          const response = await fetch(`${this.baseUrl}/deployments/uploads/${uploadId}/files/${fileIndex}/chunks/${chunkIndex}${query}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/octet-stream', 'X-Chunk-Sha256': await sha256Hex(chunk) },
+            body: chunk
+          });
+          const data = await response.json();
+          if (!response.ok) {
+            throw new Error(data.error || `HTTP ${response.status}`);
+          }
+          progress = data.progress;
+          onProgress?.(progress);
+        }
+      }
+
+      console.log('🚀 All chunks received, starting analysis...');
+      const response = await fetch(`${this.baseUrl}/deployments/uploads/${uploadId}/complete${query}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userPrompt })
+      });
+      // The session is gone once the server has assembled it, whatever the outcome
+      if (response.status !== 409) localStorage.removeItem(key);
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      return {
+        success: data.success,
+        message: data.message || 'File upload deployment completed successfully',
+        dockerfile: data.dockerfile,
+        analysis: data.analysis,
+        generatedFiles: data.generatedFiles,
+        upload: data.upload
+      };
+    } catch (error) {
+      console.error('Chunked upload error:', error);
+      throw error;
+    }
+  }
+
+  // The received chunks of an earlier upload session, if the server still has it
+  private async resumeUpload(uploadId: string | null, query: string): Promise<{ uploadId: string; chunkSize: number; progress: UploadProgress } | null> {
+    if (!uploadId) return null;
+    const response = await fetch(`${this.baseUrl}/deployments/uploads/${encodeURIComponent(uploadId)}${query}`);
+    if (!response.ok) return null;
+    return response.json();
+  }
+
   // Get deployment status by ID
   async getDeploymentStatus(deploymentId: string): Promise<{ success: boolean; deployment?: Deployment; message?: string }> {
     try {
@@ -171,12 +319,34 @@ class DeploymentService {
     }
   }
 
+  // Structured log records of a deployment; `stream: 'build'` is the raw Docker output
+  async getDeploymentLogs(deploymentId: string, query: { stream?: LogStream; step?: string; level?: string; since?: string } = {}): Promise<LogRecord[]> {
+    const headers = await this.getAuthHeaders();
+    const params = new URLSearchParams(Object.entries(query).filter(([, value]) => value) as [string, string][]);
+    const response = await fetch(`${this.baseUrl}/deployments/${encodeURIComponent(deploymentId)}/logs?${params}`, { headers });
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+    return data.logs;
+  }
+
   // Get user's deployment history
-  async getDeploymentHistory(): Promise<{ success: boolean; deployments?: Deployment[]; message?: string }> {
+  async getDeploymentHistory(filters: DeploymentHistoryFilters = {}): Promise<{
+    success: boolean;
+    deployments?: Deployment[];
+    pagination?: { page: number; pageSize: number; total: number };
+    message?: string;
+  }> {
     try {
       const headers = await this.getAuthHeaders();
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') params.set(key, String(value));
+      });
+      const query = params.toString();
       
-      const response = await fetch(`${this.baseUrl}/deployments`, {
+      const response = await fetch(`${this.baseUrl}/deployments${query ? `?${query}` : ''}`, {
         method: 'GET',
         headers
       });
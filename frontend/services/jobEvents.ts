@@ -0,0 +1,110 @@
+import type { JobEvent, JobSocketRejection } from '@shared/types';
+
+export type { JobEvent };
+
+export interface JobEventOptions {
+  transport?: 'sse' | 'websocket';
+  lastEventId?: number; // Resume after this event, e.g. one kept across a reload
+  onError?: (error: Error) => void; // The stream could not be opened or was lost for good
+}
+
+export interface JobSubscription {
+  close: () => void;
+}
+
+const RECONNECT_DELAY_MS = 3000;
+const MAX_RECONNECTS = 5;
+
+/**
+ * Follow the events of a long-running job (deployment, analysis, upload or
+ * auto-fix) until its `done` event. Dropped connections are resumed from the
+ * last event seen, so nothing is delivered twice or lost.
+ */
+export function subscribeToJob(jobId: string, onEvent: (event: JobEvent) => void, options: JobEventOptions = {}): JobSubscription {
+  return options.transport === 'websocket'
+    ? subscribeOverWebSocket(jobId, onEvent, options)
+    : subscribeOverSse(jobId, onEvent, options);
+}
+
+function subscribeOverSse(jobId: string, onEvent: (event: JobEvent) => void, options: JobEventOptions): JobSubscription {
+  const query = options.lastEventId ? `?lastEventId=${options.lastEventId}` : '';
+  // EventSource reconnects on its own and sends Last-Event-ID
+  const es = new EventSource(`/api/events/${encodeURIComponent(jobId)}${query}`);
+
+  es.onmessage = (message) => {
+    let event: JobEvent;
+    try {
+      event = JSON.parse(message.data);
+    } catch {
+      return;
+    }
+    onEvent(event);
+    if (event.type === 'done') es.close();
+  };
+  es.onerror = () => {
+    if (es.readyState === EventSource.CLOSED) {
+      options.onError?.(new Error('Event stream connection failed'));
+    }
+  };
+
+  return { close: () => es.close() };
+}
+
+function subscribeOverWebSocket(jobId: string, onEvent: (event: JobEvent) => void, options: JobEventOptions): JobSubscription {
+  let lastEventId = options.lastEventId || 0;
+  let reconnects = 0;
+  let closed = false;
+  let socket: WebSocket | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const close = () => {
+    closed = true;
+    clearTimeout(timer);
+    socket?.close();
+  };
+
+  const connect = () => {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const ws = new WebSocket(`${protocol}//${window.location.host}/api/events`);
+    socket = ws;
+
+    ws.onopen = () => {
+      reconnects = 0;
+      ws.send(JSON.stringify({ type: 'subscribe', jobId, lastEventId }));
+    };
+    ws.onmessage = (message) => {
+      let event: JobEvent | JobSocketRejection;
+      try {
+        event = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+      if (event.type === 'rejected') {
+        options.onError?.(new Error(event.error));
+        close();
+        return;
+      }
+      lastEventId = event.id;
+      onEvent(event);
+      if (event.type === 'done') close();
+    };
+    ws.onclose = () => {
+      if (closed) return;
+      if (++reconnects > MAX_RECONNECTS) {
+        options.onError?.(new Error('Event stream connection lost'));
+        return;
+      }
+      timer = setTimeout(connect, RECONNECT_DELAY_MS);
+    };
+  };
+
+  connect();
+  return { close };
+}
+
+/** Console-style level of a log event, from its level and emoji */
+export function logLevel(event: Extract<JobEvent, { type: 'log' }>): 'info' | 'success' | 'warning' | 'error' {
+  if (event.level === 'error' || event.message.includes('❌')) return 'error';
+  if (event.level === 'warn' || event.message.includes('⚠️')) return 'warning';
+  return event.message.includes('✅') ? 'success' : 'info';
+}
@@ -4,7 +4,7 @@
  * and/or small pure JS functions that can be used on both client and server
  */
 
-import type { Deployment } from './types'
+import type { Deployment, DeploymentRecord } from './types'
 
 /**
  * Example response type for /api/demo
@@ -41,3 +41,21 @@ export interface DeploymentStatusResponse {
   deployment?: Deployment;
   message?: string;
 }
+
+export interface Pagination {
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+export interface DeploymentListResponse {
+  success: boolean;
+  deployments: DeploymentRecord[];
+  pagination: Pagination;
+}
+
+export interface DeploymentRecordResponse {
+  success: boolean;
+  deployment?: DeploymentRecord;
+  error?: string;
+}
@@ -0,0 +1,229 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import { classifyBuildError, classifyBuildLog, classifyRuntimeFailure, missingFileAction } from './buildErrors'
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./fixtures/build-logs/${name}`, import.meta.url), 'utf8')
+
+describe('classifyBuildError', () => {
+  it('extracts the missing COPY source, stage and Dockerfile line from BuildKit logs', () => {
+    expect(classifyBuildError(fixture('buildkit-copy-missing.log'))).toMatchObject({
+      code: 'COPY_SOURCE_NOT_FOUND',
+      category: 'missing_file',
+      file: 'requirements.txt',
+      action: 'generate_file',
+      stage: 'build',
+      step: '3/5',
+      instruction: 'COPY requirements.txt ./',
+      line: 5
+    })
+  })
+
+  it('reports a missing go.sum once even though BuildKit repeats it in the summary', () => {
+    const errors = classifyBuildLog(fixture('buildkit-go-sum-missing.log'))
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toMatchObject({ code: 'COPY_SOURCE_NOT_FOUND', file: 'go.sum', stage: 'builder', line: 5 })
+  })
+
+  it('extracts the missing COPY source and stage from legacy builder logs', () => {
+    expect(classifyBuildError(fixture('legacy-copy-missing.log'))).toMatchObject({
+      code: 'COPY_SOURCE_NOT_FOUND',
+      file: 'package-lock.json',
+      stage: 'deps',
+      step: '3/6'
+    })
+  })
+
+  it('prefers the DNS failure over the apt error it causes', () => {
+    const errors = classifyBuildLog(fixture('buildkit-apt-dns.log'))
+    expect(errors.map(e => e.code)).toEqual(['NETWORK_ERROR', 'APT_INSTALL_FAILED', 'COMMAND_FAILED'])
+    expect(errors[0]).toMatchObject({ retryable: true, action: 'retry', line: 3 })
+  })
+
+  it('names the apt package without an installation candidate', () => {
+    expect(classifyBuildError(fixture('buildkit-apt-unknown-package.log'))).toMatchObject({
+      code: 'APT_INSTALL_FAILED',
+      packageName: 'libssl1.1',
+      stage: 'runtime',
+      line: 12
+    })
+  })
+
+  it('names the missing apk package', () => {
+    expect(classifyBuildError(fixture('buildkit-apk-unknown-package.log'))).toMatchObject({
+      code: 'APK_INSTALL_FAILED',
+      packageName: 'python'
+    })
+  })
+
+  it('names the pip requirement that cannot be satisfied', () => {
+    expect(classifyBuildError(fixture('buildkit-pip-no-version.log'))).toMatchObject({
+      code: 'PIP_INSTALL_FAILED',
+      category: 'dependency',
+      packageName: 'tensorflow==1.15.5',
+      line: 7
+    })
+  })
+
+  it('treats a missing requirements file as a missing file', () => {
+    expect(classifyBuildError(fixture('legacy-pip-missing-requirements.log'))).toMatchObject({
+      code: 'PIP_INSTALL_FAILED',
+      category: 'missing_file',
+      file: 'requirements.txt',
+      action: 'generate_file',
+      step: '3/7'
+    })
+  })
+
+  it('detects npm ci without a lockfile', () => {
+    expect(classifyBuildError(fixture('buildkit-npm-ci-no-lockfile.log'))).toMatchObject({
+      code: 'NPM_INSTALL_FAILED',
+      file: 'package-lock.json',
+      stage: 'deps'
+    })
+  })
+
+  it('detects npm peer dependency conflicts', () => {
+    expect(classifyBuildError(fixture('buildkit-npm-eresolve.log'))).toMatchObject({
+      code: 'NPM_INSTALL_FAILED',
+      message: 'npm could not resolve the dependency tree'
+    })
+  })
+
+  it('detects the Node heap running out of memory', () => {
+    expect(classifyBuildError(fixture('buildkit-node-oom.log'))).toMatchObject({
+      code: 'OUT_OF_MEMORY',
+      category: 'resource',
+      stage: 'build',
+      line: 14
+    })
+  })
+
+  it('treats exit code 137 as the OOM killer', () => {
+    const errors = classifyBuildLog(fixture('buildkit-killed-137.log'))
+    expect(errors.map(e => e.code)).toEqual(['OUT_OF_MEMORY'])
+    expect(errors[0].exitCode).toBe(137)
+  })
+
+  it('detects binaries built for another architecture', () => {
+    expect(classifyBuildError(fixture('buildkit-exec-format.log'))).toMatchObject({
+      code: 'EXEC_FORMAT_ERROR',
+      file: '/app/bin/migrate'
+    })
+  })
+
+  it('reports the platform mismatch before the exec format error it causes', () => {
+    const errors = classifyBuildLog(fixture('legacy-platform-mismatch.log'))
+    expect(errors.map(e => e.code)).toEqual(['PLATFORM_MISMATCH', 'EXEC_FORMAT_ERROR', 'COMMAND_FAILED'])
+  })
+
+  it('detects an unknown base image', () => {
+    expect(classifyBuildError(fixture('buildkit-base-image-not-found.log'))).toMatchObject({
+      code: 'BASE_IMAGE_NOT_FOUND',
+      image: 'docker.io/library/node:99-alpine',
+      line: 1
+    })
+  })
+
+  it('detects Go module checksum mismatches', () => {
+    expect(classifyBuildError(fixture('buildkit-go-checksum-mismatch.log'))).toMatchObject({
+      code: 'CHECKSUM_MISMATCH',
+      packageName: 'github.com/gorilla/mux@v1.8.1'
+    })
+  })
+
+  it('takes the line number from Dockerfile parse errors', () => {
+    expect(classifyBuildError(fixture('buildkit-parse-error.log'))).toMatchObject({
+      code: 'DOCKERFILE_SYNTAX',
+      line: 4
+    })
+  })
+
+  it('detects scripts without the execute bit', () => {
+    expect(classifyBuildError(fixture('legacy-permission-denied.log'))).toMatchObject({
+      code: 'PERMISSION_DENIED',
+      action: 'fix_permission',
+      file: './scripts/build.sh'
+    })
+  })
+
+  it('detects the Go compiler building a Python file', () => {
+    expect(classifyBuildError(fixture('buildkit-go-build-python.log'))).toMatchObject({
+      code: 'LANGUAGE_MISMATCH',
+      file: 'process_cursor_links.py',
+      stage: 'builder',
+      line: 11
+    })
+  })
+
+  it('detects invalid image names', () => {
+    expect(classifyBuildError(fixture('invalid-tag.log'))).toMatchObject({
+      code: 'INVALID_IMAGE_NAME',
+      image: 'Anonymous/My-App:latest',
+      action: 'fix_tag_case'
+    })
+  })
+
+  it('detects an unreachable Docker daemon', () => {
+    expect(classifyBuildError(fixture('daemon-unavailable.log')).code).toBe('DAEMON_UNAVAILABLE')
+  })
+
+  it('falls back to UNKNOWN with the last log line', () => {
+    expect(classifyBuildError('step one\nsomething odd happened\n')).toMatchObject({
+      code: 'UNKNOWN',
+      message: 'something odd happened'
+    })
+  })
+})
+
+describe('missingFileAction', () => {
+  it('maps missing files to the fixer that handles them', () => {
+    expect(missingFileAction('.dockerignore')).toBe('remove_dockerignore')
+    expect(missingFileAction('.npmrc')).toBe('remove_npmrc')
+    expect(missingFileAction('backend')).toBe('remove_instruction')
+    expect(missingFileAction('src/config.json')).toBe('remove_instruction')
+    expect(missingFileAction('requirements.txt')).toBe('generate_file')
+  })
+})
+
+describe('classifyRuntimeFailure', () => {
+  it('recognises a start command that is missing from the image', () => {
+    const log = 'node:internal/modules/cjs/loader:1080\n  throw err;\n  ^\n\nError: Cannot find module \'/app/dist/server.js\'\n    at Module._resolveFilename'
+    expect(classifyRuntimeFailure(log, { running: false, exitCode: 1 })).toMatchObject({
+      code: 'MODULE_NOT_FOUND',
+      category: 'runtime',
+      file: '/app/dist/server.js',
+      action: 'fix_command',
+      exitCode: 1
+    })
+    expect(classifyRuntimeFailure('exec /usr/local/bin/start.sh: no such file or directory', { running: false, exitCode: 127 }))
+      .toMatchObject({ code: 'ENTRYPOINT_NOT_FOUND', file: '/usr/local/bin/start.sh', action: 'fix_command' })
+  })
+
+  it('leaves missing packages and sandbox limits to a person', () => {
+    expect(classifyRuntimeFailure("ModuleNotFoundError: No module named 'flask'", { running: false, exitCode: 1 }))
+      .toMatchObject({ code: 'MODULE_NOT_FOUND', packageName: 'flask', action: 'manual_fix' })
+    expect(classifyRuntimeFailure('Error: getaddrinfo ENOTFOUND db.internal', { running: false, exitCode: 1 }))
+      .toMatchObject({ code: 'DEPENDENCY_UNREACHABLE', message: 'Could not reach db.internal' })
+    expect(classifyRuntimeFailure("KeyError: 'DATABASE_URL'", { running: false, exitCode: 1 }))
+      .toMatchObject({ code: 'MISSING_ENV_VAR', packageName: 'DATABASE_URL' })
+  })
+
+  it('reports the port a running process actually listens on', () => {
+    expect(classifyRuntimeFailure('Listening on 8080', { running: true, port: 3000, listeningPorts: [8080] }))
+      .toMatchObject({ code: 'PORT_NOT_LISTENING', action: 'fix_port', port: 8080 })
+    expect(classifyRuntimeFailure('', { running: true, port: 3000, listeningPorts: [] }))
+      .toMatchObject({ code: 'PORT_NOT_LISTENING', action: 'manual_fix' })
+  })
+
+  it('falls back to the container state', () => {
+    expect(classifyRuntimeFailure('', { running: false, exitCode: 137, oomKilled: true })).toMatchObject({ code: 'CONTAINER_OOM' })
+    expect(classifyRuntimeFailure('done', { running: false, exitCode: 0 })).toMatchObject({ code: 'CONTAINER_EXITED', action: 'fix_command', exitCode: 0 })
+    expect(classifyRuntimeFailure('panic: boom', { running: false, exitCode: 2 }))
+      .toMatchObject({ code: 'CONTAINER_EXITED', action: 'manual_fix', message: 'Process exited with code 2: panic: boom' })
+  })
+
+  it('never reads build logs as runtime failures', () => {
+    expect(classifyRuntimeFailure(fixture('buildkit-copy-missing.log'), { running: false, exitCode: 1 }).code).toBe('CONTAINER_EXITED')
+  })
+})
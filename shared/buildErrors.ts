@@ -0,0 +1,742 @@
+// Docker build error taxonomy shared by the build monitor, auto-fixers and routes.
+// Classification is deterministic: every known failure has a signature with a
+// stable code, so callers can branch on `code` instead of re-parsing logs.
+
+export type BuildErrorCode =
+  | 'DAEMON_UNAVAILABLE'
+  | 'EXEC_FORMAT_ERROR'
+  | 'PLATFORM_MISMATCH'
+  | 'OUT_OF_MEMORY'
+  | 'NETWORK_ERROR'
+  | 'BASE_IMAGE_NOT_FOUND'
+  | 'DOCKERFILE_NOT_FOUND'
+  | 'DOCKERFILE_SYNTAX'
+  | 'INVALID_FILE_REQUEST'
+  | 'COPY_SOURCE_NOT_FOUND'
+  | 'CHECKSUM_MISMATCH'
+  | 'APT_INSTALL_FAILED'
+  | 'APK_INSTALL_FAILED'
+  | 'PIP_INSTALL_FAILED'
+  | 'NPM_INSTALL_FAILED'
+  | 'PERMISSION_DENIED'
+  | 'INVALID_IMAGE_NAME'
+  | 'LANGUAGE_MISMATCH'
+  | 'COMMAND_FAILED'
+  // Runtime: the image built but the container does not come up
+  | 'ENTRYPOINT_NOT_FOUND'
+  | 'MODULE_NOT_FOUND'
+  | 'RUNTIME_SYNTAX_ERROR'
+  | 'MISSING_ENV_VAR'
+  | 'DEPENDENCY_UNREACHABLE'
+  | 'PORT_PERMISSION_DENIED'
+  | 'CONTAINER_OOM'
+  | 'PORT_NOT_LISTENING'
+  | 'CONTAINER_EXITED'
+  | 'UNKNOWN'
+
+export type BuildErrorCategory =
+  | 'missing_file'
+  | 'syntax'
+  | 'dependency'
+  | 'network'
+  | 'resource'
+  | 'platform'
+  | 'permission'
+  | 'environment'
+  | 'command'
+  | 'runtime'
+  | 'unknown'
+
+export type BuildErrorSeverity = 'low' | 'medium' | 'high' | 'critical'
+
+export type BuildErrorAction =
+  | 'generate_file'
+  | 'remove_instruction'
+  | 'remove_dockerignore'
+  | 'remove_npmrc'
+  | 'fix_tag_case'
+  | 'fix_permission'
+  | 'fix_command'
+  | 'fix_port'
+  | 'retry'
+  | 'manual_fix'
+
+export interface BuildError {
+  code: BuildErrorCode
+  category: BuildErrorCategory
+  severity: BuildErrorSeverity
+  message: string
+  suggestion: string
+  action: BuildErrorAction
+  retryable: boolean
+  file?: string // Missing or offending file, relative to the build context
+  packageName?: string
+  image?: string
+  line?: number // Dockerfile line of the failing instruction
+  stage?: string
+  step?: string // e.g. "3/6"
+  instruction?: string // e.g. "RUN npm ci"
+  exitCode?: number
+  port?: number // Runtime errors: the port the process listens on instead of the declared one
+  excerpt: string // Log line the error was recognised from
+}
+
+type Captures = RegExpMatchArray
+
+export interface BuildErrorSignature {
+  code: BuildErrorCode
+  category: BuildErrorCategory
+  severity: BuildErrorSeverity
+  patterns: RegExp[]
+  message: (m: Captures) => string
+  suggestion: string
+  action: BuildErrorAction | ((file?: string) => BuildErrorAction)
+  retryable?: boolean
+  file?: (m: Captures) => string | undefined
+  packageName?: (m: Captures) => string | undefined
+  image?: (m: Captures) => string | undefined
+  line?: (m: Captures) => number | undefined
+  exitCode?: (m: Captures) => number | undefined
+}
+
+const first = (m: Captures) => m.slice(1).find(Boolean)
+
+const cleanPath = (value?: string) =>
+  value
+    ?.replace(/^\/var\/lib\/docker\/tmp\/(?:docker-builder|buildkit-mount)\d+\//, '')
+    .replace(/^\/+/, '')
+    .replace(/['",]+$/, '')
+
+/**
+ * Files the fixers know how to deal with get a dedicated action; directories
+ * are removed from the Dockerfile, other files are generated.
+ */
+export const missingFileAction = (file?: string): BuildErrorAction => {
+  if (!file) return 'manual_fix'
+  if (file === '.dockerignore') return 'remove_dockerignore'
+  if (file === '.npmrc') return 'remove_npmrc'
+  if (file.includes('/') || !/\.[A-Za-z0-9]+$/.test(file)) return 'remove_instruction'
+  return 'generate_file'
+}
+
+/**
+ * Ordered from most to least specific: the first signature matching a log
+ * line claims it, and the primary error is the one whose signature comes first.
+ */
+export const BUILD_ERROR_SIGNATURES: BuildErrorSignature[] = [
+  {
+    code: 'DAEMON_UNAVAILABLE',
+    category: 'environment',
+    severity: 'critical',
+    patterns: [
+      /Cannot connect to the Docker daemon/i,
+      /permission denied while trying to connect to the Docker daemon/i,
+      /error during connect:/i
+    ],
+    message: () => 'Docker daemon is not reachable',
+    suggestion: 'Start Docker and make sure the current user can access the Docker socket',
+    action: 'manual_fix'
+  },
+  {
+    code: 'PLATFORM_MISMATCH',
+    category: 'platform',
+    severity: 'high',
+    patterns: [
+      /requested image's platform \(([^)]+)\) does not match the detected host platform \(([^)]+)\)/,
+      /no match for platform in manifest/,
+      /image with reference (\S+) was found but does not match the specified platform/
+    ],
+    message: m => m[2] ? `Image platform ${m[1]} does not match host platform ${m[2]}` : 'Base image is not available for the target platform',
+    suggestion: 'Use a multi-arch base image or pass --platform matching the build host',
+    action: 'manual_fix'
+  },
+  {
+    code: 'EXEC_FORMAT_ERROR',
+    category: 'platform',
+    severity: 'high',
+    patterns: [/exec (\S+): exec format error/, /exec format error/],
+    message: m => m[1] ? `Cannot execute ${m[1]}: binary built for another CPU architecture` : 'Binary built for another CPU architecture',
+    suggestion: 'Build for the host architecture (e.g. GOARCH/--platform) or use QEMU emulation',
+    action: 'manual_fix',
+    file: m => m[1]
+  },
+  {
+    code: 'OUT_OF_MEMORY',
+    category: 'resource',
+    severity: 'high',
+    patterns: [
+      /JavaScript heap out of memory/,
+      /fatal error: runtime: out of memory/,
+      /Cannot allocate memory/i,
+      /did not complete successfully: exit code: 137/,
+      /returned a non-zero code: 137/,
+      /signal: killed/,
+      /^Killed$/,
+      /ResourceExhausted/
+    ],
+    message: () => 'Build step ran out of memory',
+    suggestion: 'Give Docker more memory or lower the step\'s memory use (e.g. NODE_OPTIONS=--max-old-space-size)',
+    action: 'manual_fix',
+    exitCode: m => /137/.test(m[0]) ? 137 : undefined
+  },
+  {
+    code: 'NETWORK_ERROR',
+    category: 'network',
+    severity: 'medium',
+    patterns: [
+      /Temporary failure resolving '([^']+)'/,
+      /Could not resolve host:? '?([\w.-]+)/,
+      /getaddrinfo (?:ENOTFOUND|EAI_AGAIN) ([\w.-]+)/,
+      /dial tcp: lookup ([\w.-]+)(?: on \S+)?: (?:no such host|i\/o timeout|server misbehaving)/,
+      /Temporary failure in name resolution/,
+      /TLS handshake timeout/,
+      /net\/http: request canceled while waiting for connection/,
+      /npm (?:ERR!|error) code (?:EAI_AGAIN|ENOTFOUND|ETIMEDOUT|ECONNRESET|ECONNREFUSED)/,
+      /Connection timed out|Network is unreachable/
+    ],
+    message: m => m[1] ? `Network error reaching ${m[1]}` : 'Network error during the build',
+    suggestion: 'Check DNS and network access from the Docker daemon, then retry',
+    action: 'retry',
+    retryable: true
+  },
+  {
+    code: 'BASE_IMAGE_NOT_FOUND',
+    category: 'dependency',
+    severity: 'high',
+    patterns: [
+      /failed to resolve source metadata for (\S+?): .*(?:not found|pull access denied|manifest unknown)/,
+      /manifest for (\S+) not found: manifest unknown/,
+      /pull access denied for ([^,\s]+), repository does not exist/
+    ],
+    message: m => `Base image ${m[1]} does not exist or is not accessible`,
+    suggestion: 'Fix the FROM image name/tag or log in to the registry that hosts it',
+    action: 'manual_fix',
+    image: m => m[1]
+  },
+  {
+    code: 'DOCKERFILE_NOT_FOUND',
+    category: 'missing_file',
+    severity: 'critical',
+    patterns: [
+      /failed to read dockerfile: open (\S+): no such file or directory/,
+      /unable to evaluate symlinks in Dockerfile path: lstat (\S+): no such file or directory/
+    ],
+    message: m => `Dockerfile not found: ${m[1]}`,
+    suggestion: 'Check the Dockerfile path passed with -f',
+    action: 'manual_fix',
+    file: m => m[1]
+  },
+  {
+    code: 'DOCKERFILE_SYNTAX',
+    category: 'syntax',
+    severity: 'high',
+    patterns: [
+      /dockerfile parse error (?:on )?line (\d+): (.+)/i,
+      /unknown instruction: (\S+)/i,
+      /failed to parse stage name "([^"]*)"/,
+      /failed to process "([^"]*)": (.+)/
+    ],
+    message: m => `Invalid Dockerfile: ${m[0].replace(/^.*?(dockerfile parse error|unknown instruction|failed to)/i, '$1')}`,
+    suggestion: 'Fix the Dockerfile syntax on the reported line',
+    action: 'manual_fix',
+    line: m => /line \d+/i.test(m[0]) ? Number(m[1]) : undefined
+  },
+  {
+    code: 'INVALID_FILE_REQUEST',
+    category: 'missing_file',
+    severity: 'high',
+    patterns: [/invalid file request (\S+)/],
+    message: m => `Build context file ${m[1]} cannot be read`,
+    suggestion: 'Remove or recreate the file in the build context',
+    action: missingFileAction,
+    file: m => cleanPath(m[1])
+  },
+  {
+    code: 'COPY_SOURCE_NOT_FOUND',
+    category: 'missing_file',
+    severity: 'high',
+    patterns: [
+      /failed to calculate checksum of ref [^ ]+ "([^"]+)": not found/,
+      /failed to compute cache key: "([^"]+)" not found/,
+      /"([^"]+)": not found/,
+      /file not found in build context or excluded by \.dockerignore: stat (\S+): file does not exist/,
+      /COPY failed: (?:stat|lstat) (\S+): no such file or directory/,
+      /lstat (\/var\/lib\/docker\/tmp\/\S+): no such file or directory/
+    ],
+    message: m => `COPY source not found in the build context: ${cleanPath(m[1])}`,
+    suggestion: 'Add the file to the build context, fix the path, or check .dockerignore',
+    action: missingFileAction,
+    file: m => cleanPath(m[1])
+  },
+  {
+    code: 'CHECKSUM_MISMATCH',
+    category: 'dependency',
+    severity: 'high',
+    patterns: [
+      /verifying (\S+): checksum mismatch/,
+      /npm (?:ERR!|error) code EINTEGRITY/,
+      /THESE PACKAGES DO NOT MATCH THE HASHES/,
+      /Hash Sum mismatch/
+    ],
+    message: m => m[1] ? `Checksum mismatch for ${m[1]}` : 'Downloaded package does not match its recorded checksum',
+    suggestion: 'Regenerate the lockfile/go.sum, or retry if a mirror served a stale file',
+    action: 'manual_fix',
+    packageName: m => m[1]
+  },
+  {
+    code: 'APT_INSTALL_FAILED',
+    category: 'dependency',
+    severity: 'high',
+    patterns: [
+      /E: Unable to locate package (\S+)/,
+      /E: Package '([^']+)' has no installation candidate/,
+      /E: Version '[^']+' for '([^']+)' was not found/,
+      /E: The repository '([^']+)' does not have a Release file/
+    ],
+    message: m => `apt could not install ${m[1]}`,
+    suggestion: 'Run apt-get update in the same RUN and check the package name for this base image\'s distribution',
+    action: 'manual_fix',
+    packageName: m => m[1]
+  },
+  {
+    code: 'APK_INSTALL_FAILED',
+    category: 'dependency',
+    severity: 'high',
+    patterns: [/^\s*(\S+) \(no such package\)/],
+    message: m => `apk could not install ${m[1]}`,
+    suggestion: 'Check the package name for this Alpine release',
+    action: 'manual_fix',
+    packageName: m => m[1]
+  },
+  {
+    code: 'PIP_INSTALL_FAILED',
+    category: 'missing_file',
+    severity: 'high',
+    patterns: [/Could not open requirements file: \[Errno 2\] No such file or directory: '([^']+)'/],
+    message: m => `pip requirements file not found: ${m[1]}`,
+    suggestion: 'COPY the requirements file before running pip install',
+    action: missingFileAction,
+    file: m => cleanPath(m[1])
+  },
+  {
+    code: 'PIP_INSTALL_FAILED',
+    category: 'dependency',
+    severity: 'high',
+    patterns: [
+      /Could not find a version that satisfies the requirement (\S+)/,
+      /No matching distribution found for (\S+)/,
+      /Failed building wheel for (\S+)/,
+      /error: subprocess-exited-with-error/
+    ],
+    message: m => m[1] ? `pip could not install ${m[1]}` : 'pip failed to build a package',
+    suggestion: 'Check the pinned version exists for this Python version, and install build tools for packages without wheels',
+    action: 'manual_fix',
+    packageName: m => m[1]
+  },
+  {
+    code: 'NPM_INSTALL_FAILED',
+    category: 'missing_file',
+    severity: 'high',
+    patterns: [
+      /The `npm ci` command can only install with an existing (package-lock\.json)/,
+      /npm (?:ERR!|error) enoent Could not read (package\.json)/,
+      /ERR_PNPM_NO_LOCKFILE|(pnpm-lock\.yaml) is absent/
+    ],
+    message: m => `${first(m) || 'Lockfile'} is missing`,
+    suggestion: 'Commit the lockfile and COPY it before installing, or use npm install instead of npm ci',
+    action: 'manual_fix',
+    file: m => first(m) || 'pnpm-lock.yaml'
+  },
+  {
+    code: 'NPM_INSTALL_FAILED',
+    category: 'dependency',
+    severity: 'high',
+    patterns: [
+      /npm (?:ERR!|error) 404 .*GET \S+\/(@?[^\s/]+(?:%2f[^\s/]+)?) - Not found/i,
+      /Couldn't find package "([^"]+)"/,
+      /npm (?:ERR!|error) code (ERESOLVE)/,
+      /can only install packages when your package\.json and package-lock\.json .*are in sync/,
+      /ERR_PNPM_(\w+)/,
+      /npm (?:ERR!|error) code (E\w+)/
+    ],
+    message: m => {
+      if (m[1] === 'ERESOLVE') return 'npm could not resolve the dependency tree'
+      if (/in sync/.test(m[0])) return 'package.json and package-lock.json are out of sync'
+      if (/^(E[A-Z0-9]+|[A-Z_]+)$/.test(m[1] || '')) return `Package install failed with ${m[1]}`
+      return m[1] ? `Package install failed: ${decodeURIComponent(m[1])}` : 'Package install failed'
+    },
+    suggestion: 'Update the lockfile locally (npm install) and commit it; for ERESOLVE fix the peer dependency versions',
+    action: 'manual_fix',
+    packageName: m => /^(E[A-Z0-9]+|[A-Z_]+)$/.test(m[1] || '') ? undefined : m[1] && decodeURIComponent(m[1])
+  },
+  {
+    code: 'PERMISSION_DENIED',
+    category: 'permission',
+    severity: 'medium',
+    patterns: [/(\S+): Permission denied/, /permission denied/i, /\bEACCES\b/, /Operation not permitted/],
+    message: m => m[1] ? `Permission denied: ${m[1]}` : 'Permission denied',
+    suggestion: 'chmod +x scripts before running them, or run the step as a user that owns the files',
+    action: 'fix_permission',
+    file: m => cleanPath(m[1])
+  },
+  {
+    code: 'INVALID_IMAGE_NAME',
+    category: 'syntax',
+    severity: 'high',
+    patterns: [
+      /invalid tag "([^"]+)"/,
+      /invalid argument "([^"]+)" for "-t, --tag" flag/,
+      /repository name must be lowercase/,
+      /invalid reference format/
+    ],
+    message: m => m[1] ? `Invalid image name: ${m[1]}` : 'Invalid image name or tag',
+    suggestion: 'Use a lowercase image name with only [a-z0-9._-/] and a valid tag',
+    action: 'fix_tag_case',
+    image: m => m[1]
+  },
+  {
+    code: 'LANGUAGE_MISMATCH',
+    category: 'syntax',
+    severity: 'high',
+    patterns: [/named files must be \.go files: (\S+)/],
+    message: m => `Go compiler was asked to build ${m[1]}`,
+    suggestion: 'Use the base image and build command for the file\'s language',
+    action: 'manual_fix',
+    file: m => m[1]
+  },
+  {
+    code: 'COMMAND_FAILED',
+    category: 'command',
+    severity: 'high',
+    patterns: [
+      /process "(.+)" did not complete successfully: exit code: (\d+)/,
+      /The command '(.+)' returned a non-zero code: (\d+)/
+    ],
+    message: m => `Command failed with exit code ${m[2]}: ${m[1].replace(/^\/bin\/sh -c /, '')}`,
+    suggestion: 'Check the output of the failing step above',
+    action: 'manual_fix',
+    exitCode: m => Number(m[2])
+  }
+]
+
+interface StepInfo {
+  stage?: string
+  step?: string
+  instruction?: string
+}
+
+// BuildKit prefixes output lines with "#<vertex> <seconds> "
+const VERTEX_PREFIX = /^#(\d+) (?:\d+\.\d+ )?/
+const BUILDKIT_STEP = /^#(\d+) \[(?:([^\s\]]+) )?(\d+\/\d+)\] (.+)$/
+const BUILDKIT_FAILED_STEP = /^\s*> \[(?:([^\s\]]+) )?(\d+\/\d+)\] (.+?):?\s*$/
+const LEGACY_STEP = /^Step (\d+\/\d+) : (.+)$/
+const DOCKERFILE_LINE = /^(?:\S*\/)?\S*Dockerfile\S*:(\d+)$/
+const POINTER_LINE = /^\s*(\d+) \| >>>/
+
+/**
+ * Split a log into lines, dropping terminal colour codes and BuildKit's
+ * in-place progress carriage returns.
+ */
+function logLines(log: string): string[] {
+  return log
+    .replace(/\u001b\[[0-9;]*m/g, '')
+    .split(/\r?\n/)
+    .map(line => line.split('\r').pop() || '')
+}
+
+function locateSteps(lines: string[]) {
+  const vertices = new Map<string, StepInfo>()
+  const legacy: Array<StepInfo & { index: number }> = []
+  let failed: StepInfo | undefined
+  let failedLine: number | undefined
+  let legacyStage: string | undefined
+  let legacyStageIndex = -1
+
+  lines.forEach((line, index) => {
+    let m = line.match(BUILDKIT_STEP)
+    if (m) {
+      vertices.set(m[1], { stage: m[2], step: m[3], instruction: m[4] })
+      return
+    }
+    if ((m = line.match(BUILDKIT_FAILED_STEP))) {
+      failed = { stage: m[1], step: m[2], instruction: m[3] }
+      return
+    }
+    if ((m = line.match(DOCKERFILE_LINE) || line.match(POINTER_LINE))) {
+      failedLine = Number(m[1])
+      return
+    }
+    if ((m = line.match(LEGACY_STEP))) {
+      const from = m[2].match(/^FROM\s+(?:--\S+\s+)*\S+(?:\s+AS\s+(\S+))?/i)
+      if (from) {
+        legacyStageIndex++
+        legacyStage = from[1] || `stage-${legacyStageIndex}`
+      }
+      legacy.push({ index, stage: legacyStage, step: m[1], instruction: m[2] })
+    }
+  })
+
+  return (index: number): StepInfo & { line?: number } => {
+    const vertex = lines[index].match(VERTEX_PREFIX)
+    const step = (vertex && vertices.get(vertex[1]))
+      || [...legacy].reverse().find(s => s.index < index)
+      || failed
+    if (!step) return { line: failedLine }
+    const isFailedStep = failed && step.step === failed.step && step.stage === failed.stage
+    return {
+      stage: step.stage,
+      step: step.step,
+      instruction: step.instruction,
+      line: isFailedStep ? failedLine : undefined
+    }
+  }
+}
+
+function buildError(signature: BuildErrorSignature, m: Captures, excerpt: string): BuildError {
+  const file = signature.file?.(m)
+  const error: BuildError = {
+    code: signature.code,
+    category: signature.category,
+    severity: signature.severity,
+    message: signature.message(m),
+    suggestion: signature.suggestion,
+    action: typeof signature.action === 'function' ? signature.action(file) : signature.action,
+    retryable: signature.retryable ?? false,
+    excerpt
+  }
+  const optional = {
+    file,
+    packageName: signature.packageName?.(m),
+    image: signature.image?.(m),
+    line: signature.line?.(m),
+    exitCode: signature.exitCode?.(m)
+  }
+  for (const [key, value] of Object.entries(optional)) {
+    if (value !== undefined && value !== '') (error as any)[key] = value
+  }
+  return error
+}
+
+/**
+ * Classify every recognised error in a BuildKit or legacy builder log.
+ * Results are ordered by signature priority, so the first entry is the most
+ * specific root cause; duplicates (the same error echoed in the summary) are
+ * dropped.
+ */
+export function classifyBuildLog(log: string): BuildError[] {
+  const lines = logLines(log)
+  const locate = locateSteps(lines)
+  const found: Array<{ priority: number; index: number; error: BuildError }> = []
+  const seen = new Set<string>()
+
+  lines.forEach((raw, index) => {
+    const line = raw.replace(VERTEX_PREFIX, '').trim()
+    if (!line) return
+
+    for (let priority = 0; priority < BUILD_ERROR_SIGNATURES.length; priority++) {
+      const signature = BUILD_ERROR_SIGNATURES[priority]
+      const m = signature.patterns.map(p => line.match(p)).find(Boolean)
+      if (!m) continue
+
+      const error = buildError(signature, m, line)
+      const key = [error.code, error.file, error.packageName, error.image].join('|')
+      if (!seen.has(key)) {
+        seen.add(key)
+        const location = locate(index)
+        for (const [k, value] of Object.entries(location)) {
+          if (value !== undefined && (error as any)[k] === undefined) (error as any)[k] = value
+        }
+        found.push({ priority, index, error })
+      }
+      break
+    }
+  })
+
+  return found
+    .sort((a, b) => a.priority - b.priority || a.index - b.index)
+    .map(f => f.error)
+}
+
+/**
+ * The most specific error in a log, or an UNKNOWN error carrying the last
+ * non-empty line when nothing matched.
+ */
+export function classifyBuildError(log: string): BuildError {
+  const [primary] = classifyBuildLog(log)
+  if (primary) return primary
+
+  const excerpt = logLines(log).map(l => l.replace(VERTEX_PREFIX, '').trim()).filter(Boolean).pop() || ''
+  return {
+    code: 'UNKNOWN',
+    category: 'unknown',
+    severity: 'high',
+    message: excerpt || 'Docker build failed',
+    suggestion: 'Check the full build output',
+    action: 'manual_fix',
+    retryable: false,
+    excerpt
+  }
+}
+
+/**
+ * Crash signatures for containers started from a freshly built image. Kept
+ * apart from BUILD_ERROR_SIGNATURES so build logs are never read as runtime
+ * failures or the other way round.
+ */
+export const RUNTIME_ERROR_SIGNATURES: BuildErrorSignature[] = [
+  {
+    code: 'ENTRYPOINT_NOT_FOUND',
+    category: 'runtime',
+    severity: 'high',
+    patterns: [
+      /exec: "([^"]+)": (?:executable file not found in \$PATH|stat [^:]+: no such file or directory)/,
+      /exec (\S+): no such file or directory/,
+      /can't open file '([^']+)'/,
+      /^(?:\/bin\/)?sh: (?:\d+: )?(\S+): not found$/
+    ],
+    message: m => `Start command ${m[1]} does not exist in the image`,
+    suggestion: 'Point CMD/ENTRYPOINT at a file or binary that exists in the final stage',
+    action: 'fix_command',
+    file: m => m[1]
+  },
+  {
+    code: 'MODULE_NOT_FOUND',
+    category: 'runtime',
+    severity: 'high',
+    patterns: [
+      /Error: Cannot find module '([^']+)'/,
+      /ModuleNotFoundError: No module named '([^']+)'/,
+      /cannot load such file -- (\S+)/,
+      /Could not find or load main class (\S+)/
+    ],
+    message: m => /^[./]/.test(m[1]) ? `Entry file ${m[1]} is not in the image` : `Module ${m[1]} is not installed in the image`,
+    suggestion: 'Install the dependency in the final stage, or copy the build output the start command expects',
+    action: file => file ? 'fix_command' : 'manual_fix',
+    file: m => /^[./]/.test(m[1]) ? m[1] : undefined,
+    packageName: m => /^[./]/.test(m[1]) ? undefined : m[1]
+  },
+  {
+    code: 'RUNTIME_SYNTAX_ERROR',
+    category: 'runtime',
+    severity: 'high',
+    patterns: [/^(SyntaxError|IndentationError|TabError): (.+)$/],
+    message: m => `${m[1]} at startup: ${m[2]}`,
+    suggestion: 'The image runs code the runtime cannot parse; check the language version of the base image',
+    action: 'manual_fix'
+  },
+  {
+    code: 'PORT_PERMISSION_DENIED',
+    category: 'runtime',
+    severity: 'high',
+    patterns: [
+      /listen EACCES:? permission denied (?:\S*:)?(\d+)/,
+      /bind\(\) to \S+:(\d+) failed \(13: Permission denied\)/,
+      /listen tcp \S*:(\d+): bind: permission denied/
+    ],
+    message: m => `Not allowed to listen on port ${m[1]}`,
+    suggestion: 'Non-root users cannot bind ports below 1024; listen on a higher port',
+    action: 'manual_fix'
+  },
+  {
+    code: 'MISSING_ENV_VAR',
+    category: 'runtime',
+    severity: 'medium',
+    patterns: [
+      /KeyError: '([A-Z][A-Z0-9_]*)'/,
+      /(?:environment variable|env var)\s+["'`]?([A-Z][A-Z0-9_]*)["'`]?\s+(?:is\s+)?(?:required|not set|missing|undefined)/i,
+      /Missing (?:required )?environment variables?:?\s+["'`]?([A-Z][A-Z0-9_]*)/i,
+      /\b([A-Z][A-Z0-9_]{2,}) (?:is not set|must be set|is required)\b/
+    ],
+    message: m => `Environment variable ${m[1]} is not set`,
+    suggestion: 'Set it on the deployment target; the sandbox runs without the app\'s configuration',
+    action: 'manual_fix',
+    packageName: m => m[1]
+  },
+  {
+    code: 'DEPENDENCY_UNREACHABLE',
+    category: 'runtime',
+    severity: 'medium',
+    patterns: [
+      /getaddrinfo (?:ENOTFOUND|EAI_AGAIN) ([\w.-]+)/,
+      /connect ECONNREFUSED (\S+)/,
+      /could not translate host name "([^"]+)"/,
+      /dial tcp(?: \S+)?: lookup ([\w.-]+)/,
+      /Temporary failure in name resolution|Name or service not known/,
+      /Connection refused|Network is unreachable/
+    ],
+    message: m => m[1] ? `Could not reach ${m[1]}` : 'Could not reach a network dependency',
+    suggestion: 'The service needs its database or API to start; the sandbox runs without network access',
+    action: 'manual_fix'
+  }
+]
+
+/** What is known about the container besides its output */
+export interface RuntimeFacts {
+  running: boolean
+  exitCode?: number
+  oomKilled?: boolean
+  port?: number // Port the image declares
+  listeningPorts?: number[] // TCP ports the container listens on, when they could be read
+}
+
+function runtimeError(code: BuildErrorCode, fields: Omit<BuildError, 'code' | 'category' | 'retryable'>): BuildError {
+  return { code, category: 'runtime', retryable: false, ...fields }
+}
+
+/**
+ * Explain why a container did not come up: a recognised crash in its output
+ * first, then what its state says (killed, exited, wrong port).
+ */
+export function classifyRuntimeFailure(log: string, facts: RuntimeFacts): BuildError {
+  const lines = logLines(log).map(l => l.trim()).filter(Boolean)
+  const excerpt = lines[lines.length - 1] || ''
+
+  if (facts.oomKilled || (!facts.running && facts.exitCode === 137)) {
+    return runtimeError('CONTAINER_OOM', {
+      severity: 'high',
+      message: 'Container was killed for running out of memory',
+      suggestion: 'Lower memory use at startup or give the service more memory',
+      action: 'manual_fix',
+      exitCode: facts.exitCode,
+      excerpt
+    })
+  }
+
+  for (const signature of RUNTIME_ERROR_SIGNATURES) {
+    for (const line of lines) {
+      const m = signature.patterns.map(p => line.match(p)).find(Boolean)
+      if (!m) continue
+      const error = buildError(signature, m, line)
+      if (facts.exitCode !== undefined && !facts.running) error.exitCode = facts.exitCode
+      return error
+    }
+  }
+
+  if (facts.running && facts.port !== undefined) {
+    const other = facts.listeningPorts?.find(p => p !== facts.port)
+    return runtimeError('PORT_NOT_LISTENING', {
+      severity: 'high',
+      message: other !== undefined
+        ? `Process listens on port ${other}, not on the declared port ${facts.port}`
+        : `Nothing listens on the declared port ${facts.port}`,
+      suggestion: other !== undefined
+        ? `EXPOSE ${other}, or make the app listen on $PORT`
+        : 'Make the app listen on 0.0.0.0 and the port the image EXPOSEs',
+      action: other !== undefined ? 'fix_port' : 'manual_fix',
+      port: other,
+      excerpt
+    })
+  }
+
+  const exitCode = facts.exitCode ?? 1
+  return runtimeError('CONTAINER_EXITED', {
+    severity: 'high',
+    message: exitCode === 0
+      ? 'Process exited with code 0 right after starting; CMD runs a one-off command instead of a server'
+      : `Process exited with code ${exitCode}${excerpt ? `: ${excerpt}` : ''}`,
+    suggestion: 'Make CMD start the long-running server process',
+    action: exitCode === 0 ? 'fix_command' : 'manual_fix',
+    exitCode,
+    excerpt
+  })
+}
@@ -1,4 +1,5 @@
 // Export all shared types and utilities
 export * from './api'
+export * from './buildErrors'
 export * from './types'
 export * from './utils'
@@ -14,6 +14,129 @@ export type Database = {
   }
   public: {
     Tables: {
+      deployments: {
+        Row: {
+          analysis: Json | null
+          build_options: Json | null
+          completed_at: string | null
+          created_at: string
+          deployment_id: string | null
+          deployment_stack: string[] | null
+          deployment_url: string | null
+          dockerfile_content: string | null
+          error_message: string | null
+          generated_files: Json | null
+          id: number
+          image_name: string | null
+          logs: Json
+          prompt: string
+          pushed_images: Json | null
+          repo_link: string | null
+          security_reports: Json | null
+          secret_findings: Json | null
+          source: string | null
+          status: string
+          status_history: Json
+          target_deployment: Json | null
+          updated_at: string
+          user_id: string | null
+          webhook_response: string | null
+        }
+        Insert: {
+          analysis?: Json | null
+          build_options?: Json | null
+          completed_at?: string | null
+          created_at?: string
+          deployment_id?: string | null
+          deployment_stack?: string[] | null
+          deployment_url?: string | null
+          dockerfile_content?: string | null
+          error_message?: string | null
+          generated_files?: Json | null
+          id?: number
+          image_name?: string | null
+          logs?: Json
+          prompt: string
+          pushed_images?: Json | null
+          repo_link?: string | null
+          security_reports?: Json | null
+          secret_findings?: Json | null
+          source?: string | null
+          status?: string
+          status_history?: Json
+          target_deployment?: Json | null
+          updated_at?: string
+          user_id?: string | null
+          webhook_response?: string | null
+        }
+        Update: {
+          analysis?: Json | null
+          build_options?: Json | null
+          completed_at?: string | null
+          created_at?: string
+          deployment_id?: string | null
+          deployment_stack?: string[] | null
+          deployment_url?: string | null
+          dockerfile_content?: string | null
+          error_message?: string | null
+          generated_files?: Json | null
+          id?: number
+          image_name?: string | null
+          logs?: Json
+          prompt?: string
+          pushed_images?: Json | null
+          repo_link?: string | null
+          security_reports?: Json | null
+          secret_findings?: Json | null
+          source?: string | null
+          status?: string
+          status_history?: Json
+          target_deployment?: Json | null
+          updated_at?: string
+          user_id?: string | null
+          webhook_response?: string | null
+        }
+        Relationships: []
+      }
+      user_credentials: {
+        Row: {
+          created_at: string
+          id: string
+          key_id: string
+          kind: string
+          last_used_at: string | null
+          metadata: Json
+          name: string
+          secret: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id: string
+          key_id: string
+          kind: string
+          last_used_at?: string | null
+          metadata?: Json
+          name: string
+          secret: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          key_id?: string
+          kind?: string
+          last_used_at?: string | null
+          metadata?: Json
+          name?: string
+          secret?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user: {
         Row: {
           created_at: string
@@ -43,7 +166,10 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      append_deployment_logs: {
+        Args: { p_deployment_id: string; p_lines: Json }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -21,6 +21,251 @@ export interface Deployment {
   updatedAt: string
 }
 
+export type DeploymentStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+
+export type DeploymentSource = 'repo' | 'upload'
+
+export interface DeploymentStatusTransition {
+  status: DeploymentStatus
+  phase?: string
+  message?: string
+  at: string
+}
+
+// Persisted record of a single pipeline run (see backend/lib/deploymentRepository.ts)
+/**
+ * BuildKit options an image was built with. Only secret ids are recorded,
+ * never their values.
+ */
+export interface DeploymentBuildOptions {
+  buildArgs?: Record<string, string>
+  target?: string
+  platforms?: string[]
+  cacheFrom?: string[]
+  cacheTo?: string[]
+  labels?: Record<string, string>
+  noCache?: boolean
+  pull?: boolean
+  secrets?: string[]
+}
+
+/**
+ * Where an image was deployed, as returned by a deployment target. Enough to
+ * query, roll back or tear down the deployment later.
+ */
+export interface TargetDeployment {
+  target: string
+  resourceId: string
+  image: string
+  url?: string
+  revision?: string
+  previousRevision?: string
+  previousImage?: string
+  deployedAt: string
+  details?: Record<string, unknown>
+}
+
+export type VulnerabilitySeverity = 'critical' | 'high' | 'medium' | 'low' | 'unknown'
+
+/** One advisory matching one installed package */
+export interface VulnerabilityFinding {
+  id: string
+  aliases?: string[]
+  package: string
+  version: string
+  packageType: string // deb, apk, rpm, npm, pypi, golang
+  severity: VulnerabilitySeverity
+  score?: number // CVSS base score
+  fixedVersion?: string // Lowest version with the fix
+  summary?: string
+}
+
+/**
+ * What an image ships: SBOM summary, vulnerabilities matched against the
+ * offline database, and the push policy verdict. The SBOM documents
+ * themselves are stored as files next to the deployment store.
+ */
+export interface ImageSecurityReport {
+  image: string
+  imageId?: string
+  generatedAt: string
+  os?: { id: string; version?: string; name?: string }
+  baseImage?: string
+  packages: number
+  packagesByType: Record<string, number>
+  sbom: { cyclonedx: string; spdx: string } // File paths
+  database: { source: string; updatedAt?: string; advisories: number } | null // Null when no snapshot is configured
+  counts: Record<VulnerabilitySeverity, number>
+  fixable: number
+  findings: VulnerabilityFinding[]
+  recommendations: string[]
+  notes: string[] // Parts of the image that could not be inspected
+  policy?: { passed: boolean; violations: string[] }
+}
+
+export type SecretSeverity = 'high' | 'medium' | 'low'
+
+/**
+ * A credential found in the project files, the Dockerfile or a built
+ * image. The matched value itself is never stored, only a redacted preview.
+ */
+export interface SecretFinding {
+  file: string // Project path, the Dockerfile path, or `image:<name>` for image metadata
+  line?: number
+  rule: string // e.g. aws-access-key, private-key, env-file
+  description: string
+  severity: SecretSeverity
+  preview?: string // Redacted match, e.g. "AKIA…MPLE"
+  excluded: boolean // Left out of the build context through .dockerignore
+}
+
+export type CredentialKind = 'github' | 'github-app' | 'dockerhub' | 'ghcr' | 'ecr' | 'registry' | 'cloud'
+
+/** Registry families with their own naming rules and login conventions */
+export type RegistryType = 'dockerhub' | 'ghcr' | 'ecr' | 'gcr' | 'artifact-registry' | 'acr' | 'harbor' | 'generic'
+
+/** Non-secret settings of a stored credential */
+export interface CredentialMetadata {
+  username?: string // Registry login
+  registry?: string // Registry host, e.g. ghcr.io or <account>.dkr.ecr.<region>.amazonaws.com
+  namespace?: string // Repository prefix for pushed images; defaults to the username
+  registryType?: RegistryType // Registry credentials; detected from the host when absent
+  insecure?: boolean // Plain-HTTP registry such as a local registry:2
+  region?: string // ECR
+  appId?: string // GitHub App
+  installationId?: string // GitHub App
+  target?: string // Deployment target the cloud credential is for, e.g. aws
+  envNames?: string[] // Variables a cloud credential provides
+}
+
+/**
+ * A stored credential as the API returns it. The secret is encrypted at
+ * rest and never sent back once it has been saved.
+ */
+export interface CredentialSummary {
+  id: string
+  kind: CredentialKind
+  name: string
+  metadata: CredentialMetadata
+  keyId: string // Encryption key the secret is currently sealed with
+  createdAt: string
+  updatedAt: string
+  lastUsedAt?: string
+}
+
+/** An image as it was pushed; the digest pins exactly what was deployed */
+export interface PushedImage {
+  image: string // Reference with its tag
+  registry: string
+  digest?: string // sha256:…, when the registry reported one
+  pushedAt: string
+}
+
+/** A path left out of an upload, and why */
+export interface SkippedUpload {
+  path: string
+  reason: string
+}
+
+/** What was taken from an upload, reported back to the client */
+export interface UploadReport {
+  archive?: string // Name of the extracted zip or tar.gz
+  files: number
+  bytes: number
+  binaryFiles: number // Kept byte for byte, not decoded for analysis
+  skipped: SkippedUpload[]
+  limits: {
+    maxFileBytes: number
+    maxTotalBytes: number
+    maxFiles: number
+  }
+}
+
+/**
+ * One event on the stream of a long-running job (deployment, analysis,
+ * upload, auto-fix). `id` counts up per job; clients resume by sending the
+ * last one they saw as `Last-Event-ID`.
+ */
+export type JobEvent = {
+  id: number
+  jobId: string
+  at: string
+} & (
+  | { type: 'phase-start', phase: string, message?: string }
+  | { type: 'log', level: JobLogLevel, message: string, phase?: string }
+  | { type: 'progress', phase?: string, progress?: number, message?: string, data?: Record<string, unknown> }
+  | { type: 'artifact', name: string, data: unknown }
+  | { type: 'error', error: string, code?: string }
+  | { type: 'done', success: boolean, result?: Record<string, unknown> }
+)
+
+export type JobEventType = JobEvent['type']
+
+export type JobLogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/** Messages a client sends on the event WebSocket */
+export type JobSocketRequest =
+  | { type: 'subscribe', jobId: string, lastEventId?: number, ticket?: string }
+  | { type: 'unsubscribe', jobId: string }
+
+/** Sent on the event WebSocket instead of events when a subscription is refused */
+export interface JobSocketRejection {
+  type: 'rejected'
+  jobId: string
+  error: string
+}
+
+/** Pipeline messages, or the raw output of Docker builds */
+export type LogStream = 'pipeline' | 'build'
+
+/**
+ * One structured log record, written to stdout as a JSON line and kept with
+ * the deployment it belongs to (GET /api/deployments/:id/logs)
+ */
+export interface LogRecord {
+  time: string
+  level: JobLogLevel
+  module: string // Source module, e.g. autoDeploy or dockerBuild
+  stream: LogStream
+  message: string
+  deploymentId?: string
+  step?: string
+  fields?: Record<string, unknown>
+}
+
+export interface DeploymentRecord {
+  id: string
+  userId: string | null
+  source: DeploymentSource
+  repoUrl?: string
+  prompt?: string
+  status: DeploymentStatus
+  statusHistory: DeploymentStatusTransition[]
+  dockerfile?: string
+  analysis?: unknown
+  generatedFiles?: unknown[]
+  imageName?: string
+  pushedImages?: PushedImage[]
+  buildOptions?: DeploymentBuildOptions
+  targetDeployment?: TargetDeployment
+  securityReports?: ImageSecurityReport[] // One per built image
+  secretFindings?: SecretFinding[]
+  deploymentUrl?: string
+  error?: string
+  logs: string[]
+  createdAt: string
+  updatedAt: string
+  completedAt?: string
+}
+
+export interface DeploymentQuery {
+  userId?: string
+  status?: DeploymentStatus
+  repo?: string
+  page?: number
+  pageSize?: number
+}
+
 export interface DockerBuildResult {
   success: boolean
   imageId?: string
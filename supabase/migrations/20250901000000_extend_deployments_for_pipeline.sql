@@ -0,0 +1,21 @@
+-- Extend deployments table so every pipeline run can be recorded and retrieved
+ALTER TABLE deployments
+ADD COLUMN IF NOT EXISTS deployment_id TEXT UNIQUE,
+ADD COLUMN IF NOT EXISTS source VARCHAR(20) DEFAULT 'repo' CHECK (source IN ('repo', 'upload')),
+ADD COLUMN IF NOT EXISTS analysis JSONB,
+ADD COLUMN IF NOT EXISTS generated_files JSONB,
+ADD COLUMN IF NOT EXISTS image_name TEXT,
+ADD COLUMN IF NOT EXISTS logs JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS status_history JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Uploaded projects have no repository link, and runs may be started anonymously
+ALTER TABLE deployments ALTER COLUMN repo_link DROP NOT NULL;
+ALTER TABLE deployments ALTER COLUMN user_id DROP NOT NULL;
+
+-- Create indexes for lookups by pipeline id and repository
+CREATE INDEX IF NOT EXISTS idx_deployments_deployment_id ON deployments(deployment_id);
+CREATE INDEX IF NOT EXISTS idx_deployments_repo_link ON deployments(repo_link);
+
+COMMENT ON COLUMN deployments.deployment_id IS 'Pipeline run identifier returned by the API (deploy-...)';
+COMMENT ON COLUMN deployments.logs IS 'Accumulated pipeline and build log lines';
+COMMENT ON COLUMN deployments.status_history IS 'Ordered list of status transitions with phase and timestamp';
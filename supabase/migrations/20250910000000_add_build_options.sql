@@ -0,0 +1,5 @@
+-- Record the BuildKit options each deployment was built with
+ALTER TABLE deployments
+ADD COLUMN IF NOT EXISTS build_options JSONB;
+
+COMMENT ON COLUMN deployments.build_options IS 'Build args, target, platforms, cache and labels used for the image build; secret ids only';
@@ -0,0 +1,5 @@
+-- SBOM summary and vulnerability findings for each image a deployment built
+ALTER TABLE deployments
+ADD COLUMN IF NOT EXISTS security_reports JSONB;
+
+COMMENT ON COLUMN deployments.security_reports IS 'Per-image SBOM summary, vulnerability counts and findings, and push policy verdict';
@@ -0,0 +1,5 @@
+-- Credentials detected in a deployment's files, Dockerfile and built images
+ALTER TABLE deployments
+ADD COLUMN IF NOT EXISTS secret_findings JSONB;
+
+COMMENT ON COLUMN deployments.secret_findings IS 'Detected secrets with file, line, rule and a redacted preview; values are never stored';
@@ -0,0 +1,30 @@
+-- Per-user credentials (GitHub tokens and apps, registry logins, cloud keys).
+-- Secrets are encrypted by the backend with AES-256-GCM before they are
+-- written; this table only ever holds ciphertext.
+CREATE TABLE IF NOT EXISTS user_credentials (
+  id TEXT PRIMARY KEY,
+  user_id UUID NOT NULL,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('github', 'github-app', 'dockerhub', 'ghcr', 'ecr', 'registry', 'cloud')),
+  name TEXT NOT NULL,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  secret JSONB NOT NULL,
+  key_id TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_credentials_user_id ON user_credentials(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_credentials_key_id ON user_credentials(key_id);
+
+-- Only the service role reads or writes credentials; there are deliberately
+-- no policies, so clients cannot fetch even the ciphertext directly
+ALTER TABLE user_credentials ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_user_credentials_updated_at
+  BEFORE UPDATE ON user_credentials
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN user_credentials.secret IS 'AES-256-GCM ciphertext with its key id, IV and auth tag';
+COMMENT ON COLUMN user_credentials.key_id IS 'Encryption key the secret is sealed with; rows on an old key are re-encrypted on rotation';
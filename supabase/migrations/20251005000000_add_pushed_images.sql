@@ -0,0 +1,5 @@
+-- Images pushed by a deployment, with the digest each registry reported
+ALTER TABLE deployments
+ADD COLUMN IF NOT EXISTS pushed_images JSONB;
+
+COMMENT ON COLUMN deployments.pushed_images IS 'Pushed images as {image, registry, digest, pushedAt}; the digest identifies exactly what was deployed';
@@ -0,0 +1,16 @@
+-- Append log lines in one statement, so concurrent writers never overwrite each other's lines
+CREATE OR REPLACE FUNCTION append_deployment_logs(p_deployment_id TEXT, p_lines JSONB)
+RETURNS VOID
+LANGUAGE SQL
+AS $$
+  UPDATE deployments
+  SET logs = COALESCE(logs, '[]'::jsonb) || p_lines,
+      updated_at = NOW()
+  WHERE deployment_id = p_deployment_id;
+$$;
+
+-- Only the server, through the service role, writes pipeline logs
+REVOKE EXECUTE ON FUNCTION append_deployment_logs(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION append_deployment_logs(TEXT, JSONB) TO service_role;
+
+COMMENT ON FUNCTION append_deployment_logs(TEXT, JSONB) IS 'Atomically appends a JSON array of log lines to deployments.logs';